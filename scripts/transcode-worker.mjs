@@ -0,0 +1,295 @@
+// Transcoding worker: claims jobs from the transcode queue, turns each uploaded master into an
+// HLS ladder (fMP4/CMAF segments) with ffmpeg, and uploads the renditions and master playlist
+// back to the bucket. Completing the job adds the video_sources row.
+//
+//   SUPABASE_URL=https://<project>.supabase.co TRANSCODE_WORKER_SECRET=... npm run transcode:worker
+//
+// Needs ffmpeg and ffprobe on PATH. Optional: TRANSCODE_WORKER_ID (defaults to host-pid),
+// TRANSCODE_WORK_DIR (defaults to the OS temp dir), TRANSCODE_POLL_SECONDS (default 15).
+// Ctrl+C stops the current job and hands it back to the queue.
+
+import { spawn } from "node:child_process";
+import { mkdtempSync, readdirSync, readFileSync, rmSync, statSync } from "node:fs";
+import { hostname, tmpdir } from "node:os";
+import { join, relative, sep } from "node:path";
+
+const API_URL = `${process.env.SUPABASE_URL}/functions/v1/transcode-worker`;
+const SECRET = process.env.TRANSCODE_WORKER_SECRET;
+const WORKER_ID = process.env.TRANSCODE_WORKER_ID || `${hostname()}-${process.pid}`;
+const WORK_DIR = process.env.TRANSCODE_WORK_DIR || tmpdir();
+const POLL_MS = (Number(process.env.TRANSCODE_POLL_SECONDS) || 15) * 1000;
+
+const PROGRESS_INTERVAL_MS = 10_000;
+const SEGMENT_SECONDS = 6;
+const SIGN_BATCH = 200;
+const PARALLEL_UPLOADS = 4;
+// Transcoding counts for this share of the progress bar, uploading for the rest
+const TRANSCODE_SHARE = 90;
+
+// Highest first; renditions taller than the master are skipped
+const LADDER = {
+  "1080p": { height: 1080, bitrate: "5000k", maxrate: "5350k", bufsize: "7500k" },
+  "720p": { height: 720, bitrate: "2800k", maxrate: "2996k", bufsize: "4200k" },
+  "480p": { height: 480, bitrate: "1400k", maxrate: "1498k", bufsize: "2100k" },
+  "360p": { height: 360, bitrate: "800k", maxrate: "856k", bufsize: "1200k" },
+};
+
+const CONTENT_TYPES = {
+  ".m3u8": "application/vnd.apple.mpegurl",
+  ".m4s": "video/iso.segment",
+  ".mp4": "video/mp4",
+};
+
+let stopping = false;
+let activeChild = null;
+
+const sleep = (ms) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const api = async (action, payload = {}) => {
+  const response = await fetch(API_URL, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", "x-worker-secret": SECRET },
+    body: JSON.stringify({ action, workerId: WORKER_ID, ...payload }),
+  });
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok) throw new Error(body.error || `transcode-worker ${action}: HTTP ${response.status}`);
+  return body;
+};
+
+// Logs go to the console and to the job, where the admin UI shows them
+const log = async (jobId, level, message) => {
+  console[level === "info" ? "log" : level](`[${new Date().toISOString()}] ${jobId.slice(0, 8)} ${message}`);
+  await api("log", { jobId, level, message }).catch((error) => console.warn("Could not store log line:", error.message));
+};
+
+const run = (command, args, { onStdout } = {}) =>
+  new Promise((resolve, reject) => {
+    const child = spawn(command, args, { stdio: ["ignore", "pipe", "pipe"] });
+    activeChild = child;
+    let stdout = "";
+    const stderrTail = [];
+
+    child.stdout.on("data", (chunk) => {
+      const text = chunk.toString();
+      if (onStdout) onStdout(text);
+      else stdout += text;
+    });
+    child.stderr.on("data", (chunk) => {
+      stderrTail.push(...chunk.toString().split("\n").filter(Boolean));
+      stderrTail.splice(0, Math.max(0, stderrTail.length - 30));
+    });
+    child.on("error", (error) => {
+      activeChild = null;
+      reject(error);
+    });
+    child.on("close", (code, signal) => {
+      activeChild = null;
+      if (code === 0) resolve(stdout);
+      else reject(new Error(`${command} exited with ${signal ?? code}:\n${stderrTail.join("\n")}`));
+    });
+  });
+
+const probe = async (url) => {
+  const output = await run("ffprobe", ["-v", "error", "-print_format", "json", "-show_streams", "-show_format", url]);
+  const info = JSON.parse(output);
+  const video = info.streams.find((stream) => stream.codec_type === "video");
+  if (!video) throw new Error("The master has no video stream");
+  return {
+    duration: Number(info.format.duration) || 0,
+    height: Number(video.height) || 0,
+    hasAudio: info.streams.some((stream) => stream.codec_type === "audio"),
+  };
+};
+
+const ffmpegArgs = (sourceUrl, outDir, qualities, hasAudio) => {
+  const split = `[0:v]split=${qualities.length}${qualities.map((_, i) => `[v${i}]`).join("")}`;
+  const scales = qualities.map((quality, i) => `[v${i}]scale=-2:${LADDER[quality].height}[v${i}out]`);
+  const args = ["-hide_banner", "-y", "-i", sourceUrl, "-filter_complex", [split, ...scales].join(";")];
+
+  qualities.forEach((quality, i) => {
+    const { bitrate, maxrate, bufsize } = LADDER[quality];
+    args.push(
+      "-map", `[v${i}out]`,
+      `-c:v:${i}`, "libx264",
+      `-b:v:${i}`, bitrate,
+      `-maxrate:v:${i}`, maxrate,
+      `-bufsize:v:${i}`, bufsize
+    );
+    if (hasAudio) args.push("-map", "a:0", `-c:a:${i}`, "aac", `-b:a:${i}`, "128k", `-ac:a:${i}`, "2");
+  });
+
+  const streamMap = qualities
+    .map((quality, i) => (hasAudio ? `v:${i},a:${i},name:${quality}` : `v:${i},name:${quality}`))
+    .join(" ");
+
+  args.push(
+    "-preset", "veryfast",
+    "-profile:v", "main",
+    "-pix_fmt", "yuv420p",
+    // Keyframes on segment boundaries so every rendition switches cleanly
+    "-force_key_frames", `expr:gte(t,n_forced*${SEGMENT_SECONDS})`,
+    "-sc_threshold", "0",
+    "-f", "hls",
+    "-hls_time", String(SEGMENT_SECONDS),
+    "-hls_playlist_type", "vod",
+    "-hls_segment_type", "fmp4",
+    "-hls_fmp4_init_filename", "init.mp4",
+    "-hls_segment_filename", join(outDir, "%v", "segment_%05d.m4s"),
+    "-master_pl_name", "master.m3u8",
+    "-var_stream_map", streamMap,
+    "-progress", "pipe:1",
+    "-nostats",
+    join(outDir, "%v", "index.m3u8")
+  );
+  return args;
+};
+
+const listFiles = (dir) =>
+  readdirSync(dir, { withFileTypes: true }).flatMap((entry) =>
+    entry.isDirectory() ? listFiles(join(dir, entry.name)) : [join(dir, entry.name)]
+  );
+
+const uploadOutputs = async (jobId, outDir, onProgress) => {
+  const files = listFiles(outDir).map((path) => ({ path, name: relative(outDir, path).split(sep).join("/") }));
+  const totalBytes = files.reduce((total, file) => total + statSync(file.path).size, 0);
+  let sentBytes = 0;
+
+  for (let i = 0; i < files.length; i += SIGN_BATCH) {
+    const batch = files.slice(i, i + SIGN_BATCH);
+    const { urls } = await api("sign", { jobId, names: batch.map((file) => file.name) });
+    const urlByName = new Map(urls.map(({ name, url }) => [name, url]));
+    const queue = [...batch];
+
+    await Promise.all(
+      Array.from({ length: Math.min(PARALLEL_UPLOADS, queue.length) }, async () => {
+        while (queue.length > 0 && !stopping) {
+          const file = queue.shift();
+          const body = readFileSync(file.path);
+          const extension = file.name.slice(file.name.lastIndexOf("."));
+          const response = await fetch(urlByName.get(file.name), {
+            method: "PUT",
+            headers: { "Content-Type": CONTENT_TYPES[extension] ?? "application/octet-stream" },
+            body,
+          });
+          if (!response.ok) throw new Error(`Upload of ${file.name} failed: HTTP ${response.status}`);
+          sentBytes += body.length;
+          onProgress(sentBytes / totalBytes);
+        }
+      })
+    );
+    if (stopping) throw new Error("Worker stopped");
+  }
+
+  const bytesUnder = (prefix) =>
+    files.filter((file) => file.name.startsWith(prefix)).reduce((total, file) => total + statSync(file.path).size, 0);
+  return { files: files.length, totalBytes, bytesUnder };
+};
+
+const processJob = async (job) => {
+  const jobDir = mkdtempSync(join(WORK_DIR, "transcode-"));
+  let status = "running";
+  let progress = 0;
+  let lastReport = 0;
+
+  // Throttled heartbeat; also how the worker learns the job was cancelled
+  const report = async (force = false) => {
+    if (!force && Date.now() - lastReport < PROGRESS_INTERVAL_MS) return;
+    lastReport = Date.now();
+    try {
+      ({ status } = await api("progress", { jobId: job.id, progress: Math.round(progress * 100) / 100 }));
+      if (status !== "running" && activeChild) activeChild.kill("SIGTERM");
+    } catch (error) {
+      console.warn("Progress report failed:", error.message);
+    }
+  };
+
+  try {
+    await log(job.id, "info", `Probing master (attempt ${job.attempt})`);
+    const source = await probe(job.sourceUrl);
+
+    const requested = Object.keys(LADDER).filter((quality) => job.renditions.includes(quality));
+    let qualities = requested.filter((quality) => LADDER[quality].height <= source.height);
+    if (qualities.length === 0) qualities = requested.slice(-1);
+    const skipped = requested.filter((quality) => !qualities.includes(quality));
+
+    await log(
+      job.id,
+      "info",
+      `Master is ${source.height}p, ${Math.round(source.duration)}s${source.hasAudio ? "" : ", no audio"}. ` +
+        `Encoding ${qualities.join(", ")}${skipped.length ? ` (skipping ${skipped.join(", ")}: above source)` : ""}`
+    );
+
+    const outDir = join(jobDir, "out");
+    await run("ffmpeg", ffmpegArgs(job.sourceUrl, outDir, qualities, source.hasAudio), {
+      onStdout: (text) => {
+        const match = /out_time_us=(\d+)/.exec(text);
+        if (match && source.duration > 0) {
+          progress = Math.min((Number(match[1]) / 1e6 / source.duration) * TRANSCODE_SHARE, TRANSCODE_SHARE);
+          report();
+        }
+      },
+    }).catch((error) => {
+      throw status === "running" ? error : new Error("Cancelled");
+    });
+    if (status !== "running") throw new Error("Cancelled");
+
+    progress = TRANSCODE_SHARE;
+    await report(true);
+    await log(job.id, "info", "Transcode finished, uploading renditions");
+
+    const uploaded = await uploadOutputs(job.id, outDir, (share) => {
+      progress = TRANSCODE_SHARE + share * (100 - TRANSCODE_SHARE - 1);
+      report();
+    });
+    await log(job.id, "info", `Uploaded ${uploaded.files} files (${(uploaded.totalBytes / 1024 / 1024).toFixed(1)} MB)`);
+
+    await api("complete", {
+      jobId: job.id,
+      master: { path: "master.m3u8", bytes: uploaded.bytesUnder("master.m3u8") },
+      renditions: qualities.map((quality) => ({
+        quality,
+        path: `${quality}/index.m3u8`,
+        bytes: uploaded.bytesUnder(`${quality}/`),
+      })),
+    });
+    console.log(`[${new Date().toISOString()}] ${job.id.slice(0, 8)} completed`);
+  } catch (error) {
+    if (status !== "running") {
+      console.log(`[${new Date().toISOString()}] ${job.id.slice(0, 8)} stopped: job is ${status}`);
+      return;
+    }
+    const message = stopping ? "Worker stopped before finishing" : error.message;
+    const { status: next } = await api("fail", { jobId: job.id, error: message }).catch(() => ({}));
+    console.error(`[${new Date().toISOString()}] ${job.id.slice(0, 8)} failed (${next ?? "unreported"}): ${message}`);
+  } finally {
+    rmSync(jobDir, { recursive: true, force: true });
+  }
+};
+
+const main = async () => {
+  if (!process.env.SUPABASE_URL || !SECRET) {
+    console.error("Set SUPABASE_URL and TRANSCODE_WORKER_SECRET");
+    process.exit(1);
+  }
+
+  console.log(`Transcode worker ${WORKER_ID} polling every ${POLL_MS / 1000}s`);
+  while (!stopping) {
+    try {
+      const { job } = await api("claim");
+      if (job) await processJob(job);
+      else await sleep(POLL_MS);
+    } catch (error) {
+      console.error("Worker loop error:", error.message);
+      await sleep(POLL_MS);
+    }
+  }
+};
+
+process.on("SIGINT", () => {
+  if (stopping) process.exit(1);
+  stopping = true;
+  console.log("Stopping; the current job goes back to the queue (Ctrl+C again to quit now)");
+  if (activeChild) activeChild.kill("SIGTERM");
+});
+
+main();
@@ -0,0 +1,92 @@
+// Local VAST/VMAP ad server for testing the player's ad breaks offline.
+//
+//   VAST_FIXTURE_MEDIA=/path/to/any.mp4 npm run ads:fixtures
+//
+// Point an ad break (or a VAST ad) at http://localhost:4010/<fixture>.xml:
+//   vast3-inline.xml  one skippable VAST 3 ad
+//   vast4-pod.xml     a two-ad VAST 4 pod; the second ad goes through vast-wrapper.xml
+//   vast-wrapper.xml  a wrapper around vast3-inline.xml
+//   vast-empty.xml    no fill
+//   vmap.xml          pre-roll, mid-rolls at 0:30 and 50%, and an inline post-roll (use with a VMAP break)
+// Every tracking pixel the player fires is logged here, so quartiles, skips and clicks can be checked.
+
+import { createReadStream, existsSync, readFileSync, statSync } from "node:fs";
+import { createServer } from "node:http";
+import { dirname, join } from "node:path";
+import { fileURLToPath } from "node:url";
+
+const FIXTURE_DIR = join(dirname(fileURLToPath(import.meta.url)), "vast-fixtures");
+const PORT = Number(process.env.PORT) || 4010;
+const MEDIA = process.env.VAST_FIXTURE_MEDIA;
+
+// 1x1 transparent GIF
+const PIXEL = Buffer.from("R0lGODlhAQABAIAAAAAAAP///yH5BAEAAAAALAAAAAABAAEAAAIBRAA7", "base64");
+
+const CORS_HEADERS = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "range",
+  "Access-Control-Expose-Headers": "content-length, content-range",
+};
+
+const serveMedia = (req, res) => {
+  if (!MEDIA || !existsSync(MEDIA)) {
+    console.warn("Ad media requested but VAST_FIXTURE_MEDIA is not set to an existing .mp4");
+    res.writeHead(404, CORS_HEADERS).end();
+    return;
+  }
+
+  // Browsers fetch video in ranges and will not start playback without them
+  const size = statSync(MEDIA).size;
+  const range = req.headers.range?.match(/bytes=(\d*)-(\d*)/);
+  if (!range) {
+    res.writeHead(200, { ...CORS_HEADERS, "Content-Type": "video/mp4", "Content-Length": size, "Accept-Ranges": "bytes" });
+    createReadStream(MEDIA).pipe(res);
+    return;
+  }
+
+  const start = range[1] ? Number(range[1]) : 0;
+  const end = range[2] ? Math.min(Number(range[2]), size - 1) : size - 1;
+  res.writeHead(206, {
+    ...CORS_HEADERS,
+    "Content-Type": "video/mp4",
+    "Content-Length": end - start + 1,
+    "Content-Range": `bytes ${start}-${end}/${size}`,
+    "Accept-Ranges": "bytes",
+  });
+  createReadStream(MEDIA, { start, end }).pipe(res);
+};
+
+const server = createServer((req, res) => {
+  const url = new URL(req.url, `http://${req.headers.host}`);
+
+  if (req.method === "OPTIONS") {
+    res.writeHead(204, CORS_HEADERS).end();
+    return;
+  }
+
+  if (url.pathname.startsWith("/track/")) {
+    const query = url.search ? ` ${url.search}` : "";
+    console.log(`[${new Date().toISOString()}] pixel ${url.pathname.slice("/track/".length)}${query}`);
+    res.writeHead(200, { ...CORS_HEADERS, "Content-Type": "image/gif", "Cache-Control": "no-store" }).end(PIXEL);
+    return;
+  }
+
+  if (url.pathname.startsWith("/media/")) {
+    serveMedia(req, res);
+    return;
+  }
+
+  const file = join(FIXTURE_DIR, url.pathname.replace(/^\/+/, ""));
+  if (!url.pathname.endsWith(".xml") || !file.startsWith(FIXTURE_DIR) || !existsSync(file)) {
+    res.writeHead(404, CORS_HEADERS).end("Unknown fixture");
+    return;
+  }
+
+  console.log(`[${new Date().toISOString()}] tag ${url.pathname}`);
+  const body = readFileSync(file, "utf8").replaceAll("{{BASE}}", url.origin);
+  res.writeHead(200, { ...CORS_HEADERS, "Content-Type": "application/xml", "Cache-Control": "no-store" }).end(body);
+});
+
+server.listen(PORT, () => {
+  console.log(`VAST fixtures on http://localhost:${PORT}/ (media: ${MEDIA || "not set"})`);
+});
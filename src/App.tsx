@@ -7,6 +7,7 @@ import { BrowserRouter, Routes, Route, useLocation } from "react-router-dom";
 import { AnimatePresence } from "framer-motion";
 import { HelmetProvider } from "react-helmet-async";
 import { AuthProvider } from "@/hooks/useAuth";
+import { ViewerProfileProvider } from "@/components/profiles/ViewerProfileProvider";
 import { ProtectedRoute } from "@/components/ProtectedRoute";
 import { PageTransition } from "@/components/PageTransition";
 import { ThemeProvider } from "@/components/ThemeProvider";
@@ -15,8 +16,11 @@ import Index from "./pages/Index";
 import Admin from "./pages/Admin";
 import AdAnalytics from "./pages/admin/AdAnalytics";
 import Auth from "./pages/Auth";
+import ResetPassword from "./pages/ResetPassword";
+import ProfilePicker from "./pages/ProfilePicker";
 import Users from "./pages/admin/Users";
 import Moderators from "./pages/admin/Moderators";
+import AuditLog from "./pages/admin/AuditLog";
 import Comments from "./pages/admin/Comments";
 import Reports from "./pages/admin/Reports";
 import Analytics from "./pages/admin/Analytics";
@@ -51,6 +55,7 @@ import Notifications from "./pages/admin/Notifications";
 import NotFound from "./pages/NotFound";
 import AnimeCharacters from "./pages/admin/AnimeCharacters";
 import MediaManager from "./pages/admin/MediaManager";
+import Transcoding from "./pages/admin/Transcoding";
 import ComingSoonPage from "./pages/ComingSoonPage";
 import LatestAnimePage from "./pages/LatestAnimePage";
 import TopAnimePage from "./pages/TopAnimePage";
@@ -58,8 +63,13 @@ import TrendingAnimePage from "./pages/TrendingAnimePage";
 import NewMoviesPage from "./pages/NewMoviesPage";
 import NewSeriesPage from "./pages/NewSeriesPage";
 import MoviesPage from "./pages/MoviesPage";
+import LivePage from "./pages/LivePage";
+import LiveChannelPage from "./pages/LiveChannelPage";
+import CollectionsPage from "./pages/CollectionsPage";
+import CollectionDetailPage from "./pages/CollectionDetailPage";
 import SeriesPage from "./pages/SeriesPage";
 import AnimePage from "./pages/AnimePage";
+import SearchPage from "./pages/SearchPage";
 import Watch from "./pages/Watch";
 import UserDashboard from "./pages/UserDashboard";
 import UserSettings from "./pages/UserSettings";
@@ -86,6 +96,8 @@ const AnimatedRoutes = () => {
       <Routes location={location} key={location.pathname}>
         <Route path="/" element={<PageTransition><Index /></PageTransition>} />
         <Route path="/auth" element={<PageTransition><Auth /></PageTransition>} />
+        <Route path="/auth/reset" element={<PageTransition><ResetPassword /></PageTransition>} />
+        <Route path="/profiles" element={<PageTransition><ProfilePicker /></PageTransition>} />
         <Route path="/dashboard" element={<PageTransition><UserDashboard /></PageTransition>} />
         <Route path="/dashboard/subscriptions" element={<PageTransition><UserSubscriptions /></PageTransition>} />
         <Route path="/dashboard/rentals" element={<PageTransition><RentalHistory /></PageTransition>} />
@@ -101,6 +113,11 @@ const AnimatedRoutes = () => {
         <Route path="/new-series" element={<PageTransition><NewSeriesPage /></PageTransition>} />
         <Route path="/series" element={<PageTransition><SeriesPage /></PageTransition>} />
         <Route path="/anime" element={<PageTransition><AnimePage /></PageTransition>} />
+        <Route path="/search" element={<PageTransition><SearchPage /></PageTransition>} />
+        <Route path="/live" element={<PageTransition><LivePage /></PageTransition>} />
+        <Route path="/live/:channelId" element={<PageTransition><LiveChannelPage /></PageTransition>} />
+        <Route path="/collections" element={<PageTransition><CollectionsPage /></PageTransition>} />
+        <Route path="/collections/:id" element={<PageTransition><CollectionDetailPage /></PageTransition>} />
         {/* Watch routes */}
         <Route path="/watch/series/:id/:season/:episode" element={<PageTransition><Watch /></PageTransition>} />
         <Route path="/watch/:type/:id" element={<PageTransition><Watch /></PageTransition>} />
@@ -109,46 +126,47 @@ const AnimatedRoutes = () => {
         <Route
           path="/admin" 
           element={
-            <ProtectedRoute requireAdmin>
+            <ProtectedRoute requireStaff>
               <PageTransition><Admin /></PageTransition>
             </ProtectedRoute>
           } 
         />
-        <Route path="/admin/featured" element={<ProtectedRoute requireAdmin><PageTransition><Featured /></PageTransition></ProtectedRoute>} />
-        <Route path="/admin/movies" element={<ProtectedRoute requireAdmin><PageTransition><Movies /></PageTransition></ProtectedRoute>} />
-        <Route path="/admin/movies/edit/:id" element={<ProtectedRoute requireAdmin><PageTransition><MoviesEdit /></PageTransition></ProtectedRoute>} />
-        <Route path="/admin/series" element={<ProtectedRoute requireAdmin><PageTransition><Series /></PageTransition></ProtectedRoute>} />
-        <Route path="/admin/series/edit/:id" element={<ProtectedRoute requireAdmin><PageTransition><SeriesEdit /></PageTransition></ProtectedRoute>} />
-        <Route path="/admin/animes" element={<ProtectedRoute requireAdmin><PageTransition><Animes /></PageTransition></ProtectedRoute>} />
-        <Route path="/admin/animes/edit/:id" element={<ProtectedRoute requireAdmin><PageTransition><AnimesEdit /></PageTransition></ProtectedRoute>} />
-        <Route path="/admin/animes/:id/characters" element={<ProtectedRoute requireAdmin><PageTransition><AnimeCharacters /></PageTransition></ProtectedRoute>} />
-        <Route path="/admin/streaming" element={<ProtectedRoute requireAdmin><PageTransition><Streaming /></PageTransition></ProtectedRoute>} />
-        <Route path="/admin/upcoming" element={<ProtectedRoute requireAdmin><PageTransition><Upcoming /></PageTransition></ProtectedRoute>} />
-        <Route path="/admin/upcoming/create" element={<ProtectedRoute requireAdmin><PageTransition><UpcomingCreate /></PageTransition></ProtectedRoute>} />
-        <Route path="/admin/upcoming/edit/:id" element={<ProtectedRoute requireAdmin><PageTransition><UpcomingEdit /></PageTransition></ProtectedRoute>} />
-        <Route path="/admin/servers-drm" element={<ProtectedRoute requireAdmin><PageTransition><ServersDRM /></PageTransition></ProtectedRoute>} />
-        <Route path="/admin/headers" element={<ProtectedRoute requireAdmin><PageTransition><Headers /></PageTransition></ProtectedRoute>} />
-        <Route path="/admin/streaming-categories" element={<ProtectedRoute requireAdmin><PageTransition><StreamingCategories /></PageTransition></ProtectedRoute>} />
-        <Route path="/admin/genres" element={<ProtectedRoute requireAdmin><PageTransition><Genres /></PageTransition></ProtectedRoute>} />
-        <Route path="/admin/languages" element={<ProtectedRoute requireAdmin><PageTransition><Languages /></PageTransition></ProtectedRoute>} />
-        <Route path="/admin/collections" element={<ProtectedRoute requireAdmin><PageTransition><Collections /></PageTransition></ProtectedRoute>} />
-        <Route path="/admin/networks" element={<ProtectedRoute requireAdmin><PageTransition><Networks /></PageTransition></ProtectedRoute>} />
-        <Route path="/admin/casters" element={<ProtectedRoute requireAdmin><PageTransition><Casters /></PageTransition></ProtectedRoute>} />
-        <Route path="/admin/casters/edit/:id" element={<ProtectedRoute requireAdmin><PageTransition><CasterEdit /></PageTransition></ProtectedRoute>} />
-        <Route path="/admin/users" element={<ProtectedRoute requireAdmin><PageTransition><Users /></PageTransition></ProtectedRoute>} />
-        <Route path="/admin/users/edit/:id" element={<ProtectedRoute requireAdmin><PageTransition><UserEdit /></PageTransition></ProtectedRoute>} />
-        <Route path="/admin/comments" element={<ProtectedRoute requireAdmin><PageTransition><Comments /></PageTransition></ProtectedRoute>} />
-        <Route path="/admin/subscriptions" element={<ProtectedRoute requireAdmin><PageTransition><Subscriptions /></PageTransition></ProtectedRoute>} />
+        <Route path="/admin/featured" element={<ProtectedRoute permission="content.edit"><PageTransition><Featured /></PageTransition></ProtectedRoute>} />
+        <Route path="/admin/movies" element={<ProtectedRoute permission="content.edit"><PageTransition><Movies /></PageTransition></ProtectedRoute>} />
+        <Route path="/admin/movies/edit/:id" element={<ProtectedRoute permission="content.edit"><PageTransition><MoviesEdit /></PageTransition></ProtectedRoute>} />
+        <Route path="/admin/series" element={<ProtectedRoute permission="content.edit"><PageTransition><Series /></PageTransition></ProtectedRoute>} />
+        <Route path="/admin/series/edit/:id" element={<ProtectedRoute permission="content.edit"><PageTransition><SeriesEdit /></PageTransition></ProtectedRoute>} />
+        <Route path="/admin/animes" element={<ProtectedRoute permission="content.edit"><PageTransition><Animes /></PageTransition></ProtectedRoute>} />
+        <Route path="/admin/animes/edit/:id" element={<ProtectedRoute permission="content.edit"><PageTransition><AnimesEdit /></PageTransition></ProtectedRoute>} />
+        <Route path="/admin/animes/:id/characters" element={<ProtectedRoute permission="content.edit"><PageTransition><AnimeCharacters /></PageTransition></ProtectedRoute>} />
+        <Route path="/admin/streaming" element={<ProtectedRoute permission="content.edit"><PageTransition><Streaming /></PageTransition></ProtectedRoute>} />
+        <Route path="/admin/upcoming" element={<ProtectedRoute permission="content.edit"><PageTransition><Upcoming /></PageTransition></ProtectedRoute>} />
+        <Route path="/admin/upcoming/create" element={<ProtectedRoute permission="content.edit"><PageTransition><UpcomingCreate /></PageTransition></ProtectedRoute>} />
+        <Route path="/admin/upcoming/edit/:id" element={<ProtectedRoute permission="content.edit"><PageTransition><UpcomingEdit /></PageTransition></ProtectedRoute>} />
+        <Route path="/admin/servers-drm" element={<ProtectedRoute permission="content.edit"><PageTransition><ServersDRM /></PageTransition></ProtectedRoute>} />
+        <Route path="/admin/headers" element={<ProtectedRoute permission="content.edit"><PageTransition><Headers /></PageTransition></ProtectedRoute>} />
+        <Route path="/admin/streaming-categories" element={<ProtectedRoute permission="content.edit"><PageTransition><StreamingCategories /></PageTransition></ProtectedRoute>} />
+        <Route path="/admin/genres" element={<ProtectedRoute permission="content.edit"><PageTransition><Genres /></PageTransition></ProtectedRoute>} />
+        <Route path="/admin/languages" element={<ProtectedRoute permission="content.edit"><PageTransition><Languages /></PageTransition></ProtectedRoute>} />
+        <Route path="/admin/collections" element={<ProtectedRoute permission="content.edit"><PageTransition><Collections /></PageTransition></ProtectedRoute>} />
+        <Route path="/admin/networks" element={<ProtectedRoute permission="content.edit"><PageTransition><Networks /></PageTransition></ProtectedRoute>} />
+        <Route path="/admin/casters" element={<ProtectedRoute permission="content.edit"><PageTransition><Casters /></PageTransition></ProtectedRoute>} />
+        <Route path="/admin/casters/edit/:id" element={<ProtectedRoute permission="content.edit"><PageTransition><CasterEdit /></PageTransition></ProtectedRoute>} />
+        <Route path="/admin/users" element={<ProtectedRoute permission="users.manage"><PageTransition><Users /></PageTransition></ProtectedRoute>} />
+        <Route path="/admin/users/edit/:id" element={<ProtectedRoute permission="users.manage"><PageTransition><UserEdit /></PageTransition></ProtectedRoute>} />
+        <Route path="/admin/comments" element={<ProtectedRoute permission="comments.moderate"><PageTransition><Comments /></PageTransition></ProtectedRoute>} />
+        <Route path="/admin/subscriptions" element={<ProtectedRoute permission="payments.view"><PageTransition><Subscriptions /></PageTransition></ProtectedRoute>} />
         <Route path="/admin/ad-manager" element={<ProtectedRoute requireAdmin><PageTransition><AdManager /></PageTransition></ProtectedRoute>} />
         <Route path="/admin/ad-manager/create" element={<ProtectedRoute requireAdmin><PageTransition><AdCreate /></PageTransition></ProtectedRoute>} />
         <Route path="/admin/ad-manager/edit/:id" element={<ProtectedRoute requireAdmin><PageTransition><AdEdit /></PageTransition></ProtectedRoute>} />
         <Route path="/admin/ad-analytics" element={<ProtectedRoute requireAdmin><PageTransition><AdAnalytics /></PageTransition></ProtectedRoute>} />
-        <Route path="/admin/reports" element={<ProtectedRoute requireAdmin><PageTransition><Reports /></PageTransition></ProtectedRoute>} />
-        <Route path="/admin/user-reports" element={<ProtectedRoute requireAdmin><PageTransition><UserReports /></PageTransition></ProtectedRoute>} />
-        <Route path="/admin/suggestions" element={<ProtectedRoute requireAdmin><PageTransition><Suggestions /></PageTransition></ProtectedRoute>} />
+        <Route path="/admin/reports" element={<ProtectedRoute permission="comments.moderate"><PageTransition><Reports /></PageTransition></ProtectedRoute>} />
+        <Route path="/admin/user-reports" element={<ProtectedRoute permission="comments.moderate"><PageTransition><UserReports /></PageTransition></ProtectedRoute>} />
+        <Route path="/admin/suggestions" element={<ProtectedRoute permission="comments.moderate"><PageTransition><Suggestions /></PageTransition></ProtectedRoute>} />
         <Route path="/admin/notifications" element={<ProtectedRoute requireAdmin><PageTransition><Notifications /></PageTransition></ProtectedRoute>} />
         <Route path="/admin/analytics" element={<ProtectedRoute requireAdmin><PageTransition><Analytics /></PageTransition></ProtectedRoute>} />
         <Route path="/admin/moderators" element={<ProtectedRoute requireAdmin><PageTransition><Moderators /></PageTransition></ProtectedRoute>} />
+        <Route path="/admin/audit-log" element={<ProtectedRoute requireAdmin><PageTransition><AuditLog /></PageTransition></ProtectedRoute>} />
         <Route path="/admin/settings" element={<ProtectedRoute requireAdmin><PageTransition><Settings /></PageTransition></ProtectedRoute>} />
         <Route path="/admin/settings/general" element={<ProtectedRoute requireAdmin><PageTransition><SettingsGeneral /></PageTransition></ProtectedRoute>} />
         <Route path="/admin/settings/logo" element={<ProtectedRoute requireAdmin><PageTransition><SettingsLogo /></PageTransition></ProtectedRoute>} />
@@ -156,7 +174,8 @@ const AnimatedRoutes = () => {
         <Route path="/admin/settings/templates" element={<ProtectedRoute requireAdmin><PageTransition><SettingsTemplates /></PageTransition></ProtectedRoute>} />
         <Route path="/admin/settings/sitemap" element={<ProtectedRoute requireAdmin><PageTransition><SettingsSitemap /></PageTransition></ProtectedRoute>} />
         <Route path="/admin/settings/policy" element={<ProtectedRoute requireAdmin><PageTransition><SettingsPolicy /></PageTransition></ProtectedRoute>} />
-        <Route path="/admin/media-manager" element={<ProtectedRoute requireAdmin><PageTransition><MediaManager /></PageTransition></ProtectedRoute>} />
+        <Route path="/admin/media-manager" element={<ProtectedRoute permission="content.edit"><PageTransition><MediaManager /></PageTransition></ProtectedRoute>} />
+        <Route path="/admin/transcoding" element={<ProtectedRoute permission="content.edit"><PageTransition><Transcoding /></PageTransition></ProtectedRoute>} />
         {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
         <Route path="*" element={<PageTransition><NotFound /></PageTransition>} />
       </Routes>
@@ -174,9 +193,11 @@ const App = () => {
             <Sonner />
             <BrowserRouter>
               <AuthProvider>
-                <PortraitLockProvider>
-                  <AnimatedRoutes />
-                </PortraitLockProvider>
+                <ViewerProfileProvider>
+                  <PortraitLockProvider>
+                    <AnimatedRoutes />
+                  </PortraitLockProvider>
+                </ViewerProfileProvider>
               </AuthProvider>
             </BrowserRouter>
           </TooltipProvider>
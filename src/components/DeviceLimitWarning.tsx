@@ -2,39 +2,27 @@ import { useState } from 'react';
 import { AlertDialog, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from '@/components/ui/alert-dialog';
 import { Button } from '@/components/ui/button';
 import { Monitor, Smartphone, Tablet, Laptop, X, Loader2 } from 'lucide-react';
-
-interface DeviceSession {
-  id: string;
-  device_id: string;
-  device_name: string;
-  device_type: string;
-  last_active_at: string;
-  created_at: string;
-}
+import { ActiveStream } from '@/hooks/useDeviceSession';
 
 interface DeviceLimitWarningProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
-  maxDevices: number;
-  activeSessions: DeviceSession[];
+  activeStreams: ActiveStream[];
   currentDeviceId: string;
-  onSignOutDevice: (deviceId: string) => Promise<void>;
-  onSignOutAllDevices: () => Promise<void>;
+  onStopStream: (deviceId: string) => Promise<void>;
 }
 
 export const DeviceLimitWarning = ({
   open,
   onOpenChange,
-  maxDevices,
-  activeSessions,
+  activeStreams,
   currentDeviceId,
-  onSignOutDevice,
-  onSignOutAllDevices,
+  onStopStream,
 }: DeviceLimitWarningProps) => {
   const [signingOut, setSigningOut] = useState<string | null>(null);
   const [signingOutAll, setSigningOutAll] = useState(false);
 
-  const getDeviceIcon = (deviceType: string) => {
+  const getDeviceIcon = (deviceType: string | null) => {
     switch (deviceType?.toLowerCase()) {
       case 'mobile':
         return <Smartphone className="h-5 w-5" />;
@@ -60,44 +48,49 @@ export const DeviceLimitWarning = ({
     return date.toLocaleDateString();
   };
 
-  const handleSignOutDevice = async (deviceId: string) => {
+  const otherStreams = activeStreams.filter(s => s.device_id !== currentDeviceId);
+
+  const handleStopStream = async (deviceId: string) => {
     setSigningOut(deviceId);
     try {
-      await onSignOutDevice(deviceId);
+      await onStopStream(deviceId);
     } finally {
       setSigningOut(null);
     }
   };
 
-  const handleSignOutAll = async () => {
+  const handleStopAll = async () => {
     setSigningOutAll(true);
     try {
-      await onSignOutAllDevices();
+      for (const deviceId of new Set(otherStreams.map(s => s.device_id))) {
+        await onStopStream(deviceId);
+      }
     } finally {
       setSigningOutAll(false);
     }
   };
 
-  const otherSessions = activeSessions.filter(s => s.device_id !== currentDeviceId);
-
   return (
     <AlertDialog open={open} onOpenChange={onOpenChange}>
       <AlertDialogContent className="max-w-md z-[100] bg-background border border-border shadow-2xl">
         <AlertDialogHeader>
           <AlertDialogTitle className="flex items-center gap-2 text-destructive">
             <Monitor className="h-5 w-5" />
-            Device Limit Reached
+            Too Many Streams
           </AlertDialogTitle>
           <AlertDialogDescription className="text-left">
-            You've reached the maximum of {maxDevices} streaming device{maxDevices > 1 ? 's' : ''} allowed. 
-            Sign out from another device to continue watching on this one.
+            Your account is streaming on the maximum number of devices allowed.
+            Stop playback on another device, then press Try Again in the player.
           </AlertDialogDescription>
         </AlertDialogHeader>
 
         <div className="space-y-2 my-4">
-          <p className="text-sm font-medium text-foreground">Active Devices:</p>
+          <p className="text-sm font-medium text-foreground">Streaming Now:</p>
           <div className="space-y-2 max-h-60 overflow-y-auto">
-            {activeSessions.map((session) => (
+            {activeStreams.length === 0 && (
+              <p className="text-sm text-muted-foreground">No other streams are active. Try again now.</p>
+            )}
+            {activeStreams.map((session) => (
               <div 
                 key={session.id} 
                 className={`flex items-center justify-between p-3 rounded-lg border ${
@@ -112,13 +105,13 @@ export const DeviceLimitWarning = ({
                   </div>
                   <div>
                     <p className="text-sm font-medium">
-                      {session.device_name}
+                      {session.device_name || 'Unknown Device'}
                       {session.device_id === currentDeviceId && (
                         <span className="ml-2 text-xs text-primary">(This device)</span>
                       )}
                     </p>
                     <p className="text-xs text-muted-foreground">
-                      Last active: {formatLastActive(session.last_active_at)}
+                      Last seen: {formatLastActive(session.last_heartbeat_at)}
                     </p>
                   </div>
                 </div>
@@ -127,7 +120,8 @@ export const DeviceLimitWarning = ({
                     variant="ghost"
                     size="sm"
                     className="h-8 w-8 p-0 text-destructive hover:text-destructive hover:bg-destructive/10"
-                    onClick={() => handleSignOutDevice(session.device_id)}
+                    title="Stop stream"
+                    onClick={() => handleStopStream(session.device_id)}
                     disabled={signingOut === session.device_id || signingOutAll}
                   >
                     {signingOut === session.device_id ? (
@@ -143,20 +137,20 @@ export const DeviceLimitWarning = ({
         </div>
 
         <AlertDialogFooter className="flex-col sm:flex-row gap-2">
-          {otherSessions.length > 0 && (
+          {otherStreams.length > 0 && (
             <Button
               variant="destructive"
-              onClick={handleSignOutAll}
+              onClick={handleStopAll}
               disabled={signingOutAll || signingOut !== null}
               className="w-full sm:w-auto"
             >
               {signingOutAll ? (
                 <>
                   <Loader2 className="h-4 w-4 mr-2 animate-spin" />
-                  Signing out...
+                  Stopping...
                 </>
               ) : (
-                `Sign out all other devices (${otherSessions.length})`
+                `Stop all other streams (${otherStreams.length})`
               )}
             </Button>
           )}
@@ -1,13 +1,18 @@
 import { Navigate } from 'react-router-dom';
 import { useAuth } from '@/hooks/useAuth';
+import type { Permission } from '@/lib/permissions';
 
 interface ProtectedRouteProps {
   children: React.ReactNode;
   requireAdmin?: boolean;
+  // Staff with this permission may enter; admins always can
+  permission?: Permission;
+  // Any staff member may enter (the admin dashboard)
+  requireStaff?: boolean;
 }
 
-export function ProtectedRoute({ children, requireAdmin = false }: ProtectedRouteProps) {
-  const { user, isAdmin, loading } = useAuth();
+export function ProtectedRoute({ children, requireAdmin = false, permission, requireStaff = false }: ProtectedRouteProps) {
+  const { user, isAdmin, permissions, hasPermission, loading } = useAuth();
 
   if (loading) {
     return (
@@ -24,13 +29,18 @@ export function ProtectedRoute({ children, requireAdmin = false }: ProtectedRout
     return <Navigate to="/auth" replace />;
   }
 
-  if (requireAdmin && !isAdmin) {
+  const allowed =
+    (!requireAdmin || isAdmin) &&
+    (!permission || hasPermission(permission)) &&
+    (!requireStaff || permissions.length > 0);
+
+  if (!allowed) {
     return (
       <div className="min-h-screen flex items-center justify-center p-4">
         <div className="text-center space-y-4 max-w-md">
           <h1 className="text-2xl font-bold text-destructive">Access Denied</h1>
           <p className="text-muted-foreground">
-            You don't have admin permissions. Please contact an administrator to grant you access.
+            You don't have permission to view this page. Please contact an administrator to grant you access.
           </p>
         </div>
       </div>
@@ -1,4 +1,4 @@
-import { useEffect, useMemo, useRef, useState, useCallback } from "react";
+import { useEffect, useId, useMemo, useRef, useState, useCallback } from "react";
 // @ts-ignore - shaka-player types
 import shaka from "shaka-player";
 import { Button } from "@/components/ui/button";
@@ -6,10 +6,12 @@ import { supabase } from "@/integrations/supabase/client";
 import { VideoAdPlayer } from "@/components/ads/VideoAdPlayer";
 import { OverlayAd } from "@/components/ads/OverlayAd";
 import { RentalDialog } from "@/components/rental/RentalDialog";
+import { TopupDialog } from "@/components/wallet/TopupDialog";
 import { useSubscription } from "@/hooks/useSubscription";
 import { useAuth } from "@/hooks/useAuth";
-import { useDeviceSession } from "@/hooks/useDeviceSession";
-import { useProtectedVideoUrl } from "@/hooks/useProtectedVideoUrl";
+import { useViewerProfiles } from "@/hooks/useViewerProfiles";
+import { useProtectedVideoUrl, AccessDenialReason, AccessDenialDetails, PlaybackLease } from "@/hooks/useProtectedVideoUrl";
+import { usePlaybackLease } from "@/hooks/usePlaybackLease";
 import { useRental } from "@/hooks/useRental";
 import { useNativeMobile } from "@/hooks/useNativeMobile";
 import { useScreenOrientation } from "@/hooks/useScreenOrientation";
@@ -31,7 +33,8 @@ import {
   PictureInPicture,
   Lock,
   Crown,
-  DollarSign
+  DollarSign,
+  Wallet
 } from "lucide-react";
 import {
   DropdownMenu,
@@ -43,6 +46,15 @@ import {
 } from "@/components/ui/dropdown-menu";
 import { Slider } from "@/components/ui/slider";
 import { VideoSettingsMenu } from "@/components/VideoSettingsMenu";
+import { buildShakaDrmConfig, PlaybackDrm } from "@/lib/drm";
+import { getStreamToken, PLAYBACK_URL_REFRESH_MARGIN_MS, sourceNeedsSigning, withStreamToken } from "@/lib/playbackUrls";
+import { EpisodeMarkers, getActiveSkipSegment } from "@/lib/episodeMarkers";
+import { NextEpisodeCard, NextEpisodeInfo } from "@/components/player/NextEpisodeCard";
+import { subtitleFileUrl, useSubtitles } from "@/hooks/useSubtitles";
+import { usePlaybackPreferences } from "@/hooks/usePlaybackPreferences";
+import { buildCueCss } from "@/lib/subtitleStyle";
+import { useAdBreaks } from "@/hooks/useAdBreaks";
+import { AdBreak, getReachedMidrolls } from "@/lib/adSchedule";
 
 interface VideoSource {
   id: string;
@@ -55,6 +67,8 @@ interface VideoSource {
   is_default?: boolean;
   version?: string;
   permission?: string;
+  drm_profile_id?: string | null;
+  drm?: PlaybackDrm | null;
 }
 
 interface ShakaPlayerProps {
@@ -74,6 +88,16 @@ interface ShakaPlayerProps {
   mediaId?: string;
   mediaType?: 'movie' | 'series' | 'anime';
   rentalPeriodDays?: number;
+  onManageDevices?: () => void;
+  // Live channels: no seeking or skip buttons, a LIVE marker instead of timestamps
+  isLive?: boolean;
+  // Rendered inside the player so it stays visible in fullscreen; shown with the controls
+  overlay?: React.ReactNode;
+  // Intro/recap ranges get skip buttons; credits_start (or the end of the video) brings up the next-episode card
+  markers?: EpisodeMarkers | null;
+  nextEpisode?: NextEpisodeInfo | null;
+  onNextEpisode?: () => void;
+  autoplayNext?: boolean;
 }
 
 // Helpers
@@ -106,6 +130,24 @@ const getMp4Url = (mp4Urls: Record<string,string>, quality: string) => {
   return undefined;
 };
 
+interface ShakaTextTrack {
+  language: string;
+  label?: string | null;
+  roles?: string[];
+}
+
+// One menu entry per language/label pair - in-manifest tracks can repeat per codec or period
+const readTextTracks = (player: { getTextTracks: () => ShakaTextTrack[] }) => {
+  const entries = new Map<string, { language: string; role?: string; label: string | null }>();
+  for (const track of player.getTextTracks()) {
+    const key = `${track.language}|${track.label ?? ""}`;
+    if (!entries.has(key)) {
+      entries.set(key, { language: track.language, role: track.roles?.[0], label: track.label ?? null });
+    }
+  }
+  return [...entries.values()];
+};
+
 // Select optimal quality based on bandwidth
 const selectOptimalQuality = (tracks: any[], bandwidth: number) => {
   if (!tracks || tracks.length === 0) return null;
@@ -181,9 +223,19 @@ export const ShakaPlayer = ({
   title = "",
   mediaId,
   mediaType,
-  rentalPeriodDays = 7
+  rentalPeriodDays = 7,
+  onManageDevices,
+  isLive = false,
+  overlay,
+  markers,
+  nextEpisode,
+  onNextEpisode,
+  autoplayNext = true
 }: ShakaPlayerProps) => {
   const { user } = useAuth();
+  const { activeProfile } = useViewerProfiles();
+  const profileId = activeProfile?.id;
+  const profileLanguage = activeProfile?.language;
   const { hasActiveSubscription, loading: subscriptionLoading } = useSubscription();
   const { getProtectedUrl, loading: protectedUrlLoading } = useProtectedVideoUrl();
   const { isNative, isAndroid } = useNativeMobile();
@@ -194,14 +246,11 @@ export const ShakaPlayer = ({
   const rentalCheckId = episodeId ? mediaId : movieId;
   const rentalCheckType = episodeId ? 'series' : movieId ? 'movie' : undefined;
   
-  const { hasActiveRental, loading: rentalLoading, rentalMaxDevices } = useRental(
+  const { hasActiveRental, loading: rentalLoading } = useRental(
     rentalCheckId,
     rentalCheckType
   );
   
-  // Use rental device limit when rental is active, otherwise use subscription limit
-  const effectiveDeviceLimit = hasActiveRental ? rentalMaxDevices : undefined;
-  const { canStream, loading: deviceLoading, maxDevices, sessions } = useDeviceSession(effectiveDeviceLimit);
   const videoRef = useRef<HTMLVideoElement>(null);
   const iframeRef = useRef<HTMLIFrameElement>(null);
   const playerRef = useRef<any>(null);
@@ -214,11 +263,26 @@ export const ShakaPlayer = ({
   const [currentAudioTrack, setCurrentAudioTrack] = useState<number | null>(null);
   const [availableTextTracks, setAvailableTextTracks] = useState<any[]>([]);
   const [currentTextTrack, setCurrentTextTrack] = useState<string>("off");
+  // Bumped after every Shaka load - each load drops added text tracks, so sidecars are re-attached
+  const [textTracksLoadId, setTextTracksLoadId] = useState(0);
+  // null until the viewer picks a track; then kept across quality switches and URL refreshes
+  const chosenTextTrackRef = useRef<string | null>(null);
+  const { data: sidecarSubtitles = [] } = useSubtitles({ movieId, episodeId });
+  const { subtitleStyle, updateSubtitleStyle } = usePlaybackPreferences();
+  const playerId = useId();
   
   // Protected video state - actual URLs only fetched after validation
   const [protectedSource, setProtectedSource] = useState<VideoSource | null>(null);
   const [accessValidated, setAccessValidated] = useState(false);
   const [accessError, setAccessError] = useState<string | null>(null);
+  // Server-side denial - overrides the client's own lock check
+  const [accessDenial, setAccessDenial] = useState<{ reason: AccessDenialReason; details: AccessDenialDetails } | null>(null);
+  // Concurrent-stream slot granted with the protected URL; null for free content
+  const [lease, setLease] = useState<PlaybackLease | null>(null);
+  // Signed bucket URLs expire; newer ones are swapped in without reloading the player
+  const [urlsExpireAt, setUrlsExpireAt] = useState<string | null>(null);
+  const signedUrlsRef = useRef<{ url?: string; quality_urls?: Record<string, string> } | null>(null);
+  const streamTokenRef = useRef<string | null>(null);
   
   // Player state
   const [isPlaying, setIsPlaying] = useState(false);
@@ -229,6 +293,8 @@ export const ShakaPlayer = ({
   const [isFullscreen, setIsFullscreen] = useState(false);
   const [showControls, setShowControls] = useState(true);
   const [buffered, setBuffered] = useState(0);
+  const [hasEnded, setHasEnded] = useState(false);
+  const [nextEpisodeDismissed, setNextEpisodeDismissed] = useState(false);
   const [estimatedBandwidth, setEstimatedBandwidth] = useState<number | null>(null);
   const [autoQualityEnabled, setAutoQualityEnabled] = useState(true);
   const [savedProgress, setSavedProgress] = useState<number | null>(null);
@@ -236,13 +302,14 @@ export const ShakaPlayer = ({
   const [showCenterIcon, setShowCenterIcon] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
   
-  // Ad state
-  const [showPreRollAd, setShowPreRollAd] = useState(true);
+  // Ad state - the main video stays paused while a break plays
+  const [activeAdBreak, setActiveAdBreak] = useState<AdBreak | null>(null);
+  const playedAdBreaksRef = useRef(new Set<string>());
   const [showOverlayAd, setShowOverlayAd] = useState(false);
-  const [adCompleted, setAdCompleted] = useState(false);
   
   // Rental dialog state
   const [showRentalDialog, setShowRentalDialog] = useState(false);
+  const [showTopupDialog, setShowTopupDialog] = useState(false);
   
   // Additional settings
   const [playbackSpeed, setPlaybackSpeed] = useState<number>(1);
@@ -276,6 +343,19 @@ export const ShakaPlayer = ({
     return false;
   }, [accessType, excludeFromPlan, hasActiveSubscription, hasActiveRental, subscriptionLoading, rentalLoading]);
 
+  const isContentLocked = isLocked || !!accessDenial;
+
+  // Map the lock to a prompt - prefer the server's reason over the client's guess
+  const lockReason: AccessDenialReason = accessDenial?.reason
+    ?? (accessType === 'vip' ? 'VIP_REQUIRED' : excludeFromPlan ? 'RENTAL_REQUIRED' : 'VIP_OR_RENTAL_REQUIRED');
+  const lockRentalPrice = accessDenial?.details.rentalPrice ?? rentalPrice;
+  const lockRentalPeriodDays = accessDenial?.details.rentalPeriodDays ?? rentalPeriodDays;
+  const lockMediaId = accessDenial?.details.mediaId ?? mediaId;
+  const lockMediaType = accessDenial?.details.mediaType ?? mediaType;
+  const showTopupPrompt = !!accessDenial?.details.topupRequired;
+  const isStreamLock = lockReason === 'STREAM_LIMIT_REACHED' || lockReason === 'LEASE_REVOKED';
+  const maxStreams = accessDenial?.details.maxStreams;
+
   const handleRentClick = () => {
     setShowRentalDialog(true);
   };
@@ -326,6 +406,7 @@ export const ShakaPlayer = ({
         is_default: source.is_default,
         version: source.version,
         permission: source.permission,
+        drm_profile_id: source.drm_profile_id,
       };
     });
   }, [videoSources, src, type, accessType]);
@@ -356,12 +437,12 @@ export const ShakaPlayer = ({
       const { data: { user } } = await supabase.auth.getUser();
       setUserId(user?.id || null);
       
-      if (user && (episodeId || movieId)) {
+      if (user && profileId && (episodeId || movieId)) {
         // Load saved progress
         const { data } = await supabase
           .from('watch_history')
           .select('progress, duration, completed')
-          .eq('user_id', user.id)
+          .eq('profile_id', profileId)
           .eq(episodeId ? 'episode_id' : 'movie_id', episodeId || movieId)
           .maybeSingle();
         
@@ -372,11 +453,11 @@ export const ShakaPlayer = ({
     };
     
     getUser();
-  }, [episodeId, movieId]);
+  }, [episodeId, movieId, profileId]);
 
   // Track and save progress
   useEffect(() => {
-    if (!userId || (!episodeId && !movieId) || !videoRef.current) return;
+    if (!userId || !profileId || (!episodeId && !movieId) || !videoRef.current) return;
     
     const saveProgress = async () => {
       const video = videoRef.current;
@@ -389,7 +470,7 @@ export const ShakaPlayer = ({
       const { data: existing } = await supabase
         .from('watch_history')
         .select('id')
-        .eq('user_id', userId)
+        .eq('profile_id', profileId)
         .eq(episodeId ? 'episode_id' : 'movie_id', episodeId || movieId)
         .maybeSingle();
       
@@ -408,6 +489,7 @@ export const ShakaPlayer = ({
           .from('watch_history')
           .insert({
             user_id: userId,
+            profile_id: profileId,
             episode_id: episodeId || null,
             movie_id: movieId || null,
             progress,
@@ -426,7 +508,7 @@ export const ShakaPlayer = ({
         saveProgress(); // Save one last time on unmount
       }
     };
-  }, [userId, episodeId, movieId]);
+  }, [userId, profileId, episodeId, movieId]);
 
   // Resume from saved progress
   useEffect(() => {
@@ -442,6 +524,7 @@ export const ShakaPlayer = ({
       setIsLoading(true);
       setAccessValidated(false);
       setAccessError(null);
+      setAccessDenial(null);
       setProtectedSource(null);
       
       const defaultSource = sources.find(s => s.is_default) || sources[0];
@@ -473,7 +556,8 @@ export const ShakaPlayer = ({
 
   // Fetch protected video URL for non-free content
   const fetchProtectedSource = useCallback(async (source: VideoSource) => {
-    if (!source || !user) {
+    // Free sources only come through here to get signed URLs, which works signed out too
+    if (!source || (!user && (accessType !== 'free' || source.drm_profile_id))) {
       setAccessError('Please log in to watch this content');
       return;
     }
@@ -481,16 +565,9 @@ export const ShakaPlayer = ({
     console.log('Fetching protected URL for source:', source.id);
     setIsLoading(true);
     setAccessError(null);
+    setAccessDenial(null);
 
-    const result = await getProtectedUrl({
-      sourceId: source.id,
-      episodeId: episodeId,
-      movieId: movieId,
-      mediaId: mediaId,
-      mediaType: mediaType,
-      accessType: accessType,
-      excludeFromPlan: excludeFromPlan,
-    });
+    const result = await getProtectedUrl({ sourceId: source.id });
 
     if (result?.success && result.source) {
       console.log('Protected URL fetched successfully');
@@ -505,9 +582,14 @@ export const ShakaPlayer = ({
         quality_urls: result.source.quality_urls,
         quality: result.source.quality,
         is_default: result.source.is_default,
+        drm: result.source.drm,
       };
       
       setProtectedSource(validatedSource);
+      setLease(result.lease ?? null);
+      setUrlsExpireAt(result.expiresAt ?? null);
+      signedUrlsRef.current = null;
+      streamTokenRef.current = getStreamToken(result.source.url);
       setAccessValidated(true);
       
       // Set qualities for MP4
@@ -523,12 +605,101 @@ export const ShakaPlayer = ({
           setCurrentQuality(qualities[0] || "720p");
         }
       }
+    } else if (result?.code === 'ACCESS_DENIED' && result.reason) {
+      console.warn('Access denied by server:', result.reason);
+      setAccessDenial({ reason: result.reason, details: result.details || {} });
+      setLease(null);
+      setAccessValidated(false);
+      setIsLoading(false);
     } else {
       console.error('Failed to fetch protected URL:', result?.error);
       setAccessError(result?.error || 'Failed to load video');
       setAccessValidated(false);
     }
-  }, [user, episodeId, movieId, mediaId, mediaType, accessType, excludeFromPlan, getProtectedUrl, currentQuality]);
+  }, [user, accessType, getProtectedUrl, currentQuality]);
+
+  // Stop playback in place and show the lock overlay - used when the stream slot is lost mid-play
+  const stopPlayback = useCallback((reason: AccessDenialReason, details: AccessDenialDetails = {}) => {
+    videoRef.current?.pause();
+    setLease(null);
+    setAccessDenial({ reason, details });
+  }, []);
+
+  // Progressive MP4 also goes through Shaka (played with src=) so sidecar subtitles can be added
+  // with addTextTrackAsync. Falls back to the bare video element where Shaka is unsupported.
+  const loadProgressive = useCallback(async (url: string, startTime: number | null = null) => {
+    const video = videoRef.current;
+    if (!video) return;
+
+    if (!playerRef.current && shaka.Player.isBrowserSupported()) {
+      const player = new shaka.Player();
+      await player.attach(video);
+      playerRef.current = player;
+    }
+
+    if (!playerRef.current) {
+      video.src = url;
+      video.load();
+      if (startTime !== null) video.currentTime = startTime;
+      return;
+    }
+
+    await playerRef.current.load(url, startTime, 'video/mp4');
+    setTextTracksLoadId((id) => id + 1);
+  }, []);
+
+  // Fetch fresh signed URLs shortly before the current ones expire. HLS/DASH pick up the new
+  // token through the request filter; progressive files are re-pointed and resume in place.
+  const refreshSignedUrls = useCallback(async () => {
+    if (!protectedSource) return;
+
+    const result = await getProtectedUrl({ sourceId: protectedSource.id });
+    if (!result?.success || !result.source) {
+      if (result?.code === 'ACCESS_DENIED' && result.reason) {
+        stopPlayback(result.reason, result.details || {});
+      } else {
+        console.warn('Failed to refresh signed URLs:', result?.error);
+      }
+      return;
+    }
+
+    setLease(result.lease ?? null);
+    setUrlsExpireAt(result.expiresAt ?? null);
+    signedUrlsRef.current = { url: result.source.url, quality_urls: result.source.quality_urls };
+    streamTokenRef.current = getStreamToken(result.source.url) ?? streamTokenRef.current;
+
+    const video = videoRef.current;
+    if (protectedSource.type !== "mp4" || !video) return;
+
+    const qualityUrls = result.source.quality_urls;
+    const nextUrl = qualityUrls && Object.keys(qualityUrls).length > 0
+      ? getMp4Url(qualityUrls, currentQuality) || Object.values(qualityUrls)[0]
+      : result.source.url;
+    if (!nextUrl) return;
+
+    const wasPlaying = !video.paused;
+    const savedTime = video.currentTime;
+    video.addEventListener('loadedmetadata', () => {
+      video.currentTime = savedTime;
+      if (wasPlaying) video.play().catch(e => console.error('Resume after URL refresh failed:', e));
+    }, { once: true });
+    loadProgressive(nextUrl, savedTime).catch(e => console.error('Reload after URL refresh failed:', e));
+  }, [protectedSource, getProtectedUrl, stopPlayback, currentQuality, loadProgressive]);
+
+  // A lease that lapsed (e.g. the tab slept through heartbeats) is renewed together with the URLs,
+  // which stop working when their lease ends. If the slot was taken meanwhile, playback stops.
+  usePlaybackLease(lease, {
+    onRevoked: () => stopPlayback('LEASE_REVOKED'),
+    onExpired: refreshSignedUrls,
+  });
+
+  useEffect(() => {
+    if (!urlsExpireAt || !protectedSource) return;
+
+    const delay = Math.max(new Date(urlsExpireAt).getTime() - Date.now() - PLAYBACK_URL_REFRESH_MARGIN_MS, 30 * 1000);
+    const timer = setTimeout(refreshSignedUrls, delay);
+    return () => clearTimeout(timer);
+  }, [urlsExpireAt, protectedSource, refreshSignedUrls]);
 
   // Trigger protected URL fetch when current source changes and content is not free
   useEffect(() => {
@@ -539,12 +710,21 @@ export const ShakaPlayer = ({
     }
     
     const isFreeContent = accessType === 'free';
+    // DRM license config is only handed out by the server, even for free titles
+    const requiresLogin = !isFreeContent || !!currentSource?.drm_profile_id;
+    // Private bucket files need signed URLs, free or not
+    const needsServer = requiresLogin || (!!currentSource && sourceNeedsSigning(currentSource));
     
-    if (currentSource && !isFreeContent && !isLocked && user) {
-      // Non-free content that user has access to - fetch protected URL
+    if (currentSource && needsServer && !isLocked && (user || !requiresLogin)) {
+      // Content the user has access to - fetch protected URL
       fetchProtectedSource(currentSource);
+    } else if (currentSource && needsServer && !isLocked) {
+      setAccessError('Please log in to watch this content');
+      setIsLoading(false);
     } else if (currentSource && isFreeContent) {
       // Free content - URLs already available, mark as validated
+      setLease(null);
+      setUrlsExpireAt(null);
       setAccessValidated(true);
       setProtectedSource(currentSource);
     } else if (currentSource && isLocked) {
@@ -654,15 +834,20 @@ export const ShakaPlayer = ({
         
         // Force reload the video with new source
         try {
-          videoRef.current.src = qualityUrl;
-          videoRef.current.load();
-          
+          try {
+            shaka.polyfill.installAll();
+          } catch (e) {
+            console.warn("Shaka polyfill install error", e);
+          }
+
           // Set loading to false when video can play
           const onCanPlay = () => {
             setIsLoading(false);
             videoRef.current?.removeEventListener('canplay', onCanPlay);
           };
           videoRef.current.addEventListener('canplay', onCanPlay, { once: true });
+
+          await loadProgressive(qualityUrl);
           
           if (autoplay) {
             setTimeout(() => {
@@ -682,7 +867,8 @@ export const ShakaPlayer = ({
         }
 
         const fallbackToNativeHls = () => {
-          if (protectedSource.type === "hls" && videoRef.current && protectedSource.url) {
+          // Native playback has no license configuration, so encrypted streams cannot fall back
+          if (protectedSource.type === "hls" && !protectedSource.drm && videoRef.current && protectedSource.url) {
             console.warn("Falling back to native HLS");
             videoRef.current.src = protectedSource.url;
             setAvailableQualities([]);
@@ -715,6 +901,25 @@ export const ShakaPlayer = ({
           },
         });
 
+        // Signed stream URLs are refreshed in place - swap the latest token into every request
+        player.getNetworkingEngine().registerRequestFilter((_requestType: number, request: { uris: string[] }) => {
+          request.uris = request.uris.map((uri) => withStreamToken(uri, streamTokenRef.current));
+        });
+
+        if (protectedSource.drm) {
+          const drm = protectedSource.drm;
+          player.configure({ drm: buildShakaDrmConfig(drm) });
+
+          // Custom license headers (auth tokens, custom data) go on license requests only
+          if (Object.keys(drm.headers).length > 0) {
+            player.getNetworkingEngine().registerRequestFilter((requestType: number, request: { headers: Record<string, string> }) => {
+              if (requestType === shaka.net.NetworkingEngine.RequestType.LICENSE) {
+                Object.assign(request.headers, drm.headers);
+              }
+            });
+          }
+        }
+
         // Monitor bandwidth changes
         player.addEventListener('adaptation', () => {
           if (playerRef.current) {
@@ -754,12 +959,12 @@ export const ShakaPlayer = ({
             setCurrentAudioTrack(currentAudio.audioId);
           }
 
-          // Get available text tracks (subtitles)
-          const textTracks = player.getTextLanguagesAndRoles();
-          setAvailableTextTracks(textTracks);
+          // Get available text tracks (subtitles); sidecar files are added once the load is signalled
+          setAvailableTextTracks(readTextTracks(player));
           
           // Set text tracks to off by default
           player.setTextTrackVisibility(false);
+          setTextTracksLoadId((id) => id + 1);
 
           // Auto-select quality based on bandwidth if enabled
           if (autoQualityEnabled && estimatedBandwidth) {
@@ -809,11 +1014,14 @@ export const ShakaPlayer = ({
     setAccessValidated(false);
     setProtectedSource(null);
     
-    // For non-free content, fetch protected URL
+    // For non-free, DRM-protected or bucket-hosted content, fetch protected URL
     const isFreeContent = accessType === 'free';
-    if (!isFreeContent && user) {
+    const needsServer = !isFreeContent || !!source.drm_profile_id || sourceNeedsSigning(source);
+    if (needsServer && (user || (isFreeContent && !source.drm_profile_id))) {
       await fetchProtectedSource(source);
-    } else if (isFreeContent) {
+    } else if (!needsServer) {
+      setLease(null);
+      setUrlsExpireAt(null);
       setProtectedSource(source);
       setAccessValidated(true);
     }
@@ -825,8 +1033,11 @@ export const ShakaPlayer = ({
     const wasPlaying = !videoRef.current.paused;
     const savedTime = videoRef.current.currentTime;
 
-    if (protectedSource.type === "mp4" && protectedSource.quality_urls) {
-      const qualityUrl = getMp4Url(protectedSource.quality_urls, quality);
+    // Prefer URLs from the latest refresh - the originals may have expired
+    const qualityUrls = signedUrlsRef.current?.quality_urls ?? protectedSource.quality_urls;
+
+    if (protectedSource.type === "mp4" && qualityUrls) {
+      const qualityUrl = getMp4Url(qualityUrls, quality);
       
       if (!qualityUrl) {
         console.error(`No URL found for quality: ${quality}`);
@@ -847,8 +1058,7 @@ export const ShakaPlayer = ({
       };
       
       videoRef.current.addEventListener('canplay', onCanPlay, { once: true });
-      videoRef.current.src = qualityUrl;
-      videoRef.current.load();
+      loadProgressive(qualityUrl, savedTime).catch(e => console.error('Error loading quality:', e));
       
     } else if ((protectedSource.type === "hls" || protectedSource.type === "dash") && playerRef.current) {
       const player = playerRef.current;
@@ -874,6 +1084,7 @@ export const ShakaPlayer = ({
     
     const player = playerRef.current;
     
+    chosenTextTrackRef.current = language;
     if (language === 'off') {
       console.log('Disabling text tracks');
       player.setTextTrackVisibility(false);
@@ -886,6 +1097,42 @@ export const ShakaPlayer = ({
     }
   };
 
+  // Attach sidecar subtitles after each load, then restore the viewer's choice (or the admin's default)
+  useEffect(() => {
+    const player = playerRef.current;
+    if (!player || textTracksLoadId === 0 || sidecarSubtitles.length === 0) return;
+
+    let cancelled = false;
+    const attachSidecars = async () => {
+      const existing = player.getTextTracks();
+      for (const subtitle of sidecarSubtitles) {
+        const language = subtitle.languages?.iso_639_1 || 'und';
+        if (existing.some((t: ShakaTextTrack) => t.language === language && t.label === subtitle.label)) continue;
+        try {
+          await player.addTextTrackAsync(subtitleFileUrl(subtitle), language, 'subtitles', 'text/vtt', undefined, subtitle.label);
+        } catch (error) {
+          console.warn('Failed to add subtitle track:', subtitle.label, error);
+        }
+        if (cancelled || playerRef.current !== player) return;
+      }
+      setAvailableTextTracks(readTextTracks(player));
+
+      // The viewer profile's language wins over the admin default when such a track exists
+      const defaultSubtitle =
+        sidecarSubtitles.find((s) => profileLanguage && s.languages?.iso_639_1 === profileLanguage) ??
+        sidecarSubtitles.find((s) => s.is_default);
+      const wanted = chosenTextTrackRef.current ?? (defaultSubtitle ? defaultSubtitle.languages?.iso_639_1 || 'und' : 'off');
+      if (wanted !== 'off') player.selectTextLanguage(wanted);
+      player.setTextTrackVisibility(wanted !== 'off');
+      setCurrentTextTrack(wanted);
+    };
+
+    attachSidecars();
+    return () => {
+      cancelled = true;
+    };
+  }, [textTracksLoadId, sidecarSubtitles, profileLanguage]);
+
   const handleAudioTrackChange = (language: string, role?: string) => {
     if (!playerRef.current) return;
     
@@ -1010,6 +1257,16 @@ export const ShakaPlayer = ({
     videoRef.current.currentTime = Math.max(0, videoRef.current.currentTime - 10);
   };
 
+  const skipSegment = isLive ? null : getActiveSkipSegment(markers, currentTime);
+  const creditsReached = markers?.credits_start != null && currentTime >= markers.credits_start;
+  const showNextEpisode =
+    !!nextEpisode && !!onNextEpisode && !isLive && !nextEpisodeDismissed && !activeAdBreak && (hasEnded || creditsReached);
+
+  const skipToSegmentEnd = () => {
+    if (!videoRef.current || !skipSegment) return;
+    videoRef.current.currentTime = skipSegment.end;
+  };
+
   const skipForward = () => {
     if (!videoRef.current) return;
     videoRef.current.currentTime = Math.min(duration, videoRef.current.currentTime + 10);
@@ -1067,6 +1324,7 @@ export const ShakaPlayer = ({
 
     const handlePlay = () => {
       setIsPlaying(true);
+      setHasEnded(false);
       // Auto-hide controls 5 seconds after play starts (for autoplay & all devices)
       if (autoHideTimeoutRef.current) {
         clearTimeout(autoHideTimeoutRef.current);
@@ -1096,6 +1354,7 @@ export const ShakaPlayer = ({
       setIsMuted(video.muted);
     };
     const handleEnded = () => {
+      setHasEnded(true);
       if (onEnded) {
         onEnded();
       }
@@ -1157,10 +1416,63 @@ export const ShakaPlayer = ({
     };
   }, []);
 
+  const { data: adBreaks } = useAdBreaks({
+    mediaId,
+    mediaType,
+    enabled: !subscriptionLoading && !rentalLoading && !isContentLocked,
+  });
+  // Breaks are timed against the video element, which embeds do not expose - they only get pre-rolls
+  const canScheduleAds = !isLive && currentSource?.type !== "iframe" && currentSource?.type !== "embed";
+
+  const finishAdBreak = () => {
+    const finished = activeAdBreak;
+    setActiveAdBreak(null);
+    if (!finished || finished.position === "postroll") return;
+    if (finished.position === "midroll" || autoplay) {
+      videoRef.current?.play().catch(() => {});
+    }
+  };
+
+  // Pre-rolls run before anything else (a VMAP schedule can add one next to the title's own), then
+  // mid-rolls as the playhead reaches them, then the post-roll once the video ends
+  useEffect(() => {
+    if (activeAdBreak || !adBreaks) return;
+    const played = playedAdBreaksRef.current;
+
+    const preroll = isContentLocked
+      ? undefined
+      : adBreaks.find((b) => b.position === "preroll" && !played.has(b.key));
+    if (preroll) {
+      played.add(preroll.key);
+      setActiveAdBreak(preroll);
+      return;
+    }
+    if (!canScheduleAds) return;
+
+    const midrolls = isPlaying ? getReachedMidrolls(adBreaks, currentTime, duration, played) : [];
+    if (midrolls.length > 0) {
+      midrolls.forEach((b) => played.add(b.key));
+      videoRef.current?.pause();
+      setActiveAdBreak(midrolls[midrolls.length - 1]);
+      return;
+    }
+
+    const postroll = hasEnded ? adBreaks.find((b) => b.position === "postroll" && !played.has(b.key)) : undefined;
+    if (postroll) {
+      played.add(postroll.key);
+      setActiveAdBreak(postroll);
+    }
+  }, [activeAdBreak, adBreaks, isContentLocked, canScheduleAds, isPlaying, currentTime, duration, hasEnded]);
+
+  // Autoplay can start the main video after a pre-roll has begun
+  useEffect(() => {
+    if (activeAdBreak && isPlaying) videoRef.current?.pause();
+  }, [activeAdBreak, isPlaying]);
+
   // Show overlay ad based on database settings
   useEffect(() => {
     const checkOverlayAd = async () => {
-      if (!showOverlayAd && adCompleted && currentTime > 30) {
+      if (!showOverlayAd && !activeAdBreak && currentTime > 30) {
         const now = new Date().toISOString();
         const { data } = await supabase
           .from("ads")
@@ -1181,7 +1493,7 @@ export const ShakaPlayer = ({
     };
     
     checkOverlayAd();
-  }, [currentTime, showOverlayAd, adCompleted]);
+  }, [currentTime, showOverlayAd, activeAdBreak]);
 
   if (!currentSource) return null;
 
@@ -1190,33 +1502,21 @@ export const ShakaPlayer = ({
   return (
     <div 
       ref={containerRef}
+      data-player-id={playerId}
       className={`shaka-video-container relative bg-black group ${className}`}
       style={{ position: 'relative', width: '100%', height: '100%' }}
       onMouseMove={handleMouseMove}
       onMouseLeave={() => isPlaying && setShowControls(false)}
     >
-      {/* Pre-roll Video Ad */}
-      {showPreRollAd && !adCompleted && (
-        <VideoAdPlayer 
-          onAdComplete={() => {
-            setShowPreRollAd(false);
-            setAdCompleted(true);
-            if (videoRef.current && autoplay) {
-              videoRef.current.play();
-            }
-          }}
-          onSkip={() => {
-            setShowPreRollAd(false);
-            setAdCompleted(true);
-            if (videoRef.current && autoplay) {
-              videoRef.current.play();
-            }
-          }}
-        />
+      <style>{buildCueCss(`[data-player-id="${playerId}"]`, subtitleStyle)}</style>
+
+      {/* Ad break (pre-, mid- or post-roll pod) */}
+      {activeAdBreak && (
+        <VideoAdPlayer key={activeAdBreak.key} adBreak={activeAdBreak} onComplete={finishAdBreak} />
       )}
 
       {/* Overlay Ad */}
-      {showOverlayAd && adCompleted && currentSource.type !== "iframe" && (
+      {showOverlayAd && !activeAdBreak && currentSource.type !== "iframe" && (
         <OverlayAd 
           onClose={() => setShowOverlayAd(false)} 
           currentTime={currentTime}
@@ -1224,7 +1524,7 @@ export const ShakaPlayer = ({
       )}
       
       {/* Loading Overlay */}
-      {isLoading && !isLocked && (
+      {isLoading && !isContentLocked && (
         <div className="absolute inset-0 bg-black/80 flex items-center justify-center z-50">
           <div className="flex flex-col items-center gap-4">
             <div className="w-12 h-12 border-4 border-primary border-t-transparent rounded-full animate-spin"></div>
@@ -1234,52 +1534,97 @@ export const ShakaPlayer = ({
       )}
 
       {/* Locked Content Overlay */}
-      {isLocked && (
+      {isContentLocked && (
         <div className="absolute inset-0 bg-gradient-to-t from-black via-black/95 to-black/80 flex items-center justify-center z-[60]">
           <div className="flex flex-col items-center gap-3 p-4 sm:p-6 text-center max-w-sm mx-4">
             <div className="w-12 h-12 sm:w-14 sm:h-14 rounded-full bg-primary/20 flex items-center justify-center ring-2 ring-primary/30">
-              <Lock className="w-6 h-6 sm:w-7 sm:h-7 text-primary" />
+              {isStreamLock ? (
+                <Monitor className="w-6 h-6 sm:w-7 sm:h-7 text-primary" />
+              ) : (
+                <Lock className="w-6 h-6 sm:w-7 sm:h-7 text-primary" />
+              )}
             </div>
             <div className="space-y-1">
               <h3 className="text-white text-lg sm:text-xl font-bold">
-                {accessType === 'vip' ? 'VIP Content' : 'Premium Content'}
+                {lockReason === 'CONTENT_UNAVAILABLE'
+                  ? 'Content Unavailable'
+                  : lockReason === 'STREAM_LIMIT_REACHED'
+                    ? 'Too Many Streams'
+                    : lockReason === 'LEASE_REVOKED'
+                      ? 'Playback Stopped'
+                      : lockReason === 'VIP_REQUIRED' ? 'VIP Content' : 'Premium Content'}
               </h3>
               <p className="text-white/60 text-xs sm:text-sm leading-relaxed">
-                {accessType === 'vip' 
-                  ? 'Subscribe to VIP to unlock this content.'
-                  : excludeFromPlan
-                    ? `Rent to watch this ${mediaType || 'content'}.`
-                    : 'Subscribe or rent to watch.'
+                {lockReason === 'CONTENT_UNAVAILABLE'
+                  ? 'This video is not available right now.'
+                  : lockReason === 'STREAM_LIMIT_REACHED'
+                    ? `Your account is already streaming on ${maxStreams || 'the maximum number of'} device${maxStreams === 1 ? '' : 's'}. Stop one to watch here.`
+                  : lockReason === 'LEASE_REVOKED'
+                    ? 'Playback on this device was stopped from your account settings.'
+                  : lockReason === 'VIP_REQUIRED'
+                    ? 'Subscribe to VIP to unlock this content.'
+                    : lockReason === 'RENTAL_REQUIRED'
+                      ? `Rent to watch this ${lockMediaType || 'content'}.`
+                      : 'Subscribe or rent to watch.'
                 }
               </p>
+              {showTopupPrompt && lockRentalPrice && (
+                <p className="text-white/60 text-xs leading-relaxed">
+                  Your wallet balance is below ${lockRentalPrice}. Top up to rent.
+                </p>
+              )}
             </div>
             <div className="flex flex-col sm:flex-row gap-2 w-full mt-1">
-              {accessType === 'vip' && (
+              {lockReason === 'STREAM_LIMIT_REACHED' && (
+                onManageDevices ? (
+                  <Button onClick={onManageDevices} variant="outline" className="flex-1 gap-2 h-9 text-sm">
+                    <Smartphone className="w-4 h-4" />
+                    Manage Devices
+                  </Button>
+                ) : (
+                  <a href="/settings" className="flex-1">
+                    <Button variant="outline" className="w-full gap-2 h-9 text-sm">
+                      <Smartphone className="w-4 h-4" />
+                      Manage Devices
+                    </Button>
+                  </a>
+                )
+              )}
+              {isStreamLock && currentSource && (
+                <Button
+                  onClick={() => fetchProtectedSource(currentSource)}
+                  className="flex-1 gap-2 bg-primary hover:bg-primary/90 h-9 text-sm"
+                >
+                  <Play className="w-4 h-4" />
+                  Try Again
+                </Button>
+              )}
+              {(lockReason === 'VIP_REQUIRED' || lockReason === 'VIP_OR_RENTAL_REQUIRED') && (
                 <a href="/subscriptions" className="flex-1">
                   <Button className="w-full gap-2 bg-gradient-to-r from-yellow-500 to-amber-500 hover:from-yellow-600 hover:to-amber-600 text-black font-semibold h-9 text-sm">
                     <Crown className="w-4 h-4" />
-                    Subscribe to VIP
+                    {lockReason === 'VIP_REQUIRED' ? 'Subscribe to VIP' : 'Subscribe VIP'}
                   </Button>
                 </a>
               )}
-              {accessType === 'rent' && (
-                <>
-                  {!excludeFromPlan && (
-                    <a href="/subscriptions" className="flex-1">
-                      <Button className="w-full gap-2 bg-gradient-to-r from-yellow-500 to-amber-500 hover:from-yellow-600 hover:to-amber-600 text-black font-semibold h-9 text-sm">
-                        <Crown className="w-4 h-4" />
-                        Subscribe VIP
-                      </Button>
-                    </a>
-                  )}
-                  <Button 
-                    onClick={handleRentClick}
-                    className="flex-1 gap-2 bg-primary hover:bg-primary/90 h-9 text-sm"
-                  >
-                    <DollarSign className="w-4 h-4" />
-                    Rent {rentalPrice ? `$${rentalPrice}` : ''} ({rentalPeriodDays}d)
-                  </Button>
-                </>
+              {(lockReason === 'RENTAL_REQUIRED' || lockReason === 'VIP_OR_RENTAL_REQUIRED') && (
+                <Button 
+                  onClick={handleRentClick}
+                  className="flex-1 gap-2 bg-primary hover:bg-primary/90 h-9 text-sm"
+                >
+                  <DollarSign className="w-4 h-4" />
+                  Rent {lockRentalPrice ? `$${lockRentalPrice}` : ''} ({lockRentalPeriodDays}d)
+                </Button>
+              )}
+              {showTopupPrompt && (
+                <Button 
+                  variant="outline"
+                  onClick={() => setShowTopupDialog(true)}
+                  className="flex-1 gap-2 h-9 text-sm"
+                >
+                  <Wallet className="w-4 h-4" />
+                  Top Up
+                </Button>
               )}
             </div>
           </div>
@@ -1440,9 +1785,9 @@ export const ShakaPlayer = ({
       {currentSource.type !== "embed" && currentSource.type !== "iframe" && (
         <>
           {/* Skip buttons container - fades with controls */}
-          <div 
+          {!isLive && <div 
             className={`absolute inset-0 z-20 flex items-center justify-center gap-12 pointer-events-none transition-opacity duration-300 ${
-              showControls && !isLocked && canStream ? 'opacity-100' : 'opacity-0'
+              showControls && !isContentLocked ? 'opacity-100' : 'opacity-0'
             }`}
           >
             {/* Skip Backward */}
@@ -1467,10 +1812,10 @@ export const ShakaPlayer = ({
             >
               <SkipForward className="h-6 w-6" fill="currentColor" />
             </Button>
-          </div>
+          </div>}
 
           {/* Center Play/Pause Icon - Independent, always visible on hover or when paused */}
-          {(!isPlaying || showControls || showCenterIcon) && !isLocked && canStream && (
+          {(!isPlaying || showControls || showCenterIcon) && !isContentLocked && (
             <div className="absolute inset-0 z-50 flex items-center justify-center pointer-events-none">
               <Button
                 variant="ghost"
@@ -1499,9 +1844,15 @@ export const ShakaPlayer = ({
           }`}
           onClick={(e) => e.stopPropagation()}
         >
+          {overlay && (
+            <div className="absolute top-0 left-0 right-0 pointer-events-auto">
+              {overlay}
+            </div>
+          )}
+
           {/* Progress Bar - Top of controls */}
           <div className="absolute bottom-0 left-0 right-0 pointer-events-auto">
-              <div className="group/progress px-4 pb-2">
+              {!isLive && <div className="group/progress px-4 pb-2">
                 <div className="relative h-[2px] bg-white/30 cursor-pointer transition-all hover:h-1">
                   {/* Buffered */}
                   <div 
@@ -1526,7 +1877,7 @@ export const ShakaPlayer = ({
                     className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
                   />
                 </div>
-              </div>
+              </div>}
 
             {/* Control Bar */}
             <div className="bg-gradient-to-t from-black/90 to-transparent px-3 pb-2 pt-4">
@@ -1548,17 +1899,26 @@ export const ShakaPlayer = ({
                   </Button>
 
                   {/* Time Display */}
-                  <div className="text-white text-xs font-medium whitespace-nowrap ml-1">
-                    {formatTime(currentTime)}
-                  </div>
+                  {isLive ? (
+                    <div className="flex items-center gap-1.5 text-white text-xs font-semibold ml-1">
+                      <span className="h-2 w-2 rounded-full bg-red-500 animate-pulse" />
+                      LIVE
+                    </div>
+                  ) : (
+                    <div className="text-white text-xs font-medium whitespace-nowrap ml-1">
+                      {formatTime(currentTime)}
+                    </div>
+                  )}
                 </div>
 
                 {/* Right Controls */}
                 <div className="flex items-center gap-1">
                   {/* Duration */}
-                  <div className="text-white text-xs font-medium whitespace-nowrap mr-1">
-                    {formatTime(duration)}
-                  </div>
+                  {!isLive && (
+                    <div className="text-white text-xs font-medium whitespace-nowrap mr-1">
+                      {formatTime(duration)}
+                    </div>
+                  )}
 
                   {/* Volume */}
                   <div className="flex items-center gap-1 group/volume">
@@ -1593,6 +1953,8 @@ export const ShakaPlayer = ({
                     availableTextTracks={availableTextTracks}
                     currentTextTrack={currentTextTrack}
                     onTextTrackChange={handleTextTrackChange}
+                    subtitleStyle={subtitleStyle}
+                    onSubtitleStyleChange={updateSubtitleStyle}
                     sleepTimer={sleepTimer}
                     onSleepTimerChange={handleSleepTimerChange}
                     playbackSpeed={playbackSpeed}
@@ -1630,19 +1992,47 @@ export const ShakaPlayer = ({
         </div>
       )}
 
+      {/* Skip Intro/Recap and the next-episode card - stay up while the controls are hidden */}
+      {currentSource.type !== "embed" && currentSource.type !== "iframe" && !isContentLocked && (skipSegment || showNextEpisode) && (
+        <div className="absolute bottom-20 right-4 z-50 pointer-events-auto">
+          {showNextEpisode ? (
+            <NextEpisodeCard
+              episode={nextEpisode}
+              autoplay={autoplayNext}
+              onPlay={onNextEpisode}
+              onDismiss={() => setNextEpisodeDismissed(true)}
+            />
+          ) : (
+            <Button
+              variant="outline"
+              onClick={skipToSegmentEnd}
+              className="bg-black/70 border-white/40 text-white hover:bg-black/90 hover:text-white"
+            >
+              {skipSegment?.kind === "recap" ? "Skip Recap" : "Skip Intro"}
+              <SkipForward className="h-4 w-4 ml-2" fill="currentColor" />
+            </Button>
+          )}
+        </div>
+      )}
+
       {/* Rental Dialog */}
-      {mediaId && mediaType && rentalPrice && (
+      {lockMediaId && lockMediaType && lockRentalPrice && (
         <RentalDialog
           open={showRentalDialog}
           onOpenChange={setShowRentalDialog}
           title={title}
-          mediaId={mediaId}
-          mediaType={mediaType}
-          rentalPrice={rentalPrice}
-          rentalPeriodDays={rentalPeriodDays}
+          mediaId={lockMediaId}
+          mediaType={lockMediaType}
+          rentalPrice={lockRentalPrice}
+          rentalPeriodDays={lockRentalPeriodDays}
           onSuccess={handleRentalSuccess}
         />
       )}
+
+      {/* Top-up Dialog */}
+      {showTopupPrompt && (
+        <TopupDialog open={showTopupDialog} onOpenChange={setShowTopupDialog} />
+      )}
     </div>
   );
 };
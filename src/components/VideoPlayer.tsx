@@ -1,8 +1,13 @@
 import { ShakaPlayer } from "./ShakaPlayer";
+import { Button } from "@/components/ui/button";
 import { MobileVideoPlayer } from "./player/MobileVideoPlayer";
 import { Database } from "@/integrations/supabase/types";
 import { useNativeMobile } from "@/hooks/useNativeMobile";
-import { useProtectedVideoUrl } from "@/hooks/useProtectedVideoUrl";
+import { useProtectedVideoUrl, PlaybackLease } from "@/hooks/useProtectedVideoUrl";
+import { usePlaybackLease } from "@/hooks/usePlaybackLease";
+import { sourceNeedsSigning } from "@/lib/playbackUrls";
+import { EpisodeMarkers } from "@/lib/episodeMarkers";
+import { NextEpisodeInfo } from "./player/NextEpisodeCard";
 import { useSubscription } from "@/hooks/useSubscription";
 import { useRental } from "@/hooks/useRental";
 import { useMemo, useState, useEffect, useRef, useCallback } from "react";
@@ -17,9 +22,10 @@ interface VideoSource {
   server_name: string;
   source_type?: string;
   quality_urls?: Record<string, string> | null;
+  drm_profile_id?: string | null;
 }
 
-interface Episode {
+interface Episode extends EpisodeMarkers {
   id: string;
   episode_number: number;
   name: string;
@@ -44,6 +50,11 @@ interface VideoPlayerProps {
   movieId?: string;
   onMinimize?: () => void;
   trailerUrl?: string;
+  onManageDevices?: () => void;
+  // Episode that follows the current one in play order (next season included)
+  nextEpisode?: (NextEpisodeInfo & { id: string }) | null;
+  onNextEpisode?: () => void;
+  autoplayNext?: boolean;
 }
 
 const VideoPlayer = ({ 
@@ -62,6 +73,10 @@ const VideoPlayer = ({
   movieId,
   onMinimize,
   trailerUrl,
+  onManageDevices,
+  nextEpisode,
+  onNextEpisode,
+  autoplayNext,
 }: VideoPlayerProps) => {
   const { isNative, isAndroid } = useNativeMobile();
   const { getProtectedUrl, loading: protectedUrlLoading } = useProtectedVideoUrl();
@@ -80,11 +95,15 @@ const VideoPlayer = ({
   const [mobileVideoUrl, setMobileVideoUrl] = useState<string | null>(null);
   const [mobileSourceType, setMobileSourceType] = useState<"mp4" | "hls" | "dash">("hls");
   const [isLoadingMobileUrl, setIsLoadingMobileUrl] = useState(false);
+  const [mobileLease, setMobileLease] = useState<PlaybackLease | null>(null);
+  const [mobileStopMessage, setMobileStopMessage] = useState<string | null>(null);
   
   // Track the last fetched episode/source to prevent duplicate fetches
   const lastFetchedRef = useRef<string | null>(null);
   const prevEpisodeIdRef = useRef<string | undefined>(currentEpisodeId);
   const prevSourcesRef = useRef<string | null>(null);
+  // Episode reached through the next-episode card - it starts playing instead of waiting for a click
+  const [autoStartEpisodeId, setAutoStartEpisodeId] = useState<string | null>(null);
 
   // Convert DB types to component types
   const convertedSources: VideoSource[] = useMemo(() => 
@@ -95,7 +114,8 @@ const VideoPlayer = ({
       is_default: source.is_default,
       server_name: source.server_name,
       source_type: source.source_type,
-      quality_urls: source.quality_urls as Record<string, string> | null
+      quality_urls: source.quality_urls as Record<string, string> | null,
+      drm_profile_id: source.drm_profile_id,
     })), [videoSources]);
   
   // Convert episodes to player format
@@ -118,6 +138,12 @@ const VideoPlayer = ({
     }
   }, [onEpisodeSelect]);
 
+  const handleNextEpisode = useCallback(() => {
+    if (!nextEpisode || !onNextEpisode) return;
+    setAutoStartEpisodeId(nextEpisode.id);
+    onNextEpisode();
+  }, [nextEpisode, onNextEpisode]);
+
   // Check if user has access to content
   const hasAccess = useMemo(() => {
     if (effectiveAccessType === 'free') return true;
@@ -149,6 +175,7 @@ const VideoPlayer = ({
       }
       
       // Set loading state for transition
+      setMobileStopMessage(null);
       setMobileVideoUrl(null);
       setIsLoadingMobileUrl(true);
     }
@@ -156,7 +183,7 @@ const VideoPlayer = ({
 
   // For native Android, get the video URL for mobile player
   useEffect(() => {
-    if (!isNative || !isAndroid) {
+    if (!isNative || !isAndroid || mobileStopMessage) {
       return;
     }
 
@@ -193,6 +220,13 @@ const VideoPlayer = ({
         return;
       }
 
+      // The native player has no DRM support - leave encrypted sources to ShakaPlayer
+      if (defaultSource.drm_profile_id) {
+        setMobileVideoUrl(null);
+        setIsLoadingMobileUrl(false);
+        return;
+      }
+
       // Determine source type
       const sourceType = (defaultSource.source_type || "").toLowerCase();
       if (sourceType === "hls" || sourceType === "m3u8") {
@@ -205,8 +239,9 @@ const VideoPlayer = ({
         setMobileSourceType("hls");
       }
 
-      // For free content, use URL directly
-      if (effectiveAccessType === 'free') {
+      // For free content, use URL directly (private bucket files still need signing)
+      if (effectiveAccessType === 'free' && !sourceNeedsSigning(defaultSource)) {
+        setMobileLease(null);
         console.log('[VideoPlayer] Free content - using URL directly:', {
           hasUrl: !!defaultSource.url,
           hasQualityUrls: !!defaultSource.quality_urls,
@@ -227,7 +262,7 @@ const VideoPlayer = ({
         return;
       }
 
-      // For paid content, get protected URL
+      // For paid or bucket-hosted content, get protected URL
       try {
         console.log('[VideoPlayer] Fetching protected URL for native Android:', {
           sourceId: defaultSource.id,
@@ -235,23 +270,17 @@ const VideoPlayer = ({
           movieId: movieId,
         });
         
-        const response = await getProtectedUrl({
-          sourceId: defaultSource.id,
-          episodeId: currentEpisodeId,
-          movieId: movieId,
-          mediaId: mediaId,
-          mediaType: mediaType,
-          accessType: effectiveAccessType,
-          excludeFromPlan: excludeFromPlan,
-        });
+        const response = await getProtectedUrl({ sourceId: defaultSource.id });
         
         if (response?.success && response.source?.url) {
           console.log('[VideoPlayer] Protected URL fetched successfully');
           setMobileVideoUrl(response.source.url);
+          setMobileLease(response.lease ?? null);
           lastFetchedRef.current = fetchKey;
-        } else if (response?.source?.quality_urls) {
+        } else if (response?.success && response.source?.quality_urls) {
           const firstUrl = Object.values(response.source.quality_urls)[0];
           setMobileVideoUrl(firstUrl || null);
+          setMobileLease(response.lease ?? null);
           lastFetchedRef.current = fetchKey;
         } else {
           console.error('[VideoPlayer] Failed to get protected URL:', response?.error);
@@ -266,10 +295,53 @@ const VideoPlayer = ({
     };
 
     fetchVideoUrl();
-  }, [isNative, isAndroid, hasAccess, convertedSources, effectiveAccessType, currentEpisodeId, movieId, mediaId, mediaType, excludeFromPlan, getProtectedUrl]);
+  }, [isNative, isAndroid, hasAccess, convertedSources, effectiveAccessType, currentEpisodeId, movieId, mediaId, mediaType, excludeFromPlan, getProtectedUrl, mobileStopMessage]);
+
+  // Stream slot lost on the native player - keep it stopped until the viewer retries, otherwise
+  // the ShakaPlayer fallback would silently take a new slot
+  const stopMobileStream = useCallback((message: string) => {
+    setMobileLease(null);
+    setMobileVideoUrl(null);
+    setMobileStopMessage(message);
+  }, []);
+
+  const renewMobileLease = useCallback(async () => {
+    const defaultSource = convertedSources.find(s => s.is_default) || convertedSources[0];
+    if (!defaultSource) return;
+
+    // Signed URLs are tied to the lease, so the renewed lease comes with new ones
+    const response = await getProtectedUrl({ sourceId: defaultSource.id });
+    if (response?.success) {
+      setMobileLease(response.lease ?? null);
+      const nextUrl = response.source?.url || Object.values(response.source?.quality_urls ?? {})[0];
+      if (nextUrl) setMobileVideoUrl(nextUrl);
+    } else {
+      stopMobileStream(response?.error || 'Playback stopped');
+    }
+  }, [convertedSources, getProtectedUrl, stopMobileStream]);
+
+  usePlaybackLease(mobileLease, {
+    onRevoked: () => stopMobileStream('Playback on this device was stopped from your account settings.'),
+    onExpired: renewMobileLease,
+  });
+
+  const retryMobileStream = () => {
+    lastFetchedRef.current = null;
+    setMobileStopMessage(null);
+  };
 
   // Use mobile player for native Android apps - always use MobileVideoPlayer when available
   if (isNative && isAndroid) {
+    if (mobileStopMessage) {
+      return (
+        <div className="relative w-full aspect-video bg-black flex flex-col items-center justify-center gap-3 p-4 text-center native-portrait-safe">
+          <p className="text-white font-semibold">Playback Stopped</p>
+          <p className="text-white/60 text-sm max-w-xs">{mobileStopMessage}</p>
+          <Button size="sm" onClick={retryMobileStream}>Try Again</Button>
+        </div>
+      );
+    }
+
     // If we have a video URL, use MobileVideoPlayer
     if (mobileVideoUrl) {
       return (
@@ -309,7 +381,7 @@ const VideoPlayer = ({
         key={currentEpisodeId || movieId} // Force remount on episode change for smooth loading
         videoSources={convertedSources as any}
         poster={contentBackdrop || currentEpisode?.still_path}
-        autoplay={false}
+        autoplay={!!currentEpisodeId && currentEpisodeId === autoStartEpisodeId}
         className="w-full h-full"
         episodeId={currentEpisodeId}
         movieId={movieId}
@@ -320,6 +392,11 @@ const VideoPlayer = ({
         mediaId={mediaId}
         mediaType={mediaType}
         title={title}
+        onManageDevices={onManageDevices}
+        markers={currentEpisode}
+        nextEpisode={nextEpisode}
+        onNextEpisode={onNextEpisode ? handleNextEpisode : undefined}
+        autoplayNext={autoplayNext}
       />
     </div>
   );
@@ -8,9 +8,12 @@ import {
   Gauge, 
   Sliders,
   ChevronLeft,
-  Check
+  ChevronRight,
+  Check,
+  Type
 } from "lucide-react";
 import { Switch } from "@/components/ui/switch";
+import { SUBTITLE_BACKGROUNDS, SUBTITLE_COLORS, SUBTITLE_SIZES, SubtitleStyle } from "@/lib/subtitleStyle";
 
 interface VideoSettingsMenuProps {
   // Stable Volume
@@ -21,6 +24,8 @@ interface VideoSettingsMenuProps {
   availableTextTracks: any[];
   currentTextTrack: string;
   onTextTrackChange: (language: string, role?: string) => void;
+  subtitleStyle: SubtitleStyle;
+  onSubtitleStyleChange: (style: SubtitleStyle) => void;
   
   // Sleep Timer
   sleepTimer: number;
@@ -39,7 +44,7 @@ interface VideoSettingsMenuProps {
   sourceType?: string;
 }
 
-type MenuView = 'main' | 'subtitles' | 'sleep-timer' | 'speed' | 'quality';
+type MenuView = 'main' | 'subtitles' | 'subtitle-style' | 'sleep-timer' | 'speed' | 'quality';
 
 export const VideoSettingsMenu = ({
   stableVolume,
@@ -47,6 +52,8 @@ export const VideoSettingsMenu = ({
   availableTextTracks,
   currentTextTrack,
   onTextTrackChange,
+  subtitleStyle,
+  onSubtitleStyleChange,
   sleepTimer,
   onSleepTimerChange,
   playbackSpeed,
@@ -227,6 +234,54 @@ export const VideoSettingsMenu = ({
                     );
                   })}
                 </div>
+                <div className="border-t border-white/10 mt-1 pt-1">
+                  <button
+                    onClick={() => setCurrentView('subtitle-style')}
+                    className="w-full flex items-center justify-between px-3 py-2.5 hover:bg-cyan-500/30 rounded-md transition-colors text-left"
+                  >
+                    <div className="flex items-center gap-3">
+                      <Type className="h-4 w-4 text-white/90" />
+                      <span className="text-sm text-white">Caption style</span>
+                    </div>
+                    <ChevronRight className="h-4 w-4 text-white/60" />
+                  </button>
+                </div>
+              </div>
+            )}
+
+            {currentView === 'subtitle-style' && (
+              <div className="p-2">
+                <div className="flex items-center gap-2 px-3 py-2 mb-1">
+                  <button 
+                    onClick={() => setCurrentView('subtitles')}
+                    className="hover:bg-white/10 rounded p-1"
+                  >
+                    <ChevronLeft className="h-4 w-4 text-white" />
+                  </button>
+                  <span className="text-sm font-medium text-white">Caption style</span>
+                </div>
+                {([
+                  { key: 'size', title: 'Size', options: SUBTITLE_SIZES },
+                  { key: 'color', title: 'Color', options: SUBTITLE_COLORS },
+                  { key: 'background', title: 'Background', options: SUBTITLE_BACKGROUNDS },
+                ] as const).map(({ key, title, options }) => (
+                  <div key={key} className="px-3 py-2">
+                    <p className="text-xs text-white/60 mb-2">{title}</p>
+                    <div className="flex flex-wrap gap-1.5">
+                      {Object.entries(options).map(([value, option]) => (
+                        <button
+                          key={value}
+                          onClick={() => onSubtitleStyleChange({ ...subtitleStyle, [key]: value })}
+                          className={`px-2.5 py-1 rounded-md text-xs text-white transition-colors ${
+                            subtitleStyle[key] === value ? 'bg-cyan-500/40' : 'bg-white/10 hover:bg-cyan-500/30'
+                          }`}
+                        >
+                          {option.label}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                ))}
               </div>
             )}
 
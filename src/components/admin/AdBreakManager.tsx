@@ -0,0 +1,228 @@
+import { useState } from "react";
+import { Plus, Trash2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "sonner";
+import { formatTimecode, parseTimecode } from "@/lib/episodeMarkers";
+
+interface AdBreakManagerProps {
+  // Both omitted: the site-wide default schedule
+  mediaId?: string;
+  mediaType?: "movie" | "series" | "anime";
+}
+
+type BreakKind = "preroll" | "midroll" | "postroll" | "vmap";
+
+const KIND_LABELS: Record<BreakKind, string> = {
+  preroll: "Pre-roll",
+  midroll: "Mid-roll",
+  postroll: "Post-roll",
+  vmap: "VMAP schedule",
+};
+
+// Ad breaks of one title, or the defaults for titles without their own. A title with any breaks
+// ignores the defaults completely, so an empty list here means "use the defaults".
+export function AdBreakManager({ mediaId, mediaType }: AdBreakManagerProps) {
+  const queryClient = useQueryClient();
+  const [kind, setKind] = useState<BreakKind>("preroll");
+  const [offset, setOffset] = useState("");
+  const [podSize, setPodSize] = useState("1");
+  const [source, setSource] = useState<"inventory" | "vast">("inventory");
+  const [tagUrl, setTagUrl] = useState("");
+
+  const queryKey = ["admin-ad-breaks", mediaType ?? null, mediaId ?? null];
+
+  const { data: breaks = [], isLoading } = useQuery({
+    queryKey,
+    queryFn: async () => {
+      let query = supabase.from("ad_breaks").select("*").order("created_at");
+      query = mediaId ? query.eq("media_id", mediaId) : query.is("media_id", null);
+      const { data, error } = await query;
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey });
+    queryClient.invalidateQueries({ queryKey: ["ad-breaks"] });
+  };
+
+  const addMutation = useMutation({
+    mutationFn: async () => {
+      const offsetSeconds = kind === "midroll" ? parseTimecode(offset) : null;
+      if (kind === "midroll" && !offsetSeconds) throw new Error("Enter when the mid-roll starts, e.g. 12:30");
+      const breakSource = kind === "vmap" ? "vmap" : source;
+      if (breakSource !== "inventory" && !/^https?:\/\//.test(tagUrl.trim())) {
+        throw new Error("Enter the ad tag URL");
+      }
+
+      const { error } = await supabase.from("ad_breaks").insert({
+        media_id: mediaId ?? null,
+        media_type: mediaId ? mediaType : null,
+        position: kind === "vmap" ? null : kind,
+        offset_seconds: offsetSeconds,
+        pod_size: Math.min(5, Math.max(1, parseInt(podSize) || 1)),
+        source: breakSource,
+        tag_url: breakSource === "inventory" ? null : tagUrl.trim(),
+      });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidate();
+      setOffset("");
+      setTagUrl("");
+      toast.success("Ad break added");
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || "Failed to add ad break");
+    },
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: async ({ id, isActive }: { id: string; isActive: boolean }) => {
+      const { error } = await supabase.from("ad_breaks").update({ is_active: isActive }).eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: invalidate,
+    onError: (error: Error) => {
+      toast.error(error.message || "Failed to update ad break");
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from("ad_breaks").delete().eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidate();
+      toast.success("Ad break removed");
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || "Failed to remove ad break");
+    },
+  });
+
+  return (
+    <div className="space-y-3">
+      <div className="border rounded-lg divide-y">
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground p-3">Loading ad breaks...</p>
+        ) : breaks.length === 0 ? (
+          <p className="text-sm text-muted-foreground p-3">
+            {mediaId ? "No ad breaks - the default schedule is used." : "No default ad breaks - titles play without ads."}
+          </p>
+        ) : (
+          breaks.map((adBreak) => {
+            const breakKind = (adBreak.source === "vmap" ? "vmap" : adBreak.position) as BreakKind;
+            return (
+              <div key={adBreak.id} className="flex items-center gap-3 p-2">
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium">
+                    {KIND_LABELS[breakKind]}
+                    {breakKind === "midroll" && ` at ${formatTimecode(adBreak.offset_seconds)}`}
+                  </p>
+                  <p className="text-xs text-muted-foreground truncate">
+                    {adBreak.tag_url || "Ads inventory"} · up to {adBreak.pod_size} ad{adBreak.pod_size > 1 ? "s" : ""}
+                  </p>
+                </div>
+                <Badge variant="outline" className="uppercase">{adBreak.source}</Badge>
+                <Switch
+                  checked={adBreak.is_active}
+                  disabled={toggleMutation.isPending}
+                  onCheckedChange={(checked) => toggleMutation.mutate({ id: adBreak.id, isActive: checked })}
+                />
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  disabled={deleteMutation.isPending}
+                  onClick={() => deleteMutation.mutate(adBreak.id)}
+                >
+                  <Trash2 className="w-4 h-4 text-destructive" />
+                </Button>
+              </div>
+            );
+          })
+        )}
+      </div>
+
+      <div className="grid gap-3 md:grid-cols-[1fr,0.8fr,0.6fr,1fr] items-end">
+        <div className="space-y-1">
+          <Label className="text-xs">Break</Label>
+          <Select value={kind} onValueChange={(value) => setKind(value as BreakKind)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(KIND_LABELS) as BreakKind[]).map((value) => (
+                <SelectItem key={value} value={value}>{KIND_LABELS[value]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="ad-break-offset" className="text-xs">Starts at</Label>
+          <Input
+            id="ad-break-offset"
+            value={offset}
+            onChange={(e) => setOffset(e.target.value)}
+            placeholder="12:30"
+            disabled={kind !== "midroll"}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="ad-break-pod" className="text-xs">Ads per break</Label>
+          <Input
+            id="ad-break-pod"
+            type="number"
+            min="1"
+            max="5"
+            value={podSize}
+            onChange={(e) => setPodSize(e.target.value)}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs">Ads from</Label>
+          <Select
+            value={kind === "vmap" ? "vast" : source}
+            onValueChange={(value) => setSource(value as "inventory" | "vast")}
+            disabled={kind === "vmap"}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="inventory">Ads inventory</SelectItem>
+              <SelectItem value="vast">VAST tag</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {(kind === "vmap" || source === "vast") && (
+        <div className="space-y-1">
+          <Label htmlFor="ad-break-tag" className="text-xs">{kind === "vmap" ? "VMAP URL" : "VAST tag URL"}</Label>
+          <Input
+            id="ad-break-tag"
+            value={tagUrl}
+            onChange={(e) => setTagUrl(e.target.value)}
+            placeholder="https://ads.example.com/tag?cb=[CACHEBUSTING]"
+          />
+        </div>
+      )}
+
+      <Button type="button" onClick={() => addMutation.mutate()} disabled={addMutation.isPending}>
+        <Plus className="w-4 h-4 mr-2" />
+        {addMutation.isPending ? "Adding..." : "Add ad break"}
+      </Button>
+    </div>
+  );
+}
@@ -1,4 +1,4 @@
-import { Film, Tv, LayoutDashboard, Settings, Users, Shield, MessageSquare, Flag, BarChart3, Star, Radio, Calendar, Server, FileText, Grid3x3, Palette, Globe, Circle, UserCog, CreditCard, DollarSign, Lightbulb, Bell, HardDrive } from "lucide-react";
+import { Film, Tv, LayoutDashboard, Settings, Users, Shield, MessageSquare, Flag, BarChart3, Star, Radio, Calendar, Server, FileText, Grid3x3, Palette, Globe, Circle, UserCog, CreditCard, DollarSign, Lightbulb, Bell, HardDrive, History, Clapperboard } from "lucide-react";
 import {
   Sidebar,
   SidebarContent,
@@ -13,50 +13,72 @@ import {
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { NavLink } from "@/components/NavLink";
 import { useLocation } from "react-router-dom";
+import { useAuth } from "@/hooks/useAuth";
+import type { Permission } from "@/lib/permissions";
 
-const mainNavItems = [
+interface NavItem {
+  title: string;
+  icon: typeof Film;
+  path: string;
+  // Staff permission that opens the page; null for admin-only pages, omitted for every staff member
+  permission?: Permission | null;
+}
+
+const mainNavItems: NavItem[] = [
   { title: "Dashboard", icon: LayoutDashboard, path: "/admin" },
-  { title: "Featured", icon: Star, path: "/admin/featured" },
+  { title: "Featured", icon: Star, path: "/admin/featured", permission: "content.edit" },
 ];
 
-const contentItems = [
-  { title: "Movies", icon: Film, path: "/admin/movies" },
-  { title: "Series", icon: Tv, path: "/admin/series" },
-  { title: "Animes", icon: Circle, path: "/admin/animes" },
-  { title: "Media Manager", icon: HardDrive, path: "/admin/media-manager" },
-  { title: "Streaming", icon: Radio, path: "/admin/streaming" },
-  { title: "Upcoming", icon: Calendar, path: "/admin/upcoming" },
-  { title: "Servers & DRM", icon: Server, path: "/admin/servers-drm" },
-  { title: "Headers & User Agents", icon: FileText, path: "/admin/headers" },
-  { title: "Streaming Categories", icon: Grid3x3, path: "/admin/streaming-categories" },
-  { title: "Genres", icon: Palette, path: "/admin/genres" },
-  { title: "Languages", icon: Globe, path: "/admin/languages" },
-  { title: "Collections", icon: Circle, path: "/admin/collections" },
-  { title: "Networks", icon: Circle, path: "/admin/networks" },
+const contentItems: NavItem[] = [
+  { title: "Movies", icon: Film, path: "/admin/movies", permission: "content.edit" },
+  { title: "Series", icon: Tv, path: "/admin/series", permission: "content.edit" },
+  { title: "Animes", icon: Circle, path: "/admin/animes", permission: "content.edit" },
+  { title: "Media Manager", icon: HardDrive, path: "/admin/media-manager", permission: "content.edit" },
+  { title: "Transcoding", icon: Clapperboard, path: "/admin/transcoding", permission: "content.edit" },
+  { title: "Streaming", icon: Radio, path: "/admin/streaming", permission: "content.edit" },
+  { title: "Upcoming", icon: Calendar, path: "/admin/upcoming", permission: "content.edit" },
+  { title: "Servers & DRM", icon: Server, path: "/admin/servers-drm", permission: "content.edit" },
+  { title: "Headers & User Agents", icon: FileText, path: "/admin/headers", permission: "content.edit" },
+  { title: "Streaming Categories", icon: Grid3x3, path: "/admin/streaming-categories", permission: "content.edit" },
+  { title: "Genres", icon: Palette, path: "/admin/genres", permission: "content.edit" },
+  { title: "Languages", icon: Globe, path: "/admin/languages", permission: "content.edit" },
+  { title: "Collections", icon: Circle, path: "/admin/collections", permission: "content.edit" },
+  { title: "Networks", icon: Circle, path: "/admin/networks", permission: "content.edit" },
 ];
 
-const userManagementItems = [
-  { title: "Casters", icon: UserCog, path: "/admin/casters" },
-  { title: "Users", icon: Users, path: "/admin/users" },
-  { title: "Comments", icon: MessageSquare, path: "/admin/comments" },
-  { title: "Subscriptions & Coupon", icon: CreditCard, path: "/admin/subscriptions" },
+const userManagementItems: NavItem[] = [
+  { title: "Casters", icon: UserCog, path: "/admin/casters", permission: "content.edit" },
+  { title: "Users", icon: Users, path: "/admin/users", permission: "users.manage" },
+  { title: "Comments", icon: MessageSquare, path: "/admin/comments", permission: "comments.moderate" },
+  { title: "Subscriptions & Coupon", icon: CreditCard, path: "/admin/subscriptions", permission: "payments.view" },
 ];
 
-const systemItems = [
-  { title: "Ad Manager", icon: DollarSign, path: "/admin/ad-manager" },
-  { title: "Reports", icon: Flag, path: "/admin/reports" },
-  { title: "User Reports", icon: Flag, path: "/admin/user-reports" },
-  { title: "Suggestions", icon: Lightbulb, path: "/admin/suggestions" },
-  { title: "Notifications", icon: Bell, path: "/admin/notifications" },
-  { title: "Analytics", icon: BarChart3, path: "/admin/analytics" },
-  { title: "Moderators", icon: Shield, path: "/admin/moderators" },
-  { title: "Settings", icon: Settings, path: "/admin/settings" },
+const systemItems: NavItem[] = [
+  { title: "Ad Manager", icon: DollarSign, path: "/admin/ad-manager", permission: null },
+  { title: "Reports", icon: Flag, path: "/admin/reports", permission: "comments.moderate" },
+  { title: "User Reports", icon: Flag, path: "/admin/user-reports", permission: "comments.moderate" },
+  { title: "Suggestions", icon: Lightbulb, path: "/admin/suggestions", permission: "comments.moderate" },
+  { title: "Notifications", icon: Bell, path: "/admin/notifications", permission: null },
+  { title: "Analytics", icon: BarChart3, path: "/admin/analytics", permission: null },
+  { title: "Moderators", icon: Shield, path: "/admin/moderators", permission: null },
+  { title: "Audit Log", icon: History, path: "/admin/audit-log", permission: null },
+  { title: "Settings", icon: Settings, path: "/admin/settings", permission: null },
 ];
 
 export function AdminSidebar() {
   const { open } = useSidebar();
   const location = useLocation();
   const currentPath = location.pathname;
+  const { isAdmin, hasPermission } = useAuth();
+
+  const visible = (items: NavItem[]) =>
+    items.filter((item) =>
+      item.permission === undefined || (item.permission === null ? isAdmin : hasPermission(item.permission))
+    );
+  const mainNav = visible(mainNavItems);
+  const content = visible(contentItems);
+  const userManagement = visible(userManagementItems);
+  const system = visible(systemItems);
 
   return (
     <Sidebar className={open ? "w-60 mt-16" : "w-20 mt-16"} collapsible="icon">
@@ -66,7 +88,7 @@ export function AdminSidebar() {
             <SidebarGroupLabel>Main</SidebarGroupLabel>
             <SidebarGroupContent>
               <SidebarMenu>
-                {mainNavItems.map((item) => (
+                {mainNav.map((item) => (
                   <SidebarMenuItem key={item.title}>
                     <SidebarMenuButton asChild isActive={currentPath === item.path}>
                       <NavLink 
@@ -85,71 +107,77 @@ export function AdminSidebar() {
             </SidebarGroupContent>
           </SidebarGroup>
 
-          <SidebarGroup>
-            <SidebarGroupLabel>Content</SidebarGroupLabel>
-            <SidebarGroupContent>
-              <SidebarMenu>
-                {contentItems.map((item) => (
-                  <SidebarMenuItem key={item.title}>
-                    <SidebarMenuButton asChild isActive={currentPath === item.path}>
-                      <NavLink 
-                        to={item.path}
-                        className={open ? "hover:bg-sidebar-accent" : "hover:bg-sidebar-accent flex-col h-auto py-3 gap-1"}
-                        activeClassName="bg-sidebar-accent"
-                      >
-                        <item.icon className="h-4 w-4" />
-                        <span className={open ? "" : "text-[10px] font-normal"}>{item.title}</span>
-                      </NavLink>
-                    </SidebarMenuButton>
-                  </SidebarMenuItem>
-                ))}
-              </SidebarMenu>
-            </SidebarGroupContent>
-          </SidebarGroup>
+          {content.length > 0 && (
+            <SidebarGroup>
+              <SidebarGroupLabel>Content</SidebarGroupLabel>
+              <SidebarGroupContent>
+                <SidebarMenu>
+                  {content.map((item) => (
+                    <SidebarMenuItem key={item.title}>
+                      <SidebarMenuButton asChild isActive={currentPath === item.path}>
+                        <NavLink 
+                          to={item.path}
+                          className={open ? "hover:bg-sidebar-accent" : "hover:bg-sidebar-accent flex-col h-auto py-3 gap-1"}
+                          activeClassName="bg-sidebar-accent"
+                        >
+                          <item.icon className="h-4 w-4" />
+                          <span className={open ? "" : "text-[10px] font-normal"}>{item.title}</span>
+                        </NavLink>
+                      </SidebarMenuButton>
+                    </SidebarMenuItem>
+                  ))}
+                </SidebarMenu>
+              </SidebarGroupContent>
+            </SidebarGroup>
+          )}
 
-          <SidebarGroup>
-            <SidebarGroupLabel>User Management</SidebarGroupLabel>
-            <SidebarGroupContent>
-              <SidebarMenu>
-                {userManagementItems.map((item) => (
-                  <SidebarMenuItem key={item.title}>
-                    <SidebarMenuButton asChild isActive={currentPath === item.path}>
-                      <NavLink 
-                        to={item.path}
-                        className={open ? "hover:bg-sidebar-accent" : "hover:bg-sidebar-accent flex-col h-auto py-3 gap-1"}
-                        activeClassName="bg-sidebar-accent"
-                      >
-                        <item.icon className="h-4 w-4" />
-                        <span className={open ? "" : "text-[10px] font-normal"}>{item.title}</span>
-                      </NavLink>
-                    </SidebarMenuButton>
-                  </SidebarMenuItem>
-                ))}
-              </SidebarMenu>
-            </SidebarGroupContent>
-          </SidebarGroup>
+          {userManagement.length > 0 && (
+            <SidebarGroup>
+              <SidebarGroupLabel>User Management</SidebarGroupLabel>
+              <SidebarGroupContent>
+                <SidebarMenu>
+                  {userManagement.map((item) => (
+                    <SidebarMenuItem key={item.title}>
+                      <SidebarMenuButton asChild isActive={currentPath === item.path}>
+                        <NavLink 
+                          to={item.path}
+                          className={open ? "hover:bg-sidebar-accent" : "hover:bg-sidebar-accent flex-col h-auto py-3 gap-1"}
+                          activeClassName="bg-sidebar-accent"
+                        >
+                          <item.icon className="h-4 w-4" />
+                          <span className={open ? "" : "text-[10px] font-normal"}>{item.title}</span>
+                        </NavLink>
+                      </SidebarMenuButton>
+                    </SidebarMenuItem>
+                  ))}
+                </SidebarMenu>
+              </SidebarGroupContent>
+            </SidebarGroup>
+          )}
 
-          <SidebarGroup>
-            <SidebarGroupLabel>System</SidebarGroupLabel>
-            <SidebarGroupContent>
-              <SidebarMenu>
-                {systemItems.map((item) => (
-                  <SidebarMenuItem key={item.title}>
-                    <SidebarMenuButton asChild isActive={currentPath === item.path}>
-                      <NavLink 
-                        to={item.path}
-                        className={open ? "hover:bg-sidebar-accent" : "hover:bg-sidebar-accent flex-col h-auto py-3 gap-1"}
-                        activeClassName="bg-sidebar-accent"
-                      >
-                        <item.icon className="h-4 w-4" />
-                        <span className={open ? "" : "text-[10px] font-normal"}>{item.title}</span>
-                      </NavLink>
-                    </SidebarMenuButton>
-                  </SidebarMenuItem>
-                ))}
-              </SidebarMenu>
-            </SidebarGroupContent>
-          </SidebarGroup>
+          {system.length > 0 && (
+            <SidebarGroup>
+              <SidebarGroupLabel>System</SidebarGroupLabel>
+              <SidebarGroupContent>
+                <SidebarMenu>
+                  {system.map((item) => (
+                    <SidebarMenuItem key={item.title}>
+                      <SidebarMenuButton asChild isActive={currentPath === item.path}>
+                        <NavLink 
+                          to={item.path}
+                          className={open ? "hover:bg-sidebar-accent" : "hover:bg-sidebar-accent flex-col h-auto py-3 gap-1"}
+                          activeClassName="bg-sidebar-accent"
+                        >
+                          <item.icon className="h-4 w-4" />
+                          <span className={open ? "" : "text-[10px] font-normal"}>{item.title}</span>
+                        </NavLink>
+                      </SidebarMenuButton>
+                    </SidebarMenuItem>
+                  ))}
+                </SidebarMenu>
+              </SidebarGroupContent>
+            </SidebarGroup>
+          )}
         </SidebarContent>
       </ScrollArea>
     </Sidebar>
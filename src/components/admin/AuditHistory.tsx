@@ -0,0 +1,123 @@
+import { useState } from "react";
+import { format } from "date-fns";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { AuditEntry, AuditFilters, AUDIT_PAGE_SIZE, AUDIT_TABLE_LABELS, auditChanges, useAuditLog } from "@/hooks/useAuditLog";
+import type { Json } from "@/integrations/supabase/types";
+
+const ACTION_STYLES: Record<string, string> = {
+  insert: "bg-green-500/10 text-green-500",
+  update: "bg-blue-500/10 text-blue-500",
+  delete: "bg-red-500/10 text-red-500",
+};
+
+const formatValue = (value: Json | undefined) => {
+  if (value === undefined || value === null) return "—";
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+};
+
+export function AuditActionBadge({ action }: { action: string }) {
+  return (
+    <Badge variant="outline" className={`capitalize ${ACTION_STYLES[action] ?? ""}`}>
+      {action}
+    </Badge>
+  );
+}
+
+// Before/after of each field an entry touched
+export function AuditChanges({ entry }: { entry: AuditEntry }) {
+  const changes = auditChanges(entry);
+  if (changes.length === 0) {
+    return <p className="text-xs text-muted-foreground">No field data</p>;
+  }
+
+  return (
+    <div className="space-y-1 text-xs">
+      {changes.map((change) => (
+        <div key={change.field} className="grid grid-cols-[8rem_1fr] gap-2">
+          <span className="font-mono text-muted-foreground truncate">{change.field}</span>
+          <span className="break-all">
+            {entry.action !== "insert" && (
+              <span className="text-red-500 line-through mr-2">{formatValue(change.before)}</span>
+            )}
+            {entry.action !== "delete" && <span className="text-green-500">{formatValue(change.after)}</span>}
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+// Change history of one record (or one user's records) for the History section of the edit pages
+export function AuditHistory(filters: Omit<AuditFilters, "page" | "actorId">) {
+  const [page, setPage] = useState(0);
+  const { data, isLoading } = useAuditLog({ ...filters, page });
+  const entries = data?.entries ?? [];
+  const pageCount = Math.ceil((data?.count ?? 0) / AUDIT_PAGE_SIZE);
+
+  if (isLoading) {
+    return <p className="text-sm text-muted-foreground text-center py-8">Loading history...</p>;
+  }
+
+  if (entries.length === 0) {
+    return <p className="text-sm text-muted-foreground text-center py-8">No recorded changes</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      {entries.map((entry) => (
+        <div key={entry.id} className="p-3 border rounded-lg space-y-2">
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            <AuditActionBadge action={entry.action} />
+            {!filters.tableName && (
+              <span className="font-medium">{AUDIT_TABLE_LABELS[entry.table_name] ?? entry.table_name}</span>
+            )}
+            <span className="text-muted-foreground">by {entry.actorEmail}</span>
+            <span className="ml-auto text-xs text-muted-foreground">
+              {format(new Date(entry.created_at), "MMM dd, yyyy HH:mm")}
+            </span>
+          </div>
+          <AuditChanges entry={entry} />
+        </div>
+      ))}
+
+      {pageCount > 1 && (
+        <div className="flex items-center justify-end gap-2">
+          <Button variant="outline" size="sm" disabled={page === 0} onClick={() => setPage(page - 1)}>
+            Newer
+          </Button>
+          <span className="text-sm text-muted-foreground">
+            {page + 1} / {pageCount}
+          </span>
+          <Button variant="outline" size="sm" disabled={page + 1 >= pageCount} onClick={() => setPage(page + 1)}>
+            Older
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface AuditHistoryDialogProps {
+  tableName: string;
+  recordId: string | null;
+  description?: string;
+  onOpenChange: (open: boolean) => void;
+}
+
+// History of one table row, for admin lists that have no edit page of their own
+export function AuditHistoryDialog({ tableName, recordId, description, onOpenChange }: AuditHistoryDialogProps) {
+  return (
+    <Dialog open={!!recordId} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[720px] max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>History</DialogTitle>
+          {description && <DialogDescription>{description}</DialogDescription>}
+        </DialogHeader>
+        {recordId && <AuditHistory tableName={tableName} recordId={recordId} />}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,179 @@
+import { useEffect, useState } from "react";
+import { format, startOfDay } from "date-fns";
+import { Trash2 } from "lucide-react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "sonner";
+import type { LiveChannel } from "@/hooks/useLiveChannels";
+
+interface ChannelScheduleDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  channel: LiveChannel | null;
+}
+
+const emptyForm = { title: "", category: "", starts_at: "", ends_at: "" };
+
+export function ChannelScheduleDialog({ open, onOpenChange, channel }: ChannelScheduleDialogProps) {
+  const [formData, setFormData] = useState(emptyForm);
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    setFormData(emptyForm);
+  }, [channel, open]);
+
+  const { data: programs, isLoading } = useQuery({
+    queryKey: ["channel_programs", channel?.id],
+    enabled: open && !!channel,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("channel_programs")
+        .select("*")
+        .eq("channel_id", channel!.id)
+        .gte("ends_at", startOfDay(new Date()).toISOString())
+        .order("starts_at")
+        .limit(200);
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["channel_programs", channel?.id] });
+    queryClient.invalidateQueries({ queryKey: ["channel-programs"] });
+  };
+
+  const addMutation = useMutation({
+    mutationFn: async (data: typeof formData) => {
+      const { error } = await supabase.from("channel_programs").insert({
+        channel_id: channel!.id,
+        title: data.title.trim(),
+        category: data.category.trim() || null,
+        starts_at: new Date(data.starts_at).toISOString(),
+        ends_at: new Date(data.ends_at).toISOString(),
+      });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidate();
+      toast.success("Program added");
+      setFormData(emptyForm);
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || "Failed to add program");
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from("channel_programs").delete().eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidate();
+      toast.success("Program removed");
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || "Failed to remove program");
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!formData.title.trim() || !formData.starts_at || !formData.ends_at) {
+      toast.error("Title, start and end are required");
+      return;
+    }
+    if (new Date(formData.ends_at) <= new Date(formData.starts_at)) {
+      toast.error("End must be after start");
+      return;
+    }
+    addMutation.mutate(formData);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[640px]">
+        <DialogHeader>
+          <DialogTitle>Schedule · {channel?.name}</DialogTitle>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="grid grid-cols-2 gap-3 border-b pb-4">
+          <div className="col-span-2">
+            <Label htmlFor="program-title">Title *</Label>
+            <Input
+              id="program-title"
+              value={formData.title}
+              onChange={(e) => setFormData({ ...formData, title: e.target.value })}
+              placeholder="Program title"
+            />
+          </div>
+          <div>
+            <Label htmlFor="program-start">Starts *</Label>
+            <Input
+              id="program-start"
+              type="datetime-local"
+              value={formData.starts_at}
+              onChange={(e) => setFormData({ ...formData, starts_at: e.target.value })}
+            />
+          </div>
+          <div>
+            <Label htmlFor="program-end">Ends *</Label>
+            <Input
+              id="program-end"
+              type="datetime-local"
+              value={formData.ends_at}
+              onChange={(e) => setFormData({ ...formData, ends_at: e.target.value })}
+            />
+          </div>
+          <div>
+            <Label htmlFor="program-category">Category</Label>
+            <Input
+              id="program-category"
+              value={formData.category}
+              onChange={(e) => setFormData({ ...formData, category: e.target.value })}
+              placeholder="News, Sports..."
+            />
+          </div>
+          <div className="flex items-end justify-end">
+            <Button type="submit" disabled={addMutation.isPending}>
+              {addMutation.isPending ? "Saving..." : "Add Program"}
+            </Button>
+          </div>
+        </form>
+
+        <div className="max-h-[320px] overflow-y-auto divide-y">
+          {isLoading ? (
+            <p className="text-sm text-muted-foreground py-4">Loading...</p>
+          ) : !programs?.length ? (
+            <p className="text-sm text-muted-foreground py-4">No programs scheduled from today onward.</p>
+          ) : (
+            programs.map((program) => (
+              <div key={program.id} className="flex items-center justify-between gap-3 py-2">
+                <div className="min-w-0">
+                  <p className="text-sm font-medium truncate">{program.title}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {format(new Date(program.starts_at), "EEE d MMM, HH:mm")} – {format(new Date(program.ends_at), "HH:mm")}
+                    {program.category ? ` · ${program.category}` : ""}
+                  </p>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => deleteMutation.mutate(program.id)}
+                  disabled={deleteMutation.isPending}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            ))
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
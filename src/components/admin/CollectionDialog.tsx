@@ -4,6 +4,8 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useMutation, useQueryClient } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
 import { toast } from "sonner";
@@ -21,6 +23,9 @@ export function CollectionDialog({ open, onOpenChange, collection }: CollectionD
     poster_url: "",
     backdrop_url: "",
     tmdb_id: "",
+    sort_mode: "release",
+    show_on_home: false,
+    home_order: "0",
   });
   const queryClient = useQueryClient();
 
@@ -32,9 +37,12 @@ export function CollectionDialog({ open, onOpenChange, collection }: CollectionD
         poster_url: collection.poster_url || "",
         backdrop_url: collection.backdrop_url || "",
         tmdb_id: collection.tmdb_id || "",
+        sort_mode: collection.sort_mode || "release",
+        show_on_home: collection.show_on_home ?? false,
+        home_order: String(collection.home_order ?? 0),
       });
     } else {
-      setFormData({ name: "", description: "", poster_url: "", backdrop_url: "", tmdb_id: "" });
+      setFormData({ name: "", description: "", poster_url: "", backdrop_url: "", tmdb_id: "", sort_mode: "release", show_on_home: false, home_order: "0" });
     }
   }, [collection, open]);
 
@@ -43,6 +51,7 @@ export function CollectionDialog({ open, onOpenChange, collection }: CollectionD
       const payload = {
         ...data,
         tmdb_id: data.tmdb_id ? parseInt(data.tmdb_id) : null,
+        home_order: parseInt(data.home_order) || 0,
       };
       
       if (collection) {
@@ -60,6 +69,7 @@ export function CollectionDialog({ open, onOpenChange, collection }: CollectionD
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["collections"] });
+      queryClient.invalidateQueries({ queryKey: ["public-collections"] });
       toast.success(collection ? "Collection updated" : "Collection created");
       onOpenChange(false);
     },
@@ -133,6 +143,41 @@ export function CollectionDialog({ open, onOpenChange, collection }: CollectionD
               placeholder="TMDB collection ID"
             />
           </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="sort_mode">Display Order</Label>
+              <Select
+                value={formData.sort_mode}
+                onValueChange={(value) => setFormData({ ...formData, sort_mode: value })}
+              >
+                <SelectTrigger id="sort_mode">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="release">Release order</SelectItem>
+                  <SelectItem value="custom">Custom order</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="home_order">Home Row Position</Label>
+              <Input
+                id="home_order"
+                type="number"
+                value={formData.home_order}
+                onChange={(e) => setFormData({ ...formData, home_order: e.target.value })}
+                disabled={!formData.show_on_home}
+              />
+            </div>
+          </div>
+          <div className="flex items-center space-x-2">
+            <Switch
+              id="show_on_home"
+              checked={formData.show_on_home}
+              onCheckedChange={(checked) => setFormData({ ...formData, show_on_home: checked })}
+            />
+            <Label htmlFor="show_on_home" className="cursor-pointer">Show as a row on the home page</Label>
+          </div>
           <DialogFooter>
             <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
               Cancel
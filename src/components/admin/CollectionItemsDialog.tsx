@@ -0,0 +1,250 @@
+import { useEffect, useState } from "react";
+import { ArrowDown, ArrowUp, Plus, Search, Trash2 } from "lucide-react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "sonner";
+import { MIN_SEARCH_LENGTH, useDebouncedValue } from "@/hooks/useCatalogSearch";
+import type { Collection } from "@/hooks/useCollections";
+
+interface CollectionItemsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  collection: Collection | null;
+}
+
+interface ItemRow {
+  id: string;
+  media_id: string;
+  media_type: string;
+  order_index: number | null;
+  title: string;
+  thumbnail: string | null;
+  release_year: number | null;
+  status: string | null;
+}
+
+const TITLE_TABLES = { movie: "movies", series: "series", anime: "animes" } as const;
+
+export function CollectionItemsDialog({ open, onOpenChange, collection }: CollectionItemsDialogProps) {
+  const [searchQuery, setSearchQuery] = useState("");
+  const debouncedQuery = useDebouncedValue(searchQuery.trim());
+  const queryClient = useQueryClient();
+  const queryKey = ["collection_items", collection?.id];
+
+  useEffect(() => {
+    setSearchQuery("");
+  }, [collection, open]);
+
+  const { data: items = [], isLoading } = useQuery({
+    queryKey,
+    enabled: open && !!collection,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("collection_items")
+        .select("*")
+        .eq("collection_id", collection!.id)
+        .order("order_index", { ascending: true, nullsFirst: false })
+        .order("created_at");
+      if (error) throw error;
+
+      // Drafts are listed too, so titles come from the tables rather than the public view
+      const titles = new Map<string, Omit<ItemRow, "id" | "media_id" | "media_type" | "order_index">>();
+      for (const [mediaType, table] of Object.entries(TITLE_TABLES)) {
+        const ids = data.filter((i) => i.media_type === mediaType).map((i) => i.media_id);
+        if (ids.length === 0) continue;
+        const { data: rows } = await supabase
+          .from(table)
+          .select("id, title, thumbnail, release_year, status")
+          .in("id", ids);
+        rows?.forEach((row) => titles.set(row.id, row));
+      }
+
+      return data.map((item): ItemRow => ({
+        ...item,
+        title: titles.get(item.media_id)?.title ?? "Unknown title",
+        thumbnail: titles.get(item.media_id)?.thumbnail ?? null,
+        release_year: titles.get(item.media_id)?.release_year ?? null,
+        status: titles.get(item.media_id)?.status ?? null,
+      }));
+    },
+  });
+
+  const { data: results = [], isFetching: isSearching } = useQuery({
+    queryKey: ["collection_item_search", debouncedQuery],
+    enabled: open && debouncedQuery.length >= MIN_SEARCH_LENGTH,
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc("search_catalog", {
+        _query: debouncedQuery,
+        _kinds: ["movie", "series", "anime"],
+        _limit: 8,
+      });
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey });
+    queryClient.invalidateQueries({ queryKey: ["collections"] });
+    queryClient.invalidateQueries({ queryKey: ["public-collections"] });
+  };
+
+  const addMutation = useMutation({
+    mutationFn: async (result: { id: string; kind: string }) => {
+      const nextIndex = items.reduce((max, item) => Math.max(max, item.order_index ?? -1), -1) + 1;
+      const { error } = await supabase.from("collection_items").insert({
+        collection_id: collection!.id,
+        media_id: result.id,
+        media_type: result.kind,
+        order_index: nextIndex,
+      });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidate();
+      toast.success("Added to collection");
+    },
+    onError: (error: Error) => {
+      toast.error(error.message.includes("duplicate") ? "Already in this collection" : error.message);
+    },
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from("collection_items").delete().eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidate();
+      toast.success("Removed from collection");
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || "Failed to remove item");
+    },
+  });
+
+  // Rewrites order_index as 0..n-1 so items added before custom ordering get a position too
+  const moveMutation = useMutation({
+    mutationFn: async ({ index, direction }: { index: number; direction: -1 | 1 }) => {
+      const reordered = [...items];
+      const [moved] = reordered.splice(index, 1);
+      reordered.splice(index + direction, 0, moved);
+
+      const updates = reordered
+        .map((item, position) => ({ item, position }))
+        .filter(({ item, position }) => item.order_index !== position);
+
+      for (const { item, position } of updates) {
+        const { error } = await supabase.from("collection_items").update({ order_index: position }).eq("id", item.id);
+        if (error) throw error;
+      }
+    },
+    onSuccess: invalidate,
+    onError: (error: Error) => {
+      toast.error(error.message || "Failed to reorder");
+    },
+  });
+
+  const inCollection = new Set(items.map((i) => `${i.media_type}:${i.media_id}`));
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[680px]">
+        <DialogHeader>
+          <DialogTitle>Items · {collection?.name}</DialogTitle>
+          <DialogDescription>
+            {collection?.sort_mode === "custom"
+              ? "Items appear on the collection page in the order below."
+              : "Items appear in release order. Switch the collection to custom order to use the order below."}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground w-4 h-4" />
+            <Input
+              placeholder="Search movies, series and anime to add..."
+              value={searchQuery}
+              onChange={(e) => setSearchQuery(e.target.value)}
+              className="pl-10"
+            />
+          </div>
+          {debouncedQuery.length >= MIN_SEARCH_LENGTH && (
+            <div className="border rounded-lg divide-y max-h-[200px] overflow-y-auto">
+              {isSearching && results.length === 0 ? (
+                <p className="text-sm text-muted-foreground p-3">Searching...</p>
+              ) : results.length === 0 ? (
+                <p className="text-sm text-muted-foreground p-3">No titles found.</p>
+              ) : (
+                results.map((result) => (
+                  <div key={`${result.kind}-${result.id}`} className="flex items-center gap-3 p-2">
+                    <img src={result.image_url || "/placeholder.svg"} alt="" className="w-8 h-12 object-cover rounded" />
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm font-medium truncate">{result.title}</p>
+                      <p className="text-xs text-muted-foreground capitalize">
+                        {result.kind}{result.release_year ? ` · ${result.release_year}` : ""}
+                      </p>
+                    </div>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      disabled={inCollection.has(`${result.kind}:${result.id}`) || addMutation.isPending}
+                      onClick={() => addMutation.mutate(result)}
+                    >
+                      <Plus className="w-4 h-4" />
+                    </Button>
+                  </div>
+                ))
+              )}
+            </div>
+          )}
+        </div>
+
+        <div className="border rounded-lg divide-y max-h-[340px] overflow-y-auto">
+          {isLoading ? (
+            <p className="text-sm text-muted-foreground p-3">Loading...</p>
+          ) : items.length === 0 ? (
+            <p className="text-sm text-muted-foreground p-3">This collection is empty.</p>
+          ) : (
+            items.map((item, index) => (
+              <div key={item.id} className="flex items-center gap-3 p-2">
+                <span className="w-6 text-center text-xs text-muted-foreground">{index + 1}</span>
+                <img src={item.thumbnail || "/placeholder.svg"} alt="" className="w-8 h-12 object-cover rounded" />
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium truncate">{item.title}</p>
+                  <p className="text-xs text-muted-foreground capitalize">
+                    {item.media_type}{item.release_year ? ` · ${item.release_year}` : ""}
+                  </p>
+                </div>
+                {item.status && item.status !== "published" && <Badge variant="secondary">{item.status}</Badge>}
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  disabled={index === 0 || moveMutation.isPending}
+                  onClick={() => moveMutation.mutate({ index, direction: -1 })}
+                >
+                  <ArrowUp className="w-4 h-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  disabled={index === items.length - 1 || moveMutation.isPending}
+                  onClick={() => moveMutation.mutate({ index, direction: 1 })}
+                >
+                  <ArrowDown className="w-4 h-4" />
+                </Button>
+                <Button variant="ghost" size="sm" onClick={() => removeMutation.mutate(item.id)}>
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            ))
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -4,8 +4,10 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import { ScrollArea } from "@/components/ui/scroll-area";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
 import { toast } from "sonner";
 import { format } from "date-fns";
@@ -24,9 +26,50 @@ export function CouponDialog({ open, onOpenChange, coupon }: CouponDialogProps)
     max_uses: "",
     valid_until: "",
     is_active: true,
+    applies_to: "all",
+    max_uses_per_user: "",
+    plan_ids: [] as string[],
+    media_ids: [] as string[],
   });
   const queryClient = useQueryClient();
 
+  const { data: plans } = useQuery({
+    queryKey: ["subscription-plans-admin"],
+    enabled: open && formData.applies_to === "subscription",
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("subscription_plans")
+        .select("id, name, price")
+        .order("price", { ascending: true });
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const { data: rentableTitles } = useQuery({
+    queryKey: ["rentable-titles"],
+    enabled: open && formData.applies_to === "rental",
+    queryFn: async () => {
+      const [movies, series, animes] = await Promise.all([
+        supabase.from("movies").select("id, title").not("rental_price", "is", null).order("title"),
+        supabase.from("series").select("id, title").not("rental_price", "is", null).order("title"),
+        supabase.from("animes").select("id, title").not("rental_price", "is", null).order("title"),
+      ]);
+      return [
+        ...(movies.data || []).map((m) => ({ ...m, kind: "Movie" })),
+        ...(series.data || []).map((m) => ({ ...m, kind: "Series" })),
+        ...(animes.data || []).map((m) => ({ ...m, kind: "Anime" })),
+      ];
+    },
+  });
+
+  const toggleId = (field: "plan_ids" | "media_ids", id: string, checked: boolean) => {
+    setFormData((prev) => ({
+      ...prev,
+      [field]: checked ? [...prev[field], id] : prev[field].filter((existing) => existing !== id),
+    }));
+  };
+
   useEffect(() => {
     if (coupon) {
       setFormData({
@@ -36,9 +79,24 @@ export function CouponDialog({ open, onOpenChange, coupon }: CouponDialogProps)
         max_uses: coupon.max_uses?.toString() || "",
         valid_until: coupon.valid_until ? format(new Date(coupon.valid_until), "yyyy-MM-dd") : "",
         is_active: coupon.is_active ?? true,
+        applies_to: coupon.applies_to || "all",
+        max_uses_per_user: coupon.max_uses_per_user?.toString() || "",
+        plan_ids: coupon.plan_ids || [],
+        media_ids: coupon.media_ids || [],
       });
     } else {
-      setFormData({ code: "", discount_type: "percentage", discount_value: "", max_uses: "", valid_until: "", is_active: true });
+      setFormData({
+        code: "",
+        discount_type: "percentage",
+        discount_value: "",
+        max_uses: "",
+        valid_until: "",
+        is_active: true,
+        applies_to: "all",
+        max_uses_per_user: "",
+        plan_ids: [],
+        media_ids: [],
+      });
     }
   }, [coupon, open]);
 
@@ -51,6 +109,11 @@ export function CouponDialog({ open, onOpenChange, coupon }: CouponDialogProps)
         max_uses: data.max_uses ? parseInt(data.max_uses) : null,
         valid_until: data.valid_until || null,
         is_active: data.is_active,
+        applies_to: data.applies_to,
+        max_uses_per_user: data.max_uses_per_user ? parseInt(data.max_uses_per_user) : null,
+        // Scope lists only mean something for their own purchase type
+        plan_ids: data.applies_to === "subscription" && data.plan_ids.length ? data.plan_ids : null,
+        media_ids: data.applies_to === "rental" && data.media_ids.length ? data.media_ids : null,
       };
       
       if (coupon) {
@@ -151,6 +214,70 @@ export function CouponDialog({ open, onOpenChange, coupon }: CouponDialogProps)
               />
             </div>
           </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="applies_to">Applies To</Label>
+              <Select
+                value={formData.applies_to}
+                onValueChange={(value) => setFormData({ ...formData, applies_to: value })}
+              >
+                <SelectTrigger id="applies_to">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All purchases</SelectItem>
+                  <SelectItem value="subscription">Subscriptions</SelectItem>
+                  <SelectItem value="rental">Rentals</SelectItem>
+                  <SelectItem value="topup">Wallet top-ups (bonus credit)</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="max_uses_per_user">Uses Per User (Optional)</Label>
+              <Input
+                id="max_uses_per_user"
+                type="number"
+                value={formData.max_uses_per_user}
+                onChange={(e) => setFormData({ ...formData, max_uses_per_user: e.target.value })}
+                placeholder="Leave empty for unlimited"
+              />
+            </div>
+          </div>
+          {formData.applies_to === "subscription" && (
+            <div>
+              <Label>Plans (leave all unchecked for every plan)</Label>
+              <div className="mt-2 space-y-2 rounded-md border p-3">
+                {plans?.map((plan) => (
+                  <label key={plan.id} className="flex items-center gap-2 text-sm cursor-pointer">
+                    <Checkbox
+                      checked={formData.plan_ids.includes(plan.id)}
+                      onCheckedChange={(checked) => toggleId("plan_ids", plan.id, checked === true)}
+                    />
+                    {plan.name} <span className="text-muted-foreground">${plan.price}</span>
+                  </label>
+                ))}
+              </div>
+            </div>
+          )}
+          {formData.applies_to === "rental" && (
+            <div>
+              <Label>Titles (leave all unchecked for every rental)</Label>
+              <ScrollArea className="mt-2 h-40 rounded-md border p-3">
+                <div className="space-y-2">
+                  {rentableTitles?.map((title) => (
+                    <label key={title.id} className="flex items-center gap-2 text-sm cursor-pointer">
+                      <Checkbox
+                        checked={formData.media_ids.includes(title.id)}
+                        onCheckedChange={(checked) => toggleId("media_ids", title.id, checked === true)}
+                      />
+                      <span className="truncate">{title.title}</span>
+                      <span className="text-xs text-muted-foreground">{title.kind}</span>
+                    </label>
+                  ))}
+                </div>
+              </ScrollArea>
+            </div>
+          )}
           <div className="flex items-center space-x-2">
             <Switch
               id="is_active"
@@ -1,5 +1,5 @@
 import { Button } from "@/components/ui/button";
-import { Pencil, Trash2 } from "lucide-react";
+import { History, Pencil, Trash2 } from "lucide-react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
 import { toast } from "sonner";
@@ -23,6 +23,8 @@ import {
   TableRow,
 } from "@/components/ui/table";
 import { TableSkeleton } from "./TableSkeleton";
+import { AuditHistoryDialog } from "./AuditHistory";
+import { useAuth } from "@/hooks/useAuth";
 import { useState } from "react";
 import { format } from "date-fns";
 
@@ -32,6 +34,8 @@ interface CouponsTableProps {
 
 export function CouponsTable({ onEdit }: CouponsTableProps) {
   const [deleteId, setDeleteId] = useState<string | null>(null);
+  const [historyCoupon, setHistoryCoupon] = useState<{ id: string; code: string } | null>(null);
+  const { isAdmin } = useAuth();
   const queryClient = useQueryClient();
 
   const { data: coupons, isLoading } = useQuery({
@@ -72,6 +76,7 @@ export function CouponsTable({ onEdit }: CouponsTableProps) {
               <TableHead>Code</TableHead>
               <TableHead>Type</TableHead>
               <TableHead>Value</TableHead>
+              <TableHead>Applies To</TableHead>
               <TableHead>Used/Max</TableHead>
               <TableHead>Valid Until</TableHead>
               <TableHead>Status</TableHead>
@@ -86,8 +91,19 @@ export function CouponsTable({ onEdit }: CouponsTableProps) {
                 <TableCell>
                   {coupon.discount_type === "percentage" ? `${coupon.discount_value}%` : `$${coupon.discount_value}`}
                 </TableCell>
+                <TableCell className="capitalize">
+                  {coupon.applies_to === "all" ? "All" : coupon.applies_to}
+                  {(coupon.plan_ids?.length || coupon.media_ids?.length) ? (
+                    <span className="text-muted-foreground">
+                      {" "}({(coupon.plan_ids?.length || 0) + (coupon.media_ids?.length || 0)} selected)
+                    </span>
+                  ) : null}
+                </TableCell>
                 <TableCell>
                   {coupon.used_count || 0} / {coupon.max_uses || "∞"}
+                  {coupon.max_uses_per_user && (
+                    <span className="block text-xs text-muted-foreground">{coupon.max_uses_per_user} per user</span>
+                  )}
                 </TableCell>
                 <TableCell>
                   {coupon.valid_until ? format(new Date(coupon.valid_until), "MMM dd, yyyy") : "No limit"}
@@ -98,6 +114,11 @@ export function CouponsTable({ onEdit }: CouponsTableProps) {
                   </Badge>
                 </TableCell>
                 <TableCell className="text-right">
+                  {isAdmin && (
+                    <Button variant="ghost" size="sm" onClick={() => setHistoryCoupon(coupon)}>
+                      <History className="w-4 h-4" />
+                    </Button>
+                  )}
                   <Button variant="ghost" size="sm" onClick={() => onEdit(coupon)}>
                     <Pencil className="w-4 h-4" />
                   </Button>
@@ -111,6 +132,13 @@ export function CouponsTable({ onEdit }: CouponsTableProps) {
         </Table>
       </div>
 
+      <AuditHistoryDialog
+        tableName="coupons"
+        recordId={historyCoupon?.id ?? null}
+        description={historyCoupon ? `Changes to coupon ${historyCoupon.code}` : undefined}
+        onOpenChange={(open) => !open && setHistoryCoupon(null)}
+      />
+
       <AlertDialog open={!!deleteId} onOpenChange={() => setDeleteId(null)}>
         <AlertDialogContent>
           <AlertDialogHeader>
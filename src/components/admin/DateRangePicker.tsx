@@ -0,0 +1,72 @@
+import { format, subDays } from "date-fns";
+import { DateRange } from "react-day-picker";
+import { CalendarIcon } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { cn } from "@/lib/utils";
+
+export interface DateRangeValue {
+  from: Date;
+  to: Date;
+}
+
+interface DateRangePickerProps {
+  value: DateRangeValue;
+  onChange: (value: DateRangeValue) => void;
+  className?: string;
+}
+
+const PRESETS = [
+  { label: "7 days", days: 7 },
+  { label: "30 days", days: 30 },
+  { label: "90 days", days: 90 },
+  { label: "1 year", days: 365 },
+];
+
+const lastDays = (days: number): DateRangeValue => {
+  const to = new Date();
+  return { from: subDays(to, days - 1), to };
+};
+
+export function DateRangePicker({ value, onChange, className }: DateRangePickerProps) {
+  const handleSelect = (range: DateRange | undefined) => {
+    if (range?.from) {
+      onChange({ from: range.from, to: range.to ?? range.from });
+    }
+  };
+
+  return (
+    <div className={cn("flex flex-wrap items-center gap-2", className)}>
+      {PRESETS.map((preset) => (
+        <Button
+          key={preset.days}
+          variant="outline"
+          size="sm"
+          onClick={() => onChange(lastDays(preset.days))}
+        >
+          {preset.label}
+        </Button>
+      ))}
+      <Popover>
+        <PopoverTrigger asChild>
+          <Button variant="outline" size="sm" className="justify-start text-left font-normal">
+            <CalendarIcon className="mr-2 h-4 w-4" />
+            {format(value.from, "MMM dd, yyyy")} - {format(value.to, "MMM dd, yyyy")}
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-auto p-0" align="end">
+          <Calendar
+            mode="range"
+            selected={{ from: value.from, to: value.to }}
+            onSelect={handleSelect}
+            numberOfMonths={2}
+            defaultMonth={value.from}
+            disabled={{ after: new Date() }}
+            initialFocus
+          />
+        </PopoverContent>
+      </Popover>
+    </div>
+  );
+}
@@ -0,0 +1,310 @@
+import { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { KeyRound, Plus, Trash2 } from "lucide-react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
+import { ClearKeyPair, DRM_KEY_SYSTEMS, isHexKey, normalizeHexKey } from "@/lib/drm";
+import { toast } from "sonner";
+
+interface DrmProfileDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  profile: Tables<"drm_profiles"> | null;
+}
+
+interface HeaderRow {
+  name: string;
+  value: string;
+}
+
+const emptyForm = {
+  name: "",
+  key_system: "com.widevine.alpha",
+  license_server_url: "",
+  is_active: true,
+  notes: "",
+};
+
+const randomHex = () =>
+  Array.from(crypto.getRandomValues(new Uint8Array(16)), (byte) => byte.toString(16).padStart(2, "0")).join("");
+
+export function DrmProfileDialog({ open, onOpenChange, profile }: DrmProfileDialogProps) {
+  const [formData, setFormData] = useState(emptyForm);
+  const [headers, setHeaders] = useState<HeaderRow[]>([]);
+  const [clearKeys, setClearKeys] = useState<ClearKeyPair[]>([]);
+  const queryClient = useQueryClient();
+
+  const isClearKey = formData.key_system === "org.w3.clearkey";
+
+  useEffect(() => {
+    if (profile) {
+      setFormData({
+        name: profile.name,
+        key_system: profile.key_system,
+        license_server_url: profile.license_server_url || "",
+        is_active: profile.is_active,
+        notes: profile.notes || "",
+      });
+      setHeaders(
+        Object.entries((profile.license_headers ?? {}) as Record<string, string>).map(([name, value]) => ({
+          name,
+          value,
+        }))
+      );
+      setClearKeys((profile.clearkey_keys ?? []) as unknown as ClearKeyPair[]);
+    } else {
+      setFormData(emptyForm);
+      setHeaders([]);
+      setClearKeys([]);
+    }
+  }, [profile, open]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const payload = {
+        name: formData.name.trim(),
+        key_system: formData.key_system,
+        license_server_url: formData.license_server_url.trim() || null,
+        license_headers: Object.fromEntries(
+          headers.filter((h) => h.name.trim()).map((h) => [h.name.trim(), h.value])
+        ),
+        clearkey_keys: isClearKey
+          ? clearKeys.map((pair) => ({ kid: normalizeHexKey(pair.kid), key: normalizeHexKey(pair.key) }))
+          : [],
+        is_active: formData.is_active,
+        notes: formData.notes.trim() || null,
+      };
+
+      if (profile) {
+        const { error } = await supabase.from("drm_profiles").update(payload).eq("id", profile.id);
+        if (error) throw error;
+      } else {
+        const { error } = await supabase.from("drm_profiles").insert([payload]);
+        if (error) throw error;
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["drm-profiles"] });
+      toast.success(profile ? "DRM profile updated" : "DRM profile created");
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || "Failed to save DRM profile");
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!formData.name.trim()) {
+      toast.error("Name is required");
+      return;
+    }
+    if (isClearKey) {
+      if (!formData.license_server_url.trim() && clearKeys.length === 0) {
+        toast.error("ClearKey needs a license server URL or at least one key pair");
+        return;
+      }
+      if (clearKeys.some((pair) => !isHexKey(pair.kid) || !isHexKey(pair.key))) {
+        toast.error("Key IDs and keys must be 32 hex characters");
+        return;
+      }
+    } else if (!formData.license_server_url.trim()) {
+      toast.error("License server URL is required");
+      return;
+    }
+    saveMutation.mutate();
+  };
+
+  const updateHeader = (index: number, field: keyof HeaderRow, value: string) => {
+    setHeaders((prev) => prev.map((row, i) => (i === index ? { ...row, [field]: value } : row)));
+  };
+
+  const updateClearKey = (index: number, field: keyof ClearKeyPair, value: string) => {
+    setClearKeys((prev) => prev.map((pair, i) => (i === index ? { ...pair, [field]: value.trim() } : pair)));
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[600px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{profile ? "Edit DRM Profile" : "Add DRM Profile"}</DialogTitle>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="name">Name *</Label>
+              <Input
+                id="name"
+                value={formData.name}
+                onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                placeholder="Widevine - Production"
+              />
+            </div>
+            <div>
+              <Label htmlFor="key_system">Key System</Label>
+              <Select
+                value={formData.key_system}
+                onValueChange={(value) => setFormData({ ...formData, key_system: value })}
+              >
+                <SelectTrigger id="key_system">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {DRM_KEY_SYSTEMS.map((system) => (
+                    <SelectItem key={system.value} value={system.value}>
+                      {system.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div>
+            <Label htmlFor="license_server_url">
+              License Server URL {isClearKey ? "(optional)" : "*"}
+            </Label>
+            <Input
+              id="license_server_url"
+              value={formData.license_server_url}
+              onChange={(e) => setFormData({ ...formData, license_server_url: e.target.value })}
+              placeholder="https://license.example.com/widevine"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label>License Request Headers</Label>
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => setHeaders([...headers, { name: "", value: "" }])}
+              >
+                <Plus className="h-3 w-3 mr-1" />
+                Add Header
+              </Button>
+            </div>
+            {headers.length === 0 && (
+              <p className="text-xs text-muted-foreground">No custom headers</p>
+            )}
+            {headers.map((header, index) => (
+              <div key={index} className="flex gap-2">
+                <Input
+                  placeholder="Header name"
+                  value={header.name}
+                  onChange={(e) => updateHeader(index, "name", e.target.value)}
+                />
+                <Input
+                  placeholder="Value"
+                  value={header.value}
+                  onChange={(e) => updateHeader(index, "value", e.target.value)}
+                />
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => setHeaders(headers.filter((_, i) => i !== index))}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+
+          {isClearKey && (
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label>ClearKey Key Pairs</Label>
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setClearKeys([...clearKeys, { kid: "", key: "" }])}
+                >
+                  <Plus className="h-3 w-3 mr-1" />
+                  Add Key
+                </Button>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Hex key ID and key (32 characters each), matching the ones used to encrypt the stream.
+                ClearKey is meant for testing - keys are sent to the player in the clear.
+              </p>
+              {clearKeys.map((pair, index) => (
+                <div key={index} className="flex gap-2">
+                  <Input
+                    className="font-mono text-xs"
+                    placeholder="Key ID"
+                    value={pair.kid}
+                    onChange={(e) => updateClearKey(index, "kid", e.target.value)}
+                  />
+                  <Input
+                    className="font-mono text-xs"
+                    placeholder="Key"
+                    value={pair.key}
+                    onChange={(e) => updateClearKey(index, "key", e.target.value)}
+                  />
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    title="Generate random key"
+                    onClick={() => {
+                      if (!pair.kid) updateClearKey(index, "kid", randomHex());
+                      updateClearKey(index, "key", randomHex());
+                    }}
+                  >
+                    <KeyRound className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => setClearKeys(clearKeys.filter((_, i) => i !== index))}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="flex items-center gap-2">
+            <Switch
+              id="is_active"
+              checked={formData.is_active}
+              onCheckedChange={(checked) => setFormData({ ...formData, is_active: checked })}
+            />
+            <Label htmlFor="is_active">Active</Label>
+          </div>
+
+          <div>
+            <Label htmlFor="notes">Notes</Label>
+            <Textarea
+              id="notes"
+              rows={2}
+              value={formData.notes}
+              onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+            />
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={saveMutation.isPending}>
+              {saveMutation.isPending ? "Saving..." : profile ? "Update" : "Create"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,175 @@
+import { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "sonner";
+import { matchXmltvChannel, parseXmltv, XmltvGuide } from "@/lib/xmltv";
+import type { LiveChannel } from "@/hooks/useLiveChannels";
+
+interface EpgImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  channels: LiveChannel[];
+}
+
+const SKIP = "skip";
+
+export function EpgImportDialog({ open, onOpenChange, channels }: EpgImportDialogProps) {
+  const [guide, setGuide] = useState<XmltvGuide | null>(null);
+  // XMLTV channel id -> our channel id
+  const [mapping, setMapping] = useState<Record<string, string>>({});
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    setGuide(null);
+    setMapping({});
+  }, [open]);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    try {
+      const parsed = parseXmltv(await file.text());
+      // Programmes can reference channels the file never declares
+      const declared = new Set(parsed.channels.map((c) => c.id));
+      parsed.programmes.forEach((p) => {
+        if (!declared.has(p.channel)) {
+          declared.add(p.channel);
+          parsed.channels.push({ id: p.channel, displayNames: [] });
+        }
+      });
+
+      const initial: Record<string, string> = {};
+      parsed.channels.forEach((c) => {
+        initial[c.id] = matchXmltvChannel(c, channels)?.id ?? SKIP;
+      });
+      setGuide(parsed);
+      setMapping(initial);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to read guide file");
+      setGuide(null);
+    }
+  };
+
+  const programmeCount = (xmltvId: string) => guide?.programmes.filter((p) => p.channel === xmltvId).length ?? 0;
+
+  const importMutation = useMutation({
+    mutationFn: async () => {
+      if (!guide) return 0;
+      let imported = 0;
+
+      for (const [xmltvId, channelId] of Object.entries(mapping)) {
+        if (channelId === SKIP) continue;
+        const programmes = guide.programmes
+          .filter((p) => p.channel === xmltvId)
+          .map(({ channel: _channel, ...program }) => program);
+        if (programmes.length === 0) continue;
+
+        const { data, error } = await supabase.rpc("import_channel_programs", {
+          _channel_id: channelId,
+          _programs: programmes,
+        });
+        if (error) throw error;
+        imported += data ?? 0;
+
+        // Remember the mapping so the next import of the same feed matches automatically
+        const channel = channels.find((c) => c.id === channelId);
+        if (channel && !channel.epg_channel_id) {
+          await supabase.from("streaming_channels").update({ epg_channel_id: xmltvId }).eq("id", channelId);
+        }
+      }
+
+      return imported;
+    },
+    onSuccess: (imported) => {
+      queryClient.invalidateQueries({ queryKey: ["streaming_channels"] });
+      queryClient.invalidateQueries({ queryKey: ["channel-programs"] });
+      toast.success(`Imported ${imported} programmes`);
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || "Failed to import guide");
+    },
+  });
+
+  const mappedCount = Object.values(mapping).filter((id) => id !== SKIP).length;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[720px]">
+        <DialogHeader>
+          <DialogTitle>Import Program Guide</DialogTitle>
+          <DialogDescription>
+            Upload an XMLTV file. Each guide channel is matched by EPG channel ID or name; programmes replace the
+            existing schedule for the time range they cover.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div>
+            <Label htmlFor="xmltv-file">XMLTV File</Label>
+            <Input id="xmltv-file" type="file" accept=".xml,application/xml,text/xml" onChange={handleFile} />
+          </div>
+
+          {guide && (
+            <div className="border rounded-lg max-h-[360px] overflow-y-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Guide Channel</TableHead>
+                    <TableHead>Programmes</TableHead>
+                    <TableHead>Import Into</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {guide.channels.map((c) => (
+                    <TableRow key={c.id}>
+                      <TableCell>
+                        <div className="font-medium">{c.displayNames[0] || c.id}</div>
+                        <div className="text-xs text-muted-foreground">{c.id}</div>
+                      </TableCell>
+                      <TableCell>{programmeCount(c.id)}</TableCell>
+                      <TableCell className="w-[220px]">
+                        <Select
+                          value={mapping[c.id] ?? SKIP}
+                          onValueChange={(value) => setMapping({ ...mapping, [c.id]: value })}
+                        >
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value={SKIP}>Skip</SelectItem>
+                            {channels.map((channel) => (
+                              <SelectItem key={channel.id} value={channel.id}>
+                                {channel.name}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={() => importMutation.mutate()} disabled={!guide || mappedCount === 0 || importMutation.isPending}>
+            {importMutation.isPending ? "Importing..." : `Import ${mappedCount} ${mappedCount === 1 ? "Channel" : "Channels"}`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
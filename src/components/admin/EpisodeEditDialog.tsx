@@ -8,6 +8,10 @@ import { Plus, Trash2 } from "lucide-react";
 import { toast } from "sonner";
 import { supabase } from "@/integrations/supabase/client";
 import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { EpisodeMarkers, formatTimecode, parseTimecode } from "@/lib/episodeMarkers";
+import { SubtitleManager } from "./SubtitleManager";
+import { StartTranscodeDialog } from "./StartTranscodeDialog";
+import { TranscodeJobList } from "./TranscodeJobs";
 
 interface VideoSource {
   server: string;
@@ -23,9 +27,11 @@ interface VideoSource {
   };
   defaultQuality?: "480p" | "720p" | "1080p";
   isDefault: boolean;
+  // Managed from Servers & DRM; carried through so re-saving sources keeps the assignment
+  drmProfileId?: string | null;
 }
 
-interface Episode {
+interface Episode extends EpisodeMarkers {
   id: string;
   name: string;
   episode_number: number;
@@ -34,6 +40,16 @@ interface Episode {
   video_sources?: VideoSource[];
 }
 
+type MarkerField = keyof EpisodeMarkers;
+
+const MARKER_FIELDS: { field: MarkerField; label: string }[] = [
+  { field: "recap_start", label: "Recap start" },
+  { field: "recap_end", label: "Recap end" },
+  { field: "intro_start", label: "Intro start" },
+  { field: "intro_end", label: "Intro end" },
+  { field: "credits_start", label: "Credits start" },
+];
+
 interface EpisodeEditDialogProps {
   episode: Episode | null;
   open: boolean;
@@ -46,11 +62,26 @@ export function EpisodeEditDialog({ episode, open, onOpenChange, seriesId }: Epi
   const [access, setAccess] = useState(episode?.access || "free");
   const [videoSources, setVideoSources] = useState<VideoSource[]>([]);
   const [loadingSources, setLoadingSources] = useState(false);
+  const [transcodeDialogOpen, setTranscodeDialogOpen] = useState(false);
+  const [markers, setMarkers] = useState<Record<MarkerField, string>>({
+    intro_start: "",
+    intro_end: "",
+    recap_start: "",
+    recap_end: "",
+    credits_start: "",
+  });
 
   // Fetch video sources from video_sources table
   useEffect(() => {
     if (open && episode) {
       setAccess(episode.access || "free");
+      setMarkers({
+        intro_start: formatTimecode(episode.intro_start),
+        intro_end: formatTimecode(episode.intro_end),
+        recap_start: formatTimecode(episode.recap_start),
+        recap_end: formatTimecode(episode.recap_end),
+        credits_start: formatTimecode(episode.credits_start),
+      });
       setLoadingSources(true);
       
       supabase
@@ -74,6 +105,7 @@ export function EpisodeEditDialog({ episode, open, onOpenChange, seriesId }: Epi
               mp4Urls: source.quality_urls as any,
               defaultQuality: source.quality as "480p" | "720p" | "1080p" | undefined,
               isDefault: source.is_default,
+              drmProfileId: source.drm_profile_id,
             }));
             setVideoSources(mapped);
           }
@@ -98,11 +130,25 @@ export function EpisodeEditDialog({ episode, open, onOpenChange, seriesId }: Epi
     mutationFn: async () => {
       if (!episode) return;
 
-      // Update episode access
+      const parsedMarkers: EpisodeMarkers = {};
+      for (const { field, label } of MARKER_FIELDS) {
+        const seconds = parseTimecode(markers[field]);
+        if (seconds === undefined) throw new Error(`${label} must be a time like 1:30`);
+        parsedMarkers[field] = seconds;
+      }
+      for (const segment of ["intro", "recap"] as const) {
+        const start = parsedMarkers[`${segment}_start`];
+        const end = parsedMarkers[`${segment}_end`];
+        if (start != null && end == null) throw new Error(`Set an end time for the ${segment}`);
+        if (start != null && end != null && end <= start) throw new Error(`The ${segment} must end after it starts`);
+      }
+
+      // Update episode access and timing markers
       const { error: episodeError } = await supabase
         .from("episodes")
         .update({
           access: access as "free" | "rent" | "vip",
+          ...parsedMarkers,
         })
         .eq("id", episode.id);
 
@@ -126,8 +172,10 @@ export function EpisodeEditDialog({ episode, open, onOpenChange, seriesId }: Epi
           source_type: source.type,
           url: source.url || null,
           quality: source.type === "mp4" ? source.defaultQuality : source.quality,
-          quality_urls: source.type === "mp4" ? source.mp4Urls : {},
+          // HLS sources keep their per-rendition playlists (filled in by transcoding jobs)
+          quality_urls: source.type === "iframe" ? {} : source.mp4Urls ?? {},
           is_default: source.isDefault,
+          drm_profile_id: source.drmProfileId ?? null,
         }));
 
         const { error: insertError } = await supabase
@@ -226,6 +274,28 @@ export function EpisodeEditDialog({ episode, open, onOpenChange, seriesId }: Epi
             </Select>
           </div>
 
+          <div className="space-y-2">
+            <Label className="text-lg font-semibold">Skip Markers</Label>
+            <p className="text-sm text-muted-foreground">
+              Times as m:ss or h:mm:ss. Intro and recap get a skip button; the next-episode countdown starts at the credits.
+              Leave a start blank to begin at 0:00.
+            </p>
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+              {MARKER_FIELDS.map(({ field, label }) => (
+                <div key={field} className="space-y-1">
+                  <Label htmlFor={field} className="text-xs">{label}</Label>
+                  <Input
+                    id={field}
+                    value={markers[field]}
+                    onChange={(e) => setMarkers((prev) => ({ ...prev, [field]: e.target.value }))}
+                    placeholder="0:00"
+                    className="h-9"
+                  />
+                </div>
+              ))}
+            </div>
+          </div>
+
           <div className="space-y-4">
             <div className="flex items-center justify-between mb-2">
               <Label className="text-lg font-semibold">Video Sources</Label>
@@ -417,6 +487,32 @@ export function EpisodeEditDialog({ episode, open, onOpenChange, seriesId }: Epi
             </div>
           </div>
 
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label className="text-lg font-semibold">HLS Transcoding</Label>
+              <Button size="sm" variant="outline" onClick={() => setTranscodeDialogOpen(true)}>
+                <Plus className="h-4 w-4 mr-2" />
+                Transcode Master
+              </Button>
+            </div>
+            <p className="text-sm text-muted-foreground">
+              A finished job adds its video source right away; reopen this dialog before saving other changes to keep it.
+            </p>
+            <TranscodeJobList episodeId={episode.id} />
+            <StartTranscodeDialog
+              open={transcodeDialogOpen}
+              onOpenChange={setTranscodeDialogOpen}
+              episodeId={episode.id}
+              version={access}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label className="text-lg font-semibold">Subtitles</Label>
+            <p className="text-sm text-muted-foreground">Uploaded files are saved immediately, separately from the changes above.</p>
+            <SubtitleManager episodeId={episode.id} />
+          </div>
+
           <div className="flex justify-end gap-2 pt-4">
             <Button variant="outline" onClick={() => onOpenChange(false)}>
               Cancel
@@ -24,70 +24,247 @@ import {
   PopoverContent,
   PopoverTrigger,
 } from "@/components/ui/popover";
-import { CalendarIcon, Send, Save } from "lucide-react";
+import { CalendarIcon, Send, Save, Loader2 } from "lucide-react";
 import { format } from "date-fns";
-import { useState } from "react";
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { Tables, TablesInsert } from "@/integrations/supabase/types";
 import { cn } from "@/lib/utils";
 import { toast } from "sonner";
 
 interface NotificationDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
+  notification?: Tables<"notifications"> | null;
 }
 
-export function NotificationDialog({ open, onOpenChange }: NotificationDialogProps) {
+type SaveMode = "draft" | "send";
+
+const MAX_MESSAGE_LENGTH = 500;
+
+// Cast followers are stored per cast row, so a person is picked by TMDB id when known, else by name
+const castKey = (name: string, tmdbId: number | null) => (tmdbId ? `tmdb:${tmdbId}` : `name:${name.toLowerCase()}`);
+
+export function NotificationDialog({ open, onOpenChange, notification }: NotificationDialogProps) {
   const [title, setTitle] = useState("");
   const [message, setMessage] = useState("");
+  const [linkUrl, setLinkUrl] = useState("");
   const [type, setType] = useState<string>("info");
-  const [recipient, setRecipient] = useState<string>("all");
+  const [audience, setAudience] = useState<string>("all");
+  const [planId, setPlanId] = useState("");
+  const [mediaKey, setMediaKey] = useState("");
+  const [castTarget, setCastTarget] = useState("");
   const [scheduled, setScheduled] = useState(false);
   const [scheduleDate, setScheduleDate] = useState<Date>();
   const [scheduleTime, setScheduleTime] = useState("12:00");
+  const queryClient = useQueryClient();
 
-  const handleSend = () => {
-    if (!title || !message) {
+  useEffect(() => {
+    if (!open) return;
+    const scheduledFor = notification?.scheduled_for ? new Date(notification.scheduled_for) : undefined;
+    setTitle(notification?.title || "");
+    setMessage(notification?.message || "");
+    setLinkUrl(notification?.link_url || "");
+    setType(notification?.type || "info");
+    setAudience(notification?.audience || "all");
+    setPlanId(notification?.audience_plan_id || "");
+    setMediaKey(
+      notification?.audience_media_id
+        ? `${notification.audience_media_type}:${notification.audience_media_id}`
+        : ""
+    );
+    setCastTarget(
+      notification?.audience_cast_name
+        ? castKey(notification.audience_cast_name, notification.audience_cast_tmdb_id)
+        : ""
+    );
+    setScheduled(!!scheduledFor);
+    setScheduleDate(scheduledFor);
+    setScheduleTime(scheduledFor ? format(scheduledFor, "HH:mm") : "12:00");
+  }, [notification, open]);
+
+  const { data: plans } = useQuery({
+    queryKey: ["subscription-plans-admin"],
+    enabled: open && audience === "plan_subscribers",
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("subscription_plans")
+        .select("id, name, price")
+        .order("price", { ascending: true });
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const { data: rentableTitles } = useQuery({
+    queryKey: ["rentable-titles"],
+    enabled: open && audience === "title_renters",
+    queryFn: async () => {
+      const [movies, series, animes] = await Promise.all([
+        supabase.from("movies").select("id, title").not("rental_price", "is", null).order("title"),
+        supabase.from("series").select("id, title").not("rental_price", "is", null).order("title"),
+        supabase.from("animes").select("id, title").not("rental_price", "is", null).order("title"),
+      ]);
+      return [
+        ...(movies.data || []).map((m) => ({ ...m, kind: "Movie" })),
+        ...(series.data || []).map((m) => ({ ...m, kind: "Series" })),
+        ...(animes.data || []).map((m) => ({ ...m, kind: "Anime" })),
+      ];
+    },
+  });
+
+  const { data: castTargets } = useQuery({
+    queryKey: ["followed-cast-targets"],
+    enabled: open && audience === "cast_followers",
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc("followed_cast_targets");
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const selectedCast = castTargets?.find((c) => castKey(c.actor_name, c.tmdb_person_id) === castTarget);
+  const [mediaType, mediaId] = mediaKey ? mediaKey.split(":") : [null, null];
+
+  const target = {
+    audience,
+    audience_plan_id: audience === "plan_subscribers" ? planId || null : null,
+    audience_media_id: audience === "title_renters" ? mediaId : null,
+    audience_media_type: audience === "title_renters" ? mediaType : null,
+    audience_cast_name:
+      audience === "cast_followers" ? selectedCast?.actor_name ?? notification?.audience_cast_name ?? null : null,
+    audience_cast_tmdb_id:
+      audience === "cast_followers" ? selectedCast?.tmdb_person_id ?? notification?.audience_cast_tmdb_id ?? null : null,
+  };
+
+  const targetComplete =
+    (audience !== "plan_subscribers" || !!target.audience_plan_id) &&
+    (audience !== "title_renters" || !!target.audience_media_id) &&
+    (audience !== "cast_followers" || !!target.audience_cast_name);
+
+  const { data: estimatedRecipients, isFetching: estimating } = useQuery({
+    queryKey: ["notification-audience-size", target],
+    enabled: open && targetComplete,
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc("notification_audience_size", {
+        _audience: target.audience,
+        _plan_id: target.audience_plan_id,
+        _media_id: target.audience_media_id,
+        _cast_name: target.audience_cast_name,
+        _cast_tmdb_id: target.audience_cast_tmdb_id,
+      });
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const scheduledFor = () => {
+    if (!scheduleDate) return null;
+    const [hours, minutes] = scheduleTime.split(":").map(Number);
+    const date = new Date(scheduleDate);
+    date.setHours(hours || 0, minutes || 0, 0, 0);
+    return date;
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async (mode: SaveMode) => {
+      const sendAt = mode === "send" && scheduled ? scheduledFor() : null;
+      const payload: TablesInsert<"notifications"> = {
+        title: title.trim(),
+        message: message.trim(),
+        link_url: linkUrl.trim() || null,
+        type,
+        ...target,
+        status: sendAt ? "scheduled" : "draft",
+        scheduled_for: scheduled ? scheduledFor()?.toISOString() ?? null : null,
+        error_message: null,
+      };
+
+      let id = notification?.id;
+      if (id) {
+        const { error } = await supabase.from("notifications").update(payload).eq("id", id);
+        if (error) throw error;
+      } else {
+        const { data: { user } } = await supabase.auth.getUser();
+        const { data, error } = await supabase
+          .from("notifications")
+          .insert([{ ...payload, created_by: user?.id }])
+          .select("id")
+          .single();
+        if (error) throw error;
+        id = data.id;
+      }
+
+      // Immediate sends are stored first so a failed fan-out still leaves an editable draft
+      if (mode === "send" && !sendAt) {
+        const { data, error } = await supabase.rpc("send_notification", { _notification_id: id });
+        if (error) throw error;
+        return data;
+      }
+      return null;
+    },
+    onSuccess: (recipients, mode) => {
+      queryClient.invalidateQueries({ queryKey: ["admin-notifications"] });
+      if (mode === "draft") {
+        toast.success("Draft saved successfully!");
+      } else if (recipients === null) {
+        toast.success("Notification scheduled successfully!");
+      } else {
+        toast.success(`Notification sent to ${recipients} ${recipients === 1 ? "user" : "users"}`);
+      }
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      queryClient.invalidateQueries({ queryKey: ["admin-notifications"] });
+      toast.error(error.message || "Failed to save notification");
+    },
+  });
+
+  const validate = () => {
+    if (!title.trim() || !message.trim()) {
       toast.error("Please fill in all required fields");
-      return;
+      return false;
     }
+    if (message.length > MAX_MESSAGE_LENGTH) {
+      toast.error(`Message must be ${MAX_MESSAGE_LENGTH} characters or fewer`);
+      return false;
+    }
+    if (!targetComplete) {
+      toast.error("Please choose who should receive this notification");
+      return false;
+    }
+    return true;
+  };
+
+  const handleSend = () => {
+    if (!validate()) return;
 
-    if (scheduled && !scheduleDate) {
-      toast.error("Please select a schedule date");
-      return;
+    if (scheduled) {
+      const sendAt = scheduledFor();
+      if (!sendAt) {
+        toast.error("Please select a schedule date");
+        return;
+      }
+      if (sendAt <= new Date()) {
+        toast.error("Scheduled time must be in the future");
+        return;
+      }
     }
 
-    // Here you would typically send the notification via API
-    toast.success(
-      scheduled 
-        ? "Notification scheduled successfully!" 
-        : "Notification sent successfully!"
-    );
-    
-    // Reset form
-    setTitle("");
-    setMessage("");
-    setType("info");
-    setRecipient("all");
-    setScheduled(false);
-    setScheduleDate(undefined);
-    setScheduleTime("12:00");
-    onOpenChange(false);
+    saveMutation.mutate("send");
   };
 
   const handleSaveDraft = () => {
-    if (!title || !message) {
-      toast.error("Please fill in title and message to save draft");
-      return;
-    }
-
-    toast.success("Draft saved successfully!");
-    onOpenChange(false);
+    if (!validate()) return;
+    saveMutation.mutate("draft");
   };
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
       <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
         <DialogHeader>
-          <DialogTitle>Send Notification</DialogTitle>
+          <DialogTitle>{notification ? "Edit Notification" : "Send Notification"}</DialogTitle>
           <DialogDescription>
             Create and send a notification to your users
           </DialogDescription>
@@ -114,15 +291,25 @@ export function NotificationDialog({ open, onOpenChange }: NotificationDialogPro
               id="message"
               placeholder="Enter notification message"
               value={message}
-              onChange={(e) => setMessage(e.target.value)}
+              onChange={(e) => setMessage(e.target.value.slice(0, MAX_MESSAGE_LENGTH))}
               rows={4}
               className="resize-none"
             />
             <p className="text-xs text-muted-foreground">
-              {message.length}/500 characters
+              {message.length}/{MAX_MESSAGE_LENGTH} characters
             </p>
           </div>
 
+          <div className="space-y-2">
+            <Label htmlFor="link_url">Link (optional)</Label>
+            <Input
+              id="link_url"
+              placeholder="/watch/movie/12345 or https://..."
+              value={linkUrl}
+              onChange={(e) => setLinkUrl(e.target.value)}
+            />
+          </div>
+
           <div className="grid grid-cols-2 gap-4">
             <div className="space-y-2">
               <Label htmlFor="type">Notification Type</Label>
@@ -161,21 +348,86 @@ export function NotificationDialog({ open, onOpenChange }: NotificationDialogPro
 
             <div className="space-y-2">
               <Label htmlFor="recipient">Recipients</Label>
-              <Select value={recipient} onValueChange={setRecipient}>
+              <Select value={audience} onValueChange={setAudience}>
                 <SelectTrigger id="recipient">
                   <SelectValue placeholder="Select recipients" />
                 </SelectTrigger>
                 <SelectContent>
                   <SelectItem value="all">All Users</SelectItem>
-                  <SelectItem value="premium">Premium Users</SelectItem>
-                  <SelectItem value="free">Free Users</SelectItem>
-                  <SelectItem value="new">New Users (Last 7 days)</SelectItem>
-                  <SelectItem value="inactive">Inactive Users</SelectItem>
+                  <SelectItem value="plan_subscribers">Subscribers of a Plan</SelectItem>
+                  <SelectItem value="title_renters">Renters of a Title</SelectItem>
+                  <SelectItem value="cast_followers">Followers of a Cast Member</SelectItem>
                 </SelectContent>
               </Select>
             </div>
           </div>
 
+          {audience === "plan_subscribers" && (
+            <div className="space-y-2">
+              <Label>Plan</Label>
+              <Select value={planId} onValueChange={setPlanId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select a plan" />
+                </SelectTrigger>
+                <SelectContent>
+                  {plans?.map((plan) => (
+                    <SelectItem key={plan.id} value={plan.id}>
+                      {plan.name} (${plan.price})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          {audience === "title_renters" && (
+            <div className="space-y-2">
+              <Label>Title</Label>
+              <Select value={mediaKey} onValueChange={setMediaKey}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select a rentable title" />
+                </SelectTrigger>
+                <SelectContent>
+                  {rentableTitles?.map((item) => (
+                    <SelectItem key={item.id} value={`${item.kind.toLowerCase()}:${item.id}`}>
+                      {item.title} <span className="text-muted-foreground">({item.kind})</span>
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {rentableTitles?.length === 0 && (
+                <p className="text-xs text-muted-foreground">No rentable titles yet</p>
+              )}
+            </div>
+          )}
+
+          {audience === "cast_followers" && (
+            <div className="space-y-2">
+              <Label>Cast Member</Label>
+              <Select value={castTarget} onValueChange={setCastTarget}>
+                <SelectTrigger>
+                  <SelectValue placeholder={notification?.audience_cast_name || "Select a cast member"} />
+                </SelectTrigger>
+                <SelectContent>
+                  {castTargets?.map((cast) => (
+                    <SelectItem
+                      key={castKey(cast.actor_name, cast.tmdb_person_id)}
+                      value={castKey(cast.actor_name, cast.tmdb_person_id)}
+                    >
+                      {cast.actor_name}{" "}
+                      <span className="text-muted-foreground">
+                        ({cast.followers} {cast.followers === 1 ? "follower" : "followers"})
+                      </span>
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {castTargets?.length === 0 && (
+                <p className="text-xs text-muted-foreground">Nobody follows a cast member yet</p>
+              )}
+            </div>
+          )}
+
           <div className="space-y-4">
             <div className="flex items-center justify-between">
               <div className="space-y-0.5">
@@ -217,9 +469,11 @@ export function NotificationDialog({ open, onOpenChange }: NotificationDialogPro
                         mode="single"
                         selected={scheduleDate}
                         onSelect={setScheduleDate}
-                        disabled={(date) =>
-                          date < new Date() || date < new Date("1900-01-01")
-                        }
+                        disabled={(date) => {
+                          const today = new Date();
+                          today.setHours(0, 0, 0, 0);
+                          return date < today;
+                        }}
                         initialFocus
                       />
                     </PopoverContent>
@@ -239,29 +493,34 @@ export function NotificationDialog({ open, onOpenChange }: NotificationDialogPro
             )}
           </div>
 
-          {recipient !== "all" && (
-            <div className="rounded-lg bg-muted p-4">
-              <p className="text-sm text-muted-foreground">
-                <strong>Estimated Recipients:</strong>{" "}
-                {recipient === "premium"
-                  ? "~450 users"
-                  : recipient === "free"
-                  ? "~800 users"
-                  : recipient === "new"
-                  ? "~48 users"
-                  : "~120 users"}
+          <div className="rounded-lg bg-muted p-4">
+            <p className="text-sm text-muted-foreground">
+              <strong>Estimated Recipients:</strong>{" "}
+              {!targetComplete
+                ? "Choose a target"
+                : estimating || estimatedRecipients === undefined
+                ? "Calculating..."
+                : `${estimatedRecipients} ${estimatedRecipients === 1 ? "user" : "users"}`}
+            </p>
+            {scheduled && (
+              <p className="text-xs text-muted-foreground mt-1">
+                The audience is resolved again when the notification goes out.
               </p>
-            </div>
-          )}
+            )}
+          </div>
         </div>
 
         <DialogFooter className="gap-2">
-          <Button variant="outline" onClick={handleSaveDraft}>
+          <Button variant="outline" onClick={handleSaveDraft} disabled={saveMutation.isPending}>
             <Save className="h-4 w-4 mr-2" />
             Save Draft
           </Button>
-          <Button onClick={handleSend}>
-            <Send className="h-4 w-4 mr-2" />
+          <Button onClick={handleSend} disabled={saveMutation.isPending}>
+            {saveMutation.isPending ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <Send className="h-4 w-4 mr-2" />
+            )}
             {scheduled ? "Schedule" : "Send Now"}
           </Button>
         </DialogFooter>
@@ -0,0 +1,167 @@
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import { useQuery } from "@tanstack/react-query";
+import { Film } from "lucide-react";
+import { toast } from "sonner";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { useDebouncedValue } from "@/hooks/useCatalogSearch";
+import { TRANSCODE_RENDITIONS, useTranscodeMutations } from "@/hooks/useTranscodeJobs";
+import { cn } from "@/lib/utils";
+
+interface StartTranscodeDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  movieId?: string;
+  episodeId?: string;
+  // Access version the created source is tagged with (free / rent / vip)
+  version: string;
+}
+
+const formatSize = (bytes: number | null) =>
+  bytes ? `${(bytes / 1024 / 1024 / 1024).toFixed(2)} GB` : "Unknown size";
+
+export function StartTranscodeDialog({ open, onOpenChange, movieId, episodeId, version }: StartTranscodeDialogProps) {
+  const [search, setSearch] = useState("");
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [renditions, setRenditions] = useState<string[]>(TRANSCODE_RENDITIONS);
+  const [serverName, setServerName] = useState("HLS");
+  const [makeDefault, setMakeDefault] = useState(true);
+  const term = useDebouncedValue(search.trim());
+  const { start } = useTranscodeMutations();
+
+  // Masters are uploaded through the Media Manager; newest first
+  const { data: masters = [], isLoading } = useQuery({
+    queryKey: ["transcode-masters", term],
+    queryFn: async () => {
+      let query = supabase
+        .from("media_files")
+        .select("id, file_path, bucket_name, storage_account, file_size, created_at")
+        .like("content_type", "video/%")
+        .order("created_at", { ascending: false })
+        .limit(20);
+      if (term) query = query.ilike("file_path", `%${term}%`);
+
+      const { data, error } = await query;
+      if (error) throw error;
+      return data;
+    },
+    enabled: open,
+  });
+
+  const selected = masters.find((file) => file.id === selectedId);
+
+  const toggleRendition = (quality: string, checked: boolean) =>
+    setRenditions((prev) => (checked ? [...prev, quality] : prev.filter((value) => value !== quality)));
+
+  const handleStart = () => {
+    if (!selected) return;
+    start.mutate(
+      {
+        movieId,
+        episodeId,
+        mediaFile: selected,
+        renditions,
+        serverName: serverName.trim() || "HLS",
+        version,
+        makeDefault,
+      },
+      {
+        onSuccess: () => {
+          toast.success("Transcoding job queued");
+          setSelectedId(null);
+          onOpenChange(false);
+        },
+        onError: (error) => toast.error("Failed to queue job: " + error.message),
+      }
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Transcode to HLS</DialogTitle>
+          <DialogDescription>
+            Pick an uploaded master. The worker encodes the selected renditions and adds them as a new video source.
+            Upload new masters in the <Link to="/admin/media-manager" className="text-primary underline">Media Manager</Link>.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="transcode-search">Master file</Label>
+            <Input
+              id="transcode-search"
+              placeholder="Search uploaded videos..."
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+            />
+            <div className="max-h-56 overflow-y-auto rounded-md border divide-y">
+              {isLoading && <p className="text-sm text-muted-foreground text-center py-4">Loading videos...</p>}
+              {!isLoading && masters.length === 0 && (
+                <p className="text-sm text-muted-foreground text-center py-4">No uploaded videos found</p>
+              )}
+              {masters.map((file) => (
+                <button
+                  key={file.id}
+                  type="button"
+                  className={cn(
+                    "flex w-full items-center gap-3 px-3 py-2 text-left hover:bg-accent/50",
+                    file.id === selectedId && "bg-accent"
+                  )}
+                  onClick={() => setSelectedId(file.id)}
+                >
+                  <Film className="h-4 w-4 shrink-0 text-muted-foreground" />
+                  <span className="flex-1 min-w-0 truncate text-sm">{file.file_path}</span>
+                  <span className="text-xs text-muted-foreground shrink-0">{formatSize(file.file_size)}</span>
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Renditions</Label>
+            <div className="flex flex-wrap gap-4">
+              {TRANSCODE_RENDITIONS.map((quality) => (
+                <label key={quality} className="flex items-center gap-2 text-sm">
+                  <Checkbox
+                    checked={renditions.includes(quality)}
+                    onCheckedChange={(checked) => toggleRendition(quality, checked === true)}
+                  />
+                  {quality}
+                </label>
+              ))}
+            </div>
+            <p className="text-xs text-muted-foreground">Renditions taller than the master are skipped.</p>
+          </div>
+
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="transcode-server">Server name</Label>
+              <Input id="transcode-server" value={serverName} onChange={(e) => setServerName(e.target.value)} />
+            </div>
+            <div className="flex items-center justify-between rounded-md border px-3">
+              <Label htmlFor="transcode-default">Make default source</Label>
+              <Switch id="transcode-default" checked={makeDefault} onCheckedChange={setMakeDefault} />
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleStart} disabled={!selected || renditions.length === 0 || start.isPending}>
+            {start.isPending ? "Queuing..." : "Start Transcode"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -22,6 +22,7 @@ export function StreamingDialog({ open, onOpenChange, channel }: StreamingDialog
     thumbnail_url: "",
     stream_url: "",
     category: "",
+    epg_channel_id: "",
     is_active: true,
   });
   const queryClient = useQueryClient();
@@ -34,15 +35,18 @@ export function StreamingDialog({ open, onOpenChange, channel }: StreamingDialog
         thumbnail_url: channel.thumbnail_url || "",
         stream_url: channel.stream_url || "",
         category: channel.category || "",
+        epg_channel_id: channel.epg_channel_id || "",
         is_active: channel.is_active ?? true,
       });
     } else {
-      setFormData({ name: "", description: "", thumbnail_url: "", stream_url: "", category: "", is_active: true });
+      setFormData({ name: "", description: "", thumbnail_url: "", stream_url: "", category: "", epg_channel_id: "", is_active: true });
     }
   }, [channel, open]);
 
   const saveMutation = useMutation({
-    mutationFn: async (data: typeof formData) => {
+    mutationFn: async (formValues: typeof formData) => {
+      // Blank ids must be stored as null - they are unique across channels
+      const data = { ...formValues, epg_channel_id: formValues.epg_channel_id.trim() || null };
       if (channel) {
         const { error } = await supabase
           .from("streaming_channels")
@@ -130,6 +134,15 @@ export function StreamingDialog({ open, onOpenChange, channel }: StreamingDialog
               />
             </div>
           </div>
+          <div>
+            <Label htmlFor="epg_channel_id">EPG Channel ID</Label>
+            <Input
+              id="epg_channel_id"
+              value={formData.epg_channel_id}
+              onChange={(e) => setFormData({ ...formData, epg_channel_id: e.target.value })}
+              placeholder="Channel id used in XMLTV guide files"
+            />
+          </div>
           <div className="flex items-center space-x-2">
             <Switch
               id="is_active"
@@ -0,0 +1,204 @@
+import { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
+import { toast } from "sonner";
+
+interface StreamingServerDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  server: Tables<"streaming_servers"> | null;
+}
+
+const emptyForm = {
+  name: "",
+  server_type: "origin",
+  base_url: "",
+  health_check_url: "",
+  priority: "100",
+  is_active: true,
+  notes: "",
+};
+
+export function StreamingServerDialog({ open, onOpenChange, server }: StreamingServerDialogProps) {
+  const [formData, setFormData] = useState(emptyForm);
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    if (server) {
+      setFormData({
+        name: server.name,
+        server_type: server.server_type,
+        base_url: server.base_url,
+        health_check_url: server.health_check_url || "",
+        priority: server.priority.toString(),
+        is_active: server.is_active,
+        notes: server.notes || "",
+      });
+    } else {
+      setFormData(emptyForm);
+    }
+  }, [server, open]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: typeof formData) => {
+      const payload = {
+        name: data.name.trim(),
+        server_type: data.server_type,
+        base_url: data.base_url.trim(),
+        health_check_url: data.health_check_url.trim() || null,
+        priority: parseInt(data.priority) || 0,
+        is_active: data.is_active,
+        notes: data.notes.trim() || null,
+      };
+
+      if (server) {
+        const { error } = await supabase.from("streaming_servers").update(payload).eq("id", server.id);
+        if (error) throw error;
+      } else {
+        const { error } = await supabase.from("streaming_servers").insert([payload]);
+        if (error) throw error;
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["streaming-servers"] });
+      toast.success(server ? "Server updated" : "Server added");
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || "Failed to save server");
+    },
+  });
+
+  const isValidUrl = (value: string) => {
+    try {
+      return ["http:", "https:"].includes(new URL(value).protocol);
+    } catch {
+      return false;
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!formData.name.trim() || !formData.base_url.trim()) {
+      toast.error("Name and base URL are required");
+      return;
+    }
+    if (!isValidUrl(formData.base_url.trim())) {
+      toast.error("Base URL must be an http(s) URL");
+      return;
+    }
+    if (formData.health_check_url.trim() && !isValidUrl(formData.health_check_url.trim())) {
+      toast.error("Health check URL must be an http(s) URL");
+      return;
+    }
+    saveMutation.mutate(formData);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle>{server ? "Edit Server" : "Add Server"}</DialogTitle>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="name">Name *</Label>
+              <Input
+                id="name"
+                value={formData.name}
+                onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                placeholder="Singapore Origin"
+              />
+            </div>
+            <div>
+              <Label htmlFor="server_type">Type</Label>
+              <Select
+                value={formData.server_type}
+                onValueChange={(value) => setFormData({ ...formData, server_type: value })}
+              >
+                <SelectTrigger id="server_type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="origin">Origin</SelectItem>
+                  <SelectItem value="cdn">CDN</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div>
+            <Label htmlFor="base_url">Base URL *</Label>
+            <Input
+              id="base_url"
+              value={formData.base_url}
+              onChange={(e) => setFormData({ ...formData, base_url: e.target.value })}
+              placeholder="https://cdn.example.com"
+            />
+          </div>
+
+          <div>
+            <Label htmlFor="health_check_url">Health Check URL</Label>
+            <Input
+              id="health_check_url"
+              value={formData.health_check_url}
+              onChange={(e) => setFormData({ ...formData, health_check_url: e.target.value })}
+              placeholder="https://cdn.example.com/health"
+            />
+            <p className="text-xs text-muted-foreground mt-1">Defaults to the base URL when empty</p>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4 items-end">
+            <div>
+              <Label htmlFor="priority">Failover Priority</Label>
+              <Input
+                id="priority"
+                type="number"
+                min="0"
+                value={formData.priority}
+                onChange={(e) => setFormData({ ...formData, priority: e.target.value })}
+              />
+              <p className="text-xs text-muted-foreground mt-1">Lower is tried first</p>
+            </div>
+            <div className="flex items-center gap-2 pb-6">
+              <Switch
+                id="is_active"
+                checked={formData.is_active}
+                onCheckedChange={(checked) => setFormData({ ...formData, is_active: checked })}
+              />
+              <Label htmlFor="is_active">Active</Label>
+            </div>
+          </div>
+
+          <div>
+            <Label htmlFor="notes">Notes</Label>
+            <Textarea
+              id="notes"
+              rows={2}
+              value={formData.notes}
+              onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+            />
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={saveMutation.isPending}>
+              {saveMutation.isPending ? "Saving..." : "Save"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
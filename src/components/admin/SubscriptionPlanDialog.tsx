@@ -23,6 +23,7 @@ export function SubscriptionPlanDialog({ open, onOpenChange, plan }: Subscriptio
     duration_days: "",
     features: "",
     max_devices: "",
+    ad_free: true,
     is_active: true,
   });
   const queryClient = useQueryClient();
@@ -36,10 +37,11 @@ export function SubscriptionPlanDialog({ open, onOpenChange, plan }: Subscriptio
         duration_days: plan.duration_days?.toString() || "",
         features: Array.isArray(plan.features) ? plan.features.join("\n") : "",
         max_devices: plan.max_devices?.toString() || "2",
+        ad_free: plan.ad_free ?? true,
         is_active: plan.is_active ?? true,
       });
     } else {
-      setFormData({ name: "", description: "", price: "", duration_days: "", features: "", max_devices: "2", is_active: true });
+      setFormData({ name: "", description: "", price: "", duration_days: "", features: "", max_devices: "2", ad_free: true, is_active: true });
     }
   }, [plan, open]);
 
@@ -52,6 +54,7 @@ export function SubscriptionPlanDialog({ open, onOpenChange, plan }: Subscriptio
         duration_days: parseInt(data.duration_days),
         features: data.features.split("\n").filter(f => f.trim()),
         max_devices: parseInt(data.max_devices) || 2,
+        ad_free: data.ad_free,
         is_active: data.is_active,
       };
       
@@ -161,6 +164,14 @@ export function SubscriptionPlanDialog({ open, onOpenChange, plan }: Subscriptio
               Maximum number of devices that can stream simultaneously
             </p>
           </div>
+          <div className="flex items-center space-x-2">
+            <Switch
+              id="ad_free"
+              checked={formData.ad_free}
+              onCheckedChange={(checked) => setFormData({ ...formData, ad_free: checked })}
+            />
+            <Label htmlFor="ad_free" className="cursor-pointer">Ad-free (subscribers skip all ad breaks)</Label>
+          </div>
           <div className="flex items-center space-x-2">
             <Switch
               id="is_active"
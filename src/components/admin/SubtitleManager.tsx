@@ -0,0 +1,222 @@
+import { useRef, useState } from "react";
+import { Star, Trash2, Upload } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "sonner";
+import { useIDriveUpload } from "@/hooks/useIDriveUpload";
+import { Subtitle, SubtitleTarget, useSubtitles } from "@/hooks/useSubtitles";
+
+// Upload and list the sidecar subtitles of one movie or episode. Files are converted to WebVTT on upload.
+export function SubtitleManager({ movieId, episodeId }: SubtitleTarget) {
+  const queryClient = useQueryClient();
+  const { uploadSubtitle, uploading } = useIDriveUpload();
+  const { data: subtitles = [], isLoading } = useSubtitles({ movieId, episodeId });
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [file, setFile] = useState<File | null>(null);
+  const [languageId, setLanguageId] = useState("");
+  const [label, setLabel] = useState("");
+  const [isDefault, setIsDefault] = useState(false);
+
+  const { data: languages = [] } = useQuery({
+    queryKey: ["languages"],
+    queryFn: async () => {
+      const { data, error } = await supabase.from("languages").select("*").order("english_name");
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const targetColumn = episodeId ? "episode_id" : "movie_id";
+  const targetId = (episodeId ?? movieId)!;
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: ["subtitles"] });
+
+  // Only one default per title - clear the others before setting it
+  const clearDefault = async () => {
+    const { error } = await supabase.from("subtitles").update({ is_default: false }).eq(targetColumn, targetId);
+    if (error) throw error;
+  };
+
+  const uploadMutation = useMutation({
+    mutationFn: async () => {
+      if (!file || !languageId || !label.trim()) throw new Error("Choose a file, language and label");
+
+      const result = await uploadSubtitle(file, {
+        bucket: "media-files",
+        path: `subtitles/${episodeId ? "episodes" : "movies"}/${targetId}`,
+      });
+      if (!result.success || !result.path) throw new Error(result.error || "Upload failed");
+
+      if (isDefault) await clearDefault();
+      const { error } = await supabase.from("subtitles").insert({
+        ...(episodeId ? { episode_id: episodeId } : { movie_id: movieId }),
+        language_id: languageId,
+        label: label.trim(),
+        file_path: result.path,
+        bucket_name: result.bucket || "media-files",
+        storage_account: result.storageAccount || 1,
+        source_format: result.sourceFormat || "vtt",
+        is_default: isDefault,
+      });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidate();
+      setFile(null);
+      setLabel("");
+      setIsDefault(false);
+      if (fileInputRef.current) fileInputRef.current.value = "";
+      toast.success("Subtitle added");
+    },
+    onError: (error: Error) => {
+      toast.error(error.message.includes("duplicate") ? "A subtitle with this language and label already exists" : error.message);
+    },
+  });
+
+  const defaultMutation = useMutation({
+    mutationFn: async (subtitle: Subtitle) => {
+      await clearDefault();
+      if (subtitle.is_default) return;
+      const { error } = await supabase.from("subtitles").update({ is_default: true }).eq("id", subtitle.id);
+      if (error) throw error;
+    },
+    onSuccess: invalidate,
+    onError: (error: Error) => {
+      toast.error(error.message || "Failed to update default subtitle");
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (subtitle: Subtitle) => {
+      const { error } = await supabase.from("subtitles").delete().eq("id", subtitle.id);
+      if (error) throw error;
+
+      // The row is what the player reads; a leftover file only costs storage
+      try {
+        const { data: { session } } = await supabase.auth.getSession();
+        await fetch("https://zmdqloustkrtaeumkrau.supabase.co/functions/v1/delete-media-file", {
+          method: "POST",
+          headers: {
+            Authorization: `Bearer ${session?.access_token || ""}`,
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({ filePath: subtitle.file_path }),
+        });
+      } catch (fileError) {
+        console.warn("Failed to delete subtitle file:", fileError);
+      }
+    },
+    onSuccess: () => {
+      invalidate();
+      toast.success("Subtitle removed");
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || "Failed to remove subtitle");
+    },
+  });
+
+  const handleLanguageChange = (value: string) => {
+    setLanguageId(value);
+    const language = languages.find((l) => l.id === value);
+    if (language && !label.trim()) setLabel(language.english_name || language.name);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="border rounded-lg divide-y">
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground p-3">Loading subtitles...</p>
+        ) : subtitles.length === 0 ? (
+          <p className="text-sm text-muted-foreground p-3">No subtitles yet.</p>
+        ) : (
+          subtitles.map((subtitle) => (
+            <div key={subtitle.id} className="flex items-center gap-3 p-2">
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-medium truncate">{subtitle.label}</p>
+                <p className="text-xs text-muted-foreground">
+                  {subtitle.languages?.english_name || subtitle.languages?.name} · {subtitle.languages?.iso_639_1}
+                </p>
+              </div>
+              <Badge variant="outline" className="uppercase">{subtitle.source_format}</Badge>
+              {subtitle.is_default && <Badge>Default</Badge>}
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                title={subtitle.is_default ? "Unset default" : "Show by default"}
+                disabled={defaultMutation.isPending}
+                onClick={() => defaultMutation.mutate(subtitle)}
+              >
+                <Star className={`w-4 h-4 ${subtitle.is_default ? "fill-current" : ""}`} />
+              </Button>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                disabled={deleteMutation.isPending}
+                onClick={() => deleteMutation.mutate(subtitle)}
+              >
+                <Trash2 className="w-4 h-4 text-destructive" />
+              </Button>
+            </div>
+          ))
+        )}
+      </div>
+
+      <div className="grid gap-3 md:grid-cols-[1.4fr,1fr,1fr,auto,auto] items-end">
+        <div className="space-y-1">
+          <Label htmlFor="subtitle-file" className="text-xs">File (SRT, VTT or ASS)</Label>
+          <Input
+            id="subtitle-file"
+            ref={fileInputRef}
+            type="file"
+            accept=".srt,.vtt,.ass,.ssa"
+            onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs">Language</Label>
+          <Select value={languageId} onValueChange={handleLanguageChange}>
+            <SelectTrigger>
+              <SelectValue placeholder="Select language" />
+            </SelectTrigger>
+            <SelectContent>
+              {languages.map((language) => (
+                <SelectItem key={language.id} value={language.id}>
+                  {language.english_name || language.name} ({language.iso_639_1})
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="subtitle-label" className="text-xs">Label</Label>
+          <Input
+            id="subtitle-label"
+            value={label}
+            onChange={(e) => setLabel(e.target.value)}
+            placeholder="English (SDH)"
+          />
+        </div>
+        <div className="flex items-center gap-2 h-10">
+          <Switch id="subtitle-default" checked={isDefault} onCheckedChange={setIsDefault} />
+          <Label htmlFor="subtitle-default" className="text-xs">Default</Label>
+        </div>
+        <Button
+          type="button"
+          onClick={() => uploadMutation.mutate()}
+          disabled={!file || !languageId || !label.trim() || uploading || uploadMutation.isPending}
+        >
+          <Upload className="w-4 h-4 mr-2" />
+          {uploading || uploadMutation.isPending ? "Uploading..." : "Upload"}
+        </Button>
+      </div>
+    </div>
+  );
+}
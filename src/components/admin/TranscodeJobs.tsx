@@ -0,0 +1,152 @@
+import { useState } from "react";
+import { format, formatDistanceToNow } from "date-fns";
+import { ChevronDown, ChevronRight, RotateCcw, Trash2, X } from "lucide-react";
+import { toast } from "sonner";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import {
+  isActiveTranscode,
+  TranscodeJob,
+  TranscodeJobFilters,
+  useTranscodeJobLogs,
+  useTranscodeJobs,
+  useTranscodeMutations,
+} from "@/hooks/useTranscodeJobs";
+import { cn } from "@/lib/utils";
+
+const STATUS_STYLES: Record<string, string> = {
+  queued: "bg-muted text-muted-foreground",
+  running: "bg-blue-500/10 text-blue-500",
+  completed: "bg-green-500/10 text-green-500",
+  failed: "bg-red-500/10 text-red-500",
+  cancelled: "bg-yellow-500/10 text-yellow-600",
+};
+
+const LOG_STYLES: Record<string, string> = {
+  info: "text-muted-foreground",
+  warn: "text-yellow-600",
+  error: "text-red-500",
+};
+
+const errorMessage = (error: Error) => {
+  if (error.message.includes("JOB_NOT_RETRYABLE")) return "Only failed or cancelled jobs can be retried";
+  if (error.message.includes("JOB_NOT_CANCELLABLE")) return "The job has already finished";
+  return error.message;
+};
+
+export function TranscodeStatusBadge({ status }: { status: string }) {
+  return (
+    <Badge variant="outline" className={cn("capitalize", STATUS_STYLES[status])}>
+      {status}
+    </Badge>
+  );
+}
+
+const jobTarget = (job: TranscodeJob) => {
+  if (job.movies) return job.movies.title;
+  if (job.episodes) return `Episode ${job.episodes.episode_number}${job.episodes.name ? ` · ${job.episodes.name}` : ""}`;
+  return "Deleted title";
+};
+
+function TranscodeJobLogs({ job }: { job: TranscodeJob }) {
+  const { data: logs = [], isLoading } = useTranscodeJobLogs(job.id, isActiveTranscode(job));
+
+  if (isLoading) return <p className="text-xs text-muted-foreground">Loading logs...</p>;
+  if (logs.length === 0) return <p className="text-xs text-muted-foreground">No log lines yet</p>;
+
+  return (
+    <div className="max-h-64 overflow-y-auto rounded-md bg-muted/50 p-2 font-mono text-xs space-y-1">
+      {logs.map((line) => (
+        <div key={line.id} className={cn("whitespace-pre-wrap break-all", LOG_STYLES[line.level])}>
+          <span className="text-muted-foreground">
+            {format(new Date(line.created_at), "HH:mm:ss")} #{line.attempt}
+          </span>{" "}
+          {line.message}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function TranscodeJobRow({ job, showTarget }: { job: TranscodeJob; showTarget: boolean }) {
+  const [open, setOpen] = useState(false);
+  const { retry, cancel, remove } = useTranscodeMutations();
+  const sourceName = job.source_path.split("/").pop();
+
+  const act = (mutation: typeof retry, success: string) =>
+    mutation.mutate(job.id, {
+      onSuccess: () => toast.success(success),
+      onError: (error) => toast.error(errorMessage(error)),
+    });
+
+  return (
+    <div className="rounded-lg border p-3 space-y-2">
+      <div className="flex items-start justify-between gap-3">
+        <button type="button" className="flex items-start gap-2 text-left min-w-0" onClick={() => setOpen(!open)}>
+          {open ? <ChevronDown className="h-4 w-4 mt-0.5 shrink-0" /> : <ChevronRight className="h-4 w-4 mt-0.5 shrink-0" />}
+          <div className="min-w-0">
+            <p className="text-sm font-medium truncate">
+              {showTarget ? jobTarget(job) : sourceName}
+            </p>
+            <p className="text-xs text-muted-foreground truncate">
+              {showTarget && `${sourceName} · `}
+              {job.renditions.join(", ")} · {job.server_name} · attempt {job.attempts}/{job.max_attempts} ·{" "}
+              {formatDistanceToNow(new Date(job.created_at), { addSuffix: true })}
+            </p>
+          </div>
+        </button>
+        <div className="flex items-center gap-1 shrink-0">
+          <TranscodeStatusBadge status={job.status} />
+          {(job.status === "failed" || job.status === "cancelled") && (
+            <Button variant="ghost" size="sm" title="Retry" onClick={() => act(retry, "Job queued again")}>
+              <RotateCcw className="h-4 w-4" />
+            </Button>
+          )}
+          {isActiveTranscode(job) && (
+            <Button variant="ghost" size="sm" title="Cancel" onClick={() => act(cancel, "Job cancelled")}>
+              <X className="h-4 w-4" />
+            </Button>
+          )}
+          {!isActiveTranscode(job) && (
+            <Button variant="ghost" size="sm" title="Remove" onClick={() => act(remove, "Job removed")}>
+              <Trash2 className="h-4 w-4 text-destructive" />
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {job.status === "running" && (
+        <div className="flex items-center gap-2">
+          <Progress value={Number(job.progress)} className="h-2" />
+          <span className="text-xs text-muted-foreground w-12 text-right">{Math.round(Number(job.progress))}%</span>
+        </div>
+      )}
+      {job.error && job.status !== "completed" && (
+        <p className="text-xs text-red-500 whitespace-pre-wrap line-clamp-3">{job.error}</p>
+      )}
+      {open && <TranscodeJobLogs job={job} />}
+    </div>
+  );
+}
+
+// Jobs for one movie or episode, or the whole queue when no target is given
+export function TranscodeJobList(filters: TranscodeJobFilters) {
+  const { data: jobs = [], isLoading } = useTranscodeJobs(filters);
+  const showTarget = !filters.movieId && !filters.episodeId;
+
+  if (isLoading) {
+    return <p className="text-sm text-muted-foreground text-center py-6">Loading jobs...</p>;
+  }
+  if (jobs.length === 0) {
+    return <p className="text-sm text-muted-foreground text-center py-6">No transcoding jobs yet</p>;
+  }
+
+  return (
+    <div className="space-y-2">
+      {jobs.map((job) => (
+        <TranscodeJobRow key={job.id} job={job} showTarget={showTarget} />
+      ))}
+    </div>
+  );
+}
@@ -1,6 +1,9 @@
+import { useState } from "react";
 import { useQuery } from "@tanstack/react-query";
+import { History } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
 import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
 import {
   Table,
   TableBody,
@@ -10,9 +13,13 @@ import {
   TableRow,
 } from "@/components/ui/table";
 import { TableSkeleton } from "./TableSkeleton";
+import { AuditHistoryDialog } from "./AuditHistory";
+import { useAuth } from "@/hooks/useAuth";
 import { format } from "date-fns";
 
 export function UserSubscriptionsTable() {
+  const [historyId, setHistoryId] = useState<string | null>(null);
+  const { isAdmin } = useAuth();
   const { data: subscriptions, isLoading } = useQuery({
     queryKey: ["user_subscriptions"],
     queryFn: async () => {
@@ -32,43 +39,60 @@ export function UserSubscriptionsTable() {
   if (isLoading) return <TableSkeleton />;
 
   return (
-    <div className="border rounded-lg">
-      <Table>
-        <TableHeader>
-          <TableRow>
-            <TableHead>User</TableHead>
-            <TableHead>Plan</TableHead>
-            <TableHead>Start Date</TableHead>
-            <TableHead>End Date</TableHead>
-            <TableHead>Payment Status</TableHead>
-            <TableHead>Status</TableHead>
-          </TableRow>
-        </TableHeader>
-        <TableBody>
-          {subscriptions?.map((subscription) => (
-            <TableRow key={subscription.id}>
-              <TableCell className="font-medium">
-                {(subscription.profiles as any)?.email || "Unknown"}
-              </TableCell>
-              <TableCell>
-                {(subscription.subscription_plans as any)?.name || "—"}
-              </TableCell>
-              <TableCell>
-                {format(new Date(subscription.start_date), "MMM dd, yyyy")}
-              </TableCell>
-              <TableCell>
-                {format(new Date(subscription.end_date), "MMM dd, yyyy")}
-              </TableCell>
-              <TableCell className="capitalize">{subscription.payment_status}</TableCell>
-              <TableCell>
-                <Badge variant={subscription.is_active ? "default" : "secondary"}>
-                  {subscription.is_active ? "Active" : "Expired"}
-                </Badge>
-              </TableCell>
+    <>
+      <div className="border rounded-lg">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>User</TableHead>
+              <TableHead>Plan</TableHead>
+              <TableHead>Start Date</TableHead>
+              <TableHead>End Date</TableHead>
+              <TableHead>Payment Status</TableHead>
+              <TableHead>Status</TableHead>
+              {isAdmin && <TableHead className="text-right">History</TableHead>}
             </TableRow>
-          ))}
-        </TableBody>
-      </Table>
-    </div>
+          </TableHeader>
+          <TableBody>
+            {subscriptions?.map((subscription) => (
+              <TableRow key={subscription.id}>
+                <TableCell className="font-medium">
+                  {(subscription.profiles as any)?.email || "Unknown"}
+                </TableCell>
+                <TableCell>
+                  {(subscription.subscription_plans as any)?.name || "—"}
+                </TableCell>
+                <TableCell>
+                  {format(new Date(subscription.start_date), "MMM dd, yyyy")}
+                </TableCell>
+                <TableCell>
+                  {format(new Date(subscription.end_date), "MMM dd, yyyy")}
+                </TableCell>
+                <TableCell className="capitalize">{subscription.payment_status}</TableCell>
+                <TableCell>
+                  <Badge variant={subscription.is_active ? "default" : "secondary"}>
+                    {subscription.is_active ? "Active" : "Expired"}
+                  </Badge>
+                </TableCell>
+                {isAdmin && (
+                  <TableCell className="text-right">
+                    <Button variant="ghost" size="sm" onClick={() => setHistoryId(subscription.id)}>
+                      <History className="w-4 h-4" />
+                    </Button>
+                  </TableCell>
+                )}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+
+      <AuditHistoryDialog
+        tableName="user_subscriptions"
+        recordId={historyId}
+        description="Changes to this subscription"
+        onOpenChange={(open) => !open && setHistoryId(null)}
+      />
+    </>
   );
 }
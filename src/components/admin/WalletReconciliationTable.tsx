@@ -0,0 +1,95 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { TableSkeleton } from "./TableSkeleton";
+import { format } from "date-fns";
+
+export function WalletReconciliationTable() {
+  const [onlyMismatched, setOnlyMismatched] = useState(true);
+
+  const { data: wallets, isLoading } = useQuery({
+    queryKey: ["wallet_reconciliation", onlyMismatched],
+    queryFn: async () => {
+      let query = supabase
+        .from("wallet_reconciliation")
+        .select("*")
+        .order("difference", { ascending: false });
+
+      if (onlyMismatched) {
+        query = query.eq("is_consistent", false);
+      }
+
+      const { data, error } = await query;
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center space-x-2">
+        <Switch id="only-mismatched" checked={onlyMismatched} onCheckedChange={setOnlyMismatched} />
+        <Label htmlFor="only-mismatched" className="cursor-pointer">Only show mismatched wallets</Label>
+      </div>
+
+      {isLoading ? (
+        <TableSkeleton />
+      ) : (
+        <div className="border rounded-lg">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>User</TableHead>
+                <TableHead className="text-right">Balance</TableHead>
+                <TableHead className="text-right">Ledger Total</TableHead>
+                <TableHead className="text-right">Difference</TableHead>
+                <TableHead className="text-right">Entries</TableHead>
+                <TableHead>Last Entry</TableHead>
+                <TableHead>Status</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {wallets?.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={7} className="text-center text-muted-foreground">
+                    {onlyMismatched ? "All wallets match their ledger" : "No wallets found"}
+                  </TableCell>
+                </TableRow>
+              )}
+              {wallets?.map((wallet) => (
+                <TableRow key={wallet.wallet_id}>
+                  <TableCell className="font-medium">{wallet.email || wallet.user_id}</TableCell>
+                  <TableCell className="text-right">${Number(wallet.balance).toFixed(2)}</TableCell>
+                  <TableCell className="text-right">${Number(wallet.ledger_balance).toFixed(2)}</TableCell>
+                  <TableCell className={`text-right ${Number(wallet.difference) !== 0 ? "text-destructive font-semibold" : ""}`}>
+                    ${Number(wallet.difference).toFixed(2)}
+                  </TableCell>
+                  <TableCell className="text-right">{wallet.entry_count}</TableCell>
+                  <TableCell>
+                    {wallet.last_entry_at ? format(new Date(wallet.last_entry_at), "MMM dd, yyyy HH:mm") : "—"}
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant={wallet.is_consistent ? "default" : "destructive"}>
+                      {wallet.is_consistent ? "OK" : "Mismatch"}
+                    </Badge>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,8 +1,9 @@
 import { useEffect, useState } from "react";
 import { supabase } from "@/integrations/supabase/client";
-import { useQuery, useMutation } from "@tanstack/react-query";
+import { useQuery } from "@tanstack/react-query";
 import { X } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import { recordAdEvent } from "@/hooks/useAdEvents";
 
 interface AdDisplayProps {
   placement: "homepage" | "video_player" | "sidebar" | "banner";
@@ -35,44 +36,10 @@ export function AdDisplay({ placement, device = "web", className = "" }: AdDispl
     refetchInterval: 60000, // Refresh every minute
   });
 
-  const trackImpressionMutation = useMutation({
-    mutationFn: async (adId: string) => {
-      const { data: ad } = await supabase
-        .from("ads")
-        .select("impressions")
-        .eq("id", adId)
-        .maybeSingle();
-      
-      if (ad) {
-        await supabase
-          .from("ads")
-          .update({ impressions: (ad.impressions || 0) + 1 })
-          .eq("id", adId);
-      }
-    },
-  });
-
-  const trackClickMutation = useMutation({
-    mutationFn: async (adId: string) => {
-      const { data: ad } = await supabase
-        .from("ads")
-        .select("clicks")
-        .eq("id", adId)
-        .maybeSingle();
-      
-      if (ad) {
-        await supabase
-          .from("ads")
-          .update({ clicks: (ad.clicks || 0) + 1 })
-          .eq("id", adId);
-      }
-    },
-  });
-
   useEffect(() => {
     if (ads && ads.length > 0) {
       const currentAd = ads[currentAdIndex];
-      trackImpressionMutation.mutate(currentAd.id);
+      recordAdEvent(currentAd.id, "impression", placement);
       
       // Use rotation interval from ad settings
       const adRotationInterval = (currentAd.rotation_interval_seconds ?? 30) * 1000;
@@ -85,14 +52,14 @@ export function AdDisplay({ placement, device = "web", className = "" }: AdDispl
 
       return () => clearInterval(interval);
     }
-  }, [ads, currentAdIndex]);
+  }, [ads, currentAdIndex, placement]);
 
   if (!ads || ads.length === 0 || !isVisible) return null;
 
   const currentAd = ads[currentAdIndex];
 
   const handleAdClick = () => {
-    trackClickMutation.mutate(currentAd.id);
+    recordAdEvent(currentAd.id, "click", placement);
     if (currentAd.link_url) {
       window.open(currentAd.link_url, "_blank", "noopener,noreferrer");
     }
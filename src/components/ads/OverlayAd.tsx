@@ -2,6 +2,7 @@ import { useState, useEffect } from "react";
 import { supabase } from "@/integrations/supabase/client";
 import { X } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import { recordAdEvent } from "@/hooks/useAdEvents";
 
 interface OverlayAdProps {
   onClose: () => void;
@@ -34,41 +35,14 @@ export function OverlayAd({ onClose, currentTime }: OverlayAdProps) {
     if (!error && data) {
       setAd(data);
       setShowCloseButton(data.show_close_button ?? true);
-      trackImpression(data.id);
+      recordAdEvent(data.id, "impression", "overlay");
     }
   };
 
-  const trackImpression = async (adId: string) => {
-    const { data: adData } = await supabase
-      .from("ads")
-      .select("impressions")
-      .eq("id", adId)
-      .maybeSingle();
-    
-    if (adData) {
-      await supabase
-        .from("ads")
-        .update({ impressions: (adData.impressions || 0) + 1 })
-        .eq("id", adId);
-    }
-  };
-
-  const trackClick = async () => {
+  const trackClick = () => {
     if (!ad) return;
-    
-    const { data: adData } = await supabase
-      .from("ads")
-      .select("clicks")
-      .eq("id", ad.id)
-      .maybeSingle();
-    
-    if (adData) {
-      await supabase
-        .from("ads")
-        .update({ clicks: (adData.clicks || 0) + 1 })
-        .eq("id", ad.id);
-    }
 
+    recordAdEvent(ad.id, "click", "overlay");
     if (ad.link_url) {
       window.open(ad.link_url, "_blank", "noopener,noreferrer");
     }
@@ -1,156 +1,203 @@
 import { useState, useEffect, useRef } from "react";
-import { supabase } from "@/integrations/supabase/client";
 import { Button } from "@/components/ui/button";
-import { X, Volume2, VolumeX } from "lucide-react";
-
-interface VideoAd {
-  id: string;
-  title: string;
-  video_url: string;
-  link_url: string | null;
-  video_type: string;
-  description: string | null;
-}
+import { Play, Volume2, VolumeX } from "lucide-react";
+import { useAuth } from "@/hooks/useAuth";
+import { loadAdPod, reportAdEvent } from "@/hooks/useAdBreaks";
+import type { AdBreak } from "@/lib/adSchedule";
+import { AdCreative, AdTrackingEvent, VAST_ERROR } from "@/lib/vast";
 
 interface VideoAdPlayerProps {
-  onAdComplete: () => void;
-  onSkip: () => void;
+  adBreak: AdBreak;
+  // Called once the pod has played, been skipped through, or turned out to be empty
+  onComplete: () => void;
 }
 
-export function VideoAdPlayer({ onAdComplete, onSkip }: VideoAdPlayerProps) {
-  const [ad, setAd] = useState<VideoAd | null>(null);
-  const [timeLeft, setTimeLeft] = useState(5);
-  const [canSkip, setCanSkip] = useState(false);
+const QUARTILES: [number, AdTrackingEvent][] = [
+  [0.25, "firstQuartile"],
+  [0.5, "midpoint"],
+  [0.75, "thirdQuartile"],
+];
+
+export function VideoAdPlayer({ adBreak, onComplete }: VideoAdPlayerProps) {
+  const { user } = useAuth();
+  const userId = user?.id ?? null;
+  const [pod, setPod] = useState<AdCreative[] | null>(null);
+  const [index, setIndex] = useState(0);
+  const [timeLeft, setTimeLeft] = useState<number | null>(null);
+  const [elapsed, setElapsed] = useState(0);
   const [isMuted, setIsMuted] = useState(false);
-  const [skipAfter, setSkipAfter] = useState(5);
-  const [autoPlay, setAutoPlay] = useState(true);
+  const [isPaused, setIsPaused] = useState(false);
   const videoRef = useRef<HTMLVideoElement>(null);
+  // Events already reported for the current creative - VAST counts each one once per ad
+  const firedRef = useRef(new Set<AdTrackingEvent>());
+  const onCompleteRef = useRef(onComplete);
+  onCompleteRef.current = onComplete;
 
   useEffect(() => {
-    loadAd();
-  }, []);
-
-  const loadAd = async () => {
-    const now = new Date().toISOString();
-    const { data, error } = await supabase
-      .from("ads")
-      .select("*")
-      .eq("is_active", true)
-      .eq("ad_type", "video")
-      .eq("video_type", "video")
-      .lte("start_date", now)
-      .or(`end_date.is.null,end_date.gte.${now}`)
-      .limit(1)
-      .maybeSingle();
-
-    if (!error && data) {
-      setAd(data as VideoAd);
-      setSkipAfter(data.skip_after_seconds ?? 5);
-      setAutoPlay(data.auto_play ?? true);
-      trackImpression(data.id);
+    let cancelled = false;
+    loadAdPod(adBreak, userId)
+      .then((creatives) => {
+        if (cancelled) return;
+        if (creatives.length === 0) onCompleteRef.current();
+        else setPod(creatives);
+      })
+      .catch((error) => {
+        console.warn("Failed to load ad break:", error);
+        if (!cancelled) onCompleteRef.current();
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [adBreak, userId]);
+
+  const creative = pod?.[index] ?? null;
+
+  // Browsers block unmuted autoplay without a prior gesture; fall back to a muted start
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video || !creative) return;
+    if (!creative.autoPlay) {
+      setIsPaused(true);
+      return;
     }
+    video.play().catch(() => {
+      video.muted = true;
+      setIsMuted(true);
+      video.play().catch(() => setIsPaused(true));
+    });
+  }, [creative]);
+
+  const report = (event: AdTrackingEvent, macros?: { errorCode?: number }) => {
+    if (!creative || firedRef.current.has(event)) return;
+    firedRef.current.add(event);
+    reportAdEvent(creative, event, userId, adBreak.position, macros);
   };
 
-  const trackImpression = async (adId: string) => {
-    const { data: adData } = await supabase
-      .from("ads")
-      .select("impressions")
-      .eq("id", adId)
-      .single();
-    
-    if (adData) {
-      await supabase
-        .from("ads")
-        .update({ impressions: (adData.impressions || 0) + 1 })
-        .eq("id", adId);
-    }
+  const nextCreative = () => {
+    firedRef.current = new Set();
+    setElapsed(0);
+    setTimeLeft(null);
+    setIsPaused(false);
+    if (pod && index + 1 < pod.length) setIndex(index + 1);
+    else onComplete();
   };
 
-  const trackClick = async () => {
-    if (!ad) return;
-    
-    const { data: adData } = await supabase
-      .from("ads")
-      .select("clicks")
-      .eq("id", ad.id)
-      .single();
-    
-    if (adData) {
-      await supabase
-        .from("ads")
-        .update({ clicks: (adData.clicks || 0) + 1 })
-        .eq("id", ad.id);
-    }
+  const handlePlaying = () => {
+    setIsPaused(false);
+    report("impression");
+    report("start");
+  };
 
-    if (ad.link_url) {
-      window.open(ad.link_url, "_blank", "noopener,noreferrer");
+  const handleTimeUpdate = () => {
+    const video = videoRef.current;
+    if (!video || !video.duration) return;
+    setElapsed(video.currentTime);
+    setTimeLeft(Math.ceil(video.duration - video.currentTime));
+    for (const [share, event] of QUARTILES) {
+      if (video.currentTime >= video.duration * share) report(event);
     }
   };
 
-  useEffect(() => {
-    if (videoRef.current) {
-      const video = videoRef.current;
-
-      const handleTimeUpdate = () => {
-        const remaining = Math.ceil(video.duration - video.currentTime);
-        setTimeLeft(remaining);
-        
-        if (video.currentTime >= skipAfter) {
-          setCanSkip(true);
-        }
-      };
-
-      const handleEnded = () => {
-        onAdComplete();
-      };
-
-      video.addEventListener("timeupdate", handleTimeUpdate);
-      video.addEventListener("ended", handleEnded);
-
-      return () => {
-        video.removeEventListener("timeupdate", handleTimeUpdate);
-        video.removeEventListener("ended", handleEnded);
-      };
-    }
-  }, [ad, onAdComplete]);
+  const handleEnded = () => {
+    report("complete");
+    nextCreative();
+  };
+
+  const handleError = () => {
+    report("error", { errorCode: VAST_ERROR.MEDIA_PLAYBACK });
+    nextCreative();
+  };
 
-  if (!ad) return null;
+  const handleSkip = () => {
+    report("skip");
+    nextCreative();
+  };
+
+  const toggleMute = () => {
+    const video = videoRef.current;
+    if (!video) return;
+    video.muted = !isMuted;
+    setIsMuted(!isMuted);
+    // Mute toggles can happen many times per ad, so they bypass the once-only guard
+    if (creative) reportAdEvent(creative, isMuted ? "unmute" : "mute", userId, adBreak.position);
+  };
+
+  const handleClick = () => {
+    if (!creative?.clickThrough) return;
+    report("click");
+    videoRef.current?.pause();
+    window.open(creative.clickThrough, "_blank", "noopener,noreferrer");
+  };
+
+  const resume = () => {
+    if (creative) reportAdEvent(creative, "resume", userId, adBreak.position);
+    videoRef.current?.play().catch(() => {});
+  };
+
+  const handlePause = () => {
+    if (!videoRef.current?.ended && creative) reportAdEvent(creative, "pause", userId, adBreak.position);
+    setIsPaused(true);
+  };
+
+  if (!creative || !pod) return null;
+
+  const canSkip = creative.skipOffset != null && elapsed >= creative.skipOffset;
+  const skipIn = creative.skipOffset != null ? Math.max(0, Math.ceil(creative.skipOffset - elapsed)) : null;
 
   return (
     <div className="absolute inset-0 z-50 bg-black flex items-center justify-center">
       <div className="relative w-full h-full">
         <video
+          key={index}
           ref={videoRef}
-          src={ad.video_url}
-          autoPlay={autoPlay}
+          src={creative.mediaUrl}
           muted={isMuted}
           playsInline
           className="w-full h-full object-contain"
+          onPlaying={handlePlaying}
+          onPause={handlePause}
+          onTimeUpdate={handleTimeUpdate}
+          onEnded={handleEnded}
+          onError={handleError}
         />
-        
+
+        {isPaused && (
+          <button
+            type="button"
+            className="absolute inset-0 flex items-center justify-center bg-black/40"
+            onClick={resume}
+            aria-label="Play ad"
+          >
+            <Play className="h-16 w-16 text-white" />
+          </button>
+        )}
+
         <div className="absolute top-4 left-4 right-4 flex justify-between items-start">
           <div className="bg-black/80 px-3 py-2 rounded-lg">
-            <p className="text-white text-sm font-medium">Advertisement</p>
-            {!canSkip && (
-              <p className="text-white/70 text-xs">Skip in {timeLeft}s</p>
+            <p className="text-white text-sm font-medium">
+              Advertisement{pod.length > 1 ? ` · ${index + 1} of ${pod.length}` : ""}
+              {timeLeft != null ? ` · ${timeLeft}s` : ""}
+            </p>
+            {skipIn != null && !canSkip && (
+              <p className="text-white/70 text-xs">Skip in {skipIn}s</p>
             )}
           </div>
-          
+
           <div className="flex gap-2">
             <Button
               variant="ghost"
               size="icon"
               className="bg-black/80 hover:bg-black text-white"
-              onClick={() => setIsMuted(!isMuted)}
+              onClick={toggleMute}
             >
               {isMuted ? <VolumeX className="h-5 w-5" /> : <Volume2 className="h-5 w-5" />}
             </Button>
-            
+
             {canSkip && (
               <Button
                 variant="ghost"
                 className="bg-black/80 hover:bg-black text-white"
-                onClick={onSkip}
+                onClick={handleSkip}
               >
                 Skip Ad
               </Button>
@@ -158,14 +205,14 @@ export function VideoAdPlayer({ onAdComplete, onSkip }: VideoAdPlayerProps) {
           </div>
         </div>
 
-        {ad.link_url && (
-          <div 
+        {creative.clickThrough && (
+          <div
             className="absolute bottom-4 left-4 right-4 bg-black/80 p-4 rounded-lg cursor-pointer hover:bg-black/90 transition-colors"
-            onClick={trackClick}
+            onClick={handleClick}
           >
-            <h3 className="text-white font-semibold">{ad.title}</h3>
-            {ad.description && (
-              <p className="text-white/80 text-sm mt-1">{ad.description}</p>
+            <h3 className="text-white font-semibold">{creative.title}</h3>
+            {creative.description && (
+              <p className="text-white/80 text-sm mt-1">{creative.description}</p>
             )}
             <p className="text-primary text-sm mt-2">Learn More →</p>
           </div>
@@ -0,0 +1,42 @@
+import { useEffect, useId, useRef } from "react";
+import type { TelegramAuthUser } from "@/hooks/useAuth";
+import { TELEGRAM_BOT_USERNAME } from "@/hooks/useLinkedAccounts";
+
+interface TelegramLoginButtonProps {
+  onAuth: (user: TelegramAuthUser) => void;
+  size?: "large" | "medium" | "small";
+}
+
+// Renders Telegram's login widget. The widget calls back through a global function, so each
+// instance registers its own name and removes it on unmount.
+export function TelegramLoginButton({ onAuth, size = "large" }: TelegramLoginButtonProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const callbackName = `onTelegramAuth_${useId().replace(/[^a-zA-Z0-9]/g, "")}`;
+  const onAuthRef = useRef(onAuth);
+  onAuthRef.current = onAuth;
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container || !TELEGRAM_BOT_USERNAME) return;
+
+    const globals = window as unknown as Record<string, unknown>;
+    globals[callbackName] = (user: TelegramAuthUser) => onAuthRef.current(user);
+
+    const script = document.createElement("script");
+    script.src = "https://telegram.org/js/telegram-widget.js?22";
+    script.async = true;
+    script.setAttribute("data-telegram-login", TELEGRAM_BOT_USERNAME);
+    script.setAttribute("data-size", size);
+    script.setAttribute("data-request-access", "write");
+    script.setAttribute("data-onauth", `${callbackName}(user)`);
+    container.appendChild(script);
+
+    return () => {
+      delete globals[callbackName];
+      container.innerHTML = "";
+    };
+  }, [callbackName, size]);
+
+  if (!TELEGRAM_BOT_USERNAME) return null;
+  return <div ref={containerRef} className="flex justify-center" />;
+}
@@ -0,0 +1,45 @@
+import { useState } from "react";
+import { CommentSegment, parseComment } from "@/lib/commentMarkup";
+import { cn } from "@/lib/utils";
+
+const Spoiler = ({ children }: { children: CommentSegment[] }) => {
+  const [revealed, setRevealed] = useState(false);
+
+  return (
+    <span
+      role="button"
+      tabIndex={0}
+      title={revealed ? undefined : "Show spoiler"}
+      onClick={() => setRevealed(true)}
+      onKeyDown={(e) => (e.key === "Enter" || e.key === " ") && setRevealed(true)}
+      className={cn(
+        "rounded px-1 transition-colors",
+        revealed ? "bg-muted" : "bg-foreground text-transparent cursor-pointer select-none"
+      )}
+    >
+      <Segments segments={children} />
+    </span>
+  );
+};
+
+const Segments = ({ segments }: { segments: CommentSegment[] }) => (
+  <>
+    {segments.map((segment, index) => {
+      if (segment.type === "spoiler") return <Spoiler key={index}>{segment.children}</Spoiler>;
+      if (segment.type === "mention") {
+        return (
+          <span key={index} className="font-medium text-primary">
+            @{segment.name}
+          </span>
+        );
+      }
+      return <span key={index}>{segment.text}</span>;
+    })}
+  </>
+);
+
+export const CommentBody = ({ content, className }: { content: string; className?: string }) => (
+  <p className={cn("text-sm whitespace-pre-wrap break-words", className)}>
+    <Segments segments={parseComment(content)} />
+  </p>
+);
@@ -0,0 +1,119 @@
+import { useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Send } from "lucide-react";
+import { CommentAvatar } from "@/components/comments/CommentAvatar";
+import { useMentionSearch } from "@/hooks/useComments";
+import { Mention, encodeMentions, mentionQueryAt } from "@/lib/commentMarkup";
+
+interface CommentComposerProps {
+  placeholder: string;
+  submitLabel: string;
+  pending?: boolean;
+  autoFocus?: boolean;
+  compact?: boolean;
+  onSubmit: (content: string) => Promise<unknown>;
+  onCancel?: () => void;
+}
+
+// Comment textarea with @mention suggestions. Picked mentions show as @Name while typing and are
+// saved as mention markup; ||text|| marks a spoiler.
+export const CommentComposer = ({
+  placeholder,
+  submitLabel,
+  pending,
+  autoFocus,
+  compact,
+  onSubmit,
+  onCancel,
+}: CommentComposerProps) => {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const [text, setText] = useState("");
+  const [mentions, setMentions] = useState<Mention[]>([]);
+  const [mentionQuery, setMentionQuery] = useState<string | null>(null);
+  const { data: suggestions = [] } = useMentionSearch(mentionQuery);
+
+  const updateText = (value: string, caret: number) => {
+    setText(value);
+    setMentionQuery(mentionQueryAt(value, caret));
+  };
+
+  const pickMention = (mention: Mention) => {
+    const textarea = textareaRef.current;
+    const caret = textarea?.selectionStart ?? text.length;
+    const before = text.slice(0, caret).replace(/@[^\s@]*$/, `@${mention.name} `);
+    setText(before + text.slice(caret));
+    setMentions((current) => [...current.filter((m) => m.userId !== mention.userId), mention]);
+    setMentionQuery(null);
+    requestAnimationFrame(() => {
+      textarea?.focus();
+      textarea?.setSelectionRange(before.length, before.length);
+    });
+  };
+
+  const handleSubmit = async () => {
+    const content = encodeMentions(text.trim(), mentions);
+    if (!content) return;
+    try {
+      await onSubmit(content);
+      setText("");
+      setMentions([]);
+    } catch {
+      // The mutation reports the failure; keep the draft so it can be retried
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="relative">
+        <Textarea
+          ref={textareaRef}
+          placeholder={placeholder}
+          value={text}
+          autoFocus={autoFocus}
+          onChange={(e) => updateText(e.target.value, e.target.selectionStart)}
+          onKeyDown={(e) => e.key === "Escape" && setMentionQuery(null)}
+          className={compact ? "min-h-[80px]" : "min-h-[100px]"}
+        />
+        {mentionQuery && suggestions.length > 0 && (
+          <div className="absolute left-0 top-full z-10 mt-1 w-64 rounded-md border bg-popover p-1 shadow-md">
+            {suggestions.map((suggestion) => (
+              <button
+                key={suggestion.id}
+                type="button"
+                className="flex w-full items-center gap-2 rounded px-2 py-1.5 text-left text-sm hover:bg-accent"
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => pickMention({ name: suggestion.display_name, userId: suggestion.id })}
+              >
+                <CommentAvatar
+                  profile={{
+                    email: "",
+                    display_name: suggestion.display_name,
+                    profile_picture_url: suggestion.profile_picture_url ?? undefined,
+                  }}
+                  userId={suggestion.id}
+                  size="sm"
+                />
+                <span className="truncate">{suggestion.display_name}</span>
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-xs text-muted-foreground">Use @ to mention someone and ||text|| to hide spoilers</p>
+        <div className="flex gap-2">
+          {onCancel && (
+            <Button variant="ghost" size="sm" onClick={onCancel}>
+              Cancel
+            </Button>
+          )}
+          <Button size={compact ? "sm" : "default"} onClick={handleSubmit} disabled={pending || !text.trim()}>
+            <Send className="h-4 w-4 mr-2" />
+            {submitLabel}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
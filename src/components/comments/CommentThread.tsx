@@ -0,0 +1,170 @@
+import { useState } from "react";
+import { formatDistanceToNow } from "date-fns";
+import { Reply, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { CommentAvatar } from "@/components/comments/CommentAvatar";
+import { CommentBody } from "@/components/comments/CommentBody";
+import { CommentComposer } from "@/components/comments/CommentComposer";
+import { COMMENT_REACTIONS, CommentNode, CommentReaction } from "@/hooks/useComments";
+import { cn } from "@/lib/utils";
+
+// Deeper replies stop indenting so long threads stay readable on phones
+const MAX_INDENT_DEPTH = 3;
+
+interface CommentThreadProps {
+  comment: CommentNode;
+  depth?: number;
+  userId?: string;
+  canModerate: boolean;
+  replyPending: boolean;
+  onReply: (parentId: string, content: string) => Promise<unknown>;
+  onDelete: (commentId: string) => void;
+  onReact: (commentId: string, reaction: CommentReaction | null) => void;
+}
+
+export const CommentThread = ({
+  comment,
+  depth = 0,
+  userId,
+  canModerate,
+  replyPending,
+  onReply,
+  onDelete,
+  onReact,
+}: CommentThreadProps) => {
+  const [replying, setReplying] = useState(false);
+  const [pickerOpen, setPickerOpen] = useState(false);
+  const reactionTotals = COMMENT_REACTIONS.filter((reaction) => comment.reactions[reaction.value]);
+  const myReaction = COMMENT_REACTIONS.find((reaction) => reaction.value === comment.my_reaction);
+
+  return (
+    <div id={`comment-${comment.id}`} className="space-y-3">
+      <div className="flex items-start gap-3">
+        {comment.is_deleted ? (
+          <div className={cn("rounded-full bg-muted shrink-0", depth === 0 ? "h-10 w-10" : "h-8 w-8")} />
+        ) : (
+          <CommentAvatar
+            profile={{
+              email: "",
+              display_name: comment.author_name ?? undefined,
+              profile_picture_url: comment.author_avatar ?? undefined,
+            }}
+            userId={comment.user_id}
+            size={depth === 0 ? "md" : "sm"}
+          />
+        )}
+        <div className="flex-1 min-w-0">
+          {comment.is_deleted ? (
+            <p className="text-sm italic text-muted-foreground py-2">This comment was removed</p>
+          ) : (
+            <>
+              <div className="flex items-center justify-between gap-2">
+                <div>
+                  <p className={cn("font-medium", depth > 0 && "text-sm")}>{comment.author_name ?? "Unknown"}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {formatDistanceToNow(new Date(comment.created_at), { addSuffix: true })}
+                    {comment.is_edited && " (edited)"}
+                  </p>
+                </div>
+                {(userId === comment.user_id || canModerate) && (
+                  <Button variant="ghost" size="sm" onClick={() => onDelete(comment.id)}>
+                    <Trash2 className="h-4 w-4 text-destructive" />
+                  </Button>
+                )}
+              </div>
+              <CommentBody content={comment.content} className="mt-1" />
+
+              <div className="mt-2 flex flex-wrap items-center gap-1">
+                {reactionTotals.map((reaction) => (
+                  <Button
+                    key={reaction.value}
+                    variant={comment.my_reaction === reaction.value ? "secondary" : "ghost"}
+                    size="sm"
+                    className="h-7 px-2 text-xs"
+                    disabled={!userId}
+                    onClick={() => onReact(comment.id, comment.my_reaction === reaction.value ? null : reaction.value)}
+                  >
+                    {reaction.emoji} {comment.reactions[reaction.value]}
+                  </Button>
+                ))}
+                {userId && (
+                  <Popover open={pickerOpen} onOpenChange={setPickerOpen}>
+                    <PopoverTrigger asChild>
+                      <Button variant="ghost" size="sm" className="h-7 px-2 text-xs text-muted-foreground">
+                        {myReaction ? `${myReaction.emoji} ${myReaction.label}` : "React"}
+                      </Button>
+                    </PopoverTrigger>
+                    <PopoverContent className="w-auto p-1 flex gap-1" align="start">
+                      {COMMENT_REACTIONS.map((reaction) => (
+                        <Button
+                          key={reaction.value}
+                          variant={comment.my_reaction === reaction.value ? "secondary" : "ghost"}
+                          size="sm"
+                          className="h-8 w-8 p-0 text-lg"
+                          title={reaction.label}
+                          onClick={() => {
+                            onReact(comment.id, comment.my_reaction === reaction.value ? null : reaction.value);
+                            setPickerOpen(false);
+                          }}
+                        >
+                          {reaction.emoji}
+                        </Button>
+                      ))}
+                    </PopoverContent>
+                  </Popover>
+                )}
+                {userId && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 px-2 text-xs text-muted-foreground"
+                    onClick={() => setReplying(true)}
+                  >
+                    <Reply className="h-3 w-3 mr-1" />
+                    Reply
+                  </Button>
+                )}
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+
+      {replying && (
+        <div className="ml-12">
+          <CommentComposer
+            placeholder={`Reply to ${comment.author_name ?? "this comment"}...`}
+            submitLabel="Post Reply"
+            pending={replyPending}
+            autoFocus
+            compact
+            onSubmit={async (content) => {
+              await onReply(comment.id, content);
+              setReplying(false);
+            }}
+            onCancel={() => setReplying(false)}
+          />
+        </div>
+      )}
+
+      {comment.replies.length > 0 && (
+        <div className={cn("space-y-3", depth < MAX_INDENT_DEPTH && "ml-6 pl-4 border-l")}>
+          {comment.replies.map((reply) => (
+            <CommentThread
+              key={reply.id}
+              comment={reply}
+              depth={depth + 1}
+              userId={userId}
+              canModerate={canModerate}
+              replyPending={replyPending}
+              onReply={onReply}
+              onDelete={onDelete}
+              onReact={onReact}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
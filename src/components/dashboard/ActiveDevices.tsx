@@ -1,7 +1,7 @@
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { Smartphone, Monitor, Tablet, LogOut } from "lucide-react";
+import { Smartphone, Monitor, Tablet, LogOut, CircleStop } from "lucide-react";
 import { useDeviceSession } from "@/hooks/useDeviceSession";
 import { formatDistanceToNow } from "date-fns";
 import {
@@ -16,7 +16,7 @@ import {
   AlertDialogTrigger,
 } from "@/components/ui/alert-dialog";
 
-const getDeviceIcon = (type: string) => {
+const getDeviceIcon = (type: string | null) => {
   switch (type?.toLowerCase()) {
     case 'mobile':
       return <Smartphone className="w-5 h-5" />;
@@ -28,10 +28,39 @@ const getDeviceIcon = (type: string) => {
 };
 
 export const ActiveDevices = () => {
-  const { sessions, currentDeviceId, maxDevices, signOutDevice, signOutAllDevices } = useDeviceSession();
+  const { sessions, streams, currentDeviceId, maxDevices, kickDevice, signOutDevice, signOutAllDevices } = useDeviceSession();
 
   const otherSessions = sessions.filter(s => s.device_id !== currentDeviceId);
   const currentSession = sessions.find(s => s.device_id === currentDeviceId);
+  const streamingDeviceIds = new Set(streams.map(s => s.device_id));
+  // Devices still holding a stream after their session went quiet can be stopped too
+  const streamsWithoutSession = streams.filter(
+    s => s.device_id !== currentDeviceId && !sessions.some(session => session.device_id === s.device_id)
+  );
+
+  const renderKickButton = (deviceId: string, deviceName: string) => (
+    <AlertDialog>
+      <AlertDialogTrigger asChild>
+        <Button variant="ghost" size="sm" title="Stop stream">
+          <CircleStop className="w-4 h-4" />
+        </Button>
+      </AlertDialogTrigger>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Stop Stream?</AlertDialogTitle>
+          <AlertDialogDescription>
+            Playback on {deviceName} will stop immediately and free up a stream slot.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogCancel>Cancel</AlertDialogCancel>
+          <AlertDialogAction onClick={() => kickDevice(deviceId)}>
+            Stop Stream
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
 
   return (
     <Card>
@@ -40,10 +69,10 @@ export const ActiveDevices = () => {
           <div>
             <CardTitle>Active Devices</CardTitle>
             <CardDescription>
-              {sessions.length} of {maxDevices} devices active
+              {sessions.length} device{sessions.length === 1 ? '' : 's'} active · {streams.length} streaming now (your plan allows {maxDevices})
             </CardDescription>
           </div>
-          {otherSessions.length > 0 && (
+          {(otherSessions.length > 0 || streamsWithoutSession.length > 0) && (
             <AlertDialog>
               <AlertDialogTrigger asChild>
                 <Button variant="outline" size="sm">
@@ -79,6 +108,9 @@ export const ActiveDevices = () => {
                 <div className="flex items-center gap-2">
                   <p className="font-medium">{currentSession.device_name}</p>
                   <Badge variant="default" className="text-xs">This Device</Badge>
+                  {streamingDeviceIds.has(currentSession.device_id) && (
+                    <Badge variant="secondary" className="text-xs">Streaming</Badge>
+                  )}
                 </div>
                 <p className="text-sm text-muted-foreground">
                   Active {formatDistanceToNow(new Date(currentSession.last_active_at), { addSuffix: true })}
@@ -88,7 +120,7 @@ export const ActiveDevices = () => {
           </div>
         )}
 
-        {otherSessions.length === 0 && !currentSession && (
+        {otherSessions.length === 0 && !currentSession && streamsWithoutSession.length === 0 && (
           <p className="text-center text-muted-foreground py-4">
             No active devices
           </p>
@@ -101,33 +133,61 @@ export const ActiveDevices = () => {
                 {getDeviceIcon(session.device_type)}
               </div>
               <div>
-                <p className="font-medium">{session.device_name}</p>
+                <div className="flex items-center gap-2">
+                  <p className="font-medium">{session.device_name}</p>
+                  {streamingDeviceIds.has(session.device_id) && (
+                    <Badge variant="secondary" className="text-xs">Streaming</Badge>
+                  )}
+                </div>
                 <p className="text-sm text-muted-foreground">
                   Active {formatDistanceToNow(new Date(session.last_active_at), { addSuffix: true })}
                 </p>
               </div>
             </div>
-            <AlertDialog>
-              <AlertDialogTrigger asChild>
-                <Button variant="ghost" size="sm">
-                  <LogOut className="w-4 h-4" />
-                </Button>
-              </AlertDialogTrigger>
-              <AlertDialogContent>
-                <AlertDialogHeader>
-                  <AlertDialogTitle>Sign Out Device?</AlertDialogTitle>
-                  <AlertDialogDescription>
-                    This will sign out {session.device_name} from your account.
-                  </AlertDialogDescription>
-                </AlertDialogHeader>
-                <AlertDialogFooter>
-                  <AlertDialogCancel>Cancel</AlertDialogCancel>
-                  <AlertDialogAction onClick={() => signOutDevice(session.device_id)}>
-                    Sign Out
-                  </AlertDialogAction>
-                </AlertDialogFooter>
-              </AlertDialogContent>
-            </AlertDialog>
+            <div className="flex items-center gap-1">
+              {streamingDeviceIds.has(session.device_id) && renderKickButton(session.device_id, session.device_name)}
+              <AlertDialog>
+                <AlertDialogTrigger asChild>
+                  <Button variant="ghost" size="sm">
+                    <LogOut className="w-4 h-4" />
+                  </Button>
+                </AlertDialogTrigger>
+                <AlertDialogContent>
+                  <AlertDialogHeader>
+                    <AlertDialogTitle>Sign Out Device?</AlertDialogTitle>
+                    <AlertDialogDescription>
+                      This will sign out {session.device_name} from your account and stop anything it is playing.
+                    </AlertDialogDescription>
+                  </AlertDialogHeader>
+                  <AlertDialogFooter>
+                    <AlertDialogCancel>Cancel</AlertDialogCancel>
+                    <AlertDialogAction onClick={() => signOutDevice(session.device_id)}>
+                      Sign Out
+                    </AlertDialogAction>
+                  </AlertDialogFooter>
+                </AlertDialogContent>
+              </AlertDialog>
+            </div>
+          </div>
+        ))}
+
+        {streamsWithoutSession.map((stream) => (
+          <div key={stream.id} className="flex items-center justify-between p-4 border rounded-lg">
+            <div className="flex items-center gap-3">
+              <div className="text-muted-foreground">
+                {getDeviceIcon(stream.device_type)}
+              </div>
+              <div>
+                <div className="flex items-center gap-2">
+                  <p className="font-medium">{stream.device_name || 'Unknown Device'}</p>
+                  <Badge variant="secondary" className="text-xs">Streaming</Badge>
+                </div>
+                <p className="text-sm text-muted-foreground">
+                  Started {formatDistanceToNow(new Date(stream.created_at), { addSuffix: true })}
+                </p>
+              </div>
+            </div>
+            {renderKickButton(stream.device_id, stream.device_name || 'this device')}
           </div>
         ))}
       </CardContent>
@@ -1,6 +1,7 @@
 import { useState, useEffect } from "react";
 import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/hooks/useAuth";
+import { useViewerProfiles } from "@/hooks/useViewerProfiles";
 import { Card, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Progress } from "@/components/ui/progress";
@@ -42,17 +43,19 @@ interface WatchHistoryItem {
 
 export const ActivityTab = () => {
   const { user } = useAuth();
+  const { activeProfile } = useViewerProfiles();
   const navigate = useNavigate();
   const [watchHistory, setWatchHistory] = useState<WatchHistoryItem[]>([]);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
-    if (user) {
+    if (user && activeProfile) {
       loadWatchHistory();
     }
-  }, [user]);
+  }, [user, activeProfile?.id]);
 
   const loadWatchHistory = async () => {
+    if (!activeProfile) return;
     try {
       const { data, error } = await supabase
         .from('watch_history')
@@ -87,7 +90,7 @@ export const ActivityTab = () => {
             tmdb_id
           )
         `)
-        .eq('user_id', user?.id)
+        .eq('profile_id', activeProfile.id)
         .order('last_watched_at', { ascending: false })
         .limit(20);
 
@@ -0,0 +1,170 @@
+import { useState } from "react";
+import { toast } from "sonner";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { TelegramLoginButton } from "@/components/auth/TelegramLoginButton";
+import { SocialProvider, useAuth } from "@/hooks/useAuth";
+import { isPlaceholderEmail, TELEGRAM_BOT_USERNAME, useLinkedAccounts } from "@/hooks/useLinkedAccounts";
+
+const PROVIDERS: { provider: SocialProvider; label: string }[] = [
+  { provider: "google", label: "Google" },
+  { provider: "facebook", label: "Facebook" },
+];
+
+export const LinkedAccounts = () => {
+  const { user } = useAuth();
+  const [newEmail, setNewEmail] = useState("");
+  const {
+    identities,
+    telegram,
+    isLoading,
+    signInMethodCount,
+    linkProvider,
+    unlinkIdentity,
+    linkTelegram,
+    unlinkTelegram,
+    addEmail,
+  } = useLinkedAccounts();
+
+  const onError = (error: Error) => toast.error(error.message);
+  const canUnlink = signInMethodCount > 1;
+  const hasPlaceholderEmail = isPlaceholderEmail(user?.email);
+  const emailIdentity = identities.find((identity) => identity.provider === "email");
+
+  const renderRow = (label: string, detail: string | null, action: React.ReactNode) => (
+    <div key={label} className="flex items-center justify-between p-4 border rounded-lg">
+      <div>
+        <div className="flex items-center gap-2">
+          <p className="font-medium">{label}</p>
+          {detail && <Badge variant="secondary" className="text-xs">Connected</Badge>}
+        </div>
+        <p className="text-sm text-muted-foreground">{detail ?? "Not connected"}</p>
+      </div>
+      {action}
+    </div>
+  );
+
+  const handleAddEmail = () => {
+    addEmail.mutate(newEmail.trim(), {
+      onSuccess: () => {
+        toast.success(`Confirm the change from the email sent to ${newEmail.trim()}`);
+        setNewEmail("");
+      },
+      onError,
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Linked Accounts</CardTitle>
+        <CardDescription>Sign in to this same profile with any of these</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading && <p className="text-center text-muted-foreground py-4">Loading...</p>}
+
+        {!isLoading && (
+          <>
+            {hasPlaceholderEmail ? (
+              // Rendered inside the settings form, so this stays a plain block with button handlers
+              <div className="p-4 border rounded-lg space-y-2">
+                <p className="font-medium">Email</p>
+                <p className="text-sm text-muted-foreground">
+                  Add an email address to sign in with a link or password and to receive receipts
+                </p>
+                <div className="flex gap-2">
+                  <Input
+                    type="email"
+                    placeholder="you@example.com"
+                    value={newEmail}
+                    onChange={(e) => setNewEmail(e.target.value)}
+                  />
+                  <Button
+                    type="button"
+                    variant="outline"
+                    disabled={!newEmail.trim() || addEmail.isPending}
+                    onClick={handleAddEmail}
+                  >
+                    Add Email
+                  </Button>
+                </div>
+              </div>
+            ) : (
+              renderRow("Email", emailIdentity ? user?.email ?? null : null, null)
+            )}
+
+            {PROVIDERS.map(({ provider, label }) => {
+              const identity = identities.find((item) => item.provider === provider);
+              return renderRow(
+                label,
+                identity ? (identity.identity_data?.email as string | undefined) ?? "Connected" : null,
+                identity ? (
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    disabled={!canUnlink || unlinkIdentity.isPending}
+                    title={canUnlink ? undefined : "This is your only way to sign in"}
+                    onClick={() =>
+                      unlinkIdentity.mutate(identity, {
+                        onSuccess: () => toast.success(`${label} disconnected`),
+                        onError,
+                      })
+                    }
+                  >
+                    Disconnect
+                  </Button>
+                ) : (
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    disabled={linkProvider.isPending}
+                    onClick={() => linkProvider.mutate(provider, { onError })}
+                  >
+                    Connect
+                  </Button>
+                )
+              );
+            })}
+
+            {(telegram || TELEGRAM_BOT_USERNAME) &&
+              renderRow(
+                "Telegram",
+                telegram ? (telegram.username ? `@${telegram.username}` : telegram.first_name ?? "Connected") : null,
+                telegram ? (
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    disabled={!canUnlink || unlinkTelegram.isPending}
+                    title={canUnlink ? undefined : "This is your only way to sign in"}
+                    onClick={() =>
+                      unlinkTelegram.mutate(undefined, {
+                        onSuccess: () => toast.success("Telegram disconnected"),
+                        onError,
+                      })
+                    }
+                  >
+                    Disconnect
+                  </Button>
+                ) : (
+                  <TelegramLoginButton
+                    size="medium"
+                    onAuth={(telegramUser) =>
+                      linkTelegram.mutate(telegramUser, {
+                        onSuccess: () => toast.success("Telegram connected"),
+                        onError,
+                      })
+                    }
+                  />
+                )
+              )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
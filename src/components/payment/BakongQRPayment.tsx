@@ -1,10 +1,13 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef, useCallback } from "react";
+import { QRCodeSVG } from "qrcode.react";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
-import { Loader2, CheckCircle } from "lucide-react";
+import { Loader2, CheckCircle, XCircle, Clock } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
 
+type PaymentStatus = "pending" | "completed" | "failed" | "expired" | "refunded";
+
 interface BakongQRPaymentProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
@@ -12,9 +15,25 @@ interface BakongQRPaymentProps {
   qrData: any;
   amount: number;
   onSuccess: () => void;
-  verificationType: "rental" | "subscription";
+  verificationType: "rental" | "subscription" | "topup";
 }
 
+const VERIFY_ENDPOINTS: Record<BakongQRPaymentProps["verificationType"], string> = {
+  rental: "verify-rental-payment",
+  subscription: "verify-subscription-payment",
+  topup: "verify-wallet-topup",
+};
+
+// How often the dialog asks the server whether the QR has been paid
+const POLL_INTERVAL_MS = 4000;
+
+const formatCountdown = (ms: number) => {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, "0")}`;
+};
+
 export const BakongQRPayment = ({
   open,
   onOpenChange,
@@ -25,50 +44,93 @@ export const BakongQRPayment = ({
   verificationType,
 }: BakongQRPaymentProps) => {
   const [verifying, setVerifying] = useState(false);
-  const [verified, setVerified] = useState(false);
+  const [status, setStatus] = useState<PaymentStatus>("pending");
+  const [now, setNow] = useState(Date.now());
   const { toast } = useToast();
+  const inFlight = useRef(false);
+  const settled = useRef(false);
+  // Parents pass inline callbacks; keep them out of the polling effect's dependencies
+  const callbacks = useRef({ onSuccess, onOpenChange });
+  callbacks.current = { onSuccess, onOpenChange };
 
-  const verifyPayment = async () => {
-    setVerifying(true);
-    try {
-      const endpoint = verificationType === "rental" 
-        ? "verify-rental-payment" 
-        : "verify-subscription-payment";
+  const expiresAt = qrData?.expires_at ? new Date(qrData.expires_at).getTime() : null;
+  const remaining = expiresAt ? expiresAt - now : null;
+  const qrExpired = remaining !== null && remaining <= 0;
+
+  useEffect(() => {
+    if (open) {
+      setStatus("pending");
+      settled.current = false;
+    }
+  }, [open, transactionId]);
 
-      const { data, error } = await supabase.functions.invoke(endpoint, {
+  const verifyPayment = useCallback(async (manual: boolean) => {
+    if (inFlight.current || settled.current) return;
+    inFlight.current = true;
+    if (manual) setVerifying(true);
+
+    try {
+      const { data, error } = await supabase.functions.invoke(VERIFY_ENDPOINTS[verificationType], {
         body: { transactionId },
       });
 
       if (error) throw error;
 
-      if (data.success) {
-        setVerified(true);
+      const nextStatus: PaymentStatus = data.status ?? (data.success ? "completed" : "pending");
+      setStatus(nextStatus);
+
+      if (nextStatus === "completed") {
+        settled.current = true;
         toast({
           title: "Payment Successful",
           description: "Your payment has been verified successfully.",
         });
         setTimeout(() => {
-          onSuccess();
-          onOpenChange(false);
+          callbacks.current.onSuccess();
+          callbacks.current.onOpenChange(false);
         }, 2000);
-      } else {
+      } else if (nextStatus === "failed" || nextStatus === "expired" || nextStatus === "refunded") {
+        settled.current = true;
+      } else if (manual) {
         toast({
           title: "Payment Pending",
-          description: "Payment is still being processed. Please try again.",
-          variant: "destructive",
+          description: "We haven't received your payment yet. It will be confirmed automatically.",
         });
       }
     } catch (error) {
       console.error("Verification error:", error);
-      toast({
-        title: "Verification Failed",
-        description: "Failed to verify payment. Please try again.",
-        variant: "destructive",
-      });
+      if (manual) {
+        toast({
+          title: "Verification Failed",
+          description: "Failed to verify payment. Please try again.",
+          variant: "destructive",
+        });
+      }
     } finally {
-      setVerifying(false);
+      inFlight.current = false;
+      if (manual) setVerifying(false);
     }
-  };
+  }, [transactionId, verificationType, toast]);
+
+  // Poll while the dialog is open and the charge is still pending
+  useEffect(() => {
+    if (!open || status !== "pending") return;
+
+    const poll = setInterval(() => verifyPayment(false), POLL_INTERVAL_MS);
+    const tick = setInterval(() => setNow(Date.now()), 1000);
+
+    return () => {
+      clearInterval(poll);
+      clearInterval(tick);
+    };
+  }, [open, status, verifyPayment]);
+
+  // One last check once the QR runs out - the server decides whether it really expired
+  useEffect(() => {
+    if (open && status === "pending" && qrExpired) {
+      verifyPayment(false);
+    }
+  }, [open, status, qrExpired, verifyPayment]);
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
@@ -79,34 +141,73 @@ export const BakongQRPayment = ({
 
         <div className="space-y-6">
           <div className="flex flex-col items-center justify-center p-6 bg-muted rounded-lg">
-            <div className="w-64 h-64 bg-white flex items-center justify-center rounded-lg mb-4">
-              <div className="text-center p-4">
-                <p className="text-xs text-muted-foreground mb-2">QR Code</p>
-                <p className="text-sm font-mono break-all">{qrData?.qr_string}</p>
-              </div>
+            <div className="relative w-64 h-64 bg-white flex items-center justify-center rounded-lg mb-4">
+              {qrData?.qr_string ? (
+                <QRCodeSVG value={qrData.qr_string} size={232} level="M" />
+              ) : (
+                <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+              )}
+              {status !== "pending" && (
+                <div className="absolute inset-0 flex items-center justify-center rounded-lg bg-background/90">
+                  {status === "completed" ? (
+                    <CheckCircle className="w-16 h-16 text-green-500" />
+                  ) : (
+                    <XCircle className="w-16 h-16 text-destructive" />
+                  )}
+                </div>
+              )}
             </div>
-            <p className="text-2xl font-bold">${amount}</p>
-            <p className="text-sm text-muted-foreground">Transaction ID: {transactionId}</p>
+            <p className="text-2xl font-bold">${Number(amount).toFixed(2)}</p>
+            {qrData?.merchant_name && (
+              <p className="text-sm text-muted-foreground">{qrData.merchant_name}</p>
+            )}
+            <p className="text-xs text-muted-foreground">Transaction ID: {transactionId}</p>
+            {status === "pending" && remaining !== null && (
+              <p className="mt-2 flex items-center gap-1 text-sm text-muted-foreground">
+                <Clock className="w-4 h-4" />
+                {remaining > 0 ? `Expires in ${formatCountdown(remaining)}` : "Checking payment..."}
+              </p>
+            )}
           </div>
 
-          <div className="space-y-2">
-            <p className="text-sm text-muted-foreground text-center">
-              1. Open your Bakong app<br />
-              2. Scan the QR code above<br />
-              3. Complete the payment<br />
-              4. Click "Verify Payment" below
-            </p>
-          </div>
+          {status === "pending" && (
+            <div className="space-y-2">
+              <p className="text-sm text-muted-foreground text-center">
+                1. Open your Bakong or banking app<br />
+                2. Scan the QR code above<br />
+                3. Complete the payment<br />
+                4. This window updates automatically once paid
+              </p>
+            </div>
+          )}
 
-          {verified ? (
+          {status === "completed" && (
             <div className="flex items-center justify-center text-green-500 space-x-2">
               <CheckCircle className="w-5 h-5" />
               <span>Payment Verified!</span>
             </div>
-          ) : (
+          )}
+
+          {(status === "failed" || status === "expired" || status === "refunded") && (
+            <div className="space-y-3 text-center">
+              <p className="text-sm text-destructive">
+                {status === "expired"
+                  ? "This QR code has expired. Please start a new payment."
+                  : status === "refunded"
+                    ? "The promo code was no longer available, so the payment was refunded to your wallet."
+                    : "The payment was not completed. Please try again."}
+              </p>
+              <Button variant="outline" className="w-full" onClick={() => onOpenChange(false)}>
+                Close
+              </Button>
+            </div>
+          )}
+
+          {status === "pending" && (
             <Button
-              onClick={verifyPayment}
+              onClick={() => verifyPayment(true)}
               disabled={verifying}
+              variant="outline"
               className="w-full"
             >
               {verifying ? (
@@ -115,7 +216,7 @@ export const BakongQRPayment = ({
                   Verifying...
                 </>
               ) : (
-                "Verify Payment"
+                "I've Paid - Check Now"
               )}
             </Button>
           )}
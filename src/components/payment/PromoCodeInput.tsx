@@ -0,0 +1,125 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Loader2, Tag, X } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+
+export interface AppliedCoupon {
+  code: string;
+  originalAmount: number;
+  discountAmount: number;
+  finalAmount: number;
+  // Top-ups only: credited on top of the amount paid instead of a discount
+  bonusAmount?: number;
+}
+
+interface PromoCodeInputProps {
+  purpose: "subscription" | "rental" | "topup";
+  targetId?: string;
+  mediaType?: "movie" | "series" | "anime";
+  amount?: number;
+  applied: AppliedCoupon | null;
+  onAppliedChange: (coupon: AppliedCoupon | null) => void;
+}
+
+// Checks a code against the server before checkout. The discount is only
+// locked in when the payment is created, so the preview may still be refused later.
+export const PromoCodeInput = ({
+  purpose,
+  targetId,
+  mediaType,
+  amount,
+  applied,
+  onAppliedChange,
+}: PromoCodeInputProps) => {
+  const [code, setCode] = useState("");
+  const [checking, setChecking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleApply = async () => {
+    if (!code.trim()) return;
+
+    setChecking(true);
+    setError(null);
+    try {
+      const { data, error: fnError } = await supabase.functions.invoke("validate-coupon", {
+        body: { code: code.trim().toUpperCase(), purpose, targetId, mediaType, amount },
+      });
+
+      if (fnError) throw fnError;
+
+      if (data.valid) {
+        onAppliedChange({
+          code: data.code,
+          originalAmount: data.originalAmount,
+          discountAmount: data.discountAmount,
+          finalAmount: data.finalAmount,
+          bonusAmount: data.bonusAmount,
+        });
+        setCode("");
+      } else {
+        setError(data.error || "This promo code is not valid");
+      }
+    } catch (err) {
+      console.error("Promo code error:", err);
+      setError("Could not check this promo code. Please try again.");
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  if (applied) {
+    return (
+      <div className="flex items-center justify-between rounded-lg border border-green-500/40 bg-green-500/10 px-3 py-2">
+        <div className="flex items-center gap-2 text-sm">
+          <Tag className="h-4 w-4 text-green-500" />
+          <span className="font-mono font-semibold">{applied.code}</span>
+          <span className="text-muted-foreground">
+            {applied.bonusAmount !== undefined
+              ? `+$${applied.bonusAmount.toFixed(2)} bonus`
+              : `-$${applied.discountAmount.toFixed(2)}`}
+          </span>
+        </div>
+        <Button
+          type="button"
+          variant="ghost"
+          size="icon"
+          className="h-6 w-6"
+          onClick={() => onAppliedChange(null)}
+          aria-label="Remove promo code"
+        >
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      <Label htmlFor="promo-code">Promo Code</Label>
+      <div className="flex gap-2">
+        <Input
+          id="promo-code"
+          value={code}
+          onChange={(e) => {
+            setCode(e.target.value.toUpperCase());
+            setError(null);
+          }}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") {
+              e.preventDefault();
+              handleApply();
+            }
+          }}
+          placeholder="Enter code"
+          className="font-mono"
+        />
+        <Button type="button" variant="outline" onClick={handleApply} disabled={!code.trim() || checking}>
+          {checking ? <Loader2 className="h-4 w-4 animate-spin" /> : "Apply"}
+        </Button>
+      </div>
+      {error && <p className="text-xs text-destructive">{error}</p>}
+    </div>
+  );
+};
@@ -0,0 +1,77 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { Play, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { NEXT_EPISODE_COUNTDOWN_SECONDS } from "@/lib/episodeMarkers";
+
+export interface NextEpisodeInfo {
+  title: string;
+  label: string;
+  image?: string | null;
+}
+
+interface NextEpisodeCardProps {
+  episode: NextEpisodeInfo;
+  // Without autoplay the card only offers the button; nothing starts on its own
+  autoplay: boolean;
+  onPlay: () => void;
+  onDismiss: () => void;
+}
+
+export function NextEpisodeCard({ episode, autoplay, onPlay, onDismiss }: NextEpisodeCardProps) {
+  const [secondsLeft, setSecondsLeft] = useState(NEXT_EPISODE_COUNTDOWN_SECONDS);
+  // The player keeps re-rendering until the next episode has loaded; only hand over once
+  const startedRef = useRef(false);
+
+  const play = useCallback(() => {
+    if (startedRef.current) return;
+    startedRef.current = true;
+    onPlay();
+  }, [onPlay]);
+
+  useEffect(() => {
+    if (!autoplay) return;
+    const interval = setInterval(() => setSecondsLeft((s) => Math.max(0, s - 1)), 1000);
+    return () => clearInterval(interval);
+  }, [autoplay]);
+
+  useEffect(() => {
+    if (autoplay && secondsLeft === 0) play();
+  }, [autoplay, secondsLeft, play]);
+
+  return (
+    <div className="w-72 rounded-lg overflow-hidden bg-black/85 border border-white/10 shadow-xl text-white animate-in fade-in slide-in-from-bottom-2">
+      <div className="flex gap-3 p-3">
+        {episode.image && (
+          <img src={episode.image} alt="" className="w-24 aspect-video object-cover rounded flex-shrink-0" />
+        )}
+        <div className="flex-1 min-w-0">
+          <p className="text-xs text-white/60">
+            {autoplay ? `Next episode in ${secondsLeft}s` : "Next episode"}
+          </p>
+          <p className="text-xs text-white/60 truncate">{episode.label}</p>
+          <p className="text-sm font-semibold line-clamp-2">{episode.title}</p>
+        </div>
+        <button
+          type="button"
+          onClick={onDismiss}
+          className="self-start text-white/60 hover:text-white"
+          aria-label="Dismiss"
+        >
+          <X className="h-4 w-4" />
+        </button>
+      </div>
+      <div className="relative">
+        {autoplay && (
+          <div
+            className="absolute left-0 top-0 h-0.5 bg-primary transition-all duration-1000 ease-linear"
+            style={{ width: `${(1 - secondsLeft / NEXT_EPISODE_COUNTDOWN_SECONDS) * 100}%` }}
+          />
+        )}
+        <Button onClick={play} className="w-full rounded-none h-9">
+          <Play className="h-4 w-4 mr-2" fill="currentColor" />
+          Play now
+        </Button>
+      </div>
+    </div>
+  );
+}
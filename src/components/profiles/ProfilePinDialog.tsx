@@ -0,0 +1,75 @@
+import { useState } from "react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import { viewerProfileErrorMessage } from "@/lib/viewerProfiles";
+
+interface ProfilePinDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  profileName: string;
+  onSubmit: (pin: string) => Promise<void>;
+}
+
+export const ProfilePinDialog = ({ open, onOpenChange, profileName, onSubmit }: ProfilePinDialogProps) => {
+  const [pin, setPin] = useState("");
+  const [checking, setChecking] = useState(false);
+
+  const submit = async (value: string) => {
+    setChecking(true);
+    try {
+      await onSubmit(value);
+      setPin("");
+      onOpenChange(false);
+    } catch (error) {
+      toast.error(viewerProfileErrorMessage(error as Error));
+      setPin("");
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => {
+        setPin("");
+        onOpenChange(next);
+      }}
+    >
+      <DialogContent className="max-w-sm">
+        <DialogHeader>
+          <DialogTitle>Enter PIN</DialogTitle>
+          <DialogDescription>{profileName} is locked with a 4 digit PIN</DialogDescription>
+        </DialogHeader>
+        <div className="flex justify-center py-2">
+          <InputOTP
+            maxLength={4}
+            value={pin}
+            onChange={setPin}
+            onComplete={submit}
+            disabled={checking}
+            autoFocus
+            inputMode="numeric"
+            pattern="^[0-9]*$"
+          >
+            <InputOTPGroup>
+              {Array.from({ length: 4 }, (_, index) => (
+                <InputOTPSlot key={index} index={index} className="h-12 w-12 text-lg" />
+              ))}
+            </InputOTPGroup>
+          </InputOTP>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={() => submit(pin)} disabled={pin.length !== 4 || checking}>
+            {checking ? "Checking..." : "Unlock"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,23 @@
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { useProfileImage } from "@/hooks/useProfileImage";
+import { cn } from "@/lib/utils";
+
+interface ViewerAvatarProps {
+  name: string;
+  avatarUrl: string | null;
+  className?: string;
+}
+
+// Avatars are stored as media paths like account profile pictures, so they are signed the same way
+export const ViewerAvatar = ({ name, avatarUrl, className }: ViewerAvatarProps) => {
+  const { signedUrl } = useProfileImage({ imagePath: avatarUrl });
+
+  return (
+    <Avatar className={cn("rounded-lg", className)}>
+      <AvatarImage src={signedUrl || undefined} alt={name} className="object-cover" />
+      <AvatarFallback className="rounded-lg bg-primary/15 text-primary font-semibold">
+        {name.trim()[0]?.toUpperCase() || "?"}
+      </AvatarFallback>
+    </Avatar>
+  );
+};
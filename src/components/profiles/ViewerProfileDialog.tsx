@@ -0,0 +1,301 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Loader2, Upload } from "lucide-react";
+import { toast } from "sonner";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Separator } from "@/components/ui/separator";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { ViewerAvatar } from "@/components/profiles/ViewerAvatar";
+import { useAuth } from "@/hooks/useAuth";
+import { useIDriveUpload } from "@/hooks/useIDriveUpload";
+import { useViewerProfileMutations } from "@/hooks/useViewerProfileMutations";
+import { MATURITY_RATINGS, MaturityRating, ViewerProfile, viewerProfileErrorMessage } from "@/lib/viewerProfiles";
+
+const NO_LANGUAGE = "none";
+
+interface ViewerProfileDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Edits this profile; creates a new one when null
+  profile: ViewerProfile | null;
+}
+
+export const ViewerProfileDialog = ({ open, onOpenChange, profile }: ViewerProfileDialogProps) => {
+  const { user } = useAuth();
+  const { uploadFile, uploading } = useIDriveUpload();
+  const { create, update, remove, setPin } = useViewerProfileMutations();
+  // The form starts from the profile it was opened with; callers remount it per opening
+  const [name, setName] = useState(profile?.name ?? "");
+  const [avatarUrl, setAvatarUrl] = useState<string | null>(profile?.avatar_url ?? null);
+  const [maturity, setMaturity] = useState<MaturityRating>((profile?.maturity_rating as MaturityRating) ?? "adult");
+  const [language, setLanguage] = useState(profile?.language ?? NO_LANGUAGE);
+  const [newPin, setNewPin] = useState("");
+  const [currentPin, setCurrentPin] = useState("");
+
+  const { data: languages = [] } = useQuery({
+    queryKey: ["languages"],
+    queryFn: async () => {
+      const { data, error } = await supabase.from("languages").select("iso_639_1, english_name, name").order("english_name");
+      if (error) throw error;
+      return data;
+    },
+    enabled: open,
+  });
+
+  const onError = (error: Error) => toast.error(viewerProfileErrorMessage(error));
+
+  const handleAvatarUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file || !user) return;
+    if (file.size > 5 * 1024 * 1024) {
+      toast.error("Avatar images can be up to 5MB");
+      return;
+    }
+
+    const result = await uploadFile(file, {
+      bucket: "media-files",
+      path: `profile-images/${user.id}`,
+      category: "profile_picture",
+    });
+    if (!result.success || !result.path) {
+      toast.error(result.error || "Upload failed");
+      return;
+    }
+    setAvatarUrl(result.path);
+  };
+
+  const handleSave = () => {
+    const input = {
+      name: name.trim(),
+      avatar_url: avatarUrl,
+      maturity_rating: maturity,
+      language: language === NO_LANGUAGE ? null : language,
+    };
+    const onSuccess = () => {
+      toast.success(profile ? "Profile updated" : "Profile added");
+      onOpenChange(false);
+    };
+
+    if (profile) {
+      update.mutate({ id: profile.id, ...input }, { onSuccess, onError });
+    } else {
+      create.mutate(input, { onSuccess, onError });
+    }
+  };
+
+  const handlePin = (pin: string | null) => {
+    if (!profile) return;
+    setPin.mutate(
+      { id: profile.id, pin, currentPin: currentPin || undefined },
+      {
+        onSuccess: () => {
+          toast.success(pin ? "PIN saved" : "PIN removed");
+          setNewPin("");
+          setCurrentPin("");
+        },
+        onError,
+      }
+    );
+  };
+
+  const handleDelete = () => {
+    if (!profile) return;
+    remove.mutate(profile.id, {
+      onSuccess: () => {
+        toast.success("Profile deleted");
+        onOpenChange(false);
+      },
+      onError,
+    });
+  };
+
+  const saving = create.isPending || update.isPending;
+  const digitsOnly = (value: string) => value.replace(/\D/g, "").slice(0, 4);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{profile ? "Edit Profile" : "Add Profile"}</DialogTitle>
+          <DialogDescription>
+            Each profile keeps its own watch history, list and recommendations
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="flex items-center gap-4">
+            <ViewerAvatar name={name || "?"} avatarUrl={avatarUrl} className="h-20 w-20 text-2xl" />
+            <div className="space-y-2">
+              <Label htmlFor="viewer-avatar">
+                <Button type="button" variant="outline" size="sm" disabled={uploading} asChild>
+                  <span className="cursor-pointer">
+                    {uploading ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Upload className="h-4 w-4 mr-2" />}
+                    Upload Avatar
+                  </span>
+                </Button>
+              </Label>
+              <Input
+                id="viewer-avatar"
+                type="file"
+                accept="image/*"
+                className="hidden"
+                onChange={handleAvatarUpload}
+                disabled={uploading}
+              />
+              {avatarUrl && (
+                <Button type="button" variant="ghost" size="sm" onClick={() => setAvatarUrl(null)}>
+                  Remove avatar
+                </Button>
+              )}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="viewer-name">Name</Label>
+            <Input id="viewer-name" value={name} maxLength={30} onChange={(e) => setName(e.target.value)} />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Maturity rating</Label>
+            <Select value={maturity} onValueChange={(value) => setMaturity(value as MaturityRating)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {MATURITY_RATINGS.map((rating) => (
+                  <SelectItem key={rating.value} value={rating.value}>
+                    {rating.label} - {rating.description}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Preferred language</Label>
+            <Select value={language} onValueChange={setLanguage}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_LANGUAGE}>No preference</SelectItem>
+                {languages.map((item) => (
+                  <SelectItem key={item.iso_639_1} value={item.iso_639_1}>
+                    {item.english_name || item.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">Subtitles in this language are turned on when available</p>
+          </div>
+
+          {profile && (
+            <>
+              <Separator />
+              <div className="space-y-3">
+                <div>
+                  <Label>Profile PIN</Label>
+                  <p className="text-xs text-muted-foreground">
+                    {profile.has_pin
+                      ? "Locked. Enter the current PIN to change or remove it (not needed within 10 minutes of signing in)."
+                      : "Ask for a 4 digit PIN before anyone switches to this profile."}
+                  </p>
+                </div>
+                <div className="grid grid-cols-2 gap-3">
+                  {profile.has_pin && (
+                    <Input
+                      type="password"
+                      inputMode="numeric"
+                      placeholder="Current PIN"
+                      value={currentPin}
+                      onChange={(e) => setCurrentPin(digitsOnly(e.target.value))}
+                    />
+                  )}
+                  <Input
+                    type="password"
+                    inputMode="numeric"
+                    placeholder="New PIN"
+                    value={newPin}
+                    onChange={(e) => setNewPin(digitsOnly(e.target.value))}
+                  />
+                </div>
+                <div className="flex gap-2">
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    disabled={newPin.length !== 4 || setPin.isPending}
+                    onClick={() => handlePin(newPin)}
+                  >
+                    {profile.has_pin ? "Change PIN" : "Set PIN"}
+                  </Button>
+                  {profile.has_pin && (
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      disabled={setPin.isPending}
+                      onClick={() => handlePin(null)}
+                    >
+                      Remove PIN
+                    </Button>
+                  )}
+                </div>
+              </div>
+            </>
+          )}
+        </div>
+
+        <DialogFooter className="gap-2 sm:justify-between">
+          {profile && !profile.is_primary ? (
+            <AlertDialog>
+              <AlertDialogTrigger asChild>
+                <Button type="button" variant="destructive" disabled={remove.isPending}>
+                  Delete Profile
+                </Button>
+              </AlertDialogTrigger>
+              <AlertDialogContent>
+                <AlertDialogHeader>
+                  <AlertDialogTitle>Delete {profile.name}?</AlertDialogTitle>
+                  <AlertDialogDescription>
+                    The profile's watch history, list and likes are deleted with it. This cannot be undone.
+                  </AlertDialogDescription>
+                </AlertDialogHeader>
+                <AlertDialogFooter>
+                  <AlertDialogCancel>Cancel</AlertDialogCancel>
+                  <AlertDialogAction onClick={handleDelete}>Delete</AlertDialogAction>
+                </AlertDialogFooter>
+              </AlertDialogContent>
+            </AlertDialog>
+          ) : (
+            <span />
+          )}
+          <div className="flex gap-2">
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="button" onClick={handleSave} disabled={!name.trim() || saving || uploading}>
+              {saving ? "Saving..." : "Save"}
+            </Button>
+          </div>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
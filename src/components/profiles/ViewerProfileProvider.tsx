@@ -0,0 +1,88 @@
+import { useEffect, useState } from 'react';
+import { useLocation, useNavigate } from 'react-router-dom';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { ViewerProfileContext } from '@/hooks/useViewerProfiles';
+import { verifyViewerProfilePin, ViewerProfile } from '@/lib/viewerProfiles';
+
+// Pages that work without a chosen profile: the picker itself, sign-in flows and the admin area
+const PICKER_EXEMPT_PATHS = ['/profiles', '/auth', '/admin'];
+
+interface StoredSelection {
+  profileId: string;
+  // The selection only holds for the sign-in it was made in, so every new sign-in shows the picker
+  signedInAt: string | null;
+}
+
+const storageKey = (userId: string) => `viewer-profile:${userId}`;
+
+const readSelection = (userId: string): StoredSelection | null => {
+  try {
+    return JSON.parse(localStorage.getItem(storageKey(userId)) ?? 'null');
+  } catch {
+    return null;
+  }
+};
+
+export function ViewerProfileProvider({ children }: { children: React.ReactNode }) {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const navigate = useNavigate();
+  const location = useLocation();
+  const [selection, setSelection] = useState<StoredSelection | null>(null);
+
+  const { data: profiles = [], isLoading } = useQuery({
+    queryKey: ['viewer-profiles', user?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('viewer_profiles')
+        .select('*')
+        .eq('account_id', user!.id)
+        .order('is_primary', { ascending: false })
+        .order('created_at', { ascending: true });
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!user,
+  });
+
+  useEffect(() => {
+    setSelection(user ? readSelection(user.id) : null);
+  }, [user]);
+
+  const signedInAt = user?.last_sign_in_at ?? null;
+  const selected =
+    selection && selection.signedInAt === signedInAt
+      ? profiles.find((profile) => profile.id === selection.profileId) ?? null
+      : null;
+  // With a single profile there is nobody to choose between
+  const activeProfile = selected ?? (profiles.length === 1 ? profiles[0] : null);
+  const loading = !!user && isLoading;
+  const needsPicker = !!user && !loading && profiles.length > 1 && !activeProfile;
+
+  useEffect(() => {
+    if (!needsPicker || PICKER_EXEMPT_PATHS.some((path) => location.pathname.startsWith(path))) return;
+    navigate('/profiles', { state: { from: location.pathname + location.search } });
+  }, [needsPicker, location.pathname, location.search, navigate]);
+
+  const selectProfile = async (profile: ViewerProfile, pin?: string) => {
+    if (!user) return;
+
+    if (profile.has_pin && profile.id !== activeProfile?.id) {
+      await verifyViewerProfilePin(profile.id, pin ?? '');
+    }
+
+    const next = { profileId: profile.id, signedInAt };
+    localStorage.setItem(storageKey(user.id), JSON.stringify(next));
+    setSelection(next);
+  };
+
+  const refreshProfiles = () => queryClient.invalidateQueries({ queryKey: ['viewer-profiles'] });
+
+  return (
+    <ViewerProfileContext.Provider value={{ profiles, activeProfile, loading, selectProfile, refreshProfiles }}>
+      {children}
+    </ViewerProfileContext.Provider>
+  );
+}
@@ -0,0 +1,41 @@
+import { HorizontalScrollSection } from "@/components/public/HorizontalScrollSection";
+import { MediaCard } from "@/components/public/MediaCard";
+import { countWatched, useCollectionProgress, useHomeCollections } from "@/hooks/useCollections";
+
+// One row per collection an admin has pinned to the home page
+export const CollectionRowsSection = () => {
+  const { data: collections = [] } = useHomeCollections();
+  const { data: progress } = useCollectionProgress(collections.map((c) => c.id));
+
+  if (collections.length === 0) return null;
+
+  return (
+    <>
+      {collections.map((collection) => {
+        const watched = countWatched(collection, progress?.get(collection.id));
+        return (
+          <HorizontalScrollSection
+            key={collection.id}
+            title={watched > 0 ? `${collection.name} · ${watched} of ${collection.entries.length} watched` : collection.name}
+            linkTo={`/collections/${collection.id}`}
+          >
+            {collection.entries.map((entry) => (
+              <div key={entry.id} className="w-[180px] flex-shrink-0">
+                <MediaCard
+                  id={entry.media_id || ""}
+                  title={entry.title || ""}
+                  image={entry.thumbnail || ""}
+                  rating={entry.rating ?? undefined}
+                  type={entry.media_type || "movie"}
+                  year={entry.release_year ?? undefined}
+                  tmdb_id={entry.tmdb_id ?? undefined}
+                  access={(entry.access as "free" | "rent" | "vip") || "free"}
+                />
+              </div>
+            ))}
+          </HorizontalScrollSection>
+        );
+      })}
+    </>
+  );
+};
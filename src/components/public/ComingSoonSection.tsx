@@ -78,39 +78,7 @@ export const ComingSoonSection = () => {
       
       if (error) throw error;
       
-      // For each upcoming release, try to find the actual media ID
-      const releasesWithLinks = await Promise.all(
-        (data || []).map(async (release) => {
-          let mediaId = null;
-          if (release.tmdb_id) {
-            if (release.type === 'Movie') {
-              const { data: movie } = await supabase
-                .from('movies')
-                .select('id')
-                .eq('tmdb_id', release.tmdb_id)
-                .single();
-              mediaId = movie?.id;
-            } else if (release.type === 'Series') {
-              const { data: series } = await supabase
-                .from('series')
-                .select('id')
-                .eq('tmdb_id', release.tmdb_id)
-                .single();
-              mediaId = series?.id;
-            } else if (release.type === 'Anime') {
-              const { data: anime } = await supabase
-                .from('animes')
-                .select('id')
-                .eq('tmdb_id', release.tmdb_id)
-                .single();
-              mediaId = anime?.id;
-            }
-          }
-          return { ...release, mediaId };
-        })
-      );
-      
-      return releasesWithLinks;
+      return data;
     },
   });
 
@@ -283,15 +251,8 @@ export const ComingSoonSection = () => {
             {upcomingReleases.map((release, index) => (
               <CardWithFadeIn key={release.id} delay={index * 50}>
                 <div className="min-w-[60px] flex flex-col">
-                  {(release as any).mediaId ? (
-                    <Link 
-                      to={
-                        release.type === 'Movie' ? `/watch/movie/${(release as any).tmdbId}` :
-                        release.type === 'Series' ? `/watch/series/${(release as any).tmdbId}/1/1` :
-                        release.type === 'Anime' ? `/anime/${(release as any).anilistId}` :
-                        '#'
-                      }
-                    >
+                  {release.status === 'released' && release.watch_path ? (
+                    <Link to={release.watch_path}>
                       <div className="relative aspect-[2/3] rounded-lg overflow-hidden mb-2 group cursor-pointer">
                         {getTypeBadge(release.genre)}
                         <img
@@ -1,6 +1,7 @@
 import { useEffect, useState, useRef } from "react";
 import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/hooks/useAuth";
+import { useViewerProfiles } from "@/hooks/useViewerProfiles";
 import { Link } from "react-router-dom";
 import { Progress } from "@/components/ui/progress";
 import { Play, ChevronRight, ChevronLeft } from "lucide-react";
@@ -24,6 +25,8 @@ export const ContinueWatchingSection = () => {
   const [watchList, setWatchList] = useState<WatchItem[]>([]);
   const [loading, setLoading] = useState(true);
   const { user } = useAuth();
+  const { activeProfile } = useViewerProfiles();
+  const profileId = activeProfile?.id;
   const isTablet = useIsTablet();
   const isMobile = useIsMobile();
   const isDesktop = !isTablet && !isMobile;
@@ -62,7 +65,8 @@ export const ContinueWatchingSection = () => {
 
   useEffect(() => {
     const fetchContinueWatching = async () => {
-      if (!user) {
+      if (!user || !profileId) {
+        setWatchList([]);
         setLoading(false);
         return;
       }
@@ -71,7 +75,7 @@ export const ContinueWatchingSection = () => {
         const { data: history, error } = await supabase
           .from('watch_history')
           .select('*')
-          .eq('user_id', user.id)
+          .eq('profile_id', profileId)
           .eq('completed', false)
           .order('last_watched_at', { ascending: false })
           .limit(10);
@@ -134,7 +138,7 @@ export const ContinueWatchingSection = () => {
     };
 
     fetchContinueWatching();
-  }, [user]);
+  }, [user, profileId]);
 
   if (!user || loading || watchList.length === 0) {
     return null;
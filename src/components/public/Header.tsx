@@ -1,29 +1,33 @@
-import { Search, Radio, Shuffle, Newspaper, MessageSquare, SlidersHorizontal, LogOut, Shield, Crown, User } from "lucide-react";
+import { Search, Radio, Shuffle, Newspaper, MessageSquare, LogOut, Shield, Crown, User, Users } from "lucide-react";
 import { Button } from "@/components/ui/button";
-import { Input } from "@/components/ui/input";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { useState, useEffect } from "react";
 import { useNavigate } from "react-router-dom";
 import { useAuth } from "@/hooks/useAuth";
 import { ThemeToggle } from "@/components/ThemeToggle";
 import { PublicSidebar } from "@/components/public/PublicSidebar";
+import { HeaderSearch } from "@/components/public/HeaderSearch";
+import { NotificationBell } from "@/components/public/NotificationBell";
 import logoIcon from "@/assets/logo-icon.png";
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuSeparator, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
 import { SubscriptionDialog } from "@/components/subscription/SubscriptionDialog";
 import { supabase } from "@/integrations/supabase/client";
 import { useProfileImage } from "@/hooks/useProfileImage";
+import { useViewerProfiles } from "@/hooks/useViewerProfiles";
+import { ViewerAvatar } from "@/components/profiles/ViewerAvatar";
 
 export const Header = () => {
   const [isScrolled, setIsScrolled] = useState(false);
   const [sidebarOpen, setSidebarOpen] = useState(false);
   const [showSubscriptionDialog, setShowSubscriptionDialog] = useState(false);
-  const [profileData, setProfileData] = useState<any>(null);
+  const [profileData, setProfileData] = useState<{ display_name: string | null; profile_picture_url: string | null } | null>(null);
   const navigate = useNavigate();
   const {
     user,
     isAdmin,
     signOut
   } = useAuth();
+  const { activeProfile } = useViewerProfiles();
 
   // Get signed URL for profile picture
   const { signedUrl: profileImageUrl } = useProfileImage({ 
@@ -60,6 +64,7 @@ export const Header = () => {
   };
 
   const getDisplayName = () => {
+    if (activeProfile) return activeProfile.name;
     if (profileData?.display_name) return profileData.display_name;
     return user?.email?.split('@')[0] || 'User';
   };
@@ -83,17 +88,13 @@ export const Header = () => {
             </div>
 
           <div className="flex items-center gap-3 flex-1 justify-center max-w-2xl">
-            <div className="relative w-full max-w-md hidden md:block">
-              <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
-              <Input placeholder="Search anime..." className="w-full pl-10 pr-20 bg-secondary/50 border-border/50 backdrop-blur focus:border-primary/50 transition-colors" />
-              <Button size="sm" className="absolute right-1 top-1/2 -translate-y-1/2 h-8 bg-primary hover:bg-primary/90">
-                <SlidersHorizontal className="h-4 w-4 mr-1" />
-                Filter
-              </Button>
-            </div>
+            <HeaderSearch />
           </div>
 
           <div className="flex items-center gap-2">
+            <Button size="icon" variant="ghost" className="md:hidden bg-transparent border border-primary/30 hover:border-primary hover:bg-primary/5" title="Search" onClick={() => navigate("/search")}>
+              <Search className="h-4 w-4 text-primary" />
+            </Button>
             <Button size="icon" variant="ghost" className="hidden xl:flex bg-transparent border border-primary/30 hover:border-primary hover:bg-primary/5" title="Watch2gether">
               <Radio className="h-4 w-4 text-primary" />
             </Button>
@@ -107,6 +108,7 @@ export const Header = () => {
               <MessageSquare className="h-4 w-4 text-primary" />
             </Button>
             <ThemeToggle />
+            {user && <NotificationBell />}
             
             <Button 
               variant="outline" 
@@ -120,12 +122,12 @@ export const Header = () => {
             {user ? <DropdownMenu>
                 <DropdownMenuTrigger asChild>
                   <Button variant="outline" className="bg-transparent border border-primary/30 hover:border-primary hover:bg-primary/5 text-primary whitespace-nowrap flex items-center gap-2">
-                    <Avatar className="h-6 w-6">
-                      <AvatarImage src={profileImageUrl || undefined} alt={getDisplayName()} />
-                      <AvatarFallback>
-                        <User className="h-4 w-4" />
-                      </AvatarFallback>
-                    </Avatar>
+                    {activeProfile ? <ViewerAvatar name={activeProfile.name} avatarUrl={activeProfile.avatar_url} className="h-6 w-6 text-xs" /> : <Avatar className="h-6 w-6">
+                        <AvatarImage src={profileImageUrl || undefined} alt={getDisplayName()} />
+                        <AvatarFallback>
+                          <User className="h-4 w-4" />
+                        </AvatarFallback>
+                      </Avatar>}
                     <span>{getDisplayName()}</span>
                   </Button>
                 </DropdownMenuTrigger>
@@ -134,6 +136,10 @@ export const Header = () => {
                     <Shield className="mr-2 h-4 w-4" />
                     My Dashboard
                   </DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => navigate("/profiles")}>
+                    <Users className="mr-2 h-4 w-4" />
+                    Switch Profile
+                  </DropdownMenuItem>
                   {isAdmin && <>
                       <DropdownMenuSeparator />
                       <DropdownMenuItem onClick={() => navigate("/admin")}>
@@ -0,0 +1,135 @@
+import { useState } from "react";
+import { useLocation, useNavigate, useSearchParams } from "react-router-dom";
+import { Search, SlidersHorizontal, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import {
+  MIN_SEARCH_LENGTH,
+  SEARCH_KIND_LABELS,
+  SearchKind,
+  SearchResult,
+  getSearchResultPath,
+  useSearchSuggestions,
+} from "@/hooks/useCatalogSearch";
+
+export const HeaderSearch = () => {
+  const navigate = useNavigate();
+  const location = useLocation();
+  const [searchParams] = useSearchParams();
+  const [query, setQuery] = useState(location.pathname === "/search" ? searchParams.get("q") || "" : "");
+  const [open, setOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(-1);
+
+  const { data: suggestions = [], isFetching } = useSearchSuggestions(query);
+  const term = query.trim();
+  const showDropdown = open && term.length >= MIN_SEARCH_LENGTH;
+
+  const goToResults = () => {
+    setOpen(false);
+    navigate(term ? `/search?q=${encodeURIComponent(term)}` : "/search");
+  };
+
+  const goToSuggestion = (result: SearchResult) => {
+    setOpen(false);
+    navigate(getSearchResultPath(result));
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "ArrowDown") {
+      e.preventDefault();
+      setOpen(true);
+      setActiveIndex((index) => Math.min(index + 1, suggestions.length - 1));
+    } else if (e.key === "ArrowUp") {
+      e.preventDefault();
+      setActiveIndex((index) => Math.max(index - 1, -1));
+    } else if (e.key === "Enter") {
+      e.preventDefault();
+      if (showDropdown && suggestions[activeIndex]) {
+        goToSuggestion(suggestions[activeIndex]);
+      } else {
+        goToResults();
+      }
+    } else if (e.key === "Escape") {
+      setOpen(false);
+    }
+  };
+
+  return (
+    <div className="relative w-full max-w-md hidden md:block">
+      <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+      <Input
+        value={query}
+        onChange={(e) => {
+          setQuery(e.target.value);
+          setActiveIndex(-1);
+          setOpen(true);
+        }}
+        onFocus={() => setOpen(true)}
+        onBlur={() => setOpen(false)}
+        onKeyDown={handleKeyDown}
+        placeholder="Search movies, series, anime, cast..."
+        aria-label="Search"
+        className="w-full pl-10 pr-20 bg-secondary/50 border-border/50 backdrop-blur focus:border-primary/50 transition-colors"
+      />
+      <Button
+        size="sm"
+        className="absolute right-1 top-1/2 -translate-y-1/2 h-8 bg-primary hover:bg-primary/90"
+        onClick={goToResults}
+      >
+        <SlidersHorizontal className="h-4 w-4 mr-1" />
+        Filter
+      </Button>
+
+      {showDropdown && (
+        <div
+          className="absolute left-0 right-0 top-full mt-2 overflow-hidden rounded-lg border border-border bg-popover shadow-xl"
+          // Keep focus in the input so clicking a suggestion doesn't close the list first
+          onMouseDown={(e) => e.preventDefault()}
+        >
+          {suggestions.length === 0 ? (
+            <div className="flex items-center gap-2 px-4 py-3 text-sm text-muted-foreground">
+              {isFetching && <Loader2 className="h-4 w-4 animate-spin" />}
+              {isFetching ? "Searching..." : `No results for "${term}"`}
+            </div>
+          ) : (
+            <ul className="max-h-96 overflow-y-auto py-1">
+              {suggestions.map((result, index) => (
+                <li key={`${result.kind}-${result.id}`}>
+                  <button
+                    type="button"
+                    onClick={() => goToSuggestion(result)}
+                    onMouseEnter={() => setActiveIndex(index)}
+                    className={`flex w-full items-center gap-3 px-3 py-2 text-left transition-colors ${index === activeIndex ? "bg-accent" : "hover:bg-accent/50"}`}
+                  >
+                    <img
+                      src={result.image_url || "/placeholder.svg"}
+                      alt={result.title}
+                      className="h-12 w-8 flex-shrink-0 rounded object-cover bg-secondary"
+                    />
+                    <div className="min-w-0 flex-1">
+                      <p className="truncate text-sm font-medium text-foreground">{result.title}</p>
+                      <p className="truncate text-xs text-muted-foreground">
+                        {result.subtitle || [result.release_year, result.genre].filter(Boolean).join(" • ")}
+                      </p>
+                    </div>
+                    <Badge variant="secondary" className="flex-shrink-0 text-[10px]">
+                      {SEARCH_KIND_LABELS[result.kind as SearchKind] ?? result.kind}
+                    </Badge>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+          <button
+            type="button"
+            onClick={goToResults}
+            className="w-full border-t border-border px-4 py-2 text-left text-sm text-primary hover:bg-accent/50"
+          >
+            See all results for "{term}"
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,112 @@
+import { Bell, CheckCheck, X } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import { useNavigate } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { useNotifications, InboxNotification } from "@/hooks/useNotifications";
+import { cn } from "@/lib/utils";
+
+const TYPE_DOT: Record<string, string> = {
+  info: "bg-blue-500",
+  success: "bg-green-500",
+  warning: "bg-yellow-500",
+  error: "bg-red-500",
+};
+
+export const NotificationBell = () => {
+  const navigate = useNavigate();
+  const { notifications, unreadCount, markRead, remove } = useNotifications();
+
+  const handleOpen = (item: InboxNotification) => {
+    if (!item.read_at) markRead([item.id]);
+
+    const link = item.notification?.link_url;
+    if (!link) return;
+    if (link.startsWith("/")) {
+      navigate(link);
+    } else {
+      window.open(link, "_blank", "noopener,noreferrer");
+    }
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button
+          size="icon"
+          variant="ghost"
+          className="relative bg-transparent border border-primary/30 hover:border-primary hover:bg-primary/5"
+          title="Notifications"
+        >
+          <Bell className="h-4 w-4 text-primary" />
+          {unreadCount > 0 && (
+            <span className="absolute -top-1 -right-1 min-w-[18px] h-[18px] px-1 rounded-full bg-primary text-primary-foreground text-[10px] font-semibold flex items-center justify-center">
+              {unreadCount > 99 ? "99+" : unreadCount}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 p-0">
+        <div className="flex items-center justify-between px-4 py-3 border-b border-border">
+          <h3 className="font-semibold text-sm">Notifications</h3>
+          {unreadCount > 0 && (
+            <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={() => markRead()}>
+              <CheckCheck className="h-3.5 w-3.5 mr-1" />
+              Mark all read
+            </Button>
+          )}
+        </div>
+
+        {notifications.length === 0 ? (
+          <div className="py-10 text-center text-sm text-muted-foreground">
+            <Bell className="h-8 w-8 mx-auto mb-2 opacity-50" />
+            You're all caught up
+          </div>
+        ) : (
+          <div className="max-h-96 overflow-y-auto divide-y divide-border">
+            {notifications.map((item) => (
+              <div
+                key={item.id}
+                role="button"
+                tabIndex={0}
+                onClick={() => handleOpen(item)}
+                onKeyDown={(e) => e.key === "Enter" && handleOpen(item)}
+                className={cn(
+                  "group flex gap-3 px-4 py-3 cursor-pointer hover:bg-muted/50 transition-colors",
+                  !item.read_at && "bg-primary/5"
+                )}
+              >
+                <div
+                  className={cn(
+                    "mt-1.5 h-2 w-2 shrink-0 rounded-full",
+                    TYPE_DOT[item.notification?.type ?? "info"] ?? TYPE_DOT.info,
+                    item.read_at && "opacity-30"
+                  )}
+                />
+                <div className="flex-1 min-w-0 space-y-1">
+                  <p className={cn("text-sm leading-tight", !item.read_at && "font-semibold")}>
+                    {item.notification?.title}
+                  </p>
+                  <p className="text-xs text-muted-foreground line-clamp-3">{item.notification?.message}</p>
+                  <p className="text-[11px] text-muted-foreground">
+                    {formatDistanceToNow(new Date(item.delivered_at), { addSuffix: true })}
+                  </p>
+                </div>
+                <button
+                  className="h-5 w-5 shrink-0 opacity-0 group-hover:opacity-100 text-muted-foreground hover:text-foreground transition-opacity"
+                  aria-label="Dismiss notification"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    remove(item.id);
+                  }}
+                >
+                  <X className="h-3.5 w-3.5" />
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+};
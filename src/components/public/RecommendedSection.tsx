@@ -1,6 +1,8 @@
 import { useEffect, useState, useRef } from "react";
 import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/hooks/useAuth";
+import { useViewerProfiles } from "@/hooks/useViewerProfiles";
+import { canWatchRating } from "@/lib/viewerProfiles";
 import { Link } from "react-router-dom";
 import { useInView } from "@/hooks/useInView";
 import { ChevronRight, ChevronLeft } from "lucide-react";
@@ -17,6 +19,7 @@ interface MediaItem {
   genre: string;
   tmdb_id?: string;
   anilist_id?: string;
+  maturity_rating: string | null;
 }
 
 const CardWithFadeIn = ({ children, delay }: { children: React.ReactNode; delay: number }) => {
@@ -41,6 +44,9 @@ export const RecommendedSection = () => {
   const [recommended, setRecommended] = useState<MediaItem[]>([]);
   const [loading, setLoading] = useState(true);
   const { user } = useAuth();
+  const { activeProfile } = useViewerProfiles();
+  const profileId = activeProfile?.id;
+  const profileRating = activeProfile?.maturity_rating;
   const isTablet = useIsTablet();
   const isMobile = useIsMobile();
   const isDesktop = !isTablet && !isMobile;
@@ -79,7 +85,8 @@ export const RecommendedSection = () => {
 
   useEffect(() => {
     const fetchRecommended = async () => {
-      if (!user) {
+      if (!user || !profileId) {
+        setRecommended([]);
         setLoading(false);
         return;
       }
@@ -88,7 +95,7 @@ export const RecommendedSection = () => {
         const { data: history } = await supabase
           .from('watch_history')
           .select('movie_id, episode_id')
-          .eq('user_id', user.id)
+          .eq('profile_id', profileId)
           .limit(20);
 
         const watchedMovieIds = history?.filter(h => h.movie_id).map(h => h.movie_id) || [];
@@ -122,9 +129,9 @@ export const RecommendedSection = () => {
           const topGenre = genreArray[0];
           
           const [animesRes, moviesRes, seriesRes] = await Promise.all([
-            supabase.from('animes').select('id, title, thumbnail, rating, type, genre, tmdb_id, anilist_id').eq('status', 'published').ilike('genre', `%${topGenre}%`).order('rating', { ascending: false }).limit(7),
-            supabase.from('movies').select('id, title, thumbnail, rating, type, genre, tmdb_id').eq('status', 'published').ilike('genre', `%${topGenre}%`).order('rating', { ascending: false }).limit(7),
-            supabase.from('series').select('id, title, thumbnail, rating, type, genre, tmdb_id').eq('status', 'published').ilike('genre', `%${topGenre}%`).order('rating', { ascending: false }).limit(7)
+            supabase.from('animes').select('id, title, thumbnail, rating, type, genre, tmdb_id, anilist_id, maturity_rating').eq('status', 'published').ilike('genre', `%${topGenre}%`).order('rating', { ascending: false }).limit(7),
+            supabase.from('movies').select('id, title, thumbnail, rating, type, genre, tmdb_id, maturity_rating').eq('status', 'published').ilike('genre', `%${topGenre}%`).order('rating', { ascending: false }).limit(7),
+            supabase.from('series').select('id, title, thumbnail, rating, type, genre, tmdb_id, maturity_rating').eq('status', 'published').ilike('genre', `%${topGenre}%`).order('rating', { ascending: false }).limit(7)
           ]);
 
           const combined: MediaItem[] = [
@@ -133,6 +140,7 @@ export const RecommendedSection = () => {
             ...(seriesRes.data?.map(item => ({ ...item, media_type: 'series' as const })) || [])
           ]
             .filter(item => {
+              if (!canWatchRating(profileRating, item.maturity_rating)) return false;
               if (item.media_type === 'movie') return !watchedMovieIds.includes(item.id);
               return true;
             })
@@ -151,7 +159,7 @@ export const RecommendedSection = () => {
     };
 
     fetchRecommended();
-  }, [user]);
+  }, [user, profileId, profileRating]);
 
   if (!user || loading || recommended.length === 0) {
     return null;
@@ -1,15 +1,18 @@
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { Loader2, CreditCard } from 'lucide-react';
+import { Loader2, CreditCard, Wallet } from 'lucide-react';
 import { useAuth } from '@/hooks/useAuth';
+import { useWallet } from '@/hooks/useWallet';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from 'sonner';
 import { z } from 'zod';
+import { FunctionsHttpError } from '@supabase/supabase-js';
 import { BakongQRPayment } from '@/components/payment/BakongQRPayment';
+import { PromoCodeInput, AppliedCoupon } from '@/components/payment/PromoCodeInput';
 
 const authSchema = z.object({
   email: z.string().trim().email({ message: 'Invalid email address' }).max(255),
@@ -45,6 +48,16 @@ export const RentalDialog = ({
   const [showPayment, setShowPayment] = useState(false);
   const [transactionId, setTransactionId] = useState('');
   const [qrData, setQrData] = useState<any>(null);
+  const [amountDue, setAmountDue] = useState(rentalPrice);
+  const [appliedCoupon, setAppliedCoupon] = useState<AppliedCoupon | null>(null);
+  const { balance, checkSufficientBalance, payWithWallet } = useWallet();
+  const [payingWithWallet, setPayingWithWallet] = useState(false);
+  const [walletPaymentKey, setWalletPaymentKey] = useState(() => crypto.randomUUID());
+
+  // A fresh key per opening; retries within one opening reuse it
+  useEffect(() => {
+    if (open) setWalletPaymentKey(crypto.randomUUID());
+  }, [open]);
 
   const handleSignIn = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -112,30 +125,55 @@ export const RentalDialog = ({
     setProcessingPayment(true);
     try {
       const { data, error } = await supabase.functions.invoke('create-rental-payment', {
+        // Price and period are read from the media row server-side
         body: {
           mediaId,
           mediaType,
-          rentalPrice,
-          rentalPeriodDays,
+          couponCode: appliedCoupon?.code,
         },
       });
 
       if (error) throw error;
 
-      if (data.success) {
+      if (data.completed) {
+        handlePaymentSuccess();
+      } else if (data.success) {
         setTransactionId(data.transactionId);
         setQrData(data.qrData);
+        setAmountDue(data.amount ?? rentalPrice);
         setShowPayment(true);
         toast.success('Payment initiated! Please scan the QR code.');
       }
     } catch (error) {
       console.error('Rental error:', error);
-      toast.error('Failed to initiate rental. Please try again.');
+      const body = error instanceof FunctionsHttpError
+        ? await error.context.json().catch(() => null)
+        : null;
+      if (body?.code?.startsWith('COUPON_')) {
+        setAppliedCoupon(null);
+        toast.error(body.error);
+      } else {
+        toast.error('Failed to initiate rental. Please try again.');
+      }
     } finally {
       setProcessingPayment(false);
     }
   };
 
+  const handlePayWithWallet = async () => {
+    if (!user) return;
+
+    setPayingWithWallet(true);
+    try {
+      await payWithWallet('rental', mediaId, walletPaymentKey, mediaType);
+      handlePaymentSuccess();
+    } catch (error) {
+      console.error('Wallet payment error:', error);
+    } finally {
+      setPayingWithWallet(false);
+    }
+  };
+
   const handlePaymentSuccess = () => {
     toast.success('Rental successful! Enjoy your content.');
     onSuccess();
@@ -149,7 +187,7 @@ export const RentalDialog = ({
         onOpenChange={onOpenChange}
         transactionId={transactionId}
         qrData={qrData}
-        amount={rentalPrice}
+        amount={amountDue}
         onSuccess={handlePaymentSuccess}
         verificationType="rental"
       />
@@ -254,12 +292,45 @@ export const RentalDialog = ({
                 <span className="text-sm text-muted-foreground">Rental Period:</span>
                 <span className="text-lg font-bold">{rentalPeriodDays} days</span>
               </div>
+              {appliedCoupon && (
+                <div className="flex justify-between items-center border-t border-border pt-4">
+                  <span className="text-sm text-muted-foreground">Total:</span>
+                  <span className="text-lg font-bold">
+                    <span className="mr-2 text-sm font-normal text-muted-foreground line-through">${rentalPrice}</span>
+                    ${appliedCoupon.finalAmount.toFixed(2)}
+                  </span>
+                </div>
+              )}
             </div>
 
+            <PromoCodeInput
+              purpose="rental"
+              targetId={mediaId}
+              mediaType={mediaType}
+              applied={appliedCoupon}
+              onAppliedChange={setAppliedCoupon}
+            />
+
+            {!appliedCoupon && (
+              <Button
+                onClick={handlePayWithWallet}
+                variant="outline"
+                className="w-full"
+                disabled={payingWithWallet || processingPayment || !checkSufficientBalance(rentalPrice)}
+              >
+                {payingWithWallet ? (
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                ) : (
+                  <Wallet className="mr-2 h-4 w-4" />
+                )}
+                Pay with Wallet (${balance.toFixed(2)})
+              </Button>
+            )}
+
             <Button
               onClick={handleConfirmRental}
               className="w-full bg-red-500 hover:bg-red-600"
-              disabled={processingPayment}
+              disabled={processingPayment || payingWithWallet}
             >
               {processingPayment ? (
                 <>
@@ -1,16 +1,20 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { useQuery } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
 import { useAuth } from "@/hooks/useAuth";
+import { useWallet } from "@/hooks/useWallet";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { Check, Crown, Loader2, X } from "lucide-react";
+import { ArrowLeft, Check, Crown, Loader2, Wallet, X } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { FunctionsHttpError } from "@supabase/supabase-js";
 import { BakongQRPayment } from "@/components/payment/BakongQRPayment";
+import { PromoCodeInput, AppliedCoupon } from "@/components/payment/PromoCodeInput";
 
 interface SubscriptionDialogProps {
   open: boolean;
@@ -23,6 +27,16 @@ export function SubscriptionDialog({ open, onOpenChange }: SubscriptionDialogPro
   const [selectedPlan, setSelectedPlan] = useState<any>(null);
   const [paymentData, setPaymentData] = useState<any>(null);
   const [showPayment, setShowPayment] = useState(false);
+  const [checkoutPlan, setCheckoutPlan] = useState<Tables<"subscription_plans"> | null>(null);
+  const [appliedCoupon, setAppliedCoupon] = useState<AppliedCoupon | null>(null);
+  const [processingPayment, setProcessingPayment] = useState(false);
+  const { balance, checkSufficientBalance, payWithWallet } = useWallet();
+  const [walletPaymentKey, setWalletPaymentKey] = useState(() => crypto.randomUUID());
+
+  // A fresh key per checkout; retries of the same checkout reuse it
+  useEffect(() => {
+    setWalletPaymentKey(crypto.randomUUID());
+  }, [checkoutPlan]);
   const [authMode, setAuthMode] = useState<"login" | "signup">("login");
   const [email, setEmail] = useState("");
   const [password, setPassword] = useState("");
@@ -92,26 +106,62 @@ export function SubscriptionDialog({ open, onOpenChange }: SubscriptionDialogPro
       return;
     }
 
+    setProcessingPayment(true);
     try {
       const { data, error } = await supabase.functions.invoke("create-subscription-payment", {
-        body: { planId: plan.id },
+        body: { planId: plan.id, couponCode: appliedCoupon?.code },
       });
 
       if (error) throw error;
 
       setSelectedPlan(plan);
+      setCheckoutPlan(null);
+      setAppliedCoupon(null);
+
+      if (data.completed) {
+        handlePaymentSuccess();
+        return;
+      }
+
       setPaymentData(data);
       setShowPayment(true);
     } catch (error) {
       console.error("Subscription error:", error);
+      const body = error instanceof FunctionsHttpError
+        ? await error.context.json().catch(() => null)
+        : null;
+      if (body?.code?.startsWith("COUPON_")) setAppliedCoupon(null);
       toast({
         title: "Error",
-        description: "Failed to create subscription. Please try again.",
+        description: body?.code?.startsWith("COUPON_")
+          ? body.error
+          : "Failed to create subscription. Please try again.",
         variant: "destructive",
       });
+    } finally {
+      setProcessingPayment(false);
+    }
+  };
+
+  const handlePayWithWallet = async (plan: Tables<"subscription_plans">) => {
+    setProcessingPayment(true);
+    try {
+      await payWithWallet("subscription", plan.id, walletPaymentKey);
+      setSelectedPlan(plan);
+      setCheckoutPlan(null);
+      handlePaymentSuccess();
+    } catch (error) {
+      console.error("Wallet payment error:", error);
+    } finally {
+      setProcessingPayment(false);
     }
   };
 
+  const handleSelectPlan = (plan: Tables<"subscription_plans">) => {
+    setCheckoutPlan(plan);
+    setAppliedCoupon(null);
+  };
+
   const handlePaymentSuccess = () => {
     refetchSubscription();
     setShowPayment(false);
@@ -236,57 +286,107 @@ export function SubscriptionDialog({ open, onOpenChange }: SubscriptionDialogPro
             </Card>
           ) : null}
 
-          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4 mt-6">
-            {plans?.map((plan) => {
-              const features = Array.isArray(plan.features) ? plan.features : [];
-              const isCurrentPlan = currentSubscription?.plan_id === plan.id;
-
-              return (
-                <Card
-                  key={plan.id}
-                  className={`relative ${isCurrentPlan ? "border-primary" : ""}`}
+          {checkoutPlan ? (
+            <div className="mx-auto mt-6 w-full max-w-md space-y-4">
+              <Button variant="ghost" size="sm" onClick={() => setCheckoutPlan(null)}>
+                <ArrowLeft className="w-4 h-4 mr-2" />
+                All plans
+              </Button>
+              <div className="space-y-3 rounded-lg bg-muted p-4">
+                <div className="flex items-center justify-between">
+                  <span className="font-semibold">{checkoutPlan.name}</span>
+                  <span className="text-sm text-muted-foreground">{checkoutPlan.duration_days} days</span>
+                </div>
+                <div className="flex items-center justify-between">
+                  <span className="text-sm text-muted-foreground">Total</span>
+                  <span className="text-2xl font-bold">
+                    {appliedCoupon && (
+                      <span className="mr-2 text-sm font-normal text-muted-foreground line-through">
+                        ${checkoutPlan.price}
+                      </span>
+                    )}
+                    ${appliedCoupon ? appliedCoupon.finalAmount.toFixed(2) : checkoutPlan.price}
+                  </span>
+                </div>
+              </div>
+              <PromoCodeInput
+                purpose="subscription"
+                targetId={checkoutPlan.id}
+                applied={appliedCoupon}
+                onAppliedChange={setAppliedCoupon}
+              />
+              <Button
+                className="w-full"
+                onClick={() => handleSubscribe(checkoutPlan)}
+                disabled={processingPayment}
+              >
+                {processingPayment ? <Loader2 className="w-4 h-4 animate-spin" /> : "Continue to Payment"}
+              </Button>
+              {!appliedCoupon && (
+                <Button
+                  variant="outline"
+                  className="w-full"
+                  onClick={() => handlePayWithWallet(checkoutPlan)}
+                  disabled={processingPayment || !checkSufficientBalance(Number(checkoutPlan.price))}
                 >
-                  {isCurrentPlan && (
-                    <div className="absolute -top-3 left-1/2 transform -translate-x-1/2">
-                      <div className="bg-primary text-primary-foreground px-3 py-1 rounded-full text-xs">
-                        Current
+                  <Wallet className="w-4 h-4 mr-2" />
+                  Pay with Wallet (${balance.toFixed(2)})
+                </Button>
+              )}
+            </div>
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4 mt-6">
+              {plans?.map((plan) => {
+                const features = Array.isArray(plan.features) ? plan.features : [];
+                const isCurrentPlan = currentSubscription?.plan_id === plan.id;
+
+                return (
+                  <Card
+                    key={plan.id}
+                    className={`relative ${isCurrentPlan ? "border-primary" : ""}`}
+                  >
+                    {isCurrentPlan && (
+                      <div className="absolute -top-3 left-1/2 transform -translate-x-1/2">
+                        <div className="bg-primary text-primary-foreground px-3 py-1 rounded-full text-xs">
+                          Current
+                        </div>
                       </div>
-                    </div>
-                  )}
-                  <CardHeader>
-                    <CardTitle className="text-base">{plan.name}</CardTitle>
-                    <CardDescription className="text-xs">{plan.description}</CardDescription>
-                  </CardHeader>
-                  <CardContent className="space-y-4">
-                    <div>
-                      <div className="text-3xl font-bold">${plan.price}</div>
-                      <div className="text-xs text-muted-foreground">
-                        {plan.duration_days} days
+                    )}
+                    <CardHeader>
+                      <CardTitle className="text-base">{plan.name}</CardTitle>
+                      <CardDescription className="text-xs">{plan.description}</CardDescription>
+                    </CardHeader>
+                    <CardContent className="space-y-4">
+                      <div>
+                        <div className="text-3xl font-bold">${plan.price}</div>
+                        <div className="text-xs text-muted-foreground">
+                          {plan.duration_days} days
+                        </div>
                       </div>
-                    </div>
 
-                    <ul className="space-y-2">
-                      {features.slice(0, 3).map((feature: string, index: number) => (
-                        <li key={index} className="flex items-start gap-2">
-                          <Check className="w-4 h-4 text-primary flex-shrink-0 mt-0.5" />
-                          <span className="text-xs">{feature}</span>
-                        </li>
-                      ))}
-                    </ul>
+                      <ul className="space-y-2">
+                        {features.slice(0, 3).map((feature: string, index: number) => (
+                          <li key={index} className="flex items-start gap-2">
+                            <Check className="w-4 h-4 text-primary flex-shrink-0 mt-0.5" />
+                            <span className="text-xs">{feature}</span>
+                          </li>
+                        ))}
+                      </ul>
 
-                    <Button
-                      onClick={() => handleSubscribe(plan)}
-                      disabled={isCurrentPlan || !user}
-                      className="w-full"
-                      size="sm"
-                    >
-                      {isCurrentPlan ? "Current" : user ? "Subscribe" : "Login First"}
-                    </Button>
-                  </CardContent>
-                </Card>
-              );
-            })}
-          </div>
+                      <Button
+                        onClick={() => handleSelectPlan(plan)}
+                        disabled={isCurrentPlan || !user}
+                        className="w-full"
+                        size="sm"
+                      >
+                        {isCurrentPlan ? "Current" : user ? "Subscribe" : "Login First"}
+                      </Button>
+                    </CardContent>
+                  </Card>
+                );
+              })}
+            </div>
+          )}
         </DialogContent>
       </Dialog>
 
@@ -296,7 +396,7 @@ export function SubscriptionDialog({ open, onOpenChange }: SubscriptionDialogPro
           onOpenChange={setShowPayment}
           transactionId={paymentData.transactionId}
           qrData={paymentData.qrData}
-          amount={selectedPlan?.price || 0}
+          amount={paymentData.amount ?? selectedPlan?.price ?? 0}
           onSuccess={handlePaymentSuccess}
           verificationType="subscription"
         />
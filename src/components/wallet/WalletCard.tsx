@@ -7,7 +7,7 @@ import { TopupDialog } from './TopupDialog';
 import { TransactionsDialog } from './TransactionsDialog';
 
 export const WalletCard = () => {
-  const { balance, loading } = useWallet();
+  const { balance, loading, refreshWallet } = useWallet();
   const [showTopup, setShowTopup] = useState(false);
   const [showTransactions, setShowTransactions] = useState(false);
 
@@ -46,7 +46,7 @@ export const WalletCard = () => {
         </CardContent>
       </Card>
 
-      <TopupDialog open={showTopup} onOpenChange={setShowTopup} />
+      <TopupDialog open={showTopup} onOpenChange={setShowTopup} onSuccess={refreshWallet} />
       <TransactionsDialog open={showTransactions} onOpenChange={setShowTransactions} />
     </>
   );
@@ -21,6 +21,7 @@ import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { useToast } from "@/hooks/use-toast";
 import { useIsMobile } from "@/hooks/use-mobile";
 import { supabase } from "@/integrations/supabase/client";
+import { useViewerProfiles } from "@/hooks/useViewerProfiles";
 
 interface ActionButtonsProps {
   contentId?: string;
@@ -33,6 +34,9 @@ interface ActionButtonsProps {
 export const ActionButtons = ({ contentId, contentType, episodeId, userId, contentTitle }: ActionButtonsProps) => {
   const { toast } = useToast();
   const isMobile = useIsMobile();
+  // Likes and the watchlist belong to the viewer profile, not the whole account
+  const { activeProfile } = useViewerProfiles();
+  const profileId = activeProfile?.id;
   const [liked, setLiked] = useState(false);
   const [disliked, setDisliked] = useState(false);
   const [saved, setSaved] = useState(false);
@@ -45,22 +49,20 @@ export const ActionButtons = ({ contentId, contentType, episodeId, userId, conte
 
   // Fetch initial like/dislike state and counts
   useEffect(() => {
-    if (!contentId || !userId) return;
+    if (!contentId || !userId || !profileId) return;
     
     const fetchLikeData = async () => {
       // Get user's like status
       const { data: userLike } = await supabase
         .from('user_likes')
         .select('like_type')
-        .eq('user_id', userId)
+        .eq('profile_id', profileId)
         .eq('media_id', contentId)
         .eq('media_type', contentType || 'movie')
         .maybeSingle();
       
-      if (userLike) {
-        setLiked(userLike.like_type === 'like');
-        setDisliked(userLike.like_type === 'dislike');
-      }
+      setLiked(userLike?.like_type === 'like');
+      setDisliked(userLike?.like_type === 'dislike');
 
       // Get total counts
       const { data: likes } = await supabase
@@ -76,17 +78,17 @@ export const ActionButtons = ({ contentId, contentType, episodeId, userId, conte
     };
 
     fetchLikeData();
-  }, [contentId, userId, contentType]);
+  }, [contentId, userId, profileId, contentType]);
 
   // Fetch watchlist status
   useEffect(() => {
-    if (!contentId || !userId) return;
+    if (!contentId || !userId || !profileId) return;
     
     const fetchWatchlistStatus = async () => {
       const { data } = await supabase
         .from('user_watchlist')
         .select('id')
-        .eq('user_id', userId)
+        .eq('profile_id', profileId)
         .eq('media_id', contentId)
         .eq('media_type', contentType || 'movie')
         .maybeSingle();
@@ -95,7 +97,7 @@ export const ActionButtons = ({ contentId, contentType, episodeId, userId, conte
     };
 
     fetchWatchlistStatus();
-  }, [contentId, userId, contentType]);
+  }, [contentId, userId, profileId, contentType]);
 
   const handleLike = async () => {
     if (!userId) {
@@ -106,6 +108,7 @@ export const ActionButtons = ({ contentId, contentType, episodeId, userId, conte
       });
       return;
     }
+    if (!profileId) return;
     
     setLoading(true);
     try {
@@ -114,7 +117,7 @@ export const ActionButtons = ({ contentId, contentType, episodeId, userId, conte
         await supabase
           .from('user_likes')
           .delete()
-          .eq('user_id', userId)
+          .eq('profile_id', profileId)
           .eq('media_id', contentId!)
           .eq('media_type', contentType || 'movie');
         
@@ -126,11 +129,12 @@ export const ActionButtons = ({ contentId, contentType, episodeId, userId, conte
           .from('user_likes')
           .upsert({
             user_id: userId,
+            profile_id: profileId,
             media_id: contentId!,
             media_type: contentType || 'movie',
             like_type: 'like'
           }, {
-            onConflict: 'user_id,media_id,media_type'
+            onConflict: 'profile_id,media_id,media_type'
           });
         
         if (disliked) {
@@ -161,6 +165,7 @@ export const ActionButtons = ({ contentId, contentType, episodeId, userId, conte
       });
       return;
     }
+    if (!profileId) return;
     
     setLoading(true);
     try {
@@ -169,7 +174,7 @@ export const ActionButtons = ({ contentId, contentType, episodeId, userId, conte
         await supabase
           .from('user_likes')
           .delete()
-          .eq('user_id', userId)
+          .eq('profile_id', profileId)
           .eq('media_id', contentId!)
           .eq('media_type', contentType || 'movie');
         
@@ -181,11 +186,12 @@ export const ActionButtons = ({ contentId, contentType, episodeId, userId, conte
           .from('user_likes')
           .upsert({
             user_id: userId,
+            profile_id: profileId,
             media_id: contentId!,
             media_type: contentType || 'movie',
             like_type: 'dislike'
           }, {
-            onConflict: 'user_id,media_id,media_type'
+            onConflict: 'profile_id,media_id,media_type'
           });
         
         if (liked) {
@@ -239,6 +245,7 @@ export const ActionButtons = ({ contentId, contentType, episodeId, userId, conte
       });
       return;
     }
+    if (!profileId) return;
     
     setLoading(true);
     try {
@@ -247,7 +254,7 @@ export const ActionButtons = ({ contentId, contentType, episodeId, userId, conte
         await supabase
           .from('user_watchlist')
           .delete()
-          .eq('user_id', userId)
+          .eq('profile_id', profileId)
           .eq('media_id', contentId!)
           .eq('media_type', contentType || 'movie');
         
@@ -262,6 +269,7 @@ export const ActionButtons = ({ contentId, contentType, episodeId, userId, conte
           .from('user_watchlist')
           .insert({
             user_id: userId,
+            profile_id: profileId,
             media_id: contentId!,
             media_type: contentType || 'movie'
           });
@@ -0,0 +1,175 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+import { AdBreak, AdBreakPosition, isFrequencyCapped, recordFrequencyImpression } from '@/lib/adSchedule';
+import {
+  AdCreative,
+  AdTrackingEvent,
+  fetchVastCreatives,
+  fetchVmapBreaks,
+  firePixels,
+  resolveVastCreatives,
+} from '@/lib/vast';
+import { AdEventType, recordAdEvent } from './useAdEvents';
+import { useAuth } from './useAuth';
+
+type AdBreakRow = Database['public']['Tables']['ad_breaks']['Row'];
+
+interface AdBreakTarget {
+  mediaId?: string;
+  mediaType?: 'movie' | 'series' | 'anime';
+  enabled?: boolean;
+}
+
+// Subscribers whose plan is ad-free see no breaks at all
+const hasAdFreePlan = async (userId: string) => {
+  const { data, error } = await supabase
+    .from('user_subscriptions')
+    .select('subscription_plans(ad_free)')
+    .eq('user_id', userId)
+    .eq('is_active', true)
+    .gte('end_date', new Date().toISOString());
+  if (error) throw error;
+  return (data ?? []).some((sub) => sub.subscription_plans?.ad_free);
+};
+
+// A VMAP row stands for every break in its document; one that fails to load is dropped, not fatal
+const expandBreaks = async (rows: AdBreakRow[]): Promise<AdBreak[]> => {
+  const expanded = await Promise.all(
+    rows.map(async (row): Promise<AdBreak[]> => {
+      if (row.source !== 'vmap') {
+        return [{
+          key: row.id,
+          position: row.position as AdBreakPosition,
+          offsetSeconds: row.offset_seconds,
+          offsetPercent: null,
+          podSize: row.pod_size,
+          tagUrl: row.source === 'vast' ? row.tag_url : null,
+          vastXml: null,
+        }];
+      }
+      try {
+        const vmapBreaks = await fetchVmapBreaks(row.tag_url!);
+        return vmapBreaks.map((vmapBreak) => ({
+          key: `${row.id}:${vmapBreak.id}`,
+          position: vmapBreak.position,
+          offsetSeconds: vmapBreak.offsetSeconds,
+          offsetPercent: vmapBreak.offsetPercent,
+          podSize: row.pod_size,
+          tagUrl: vmapBreak.tagUrl,
+          vastXml: vmapBreak.vastXml,
+        }));
+      } catch (error) {
+        console.warn('Failed to load VMAP schedule:', error);
+        return [];
+      }
+    })
+  );
+  return expanded.flat();
+};
+
+// Titles with breaks of their own use only those; the rest get the site-wide default schedule
+export const useAdBreaks = ({ mediaId, mediaType, enabled = true }: AdBreakTarget) => {
+  const { user, loading: authLoading } = useAuth();
+
+  return useQuery({
+    queryKey: ['ad-breaks', mediaType ?? null, mediaId ?? null, user?.id ?? null],
+    enabled: enabled && !authLoading,
+    staleTime: 5 * 60 * 1000,
+    queryFn: async (): Promise<AdBreak[]> => {
+      if (user && (await hasAdFreePlan(user.id))) return [];
+
+      let query = supabase.from('ad_breaks').select('*').eq('is_active', true);
+      query = mediaId && mediaType
+        ? query.or(`media_id.is.null,and(media_type.eq.${mediaType},media_id.eq.${mediaId})`)
+        : query.is('media_id', null);
+
+      const { data, error } = await query;
+      if (error) throw error;
+      const own = data.filter((row) => row.media_id);
+      return expandBreaks(own.length > 0 ? own : data);
+    },
+  });
+};
+
+const shuffle = <T,>(items: T[]) => {
+  const copy = [...items];
+  for (let i = copy.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [copy[i], copy[j]] = [copy[j], copy[i]];
+  }
+  return copy;
+};
+
+// Inventory pods take active video ads in random order, skipping capped ones. An ad that is a VAST
+// tag can fill several slots if its response is a pod.
+const loadInventoryPod = async (podSize: number, userId: string | null) => {
+  const now = new Date().toISOString();
+  const { data, error } = await supabase
+    .from('ads')
+    .select('*')
+    .eq('is_active', true)
+    .eq('ad_type', 'video')
+    .in('video_type', ['video', 'vast'])
+    .lte('start_date', now)
+    .or(`end_date.is.null,end_date.gte.${now}`);
+  if (error) throw error;
+
+  const pod: AdCreative[] = [];
+  for (const ad of shuffle(data.filter((ad) => !isFrequencyCapped(ad, userId)))) {
+    if (pod.length >= podSize) break;
+
+    if (ad.video_type === 'vast') {
+      if (!ad.vast_tag_url) continue;
+      try {
+        const creatives = await fetchVastCreatives(ad.vast_tag_url, podSize - pod.length);
+        pod.push(...creatives.map((creative) => ({ ...creative, inventoryAdId: ad.id })));
+      } catch (vastError) {
+        console.warn(`VAST tag of ad ${ad.id} failed:`, vastError);
+      }
+    } else if (ad.video_url) {
+      pod.push({
+        title: ad.title,
+        description: ad.description,
+        mediaUrl: ad.video_url,
+        duration: null,
+        skipOffset: ad.skip_after_seconds ?? 5,
+        clickThrough: ad.link_url,
+        autoPlay: ad.auto_play ?? true,
+        tracking: {},
+        inventoryAdId: ad.id,
+      });
+    }
+  }
+  return pod;
+};
+
+export const loadAdPod = (adBreak: AdBreak, userId: string | null): Promise<AdCreative[]> => {
+  if (adBreak.vastXml) return resolveVastCreatives(adBreak.vastXml, adBreak.podSize);
+  if (adBreak.tagUrl) return fetchVastCreatives(adBreak.tagUrl, adBreak.podSize);
+  return loadInventoryPod(adBreak.podSize, userId);
+};
+
+const RECORDED_EVENTS: Partial<Record<AdTrackingEvent, AdEventType>> = {
+  impression: 'impression',
+  click: 'click',
+  skip: 'skip',
+  complete: 'complete',
+};
+
+// Third-party pixels go out for every event; inventory ads also log their impressions, clicks, skips
+// and completions, and impressions count against their frequency caps
+export const reportAdEvent = (
+  creative: AdCreative,
+  event: AdTrackingEvent,
+  userId: string | null,
+  placement: AdBreakPosition,
+  macros: { errorCode?: number } = {}
+) => {
+  firePixels(creative.tracking[event], macros);
+  if (!creative.inventoryAdId) return;
+
+  if (event === 'impression') recordFrequencyImpression(creative.inventoryAdId, userId);
+  const recorded = RECORDED_EVENTS[event];
+  if (recorded) recordAdEvent(creative.inventoryAdId, recorded, placement);
+};
@@ -0,0 +1,48 @@
+import { supabase } from '@/integrations/supabase/client';
+
+export type AdEventType = 'impression' | 'click' | 'skip' | 'complete';
+export type AdEventDevice = 'desktop' | 'mobile' | 'tablet' | 'app';
+
+const SESSION_ID_KEY = 'ad-session-id';
+
+// Kept in memory too, for browsers that refuse sessionStorage (private modes, sandboxed iframes)
+let memorySessionId: string | null = null;
+
+// One id per browser tab session; the server counts each event once per ad within it
+const getAdSessionId = () => {
+  try {
+    let id = sessionStorage.getItem(SESSION_ID_KEY);
+    if (!id) {
+      id = crypto.randomUUID();
+      sessionStorage.setItem(SESSION_ID_KEY, id);
+    }
+    return id;
+  } catch {
+    memorySessionId ??= crypto.randomUUID();
+    return memorySessionId;
+  }
+};
+
+export const getAdDevice = (): AdEventDevice => {
+  const capacitor = (window as { Capacitor?: { isNativePlatform?: () => boolean } }).Capacitor;
+  if (capacitor?.isNativePlatform?.()) return 'app';
+
+  const userAgent = navigator.userAgent.toLowerCase();
+  if (/ipad|tablet|playbook|silk/.test(userAgent) || (/android/.test(userAgent) && !/mobile/.test(userAgent))) {
+    return 'tablet';
+  }
+  if (/mobi|iphone|ipod|android/.test(userAgent)) return 'mobile';
+  return 'desktop';
+};
+
+// Fire-and-forget: a lost event must never get in the way of the ad or the video
+export const recordAdEvent = async (adId: string, eventType: AdEventType, placement: string) => {
+  const { error } = await supabase.rpc('record_ad_event', {
+    _ad_id: adId,
+    _event_type: eventType,
+    _session_id: getAdSessionId(),
+    _device: getAdDevice(),
+    _placement: placement,
+  });
+  if (error) console.warn(`Failed to record ad ${eventType}:`, error);
+};
@@ -0,0 +1,94 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { Database, Json } from '@/integrations/supabase/types';
+
+export type AuditEntry = Database['public']['Tables']['audit_log']['Row'] & {
+  actorEmail: string;
+};
+
+export interface AuditFilters {
+  actorId?: string;
+  tableName?: string;
+  recordId?: string;
+  // Everything touching one account: its subscriptions, rentals, wallet and roles
+  userId?: string;
+  page?: number;
+}
+
+export interface AuditChange {
+  field: string;
+  before: Json | undefined;
+  after: Json | undefined;
+}
+
+export const AUDIT_PAGE_SIZE = 50;
+
+export const AUDIT_TABLE_LABELS: Record<string, string> = {
+  movies: 'Movies',
+  series: 'Series',
+  animes: 'Animes',
+  seasons: 'Seasons',
+  episodes: 'Episodes',
+  video_sources: 'Video sources',
+  collections: 'Collections',
+  collection_items: 'Collection items',
+  featured_content: 'Featured content',
+  upcoming_releases: 'Upcoming releases',
+  subscription_plans: 'Subscription plans',
+  coupons: 'Coupons',
+  user_subscriptions: 'User subscriptions',
+  user_rentals: 'User rentals',
+  user_wallets: 'Wallets',
+  wallet_transactions: 'Wallet transactions',
+  user_roles: 'User roles',
+  role_permissions: 'Role permissions',
+  comments: 'Comments',
+};
+
+const asObject = (value: Json | null): Record<string, Json | undefined> =>
+  value && typeof value === 'object' && !Array.isArray(value) ? value : {};
+
+// Field-level diff of one entry. Updates only store the changed columns, inserts and deletes the whole row.
+export const auditChanges = (entry: Pick<AuditEntry, 'old_data' | 'new_data'>): AuditChange[] => {
+  const before = asObject(entry.old_data);
+  const after = asObject(entry.new_data);
+  return [...new Set([...Object.keys(before), ...Object.keys(after)])]
+    .sort()
+    .map((field) => ({ field, before: before[field], after: after[field] }));
+};
+
+export const useAuditLog = ({ actorId, tableName, recordId, userId, page = 0 }: AuditFilters) =>
+  useQuery({
+    queryKey: ['audit-log', actorId ?? null, tableName ?? null, recordId ?? null, userId ?? null, page],
+    queryFn: async () => {
+      let query = supabase
+        .from('audit_log')
+        .select('*', { count: 'exact' })
+        .order('created_at', { ascending: false })
+        .range(page * AUDIT_PAGE_SIZE, (page + 1) * AUDIT_PAGE_SIZE - 1);
+      if (actorId) query = query.eq('actor_id', actorId);
+      if (tableName) query = query.eq('table_name', tableName);
+      if (recordId) query = query.eq('record_id', recordId);
+      if (userId) query = query.eq('user_id', userId);
+
+      const { data, error, count } = await query;
+      if (error) throw error;
+
+      const actorIds = [...new Set(data.flatMap((entry) => (entry.actor_id ? [entry.actor_id] : [])))];
+      const emails = new Map<string, string>();
+      if (actorIds.length > 0) {
+        const { data: profiles, error: profilesError } = await supabase
+          .from('profiles')
+          .select('id, email')
+          .in('id', actorIds);
+        if (profilesError) throw profilesError;
+        profiles.forEach((profile) => emails.set(profile.id, profile.email));
+      }
+
+      const entries: AuditEntry[] = data.map((entry) => ({
+        ...entry,
+        actorEmail: entry.actor_id ? emails.get(entry.actor_id) ?? 'Deleted user' : 'System',
+      }));
+      return { entries, count: count ?? 0 };
+    },
+  });
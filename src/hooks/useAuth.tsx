@@ -2,14 +2,41 @@ import { createContext, useContext, useEffect, useState } from 'react';
 import { User, Session } from '@supabase/supabase-js';
 import { supabase } from '@/integrations/supabase/client';
 import { useNavigate } from 'react-router-dom';
+import { AppRole, Permission, permissionsFor } from '@/lib/permissions';
+
+export type SocialProvider = 'google' | 'facebook';
+
+// Payload the Telegram login widget passes to its callback; telegram-auth checks the hash
+export interface TelegramAuthUser {
+  id: number;
+  first_name?: string;
+  last_name?: string;
+  username?: string;
+  photo_url?: string;
+  auth_date: number;
+  hash: string;
+}
+
+type AuthResult = Promise<{ error: Error | null }>;
 
 interface AuthContextType {
   user: User | null;
   session: Session | null;
   isAdmin: boolean;
+  // Staff capabilities from the user's roles; every permission for admins
+  permissions: Permission[];
+  hasPermission: (permission: Permission) => boolean;
   loading: boolean;
   signIn: (email: string, password: string) => Promise<{ error: any }>;
   signUp: (email: string, password: string) => Promise<{ error: any }>;
+  signInWithProvider: (provider: SocialProvider) => AuthResult;
+  signInWithTelegram: (telegram: TelegramAuthUser) => AuthResult;
+  // Emails a sign-in link that also carries a 6 digit code for verifyEmailCode
+  sendMagicLink: (email: string) => AuthResult;
+  verifyEmailCode: (email: string, code: string) => AuthResult;
+  resendVerification: (email: string) => AuthResult;
+  sendPasswordReset: (email: string) => AuthResult;
+  updatePassword: (password: string) => AuthResult;
   signOut: () => Promise<void>;
 }
 
@@ -19,6 +46,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
   const [user, setUser] = useState<User | null>(null);
   const [session, setSession] = useState<Session | null>(null);
   const [isAdmin, setIsAdmin] = useState(false);
+  const [permissions, setPermissions] = useState<Permission[]>([]);
   const [loading, setLoading] = useState(true);
   const navigate = useNavigate();
 
@@ -29,24 +57,26 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
         setSession(session);
         setUser(session?.user ?? null);
         
-        // Check admin role after state update
+        // Check roles after state update
         if (session?.user) {
           setTimeout(() => {
-            checkAdminRole(session.user.id);
+            loadRoles(session.user.id);
           }, 0);
         } else {
           setIsAdmin(false);
+          setPermissions([]);
         }
       }
     );
 
     // THEN check for existing session
-    supabase.auth.getSession().then(({ data: { session } }) => {
+    supabase.auth.getSession().then(async ({ data: { session } }) => {
       setSession(session);
       setUser(session?.user ?? null);
       
+      // Routes guarded by a role must not render before the roles are known
       if (session?.user) {
-        checkAdminRole(session.user.id);
+        await loadRoles(session.user.id);
       }
       setLoading(false);
     });
@@ -54,23 +84,40 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     return () => subscription.unsubscribe();
   }, []);
 
-  const checkAdminRole = async (userId: string) => {
+  const loadRoles = async (userId: string) => {
     try {
-      const { data, error } = await supabase
-        .from('user_roles')
-        .select('role')
-        .eq('user_id', userId)
-        .eq('role', 'admin')
-        .maybeSingle();
-
-      if (!error && data) {
-        setIsAdmin(true);
-      } else {
-        setIsAdmin(false);
-      }
+      const [{ data: roles, error }, { data: grants, error: grantsError }] = await Promise.all([
+        supabase.from('user_roles').select('role').eq('user_id', userId),
+        supabase.from('role_permissions').select('role, permission'),
+      ]);
+      if (error) throw error;
+      if (grantsError) throw grantsError;
+
+      const userRoles = roles.map((row) => row.role as AppRole);
+      setIsAdmin(userRoles.includes('admin'));
+      setPermissions(permissionsFor(userRoles, grants));
     } catch (error) {
-      console.error('Error checking admin role:', error);
+      console.error('Error checking roles:', error);
       setIsAdmin(false);
+      setPermissions([]);
+    }
+  };
+
+  const hasPermission = (permission: Permission) => permissions.includes(permission);
+
+  // Staff land on the admin dashboard
+  const navigateAfterSignIn = async () => {
+    const { data } = await supabase
+      .from('user_roles')
+      .select('role')
+      .eq('user_id', (await supabase.auth.getUser()).data.user?.id)
+      .neq('role', 'user')
+      .limit(1);
+
+    if (data && data.length > 0) {
+      navigate('/admin');
+    } else {
+      navigate('/');
     }
   };
 
@@ -81,19 +128,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     });
     
     if (!error) {
-      // Check if user is admin to determine redirect
-      const { data } = await supabase
-        .from('user_roles')
-        .select('role')
-        .eq('user_id', (await supabase.auth.getUser()).data.user?.id)
-        .eq('role', 'admin')
-        .maybeSingle();
-      
-      if (data) {
-        navigate('/admin');
-      } else {
-        navigate('/');
-      }
+      await navigateAfterSignIn();
     }
     
     return { error };
@@ -113,14 +148,100 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     return { error };
   };
 
+  // Supabase links a provider identity to an existing account with the same verified email,
+  // so signing in with Google/Facebook never creates a second profile for a known address
+  const signInWithProvider = async (provider: SocialProvider) => {
+    const { error } = await supabase.auth.signInWithOAuth({
+      provider,
+      options: { redirectTo: `${window.location.origin}/` },
+    });
+    return { error };
+  };
+
+  const signInWithTelegram = async (telegram: TelegramAuthUser) => {
+    const { data, error } = await supabase.functions.invoke('telegram-auth', {
+      body: { action: 'login', telegram },
+    });
+    if (error) return { error };
+    if (data?.error) return { error: new Error(data.error) };
+
+    const { error: verifyError } = await supabase.auth.verifyOtp({ token_hash: data.tokenHash, type: 'email' });
+    if (!verifyError) {
+      await navigateAfterSignIn();
+    }
+    return { error: verifyError };
+  };
+
+  // Sign-in only: unknown addresses have to go through sign up so they pick a password
+  const sendMagicLink = async (email: string) => {
+    const { error } = await supabase.auth.signInWithOtp({
+      email,
+      options: {
+        shouldCreateUser: false,
+        emailRedirectTo: `${window.location.origin}/`,
+      },
+    });
+    return { error };
+  };
+
+  const verifyEmailCode = async (email: string, code: string) => {
+    const { error } = await supabase.auth.verifyOtp({ email, token: code, type: 'email' });
+    if (!error) {
+      await navigateAfterSignIn();
+    }
+    return { error };
+  };
+
+  const resendVerification = async (email: string) => {
+    const { error } = await supabase.auth.resend({
+      type: 'signup',
+      email,
+      options: { emailRedirectTo: `${window.location.origin}/` },
+    });
+    return { error };
+  };
+
+  const sendPasswordReset = async (email: string) => {
+    const { error } = await supabase.auth.resetPasswordForEmail(email, {
+      redirectTo: `${window.location.origin}/auth/reset`,
+    });
+    return { error };
+  };
+
+  // Works for the recovery session opened by the reset link as well as a normal one
+  const updatePassword = async (password: string) => {
+    const { error } = await supabase.auth.updateUser({ password });
+    return { error };
+  };
+
   const signOut = async () => {
     await supabase.auth.signOut();
     setIsAdmin(false);
+    setPermissions([]);
     navigate('/auth');
   };
 
   return (
-    <AuthContext.Provider value={{ user, session, isAdmin, loading, signIn, signUp, signOut }}>
+    <AuthContext.Provider
+      value={{
+        user,
+        session,
+        isAdmin,
+        permissions,
+        hasPermission,
+        loading,
+        signIn,
+        signUp,
+        signInWithProvider,
+        signInWithTelegram,
+        sendMagicLink,
+        verifyEmailCode,
+        resendVerification,
+        sendPasswordReset,
+        updatePassword,
+        signOut,
+      }}
+    >
       {children}
     </AuthContext.Provider>
   );
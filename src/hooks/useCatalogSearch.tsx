@@ -0,0 +1,134 @@
+import { useEffect, useState } from 'react';
+import { keepPreviousData, useInfiniteQuery, useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+
+export type SearchResult = Database['public']['Functions']['search_catalog']['Returns'][number];
+
+export type SearchKind = 'movie' | 'series' | 'anime' | 'person' | 'voice_actor' | 'collection';
+
+export interface SearchFilters {
+  kinds?: SearchKind[];
+  genre?: string;
+  year?: number;
+  access?: string;
+  language?: string;
+}
+
+export interface SearchFacets {
+  kind: Record<string, number>;
+  genre: Record<string, number>;
+  year: Record<string, number>;
+  access: Record<string, number>;
+  language: Record<string, number>;
+}
+
+// The server ignores anything shorter than this
+export const MIN_SEARCH_LENGTH = 2;
+
+export const SEARCH_KIND_LABELS: Record<SearchKind, string> = {
+  movie: 'Movies',
+  series: 'Series',
+  anime: 'Anime',
+  person: 'Cast',
+  voice_actor: 'Voice Actors',
+  collection: 'Collections',
+};
+
+const TITLE_KINDS = ['movie', 'series', 'anime'];
+
+export const isTitleResult = (result: SearchResult) => TITLE_KINDS.includes(result.kind);
+
+// Same routes MediaCard uses; people open the title they are linked to
+export const getSearchResultPath = (result: SearchResult) => {
+  if (result.kind === 'collection') return `/collections/${result.id}`;
+
+  const kind = isTitleResult(result) ? result.kind : result.link_kind;
+  const id = isTitleResult(result) ? result.id : result.link_id;
+  const tmdbId = isTitleResult(result) ? result.tmdb_id : result.link_tmdb_id;
+
+  if (!kind || !id) return `/search?q=${encodeURIComponent(result.title)}`;
+  // Watch pages accept the row id for titles that were never matched on TMDB
+  const routeId = tmdbId || id;
+  if (kind === 'movie') return `/watch/movie/${routeId}`;
+  if (kind === 'series') return `/watch/series/${routeId}/1/1`;
+  return `/anime/${routeId}`;
+};
+
+export const useDebouncedValue = <T,>(value: T, delay = 250) => {
+  const [debounced, setDebounced] = useState(value);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebounced(value), delay);
+    return () => clearTimeout(timer);
+  }, [value, delay]);
+
+  return debounced;
+};
+
+const fetchSearchPage = async (query: string, filters: SearchFilters, limit: number, offset: number) => {
+  const { data, error } = await supabase.rpc('search_catalog', {
+    _query: query,
+    _kinds: filters.kinds?.length ? filters.kinds : undefined,
+    _genre: filters.genre,
+    _year: filters.year,
+    _access: filters.access,
+    _language: filters.language,
+    _limit: limit,
+    _offset: offset,
+  });
+
+  if (error) throw error;
+  return data ?? [];
+};
+
+// Typeahead suggestions for the header search box
+export const useSearchSuggestions = (query: string, limit = 8) => {
+  const term = useDebouncedValue(query.trim());
+
+  return useQuery({
+    queryKey: ['search-suggestions', term, limit],
+    queryFn: () => fetchSearchPage(term, {}, limit, 0),
+    enabled: term.length >= MIN_SEARCH_LENGTH,
+    placeholderData: keepPreviousData,
+    staleTime: 60_000,
+  });
+};
+
+export const useCatalogSearch = (query: string, filters: SearchFilters, pageSize = 24) => {
+  const term = query.trim();
+
+  return useInfiniteQuery({
+    queryKey: ['catalog-search', term, filters, pageSize],
+    queryFn: ({ pageParam }) => fetchSearchPage(term, filters, pageSize, pageParam),
+    initialPageParam: 0,
+    getNextPageParam: (lastPage, allPages) => {
+      const loaded = allPages.reduce((count, page) => count + page.length, 0);
+      const total = lastPage[0]?.total_count ?? 0;
+      return loaded < total ? loaded : undefined;
+    },
+    enabled: term.length >= MIN_SEARCH_LENGTH,
+    staleTime: 60_000,
+  });
+};
+
+export const useSearchFacets = (query: string) => {
+  const term = query.trim();
+
+  return useQuery({
+    queryKey: ['catalog-search-facets', term],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('search_catalog_facets', { _query: term });
+      if (error) throw error;
+
+      const facets: SearchFacets = { kind: {}, genre: {}, year: {}, access: {}, language: {} };
+      for (const row of data ?? []) {
+        const bucket = facets[row.facet as keyof SearchFacets];
+        if (bucket) bucket[row.value] = row.hits;
+      }
+      return facets;
+    },
+    enabled: term.length >= MIN_SEARCH_LENGTH,
+    staleTime: 60_000,
+  });
+};
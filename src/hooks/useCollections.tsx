@@ -0,0 +1,96 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+import { useAuth } from './useAuth';
+
+export type Collection = Database['public']['Tables']['collections']['Row'];
+export type CollectionEntry = Database['public']['Views']['collection_entries']['Row'];
+
+export interface CollectionWithEntries extends Collection {
+  entries: CollectionEntry[];
+}
+
+export interface CollectionProgress {
+  watched: Set<string>;
+  started: Set<string>;
+}
+
+// "release" follows release year (then the order items were added); "custom" uses the admin's order_index
+export const sortCollectionEntries = (entries: CollectionEntry[], sortMode: string) =>
+  [...entries].sort((a, b) => {
+    const primary = sortMode === 'custom'
+      ? (a.order_index ?? Number.MAX_SAFE_INTEGER) - (b.order_index ?? Number.MAX_SAFE_INTEGER)
+      : (a.release_year ?? Number.MAX_SAFE_INTEGER) - (b.release_year ?? Number.MAX_SAFE_INTEGER);
+    return primary || (a.created_at ?? '').localeCompare(b.created_at ?? '');
+  });
+
+const fetchCollections = async (filter: { id?: string; homeOnly?: boolean }) => {
+  let query = supabase.from('collections').select('*');
+  if (filter.id) query = query.eq('id', filter.id);
+  if (filter.homeOnly) query = query.eq('show_on_home', true).order('home_order');
+  else query = query.order('name');
+
+  const { data: collections, error } = await query;
+  if (error) throw error;
+  if (!collections.length) return [];
+
+  const { data: entries, error: entriesError } = await supabase
+    .from('collection_entries')
+    .select('*')
+    .in('collection_id', collections.map((c) => c.id));
+  if (entriesError) throw entriesError;
+
+  return collections.map((collection): CollectionWithEntries => ({
+    ...collection,
+    entries: sortCollectionEntries(
+      (entries || []).filter((e) => e.collection_id === collection.id),
+      collection.sort_mode
+    ),
+  }));
+};
+
+export const useCollections = () =>
+  useQuery({
+    queryKey: ['public-collections'],
+    queryFn: async () => (await fetchCollections({})).filter((c) => c.entries.length > 0),
+  });
+
+export const useCollection = (id: string | undefined) =>
+  useQuery({
+    queryKey: ['public-collections', id],
+    enabled: !!id,
+    queryFn: async () => (await fetchCollections({ id }))[0] ?? null,
+  });
+
+export const useHomeCollections = () =>
+  useQuery({
+    queryKey: ['public-collections', 'home'],
+    queryFn: async () => (await fetchCollections({ homeOnly: true })).filter((c) => c.entries.length > 0),
+  });
+
+// Per-collection sets of media ids the signed-in user has finished or started
+export const useCollectionProgress = (collectionIds: string[]) => {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: ['collection-progress', user?.id, collectionIds],
+    enabled: !!user && collectionIds.length > 0,
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('collection_progress', { _collection_ids: collectionIds });
+      if (error) throw error;
+
+      const progress = new Map<string, CollectionProgress>();
+      for (const row of data || []) {
+        const entry = progress.get(row.collection_id) ?? { watched: new Set<string>(), started: new Set<string>() };
+        if (row.watched) entry.watched.add(row.media_id);
+        if (row.started) entry.started.add(row.media_id);
+        progress.set(row.collection_id, entry);
+      }
+      return progress;
+    },
+  });
+};
+
+// Only items still published count towards "n of m watched"
+export const countWatched = (collection: CollectionWithEntries, progress?: CollectionProgress) =>
+  progress ? collection.entries.filter((e) => e.media_id && progress.watched.has(e.media_id)).length : 0;
@@ -0,0 +1,193 @@
+import { useEffect } from 'react';
+import { useInfiniteQuery, useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+import { toast } from 'sonner';
+
+export type CommentSort = 'newest' | 'top';
+export type CommentReaction = 'like' | 'love' | 'laugh' | 'wow' | 'sad';
+
+export const COMMENT_REACTIONS: { value: CommentReaction; emoji: string; label: string }[] = [
+  { value: 'like', emoji: '👍', label: 'Like' },
+  { value: 'love', emoji: '❤️', label: 'Love' },
+  { value: 'laugh', emoji: '😂', label: 'Haha' },
+  { value: 'wow', emoji: '😮', label: 'Wow' },
+  { value: 'sad', emoji: '😢', label: 'Sad' },
+];
+
+export interface CommentTarget {
+  movieId?: string;
+  episodeId?: string;
+  animeId?: string;
+}
+
+type CommentRow = Database['public']['Functions']['get_comment_threads']['Returns'][number];
+
+export type CommentNode = CommentRow & {
+  reactions: Partial<Record<CommentReaction, number>>;
+  replies: CommentNode[];
+};
+
+interface CommentCursor {
+  score: number;
+  createdAt: string;
+  id: string;
+}
+
+const PAGE_SIZE = 20;
+
+// Nests a page of rows into threads. Roots keep the server's order, replies read oldest first;
+// a reply whose parent is not in the page hangs off its root instead.
+const buildThreads = (rows: CommentRow[]): CommentNode[] => {
+  const nodes = new Map<string, CommentNode>();
+  rows.forEach((row) =>
+    nodes.set(row.id, { ...row, reactions: (row.reactions ?? {}) as CommentNode['reactions'], replies: [] })
+  );
+
+  const roots: CommentNode[] = [];
+  rows.forEach((row) => {
+    const node = nodes.get(row.id)!;
+    if (!row.parent_id) {
+      roots.push(node);
+      return;
+    }
+    const parent = nodes.get(row.parent_id) ?? nodes.get(row.root_id);
+    parent?.replies.push(node);
+  });
+
+  nodes.forEach((node) => node.replies.sort((a, b) => a.created_at.localeCompare(b.created_at)));
+  return roots;
+};
+
+const targetKey = ({ movieId, episodeId, animeId }: CommentTarget) =>
+  ['comments', movieId ?? null, episodeId ?? null, animeId ?? null] as const;
+
+// Realtime filters take one column; the most specific id wins, like the thread queries
+const targetFilter = ({ movieId, episodeId, animeId }: CommentTarget) => {
+  if (episodeId) return `episode_id=eq.${episodeId}`;
+  if (movieId) return `movie_id=eq.${movieId}`;
+  if (animeId) return `anime_id=eq.${animeId}`;
+  return null;
+};
+
+export const useComments = (target: CommentTarget, sort: CommentSort) => {
+  const queryClient = useQueryClient();
+  const { movieId, episodeId, animeId } = target;
+  const filter = targetFilter(target);
+
+  const query = useInfiniteQuery({
+    queryKey: [...targetKey(target), sort],
+    enabled: !!filter,
+    initialPageParam: null as CommentCursor | null,
+    queryFn: async ({ pageParam }) => {
+      const { data, error } = await supabase.rpc('get_comment_threads', {
+        _episode_id: target.episodeId ?? null,
+        _movie_id: target.episodeId ? null : target.movieId ?? null,
+        _anime_id: target.episodeId || target.movieId ? null : target.animeId ?? null,
+        _sort: sort,
+        _limit: PAGE_SIZE,
+        _cursor_score: pageParam?.score ?? null,
+        _cursor_created_at: pageParam?.createdAt ?? null,
+        _cursor_id: pageParam?.id ?? null,
+      });
+      if (error) throw error;
+      return buildThreads(data ?? []);
+    },
+    getNextPageParam: (lastPage): CommentCursor | undefined => {
+      if (lastPage.length < PAGE_SIZE) return undefined;
+      const last = lastPage[lastPage.length - 1];
+      return { score: last.score, createdAt: last.created_at, id: last.id };
+    },
+  });
+
+  // Other viewers' comments, edits and removals arrive live
+  useEffect(() => {
+    if (!filter) return;
+
+    const channel = supabase
+      .channel(`comments-${filter}`)
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'comments', filter }, () =>
+        queryClient.invalidateQueries({ queryKey: targetKey({ movieId, episodeId, animeId }) })
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [filter, movieId, episodeId, animeId, queryClient]);
+
+  return {
+    ...query,
+    threads: query.data?.pages.flat() ?? [],
+  };
+};
+
+export const useCommentMutations = (target: CommentTarget) => {
+  const queryClient = useQueryClient();
+  const refresh = () => queryClient.invalidateQueries({ queryKey: targetKey(target) });
+
+  const post = useMutation({
+    mutationFn: async ({ userId, content, parentId }: { userId: string; content: string; parentId?: string }) => {
+      const { error } = await supabase.from('comments').insert({
+        user_id: userId,
+        content,
+        parent_id: parentId ?? null,
+        // Replies take their title from the parent in the database
+        episode_id: target.episodeId ?? null,
+        movie_id: target.episodeId ? null : target.movieId ?? null,
+        anime_id: target.episodeId || target.movieId ? null : target.animeId ?? null,
+      });
+      if (error) throw error;
+    },
+    onSuccess: refresh,
+    onError: (error: Error) => {
+      toast.error(error.message.includes('PARENT_NOT_FOUND') ? 'That comment was removed' : 'Failed to post comment');
+      console.error(error);
+    },
+  });
+
+  const remove = useMutation({
+    mutationFn: async (commentId: string) => {
+      const { error } = await supabase.from('comments').update({ is_deleted: true }).eq('id', commentId);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      refresh();
+      toast.success('Comment deleted');
+    },
+    onError: (error) => {
+      toast.error('Failed to delete comment');
+      console.error(error);
+    },
+  });
+
+  const react = useMutation({
+    mutationFn: async ({ userId, commentId, reaction }: { userId: string; commentId: string; reaction: CommentReaction | null }) => {
+      const { error } = reaction
+        ? await supabase
+            .from('comment_reactions')
+            .upsert({ comment_id: commentId, user_id: userId, reaction }, { onConflict: 'comment_id,user_id' })
+        : await supabase.from('comment_reactions').delete().eq('comment_id', commentId).eq('user_id', userId);
+      if (error) throw error;
+    },
+    onSuccess: refresh,
+    onError: (error) => {
+      toast.error('Failed to save reaction');
+      console.error(error);
+    },
+  });
+
+  return { post, remove, react };
+};
+
+export const useMentionSearch = (query: string | null) =>
+  useQuery({
+    queryKey: ['mention-search', query],
+    enabled: !!query,
+    staleTime: 30_000,
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('search_mentionable_users', { _query: query! });
+      if (error) throw error;
+      return data ?? [];
+    },
+  });
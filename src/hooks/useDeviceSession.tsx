@@ -12,8 +12,20 @@ interface DeviceSession {
   created_at: string;
 }
 
-// Generate a unique device ID based on browser fingerprint
-const getDeviceId = (): string => {
+// A device currently holding a playback lease
+export interface ActiveStream {
+  id: string;
+  device_id: string;
+  device_name: string | null;
+  device_type: string | null;
+  media_type: string | null;
+  created_at: string;
+  last_heartbeat_at: string;
+}
+
+// Generate a unique device ID based on browser fingerprint. It only labels sessions and
+// playback leases - the stream limit is counted server-side, so clearing it gains nothing.
+export const getDeviceId = (): string => {
   let deviceId = localStorage.getItem('device_id');
   if (!deviceId) {
     deviceId = `device_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
@@ -23,7 +35,7 @@ const getDeviceId = (): string => {
 };
 
 // Get device information
-const getDeviceInfo = () => {
+export const getDeviceInfo = () => {
   const ua = navigator.userAgent;
   let deviceType = 'Desktop';
   let deviceName = 'Unknown Device';
@@ -46,11 +58,11 @@ const getDeviceInfo = () => {
   return { deviceType, deviceName };
 };
 
-export const useDeviceSession = (customMaxDevices?: number) => {
+export const useDeviceSession = () => {
   const { user } = useAuth();
   const [sessions, setSessions] = useState<DeviceSession[]>([]);
+  const [streams, setStreams] = useState<ActiveStream[]>([]);
   const [currentDeviceId] = useState(getDeviceId());
-  const [canStream, setCanStream] = useState(true);
   const [maxDevices, setMaxDevices] = useState(2);
   const [loading, setLoading] = useState(true);
 
@@ -80,34 +92,44 @@ export const useDeviceSession = (customMaxDevices?: number) => {
     }
   };
 
-  // Check device limit based on subscription or custom limit
-  const checkDeviceLimit = async () => {
+  // Streams currently holding a playback lease
+  const loadStreams = async () => {
+    if (!user) return;
+
+    const { data: activeStreams, error } = await supabase
+      .from('playback_leases')
+      .select('id, device_id, device_name, device_type, media_type, created_at, last_heartbeat_at')
+      .eq('user_id', user.id)
+      .is('revoked_at', null)
+      .gt('expires_at', new Date().toISOString())
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+
+    setStreams(activeStreams || []);
+  };
+
+  // Load signed-in devices and active streams
+  const loadSessions = async () => {
     if (!user) {
       setLoading(false);
       return;
     }
 
     try {
-      let effectiveMaxDevices = customMaxDevices || 2;
-      
-      // Only fetch subscription plan if no custom limit is provided
-      if (!customMaxDevices) {
-        const { data: subscription, error: subError } = await supabase
-          .from('user_subscriptions')
-          .select('*, subscription_plans(*)')
-          .eq('user_id', user.id)
-          .eq('is_active', true)
-          .gte('end_date', new Date().toISOString())
-          .single();
-
-        if (subError && subError.code !== 'PGRST116') {
-          throw subError;
-        }
-
-        effectiveMaxDevices = subscription?.subscription_plans?.max_devices || 2;
-      }
-      
-      setMaxDevices(effectiveMaxDevices);
+      await registerDevice();
+
+      const { data: subscription, error: subError } = await supabase
+        .from('user_subscriptions')
+        .select('*, subscription_plans(*)')
+        .eq('user_id', user.id)
+        .eq('is_active', true)
+        .gte('end_date', new Date().toISOString())
+        .maybeSingle();
+
+      if (subError) throw subError;
+
+      setMaxDevices(subscription?.subscription_plans?.max_devices || 2);
 
       // Get active sessions (last active within 1 hour)
       const oneHourAgo = new Date(Date.now() - 60 * 60 * 1000).toISOString();
@@ -121,21 +143,9 @@ export const useDeviceSession = (customMaxDevices?: number) => {
       if (sessionsError) throw sessionsError;
 
       setSessions(activeSessions || []);
-
-      // Check if current device is in active sessions
-      const currentDeviceSession = activeSessions?.find(s => s.device_id === currentDeviceId);
-      const otherActiveSessions = activeSessions?.filter(s => s.device_id !== currentDeviceId) || [];
-
-      if (otherActiveSessions.length >= effectiveMaxDevices && !currentDeviceSession) {
-        setCanStream(false);
-        toast.error(`Maximum ${effectiveMaxDevices} devices allowed. Sign out from another device to continue.`);
-      } else {
-        setCanStream(true);
-        await registerDevice();
-      }
+      await loadStreams();
     } catch (error) {
-      console.error('Failed to check device limit:', error);
-      setCanStream(true); // Allow streaming on error
+      console.error('Failed to load device sessions:', error);
     } finally {
       setLoading(false);
     }
@@ -143,7 +153,7 @@ export const useDeviceSession = (customMaxDevices?: number) => {
 
   // Update session activity
   const updateActivity = async () => {
-    if (!user || !canStream) return;
+    if (!user) return;
 
     try {
       await supabase
@@ -156,11 +166,30 @@ export const useDeviceSession = (customMaxDevices?: number) => {
     }
   };
 
+  // Stop whatever a device is playing right now; its player stops via realtime
+  const kickDevice = async (deviceId: string) => {
+    if (!user) return;
+
+    try {
+      const { error } = await supabase.rpc('revoke_device_leases', { _device_id: deviceId });
+      if (error) throw error;
+
+      toast.success('Stream stopped on that device');
+      await loadSessions();
+    } catch (error) {
+      console.error('Failed to stop device stream:', error);
+      toast.error('Failed to stop stream');
+    }
+  };
+
   // Sign out from a specific device
   const signOutDevice = async (deviceId: string) => {
     if (!user) return;
 
     try {
+      const { error: revokeError } = await supabase.rpc('revoke_device_leases', { _device_id: deviceId });
+      if (revokeError) throw revokeError;
+
       const { error } = await supabase
         .from('user_sessions')
         .delete()
@@ -170,7 +199,7 @@ export const useDeviceSession = (customMaxDevices?: number) => {
       if (error) throw error;
 
       toast.success('Device signed out successfully');
-      await checkDeviceLimit();
+      await loadSessions();
     } catch (error) {
       console.error('Failed to sign out device:', error);
       toast.error('Failed to sign out device');
@@ -182,6 +211,14 @@ export const useDeviceSession = (customMaxDevices?: number) => {
     if (!user) return;
 
     try {
+      const otherDeviceIds = [...new Set([...sessions, ...streams].map((s) => s.device_id))]
+        .filter((deviceId) => deviceId !== currentDeviceId);
+
+      for (const deviceId of otherDeviceIds) {
+        const { error: revokeError } = await supabase.rpc('revoke_device_leases', { _device_id: deviceId });
+        if (revokeError) throw revokeError;
+      }
+
       const { error } = await supabase
         .from('user_sessions')
         .delete()
@@ -191,36 +228,51 @@ export const useDeviceSession = (customMaxDevices?: number) => {
       if (error) throw error;
 
       toast.success('Signed out from all other devices');
-      await checkDeviceLimit();
+      await loadSessions();
     } catch (error) {
       console.error('Failed to sign out all devices:', error);
       toast.error('Failed to sign out devices');
     }
   };
 
-  // Initial check on mount and when customMaxDevices changes
+  // Initial load on mount, then keep the streaming list live as leases start, stop or get kicked
   useEffect(() => {
-    checkDeviceLimit();
-  }, [user, customMaxDevices]);
+    loadSessions();
+    if (!user) return;
+
+    const channel = supabase
+      .channel(`playback-leases-${user.id}`)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'playback_leases', filter: `user_id=eq.${user.id}` },
+        () => loadStreams().catch((error) => console.error('Failed to load streams:', error))
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [user]);
 
   // Update activity every 5 minutes
   useEffect(() => {
-    if (!user || !canStream) return;
+    if (!user) return;
 
     const interval = setInterval(() => {
       updateActivity();
     }, 5 * 60 * 1000);
 
     return () => clearInterval(interval);
-  }, [user, canStream]);
+  }, [user]);
 
   return {
     sessions,
+    streams,
     currentDeviceId,
-    canStream,
     maxDevices,
     loading,
-    checkDeviceLimit,
+    refresh: loadSessions,
+    kickDevice,
     signOutDevice,
     signOutAllDevices,
   };
@@ -11,7 +11,7 @@ interface UploadOptions {
   onProgress?: (progress: number) => void;
 }
 
-interface UploadResult {
+export interface UploadResult {
   success: boolean;
   path?: string;
   url?: string;
@@ -21,9 +21,41 @@ interface UploadResult {
   storageAccount?: number;
   accessKeyIndex?: number;
   isPrivate?: boolean;
+  // Subtitle uploads: what the file was before the server converted it to WebVTT
+  sourceFormat?: 'srt' | 'vtt' | 'ass';
   error?: string;
 }
 
+const SUBTITLE_EXTENSIONS = ['srt', 'vtt', 'ass', 'ssa'];
+
+// fetch() can't report upload progress, XHR can
+const postWithProgress = (
+  url: string,
+  body: FormData,
+  accessToken: string,
+  onProgress: (loaded: number, total: number) => void
+) =>
+  new Promise<{ status: number; body: UploadResult | null }>((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open('POST', url);
+    xhr.setRequestHeader('Authorization', `Bearer ${accessToken}`);
+    xhr.upload.onprogress = (event) => {
+      if (event.lengthComputable) onProgress(event.loaded, event.total);
+    };
+    xhr.onload = () => {
+      let parsed: UploadResult | null = null;
+      try {
+        parsed = JSON.parse(xhr.responseText);
+      } catch {
+        parsed = { success: false, error: 'Upload failed' };
+      }
+      resolve({ status: xhr.status, body: parsed });
+    };
+    xhr.onerror = () => reject(new Error('Network error during upload'));
+    xhr.onabort = () => reject(new Error('Upload cancelled'));
+    xhr.send(body);
+  });
+
 export const useIDriveUpload = () => {
   const [uploading, setUploading] = useState(false);
   const [progress, setProgress] = useState(0);
@@ -36,7 +68,6 @@ export const useIDriveUpload = () => {
     attempt: number = 1
   ): Promise<UploadResult> => {
     const maxRetries = options.maxRetries || 3;
-    let progressInterval: NodeJS.Timeout | null = null;
     
     try {
       const formData = new FormData();
@@ -46,42 +77,31 @@ export const useIDriveUpload = () => {
       if (options.category) formData.append('category', options.category);
 
       console.log(`Upload attempt ${attempt}/${maxRetries} for:`, file.name);
-
-      // Simulate progress during upload
-      progressInterval = setInterval(() => {
-        setProgress((prev) => {
-          const next = Math.min(prev + 10, 90);
-          options.onProgress?.(next);
-          return next;
-        });
-      }, 200);
+      setProgress(0);
 
       // Get the session token for authentication
       const { data: { session } } = await supabase.auth.getSession();
       
-      // Use fetch directly to send FormData
-      const response = await fetch(
+      const response = await postWithProgress(
         `https://zmdqloustkrtaeumkrau.supabase.co/functions/v1/upload-to-idrivee2`,
-        {
-          method: 'POST',
-          headers: {
-            'Authorization': `Bearer ${session?.access_token || ''}`,
-          },
-          body: formData,
+        formData,
+        session?.access_token || '',
+        (loaded, total) => {
+          // Hold the last few percent back until the server has stored the file and answered
+          const next = Math.min((loaded / total) * 100, 95);
+          setProgress(next);
+          options.onProgress?.(next);
         }
       );
 
-      if (progressInterval) clearInterval(progressInterval);
-
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({ error: 'Upload failed' }));
-        throw new Error(errorData.error || `HTTP ${response.status}`);
+      if (response.status < 200 || response.status >= 300) {
+        throw new Error(response.body?.error || `HTTP ${response.status}`);
       }
 
-      const data = await response.json();
+      const data = response.body;
 
-      if (!data.success) {
-        throw new Error(data.error || 'Upload failed');
+      if (!data?.success) {
+        throw new Error(data?.error || 'Upload failed');
       }
 
       setProgress(100);
@@ -91,8 +111,6 @@ export const useIDriveUpload = () => {
 
       return data as UploadResult;
     } catch (error) {
-      if (progressInterval) clearInterval(progressInterval);
-      
       const errorMessage = error instanceof Error ? error.message : '';
       const isBucketError = /bucket/i.test(errorMessage);
       
@@ -257,6 +275,40 @@ export const useIDriveUpload = () => {
     }
   }, []);
 
+  // Subtitles skip image validation/compression and the Supabase Storage fallback - the
+  // server converts them to WebVTT, which only the IDrive E2 path does
+  const uploadSubtitle = async (
+    file: File,
+    options: Omit<UploadOptions, 'category'> = {}
+  ): Promise<UploadResult> => {
+    const ext = file.name.split('.').pop()?.toLowerCase() || '';
+    if (!SUBTITLE_EXTENSIONS.includes(ext)) {
+      const error = 'Invalid file type. Only SRT, VTT and ASS/SSA subtitles are allowed.';
+      toast.error(error);
+      return { success: false, error };
+    }
+
+    setUploading(true);
+    setProgress(0);
+    setCurrentFile(file.name);
+
+    try {
+      // Conversion errors come back the same every time, so a failure isn't retried by default
+      const result = await uploadWithRetry(file, { maxRetries: 1, ...options, category: 'subtitle' });
+      toast.success('Subtitle uploaded successfully');
+      return result;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Upload failed';
+      console.error('Subtitle upload error:', error);
+      toast.error('Upload failed: ' + errorMessage);
+      return { success: false, error: errorMessage };
+    } finally {
+      setUploading(false);
+      setProgress(0);
+      setCurrentFile('');
+    }
+  };
+
   const uploadMultiple = useCallback(async (
     files: File[],
     options: UploadOptions = {}
@@ -279,6 +331,7 @@ export const useIDriveUpload = () => {
 
   return {
     uploadFile,
+    uploadSubtitle,
     uploadMultiple,
     uploading: uploading || compressing,
     progress,
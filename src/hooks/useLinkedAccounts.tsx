@@ -0,0 +1,108 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import type { UserIdentity } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import { SocialProvider, TelegramAuthUser, useAuth } from '@/hooks/useAuth';
+
+// Bot behind the Telegram login widget; Telegram sign-in is hidden when unset
+export const TELEGRAM_BOT_USERNAME = import.meta.env.VITE_TELEGRAM_BOT_USERNAME as string | undefined;
+
+// Address given to accounts created from a Telegram login (see telegram-auth)
+export const TELEGRAM_PLACEHOLDER_DOMAIN = 'telegram.invalid';
+
+export const isPlaceholderEmail = (email?: string | null) =>
+  !!email && email.endsWith(`@${TELEGRAM_PLACEHOLDER_DOMAIN}`);
+
+const invokeTelegramAuth = async (body: Record<string, unknown>) => {
+  const { data, error } = await supabase.functions.invoke('telegram-auth', { body });
+  if (error) throw error;
+  if (data?.error) throw new Error(data.error);
+};
+
+// Every sign-in method attached to the current user. They all resolve to the same auth user and
+// therefore the same profiles row, whichever one is used to sign in.
+export const useLinkedAccounts = () => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const queryKey = ['linked-accounts', user?.id];
+
+  const { data, isLoading } = useQuery({
+    queryKey,
+    queryFn: async () => {
+      const [{ data: identityData, error }, { data: telegram, error: telegramError }] = await Promise.all([
+        supabase.auth.getUserIdentities(),
+        supabase.from('telegram_identities').select('*').eq('user_id', user!.id).maybeSingle(),
+      ]);
+      if (error) throw error;
+      if (telegramError) throw telegramError;
+      return { identities: identityData.identities, telegram };
+    },
+    enabled: !!user,
+  });
+
+  const identities = data?.identities ?? [];
+  const telegram = data?.telegram ?? null;
+
+  // A placeholder email identity cannot receive a link or reset mail, so it is not a way back in
+  const usableIdentities = identities.filter(
+    (identity) => !(identity.provider === 'email' && isPlaceholderEmail(identity.identity_data?.email))
+  );
+  const signInMethodCount = usableIdentities.length + (telegram ? 1 : 0);
+
+  const refresh = () => queryClient.invalidateQueries({ queryKey: ['linked-accounts'] });
+
+  // Leaves for the provider and comes back here with the identity attached to this user
+  const linkProvider = useMutation({
+    mutationFn: async (provider: SocialProvider) => {
+      const { error } = await supabase.auth.linkIdentity({
+        provider,
+        options: { redirectTo: `${window.location.origin}/settings` },
+      });
+      if (error) throw error;
+    },
+  });
+
+  const unlinkIdentity = useMutation({
+    mutationFn: async (identity: UserIdentity) => {
+      if (signInMethodCount <= 1) throw new Error('You need at least one other way to sign in');
+      const { error } = await supabase.auth.unlinkIdentity(identity);
+      if (error) throw error;
+    },
+    onSuccess: refresh,
+  });
+
+  const linkTelegram = useMutation({
+    mutationFn: (telegramUser: TelegramAuthUser) => invokeTelegramAuth({ action: 'link', telegram: telegramUser }),
+    onSuccess: refresh,
+  });
+
+  const unlinkTelegram = useMutation({
+    mutationFn: async () => {
+      if (signInMethodCount <= 1) throw new Error('You need at least one other way to sign in');
+      await invokeTelegramAuth({ action: 'unlink' });
+    },
+    onSuccess: refresh,
+  });
+
+  // Telegram-only accounts swap their placeholder for a real address; it applies once confirmed
+  const addEmail = useMutation({
+    mutationFn: async (email: string) => {
+      const { error } = await supabase.auth.updateUser(
+        { email },
+        { emailRedirectTo: `${window.location.origin}/settings` }
+      );
+      if (error) throw error;
+    },
+  });
+
+  return {
+    identities,
+    telegram,
+    isLoading,
+    signInMethodCount,
+    linkProvider,
+    unlinkIdentity,
+    linkTelegram,
+    unlinkTelegram,
+    addEmail,
+  };
+};
@@ -0,0 +1,122 @@
+import { useEffect, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+import { getDeviceId } from './useDeviceSession';
+
+export type LiveChannel = Database['public']['Tables']['streaming_channels']['Row'];
+export type ChannelProgram = Database['public']['Tables']['channel_programs']['Row'];
+
+const HEARTBEAT_INTERVAL_MS = 30 * 1000;
+
+export const useLiveChannels = () =>
+  useQuery({
+    queryKey: ['live-channels'],
+    queryFn: async () => {
+      // Let counts of viewers who closed the tab without leaving decay before we read them
+      await supabase.rpc('refresh_channel_viewer_counts');
+
+      const { data, error } = await supabase
+        .from('streaming_channels')
+        .select('*')
+        .eq('is_active', true)
+        .order('name');
+
+      if (error) throw error;
+      return data;
+    },
+    refetchInterval: 60 * 1000,
+  });
+
+// Guide entries that have not finished yet and start within the next `hours`
+export const useChannelPrograms = (channelIds: string[], hours = 24) =>
+  useQuery({
+    queryKey: ['channel-programs', channelIds, hours],
+    enabled: channelIds.length > 0,
+    queryFn: async () => {
+      const now = new Date();
+      const until = new Date(now.getTime() + hours * 60 * 60 * 1000);
+
+      const { data, error } = await supabase
+        .from('channel_programs')
+        .select('*')
+        .in('channel_id', channelIds)
+        .gt('ends_at', now.toISOString())
+        .lt('starts_at', until.toISOString())
+        .order('starts_at');
+
+      if (error) throw error;
+      return data;
+    },
+    // Keeps the now/next overlay moving as programmes change over
+    refetchInterval: 5 * 60 * 1000,
+  });
+
+export const getNowNext = (programs: ChannelProgram[], channelId: string, at = new Date()) => {
+  const time = at.getTime();
+  const upcoming = programs
+    .filter((p) => p.channel_id === channelId && new Date(p.ends_at).getTime() > time)
+    .sort((a, b) => new Date(a.starts_at).getTime() - new Date(b.starts_at).getTime());
+
+  const current = upcoming.find((p) => new Date(p.starts_at).getTime() <= time) ?? null;
+  const next = upcoming.find((p) => new Date(p.starts_at).getTime() > time) ?? null;
+  return { now: current, next };
+};
+
+// Share of the current programme already aired, 0-100
+export const getProgramProgress = (program: ChannelProgram, at = new Date()) => {
+  const start = new Date(program.starts_at).getTime();
+  const end = new Date(program.ends_at).getTime();
+  return Math.min(100, Math.max(0, ((at.getTime() - start) / (end - start)) * 100));
+};
+
+// Counts this browser as a viewer of the channel while mounted. The count comes back from the
+// heartbeat and is kept current between beats through realtime updates on the channel row.
+export const useChannelViewers = (channelId: string | undefined) => {
+  const [viewers, setViewers] = useState<number | null>(null);
+
+  useEffect(() => {
+    if (!channelId) return;
+
+    const viewerKey = getDeviceId();
+    let active = true;
+
+    const beat = async () => {
+      const { data, error } = await supabase.rpc('channel_heartbeat', {
+        _channel_id: channelId,
+        _viewer_key: viewerKey,
+      });
+      if (error) {
+        console.warn('Channel heartbeat failed:', error.message);
+        return;
+      }
+      if (active) setViewers(data);
+    };
+
+    beat();
+    const interval = setInterval(beat, HEARTBEAT_INTERVAL_MS);
+
+    const channel = supabase
+      .channel(`live-channel-${channelId}`)
+      .on(
+        'postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'streaming_channels', filter: `id=eq.${channelId}` },
+        (payload) => {
+          const count = (payload.new as LiveChannel).viewer_count;
+          if (active && typeof count === 'number') setViewers(count);
+        }
+      )
+      .subscribe();
+
+    return () => {
+      active = false;
+      clearInterval(interval);
+      supabase.removeChannel(channel);
+      supabase.rpc('leave_channel', { _channel_id: channelId, _viewer_key: viewerKey }).then(({ error }) => {
+        if (error) console.warn('Failed to leave channel:', error.message);
+      });
+    };
+  }, [channelId]);
+
+  return viewers;
+};
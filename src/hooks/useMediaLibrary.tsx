@@ -0,0 +1,131 @@
+import { keepPreviousData, useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+
+export type MediaFileRow = Database['public']['Tables']['media_files']['Row'];
+
+export interface MediaLibraryFilters {
+  category?: string;
+  search?: string;
+  page?: number;
+}
+
+export interface StorageUsage {
+  fileCount: number;
+  totalBytes: number;
+}
+
+export interface DeleteMediaResult {
+  deleted: string[];
+  skipped: string[];
+  failed: { path: string; error: string }[];
+}
+
+export const MEDIA_PAGE_SIZE = 24;
+export const STORAGE_ACCOUNTS = [1, 2, 3];
+// Files saved before categories existed are shown with the uploads that never set one
+export const DEFAULT_MEDIA_CATEGORY = 'general';
+// delete-media-file takes at most this many paths per request
+const DELETE_BATCH = 100;
+
+export const useMediaFiles = ({ category, search, page = 0 }: MediaLibraryFilters) =>
+  useQuery({
+    queryKey: ['media-library', 'files', category ?? null, search ?? '', page],
+    queryFn: async () => {
+      let query = supabase
+        .from('media_files')
+        .select('*', { count: 'exact' })
+        .order('created_at', { ascending: false })
+        .range(page * MEDIA_PAGE_SIZE, (page + 1) * MEDIA_PAGE_SIZE - 1);
+      if (category === DEFAULT_MEDIA_CATEGORY) {
+        query = query.or(`file_category.eq.${DEFAULT_MEDIA_CATEGORY},file_category.is.null`);
+      } else if (category) {
+        query = query.eq('file_category', category);
+      }
+      if (search) query = query.ilike('file_path', `%${search}%`);
+
+      const { data, error, count } = await query;
+      if (error) throw error;
+      return { files: data as MediaFileRow[], count: count ?? 0 };
+    },
+    placeholderData: keepPreviousData,
+  });
+
+const addUsage = <K,>(usage: Map<K, StorageUsage>, key: K, row: { file_count: number; total_bytes: number }) => {
+  const current = usage.get(key) ?? { fileCount: 0, totalBytes: 0 };
+  usage.set(key, {
+    fileCount: current.fileCount + Number(row.file_count),
+    totalBytes: current.totalBytes + Number(row.total_bytes),
+  });
+};
+
+// Usage per storage account and per category, from one aggregate over media_files
+export const useMediaLibraryStats = () =>
+  useQuery({
+    queryKey: ['media-library', 'stats'],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('media_library_stats');
+      if (error) throw error;
+
+      const accounts = new Map<number, StorageUsage>(
+        STORAGE_ACCOUNTS.map((account) => [account, { fileCount: 0, totalBytes: 0 }])
+      );
+      const categories = new Map<string, StorageUsage>();
+      for (const row of data) {
+        addUsage(accounts, row.storage_account, row);
+        addUsage(categories, row.file_category, row);
+      }
+      return { accounts, categories };
+    },
+  });
+
+export const useOrphanedMediaFiles = (enabled: boolean) =>
+  useQuery({
+    queryKey: ['media-library', 'orphans'],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('find_orphaned_media_files');
+      if (error) throw error;
+      return data as MediaFileRow[];
+    },
+    enabled,
+  });
+
+// Signed URLs last a day; refetching hourly keeps previews working on a page left open
+export const useMediaPreviewUrl = (filePath: string | null | undefined) =>
+  useQuery({
+    queryKey: ['media-library', 'preview', filePath],
+    queryFn: async () => {
+      const { data, error } = await supabase.functions.invoke('get-signed-url', {
+        body: { filePath, expiryHours: 24 },
+      });
+      if (error) throw error;
+      if (!data?.success || !data.url) throw new Error(data?.error || 'Failed to get signed URL');
+      return data.url as string;
+    },
+    enabled: !!filePath,
+    staleTime: 60 * 60 * 1000,
+  });
+
+export const useDeleteMediaFiles = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ filePaths, orphansOnly = false }: { filePaths: string[]; orphansOnly?: boolean }) => {
+      const result: DeleteMediaResult = { deleted: [], skipped: [], failed: [] };
+
+      for (let i = 0; i < filePaths.length; i += DELETE_BATCH) {
+        const { data, error } = await supabase.functions.invoke('delete-media-file', {
+          body: { filePaths: filePaths.slice(i, i + DELETE_BATCH), orphansOnly },
+        });
+        if (error) throw error;
+        if (!data?.success) throw new Error(data?.error || 'Failed to delete files');
+        result.deleted.push(...data.deleted);
+        result.skipped.push(...data.skipped);
+        result.failed.push(...data.failed);
+      }
+
+      return result;
+    },
+    onSettled: () => queryClient.invalidateQueries({ queryKey: ['media-library'] }),
+  });
+};
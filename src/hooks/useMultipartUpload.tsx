@@ -0,0 +1,239 @@
+import { useState, useCallback } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import type { Database } from '@/integrations/supabase/types';
+import type { UploadResult } from './useIDriveUpload';
+
+export type PendingUpload = Database['public']['Tables']['media_uploads']['Row'];
+
+interface MultipartOptions {
+  bucket?: string;
+  path?: string;
+  category?: string;
+  onProgress?: (progress: number) => void;
+}
+
+interface StoredPart {
+  partNumber: number;
+  size: number;
+}
+
+interface CreatedUpload {
+  uploadId: string;
+  path: string;
+  partSize: number;
+  parts: StoredPart[];
+}
+
+const PARALLEL_PARTS = 4;
+const SIGN_BATCH = 20;
+const MAX_PART_ATTEMPTS = 3;
+
+const pendingUploadsKey = ['media-uploads', 'pending'];
+
+// How a file picked again after a reload is matched to the upload it started
+export const uploadFingerprint = (file: File) => `${file.name}:${file.size}:${file.lastModified}`;
+
+const callMultipart = async <T,>(body: Record<string, unknown>): Promise<T> => {
+  const { data, error } = await supabase.functions.invoke('multipart-upload', { body });
+  if (error instanceof FunctionsHttpError) {
+    const details = await error.context.json().catch(() => null);
+    throw new Error(details?.error || error.message);
+  }
+  if (error) throw error;
+  if (!data?.success) throw new Error(data?.error || 'Upload failed');
+  return data as T;
+};
+
+const signParts = async (uploadId: string, partNumbers: number[]) => {
+  const { urls } = await callMultipart<{ urls: { partNumber: number; url: string }[] }>({
+    action: 'sign',
+    uploadId,
+    partNumbers,
+  });
+  return new Map(urls.map(({ partNumber, url }) => [partNumber, url]));
+};
+
+const putPart = (url: string, blob: Blob, onProgress: (loaded: number) => void) =>
+  new Promise<void>((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open('PUT', url);
+    xhr.upload.onprogress = (event) => onProgress(event.loaded);
+    xhr.onload = () =>
+      xhr.status >= 200 && xhr.status < 300 ? resolve() : reject(new Error(`Part upload failed: HTTP ${xhr.status}`));
+    xhr.onerror = () => reject(new Error('Network error during part upload'));
+    xhr.send(blob);
+  });
+
+export const usePendingUploads = () =>
+  useQuery({
+    queryKey: pendingUploadsKey,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('media_uploads')
+        .select('*')
+        .eq('status', 'uploading')
+        .order('created_at', { ascending: false });
+      if (error) throw error;
+      return data as PendingUpload[];
+    },
+  });
+
+// Large files go straight from the browser to IDrive E2 in parts. Parts the store already holds
+// are skipped, so picking the same file again after a reload or failure carries on from there.
+export const useMultipartUpload = () => {
+  const queryClient = useQueryClient();
+  const [uploading, setUploading] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const [currentFile, setCurrentFile] = useState<string>('');
+
+  const uploadParts = async (file: File, upload: CreatedUpload, onProgress: (progress: number) => void) => {
+    const partCount = Math.ceil(file.size / upload.partSize);
+    const stored = new Set(upload.parts.map((part) => part.partNumber));
+    const missing = Array.from({ length: partCount }, (_, i) => i + 1).filter((n) => !stored.has(n));
+
+    // Bytes already in the store plus whatever the in-flight parts have sent so far
+    const doneBytes = upload.parts.reduce((total, part) => total + part.size, 0);
+    let completedBytes = doneBytes;
+    const inFlight = new Map<number, number>();
+    const report = () => {
+      const sent = completedBytes + [...inFlight.values()].reduce((total, loaded) => total + loaded, 0);
+      onProgress(Math.min((sent / file.size) * 100, 99));
+    };
+    report();
+
+    if (doneBytes > 0) {
+      toast.info(`Resuming ${file.name} (${stored.size}/${partCount} parts already uploaded)`);
+    }
+
+    const sendPart = async (partNumber: number, url: string) => {
+      const start = (partNumber - 1) * upload.partSize;
+      const blob = file.slice(start, Math.min(start + upload.partSize, file.size));
+      let partUrl = url;
+
+      for (let attempt = 1; ; attempt++) {
+        try {
+          await putPart(partUrl, blob, (loaded) => {
+            inFlight.set(partNumber, loaded);
+            report();
+          });
+          inFlight.delete(partNumber);
+          completedBytes += blob.size;
+          report();
+          return;
+        } catch (error) {
+          inFlight.delete(partNumber);
+          report();
+          if (attempt >= MAX_PART_ATTEMPTS) throw error;
+
+          const delay = Math.min(1000 * Math.pow(2, attempt - 1), 5000);
+          console.warn(`Part ${partNumber} failed (attempt ${attempt}/${MAX_PART_ATTEMPTS}), retrying in ${delay}ms`, error);
+          await new Promise((resolve) => setTimeout(resolve, delay));
+          // The old URL may have expired while the part was failing
+          partUrl = (await signParts(upload.uploadId, [partNumber])).get(partNumber) ?? partUrl;
+        }
+      }
+    };
+
+    for (let i = 0; i < missing.length; i += SIGN_BATCH) {
+      const batch = missing.slice(i, i + SIGN_BATCH);
+      const urls = await signParts(upload.uploadId, batch);
+      const queue = [...batch];
+
+      await Promise.all(
+        Array.from({ length: Math.min(PARALLEL_PARTS, queue.length) }, async () => {
+          while (queue.length > 0) {
+            const partNumber = queue.shift()!;
+            await sendPart(partNumber, urls.get(partNumber)!);
+          }
+        })
+      );
+    }
+  };
+
+  const uploadFile = useCallback(async (file: File, options: MultipartOptions = {}): Promise<UploadResult> => {
+    setUploading(true);
+    setProgress(0);
+    setCurrentFile(file.name);
+
+    const onProgress = (value: number) => {
+      setProgress(value);
+      options.onProgress?.(value);
+    };
+
+    try {
+      const upload = await callMultipart<CreatedUpload>({
+        action: 'create',
+        fileName: file.name,
+        fileSize: file.size,
+        contentType: file.type,
+        fingerprint: uploadFingerprint(file),
+        bucket: options.bucket,
+        path: options.path,
+        category: options.category,
+      });
+      queryClient.invalidateQueries({ queryKey: pendingUploadsKey });
+
+      await uploadParts(file, upload, onProgress);
+
+      const result = await callMultipart<UploadResult>({ action: 'complete', uploadId: upload.uploadId });
+      onProgress(100);
+      queryClient.invalidateQueries({ queryKey: ['media-library'] });
+      toast.success(`${file.name} uploaded successfully`);
+      return result;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Upload failed';
+      console.error('Multipart upload error:', error);
+      toast.error(`Upload failed: ${errorMessage}. Select the same file again to resume.`);
+      return { success: false, error: errorMessage };
+    } finally {
+      queryClient.invalidateQueries({ queryKey: pendingUploadsKey });
+      setUploading(false);
+      setProgress(0);
+      setCurrentFile('');
+    }
+  }, [queryClient]);
+
+  const uploadMultiple = useCallback(async (
+    files: File[],
+    options: MultipartOptions = {}
+  ): Promise<UploadResult[]> => {
+    const results: UploadResult[] = [];
+
+    for (let i = 0; i < files.length; i++) {
+      const result = await uploadFile(files[i], {
+        ...options,
+        onProgress: (fileProgress) => {
+          const totalProgress = ((i + (fileProgress / 100)) / files.length) * 100;
+          setProgress(totalProgress);
+        }
+      });
+      results.push(result);
+    }
+
+    return results;
+  }, [uploadFile]);
+
+  const abortUpload = useCallback(async (uploadId: string) => {
+    try {
+      await callMultipart({ action: 'abort', uploadId });
+      toast.success('Upload discarded');
+    } catch (error) {
+      console.error('Error aborting upload:', error);
+      toast.error('Failed to discard upload');
+    } finally {
+      queryClient.invalidateQueries({ queryKey: pendingUploadsKey });
+    }
+  }, [queryClient]);
+
+  return {
+    uploadFile,
+    uploadMultiple,
+    abortUpload,
+    uploading,
+    progress,
+    currentFile,
+  };
+};
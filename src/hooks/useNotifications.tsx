@@ -0,0 +1,100 @@
+import { useEffect } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from './useAuth';
+
+export interface InboxNotification {
+  id: string;
+  delivered_at: string;
+  read_at: string | null;
+  notification: {
+    title: string;
+    message: string;
+    type: string;
+    link_url: string | null;
+  } | null;
+}
+
+const INBOX_LIMIT = 30;
+
+export const useNotifications = () => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const queryKey = ['user-notifications', user?.id];
+
+  const { data: notifications = [], isLoading: loading } = useQuery({
+    queryKey,
+    enabled: !!user,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('user_notifications')
+        .select('id, delivered_at, read_at, notification:notifications(title, message, type, link_url)')
+        .eq('user_id', user!.id)
+        .order('delivered_at', { ascending: false })
+        .limit(INBOX_LIMIT);
+
+      if (error) throw error;
+      return data as InboxNotification[];
+    },
+  });
+
+  // Counted separately so the badge stays right past the inbox limit
+  const { data: unreadCount = 0 } = useQuery({
+    queryKey: [...queryKey, 'unread'],
+    enabled: !!user,
+    queryFn: async () => {
+      const { count, error } = await supabase
+        .from('user_notifications')
+        .select('id', { count: 'exact', head: true })
+        .eq('user_id', user!.id)
+        .is('read_at', null);
+
+      if (error) throw error;
+      return count ?? 0;
+    },
+  });
+
+  // New deliveries arrive as inserts on the user's own rows
+  useEffect(() => {
+    if (!user) return;
+
+    const channel = supabase
+      .channel(`user-notifications-${user.id}`)
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'user_notifications', filter: `user_id=eq.${user.id}` },
+        () => queryClient.invalidateQueries({ queryKey: ['user-notifications', user.id] })
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [user, queryClient]);
+
+  const markRead = useMutation({
+    mutationFn: async (ids?: string[]) => {
+      const { error } = await supabase.rpc('mark_notifications_read', { _ids: ids ?? null });
+      if (error) throw error;
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey }),
+    onError: (error) => console.error('Error marking notifications read:', error),
+  });
+
+  const remove = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from('user_notifications').delete().eq('id', id);
+      if (error) throw error;
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey }),
+    onError: (error) => console.error('Error removing notification:', error),
+  });
+
+  return {
+    notifications,
+    unreadCount,
+    loading,
+    markRead: (ids?: string[]) => markRead.mutate(ids),
+    remove: (id: string) => remove.mutate(id),
+  };
+};
@@ -0,0 +1,73 @@
+import { useEffect, useRef } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { PlaybackLease } from '@/hooks/useProtectedVideoUrl';
+
+interface PlaybackLeaseHandlers {
+  // The lease was kicked from another device - playback must stop
+  onRevoked: () => void;
+  // Heartbeats were missed (e.g. the tab slept) - the player should ask for a fresh lease
+  onExpired: () => void;
+}
+
+// Keeps a server-issued playback lease alive while the player is mounted and releases it on unmount.
+// The stream limit itself is enforced by get-protected-video-url; this only reports back.
+export const usePlaybackLease = (lease: PlaybackLease | null | undefined, handlers: PlaybackLeaseHandlers) => {
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+
+  const leaseId = lease?.id;
+  const heartbeatSeconds = lease?.heartbeatSeconds ?? 30;
+
+  useEffect(() => {
+    if (!leaseId) return;
+
+    let stopped = false;
+    const stop = (expired: boolean) => {
+      if (stopped) return;
+      stopped = true;
+      if (expired) handlersRef.current.onExpired();
+      else handlersRef.current.onRevoked();
+    };
+
+    const heartbeat = async () => {
+      const { error } = await supabase.rpc('heartbeat_playback_lease', { _lease_id: leaseId });
+      if (!error || stopped) return;
+
+      if (error.message.includes('LEASE_REVOKED')) {
+        stop(false);
+      } else if (error.message.includes('LEASE_EXPIRED')) {
+        stop(true);
+      } else {
+        // Network hiccups are covered by the lease TTL; the next beat retries
+        console.warn('Playback heartbeat failed:', error.message);
+      }
+    };
+
+    const interval = setInterval(heartbeat, heartbeatSeconds * 1000);
+
+    // Kicks arrive over realtime so the stream stops without waiting for the next beat.
+    // 'replaced' is ignored here: it is usually this player re-acquiring after a server switch,
+    // and a genuinely stolen device id still surfaces on the next heartbeat.
+    const channel = supabase
+      .channel(`playback-lease-${leaseId}`)
+      .on(
+        'postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'playback_leases', filter: `id=eq.${leaseId}` },
+        (payload) => {
+          if ((payload.new as { revoked_reason?: string | null }).revoked_reason === 'kicked') {
+            stop(false);
+          }
+        }
+      )
+      .subscribe();
+
+    return () => {
+      stopped = true;
+      clearInterval(interval);
+      supabase.removeChannel(channel);
+      supabase.rpc('release_playback_lease', { _lease_id: leaseId }).then(({ error }) => {
+        if (error) console.warn('Failed to release playback lease:', error.message);
+      });
+    };
+  }, [leaseId, heartbeatSeconds]);
+};
@@ -0,0 +1,62 @@
+import { useCallback } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { supabase } from '@/integrations/supabase/client';
+import { DEFAULT_SUBTITLE_STYLE, parseSubtitleStyle, SubtitleStyle } from '@/lib/subtitleStyle';
+import { useAuth } from './useAuth';
+
+export interface PlaybackPreferences {
+  autoplayNextEpisode: boolean;
+  subtitleStyle: SubtitleStyle;
+}
+
+const DEFAULT_PREFERENCES: PlaybackPreferences = {
+  autoplayNextEpisode: true,
+  subtitleStyle: DEFAULT_SUBTITLE_STYLE,
+};
+
+// Signed-out viewers get the defaults. Autoplay is edited from UserSettings, caption style from the player.
+export const usePlaybackPreferences = () => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  const { data } = useQuery({
+    queryKey: ['playback-preferences', user?.id],
+    enabled: !!user,
+    queryFn: async (): Promise<PlaybackPreferences> => {
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('autoplay_next_episode, subtitle_style')
+        .eq('id', user!.id)
+        .maybeSingle();
+      if (error) throw error;
+      return {
+        autoplayNextEpisode: data?.autoplay_next_episode ?? DEFAULT_PREFERENCES.autoplayNextEpisode,
+        subtitleStyle: parseSubtitleStyle(data?.subtitle_style),
+      };
+    },
+  });
+
+  const preferences = data ?? DEFAULT_PREFERENCES;
+
+  // Applied to the cache straight away so the captions restyle while the menu is open. Signed-out
+  // changes only last for the visit; signed-in ones are saved to the profile.
+  const updateSubtitleStyle = useCallback(async (subtitleStyle: SubtitleStyle) => {
+    queryClient.setQueryData<PlaybackPreferences>(['playback-preferences', user?.id], (prev) => ({
+      ...(prev ?? DEFAULT_PREFERENCES),
+      subtitleStyle,
+    }));
+    if (!user) return;
+
+    const { error } = await supabase
+      .from('profiles')
+      .update({ subtitle_style: { ...subtitleStyle } })
+      .eq('id', user.id);
+    if (error) {
+      console.error('Failed to save subtitle style:', error);
+      toast.error('Could not save caption style');
+    }
+  }, [queryClient, user]);
+
+  return { ...preferences, updateSubtitleStyle };
+};
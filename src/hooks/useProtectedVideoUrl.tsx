@@ -1,5 +1,8 @@
 import { useState, useCallback } from 'react';
+import { FunctionsHttpError } from '@supabase/supabase-js';
 import { supabase } from '@/integrations/supabase/client';
+import { PlaybackDrm } from '@/lib/drm';
+import { getDeviceId, getDeviceInfo } from '@/hooks/useDeviceSession';
 
 interface VideoSourceData {
   id: string;
@@ -9,15 +12,53 @@ interface VideoSourceData {
   server_name: string;
   quality?: string;
   is_default?: boolean;
+  drm?: PlaybackDrm | null;
+}
+
+export type AccessDenialReason =
+  | 'VIP_REQUIRED'
+  | 'RENTAL_REQUIRED'
+  | 'VIP_OR_RENTAL_REQUIRED'
+  | 'CONTENT_UNAVAILABLE'
+  | 'STREAM_LIMIT_REACHED'
+  | 'LEASE_REVOKED';
+
+export interface AccessDenialDetails {
+  mediaId?: string;
+  mediaType?: 'movie' | 'series' | 'anime';
+  access?: 'free' | 'rent' | 'vip';
+  excludeFromPlan?: boolean;
+  rentalPrice?: number | null;
+  rentalPeriodDays?: number;
+  walletBalance?: number;
+  topupRequired?: boolean;
+  maxStreams?: number;
+}
+
+export interface PlaybackLease {
+  id: string;
+  expiresAt: string;
+  heartbeatSeconds: number;
+  activeStreams: number;
+  maxStreams: number;
 }
 
 interface ProtectedVideoResponse {
   success: boolean;
   source?: VideoSourceData;
-  accessToken?: string;
-  expiresAt?: string;
+  entitlement?: {
+    mediaId: string;
+    mediaType: 'movie' | 'series' | 'anime';
+    access: 'free' | 'rent' | 'vip';
+    rentalMaxDevices: number;
+  };
+  lease?: PlaybackLease | null;
+  // When the signed URLs in `source` stop working; null if nothing was signed
+  expiresAt?: string | null;
   error?: string;
   code?: string;
+  reason?: AccessDenialReason;
+  details?: AccessDenialDetails;
 }
 
 export const useProtectedVideoUrl = () => {
@@ -26,22 +67,25 @@ export const useProtectedVideoUrl = () => {
 
   const getProtectedUrl = useCallback(async (params: {
     sourceId: string;
-    episodeId?: string;
-    movieId?: string;
-    mediaId?: string;
-    mediaType?: 'movie' | 'series' | 'anime';
-    accessType?: 'free' | 'rent' | 'vip';
-    excludeFromPlan?: boolean;
   }): Promise<ProtectedVideoResponse | null> => {
     setLoading(true);
     setError(null);
 
     try {
+      const { deviceName, deviceType } = getDeviceInfo();
       const { data, error: fnError } = await supabase.functions.invoke('get-protected-video-url', {
-        body: params,
+        body: { sourceId: params.sourceId, deviceId: getDeviceId(), deviceName, deviceType },
       });
 
       if (fnError) {
+        // Access denials come back as 403 with a structured body the player needs
+        if (fnError instanceof FunctionsHttpError) {
+          const body = await fnError.context.json().catch(() => null);
+          if (body) {
+            setError(body.error || 'Failed to get video URL');
+            return body as ProtectedVideoResponse;
+          }
+        }
         throw new Error(fnError.message);
       }
 
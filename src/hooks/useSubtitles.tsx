@@ -0,0 +1,36 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+
+export type Subtitle = Database['public']['Tables']['subtitles']['Row'] & {
+  languages: { iso_639_1: string; name: string; english_name: string | null } | null;
+};
+
+export interface SubtitleTarget {
+  movieId?: string;
+  episodeId?: string;
+}
+
+const SUBTITLE_FILE_ENDPOINT = 'https://zmdqloustkrtaeumkrau.supabase.co/functions/v1/subtitle-file';
+
+// Converted .vtt served by the subtitle-file function; the updated_at stamp busts the hour-long cache on re-upload
+export const subtitleFileUrl = (subtitle: Pick<Subtitle, 'id' | 'updated_at'>) =>
+  `${SUBTITLE_FILE_ENDPOINT}?id=${subtitle.id}&v=${encodeURIComponent(subtitle.updated_at)}`;
+
+export const useSubtitles = ({ movieId, episodeId }: SubtitleTarget) =>
+  useQuery({
+    queryKey: ['subtitles', movieId ?? null, episodeId ?? null],
+    enabled: !!(movieId || episodeId),
+    queryFn: async () => {
+      let query = supabase
+        .from('subtitles')
+        .select('*, languages(iso_639_1, name, english_name)')
+        .order('is_default', { ascending: false })
+        .order('label');
+      query = episodeId ? query.eq('episode_id', episodeId) : query.eq('movie_id', movieId!);
+
+      const { data, error } = await query;
+      if (error) throw error;
+      return data as Subtitle[];
+    },
+  });
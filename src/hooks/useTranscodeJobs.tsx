@@ -0,0 +1,148 @@
+import { useEffect } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+
+type TranscodeJobRow = Database['public']['Tables']['transcode_jobs']['Row'];
+
+export type TranscodeJob = TranscodeJobRow & {
+  movies: { title: string } | null;
+  episodes: { name: string | null; episode_number: number } | null;
+};
+
+export type TranscodeJobLog = Database['public']['Tables']['transcode_job_logs']['Row'];
+
+export type TranscodeStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface TranscodeJobFilters {
+  movieId?: string;
+  episodeId?: string;
+  status?: TranscodeStatus;
+}
+
+export interface NewTranscodeJob {
+  movieId?: string;
+  episodeId?: string;
+  mediaFile: { id: string; file_path: string; bucket_name: string; storage_account: number };
+  renditions: string[];
+  serverName: string;
+  version: string;
+  makeDefault: boolean;
+}
+
+// Highest first, matching the worker's ladder
+export const TRANSCODE_RENDITIONS = ['1080p', '720p', '480p', '360p'];
+
+export const isActiveTranscode = (job: Pick<TranscodeJobRow, 'status'>) =>
+  job.status === 'queued' || job.status === 'running';
+
+export const useTranscodeJobs = ({ movieId, episodeId, status }: TranscodeJobFilters = {}) => {
+  const queryClient = useQueryClient();
+
+  const query = useQuery({
+    queryKey: ['transcode-jobs', movieId ?? null, episodeId ?? null, status ?? null],
+    queryFn: async () => {
+      let request = supabase
+        .from('transcode_jobs')
+        .select('*, movies(title), episodes(name, episode_number)')
+        .order('created_at', { ascending: false })
+        .limit(100);
+      if (movieId) request = request.eq('movie_id', movieId);
+      if (episodeId) request = request.eq('episode_id', episodeId);
+      if (status) request = request.eq('status', status);
+
+      const { data, error } = await request;
+      if (error) throw error;
+      return data as unknown as TranscodeJob[];
+    },
+  });
+
+  // Progress and status changes arrive as the worker reports them
+  useEffect(() => {
+    const channel = supabase
+      .channel(`transcode-jobs-${movieId ?? episodeId ?? 'all'}`)
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'transcode_jobs' }, () =>
+        queryClient.invalidateQueries({ queryKey: ['transcode-jobs'] })
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [movieId, episodeId, queryClient]);
+
+  return query;
+};
+
+export const useTranscodeJobLogs = (jobId: string | null, live: boolean) =>
+  useQuery({
+    queryKey: ['transcode-job-logs', jobId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('transcode_job_logs')
+        .select('*')
+        .eq('job_id', jobId!)
+        .order('created_at', { ascending: true });
+      if (error) throw error;
+      return data as TranscodeJobLog[];
+    },
+    enabled: !!jobId,
+    refetchInterval: live ? 5000 : false,
+  });
+
+export const useTranscodeMutations = () => {
+  const queryClient = useQueryClient();
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ['transcode-jobs'] });
+    queryClient.invalidateQueries({ queryKey: ['transcode-job-logs'] });
+  };
+
+  const start = useMutation({
+    mutationFn: async (job: NewTranscodeJob) => {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error('Not signed in');
+
+      const { error } = await supabase.from('transcode_jobs').insert({
+        movie_id: job.movieId ?? null,
+        episode_id: job.episodeId ?? null,
+        media_file_id: job.mediaFile.id,
+        source_path: job.mediaFile.file_path,
+        source_bucket: job.mediaFile.bucket_name,
+        source_storage_account: job.mediaFile.storage_account,
+        renditions: TRANSCODE_RENDITIONS.filter((quality) => job.renditions.includes(quality)),
+        server_name: job.serverName,
+        version: job.version,
+        make_default: job.makeDefault,
+        requested_by: user.id,
+      });
+      if (error) throw error;
+    },
+    onSuccess: refresh,
+  });
+
+  const retry = useMutation({
+    mutationFn: async (jobId: string) => {
+      const { error } = await supabase.rpc('retry_transcode_job', { _job_id: jobId });
+      if (error) throw error;
+    },
+    onSuccess: refresh,
+  });
+
+  const cancel = useMutation({
+    mutationFn: async (jobId: string) => {
+      const { error } = await supabase.rpc('cancel_transcode_job', { _job_id: jobId });
+      if (error) throw error;
+    },
+    onSuccess: refresh,
+  });
+
+  const remove = useMutation({
+    mutationFn: async (jobId: string) => {
+      const { error } = await supabase.from('transcode_jobs').delete().eq('id', jobId);
+      if (error) throw error;
+    },
+    onSuccess: refresh,
+  });
+
+  return { start, retry, cancel, remove };
+};
@@ -29,11 +29,12 @@ export const useUsers = () => {
 
       // Combine profiles with roles
       const users: UserWithRole[] = profiles.map((profile) => {
-        const userRole = roles.find((r) => r.user_id === profile.id);
+        // Users can hold several roles; staff roles are managed from the Moderators page
+        const isAdmin = roles.some((r) => r.user_id === profile.id && r.role === "admin");
         return {
           id: profile.id,
           email: profile.email,
-          role: (userRole?.role as "admin" | "user") || "user",
+          role: isAdmin ? "admin" : "user",
           created_at: profile.created_at,
         };
       });
@@ -54,13 +55,12 @@ export const useUpdateUserRole = () => {
       userId: string;
       newRole: "admin" | "user";
     }) => {
-      // Delete existing role
-      await supabase.from("user_roles").delete().eq("user_id", userId);
-
-      // Insert new role
-      const { error } = await supabase
-        .from("user_roles")
-        .insert({ user_id: userId, role: newRole });
+      // Only the admin row changes, so any staff roles the user holds are kept
+      const { error } = newRole === "admin"
+        ? await supabase
+            .from("user_roles")
+            .upsert({ user_id: userId, role: "admin" }, { onConflict: "user_id,role", ignoreDuplicates: true })
+        : await supabase.from("user_roles").delete().eq("user_id", userId).eq("role", "admin");
 
       if (error) throw error;
     },
@@ -69,7 +69,7 @@ export const useUpdateUserRole = () => {
       toast.success("User role updated successfully");
     },
     onError: (error) => {
-      toast.error("Failed to update user role");
+      toast.error(error.message.includes("LAST_ADMIN") ? "The last admin cannot be removed" : "Failed to update user role");
       console.error(error);
     },
   });
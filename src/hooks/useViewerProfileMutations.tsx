@@ -0,0 +1,57 @@
+import { useMutation } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { useViewerProfiles } from '@/hooks/useViewerProfiles';
+import type { MaturityRating } from '@/lib/viewerProfiles';
+
+export interface ViewerProfileInput {
+  name: string;
+  avatar_url: string | null;
+  maturity_rating: MaturityRating;
+  language: string | null;
+}
+
+export const useViewerProfileMutations = () => {
+  const { user } = useAuth();
+  const { refreshProfiles } = useViewerProfiles();
+
+  const create = useMutation({
+    mutationFn: async (input: ViewerProfileInput) => {
+      const { error } = await supabase.from('viewer_profiles').insert({ ...input, account_id: user!.id });
+      if (error) throw error;
+    },
+    onSuccess: refreshProfiles,
+  });
+
+  const update = useMutation({
+    mutationFn: async ({ id, ...input }: ViewerProfileInput & { id: string }) => {
+      const { error } = await supabase.from('viewer_profiles').update(input).eq('id', id);
+      if (error) throw error;
+    },
+    onSuccess: refreshProfiles,
+  });
+
+  // Deleting a profile also deletes its history, list and likes
+  const remove = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from('viewer_profiles').delete().eq('id', id);
+      if (error) throw error;
+    },
+    onSuccess: refreshProfiles,
+  });
+
+  // pin null removes the lock; changing an existing PIN needs currentPin or a fresh sign-in
+  const setPin = useMutation({
+    mutationFn: async ({ id, pin, currentPin }: { id: string; pin: string | null; currentPin?: string }) => {
+      const { error } = await supabase.rpc('set_viewer_profile_pin', {
+        _profile_id: id,
+        _pin: pin ?? undefined,
+        _current_pin: currentPin,
+      });
+      if (error) throw error;
+    },
+    onSuccess: refreshProfiles,
+  });
+
+  return { create, update, remove, setPin };
+};
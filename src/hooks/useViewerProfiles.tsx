@@ -0,0 +1,21 @@
+import { createContext, useContext } from 'react';
+import type { ViewerProfile } from '@/lib/viewerProfiles';
+
+interface ViewerProfileContextType {
+  profiles: ViewerProfile[];
+  activeProfile: ViewerProfile | null;
+  loading: boolean;
+  // Throws WRONG_PIN / PIN_LOCKED for protected profiles
+  selectProfile: (profile: ViewerProfile, pin?: string) => Promise<void>;
+  refreshProfiles: () => Promise<void>;
+}
+
+export const ViewerProfileContext = createContext<ViewerProfileContextType | undefined>(undefined);
+
+export function useViewerProfiles() {
+  const context = useContext(ViewerProfileContext);
+  if (context === undefined) {
+    throw new Error('useViewerProfiles must be used within a ViewerProfileProvider');
+  }
+  return context;
+}
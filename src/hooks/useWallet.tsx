@@ -1,4 +1,5 @@
 import { useEffect, useState } from 'react';
+import { FunctionsHttpError } from '@supabase/supabase-js';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from './useAuth';
 import { useToast } from '@/hooks/use-toast';
@@ -13,6 +14,12 @@ export interface WalletTransaction {
   created_at: string;
 }
 
+const WALLET_ERROR_MESSAGES: Record<string, string> = {
+  INSUFFICIENT_FUNDS: 'Your wallet balance is too low. Please top up first.',
+  NOT_FOR_RENT: 'This content is not available for rent.',
+  PLAN_NOT_FOUND: 'This plan is no longer available.',
+};
+
 export const useWallet = () => {
   const { user } = useAuth();
   const { toast } = useToast();
@@ -60,18 +67,21 @@ export const useWallet = () => {
     }
   };
 
-  const topupWallet = async (amount: number) => {
+  const topupWallet = async (amount: number, couponCode?: string) => {
     try {
       const { data, error } = await supabase.functions.invoke('topup-wallet', {
-        body: { amount },
+        body: { amount, couponCode },
       });
 
       if (error) throw error;
       return data;
     } catch (error: any) {
+      const body = error instanceof FunctionsHttpError
+        ? await error.context.json().catch(() => null)
+        : null;
       toast({
         title: 'Top-up Failed',
-        description: error.message,
+        description: body?.error || error.message,
         variant: 'destructive',
       });
       throw error;
@@ -106,10 +116,44 @@ export const useWallet = () => {
     }
   };
 
+  // Display hint only - purchase_with_wallet re-checks the balance under a row lock
   const checkSufficientBalance = (amount: number): boolean => {
     return balance >= amount;
   };
 
+  // Debits the wallet and grants the rental or subscription in one database transaction.
+  // Reusing idempotencyKey for a retry never charges twice.
+  const payWithWallet = async (
+    purpose: 'rental' | 'subscription',
+    targetId: string,
+    idempotencyKey: string,
+    mediaType?: 'movie' | 'series' | 'anime'
+  ) => {
+    const { data, error } = await supabase.rpc('purchase_with_wallet', {
+      _purpose: purpose,
+      _target_id: targetId,
+      _idempotency_key: idempotencyKey,
+      _media_type: mediaType,
+    });
+
+    if (error) {
+      const message = WALLET_ERROR_MESSAGES[
+        Object.keys(WALLET_ERROR_MESSAGES).find((code) => error.message.includes(code)) ?? ''
+      ];
+      toast({
+        title: 'Payment Failed',
+        description: message || error.message,
+        variant: 'destructive',
+      });
+      throw error;
+    }
+
+    const result = data?.[0];
+    if (result) setBalance(Number(result.balance_after));
+    await loadTransactions();
+    return result;
+  };
+
   return {
     balance,
     transactions,
@@ -117,6 +161,7 @@ export const useWallet = () => {
     topupWallet,
     verifyTopup,
     checkSufficientBalance,
+    payWithWallet,
     refreshWallet: loadWallet,
     refreshTransactions: loadTransactions,
   };
@@ -14,6 +14,89 @@ export type Database = {
   }
   public: {
     Tables: {
+      ad_breaks: {
+        Row: {
+          created_at: string
+          id: string
+          is_active: boolean
+          media_id: string | null
+          media_type: string | null
+          offset_seconds: number | null
+          pod_size: number
+          position: string | null
+          source: string
+          tag_url: string | null
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          media_id?: string | null
+          media_type?: string | null
+          offset_seconds?: number | null
+          pod_size?: number
+          position?: string | null
+          source?: string
+          tag_url?: string | null
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          media_id?: string | null
+          media_type?: string | null
+          offset_seconds?: number | null
+          pod_size?: number
+          position?: string | null
+          source?: string
+          tag_url?: string | null
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      ad_events: {
+        Row: {
+          ad_id: string
+          created_at: string
+          device: string
+          event_type: string
+          id: string
+          placement: string
+          session_id: string
+          user_id: string | null
+        }
+        Insert: {
+          ad_id: string
+          created_at?: string
+          device: string
+          event_type: string
+          id?: string
+          placement: string
+          session_id: string
+          user_id?: string | null
+        }
+        Update: {
+          ad_id?: string
+          created_at?: string
+          device?: string
+          event_type?: string
+          id?: string
+          placement?: string
+          session_id?: string
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ad_events_ad_id_fkey"
+            columns: ["ad_id"]
+            isOneToOne: false
+            referencedRelation: "ads"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       ads: {
         Row: {
           ad_format: string | null
@@ -31,6 +114,8 @@ export type Database = {
           impressions: number | null
           is_active: boolean | null
           link_url: string | null
+          max_impressions_per_day: number | null
+          max_impressions_per_session: number | null
           midroll_time_seconds: number | null
           placement: string
           rotation_interval_seconds: number | null
@@ -39,6 +124,7 @@ export type Database = {
           start_date: string
           title: string
           updated_at: string
+          vast_tag_url: string | null
           video_type: string | null
           video_url: string | null
         }
@@ -58,6 +144,8 @@ export type Database = {
           impressions?: number | null
           is_active?: boolean | null
           link_url?: string | null
+          max_impressions_per_day?: number | null
+          max_impressions_per_session?: number | null
           midroll_time_seconds?: number | null
           placement: string
           rotation_interval_seconds?: number | null
@@ -66,6 +154,7 @@ export type Database = {
           start_date?: string
           title: string
           updated_at?: string
+          vast_tag_url?: string | null
           video_type?: string | null
           video_url?: string | null
         }
@@ -85,6 +174,8 @@ export type Database = {
           impressions?: number | null
           is_active?: boolean | null
           link_url?: string | null
+          max_impressions_per_day?: number | null
+          max_impressions_per_session?: number | null
           midroll_time_seconds?: number | null
           placement?: string
           rotation_interval_seconds?: number | null
@@ -93,6 +184,7 @@ export type Database = {
           start_date?: string
           title?: string
           updated_at?: string
+          vast_tag_url?: string | null
           video_type?: string | null
           video_url?: string | null
         }
@@ -176,6 +268,8 @@ export type Database = {
           genre: string | null
           id: string
           mal_id: string | null
+          maturity_rating: string | null
+          original_language: string | null
           pinned: boolean
           rating: number | null
           release_year: number | null
@@ -207,6 +301,8 @@ export type Database = {
           genre?: string | null
           id?: string
           mal_id?: string | null
+          maturity_rating?: string | null
+          original_language?: string | null
           pinned?: boolean
           rating?: number | null
           release_year?: number | null
@@ -238,6 +334,8 @@ export type Database = {
           genre?: string | null
           id?: string
           mal_id?: string | null
+          maturity_rating?: string | null
+          original_language?: string | null
           pinned?: boolean
           rating?: number | null
           release_year?: number | null
@@ -259,6 +357,124 @@ export type Database = {
         }
         Relationships: []
       }
+      audit_log: {
+        Row: {
+          action: string
+          actor_id: string | null
+          created_at: string
+          id: string
+          new_data: Json | null
+          old_data: Json | null
+          record_id: string
+          table_name: string
+          user_id: string | null
+        }
+        Insert: {
+          action: string
+          actor_id?: string | null
+          created_at?: string
+          id?: string
+          new_data?: Json | null
+          old_data?: Json | null
+          record_id: string
+          table_name: string
+          user_id?: string | null
+        }
+        Update: {
+          action?: string
+          actor_id?: string | null
+          created_at?: string
+          id?: string
+          new_data?: Json | null
+          old_data?: Json | null
+          record_id?: string
+          table_name?: string
+          user_id?: string | null
+        }
+        Relationships: []
+      }
+      channel_programs: {
+        Row: {
+          category: string | null
+          channel_id: string
+          created_at: string
+          description: string | null
+          ends_at: string
+          id: string
+          image_url: string | null
+          starts_at: string
+          subtitle: string | null
+          title: string
+          updated_at: string
+        }
+        Insert: {
+          category?: string | null
+          channel_id: string
+          created_at?: string
+          description?: string | null
+          ends_at: string
+          id?: string
+          image_url?: string | null
+          starts_at: string
+          subtitle?: string | null
+          title: string
+          updated_at?: string
+        }
+        Update: {
+          category?: string | null
+          channel_id?: string
+          created_at?: string
+          description?: string | null
+          ends_at?: string
+          id?: string
+          image_url?: string | null
+          starts_at?: string
+          subtitle?: string | null
+          title?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "channel_programs_channel_id_fkey"
+            columns: ["channel_id"]
+            isOneToOne: false
+            referencedRelation: "streaming_channels"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      channel_viewers: {
+        Row: {
+          channel_id: string
+          last_seen_at: string
+          started_at: string
+          user_id: string | null
+          viewer_key: string
+        }
+        Insert: {
+          channel_id: string
+          last_seen_at?: string
+          started_at?: string
+          user_id?: string | null
+          viewer_key: string
+        }
+        Update: {
+          channel_id?: string
+          last_seen_at?: string
+          started_at?: string
+          user_id?: string | null
+          viewer_key?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "channel_viewers_channel_id_fkey"
+            columns: ["channel_id"]
+            isOneToOne: false
+            referencedRelation: "streaming_channels"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       character_voice_actors: {
         Row: {
           character_id: string
@@ -335,9 +551,12 @@ export type Database = {
           backdrop_url: string | null
           created_at: string
           description: string | null
+          home_order: number
           id: string
           name: string
           poster_url: string | null
+          show_on_home: boolean
+          sort_mode: string
           tmdb_id: number | null
           updated_at: string
         }
@@ -345,9 +564,12 @@ export type Database = {
           backdrop_url?: string | null
           created_at?: string
           description?: string | null
+          home_order?: number
           id?: string
           name: string
           poster_url?: string | null
+          show_on_home?: boolean
+          sort_mode?: string
           tmdb_id?: number | null
           updated_at?: string
         }
@@ -355,16 +577,49 @@ export type Database = {
           backdrop_url?: string | null
           created_at?: string
           description?: string | null
+          home_order?: number
           id?: string
           name?: string
           poster_url?: string | null
+          show_on_home?: boolean
+          sort_mode?: string
           tmdb_id?: number | null
           updated_at?: string
         }
         Relationships: []
       }
+      comment_reactions: {
+        Row: {
+          comment_id: string
+          created_at: string
+          reaction: string
+          user_id: string
+        }
+        Insert: {
+          comment_id: string
+          created_at?: string
+          reaction: string
+          user_id: string
+        }
+        Update: {
+          comment_id?: string
+          created_at?: string
+          reaction?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "comment_reactions_comment_id_fkey"
+            columns: ["comment_id"]
+            isOneToOne: false
+            referencedRelation: "comments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       comments: {
         Row: {
+          anime_id: string | null
           content: string
           created_at: string
           episode_id: string | null
@@ -373,10 +628,12 @@ export type Database = {
           is_edited: boolean
           movie_id: string | null
           parent_id: string | null
+          root_id: string | null
           updated_at: string
           user_id: string
         }
         Insert: {
+          anime_id?: string | null
           content: string
           created_at?: string
           episode_id?: string | null
@@ -385,10 +642,12 @@ export type Database = {
           is_edited?: boolean
           movie_id?: string | null
           parent_id?: string | null
+          root_id?: string | null
           updated_at?: string
           user_id: string
         }
         Update: {
+          anime_id?: string | null
           content?: string
           created_at?: string
           episode_id?: string | null
@@ -397,6 +656,7 @@ export type Database = {
           is_edited?: boolean
           movie_id?: string | null
           parent_id?: string | null
+          root_id?: string | null
           updated_at?: string
           user_id?: string
         }
@@ -422,10 +682,91 @@ export type Database = {
             referencedRelation: "comments"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "comments_anime_id_fkey"
+            columns: ["anime_id"]
+            isOneToOne: false
+            referencedRelation: "animes"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "comments_root_id_fkey"
+            columns: ["root_id"]
+            isOneToOne: false
+            referencedRelation: "comments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      coupon_redemptions: {
+        Row: {
+          coupon_id: string
+          created_at: string
+          discount_amount: number
+          expires_at: string
+          final_amount: number
+          id: string
+          original_amount: number
+          payment_transaction_id: string | null
+          purpose: string
+          redeemed_at: string | null
+          status: string
+          target_id: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          coupon_id: string
+          created_at?: string
+          discount_amount: number
+          expires_at: string
+          final_amount: number
+          id?: string
+          original_amount: number
+          payment_transaction_id?: string | null
+          purpose: string
+          redeemed_at?: string | null
+          status?: string
+          target_id?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          coupon_id?: string
+          created_at?: string
+          discount_amount?: number
+          expires_at?: string
+          final_amount?: number
+          id?: string
+          original_amount?: number
+          payment_transaction_id?: string | null
+          purpose?: string
+          redeemed_at?: string | null
+          status?: string
+          target_id?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "coupon_redemptions_coupon_id_fkey"
+            columns: ["coupon_id"]
+            isOneToOne: false
+            referencedRelation: "coupons"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "coupon_redemptions_payment_transaction_id_fkey"
+            columns: ["payment_transaction_id"]
+            isOneToOne: false
+            referencedRelation: "payment_transactions"
+            referencedColumns: ["id"]
+          },
         ]
       }
       coupons: {
         Row: {
+          applies_to: string
           code: string
           created_at: string
           discount_type: string
@@ -433,12 +774,16 @@ export type Database = {
           id: string
           is_active: boolean | null
           max_uses: number | null
+          max_uses_per_user: number | null
+          media_ids: string[] | null
+          plan_ids: string[] | null
           updated_at: string
           used_count: number | null
           valid_from: string
           valid_until: string | null
         }
         Insert: {
+          applies_to?: string
           code: string
           created_at?: string
           discount_type: string
@@ -446,12 +791,16 @@ export type Database = {
           id?: string
           is_active?: boolean | null
           max_uses?: number | null
+          max_uses_per_user?: number | null
+          media_ids?: string[] | null
+          plan_ids?: string[] | null
           updated_at?: string
           used_count?: number | null
           valid_from?: string
           valid_until?: string | null
         }
         Update: {
+          applies_to?: string
           code?: string
           created_at?: string
           discount_type?: string
@@ -459,6 +808,9 @@ export type Database = {
           id?: string
           is_active?: boolean | null
           max_uses?: number | null
+          max_uses_per_user?: number | null
+          media_ids?: string[] | null
+          plan_ids?: string[] | null
           updated_at?: string
           used_count?: number | null
           valid_from?: string
@@ -466,15 +818,59 @@ export type Database = {
         }
         Relationships: []
       }
+      drm_profiles: {
+        Row: {
+          clearkey_keys: Json
+          created_at: string
+          id: string
+          is_active: boolean
+          key_system: string
+          license_headers: Json
+          license_server_url: string | null
+          name: string
+          notes: string | null
+          updated_at: string
+        }
+        Insert: {
+          clearkey_keys?: Json
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          key_system: string
+          license_headers?: Json
+          license_server_url?: string | null
+          name: string
+          notes?: string | null
+          updated_at?: string
+        }
+        Update: {
+          clearkey_keys?: Json
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          key_system?: string
+          license_headers?: Json
+          license_server_url?: string | null
+          name?: string
+          notes?: string | null
+          updated_at?: string
+        }
+        Relationships: []
+      }
       episodes: {
         Row: {
           access: Database["public"]["Enums"]["access_type"] | null
           air_date: string | null
           created_at: string
+          credits_start: number | null
           episode_number: number
           id: string
+          intro_end: number | null
+          intro_start: number | null
           name: string
           overview: string | null
+          recap_end: number | null
+          recap_start: number | null
           runtime: number | null
           season_id: string
           server_url: string | null
@@ -488,10 +884,15 @@ export type Database = {
           access?: Database["public"]["Enums"]["access_type"] | null
           air_date?: string | null
           created_at?: string
+          credits_start?: number | null
           episode_number: number
           id?: string
+          intro_end?: number | null
+          intro_start?: number | null
           name: string
           overview?: string | null
+          recap_end?: number | null
+          recap_start?: number | null
           runtime?: number | null
           season_id: string
           server_url?: string | null
@@ -505,10 +906,15 @@ export type Database = {
           access?: Database["public"]["Enums"]["access_type"] | null
           air_date?: string | null
           created_at?: string
+          credits_start?: number | null
           episode_number?: number
           id?: string
+          intro_end?: number | null
+          intro_start?: number | null
           name?: string
           overview?: string | null
+          recap_end?: number | null
+          recap_start?: number | null
           runtime?: number | null
           season_id?: string
           server_url?: string | null
@@ -651,6 +1057,74 @@ export type Database = {
         }
         Relationships: []
       }
+      media_uploads: {
+        Row: {
+          bucket_name: string
+          completed_at: string | null
+          content_type: string
+          created_at: string
+          file_category: string
+          file_fingerprint: string
+          file_name: string
+          file_path: string
+          file_size: number
+          id: string
+          media_file_id: string | null
+          part_size: number
+          s3_upload_id: string
+          status: string
+          storage_account: number
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          bucket_name?: string
+          completed_at?: string | null
+          content_type: string
+          created_at?: string
+          file_category?: string
+          file_fingerprint: string
+          file_name: string
+          file_path: string
+          file_size: number
+          id?: string
+          media_file_id?: string | null
+          part_size: number
+          s3_upload_id: string
+          status?: string
+          storage_account?: number
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          bucket_name?: string
+          completed_at?: string | null
+          content_type?: string
+          created_at?: string
+          file_category?: string
+          file_fingerprint?: string
+          file_name?: string
+          file_path?: string
+          file_size?: number
+          id?: string
+          media_file_id?: string | null
+          part_size?: number
+          s3_upload_id?: string
+          status?: string
+          storage_account?: number
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "media_uploads_media_file_id_fkey"
+            columns: ["media_file_id"]
+            isOneToOne: false
+            referencedRelation: "media_files"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       movie_cast: {
         Row: {
           actor_name: string
@@ -703,6 +1177,8 @@ export type Database = {
           genre: string
           id: string
           imdb_id: string | null
+          maturity_rating: string | null
+          original_language: string | null
           pinned: boolean
           price: number | null
           rating: number
@@ -732,6 +1208,8 @@ export type Database = {
           genre: string
           id?: string
           imdb_id?: string | null
+          maturity_rating?: string | null
+          original_language?: string | null
           pinned?: boolean
           price?: number | null
           rating: number
@@ -761,6 +1239,8 @@ export type Database = {
           genre?: string
           id?: string
           imdb_id?: string | null
+          maturity_rating?: string | null
+          original_language?: string | null
           pinned?: boolean
           price?: number | null
           rating?: number
@@ -812,32 +1292,117 @@ export type Database = {
         }
         Relationships: []
       }
-      payment_transactions: {
+      notifications: {
         Row: {
-          amount: number
+          audience: string
+          audience_cast_name: string | null
+          audience_cast_tmdb_id: number | null
+          audience_media_id: string | null
+          audience_media_type: string | null
+          audience_plan_id: string | null
+          audience_release_id: string | null
           created_at: string
-          currency: string
+          created_by: string | null
+          error_message: string | null
           id: string
-          khqr_data: Json | null
-          metadata: Json | null
-          payment_method: string
-          payment_status: string
-          reference_id: string | null
-          reference_type: string | null
-          transaction_id: string | null
-          transaction_type: string
+          link_url: string | null
+          message: string
+          recipient_count: number
+          scheduled_for: string | null
+          sent_at: string | null
+          status: string
+          title: string
+          type: string
           updated_at: string
-          user_id: string
         }
         Insert: {
-          amount: number
+          audience?: string
+          audience_cast_name?: string | null
+          audience_cast_tmdb_id?: number | null
+          audience_media_id?: string | null
+          audience_media_type?: string | null
+          audience_plan_id?: string | null
+          audience_release_id?: string | null
           created_at?: string
-          currency?: string
+          created_by?: string | null
+          error_message?: string | null
+          id?: string
+          link_url?: string | null
+          message: string
+          recipient_count?: number
+          scheduled_for?: string | null
+          sent_at?: string | null
+          status?: string
+          title: string
+          type?: string
+          updated_at?: string
+        }
+        Update: {
+          audience?: string
+          audience_cast_name?: string | null
+          audience_cast_tmdb_id?: number | null
+          audience_media_id?: string | null
+          audience_media_type?: string | null
+          audience_plan_id?: string | null
+          audience_release_id?: string | null
+          created_at?: string
+          created_by?: string | null
+          error_message?: string | null
+          id?: string
+          link_url?: string | null
+          message?: string
+          recipient_count?: number
+          scheduled_for?: string | null
+          sent_at?: string | null
+          status?: string
+          title?: string
+          type?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notifications_audience_plan_id_fkey"
+            columns: ["audience_plan_id"]
+            isOneToOne: false
+            referencedRelation: "subscription_plans"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      payment_transactions: {
+        Row: {
+          amount: number
+          created_at: string
+          currency: string
+          expires_at: string | null
+          id: string
+          khqr_data: Json | null
+          metadata: Json | null
+          paid_at: string | null
+          payment_method: string
+          payment_status: string
+          provider: string | null
+          provider_reference: string | null
+          reference_id: string | null
+          reference_type: string | null
+          transaction_id: string | null
+          transaction_type: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          amount: number
+          created_at?: string
+          currency?: string
+          expires_at?: string | null
           id?: string
           khqr_data?: Json | null
           metadata?: Json | null
+          paid_at?: string | null
           payment_method?: string
           payment_status?: string
+          provider?: string | null
+          provider_reference?: string | null
           reference_id?: string | null
           reference_type?: string | null
           transaction_id?: string | null
@@ -849,11 +1414,15 @@ export type Database = {
           amount?: number
           created_at?: string
           currency?: string
+          expires_at?: string | null
           id?: string
           khqr_data?: Json | null
           metadata?: Json | null
+          paid_at?: string | null
           payment_method?: string
           payment_status?: string
+          provider?: string | null
+          provider_reference?: string | null
           reference_id?: string | null
           reference_type?: string | null
           transaction_id?: string | null
@@ -863,8 +1432,115 @@ export type Database = {
         }
         Relationships: []
       }
+      payment_webhook_events: {
+        Row: {
+          created_at: string
+          event_id: string
+          id: string
+          md5: string
+          payload: Json
+          processed_at: string | null
+          status: string
+          transaction_id: string | null
+        }
+        Insert: {
+          created_at?: string
+          event_id: string
+          id?: string
+          md5: string
+          payload: Json
+          processed_at?: string | null
+          status: string
+          transaction_id?: string | null
+        }
+        Update: {
+          created_at?: string
+          event_id?: string
+          id?: string
+          md5?: string
+          payload?: Json
+          processed_at?: string | null
+          status?: string
+          transaction_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payment_webhook_events_transaction_id_fkey"
+            columns: ["transaction_id"]
+            isOneToOne: false
+            referencedRelation: "payment_transactions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      playback_leases: {
+        Row: {
+          created_at: string
+          device_id: string
+          device_name: string | null
+          device_type: string | null
+          expires_at: string
+          id: string
+          ip_address: string | null
+          last_heartbeat_at: string
+          max_streams: number
+          media_id: string | null
+          media_type: string | null
+          revoked_at: string | null
+          revoked_reason: string | null
+          source_id: string | null
+          user_agent: string | null
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          device_id: string
+          device_name?: string | null
+          device_type?: string | null
+          expires_at: string
+          id?: string
+          ip_address?: string | null
+          last_heartbeat_at?: string
+          max_streams: number
+          media_id?: string | null
+          media_type?: string | null
+          revoked_at?: string | null
+          revoked_reason?: string | null
+          source_id?: string | null
+          user_agent?: string | null
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          device_id?: string
+          device_name?: string | null
+          device_type?: string | null
+          expires_at?: string
+          id?: string
+          ip_address?: string | null
+          last_heartbeat_at?: string
+          max_streams?: number
+          media_id?: string | null
+          media_type?: string | null
+          revoked_at?: string | null
+          revoked_reason?: string | null
+          source_id?: string | null
+          user_agent?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "playback_leases_source_id_fkey"
+            columns: ["source_id"]
+            isOneToOne: false
+            referencedRelation: "video_sources"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       profiles: {
         Row: {
+          autoplay_next_episode: boolean
           bio: string | null
           cover_picture_url: string | null
           created_at: string
@@ -874,10 +1550,12 @@ export type Database = {
           location: string | null
           profile_picture_url: string | null
           social_links: Json | null
+          subtitle_style: Json | null
           updated_at: string
           website: string | null
         }
         Insert: {
+          autoplay_next_episode?: boolean
           bio?: string | null
           cover_picture_url?: string | null
           created_at?: string
@@ -887,10 +1565,12 @@ export type Database = {
           location?: string | null
           profile_picture_url?: string | null
           social_links?: Json | null
+          subtitle_style?: Json | null
           updated_at?: string
           website?: string | null
         }
         Update: {
+          autoplay_next_episode?: boolean
           bio?: string | null
           cover_picture_url?: string | null
           created_at?: string
@@ -900,6 +1580,7 @@ export type Database = {
           location?: string | null
           profile_picture_url?: string | null
           social_links?: Json | null
+          subtitle_style?: Json | null
           updated_at?: string
           website?: string | null
         }
@@ -908,22 +1589,37 @@ export type Database = {
       reservations: {
         Row: {
           created_at: string
+          email_attempts: number
+          email_claimed_at: string | null
+          email_error: string | null
+          emailed_at: string | null
           id: string
           notified: boolean
+          notified_at: string | null
           release_id: string
           user_id: string
         }
         Insert: {
           created_at?: string
+          email_attempts?: number
+          email_claimed_at?: string | null
+          email_error?: string | null
+          emailed_at?: string | null
           id?: string
           notified?: boolean
+          notified_at?: string | null
           release_id: string
           user_id: string
         }
         Update: {
           created_at?: string
+          email_attempts?: number
+          email_claimed_at?: string | null
+          email_error?: string | null
+          emailed_at?: string | null
           id?: string
           notified?: boolean
+          notified_at?: string | null
           release_id?: string
           user_id?: string
         }
@@ -937,6 +1633,24 @@ export type Database = {
           },
         ]
       }
+      role_permissions: {
+        Row: {
+          created_at: string
+          permission: string
+          role: Database["public"]["Enums"]["app_role"]
+        }
+        Insert: {
+          created_at?: string
+          permission: string
+          role: Database["public"]["Enums"]["app_role"]
+        }
+        Update: {
+          created_at?: string
+          permission?: string
+          role?: Database["public"]["Enums"]["app_role"]
+        }
+        Relationships: []
+      }
       seasons: {
         Row: {
           air_date: string | null
@@ -998,6 +1712,7 @@ export type Database = {
           id: string
           imdb_id: string | null
           last_air_date: string | null
+          maturity_rating: string | null
           number_of_episodes: number | null
           number_of_seasons: number | null
           original_language: string | null
@@ -1035,6 +1750,7 @@ export type Database = {
           id?: string
           imdb_id?: string | null
           last_air_date?: string | null
+          maturity_rating?: string | null
           number_of_episodes?: number | null
           number_of_seasons?: number | null
           original_language?: string | null
@@ -1072,6 +1788,7 @@ export type Database = {
           id?: string
           imdb_id?: string | null
           last_air_date?: string | null
+          maturity_rating?: string | null
           number_of_episodes?: number | null
           number_of_seasons?: number | null
           original_language?: string | null
@@ -1232,6 +1949,7 @@ export type Database = {
           category: string | null
           created_at: string
           description: string | null
+          epg_channel_id: string | null
           id: string
           is_active: boolean | null
           name: string
@@ -1244,6 +1962,7 @@ export type Database = {
           category?: string | null
           created_at?: string
           description?: string | null
+          epg_channel_id?: string | null
           id?: string
           is_active?: boolean | null
           name: string
@@ -1256,6 +1975,7 @@ export type Database = {
           category?: string | null
           created_at?: string
           description?: string | null
+          epg_channel_id?: string | null
           id?: string
           is_active?: boolean | null
           name?: string
@@ -1266,8 +1986,60 @@ export type Database = {
         }
         Relationships: []
       }
+      streaming_servers: {
+        Row: {
+          base_url: string
+          created_at: string
+          health_check_url: string | null
+          health_status: string
+          id: string
+          is_active: boolean
+          last_checked_at: string | null
+          last_error: string | null
+          last_latency_ms: number | null
+          name: string
+          notes: string | null
+          priority: number
+          server_type: string
+          updated_at: string
+        }
+        Insert: {
+          base_url: string
+          created_at?: string
+          health_check_url?: string | null
+          health_status?: string
+          id?: string
+          is_active?: boolean
+          last_checked_at?: string | null
+          last_error?: string | null
+          last_latency_ms?: number | null
+          name: string
+          notes?: string | null
+          priority?: number
+          server_type?: string
+          updated_at?: string
+        }
+        Update: {
+          base_url?: string
+          created_at?: string
+          health_check_url?: string | null
+          health_status?: string
+          id?: string
+          is_active?: boolean
+          last_checked_at?: string | null
+          last_error?: string | null
+          last_latency_ms?: number | null
+          name?: string
+          notes?: string | null
+          priority?: number
+          server_type?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
       subscription_plans: {
         Row: {
+          ad_free: boolean
           created_at: string
           description: string | null
           duration_days: number
@@ -1280,6 +2052,7 @@ export type Database = {
           updated_at: string
         }
         Insert: {
+          ad_free?: boolean
           created_at?: string
           description?: string | null
           duration_days: number
@@ -1292,6 +2065,7 @@ export type Database = {
           updated_at?: string
         }
         Update: {
+          ad_free?: boolean
           created_at?: string
           description?: string | null
           duration_days?: number
@@ -1305,6 +2079,73 @@ export type Database = {
         }
         Relationships: []
       }
+      subtitles: {
+        Row: {
+          bucket_name: string
+          created_at: string
+          episode_id: string | null
+          file_path: string
+          id: string
+          is_default: boolean
+          label: string
+          language_id: string
+          movie_id: string | null
+          source_format: string
+          storage_account: number
+          updated_at: string
+        }
+        Insert: {
+          bucket_name?: string
+          created_at?: string
+          episode_id?: string | null
+          file_path: string
+          id?: string
+          is_default?: boolean
+          label: string
+          language_id: string
+          movie_id?: string | null
+          source_format: string
+          storage_account?: number
+          updated_at?: string
+        }
+        Update: {
+          bucket_name?: string
+          created_at?: string
+          episode_id?: string | null
+          file_path?: string
+          id?: string
+          is_default?: boolean
+          label?: string
+          language_id?: string
+          movie_id?: string | null
+          source_format?: string
+          storage_account?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "subtitles_episode_id_fkey"
+            columns: ["episode_id"]
+            isOneToOne: false
+            referencedRelation: "episodes"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "subtitles_language_id_fkey"
+            columns: ["language_id"]
+            isOneToOne: false
+            referencedRelation: "languages"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "subtitles_movie_id_fkey"
+            columns: ["movie_id"]
+            isOneToOne: false
+            referencedRelation: "movies"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       suggestions: {
         Row: {
           admin_notes: string | null
@@ -1344,73 +2185,275 @@ export type Database = {
         }
         Relationships: []
       }
-      upcoming_releases: {
+      telegram_identities: {
         Row: {
-          backdrop_url: string | null
           created_at: string
-          created_by: string | null
-          description: string | null
-          genre: string | null
+          first_name: string | null
           id: string
-          imdb_id: string | null
-          release_date: string | null
-          status: string
-          thumbnail: string | null
-          title: string
-          tmdb_id: string | null
-          trailer_url: string | null
-          type: string
-          updated_at: string
+          last_login_at: string
+          last_name: string | null
+          photo_url: string | null
+          telegram_id: number
+          user_id: string
+          username: string | null
         }
         Insert: {
-          backdrop_url?: string | null
           created_at?: string
-          created_by?: string | null
-          description?: string | null
-          genre?: string | null
+          first_name?: string | null
           id?: string
-          imdb_id?: string | null
-          release_date?: string | null
-          status?: string
-          thumbnail?: string | null
-          title: string
-          tmdb_id?: string | null
-          trailer_url?: string | null
-          type: string
-          updated_at?: string
+          last_login_at?: string
+          last_name?: string | null
+          photo_url?: string | null
+          telegram_id: number
+          user_id: string
+          username?: string | null
         }
         Update: {
-          backdrop_url?: string | null
           created_at?: string
-          created_by?: string | null
-          description?: string | null
-          genre?: string | null
+          first_name?: string | null
           id?: string
-          imdb_id?: string | null
-          release_date?: string | null
-          status?: string
-          thumbnail?: string | null
-          title?: string
-          tmdb_id?: string | null
-          trailer_url?: string | null
-          type?: string
-          updated_at?: string
+          last_login_at?: string
+          last_name?: string | null
+          photo_url?: string | null
+          telegram_id?: number
+          user_id?: string
+          username?: string | null
         }
         Relationships: []
       }
-      user_followed_cast: {
+      transcode_job_logs: {
         Row: {
-          actor_name: string
-          cast_id: string
-          cast_type: string
+          attempt: number
           created_at: string
           id: string
-          profile_url: string | null
-          tmdb_person_id: number | null
-          user_id: string
+          job_id: string
+          level: string
+          message: string
         }
         Insert: {
-          actor_name: string
+          attempt?: number
+          created_at?: string
+          id?: string
+          job_id: string
+          level?: string
+          message: string
+        }
+        Update: {
+          attempt?: number
+          created_at?: string
+          id?: string
+          job_id?: string
+          level?: string
+          message?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "transcode_job_logs_job_id_fkey"
+            columns: ["job_id"]
+            isOneToOne: false
+            referencedRelation: "transcode_jobs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      transcode_jobs: {
+        Row: {
+          attempts: number
+          created_at: string
+          episode_id: string | null
+          error: string | null
+          finished_at: string | null
+          heartbeat_at: string | null
+          id: string
+          make_default: boolean
+          max_attempts: number
+          media_file_id: string | null
+          movie_id: string | null
+          output_prefix: string | null
+          permission: string
+          progress: number
+          renditions: string[]
+          requested_by: string
+          server_name: string
+          source_bucket: string
+          source_path: string
+          source_storage_account: number
+          started_at: string | null
+          status: string
+          updated_at: string
+          version: string
+          video_source_id: string | null
+          worker_id: string | null
+        }
+        Insert: {
+          attempts?: number
+          created_at?: string
+          episode_id?: string | null
+          error?: string | null
+          finished_at?: string | null
+          heartbeat_at?: string | null
+          id?: string
+          make_default?: boolean
+          max_attempts?: number
+          media_file_id?: string | null
+          movie_id?: string | null
+          output_prefix?: string | null
+          permission?: string
+          progress?: number
+          renditions?: string[]
+          requested_by?: string
+          server_name?: string
+          source_bucket?: string
+          source_path: string
+          source_storage_account?: number
+          started_at?: string | null
+          status?: string
+          updated_at?: string
+          version?: string
+          video_source_id?: string | null
+          worker_id?: string | null
+        }
+        Update: {
+          attempts?: number
+          created_at?: string
+          episode_id?: string | null
+          error?: string | null
+          finished_at?: string | null
+          heartbeat_at?: string | null
+          id?: string
+          make_default?: boolean
+          max_attempts?: number
+          media_file_id?: string | null
+          movie_id?: string | null
+          output_prefix?: string | null
+          permission?: string
+          progress?: number
+          renditions?: string[]
+          requested_by?: string
+          server_name?: string
+          source_bucket?: string
+          source_path?: string
+          source_storage_account?: number
+          started_at?: string | null
+          status?: string
+          updated_at?: string
+          version?: string
+          video_source_id?: string | null
+          worker_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "transcode_jobs_episode_id_fkey"
+            columns: ["episode_id"]
+            isOneToOne: false
+            referencedRelation: "episodes"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "transcode_jobs_media_file_id_fkey"
+            columns: ["media_file_id"]
+            isOneToOne: false
+            referencedRelation: "media_files"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "transcode_jobs_movie_id_fkey"
+            columns: ["movie_id"]
+            isOneToOne: false
+            referencedRelation: "movies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "transcode_jobs_video_source_id_fkey"
+            columns: ["video_source_id"]
+            isOneToOne: false
+            referencedRelation: "video_sources"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      upcoming_releases: {
+        Row: {
+          anilist_id: string | null
+          backdrop_url: string | null
+          created_at: string
+          created_by: string | null
+          description: string | null
+          genre: string | null
+          id: string
+          imdb_id: string | null
+          linked_media_id: string | null
+          linked_media_type: string | null
+          release_date: string | null
+          released_at: string | null
+          status: string
+          thumbnail: string | null
+          title: string
+          tmdb_id: string | null
+          trailer_url: string | null
+          type: string
+          updated_at: string
+          watch_path: string | null
+        }
+        Insert: {
+          anilist_id?: string | null
+          backdrop_url?: string | null
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          genre?: string | null
+          id?: string
+          imdb_id?: string | null
+          linked_media_id?: string | null
+          linked_media_type?: string | null
+          release_date?: string | null
+          released_at?: string | null
+          status?: string
+          thumbnail?: string | null
+          title: string
+          tmdb_id?: string | null
+          trailer_url?: string | null
+          type: string
+          updated_at?: string
+          watch_path?: string | null
+        }
+        Update: {
+          anilist_id?: string | null
+          backdrop_url?: string | null
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          genre?: string | null
+          id?: string
+          imdb_id?: string | null
+          linked_media_id?: string | null
+          linked_media_type?: string | null
+          release_date?: string | null
+          released_at?: string | null
+          status?: string
+          thumbnail?: string | null
+          title?: string
+          tmdb_id?: string | null
+          trailer_url?: string | null
+          type?: string
+          updated_at?: string
+          watch_path?: string | null
+        }
+        Relationships: []
+      }
+      user_followed_cast: {
+        Row: {
+          actor_name: string
+          cast_id: string
+          cast_type: string
+          created_at: string
+          id: string
+          profile_url: string | null
+          tmdb_person_id: number | null
+          user_id: string
+        }
+        Insert: {
+          actor_name: string
           cast_id: string
           cast_type: string
           created_at?: string
@@ -1438,6 +2481,7 @@ export type Database = {
           like_type: string
           media_id: string
           media_type: string
+          profile_id: string
           updated_at: string | null
           user_id: string
         }
@@ -1447,6 +2491,7 @@ export type Database = {
           like_type: string
           media_id: string
           media_type: string
+          profile_id: string
           updated_at?: string | null
           user_id: string
         }
@@ -1456,10 +2501,51 @@ export type Database = {
           like_type?: string
           media_id?: string
           media_type?: string
+          profile_id?: string
           updated_at?: string | null
           user_id?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "user_likes_profile_id_fkey"
+            columns: ["profile_id"]
+            isOneToOne: false
+            referencedRelation: "viewer_profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      user_notifications: {
+        Row: {
+          delivered_at: string
+          id: string
+          notification_id: string
+          read_at: string | null
+          user_id: string
+        }
+        Insert: {
+          delivered_at?: string
+          id?: string
+          notification_id: string
+          read_at?: string | null
+          user_id: string
+        }
+        Update: {
+          delivered_at?: string
+          id?: string
+          notification_id?: string
+          read_at?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "user_notifications_notification_id_fkey"
+            columns: ["notification_id"]
+            isOneToOne: false
+            referencedRelation: "notifications"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       user_rentals: {
         Row: {
@@ -1545,6 +2631,33 @@ export type Database = {
         }
         Relationships: []
       }
+      user_role_audit: {
+        Row: {
+          action: string
+          actor_id: string | null
+          created_at: string
+          id: string
+          role: Database["public"]["Enums"]["app_role"]
+          user_id: string
+        }
+        Insert: {
+          action: string
+          actor_id?: string | null
+          created_at?: string
+          id?: string
+          role: Database["public"]["Enums"]["app_role"]
+          user_id: string
+        }
+        Update: {
+          action?: string
+          actor_id?: string | null
+          created_at?: string
+          id?: string
+          role?: Database["public"]["Enums"]["app_role"]
+          user_id?: string
+        }
+        Relationships: []
+      }
       user_roles: {
         Row: {
           created_at: string | null
@@ -1679,6 +2792,7 @@ export type Database = {
           id: string
           media_id: string
           media_type: string
+          profile_id: string
           user_id: string
         }
         Insert: {
@@ -1686,6 +2800,7 @@ export type Database = {
           id?: string
           media_id: string
           media_type: string
+          profile_id: string
           user_id: string
         }
         Update: {
@@ -1693,13 +2808,23 @@ export type Database = {
           id?: string
           media_id?: string
           media_type?: string
+          profile_id?: string
           user_id?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "user_watchlist_profile_id_fkey"
+            columns: ["profile_id"]
+            isOneToOne: false
+            referencedRelation: "viewer_profiles"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       video_sources: {
         Row: {
           created_at: string
+          drm_profile_id: string | null
           episode_id: string | null
           id: string
           is_default: boolean
@@ -1716,6 +2841,7 @@ export type Database = {
         }
         Insert: {
           created_at?: string
+          drm_profile_id?: string | null
           episode_id?: string | null
           id?: string
           is_default?: boolean
@@ -1732,6 +2858,7 @@ export type Database = {
         }
         Update: {
           created_at?: string
+          drm_profile_id?: string | null
           episode_id?: string | null
           id?: string
           is_default?: boolean
@@ -1746,6 +2873,85 @@ export type Database = {
           url?: string | null
           version?: string | null
         }
+        Relationships: [
+          {
+            foreignKeyName: "video_sources_drm_profile_id_fkey"
+            columns: ["drm_profile_id"]
+            isOneToOne: false
+            referencedRelation: "drm_profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      viewer_profile_pins: {
+        Row: {
+          failed_attempts: number
+          locked_until: string | null
+          pin_hash: string
+          profile_id: string
+          updated_at: string
+        }
+        Insert: {
+          failed_attempts?: number
+          locked_until?: string | null
+          pin_hash: string
+          profile_id: string
+          updated_at?: string
+        }
+        Update: {
+          failed_attempts?: number
+          locked_until?: string | null
+          pin_hash?: string
+          profile_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "viewer_profile_pins_profile_id_fkey"
+            columns: ["profile_id"]
+            isOneToOne: true
+            referencedRelation: "viewer_profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      viewer_profiles: {
+        Row: {
+          account_id: string
+          avatar_url: string | null
+          created_at: string
+          has_pin: boolean
+          id: string
+          is_primary: boolean
+          language: string | null
+          maturity_rating: string
+          name: string
+          updated_at: string
+        }
+        Insert: {
+          account_id: string
+          avatar_url?: string | null
+          created_at?: string
+          has_pin?: boolean
+          id?: string
+          is_primary?: boolean
+          language?: string | null
+          maturity_rating?: string
+          name: string
+          updated_at?: string
+        }
+        Update: {
+          account_id?: string
+          avatar_url?: string | null
+          created_at?: string
+          has_pin?: boolean
+          id?: string
+          is_primary?: boolean
+          language?: string | null
+          maturity_rating?: string
+          name?: string
+          updated_at?: string
+        }
         Relationships: []
       }
       voice_actors: {
@@ -1804,9 +3010,11 @@ export type Database = {
           created_at: string
           description: string | null
           id: string
+          idempotency_key: string | null
           payment_transaction_id: string | null
           reference_id: string | null
           reference_type: string | null
+          reversed_transaction_id: string | null
           transaction_type: string
           user_id: string
           wallet_id: string
@@ -1818,9 +3026,11 @@ export type Database = {
           created_at?: string
           description?: string | null
           id?: string
+          idempotency_key?: string | null
           payment_transaction_id?: string | null
           reference_id?: string | null
           reference_type?: string | null
+          reversed_transaction_id?: string | null
           transaction_type: string
           user_id: string
           wallet_id: string
@@ -1832,9 +3042,11 @@ export type Database = {
           created_at?: string
           description?: string | null
           id?: string
+          idempotency_key?: string | null
           payment_transaction_id?: string | null
           reference_id?: string | null
           reference_type?: string | null
+          reversed_transaction_id?: string | null
           transaction_type?: string
           user_id?: string
           wallet_id?: string
@@ -1854,51 +3066,97 @@ export type Database = {
             referencedRelation: "user_wallets"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "wallet_transactions_reversed_transaction_id_fkey"
+            columns: ["reversed_transaction_id"]
+            isOneToOne: false
+            referencedRelation: "wallet_transactions"
+            referencedColumns: ["id"]
+          },
         ]
       }
-      watch_history: {
+      watch_activity_daily: {
         Row: {
+          activity_date: string
           completed: boolean
           created_at: string
-          duration: number
           episode_id: string | null
           id: string
-          last_watched_at: string
           movie_id: string | null
-          progress: number
           updated_at: string
           user_id: string
+          watch_seconds: number
         }
         Insert: {
+          activity_date: string
           completed?: boolean
           created_at?: string
-          duration?: number
           episode_id?: string | null
           id?: string
-          last_watched_at?: string
           movie_id?: string | null
-          progress?: number
           updated_at?: string
           user_id: string
+          watch_seconds?: number
         }
         Update: {
+          activity_date?: string
           completed?: boolean
           created_at?: string
-          duration?: number
           episode_id?: string | null
           id?: string
-          last_watched_at?: string
           movie_id?: string | null
-          progress?: number
           updated_at?: string
           user_id?: string
+          watch_seconds?: number
         }
-        Relationships: [
-          {
-            foreignKeyName: "watch_history_episode_id_fkey"
-            columns: ["episode_id"]
-            isOneToOne: false
-            referencedRelation: "episodes"
+        Relationships: []
+      }
+      watch_history: {
+        Row: {
+          completed: boolean
+          created_at: string
+          duration: number
+          episode_id: string | null
+          id: string
+          last_watched_at: string
+          movie_id: string | null
+          profile_id: string
+          progress: number
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          completed?: boolean
+          created_at?: string
+          duration?: number
+          episode_id?: string | null
+          id?: string
+          last_watched_at?: string
+          movie_id?: string | null
+          profile_id: string
+          progress?: number
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          completed?: boolean
+          created_at?: string
+          duration?: number
+          episode_id?: string | null
+          id?: string
+          last_watched_at?: string
+          movie_id?: string | null
+          profile_id?: string
+          progress?: number
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "watch_history_episode_id_fkey"
+            columns: ["episode_id"]
+            isOneToOne: false
+            referencedRelation: "episodes"
             referencedColumns: ["id"]
           },
           {
@@ -1908,13 +3166,403 @@ export type Database = {
             referencedRelation: "movies"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "watch_history_profile_id_fkey"
+            columns: ["profile_id"]
+            isOneToOne: false
+            referencedRelation: "viewer_profiles"
+            referencedColumns: ["id"]
+          },
         ]
       }
     }
     Views: {
-      [_ in never]: never
+      collection_entries: {
+        Row: {
+          access: string | null
+          backdrop_url: string | null
+          collection_id: string | null
+          created_at: string | null
+          id: string | null
+          media_id: string | null
+          media_type: string | null
+          order_index: number | null
+          rating: number | null
+          release_year: number | null
+          thumbnail: string | null
+          title: string | null
+          tmdb_id: string | null
+        }
+        Relationships: []
+      }
+      notification_stats: {
+        Row: {
+          delivered_count: number | null
+          notification_id: string | null
+          read_count: number | null
+        }
+        Relationships: []
+      }
+      wallet_reconciliation: {
+        Row: {
+          balance: number | null
+          difference: number | null
+          email: string | null
+          entry_count: number | null
+          is_consistent: boolean | null
+          last_balance_after: number | null
+          last_entry_at: string | null
+          ledger_balance: number | null
+          user_id: string | null
+          wallet_id: string | null
+        }
+        Relationships: []
+      }
     }
     Functions: {
+      acquire_playback_lease: {
+        Args: {
+          _device_id: string
+          _device_name?: string
+          _device_type?: string
+          _ip_address?: string
+          _max_streams: number
+          _media_id?: string
+          _media_type?: string
+          _source_id?: string
+          _user_agent?: string
+          _user_id: string
+        }
+        Returns: {
+          active_streams: number
+          expires_at: string
+          lease_id: string
+        }[]
+      }
+      ad_analytics_breakdown: {
+        Args: {
+          _from: string
+          _to: string
+        }
+        Returns: {
+          ad_id: string
+          ad_type: string
+          clicks: number
+          completions: number
+          device: string
+          impressions: number
+          placement: string
+          skips: number
+          title: string
+        }[]
+      }
+      ad_analytics_daily: {
+        Args: {
+          _from: string
+          _to: string
+        }
+        Returns: {
+          clicks: number
+          completions: number
+          day: string
+          impressions: number
+          skips: number
+        }[]
+      }
+      analytics_conversion_funnel: {
+        Args: {
+          _from: string
+          _to: string
+        }
+        Returns: {
+          step: string
+          step_order: number
+          users: number
+        }[]
+      }
+      analytics_daily: {
+        Args: {
+          _from: string
+          _to: string
+        }
+        Returns: {
+          active_users: number
+          completed_views: number
+          day: string
+          new_users: number
+          revenue: number
+          watch_minutes: number
+        }[]
+      }
+      analytics_overview: {
+        Args: {
+          _from: string
+          _to: string
+        }
+        Returns: {
+          active_users: number
+          avg_daily_active_users: number
+          completed_views: number
+          monthly_active_users: number
+          new_users: number
+          paying_users: number
+          revenue: number
+          watch_minutes: number
+        }[]
+      }
+      analytics_require_admin: {
+        Args: never
+        Returns: undefined
+      }
+      analytics_revenue_by_product: {
+        Args: {
+          _from: string
+          _to: string
+        }
+        Returns: {
+          amount: number
+          cash_amount: number
+          product_type: string
+          transactions: number
+          wallet_amount: number
+        }[]
+      }
+      analytics_subscription_churn: {
+        Args: {
+          _from: string
+          _to: string
+        }
+        Returns: {
+          active_at_start: number
+          churn_rate: number
+          churned: number
+          month: string
+          new_subscribers: number
+        }[]
+      }
+      analytics_top_titles: {
+        Args: {
+          _from: string
+          _limit?: number
+          _to: string
+        }
+        Returns: {
+          completed_views: number
+          media_id: string
+          media_type: string
+          title: string
+          viewers: number
+          watch_minutes: number
+        }[]
+      }
+      audit_log_actors: {
+        Args: never
+        Returns: {
+          actor_id: string
+          email: string
+        }[]
+      }
+      cancel_transcode_job: {
+        Args: {
+          _job_id: string
+        }
+        Returns: undefined
+      }
+      channel_heartbeat: {
+        Args: {
+          _channel_id: string
+          _viewer_key: string
+        }
+        Returns: number
+      }
+      channel_viewer_ttl: {
+        Args: never
+        Returns: unknown
+      }
+      claim_reservation_emails: {
+        Args: {
+          _limit?: number
+        }
+        Returns: {
+          email: string
+          release_title: string
+          release_type: string
+          reservation_id: string
+          watch_path: string
+        }[]
+      }
+      claim_transcode_job: {
+        Args: {
+          _worker_id: string
+        }
+        Returns: {
+          attempts: number
+          created_at: string
+          episode_id: string | null
+          error: string | null
+          finished_at: string | null
+          heartbeat_at: string | null
+          id: string
+          make_default: boolean
+          max_attempts: number
+          media_file_id: string | null
+          movie_id: string | null
+          output_prefix: string | null
+          permission: string
+          progress: number
+          renditions: string[]
+          requested_by: string
+          server_name: string
+          source_bucket: string
+          source_path: string
+          source_storage_account: number
+          started_at: string | null
+          status: string
+          updated_at: string
+          version: string
+          video_source_id: string | null
+          worker_id: string | null
+        }[]
+      }
+      collection_progress: {
+        Args: {
+          _collection_ids: string[]
+        }
+        Returns: {
+          collection_id: string
+          media_id: string
+          media_type: string
+          started: boolean
+          watched: boolean
+        }[]
+      }
+      comment_watch_path: {
+        Args: {
+          _comment_id: string
+        }
+        Returns: string
+      }
+      complete_reservation_email: {
+        Args: {
+          _error?: string
+          _reservation_id: string
+        }
+        Returns: undefined
+      }
+      complete_transcode_job: {
+        Args: {
+          _job_id: string
+          _master: Json
+          _renditions: Json
+          _worker_id: string
+        }
+        Returns: string
+      }
+      content_is_published: {
+        Args: {
+          _media_id: string
+          _media_type: string
+        }
+        Returns: boolean
+      }
+      content_watch_path: {
+        Args: {
+          _media_id: string
+          _media_type: string
+        }
+        Returns: string
+      }
+      deliver_due_notifications: {
+        Args: {
+          _limit?: number
+        }
+        Returns: {
+          error: string
+          notification_id: string
+          recipients: number
+        }[]
+      }
+      deliver_notification: {
+        Args: {
+          _notification_id: string
+        }
+        Returns: number
+      }
+      fail_transcode_job: {
+        Args: {
+          _error: string
+          _job_id: string
+          _worker_id: string
+        }
+        Returns: string
+      }
+      finalize_coupon_redemption: {
+        Args: {
+          _payment_transaction_id: string
+        }
+        Returns: boolean
+      }
+      find_orphaned_media_files: {
+        Args: {
+          _min_age?: unknown
+        }
+        Returns: {
+          bucket_name: string
+          content_type: string | null
+          created_at: string | null
+          file_category: string | null
+          file_path: string
+          file_size: number | null
+          id: string
+          storage_account: number
+          updated_at: string | null
+          user_id: string
+        }[]
+      }
+      followed_cast_targets: {
+        Args: never
+        Returns: {
+          actor_name: string
+          followers: number
+          profile_url: string
+          tmdb_person_id: number
+        }[]
+      }
+      get_comment_threads: {
+        Args: {
+          _anime_id?: string
+          _cursor_created_at?: string
+          _cursor_id?: string
+          _cursor_score?: number
+          _episode_id?: string
+          _limit?: number
+          _movie_id?: string
+          _sort?: string
+        }
+        Returns: {
+          author_avatar: string
+          author_name: string
+          content: string
+          created_at: string
+          id: string
+          is_deleted: boolean
+          is_edited: boolean
+          my_reaction: string
+          parent_id: string
+          reactions: Json
+          reply_count: number
+          root_id: string
+          score: number
+          user_id: string
+        }[]
+      }
+      has_permission: {
+        Args: {
+          _permission: string
+          _user_id: string
+        }
+        Returns: boolean
+      }
       has_role: {
         Args: {
           _role: Database["public"]["Enums"]["app_role"]
@@ -1922,10 +3570,424 @@ export type Database = {
         }
         Returns: boolean
       }
+      heartbeat_playback_lease: {
+        Args: {
+          _lease_id: string
+        }
+        Returns: string
+      }
+      import_channel_programs: {
+        Args: {
+          _channel_id: string
+          _programs: Json
+        }
+        Returns: number
+      }
+      leave_channel: {
+        Args: {
+          _channel_id: string
+          _viewer_key: string
+        }
+        Returns: undefined
+      }
+      log_transcode_job: {
+        Args: {
+          _job_id: string
+          _level: string
+          _message: string
+        }
+        Returns: undefined
+      }
+      mark_notifications_read: {
+        Args: {
+          _ids?: string[]
+        }
+        Returns: number
+      }
+      media_file_is_referenced: {
+        Args: {
+          _file_path: string
+        }
+        Returns: boolean
+      }
+      media_library_stats: {
+        Args: never
+        Returns: {
+          file_category: string
+          file_count: number
+          storage_account: number
+          total_bytes: number
+        }[]
+      }
+      media_ref_matches: {
+        Args: {
+          _file_path: string
+          _ref: string
+        }
+        Returns: boolean
+      }
+      notification_audience: {
+        Args: {
+          _audience: string
+          _cast_name?: string
+          _cast_tmdb_id?: number
+          _media_id?: string
+          _plan_id?: string
+        }
+        Returns: {
+          user_id: string
+        }[]
+      }
+      notification_audience_size: {
+        Args: {
+          _audience: string
+          _cast_name?: string
+          _cast_tmdb_id?: number
+          _media_id?: string
+          _plan_id?: string
+        }
+        Returns: number
+      }
+      notify_release_reservations: {
+        Args: {
+          _release_id: string
+        }
+        Returns: number
+      }
+      playback_lease_ttl: {
+        Args: never
+        Returns: unknown
+      }
+      purchase_with_wallet: {
+        Args: {
+          _idempotency_key: string
+          _media_type?: string
+          _purpose: string
+          _target_id: string
+        }
+        Returns: {
+          balance_after: number
+          payment_transaction_id: string
+          wallet_transaction_id: string
+        }[]
+      }
+      record_ad_event: {
+        Args: {
+          _ad_id: string
+          _device: string
+          _event_type: string
+          _placement: string
+          _session_id: string
+        }
+        Returns: boolean
+      }
+      redeem_coupon: {
+        Args: {
+          _amount: number
+          _code: string
+          _hold_until: string
+          _purpose: string
+          _target_id: string
+          _user_id: string
+        }
+        Returns: {
+          code: string
+          coupon_id: string
+          discount_amount: number
+          final_amount: number
+          redemption_id: string
+        }[]
+      }
+      refresh_channel_viewer_counts: {
+        Args: never
+        Returns: undefined
+      }
+      release_coupon_redemption: {
+        Args: {
+          _payment_transaction_id: string
+        }
+        Returns: undefined
+      }
+      release_playback_lease: {
+        Args: {
+          _lease_id: string
+        }
+        Returns: undefined
+      }
+      report_transcode_progress: {
+        Args: {
+          _job_id: string
+          _progress: number
+          _worker_id: string
+        }
+        Returns: string
+      }
+      retry_transcode_job: {
+        Args: {
+          _job_id: string
+        }
+        Returns: undefined
+      }
+      revoke_device_leases: {
+        Args: {
+          _device_id: string
+        }
+        Returns: number
+      }
+      search_catalog: {
+        Args: {
+          _access?: string
+          _genre?: string
+          _kinds?: string[]
+          _language?: string
+          _limit?: number
+          _offset?: number
+          _query: string
+          _year?: number
+        }
+        Returns: {
+          access: string
+          genre: string
+          id: string
+          image_url: string
+          kind: string
+          language: string
+          link_id: string
+          link_kind: string
+          link_tmdb_id: string
+          rating: number
+          release_year: number
+          score: number
+          subtitle: string
+          title: string
+          tmdb_id: string
+          total_count: number
+          views: number
+        }[]
+      }
+      search_catalog_facets: {
+        Args: {
+          _query: string
+        }
+        Returns: {
+          facet: string
+          hits: number
+          value: string
+        }[]
+      }
+      search_catalog_matches: {
+        Args: {
+          _query: string
+        }
+        Returns: {
+          access: string
+          genre: string
+          id: string
+          image_url: string
+          kind: string
+          language: string
+          link_id: string
+          link_kind: string
+          link_tmdb_id: string
+          rating: number
+          release_year: number
+          score: number
+          subtitle: string
+          title: string
+          tmdb_id: string
+          views: number
+        }[]
+      }
+      search_mentionable_users: {
+        Args: {
+          _limit?: number
+          _query: string
+        }
+        Returns: {
+          display_name: string
+          id: string
+          profile_picture_url: string
+        }[]
+      }
+      search_text_score: {
+        Args: {
+          _term: string
+          _text: string
+        }
+        Returns: number
+      }
+      send_notification: {
+        Args: {
+          _notification_id: string
+        }
+        Returns: number
+      }
+      set_viewer_profile_pin: {
+        Args: {
+          _current_pin?: string
+          _pin?: string
+          _profile_id: string
+        }
+        Returns: undefined
+      }
+      signed_in_recently: {
+        Args: never
+        Returns: boolean
+      }
+      validate_coupon: {
+        Args: {
+          _amount: number
+          _code: string
+          _purpose: string
+          _target_id: string
+          _user_id: string
+        }
+        Returns: {
+          code: string
+          coupon_id: string
+          discount_amount: number
+          final_amount: number
+        }[]
+      }
+      verify_viewer_profile_pin: {
+        Args: {
+          _pin: string
+          _profile_id: string
+        }
+        Returns: boolean
+      }
+      wallet_credit: {
+        Args: {
+          _amount: number
+          _description?: string
+          _idempotency_key: string
+          _payment_transaction_id?: string
+          _user_id: string
+        }
+        Returns: {
+          amount: number
+          balance_after: number
+          balance_before: number
+          created_at: string
+          description: string | null
+          id: string
+          idempotency_key: string | null
+          payment_transaction_id: string | null
+          reference_id: string | null
+          reference_type: string | null
+          reversed_transaction_id: string | null
+          transaction_type: string
+          user_id: string
+          wallet_id: string
+        }
+      }
+      wallet_debit: {
+        Args: {
+          _amount: number
+          _description?: string
+          _idempotency_key: string
+          _payment_transaction_id?: string
+          _reference_id?: string
+          _reference_type?: string
+          _user_id: string
+        }
+        Returns: {
+          amount: number
+          balance_after: number
+          balance_before: number
+          created_at: string
+          description: string | null
+          id: string
+          idempotency_key: string | null
+          payment_transaction_id: string | null
+          reference_id: string | null
+          reference_type: string | null
+          reversed_transaction_id: string | null
+          transaction_type: string
+          user_id: string
+          wallet_id: string
+        }
+      }
+      wallet_post_entry: {
+        Args: {
+          _amount: number
+          _description?: string
+          _idempotency_key: string
+          _payment_transaction_id?: string
+          _reference_id?: string
+          _reference_type?: string
+          _reversed_transaction_id?: string
+          _type: string
+          _user_id: string
+        }
+        Returns: {
+          amount: number
+          balance_after: number
+          balance_before: number
+          created_at: string
+          description: string | null
+          id: string
+          idempotency_key: string | null
+          payment_transaction_id: string | null
+          reference_id: string | null
+          reference_type: string | null
+          reversed_transaction_id: string | null
+          transaction_type: string
+          user_id: string
+          wallet_id: string
+        }
+      }
+      wallet_refund: {
+        Args: {
+          _amount: number
+          _description?: string
+          _idempotency_key: string
+          _transaction_id: string
+        }
+        Returns: {
+          amount: number
+          balance_after: number
+          balance_before: number
+          created_at: string
+          description: string | null
+          id: string
+          idempotency_key: string | null
+          payment_transaction_id: string | null
+          reference_id: string | null
+          reference_type: string | null
+          reversed_transaction_id: string | null
+          transaction_type: string
+          user_id: string
+          wallet_id: string
+        }
+      }
+      wallet_reverse: {
+        Args: {
+          _description?: string
+          _idempotency_key: string
+          _transaction_id: string
+        }
+        Returns: {
+          amount: number
+          balance_after: number
+          balance_before: number
+          created_at: string
+          description: string | null
+          id: string
+          idempotency_key: string | null
+          payment_transaction_id: string | null
+          reference_id: string | null
+          reference_type: string | null
+          reversed_transaction_id: string | null
+          transaction_type: string
+          user_id: string
+          wallet_id: string
+        }
+      }
     }
     Enums: {
       access_type: "free" | "rent" | "vip"
-      app_role: "admin" | "user"
+      app_role: "admin" | "user" | "moderator" | "content_editor" | "finance"
       media_type: "movie" | "series"
     }
     CompositeTypes: {
@@ -2055,7 +4117,7 @@ export const Constants = {
   public: {
     Enums: {
       access_type: ["free", "rent", "vip"],
-      app_role: ["admin", "user"],
+      app_role: ["admin", "user", "moderator", "content_editor", "finance"],
       media_type: ["movie", "series"],
     },
   },
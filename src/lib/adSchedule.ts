@@ -0,0 +1,86 @@
+// Ad breaks for one title, after the VMAP rows of ad_breaks have been expanded into their breaks
+export type AdBreakPosition = "preroll" | "midroll" | "postroll";
+
+export interface AdBreak {
+  key: string;
+  position: AdBreakPosition;
+  // Mid-rolls start at a fixed second or, from VMAP, at a share of the duration
+  offsetSeconds: number | null;
+  offsetPercent: number | null;
+  podSize: number;
+  // A VAST tag or inline VAST document; neither means the pod is filled from the ads inventory
+  tagUrl: string | null;
+  vastXml: string | null;
+}
+
+export interface FrequencyCappedAd {
+  id: string;
+  max_impressions_per_session: number | null;
+  max_impressions_per_day: number | null;
+}
+
+// null while the duration of a percentage mid-roll is still unknown
+export const getBreakTime = (adBreak: AdBreak, duration: number): number | null => {
+  if (adBreak.offsetSeconds != null) return adBreak.offsetSeconds;
+  if (adBreak.offsetPercent != null && duration > 0) return (duration * adBreak.offsetPercent) / 100;
+  return null;
+};
+
+// Mid-rolls the playhead has passed without playing them, in time order. Seeking over several breaks
+// should cost the viewer one pod, not all of them, so the player plays the last and marks the rest played.
+export const getReachedMidrolls = (breaks: AdBreak[], time: number, duration: number, played: Set<string>) =>
+  breaks
+    .filter((adBreak) => adBreak.position === "midroll" && !played.has(adBreak.key))
+    .map((adBreak) => ({ adBreak, at: getBreakTime(adBreak, duration) }))
+    .filter((entry): entry is { adBreak: AdBreak; at: number } => entry.at != null && time >= entry.at)
+    .sort((a, b) => a.at - b.at)
+    .map((entry) => entry.adBreak);
+
+// Frequency caps are counted on this device: per browser session, and per account (or guest) over
+// the last 24 hours
+const SESSION_IMPRESSIONS_KEY = "ad-impressions:session";
+const DAY_MS = 24 * 60 * 60 * 1000;
+const dailyImpressionsKey = (userId: string | null) => `ad-impressions:${userId ?? "guest"}`;
+
+const readJson = <T>(storage: Storage, key: string, fallback: T): T => {
+  try {
+    return (JSON.parse(storage.getItem(key) || "null") as T) ?? fallback;
+  } catch {
+    return fallback;
+  }
+};
+
+const readDailyImpressions = (userId: string | null) => {
+  const cutoff = Date.now() - DAY_MS;
+  const stored = readJson<Record<string, number[]>>(localStorage, dailyImpressionsKey(userId), {});
+  const recent: Record<string, number[]> = {};
+  for (const [adId, times] of Object.entries(stored)) {
+    const kept = times.filter((t) => t > cutoff);
+    if (kept.length > 0) recent[adId] = kept;
+  }
+  return recent;
+};
+
+export const isFrequencyCapped = (ad: FrequencyCappedAd, userId: string | null) => {
+  if (ad.max_impressions_per_session != null) {
+    const session = readJson<Record<string, number>>(sessionStorage, SESSION_IMPRESSIONS_KEY, {});
+    if ((session[ad.id] ?? 0) >= ad.max_impressions_per_session) return true;
+  }
+  if (ad.max_impressions_per_day != null) {
+    if ((readDailyImpressions(userId)[ad.id]?.length ?? 0) >= ad.max_impressions_per_day) return true;
+  }
+  return false;
+};
+
+export const recordFrequencyImpression = (adId: string, userId: string | null) => {
+  try {
+    const session = readJson<Record<string, number>>(sessionStorage, SESSION_IMPRESSIONS_KEY, {});
+    sessionStorage.setItem(SESSION_IMPRESSIONS_KEY, JSON.stringify({ ...session, [adId]: (session[adId] ?? 0) + 1 }));
+
+    const daily = readDailyImpressions(userId);
+    daily[adId] = [...(daily[adId] ?? []), Date.now()];
+    localStorage.setItem(dailyImpressionsKey(userId), JSON.stringify(daily));
+  } catch {
+    // Storage full or blocked - the ad just goes uncapped
+  }
+};
@@ -0,0 +1,58 @@
+// Comment text markup: ||spoiler|| hides text until clicked, @[Display name](user id) is a mention.
+// The database parses the same mention syntax to send notifications.
+
+export type CommentSegment =
+  | { type: "text"; text: string }
+  | { type: "mention"; name: string; userId: string }
+  | { type: "spoiler"; children: CommentSegment[] };
+
+export interface Mention {
+  name: string;
+  userId: string;
+}
+
+const MENTION_PATTERN = /@\[([^\]]+)\]\(([0-9a-f-]{36})\)/g;
+const SPOILER_PATTERN = /\|\|([\s\S]+?)\|\|/g;
+
+const parseMentions = (text: string): CommentSegment[] => {
+  const segments: CommentSegment[] = [];
+  let last = 0;
+  for (const match of text.matchAll(MENTION_PATTERN)) {
+    if (match.index! > last) segments.push({ type: "text", text: text.slice(last, match.index) });
+    segments.push({ type: "mention", name: match[1], userId: match[2] });
+    last = match.index! + match[0].length;
+  }
+  if (last < text.length) segments.push({ type: "text", text: text.slice(last) });
+  return segments;
+};
+
+export function parseComment(content: string): CommentSegment[] {
+  const segments: CommentSegment[] = [];
+  let last = 0;
+  for (const match of content.matchAll(SPOILER_PATTERN)) {
+    if (match.index! > last) segments.push(...parseMentions(content.slice(last, match.index)));
+    segments.push({ type: "spoiler", children: parseMentions(match[1]) });
+    last = match.index! + match[0].length;
+  }
+  if (last < content.length) segments.push(...parseMentions(content.slice(last)));
+  return segments;
+}
+
+// The composer shows mentions as plain @Name; swap each picked one for its markup before saving
+export function encodeMentions(text: string, mentions: Mention[]) {
+  return mentions.reduce((encoded, mention) => {
+    const name = mention.name.replace(/[[\]]/g, "");
+    return encoded.split(`@${mention.name}`).join(`@[${name}](${mention.userId})`);
+  }, text);
+}
+
+// The partial @name being typed just before the caret, if any
+export function mentionQueryAt(text: string, caret: number) {
+  const match = /(?:^|\s)@([^\s@]{1,30})$/.exec(text.slice(0, caret));
+  return match ? match[1] : null;
+}
+
+// Readable text with mentions as @Name and spoilers left visible, for moderation lists
+export function plainComment(content: string) {
+  return content.replace(MENTION_PATTERN, "@$1");
+}
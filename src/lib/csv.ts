@@ -0,0 +1,26 @@
+type CsvValue = string | number | boolean | null | undefined;
+
+const escapeCsvValue = (value: CsvValue) => {
+  if (value === null || value === undefined) return "";
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export function toCsv<T extends Record<string, CsvValue>>(rows: T[], columns?: (keyof T)[]) {
+  const headers = columns ?? (rows.length > 0 ? (Object.keys(rows[0]) as (keyof T)[]) : []);
+  const lines = [
+    headers.map((header) => escapeCsvValue(String(header))).join(","),
+    ...rows.map((row) => headers.map((header) => escapeCsvValue(row[header])).join(",")),
+  ];
+  return lines.join("\n");
+}
+
+export function downloadCsv<T extends Record<string, CsvValue>>(filename: string, rows: T[], columns?: (keyof T)[]) {
+  const blob = new Blob([toCsv(rows, columns)], { type: "text/csv;charset=utf-8;" });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename.endsWith(".csv") ? filename : `${filename}.csv`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
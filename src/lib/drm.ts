@@ -0,0 +1,37 @@
+export type DrmKeySystem = "com.widevine.alpha" | "com.microsoft.playready" | "org.w3.clearkey";
+
+// What get-protected-video-url returns for a source attached to a DRM profile
+export interface PlaybackDrm {
+  keySystem: DrmKeySystem;
+  licenseServerUrl: string | null;
+  headers: Record<string, string>;
+  clearKeys: Record<string, string>;
+}
+
+export interface ClearKeyPair {
+  kid: string;
+  key: string;
+}
+
+export const DRM_KEY_SYSTEMS: { value: DrmKeySystem; label: string }[] = [
+  { value: "com.widevine.alpha", label: "Widevine" },
+  { value: "com.microsoft.playready", label: "PlayReady" },
+  { value: "org.w3.clearkey", label: "ClearKey" },
+];
+
+export const getKeySystemLabel = (keySystem: string) =>
+  DRM_KEY_SYSTEMS.find((system) => system.value === keySystem)?.label ?? keySystem;
+
+// Shaka expects ClearKey key ids and keys as 16-byte hex strings
+export const isHexKey = (value: string) => /^[0-9a-f]{32}$/i.test(value.replace(/-/g, ""));
+
+export const normalizeHexKey = (value: string) => value.replace(/-/g, "").toLowerCase();
+
+// The `drm` block for player.configure(). Inline ClearKey keys win over a license server.
+export const buildShakaDrmConfig = (drm: PlaybackDrm) => {
+  const hasClearKeys = drm.keySystem === "org.w3.clearkey" && Object.keys(drm.clearKeys).length > 0;
+  return {
+    servers: !hasClearKeys && drm.licenseServerUrl ? { [drm.keySystem]: drm.licenseServerUrl } : {},
+    clearKeys: hasClearKeys ? drm.clearKeys : {},
+  };
+};
@@ -0,0 +1,65 @@
+// Per-episode timing markers, in seconds from the start of the episode. Set in the admin episode editor.
+export interface EpisodeMarkers {
+  intro_start?: number | null;
+  intro_end?: number | null;
+  recap_start?: number | null;
+  recap_end?: number | null;
+  credits_start?: number | null;
+}
+
+export interface SkipSegment {
+  kind: "intro" | "recap";
+  end: number;
+}
+
+// How long the "Next episode" card counts down before playing it
+export const NEXT_EPISODE_COUNTDOWN_SECONDS = 10;
+
+// A segment with only an end marker is taken to start at 0 (cold-open intros and recaps)
+export const getActiveSkipSegment = (markers: EpisodeMarkers | null | undefined, time: number): SkipSegment | null => {
+  if (!markers) return null;
+  const segments: [SkipSegment["kind"], number | null | undefined, number | null | undefined][] = [
+    ["recap", markers.recap_start, markers.recap_end],
+    ["intro", markers.intro_start, markers.intro_end],
+  ];
+  for (const [kind, start, end] of segments) {
+    if (end == null) continue;
+    if (time >= (start ?? 0) && time < end) return { kind, end };
+  }
+  return null;
+};
+
+export const formatTimecode = (seconds: number | null | undefined) => {
+  if (seconds == null) return "";
+  const total = Math.round(seconds);
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = String(total % 60).padStart(2, "0");
+  return h > 0 ? `${h}:${String(m).padStart(2, "0")}:${s}` : `${m}:${s}`;
+};
+
+// Accepts "90", "1:30" or "1:01:30". Blank means "not marked" (null); anything else unparseable is undefined.
+export const parseTimecode = (value: string): number | null | undefined => {
+  const trimmed = value.trim();
+  if (!trimmed) return null;
+  if (!/^\d+(:\d{1,2}){0,2}$/.test(trimmed)) return undefined;
+  return trimmed.split(":").reduce((total, part) => total * 60 + Number(part), 0);
+};
+
+// Episodes arrive sorted by episode number only; play order goes season by season, so the episode
+// after a season finale is the first one of the following season
+export const getNextEpisode = <T extends { id: string; episode_number: number; season_id?: string }>(
+  episodes: T[],
+  seasons: { id: string; season_number: number }[],
+  currentId: string | undefined
+): T | null => {
+  if (!currentId) return null;
+  const seasonNumbers = new Map(seasons.map((s) => [s.id, s.season_number]));
+  const ordered = [...episodes].sort(
+    (a, b) =>
+      (seasonNumbers.get(a.season_id ?? "") ?? 0) - (seasonNumbers.get(b.season_id ?? "") ?? 0) ||
+      a.episode_number - b.episode_number
+  );
+  const index = ordered.findIndex((ep) => ep.id === currentId);
+  return index >= 0 ? ordered[index + 1] ?? null : null;
+};
@@ -0,0 +1,33 @@
+import type { Database } from "@/integrations/supabase/types";
+
+export type AppRole = Database["public"]["Enums"]["app_role"];
+
+// Capabilities a staff role can grant; admins hold all of them. Enforced by has_permission in RLS.
+export type Permission = "comments.moderate" | "content.edit" | "payments.view" | "users.manage";
+
+export const PERMISSIONS: Permission[] = ["comments.moderate", "content.edit", "payments.view", "users.manage"];
+
+export const PERMISSION_LABELS: Record<Permission, string> = {
+  "comments.moderate": "Moderate comments and reports",
+  "content.edit": "Edit content",
+  "payments.view": "View payments",
+  "users.manage": "Manage users",
+};
+
+// Roles whose permissions are configurable; admin always has everything and user nothing
+export const STAFF_ROLES: AppRole[] = ["moderator", "content_editor", "finance"];
+
+export const ROLE_LABELS: Record<AppRole, string> = {
+  admin: "Admin",
+  user: "User",
+  moderator: "Moderator",
+  content_editor: "Content Editor",
+  finance: "Finance",
+};
+
+export function permissionsFor(roles: AppRole[], grants: { role: AppRole; permission: string }[]): Permission[] {
+  if (roles.includes("admin")) return PERMISSIONS;
+  return PERMISSIONS.filter((permission) =>
+    grants.some((grant) => grant.permission === permission && roles.includes(grant.role))
+  );
+}
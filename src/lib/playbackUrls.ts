@@ -0,0 +1,27 @@
+// Bucket-hosted sources are private; get-protected-video-url hands out short-lived signed URLs for them
+const BUCKET_HOST = "idrivee2.com";
+
+// Ask for fresh URLs this long before the current ones expire
+export const PLAYBACK_URL_REFRESH_MARGIN_MS = 5 * 60 * 1000;
+
+export const isBucketHostedUrl = (url?: string | null) => {
+  if (!url) return false;
+  try {
+    const { hostname } = new URL(url);
+    return hostname === BUCKET_HOST || hostname.endsWith(`.${BUCKET_HOST}`);
+  } catch {
+    return false;
+  }
+};
+
+export const sourceNeedsSigning = (source: { url?: string | null; quality_urls?: Record<string, string> | null }) =>
+  isBucketHostedUrl(source.url) || Object.values(source.quality_urls ?? {}).some(isBucketHostedUrl);
+
+// HLS/DASH manifests are served by the stream-manifest function as /stream-manifest/<token>/<key>.
+// Every playlist and segment URL carries the same token, so refreshing it is a path swap.
+const STREAM_TOKEN_PATTERN = /(\/stream-manifest\/)([^/]+)(\/)/;
+
+export const getStreamToken = (url?: string | null) => url?.match(STREAM_TOKEN_PATTERN)?.[2] ?? null;
+
+export const withStreamToken = (url: string, token: string | null) =>
+  token ? url.replace(STREAM_TOKEN_PATTERN, `$1${token}$3`) : url;
@@ -0,0 +1,52 @@
+import type { Json } from "@/integrations/supabase/types";
+
+// Caption appearance picked in the player settings menu; stored as profiles.subtitle_style
+export interface SubtitleStyle {
+  size: "small" | "medium" | "large" | "xlarge";
+  color: "white" | "yellow" | "cyan" | "green";
+  background: "none" | "translucent" | "solid";
+}
+
+export const DEFAULT_SUBTITLE_STYLE: SubtitleStyle = { size: "medium", color: "white", background: "translucent" };
+
+export const SUBTITLE_SIZES: Record<SubtitleStyle["size"], { label: string; css: string }> = {
+  small: { label: "Small", css: "75%" },
+  medium: { label: "Medium", css: "100%" },
+  large: { label: "Large", css: "130%" },
+  xlarge: { label: "Extra large", css: "160%" },
+};
+
+export const SUBTITLE_COLORS: Record<SubtitleStyle["color"], { label: string; css: string }> = {
+  white: { label: "White", css: "#ffffff" },
+  yellow: { label: "Yellow", css: "#ffeb3b" },
+  cyan: { label: "Cyan", css: "#22d3ee" },
+  green: { label: "Green", css: "#4ade80" },
+};
+
+export const SUBTITLE_BACKGROUNDS: Record<SubtitleStyle["background"], { label: string; css: string }> = {
+  none: { label: "None", css: "transparent" },
+  translucent: { label: "Translucent", css: "rgba(0, 0, 0, 0.6)" },
+  solid: { label: "Solid", css: "#000000" },
+};
+
+// Unknown or missing keys fall back to the defaults so older stored values keep working
+export const parseSubtitleStyle = (value: Json | null | undefined): SubtitleStyle => {
+  const stored = value && typeof value === "object" && !Array.isArray(value) ? value : {};
+  return {
+    size: (stored.size as string) in SUBTITLE_SIZES ? (stored.size as SubtitleStyle["size"]) : DEFAULT_SUBTITLE_STYLE.size,
+    color: (stored.color as string) in SUBTITLE_COLORS ? (stored.color as SubtitleStyle["color"]) : DEFAULT_SUBTITLE_STYLE.color,
+    background: (stored.background as string) in SUBTITLE_BACKGROUNDS
+      ? (stored.background as SubtitleStyle["background"])
+      : DEFAULT_SUBTITLE_STYLE.background,
+  };
+};
+
+// Shaka renders sidecar and in-manifest text through native text tracks, so ::cue reaches both.
+// Without a text shadow, captions on a transparent background are unreadable over bright scenes.
+export const buildCueCss = (selector: string, style: SubtitleStyle) => `
+${selector} video::cue {
+  font-size: ${SUBTITLE_SIZES[style.size].css};
+  color: ${SUBTITLE_COLORS[style.color].css};
+  background-color: ${SUBTITLE_BACKGROUNDS[style.background].css};
+  ${style.background === "none" ? "text-shadow: 0 0 4px #000, 0 0 2px #000;" : ""}
+}`;
@@ -0,0 +1,313 @@
+// VAST 3/4 (https://iabtechlab.com/standards/vast/) and VMAP 1.0 parsing for the player's ad breaks.
+// Only linear video ads are read; companions, non-linear and VPAID/SIMID creatives are ignored.
+
+export type AdTrackingEvent =
+  | "impression"
+  | "start"
+  | "firstQuartile"
+  | "midpoint"
+  | "thirdQuartile"
+  | "complete"
+  | "skip"
+  | "click"
+  | "error"
+  | "mute"
+  | "unmute"
+  | "pause"
+  | "resume";
+
+export type AdTracking = Partial<Record<AdTrackingEvent, string[]>>;
+
+// One ad in a pod, from a VAST tag or from the ads table
+export interface AdCreative {
+  title: string;
+  description: string | null;
+  mediaUrl: string;
+  duration: number | null;
+  // Seconds before the viewer may skip; null for ads that cannot be skipped
+  skipOffset: number | null;
+  clickThrough: string | null;
+  autoPlay: boolean;
+  tracking: AdTracking;
+  // Set for ads from the ads table (hosted video, or a VAST tag added as an ad)
+  inventoryAdId?: string;
+}
+
+export interface VmapBreak {
+  id: string;
+  position: "preroll" | "midroll" | "postroll";
+  offsetSeconds: number | null;
+  offsetPercent: number | null;
+  tagUrl: string | null;
+  // Inline <VASTAdData>, serialized back to a VAST document
+  vastXml: string | null;
+}
+
+// Codes for the [ERRORCODE] macro, from the VAST 4 error table
+export const VAST_ERROR = {
+  XML_PARSE: 100,
+  WRAPPER_FAILED: 301,
+  WRAPPER_LIMIT: 302,
+  NO_ADS: 303,
+  MEDIA_UNSUPPORTED: 403,
+  MEDIA_PLAYBACK: 405,
+} as const;
+
+export class VastError extends Error {
+  constructor(public code: number, message: string) {
+    super(message);
+    this.name = "VastError";
+  }
+}
+
+// VAST 4 recommends a limit of 5 wrappers; chains longer than that are almost always loops
+const MAX_WRAPPER_DEPTH = 5;
+const TAG_TIMEOUT_MS = 8000;
+
+const TRACKING_EVENTS = new Set<string>([
+  "start",
+  "firstQuartile",
+  "midpoint",
+  "thirdQuartile",
+  "complete",
+  "skip",
+  "mute",
+  "unmute",
+  "pause",
+  "resume",
+]);
+
+// VMAP elements are namespaced ("vmap:AdBreak"), VAST ones usually are not - match on the local name
+const childrenNamed = (parent: Element, name: string) => Array.from(parent.children).filter((c) => c.localName === name);
+const descendantsNamed = (parent: Element, name: string) => Array.from(parent.getElementsByTagNameNS("*", name));
+const textOf = (el: Element | undefined | null) => el?.textContent?.trim() || null;
+const textsOf = (els: Element[]) => els.map(textOf).filter((t): t is string => !!t);
+
+const parseDocument = (xml: string, rootName: string) => {
+  const doc = new DOMParser().parseFromString(xml, "application/xml");
+  if (doc.getElementsByTagName("parsererror").length > 0 || doc.documentElement.localName !== rootName) {
+    throw new VastError(VAST_ERROR.XML_PARSE, `Not a valid ${rootName} document`);
+  }
+  return doc.documentElement;
+};
+
+// "00:00:15" or "00:00:15.250"
+export const parseVastTime = (value: string | null | undefined): number | null => {
+  const match = value?.trim().match(/^(\d+):(\d{2}):(\d{2}(?:\.\d+)?)$/);
+  if (!match) return null;
+  return Number(match[1]) * 3600 + Number(match[2]) * 60 + parseFloat(match[3]);
+};
+
+const parsePercent = (value: string) => {
+  const match = value.trim().match(/^(\d+(?:\.\d+)?)%$/);
+  return match ? parseFloat(match[1]) : null;
+};
+
+export const expandMacros = (url: string, macros: { errorCode?: number } = {}) =>
+  url
+    .replace(/\[CACHEBUSTING\]/g, String(Math.floor(10000000 + Math.random() * 90000000)))
+    .replace(/\[TIMESTAMP\]/g, encodeURIComponent(new Date().toISOString()))
+    .replace(/\[ERRORCODE\]/g, macros.errorCode != null ? String(macros.errorCode) : "");
+
+// Pixels are fire-and-forget; an image request needs no CORS from the ad server
+export const firePixels = (urls: string[] | undefined, macros: { errorCode?: number } = {}) => {
+  for (const url of urls ?? []) {
+    new Image().src = expandMacros(url, macros);
+  }
+};
+
+const mergeTracking = (a: AdTracking, b: AdTracking): AdTracking => {
+  const merged: AdTracking = { ...a };
+  for (const [event, urls] of Object.entries(b) as [AdTrackingEvent, string[]][]) {
+    merged[event] = [...(merged[event] ?? []), ...urls];
+  }
+  return merged;
+};
+
+// Progressive files the browser can play, closest to 720p - sharp enough fullscreen without
+// spending a viewer's bandwidth on a 4K rendition of a 15 second spot
+const pickMediaFile = (linear: Element) => {
+  const probe = document.createElement("video");
+  const files = descendantsNamed(linear, "MediaFile")
+    .map((el) => ({
+      url: textOf(el),
+      type: el.getAttribute("type") || "",
+      delivery: el.getAttribute("delivery"),
+      width: Number(el.getAttribute("width")) || 0,
+    }))
+    .filter((file) => file.url && file.delivery !== "streaming" && probe.canPlayType(file.type) !== "");
+  files.sort((a, b) => Math.abs(a.width - 1280) - Math.abs(b.width - 1280));
+  return files[0]?.url ?? null;
+};
+
+interface VastAd {
+  id: string;
+  sequence: number | null;
+  // Set for <Wrapper> ads: the next VAST document in the chain
+  wrapperUrl: string | null;
+  title: string;
+  description: string | null;
+  mediaUrl: string | null;
+  duration: number | null;
+  skipOffset: number | null;
+  clickThrough: string | null;
+  tracking: AdTracking;
+}
+
+const parseAd = (ad: Element): VastAd => {
+  const body = childrenNamed(ad, "InLine")[0] ?? childrenNamed(ad, "Wrapper")[0];
+  const linear = body ? descendantsNamed(body, "Linear")[0] : undefined;
+
+  const tracking: AdTracking = {
+    impression: textsOf(body ? childrenNamed(body, "Impression") : []),
+    error: textsOf(body ? childrenNamed(body, "Error") : []),
+    click: textsOf(linear ? descendantsNamed(linear, "ClickTracking") : []),
+  };
+  for (const el of linear ? descendantsNamed(linear, "Tracking") : []) {
+    const event = el.getAttribute("event") || "";
+    const url = textOf(el);
+    if (!url || !TRACKING_EVENTS.has(event)) continue;
+    tracking[event as AdTrackingEvent] = [...(tracking[event as AdTrackingEvent] ?? []), url];
+  }
+
+  const duration = parseVastTime(textOf(linear && descendantsNamed(linear, "Duration")[0]));
+  const skipAttr = linear?.getAttribute("skipoffset");
+  const skipPercent = skipAttr ? parsePercent(skipAttr) : null;
+  const skipOffset = skipPercent != null
+    ? (duration != null ? (duration * skipPercent) / 100 : null)
+    : parseVastTime(skipAttr);
+
+  const sequence = Number(ad.getAttribute("sequence"));
+  return {
+    id: ad.getAttribute("id") || "",
+    sequence: sequence > 0 ? sequence : null,
+    wrapperUrl: body?.localName === "Wrapper" ? textOf(childrenNamed(body, "VASTAdTagURI")[0]) : null,
+    title: textOf(body && childrenNamed(body, "AdTitle")[0]) || "Advertisement",
+    description: textOf(body && childrenNamed(body, "Description")[0]),
+    mediaUrl: linear ? pickMediaFile(linear) : null,
+    duration,
+    skipOffset,
+    clickThrough: textOf(linear && descendantsNamed(linear, "ClickThrough")[0]),
+    tracking,
+  };
+};
+
+const fetchTag = async (url: string) => {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), TAG_TIMEOUT_MS);
+  try {
+    const response = await fetch(expandMacros(url), { signal: controller.signal });
+    if (!response.ok) throw new VastError(VAST_ERROR.WRAPPER_FAILED, `Ad tag returned ${response.status}`);
+    return await response.text();
+  } catch (error) {
+    if (error instanceof VastError) throw error;
+    throw new VastError(VAST_ERROR.WRAPPER_FAILED, "Ad tag request failed");
+  } finally {
+    clearTimeout(timer);
+  }
+};
+
+const resolveVast = async (xml: string, slots: number, depth: number, inherited: AdTracking): Promise<AdCreative[]> => {
+  const root = parseDocument(xml, "VAST");
+  const ads = childrenNamed(root, "Ad").map(parseAd);
+  if (ads.length === 0) {
+    firePixels([...textsOf(childrenNamed(root, "Error")), ...(inherited.error ?? [])], { errorCode: VAST_ERROR.NO_ADS });
+    return [];
+  }
+
+  // A response with sequenced ads is a pod and plays in order. Otherwise the standalone ads are
+  // alternatives, so later ones only get a slot when earlier ones fail.
+  const pod = ads.filter((ad) => ad.sequence != null).sort((a, b) => a.sequence! - b.sequence!);
+  const ordered = pod.length > 0 ? pod : ads;
+
+  const creatives: AdCreative[] = [];
+  for (const ad of ordered) {
+    if (creatives.length >= slots) break;
+    const tracking = mergeTracking(inherited, ad.tracking);
+
+    if (ad.wrapperUrl) {
+      if (depth >= MAX_WRAPPER_DEPTH) {
+        firePixels(tracking.error, { errorCode: VAST_ERROR.WRAPPER_LIMIT });
+        continue;
+      }
+      try {
+        const xmlNext = await fetchTag(ad.wrapperUrl);
+        creatives.push(...(await resolveVast(xmlNext, slots - creatives.length, depth + 1, tracking)));
+      } catch (error) {
+        firePixels(tracking.error, { errorCode: error instanceof VastError ? error.code : VAST_ERROR.WRAPPER_FAILED });
+      }
+      continue;
+    }
+
+    if (!ad.mediaUrl) {
+      firePixels(tracking.error, { errorCode: VAST_ERROR.MEDIA_UNSUPPORTED });
+      continue;
+    }
+    creatives.push({
+      title: ad.title,
+      description: ad.description,
+      mediaUrl: ad.mediaUrl,
+      duration: ad.duration,
+      skipOffset: ad.skipOffset,
+      clickThrough: ad.clickThrough,
+      autoPlay: true,
+      tracking,
+    });
+  }
+  return creatives;
+};
+
+// Up to `slots` playable creatives, following wrapper chains
+export const fetchVastCreatives = async (tagUrl: string, slots: number) =>
+  resolveVast(await fetchTag(tagUrl), slots, 0, {});
+
+export const resolveVastCreatives = (xml: string, slots: number) => resolveVast(xml, slots, 0, {});
+
+// timeOffset is "start", "end", "HH:MM:SS(.mmm)" or "n%". Positional "#n" offsets only make sense for
+// streams with ad cue points, which this player does not have, so those breaks are dropped.
+const parseTimeOffset = (value: string): Pick<VmapBreak, "position" | "offsetSeconds" | "offsetPercent"> | null => {
+  const trimmed = value.trim();
+  if (trimmed === "start") return { position: "preroll", offsetSeconds: null, offsetPercent: null };
+  if (trimmed === "end") return { position: "postroll", offsetSeconds: null, offsetPercent: null };
+
+  const percent = parsePercent(trimmed);
+  if (percent != null) {
+    if (percent <= 0) return { position: "preroll", offsetSeconds: null, offsetPercent: null };
+    if (percent >= 100) return { position: "postroll", offsetSeconds: null, offsetPercent: null };
+    return { position: "midroll", offsetSeconds: null, offsetPercent: percent };
+  }
+
+  const seconds = parseVastTime(trimmed);
+  if (seconds == null) return null;
+  return seconds > 0
+    ? { position: "midroll", offsetSeconds: seconds, offsetPercent: null }
+    : { position: "preroll", offsetSeconds: null, offsetPercent: null };
+};
+
+export const parseVmap = (xml: string): VmapBreak[] => {
+  const root = parseDocument(xml, "VMAP");
+  const breaks: VmapBreak[] = [];
+
+  childrenNamed(root, "AdBreak").forEach((el, index) => {
+    const breakType = el.getAttribute("breakType") || "linear";
+    if (!breakType.split(",").includes("linear")) return;
+    const offset = parseTimeOffset(el.getAttribute("timeOffset") || "");
+    const source = childrenNamed(el, "AdSource")[0];
+    if (!offset || !source) return;
+
+    const inlineVast = descendantsNamed(source, "VAST")[0];
+    const tagUrl = textOf(childrenNamed(source, "AdTagURI")[0]);
+    if (!inlineVast && !tagUrl) return;
+
+    breaks.push({
+      id: el.getAttribute("breakId") || String(index),
+      ...offset,
+      tagUrl: inlineVast ? null : tagUrl,
+      vastXml: inlineVast ? new XMLSerializer().serializeToString(inlineVast) : null,
+    });
+  });
+
+  return breaks;
+};
+
+export const fetchVmapBreaks = async (url: string) => parseVmap(await fetchTag(url));
@@ -0,0 +1,43 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+
+export type ViewerProfile = Database["public"]["Tables"]["viewer_profiles"]["Row"];
+
+export type MaturityRating = "kids" | "teen" | "adult";
+
+export const MATURITY_RATINGS: { value: MaturityRating; label: string; description: string }[] = [
+  { value: "kids", label: "Kids", description: "Only titles rated for kids" },
+  { value: "teen", label: "Teens", description: "Kids and teen titles, plus unrated ones" },
+  { value: "adult", label: "Adults", description: "Everything in the catalog" },
+];
+
+export const MAX_VIEWER_PROFILES = 5;
+
+const MATURITY_ORDER: Record<string, number> = { kids: 0, teen: 1, adult: 2 };
+
+// Unrated titles count as teen: visible to teen and adult profiles, hidden from kids
+export const canWatchRating = (profileRating: string | undefined, titleRating: string | null | undefined) =>
+  !profileRating || MATURITY_ORDER[titleRating ?? "teen"] <= MATURITY_ORDER[profileRating];
+
+// Throws WRONG_PIN for a mismatch; the server locks the profile after repeated failures
+export const verifyViewerProfilePin = async (profileId: string, pin: string) => {
+  const { data: valid, error } = await supabase.rpc("verify_viewer_profile_pin", {
+    _profile_id: profileId,
+    _pin: pin,
+  });
+  if (error) throw error;
+  if (!valid) throw new Error("WRONG_PIN");
+};
+
+const PROFILE_ERRORS: Record<string, string> = {
+  PROFILE_LIMIT_REACHED: `An account can have up to ${MAX_VIEWER_PROFILES} profiles`,
+  PROFILE_NOT_FOUND: "That profile no longer exists",
+  INVALID_PIN: "The PIN must be 4 digits",
+  WRONG_PIN: "Incorrect PIN",
+  PIN_LOCKED: "Too many wrong PINs. Try again in a few minutes",
+};
+
+export const viewerProfileErrorMessage = (error: Error) => {
+  const code = Object.keys(PROFILE_ERRORS).find((key) => error.message.includes(key));
+  return code ? PROFILE_ERRORS[code] : error.message;
+};
@@ -0,0 +1,89 @@
+// XMLTV (https://wiki.xmltv.org/index.php/XMLTVFormat) is the de-facto EPG exchange format.
+// Only the parts the guide shows are read: channel names and programme title/description/category/icon.
+
+export interface XmltvChannel {
+  id: string;
+  displayNames: string[];
+}
+
+export interface XmltvProgramme {
+  channel: string;
+  title: string;
+  subtitle: string | null;
+  description: string | null;
+  category: string | null;
+  image_url: string | null;
+  starts_at: string;
+  ends_at: string;
+}
+
+export interface XmltvGuide {
+  channels: XmltvChannel[];
+  programmes: XmltvProgramme[];
+}
+
+// "20240101203000 +0100" - seconds, and the offset, are optional. No offset means UTC.
+const XMLTV_TIME = /^(\d{4})(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})?\s*([+-]\d{2}:?\d{2})?/;
+
+export const parseXmltvTime = (value: string | null): Date | null => {
+  const match = value?.trim().match(XMLTV_TIME);
+  if (!match) return null;
+
+  const [, year, month, day, hour, minute, second = "00", offset] = match;
+  const utc = Date.UTC(+year, +month - 1, +day, +hour, +minute, +second);
+  if (!offset) return new Date(utc);
+
+  const sign = offset.startsWith("-") ? -1 : 1;
+  const digits = offset.replace(/[^0-9]/g, "");
+  const offsetMinutes = sign * (parseInt(digits.slice(0, 2), 10) * 60 + parseInt(digits.slice(2), 10));
+  return new Date(utc - offsetMinutes * 60 * 1000);
+};
+
+const text = (parent: Element, tag: string) => parent.getElementsByTagName(tag)[0]?.textContent?.trim() || null;
+
+export const parseXmltv = (xml: string): XmltvGuide => {
+  const doc = new DOMParser().parseFromString(xml, "application/xml");
+  if (doc.getElementsByTagName("parsererror").length > 0 || doc.documentElement.nodeName !== "tv") {
+    throw new Error("Not a valid XMLTV file");
+  }
+
+  const channels = Array.from(doc.getElementsByTagName("channel")).map((el) => ({
+    id: el.getAttribute("id") || "",
+    displayNames: Array.from(el.getElementsByTagName("display-name"))
+      .map((n) => n.textContent?.trim() || "")
+      .filter(Boolean),
+  }));
+
+  const programmes: XmltvProgramme[] = [];
+  for (const el of Array.from(doc.getElementsByTagName("programme"))) {
+    const start = parseXmltvTime(el.getAttribute("start"));
+    const stop = parseXmltvTime(el.getAttribute("stop"));
+    const title = text(el, "title");
+    // Programmes without a stop time cannot be placed on the guide reliably
+    if (!start || !stop || stop <= start || !title) continue;
+
+    programmes.push({
+      channel: el.getAttribute("channel") || "",
+      title,
+      subtitle: text(el, "sub-title"),
+      description: text(el, "desc"),
+      category: text(el, "category"),
+      image_url: el.getElementsByTagName("icon")[0]?.getAttribute("src") || null,
+      starts_at: start.toISOString(),
+      ends_at: stop.toISOString(),
+    });
+  }
+
+  return { channels, programmes };
+};
+
+const normalize = (value: string) => value.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+// Match XMLTV channels to ours: the stored epg_channel_id wins, otherwise any display-name equal to the channel name
+export const matchXmltvChannel = <T extends { id: string; name: string; epg_channel_id?: string | null }>(
+  channel: XmltvChannel,
+  candidates: T[]
+): T | null =>
+  candidates.find((c) => c.epg_channel_id && c.epg_channel_id === channel.id) ||
+  candidates.find((c) => channel.displayNames.some((n) => normalize(n) === normalize(c.name))) ||
+  null;
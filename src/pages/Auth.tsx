@@ -1,25 +1,50 @@
 import { useState } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { useAuth } from '@/hooks/useAuth';
+import { SocialProvider, TelegramAuthUser, useAuth } from '@/hooks/useAuth';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { InputOTP, InputOTPGroup, InputOTPSlot } from '@/components/ui/input-otp';
+import { Separator } from '@/components/ui/separator';
+import { TelegramLoginButton } from '@/components/auth/TelegramLoginButton';
 import { toast } from 'sonner';
 import { z } from 'zod';
-import { Film } from 'lucide-react';
+import { ArrowLeft, Film } from 'lucide-react';
 
 const authSchema = z.object({
   email: z.string().trim().email({ message: 'Invalid email address' }).max(255),
   password: z.string().min(6, { message: 'Password must be at least 6 characters' }).max(100),
 });
 
+const emailSchema = authSchema.pick({ email: true });
+
+const SOCIAL_PROVIDERS: { provider: SocialProvider; label: string }[] = [
+  { provider: 'google', label: 'Google' },
+  { provider: 'facebook', label: 'Facebook' },
+];
+
 const Auth = () => {
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [loading, setLoading] = useState(false);
-  const { signIn, signUp, user } = useAuth();
+  const [forgotPassword, setForgotPassword] = useState(false);
+  const [codeSentTo, setCodeSentTo] = useState<string | null>(null);
+  const [code, setCode] = useState('');
+  // Set after sign up (or a sign in blocked on confirmation) so the email can be sent again
+  const [unconfirmedEmail, setUnconfirmedEmail] = useState<string | null>(null);
+  const {
+    signIn,
+    signUp,
+    signInWithProvider,
+    signInWithTelegram,
+    sendMagicLink,
+    verifyEmailCode,
+    resendVerification,
+    sendPasswordReset,
+    user,
+  } = useAuth();
   const navigate = useNavigate();
 
   // Redirect if already authenticated
@@ -28,42 +53,49 @@ const Auth = () => {
     return null;
   }
 
+  // Runs an auth action with validation and the shared loading flag
+  const run = async (action: () => Promise<void>, fallbackMessage: string) => {
+    try {
+      setLoading(true);
+      await action();
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        toast.error(error.errors[0].message);
+      } else {
+        toast.error(fallbackMessage);
+      }
+    } finally {
+      setLoading(false);
+    }
+  };
+
   const handleSignIn = async (e: React.FormEvent) => {
     e.preventDefault();
-    
-    try {
+
+    await run(async () => {
       const validated = authSchema.parse({ email, password });
-      setLoading(true);
-      
       const { error } = await signIn(validated.email, validated.password);
-      
+
       if (error) {
         if (error.message.includes('Invalid login credentials')) {
           toast.error('Invalid email or password');
+        } else if (error.message.includes('Email not confirmed')) {
+          setUnconfirmedEmail(validated.email);
+          toast.error('Please confirm your email address first');
         } else {
           toast.error(error.message);
         }
       }
-    } catch (error) {
-      if (error instanceof z.ZodError) {
-        toast.error(error.errors[0].message);
-      } else {
-        toast.error('An error occurred during sign in');
-      }
-    } finally {
-      setLoading(false);
-    }
+    }, 'An error occurred during sign in');
   };
 
   const handleSignUp = async (e: React.FormEvent) => {
     e.preventDefault();
-    
-    try {
+
+    await run(async () => {
       const validated = authSchema.parse({ email, password });
-      setLoading(true);
-      
       const { error } = await signUp(validated.email, validated.password);
-      
+
       if (error) {
         if (error.message.includes('already registered')) {
           toast.error('This email is already registered. Please sign in instead.');
@@ -72,20 +104,138 @@ const Auth = () => {
         }
       } else {
         toast.success('Check your email to confirm your account!');
-        setEmail('');
+        setUnconfirmedEmail(validated.email);
         setPassword('');
       }
-    } catch (error) {
-      if (error instanceof z.ZodError) {
-        toast.error(error.errors[0].message);
+    }, 'An error occurred during sign up');
+  };
+
+  const handleResendVerification = async () => {
+    if (!unconfirmedEmail) return;
+    await run(async () => {
+      const { error } = await resendVerification(unconfirmedEmail);
+      if (error) {
+        toast.error(error.message);
       } else {
-        toast.error('An error occurred during sign up');
+        toast.success(`Confirmation email sent to ${unconfirmedEmail}`);
       }
-    } finally {
+    }, 'Could not resend the confirmation email');
+  };
+
+  const handleSendCode = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    await run(async () => {
+      const validated = emailSchema.parse({ email });
+      const { error } = await sendMagicLink(validated.email);
+
+      if (error) {
+        if (error.message.includes('Signups not allowed')) {
+          toast.error('No account uses this email. Please sign up first.');
+        } else {
+          toast.error(error.message);
+        }
+      } else {
+        setCodeSentTo(validated.email);
+        setCode('');
+        toast.success('Check your email for a sign-in link and code');
+      }
+    }, 'Could not send the sign-in email');
+  };
+
+  const handleVerifyCode = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!codeSentTo) return;
+
+    await run(async () => {
+      const { error } = await verifyEmailCode(codeSentTo, code);
+      if (error) {
+        toast.error(error.message.includes('expired') ? 'The code is invalid or has expired' : error.message);
+      }
+    }, 'Could not verify the code');
+  };
+
+  const handleForgotPassword = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    await run(async () => {
+      const validated = emailSchema.parse({ email });
+      const { error } = await sendPasswordReset(validated.email);
+      if (error) {
+        toast.error(error.message);
+      } else {
+        toast.success('If an account uses this email, a reset link is on its way');
+        setForgotPassword(false);
+      }
+    }, 'Could not send the reset email');
+  };
+
+  const handleProvider = async (provider: SocialProvider) => {
+    setLoading(true);
+    const { error } = await signInWithProvider(provider);
+    // On success the browser is already leaving for the provider
+    if (error) {
+      toast.error(error.message);
       setLoading(false);
     }
   };
 
+  const handleTelegram = async (telegram: TelegramAuthUser) => {
+    await run(async () => {
+      const { error } = await signInWithTelegram(telegram);
+      if (error) toast.error(error.message);
+    }, 'Telegram sign in failed');
+  };
+
+  const emailField = (id: string) => (
+    <div className="space-y-2">
+      <Label htmlFor={id}>Email</Label>
+      <Input
+        id={id}
+        type="email"
+        placeholder="admin@example.com"
+        value={email}
+        onChange={(e) => setEmail(e.target.value)}
+        required
+        disabled={loading}
+      />
+    </div>
+  );
+
+  const resendNotice = unconfirmedEmail && (
+    <div className="rounded-md border p-3 text-sm text-muted-foreground space-y-2">
+      <p>We sent a confirmation link to {unconfirmedEmail}.</p>
+      <Button type="button" variant="outline" size="sm" onClick={handleResendVerification} disabled={loading}>
+        Resend confirmation email
+      </Button>
+    </div>
+  );
+
+  if (forgotPassword) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-background to-muted p-4">
+        <Card className="w-full max-w-md">
+          <CardHeader>
+            <CardTitle className="text-2xl">Reset password</CardTitle>
+            <CardDescription>We will email you a link to choose a new password</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleForgotPassword} className="space-y-4">
+              {emailField('reset-email')}
+              <Button type="submit" className="w-full" disabled={loading}>
+                {loading ? 'Sending...' : 'Send Reset Link'}
+              </Button>
+              <Button type="button" variant="ghost" className="w-full" onClick={() => setForgotPassword(false)}>
+                <ArrowLeft className="h-4 w-4 mr-2" />
+                Back to sign in
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-background to-muted p-4">
       <Card className="w-full max-w-md">
@@ -104,27 +254,26 @@ const Auth = () => {
         </CardHeader>
         <CardContent>
           <Tabs defaultValue="signin" className="w-full">
-            <TabsList className="grid w-full grid-cols-2">
+            <TabsList className="grid w-full grid-cols-3">
               <TabsTrigger value="signin">Sign In</TabsTrigger>
+              <TabsTrigger value="code">Email Code</TabsTrigger>
               <TabsTrigger value="signup">Sign Up</TabsTrigger>
             </TabsList>
-            
+
             <TabsContent value="signin">
               <form onSubmit={handleSignIn} className="space-y-4">
+                {emailField('signin-email')}
                 <div className="space-y-2">
-                  <Label htmlFor="signin-email">Email</Label>
-                  <Input
-                    id="signin-email"
-                    type="email"
-                    placeholder="admin@example.com"
-                    value={email}
-                    onChange={(e) => setEmail(e.target.value)}
-                    required
-                    disabled={loading}
-                  />
-                </div>
-                <div className="space-y-2">
-                  <Label htmlFor="signin-password">Password</Label>
+                  <div className="flex items-center justify-between">
+                    <Label htmlFor="signin-password">Password</Label>
+                    <button
+                      type="button"
+                      className="text-xs text-primary hover:underline"
+                      onClick={() => setForgotPassword(true)}
+                    >
+                      Forgot password?
+                    </button>
+                  </div>
                   <Input
                     id="signin-password"
                     type="password"
@@ -138,23 +287,45 @@ const Auth = () => {
                 <Button type="submit" className="w-full" disabled={loading}>
                   {loading ? 'Signing in...' : 'Sign In'}
                 </Button>
+                {resendNotice}
               </form>
             </TabsContent>
-            
+
+            <TabsContent value="code">
+              {codeSentTo ? (
+                <form onSubmit={handleVerifyCode} className="space-y-4">
+                  <p className="text-sm text-muted-foreground">
+                    Enter the 6 digit code sent to {codeSentTo}, or open the link in that email.
+                  </p>
+                  <div className="flex justify-center">
+                    <InputOTP maxLength={6} value={code} onChange={setCode} disabled={loading}>
+                      <InputOTPGroup>
+                        {Array.from({ length: 6 }, (_, index) => (
+                          <InputOTPSlot key={index} index={index} />
+                        ))}
+                      </InputOTPGroup>
+                    </InputOTP>
+                  </div>
+                  <Button type="submit" className="w-full" disabled={loading || code.length !== 6}>
+                    {loading ? 'Verifying...' : 'Verify Code'}
+                  </Button>
+                  <Button type="button" variant="ghost" className="w-full" onClick={() => setCodeSentTo(null)}>
+                    Use a different email
+                  </Button>
+                </form>
+              ) : (
+                <form onSubmit={handleSendCode} className="space-y-4">
+                  {emailField('code-email')}
+                  <Button type="submit" className="w-full" disabled={loading}>
+                    {loading ? 'Sending...' : 'Email Me a Sign-In Link'}
+                  </Button>
+                </form>
+              )}
+            </TabsContent>
+
             <TabsContent value="signup">
               <form onSubmit={handleSignUp} className="space-y-4">
-                <div className="space-y-2">
-                  <Label htmlFor="signup-email">Email</Label>
-                  <Input
-                    id="signup-email"
-                    type="email"
-                    placeholder="admin@example.com"
-                    value={email}
-                    onChange={(e) => setEmail(e.target.value)}
-                    required
-                    disabled={loading}
-                  />
-                </div>
+                {emailField('signup-email')}
                 <div className="space-y-2">
                   <Label htmlFor="signup-password">Password</Label>
                   <Input
@@ -173,12 +344,37 @@ const Auth = () => {
                 <Button type="submit" className="w-full" disabled={loading}>
                   {loading ? 'Creating account...' : 'Create Account'}
                 </Button>
+                {resendNotice}
               </form>
             </TabsContent>
           </Tabs>
-          
+
+          <div className="flex items-center gap-3 my-6">
+            <Separator className="flex-1" />
+            <span className="text-xs uppercase text-muted-foreground">or continue with</span>
+            <Separator className="flex-1" />
+          </div>
+
+          <div className="space-y-3">
+            <div className="grid grid-cols-2 gap-3">
+              {SOCIAL_PROVIDERS.map(({ provider, label }) => (
+                <Button
+                  key={provider}
+                  type="button"
+                  variant="outline"
+                  onClick={() => handleProvider(provider)}
+                  disabled={loading}
+                >
+                  {label}
+                </Button>
+              ))}
+            </div>
+            <TelegramLoginButton onAuth={handleTelegram} />
+          </div>
+
           <p className="text-xs text-center text-muted-foreground mt-4">
-            Note: Email confirmation may be required. Check your Supabase settings to disable it for faster testing.
+            Already have an account with email? Google and Facebook sign-ins with the same verified address open that
+            account. To use Telegram with it, link Telegram from your settings first.
           </p>
         </CardContent>
       </Card>
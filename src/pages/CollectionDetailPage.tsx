@@ -0,0 +1,146 @@
+import { Link, useParams } from "react-router-dom";
+import { ArrowLeft, CheckCircle2, FolderOpen } from "lucide-react";
+import { Header } from "@/components/public/Header";
+import { MediaCard } from "@/components/public/MediaCard";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { Skeleton } from "@/components/ui/skeleton";
+import { countWatched, useCollection, useCollectionProgress } from "@/hooks/useCollections";
+
+const CollectionDetailPage = () => {
+  const { id } = useParams<{ id: string }>();
+  const { data: collection, isLoading } = useCollection(id);
+  const { data: progress } = useCollectionProgress(collection ? [collection.id] : []);
+  const collectionProgress = collection ? progress?.get(collection.id) : undefined;
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-background">
+        <Header />
+        <main className="pt-20 pb-16">
+          <div className="max-w-[1600px] mx-auto px-4 md:px-6 space-y-6">
+            <Skeleton className="h-64 w-full rounded-lg" />
+            <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-5 xl:grid-cols-6 gap-4">
+              {Array.from({ length: 6 }).map((_, i) => (
+                <Skeleton key={i} className="aspect-[2/3] rounded-lg" />
+              ))}
+            </div>
+          </div>
+        </main>
+      </div>
+    );
+  }
+
+  if (!collection) {
+    return (
+      <div className="min-h-screen bg-background">
+        <Header />
+        <main className="pt-20 pb-16">
+          <div className="text-center py-20 text-muted-foreground">
+            <FolderOpen className="h-12 w-12 mx-auto mb-4 opacity-50" />
+            <p className="mb-4">This collection does not exist.</p>
+            <Button asChild variant="outline">
+              <Link to="/collections">Browse collections</Link>
+            </Button>
+          </div>
+        </main>
+      </div>
+    );
+  }
+
+  const total = collection.entries.length;
+  const watched = countWatched(collection, collectionProgress);
+  const backdrop = collection.backdrop_url || collection.entries.find((e) => e.backdrop_url)?.backdrop_url;
+  // First item the user hasn't finished - where "Continue" should take them
+  const nextUp = collectionProgress
+    ? collection.entries.find((e) => e.media_id && !collectionProgress.watched.has(e.media_id))
+    : undefined;
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Header />
+      <main className="pb-16">
+        <section className="relative pt-20">
+          {backdrop && (
+            <div className="absolute inset-0 h-[420px] overflow-hidden">
+              <img src={backdrop} alt="" className="w-full h-full object-cover opacity-30" />
+              <div className="absolute inset-0 bg-gradient-to-t from-background via-background/70 to-transparent" />
+            </div>
+          )}
+          <div className="relative max-w-[1600px] mx-auto px-4 md:px-6 pt-6 pb-8">
+            <Button asChild variant="ghost" size="sm" className="mb-4 -ml-2">
+              <Link to="/collections">
+                <ArrowLeft className="h-4 w-4 mr-2" />
+                All collections
+              </Link>
+            </Button>
+            <div className="flex gap-6 items-end">
+              {collection.poster_url && (
+                <img
+                  src={collection.poster_url}
+                  alt={collection.name}
+                  className="hidden sm:block w-40 aspect-[2/3] object-cover rounded-lg shadow-lg"
+                />
+              )}
+              <div className="space-y-3 max-w-2xl">
+                <h1 className="text-3xl md:text-4xl font-bold text-foreground">{collection.name}</h1>
+                {collection.description && <p className="text-muted-foreground">{collection.description}</p>}
+                <div className="flex items-center gap-3 text-sm text-muted-foreground">
+                  <span>{total} {total === 1 ? "title" : "titles"}</span>
+                  <Badge variant="outline">{collection.sort_mode === "custom" ? "Curated order" : "Release order"}</Badge>
+                </div>
+                {collectionProgress && (
+                  <div className="space-y-1.5 max-w-sm">
+                    <p className="text-sm font-medium text-foreground">{watched} of {total} watched</p>
+                    <Progress value={(watched / total) * 100} className="h-1.5" />
+                  </div>
+                )}
+                {nextUp && watched > 0 && (
+                  <p className="text-sm text-muted-foreground">
+                    Up next: <span className="text-foreground font-medium">{nextUp.title}</span>
+                  </p>
+                )}
+              </div>
+            </div>
+          </div>
+        </section>
+
+        <div className="max-w-[1600px] mx-auto px-4 md:px-6">
+          <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-5 xl:grid-cols-6 gap-4">
+            {collection.entries.map((entry, index) => {
+              const isWatched = !!entry.media_id && !!collectionProgress?.watched.has(entry.media_id);
+              return (
+                <div key={entry.id} className="space-y-2">
+                  <div className="relative">
+                    <MediaCard
+                      id={entry.media_id || ""}
+                      title={entry.title || ""}
+                      image={entry.thumbnail || ""}
+                      rating={entry.rating ?? undefined}
+                      type={entry.media_type || "movie"}
+                      year={entry.release_year ?? undefined}
+                      tmdb_id={entry.tmdb_id ?? undefined}
+                      access={(entry.access as "free" | "rent" | "vip") || "free"}
+                    />
+                    {isWatched && (
+                      <div className="absolute top-2 right-2 z-10 rounded-full bg-background/90 p-0.5 pointer-events-none">
+                        <CheckCircle2 className="h-5 w-5 text-primary" />
+                      </div>
+                    )}
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    #{index + 1}{entry.release_year ? ` · ${entry.release_year}` : ""}
+                    {!isWatched && entry.media_id && collectionProgress?.started.has(entry.media_id) ? " · In progress" : ""}
+                  </p>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default CollectionDetailPage;
@@ -0,0 +1,89 @@
+import { useMemo, useState } from "react";
+import { Link } from "react-router-dom";
+import { FolderOpen, Search } from "lucide-react";
+import { Header } from "@/components/public/Header";
+import { Input } from "@/components/ui/input";
+import { Progress } from "@/components/ui/progress";
+import { Skeleton } from "@/components/ui/skeleton";
+import { countWatched, useCollectionProgress, useCollections } from "@/hooks/useCollections";
+
+const CollectionsPage = () => {
+  const [searchQuery, setSearchQuery] = useState("");
+  const { data: collections = [], isLoading } = useCollections();
+  const collectionIds = useMemo(() => collections.map((c) => c.id), [collections]);
+  const { data: progress } = useCollectionProgress(collectionIds);
+
+  const filtered = collections.filter((c) => c.name.toLowerCase().includes(searchQuery.toLowerCase()));
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Header />
+      <main className="pt-20 pb-16">
+        <div className="max-w-[1600px] mx-auto px-4 md:px-6">
+          <div className="flex flex-col md:flex-row md:items-end md:justify-between gap-4 mb-6">
+            <div>
+              <h1 className="text-3xl font-bold text-foreground mb-2">Collections</h1>
+              <p className="text-muted-foreground">Franchises and sagas, in order</p>
+            </div>
+            <div className="relative md:w-72">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground w-4 h-4" />
+              <Input
+                placeholder="Search collections..."
+                value={searchQuery}
+                onChange={(e) => setSearchQuery(e.target.value)}
+                className="pl-10"
+              />
+            </div>
+          </div>
+
+          {isLoading ? (
+            <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 xl:grid-cols-6 gap-4">
+              {Array.from({ length: 12 }).map((_, i) => (
+                <Skeleton key={i} className="aspect-[2/3] rounded-lg" />
+              ))}
+            </div>
+          ) : filtered.length === 0 ? (
+            <div className="text-center py-20 text-muted-foreground">
+              <FolderOpen className="h-12 w-12 mx-auto mb-4 opacity-50" />
+              <p>{searchQuery ? "No collections match your search." : "No collections yet."}</p>
+            </div>
+          ) : (
+            <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 xl:grid-cols-6 gap-4">
+              {filtered.map((collection) => {
+                const total = collection.entries.length;
+                const watched = countWatched(collection, progress?.get(collection.id));
+                const poster = collection.poster_url || collection.entries[0]?.thumbnail || "/placeholder.svg";
+
+                return (
+                  <Link
+                    key={collection.id}
+                    to={`/collections/${collection.id}`}
+                    className="group rounded-lg overflow-hidden bg-card border border-border hover:border-primary/50 transition-all"
+                  >
+                    <div className="aspect-[2/3] overflow-hidden bg-secondary/20">
+                      <img
+                        src={poster}
+                        alt={collection.name}
+                        className="w-full h-full object-cover transition-transform duration-300 group-hover:scale-105"
+                        loading="lazy"
+                      />
+                    </div>
+                    <div className="p-3 space-y-1.5">
+                      <h3 className="font-semibold text-foreground line-clamp-1">{collection.name}</h3>
+                      <p className="text-xs text-muted-foreground">
+                        {progress ? `${watched} of ${total} watched` : `${total} ${total === 1 ? "title" : "titles"}`}
+                      </p>
+                      {progress && <Progress value={(watched / total) * 100} className="h-1" />}
+                    </div>
+                  </Link>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default CollectionsPage;
@@ -1,4 +1,5 @@
 import { useState } from "react";
+import { Link } from "react-router-dom";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
 import { Header } from "@/components/public/Header";
@@ -24,6 +25,7 @@ interface UpcomingRelease {
   description: string | null;
   trailer_url: string | null;
   tmdb_id: string | null;
+  watch_path: string | null;
 }
 
 interface Reservation {
@@ -252,25 +254,34 @@ const ComingSoonPage = () => {
                   <span>{formatReleaseDate(release.release_date)}</span>
                 </div>
 
-                <Button
-                  variant={isReserved(release.id) ? "default" : "secondary"}
-                  size="sm"
-                  className="w-full"
-                  onClick={() => handleReserveToggle(release.id)}
-                  disabled={!user || reserveMutation.isPending || unreserveMutation.isPending}
-                >
-                  {isReserved(release.id) ? (
-                    <>
-                      <BellOff className="w-4 h-4 mr-2" />
-                      Reserved
-                    </>
-                  ) : (
-                    <>
-                      <Bell className="w-4 h-4 mr-2" />
-                      Reserve
-                    </>
-                  )}
-                </Button>
+                {release.status === "released" && release.watch_path ? (
+                  <Button size="sm" className="w-full" asChild>
+                    <Link to={release.watch_path}>
+                      <Play className="w-4 h-4 mr-2" />
+                      Watch Now
+                    </Link>
+                  </Button>
+                ) : (
+                  <Button
+                    variant={isReserved(release.id) ? "default" : "secondary"}
+                    size="sm"
+                    className="w-full"
+                    onClick={() => handleReserveToggle(release.id)}
+                    disabled={!user || reserveMutation.isPending || unreserveMutation.isPending}
+                  >
+                    {isReserved(release.id) ? (
+                      <>
+                        <BellOff className="w-4 h-4 mr-2" />
+                        Reserved
+                      </>
+                    ) : (
+                      <>
+                        <Bell className="w-4 h-4 mr-2" />
+                        Reserve
+                      </>
+                    )}
+                  </Button>
+                )}
               </div>
             ))}
           </div>
@@ -30,6 +30,9 @@ const NewMoviesSection = lazy(() => import("@/components/public/NewMoviesSection
 const ComingSoonSection = lazy(() => import("@/components/public/ComingSoonSection").then(m => ({
   default: m.ComingSoonSection
 })));
+const CollectionRowsSection = lazy(() => import("@/components/public/CollectionRowsSection").then(m => ({
+  default: m.CollectionRowsSection
+})));
 
 // Loading fallback component
 const SectionLoader = () => <section className="py-8">
@@ -108,6 +111,10 @@ const Index = () => {
           <NewMoviesSection key={`new-movies-${refreshKey}`} />
         </Suspense>
         
+        <Suspense fallback={<SectionLoader />}>
+          <CollectionRowsSection key={`collections-${refreshKey}`} />
+        </Suspense>
+        
         <Suspense fallback={<SectionLoader />}>
           <ComingSoonSection key={`coming-${refreshKey}`} />
         </Suspense>
@@ -0,0 +1,193 @@
+import { useMemo } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import { format } from "date-fns";
+import { ArrowLeft, Radio, Users } from "lucide-react";
+import { Header } from "@/components/public/Header";
+import { ShakaPlayer } from "@/components/ShakaPlayer";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { Skeleton } from "@/components/ui/skeleton";
+import { ChannelProgram, getNowNext, getProgramProgress, useChannelPrograms, useChannelViewers, useLiveChannels } from "@/hooks/useLiveChannels";
+
+const formatSlot = (program: ChannelProgram) =>
+  `${format(new Date(program.starts_at), "HH:mm")} – ${format(new Date(program.ends_at), "HH:mm")}`;
+
+const NowNextOverlay = ({ now, next }: { now: ChannelProgram | null; next: ChannelProgram | null }) => {
+  if (!now && !next) return null;
+
+  return (
+    <div className="bg-gradient-to-b from-black/80 to-transparent px-4 pt-3 pb-8 text-white">
+      {now && (
+        <div className="max-w-md">
+          <p className="text-[11px] uppercase tracking-wide text-white/60">Now · {formatSlot(now)}</p>
+          <p className="text-sm font-semibold line-clamp-1">{now.title}</p>
+          <div className="mt-1 h-0.5 w-40 bg-white/30">
+            <div className="h-full bg-primary" style={{ width: `${getProgramProgress(now)}%` }} />
+          </div>
+        </div>
+      )}
+      {next && (
+        <p className="mt-1.5 text-xs text-white/70 line-clamp-1">
+          Next {format(new Date(next.starts_at), "HH:mm")} · {next.title}
+        </p>
+      )}
+    </div>
+  );
+};
+
+const LiveChannelPage = () => {
+  const { channelId } = useParams<{ channelId: string }>();
+  const navigate = useNavigate();
+  const { data: channels = [], isLoading } = useLiveChannels();
+  const channel = channels.find((c) => c.id === channelId);
+  const { data: programs = [] } = useChannelPrograms(channelId ? [channelId] : []);
+  const viewers = useChannelViewers(channel?.id);
+
+  const { now, next } = getNowNext(programs, channelId || "");
+
+  // Keyed on the fields the player uses so the periodic channel refetch doesn't reload the stream
+  const sourceId = channel?.id;
+  const sourceName = channel?.name;
+  const streamUrl = channel?.stream_url;
+  const videoSources = useMemo(
+    () => sourceId && streamUrl ? [{
+      id: sourceId,
+      server_name: sourceName || "Live",
+      // Empty so the player infers HLS/DASH from the URL
+      source_type: "",
+      url: streamUrl,
+      is_default: true,
+    }] : [],
+    [sourceId, sourceName, streamUrl]
+  );
+
+  const otherChannels = channels.filter((c) => c.id !== channelId);
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Header />
+      <main className="pt-20 pb-16">
+        <div className="max-w-[1600px] mx-auto px-4 md:px-6">
+          <Button variant="ghost" size="sm" className="mb-4 -ml-2" onClick={() => navigate("/live")}>
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            All channels
+          </Button>
+
+          {isLoading ? (
+            <Skeleton className="w-full aspect-video rounded-lg" />
+          ) : !channel ? (
+            <div className="text-center py-20 text-muted-foreground">
+              <Radio className="h-12 w-12 mx-auto mb-4 opacity-50" />
+              <p>This channel is not available.</p>
+            </div>
+          ) : (
+            <div className="grid grid-cols-1 lg:grid-cols-[1fr_360px] gap-6">
+              <div className="space-y-4">
+                <div className="aspect-video rounded-lg overflow-hidden bg-black">
+                  <ShakaPlayer
+                    key={channel.id}
+                    videoSources={videoSources}
+                    poster={channel.thumbnail_url || undefined}
+                    title={channel.name}
+                    accessType="free"
+                    autoplay
+                    isLive
+                    overlay={<NowNextOverlay now={now} next={next} />}
+                  />
+                </div>
+
+                <div className="flex flex-wrap items-start justify-between gap-4">
+                  <div>
+                    <h1 className="text-2xl font-bold text-foreground flex items-center gap-2">
+                      {channel.name}
+                      <Badge className="bg-red-600 hover:bg-red-600 text-white">LIVE</Badge>
+                    </h1>
+                    {channel.category && <p className="text-sm text-muted-foreground mt-1">{channel.category}</p>}
+                  </div>
+                  <div className="flex items-center gap-1.5 text-sm text-muted-foreground">
+                    <Users className="h-4 w-4" />
+                    {(viewers ?? channel.viewer_count ?? 0).toLocaleString()} watching
+                  </div>
+                </div>
+
+                {now && (
+                  <div className="rounded-lg border border-border bg-card p-4">
+                    <p className="text-xs uppercase tracking-wide text-muted-foreground">On now · {formatSlot(now)}</p>
+                    <h2 className="text-lg font-semibold text-foreground mt-1">{now.title}</h2>
+                    {now.subtitle && <p className="text-sm text-muted-foreground">{now.subtitle}</p>}
+                    <Progress value={getProgramProgress(now)} className="h-1 mt-3" />
+                    {now.description && <p className="text-sm text-muted-foreground mt-3">{now.description}</p>}
+                  </div>
+                )}
+
+                {channel.description && !now && (
+                  <p className="text-sm text-muted-foreground">{channel.description}</p>
+                )}
+              </div>
+
+              <div className="space-y-6">
+                <section>
+                  <h2 className="text-lg font-semibold text-foreground mb-3">Schedule</h2>
+                  {programs.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">No guide information for this channel.</p>
+                  ) : (
+                    <div className="rounded-lg border border-border divide-y divide-border max-h-[420px] overflow-y-auto">
+                      {programs.map((program) => (
+                        <div
+                          key={program.id}
+                          className={`flex gap-3 p-3 ${program.id === now?.id ? "bg-primary/10" : ""}`}
+                        >
+                          <span className="text-xs font-medium text-muted-foreground w-12 shrink-0 pt-0.5">
+                            {format(new Date(program.starts_at), "HH:mm")}
+                          </span>
+                          <div className="min-w-0">
+                            <p className="text-sm font-medium text-foreground line-clamp-1">{program.title}</p>
+                            {program.category && (
+                              <p className="text-xs text-muted-foreground">{program.category}</p>
+                            )}
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </section>
+
+                {otherChannels.length > 0 && (
+                  <section>
+                    <h2 className="text-lg font-semibold text-foreground mb-3">More channels</h2>
+                    <div className="space-y-2">
+                      {otherChannels.slice(0, 8).map((other) => (
+                        <button
+                          key={other.id}
+                          type="button"
+                          onClick={() => navigate(`/live/${other.id}`)}
+                          className="flex w-full items-center gap-3 rounded-lg p-2 text-left hover:bg-muted transition-colors"
+                        >
+                          <img
+                            src={other.thumbnail_url || "/placeholder.svg"}
+                            alt={other.name}
+                            className="w-24 aspect-video object-cover rounded"
+                          />
+                          <div className="min-w-0">
+                            <p className="text-sm font-medium text-foreground line-clamp-1">{other.name}</p>
+                            <p className="text-xs text-muted-foreground flex items-center gap-1">
+                              <Users className="h-3 w-3" />
+                              {(other.viewer_count ?? 0).toLocaleString()}
+                            </p>
+                          </div>
+                        </button>
+                      ))}
+                    </div>
+                  </section>
+                )}
+              </div>
+            </div>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default LiveChannelPage;
@@ -0,0 +1,159 @@
+import { useMemo, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { format } from "date-fns";
+import { Radio, Users } from "lucide-react";
+import { Header } from "@/components/public/Header";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { getNowNext, getProgramProgress, LiveChannel, ChannelProgram, useChannelPrograms, useLiveChannels } from "@/hooks/useLiveChannels";
+
+const UNCATEGORIZED = "Other";
+
+interface ChannelCardProps {
+  channel: LiveChannel;
+  programs: ChannelProgram[];
+  onClick: () => void;
+}
+
+const ChannelCard = ({ channel, programs, onClick }: ChannelCardProps) => {
+  const { now, next } = getNowNext(programs, channel.id);
+
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      className="group text-left rounded-lg overflow-hidden bg-card border border-border hover:border-primary/50 transition-all"
+    >
+      <div className="relative aspect-video bg-muted overflow-hidden">
+        <img
+          src={channel.thumbnail_url || "/placeholder.svg"}
+          alt={channel.name}
+          className="w-full h-full object-cover transition-transform duration-300 group-hover:scale-105"
+        />
+        <Badge className="absolute top-2 left-2 bg-red-600 hover:bg-red-600 text-white gap-1">
+          <span className="h-1.5 w-1.5 rounded-full bg-white animate-pulse" />
+          LIVE
+        </Badge>
+        <div className="absolute top-2 right-2 flex items-center gap-1 rounded bg-black/70 px-1.5 py-0.5 text-xs text-white">
+          <Users className="h-3 w-3" />
+          {(channel.viewer_count ?? 0).toLocaleString()}
+        </div>
+        {now && (
+          <div className="absolute bottom-0 left-0 right-0 bg-gradient-to-t from-black/90 to-transparent px-3 pb-2 pt-6">
+            <p className="text-xs text-white/70">Now</p>
+            <p className="text-sm font-medium text-white line-clamp-1">{now.title}</p>
+            <div className="mt-1 h-0.5 bg-white/30">
+              <div className="h-full bg-primary" style={{ width: `${getProgramProgress(now)}%` }} />
+            </div>
+          </div>
+        )}
+      </div>
+      <div className="p-3">
+        <h3 className="font-semibold text-foreground line-clamp-1">{channel.name}</h3>
+        <p className="text-xs text-muted-foreground line-clamp-1 mt-0.5">
+          {next ? `Next ${format(new Date(next.starts_at), "HH:mm")} · ${next.title}` : channel.description || "\u00A0"}
+        </p>
+      </div>
+    </button>
+  );
+};
+
+const LivePage = () => {
+  const navigate = useNavigate();
+  const [selectedCategory, setSelectedCategory] = useState<string>("all");
+  const { data: channels = [], isLoading } = useLiveChannels();
+  const channelIds = useMemo(() => channels.map((c) => c.id), [channels]);
+  // Only now/next is shown here, so a short window is enough
+  const { data: programs = [] } = useChannelPrograms(channelIds, 6);
+
+  const grouped = useMemo(() => {
+    const groups = new Map<string, LiveChannel[]>();
+    channels.forEach((channel) => {
+      const category = channel.category?.trim() || UNCATEGORIZED;
+      groups.set(category, [...(groups.get(category) || []), channel]);
+    });
+    return Array.from(groups.entries()).sort(([a], [b]) =>
+      a === UNCATEGORIZED ? 1 : b === UNCATEGORIZED ? -1 : a.localeCompare(b)
+    );
+  }, [channels]);
+
+  const visibleGroups = selectedCategory === "all"
+    ? grouped
+    : grouped.filter(([category]) => category === selectedCategory);
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Header />
+      <main className="pt-20 pb-16">
+        <div className="max-w-[1600px] mx-auto px-4 md:px-6">
+          <div className="mb-6">
+            <h1 className="text-3xl font-bold text-foreground mb-2 flex items-center gap-2">
+              <Radio className="h-7 w-7 text-red-500" />
+              Live TV
+            </h1>
+            <p className="text-muted-foreground">
+              {channels.length} {channels.length === 1 ? "channel" : "channels"} streaming now
+            </p>
+          </div>
+
+          {grouped.length > 1 && (
+            <div className="flex gap-2 overflow-x-auto pb-2 mb-6 scrollbar-hide">
+              <Button
+                size="sm"
+                variant={selectedCategory === "all" ? "default" : "outline"}
+                onClick={() => setSelectedCategory("all")}
+              >
+                All
+              </Button>
+              {grouped.map(([category]) => (
+                <Button
+                  key={category}
+                  size="sm"
+                  variant={selectedCategory === category ? "default" : "outline"}
+                  onClick={() => setSelectedCategory(category)}
+                  className="whitespace-nowrap"
+                >
+                  {category}
+                </Button>
+              ))}
+            </div>
+          )}
+
+          {isLoading ? (
+            <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 xl:grid-cols-5 gap-4">
+              {Array.from({ length: 10 }).map((_, i) => (
+                <Skeleton key={i} className="aspect-video rounded-lg" />
+              ))}
+            </div>
+          ) : channels.length === 0 ? (
+            <div className="text-center py-20 text-muted-foreground">
+              <Radio className="h-12 w-12 mx-auto mb-4 opacity-50" />
+              <p>No live channels are available right now.</p>
+            </div>
+          ) : (
+            <div className="space-y-10">
+              {visibleGroups.map(([category, items]) => (
+                <section key={category}>
+                  <h2 className="text-xl font-semibold text-foreground mb-4">{category}</h2>
+                  <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 xl:grid-cols-5 gap-4">
+                    {items.map((channel) => (
+                      <ChannelCard
+                        key={channel.id}
+                        channel={channel}
+                        programs={programs}
+                        onClick={() => navigate(`/live/${channel.id}`)}
+                      />
+                    ))}
+                  </div>
+                </section>
+              ))}
+            </div>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default LivePage;
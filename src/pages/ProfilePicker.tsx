@@ -0,0 +1,162 @@
+import { useEffect, useState } from "react";
+import { useLocation, useNavigate } from "react-router-dom";
+import { Lock, Pencil, Plus } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { ViewerAvatar } from "@/components/profiles/ViewerAvatar";
+import { ProfilePinDialog } from "@/components/profiles/ProfilePinDialog";
+import { ViewerProfileDialog } from "@/components/profiles/ViewerProfileDialog";
+import { useAuth } from "@/hooks/useAuth";
+import { useViewerProfiles } from "@/hooks/useViewerProfiles";
+import {
+  MAX_VIEWER_PROFILES,
+  verifyViewerProfilePin,
+  ViewerProfile,
+  viewerProfileErrorMessage,
+} from "@/lib/viewerProfiles";
+
+interface PinPrompt {
+  profile: ViewerProfile;
+  // Unlocking either switches to the profile or opens its settings
+  intent: "select" | "edit";
+}
+
+const ProfilePicker = () => {
+  const { user, loading: authLoading } = useAuth();
+  const { profiles, activeProfile, loading, selectProfile } = useViewerProfiles();
+  const navigate = useNavigate();
+  const location = useLocation();
+  const [managing, setManaging] = useState(false);
+  const [pinPrompt, setPinPrompt] = useState<PinPrompt | null>(null);
+  const [editing, setEditing] = useState<ViewerProfile | null>(null);
+  const [editorOpen, setEditorOpen] = useState(false);
+  const [editorKey, setEditorKey] = useState(0);
+
+  const from = (location.state as { from?: string } | null)?.from || "/";
+  // A kids profile can switch away but not change how the household is set up
+  const canManage = activeProfile?.maturity_rating !== "kids";
+
+  // Keep the editor in sync after PIN changes refresh the list
+  const editingProfile = editing ? profiles.find((profile) => profile.id === editing.id) ?? editing : null;
+
+  useEffect(() => {
+    if (!authLoading && !user) navigate("/auth");
+  }, [authLoading, user, navigate]);
+
+  const openEditor = (profile: ViewerProfile | null) => {
+    setEditing(profile);
+    setEditorKey((key) => key + 1);
+    setEditorOpen(true);
+  };
+
+  const enterProfile = async (profile: ViewerProfile, pin?: string) => {
+    await selectProfile(profile, pin);
+    navigate(from, { replace: true });
+  };
+
+  const handleProfileClick = async (profile: ViewerProfile) => {
+    const unlocked = !profile.has_pin || profile.id === activeProfile?.id;
+
+    if (managing) {
+      if (unlocked) openEditor(profile);
+      else setPinPrompt({ profile, intent: "edit" });
+      return;
+    }
+
+    if (!unlocked) {
+      setPinPrompt({ profile, intent: "select" });
+      return;
+    }
+    try {
+      await enterProfile(profile);
+    } catch (error) {
+      toast.error(viewerProfileErrorMessage(error as Error));
+    }
+  };
+
+  const handlePin = async (pin: string) => {
+    if (!pinPrompt) return;
+    const { profile, intent } = pinPrompt;
+
+    if (intent === "edit") {
+      await verifyViewerProfilePin(profile.id, pin);
+      openEditor(profile);
+    } else {
+      await enterProfile(profile, pin);
+    }
+  };
+
+  if (authLoading || loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <div className="animate-spin h-12 w-12 border-4 border-primary border-t-transparent rounded-full" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background flex flex-col items-center justify-center px-4 py-12">
+      <h1 className="text-3xl md:text-4xl font-bold mb-10">
+        {managing ? "Manage Profiles" : "Who's watching?"}
+      </h1>
+
+      <div className="flex flex-wrap justify-center gap-6 md:gap-8 max-w-4xl">
+        {profiles.map((profile) => (
+          <button
+            key={profile.id}
+            type="button"
+            onClick={() => handleProfileClick(profile)}
+            className="group flex flex-col items-center gap-3 w-28 md:w-32 focus:outline-none"
+          >
+            <div className="relative">
+              <ViewerAvatar
+                name={profile.name}
+                avatarUrl={profile.avatar_url}
+                className="h-28 w-28 md:h-32 md:w-32 text-4xl ring-2 ring-transparent transition group-hover:ring-primary group-focus-visible:ring-primary"
+              />
+              {managing && (
+                <div className="absolute inset-0 flex items-center justify-center rounded-lg bg-black/50">
+                  <Pencil className="h-8 w-8 text-white" />
+                </div>
+              )}
+            </div>
+            <span className="flex items-center gap-1 text-sm md:text-base text-muted-foreground group-hover:text-foreground truncate max-w-full">
+              {profile.has_pin && <Lock className="h-3.5 w-3.5 shrink-0" />}
+              <span className="truncate">{profile.name}</span>
+            </span>
+          </button>
+        ))}
+
+        {canManage && profiles.length < MAX_VIEWER_PROFILES && (
+          <button
+            type="button"
+            onClick={() => openEditor(null)}
+            className="group flex flex-col items-center gap-3 w-28 md:w-32 focus:outline-none"
+          >
+            <div className="flex h-28 w-28 md:h-32 md:w-32 items-center justify-center rounded-lg border-2 border-dashed border-muted-foreground/40 transition group-hover:border-primary">
+              <Plus className="h-10 w-10 text-muted-foreground group-hover:text-primary" />
+            </div>
+            <span className="text-sm md:text-base text-muted-foreground group-hover:text-foreground">Add Profile</span>
+          </button>
+        )}
+      </div>
+
+      {canManage && (
+        <Button variant={managing ? "default" : "outline"} className="mt-12" onClick={() => setManaging(!managing)}>
+          {managing ? "Done" : "Manage Profiles"}
+        </Button>
+      )}
+
+      <ProfilePinDialog
+        open={!!pinPrompt}
+        onOpenChange={(open) => !open && setPinPrompt(null)}
+        profileName={pinPrompt?.profile.name ?? ""}
+        onSubmit={handlePin}
+      />
+
+      <ViewerProfileDialog key={editorKey} open={editorOpen} onOpenChange={setEditorOpen} profile={editingProfile} />
+    </div>
+  );
+};
+
+export default ProfilePicker;
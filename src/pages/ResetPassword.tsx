@@ -0,0 +1,116 @@
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useAuth } from '@/hooks/useAuth';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { toast } from 'sonner';
+import { z } from 'zod';
+import { KeyRound } from 'lucide-react';
+
+const passwordSchema = z
+  .object({
+    password: z.string().min(6, { message: 'Password must be at least 6 characters' }).max(100),
+    confirm: z.string(),
+  })
+  .refine((values) => values.password === values.confirm, { message: 'Passwords do not match' });
+
+// Landing page for the link sent by sendPasswordReset. Supabase turns the link into a
+// recovery session before this renders, so the new password is set on that session.
+const ResetPassword = () => {
+  const [password, setPassword] = useState('');
+  const [confirm, setConfirm] = useState('');
+  const [saving, setSaving] = useState(false);
+  const { user, loading, updatePassword } = useAuth();
+  const navigate = useNavigate();
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      const validated = passwordSchema.parse({ password, confirm });
+      setSaving(true);
+
+      const { error } = await updatePassword(validated.password);
+      if (error) {
+        toast.error(error.message);
+      } else {
+        toast.success('Your password has been updated');
+        navigate('/');
+      }
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        toast.error(error.errors[0].message);
+      } else {
+        toast.error('Could not update your password');
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-background to-muted p-4">
+      <Card className="w-full max-w-md">
+        <CardHeader className="space-y-4 text-center">
+          <div className="flex justify-center">
+            <div className="p-3 rounded-full bg-primary/10">
+              <KeyRound className="h-8 w-8 text-primary" />
+            </div>
+          </div>
+          <div>
+            <CardTitle className="text-2xl">Choose a new password</CardTitle>
+            <CardDescription>
+              {user ? `For ${user.email}` : 'Open the reset link from your email to continue'}
+            </CardDescription>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <p className="text-sm text-center text-muted-foreground">Checking your reset link...</p>
+          ) : !user ? (
+            <div className="space-y-4 text-center">
+              <p className="text-sm text-muted-foreground">This reset link is invalid or has expired.</p>
+              <Button className="w-full" onClick={() => navigate('/auth')}>
+                Request a new link
+              </Button>
+            </div>
+          ) : (
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="new-password">New password</Label>
+                <Input
+                  id="new-password"
+                  type="password"
+                  placeholder="••••••••"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  required
+                  disabled={saving}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="confirm-password">Confirm password</Label>
+                <Input
+                  id="confirm-password"
+                  type="password"
+                  placeholder="••••••••"
+                  value={confirm}
+                  onChange={(e) => setConfirm(e.target.value)}
+                  required
+                  disabled={saving}
+                />
+              </div>
+              <Button type="submit" className="w-full" disabled={saving}>
+                {saving ? 'Saving...' : 'Update Password'}
+              </Button>
+            </form>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default ResetPassword;
@@ -0,0 +1,298 @@
+import { Header } from "@/components/public/Header";
+import { MediaCard } from "@/components/public/MediaCard";
+import { useEffect, useState } from "react";
+import { Link, useSearchParams } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Filter, Loader2, Search, X } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Sheet, SheetContent, SheetHeader, SheetTitle, SheetTrigger } from "@/components/ui/sheet";
+import {
+  MIN_SEARCH_LENGTH,
+  SEARCH_KIND_LABELS,
+  SearchFilters,
+  SearchKind,
+  SearchResult,
+  getSearchResultPath,
+  isTitleResult,
+  useCatalogSearch,
+  useSearchFacets,
+} from "@/hooks/useCatalogSearch";
+
+const FILTER_PARAMS = ["type", "genre", "year", "access", "language"] as const;
+
+const ACCESS_LABELS: Record<string, string> = {
+  free: "Free",
+  rent: "Rent",
+  vip: "VIP",
+};
+
+// Cast, voice actors and collections have no MediaCard of their own
+const LinkedResultCard = ({ result }: { result: SearchResult }) => (
+  <Link to={getSearchResultPath(result)}>
+    <Card className="group overflow-hidden border-border/30 bg-card hover:border-primary/50 transition-colors">
+      <div className="aspect-[2/3] relative overflow-hidden bg-secondary/20">
+        <img
+          src={result.image_url || "/placeholder.svg"}
+          alt={result.title}
+          loading="lazy"
+          className="w-full h-full object-cover transition-transform duration-300 group-hover:scale-105"
+        />
+        <Badge variant="secondary" className="absolute top-2 left-2 bg-background/90 backdrop-blur-md border border-border/50">
+          {SEARCH_KIND_LABELS[result.kind as SearchKind] ?? result.kind}
+        </Badge>
+      </div>
+      <div className="p-3">
+        <h3 className="font-semibold text-sm text-foreground line-clamp-1">{result.title}</h3>
+        {result.subtitle && (
+          <p className="text-xs text-muted-foreground line-clamp-2">{result.subtitle}</p>
+        )}
+      </div>
+    </Card>
+  </Link>
+);
+
+const SearchPage = () => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const query = searchParams.get("q") || "";
+  const [input, setInput] = useState(query);
+
+  const filters: SearchFilters = {
+    kinds: searchParams.get("type") ? [searchParams.get("type") as SearchKind] : undefined,
+    genre: searchParams.get("genre") || undefined,
+    year: searchParams.get("year") ? parseInt(searchParams.get("year")!) : undefined,
+    access: searchParams.get("access") || undefined,
+    language: searchParams.get("language") || undefined,
+  };
+
+  const {
+    data,
+    isLoading,
+    isFetchingNextPage,
+    hasNextPage,
+    fetchNextPage,
+  } = useCatalogSearch(query, filters);
+  const { data: facets } = useSearchFacets(query);
+
+  const results = data?.pages.flat() ?? [];
+  const totalCount = data?.pages[0]?.[0]?.total_count ?? 0;
+  const hasQuery = query.trim().length >= MIN_SEARCH_LENGTH;
+
+  // Keep the box in sync when the header search navigates here with a new query
+  useEffect(() => {
+    setInput(query);
+  }, [query]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    setSearchParams((params) => {
+      if (input.trim()) params.set("q", input.trim());
+      else params.delete("q");
+      return params;
+    });
+  };
+
+  const setFilter = (key: (typeof FILTER_PARAMS)[number], value: string) => {
+    setSearchParams((params) => {
+      if (value === "all") params.delete(key);
+      else params.set(key, value);
+      return params;
+    });
+  };
+
+  const clearFilters = () => {
+    setSearchParams((params) => {
+      FILTER_PARAMS.forEach((key) => params.delete(key));
+      return params;
+    });
+  };
+
+  const hasActiveFilters = FILTER_PARAMS.some((key) => searchParams.has(key));
+
+  const facetOptions = (facet: Record<string, number> | undefined, sort: "count" | "desc" = "count") =>
+    Object.entries(facet ?? {}).sort((a, b) =>
+      sort === "desc" ? b[0].localeCompare(a[0]) : b[1] - a[1] || a[0].localeCompare(b[0])
+    );
+
+  const FacetSelect = ({
+    label,
+    param,
+    allLabel,
+    options,
+    formatValue = (value) => value,
+  }: {
+    label: string;
+    param: (typeof FILTER_PARAMS)[number];
+    allLabel: string;
+    options: [string, number][];
+    formatValue?: (value: string) => string;
+  }) => (
+    <div>
+      <label className="text-sm font-medium mb-2 block">{label}</label>
+      <Select value={searchParams.get(param) || "all"} onValueChange={(value) => setFilter(param, value)}>
+        <SelectTrigger>
+          <SelectValue placeholder={allLabel} />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="all">{allLabel}</SelectItem>
+          {options.map(([value, count]) => (
+            <SelectItem key={value} value={value}>
+              {formatValue(value)} ({count})
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+
+  const FilterContent = () => (
+    <div className="space-y-6">
+      <FacetSelect
+        label="Type"
+        param="type"
+        allLabel="All Types"
+        options={facetOptions(facets?.kind)}
+        formatValue={(value) => SEARCH_KIND_LABELS[value as SearchKind] ?? value}
+      />
+      <FacetSelect label="Genre" param="genre" allLabel="All Genres" options={facetOptions(facets?.genre)} />
+      <FacetSelect label="Year" param="year" allLabel="All Years" options={facetOptions(facets?.year, "desc")} />
+      <FacetSelect
+        label="Access"
+        param="access"
+        allLabel="All Access"
+        options={facetOptions(facets?.access)}
+        formatValue={(value) => ACCESS_LABELS[value] ?? value}
+      />
+      <FacetSelect label="Language" param="language" allLabel="All Languages" options={facetOptions(facets?.language)} />
+
+      {hasActiveFilters && (
+        <Button onClick={clearFilters} variant="outline" className="w-full">
+          <X className="w-4 h-4 mr-2" />
+          Clear Filters
+        </Button>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Header />
+      <main className="pt-20 pb-16">
+        <div className="max-w-[1600px] mx-auto px-4 md:px-6">
+          <form onSubmit={handleSubmit} className="relative mb-6">
+            <Search className="absolute left-3 top-1/2 h-5 w-5 -translate-y-1/2 text-muted-foreground" />
+            <Input
+              value={input}
+              onChange={(e) => setInput(e.target.value)}
+              placeholder="Search movies, series, anime, cast and collections..."
+              className="h-12 pl-11 text-base bg-secondary/50"
+              autoFocus={!query}
+            />
+          </form>
+
+          <div className="flex items-center justify-between mb-6">
+            <div>
+              <h1 className="text-3xl font-bold text-foreground mb-2">
+                {hasQuery ? `Results for "${query}"` : "Search"}
+              </h1>
+              <p className="text-muted-foreground">
+                {hasQuery
+                  ? `${totalCount} ${totalCount === 1 ? "result" : "results"}`
+                  : `Type at least ${MIN_SEARCH_LENGTH} characters to search`}
+              </p>
+            </div>
+
+            <Sheet>
+              <SheetTrigger asChild>
+                <Button variant="outline" className="lg:hidden">
+                  <Filter className="w-4 h-4 mr-2" />
+                  Filters
+                  {hasActiveFilters && (
+                    <Badge variant="destructive" className="ml-2 h-5 w-5 p-0 flex items-center justify-center">
+                      !
+                    </Badge>
+                  )}
+                </Button>
+              </SheetTrigger>
+              <SheetContent side="right">
+                <SheetHeader>
+                  <SheetTitle>Filters</SheetTitle>
+                </SheetHeader>
+                <div className="mt-6">
+                  <FilterContent />
+                </div>
+              </SheetContent>
+            </Sheet>
+          </div>
+
+          <div className="flex gap-6">
+            {/* Desktop Filters Sidebar */}
+            <aside className="hidden lg:block w-64 flex-shrink-0">
+              <div className="sticky top-24 bg-card border border-border rounded-lg p-6">
+                <h2 className="text-lg font-semibold mb-4 flex items-center gap-2">
+                  <Filter className="w-5 h-5" />
+                  Filters
+                </h2>
+                <FilterContent />
+              </div>
+            </aside>
+
+            {/* Results Grid */}
+            <div className="flex-1">
+              {!hasQuery ? null : isLoading ? (
+                <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 xl:grid-cols-5 gap-4">
+                  {[...Array(10)].map((_, i) => (
+                    <div key={i} className="w-full h-[320px] bg-secondary animate-pulse rounded-lg" />
+                  ))}
+                </div>
+              ) : results.length === 0 ? (
+                <div className="text-center py-20">
+                  <p className="text-xl text-muted-foreground">No results found for "{query}".</p>
+                  {hasActiveFilters && (
+                    <Button onClick={clearFilters} variant="outline" className="mt-4">
+                      Clear Filters
+                    </Button>
+                  )}
+                </div>
+              ) : (
+                <>
+                  <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 xl:grid-cols-5 gap-4">
+                    {results.map((result) =>
+                      isTitleResult(result) ? (
+                        <MediaCard
+                          key={`${result.kind}-${result.id}`}
+                          id={result.id}
+                          title={result.title}
+                          image={result.image_url}
+                          rating={result.rating ?? undefined}
+                          type={result.kind}
+                          year={result.release_year ?? undefined}
+                          tmdb_id={result.tmdb_id ?? undefined}
+                          access={(result.access as "free" | "rent" | "vip") || "free"}
+                        />
+                      ) : (
+                        <LinkedResultCard key={`${result.kind}-${result.id}`} result={result} />
+                      )
+                    )}
+                  </div>
+                  {hasNextPage && (
+                    <div className="flex justify-center mt-8">
+                      <Button onClick={() => fetchNextPage()} size="lg" disabled={isFetchingNextPage}>
+                        {isFetchingNextPage && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                        Load More ({totalCount - results.length} remaining)
+                      </Button>
+                    </div>
+                  )}
+                </>
+              )}
+            </div>
+          </div>
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default SearchPage;
@@ -5,6 +5,7 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { useAuth } from "@/hooks/useAuth";
@@ -12,6 +13,7 @@ import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
 import { Loader2, Upload, X, Camera, ArrowLeft } from "lucide-react";
 import { ActiveDevices } from "@/components/dashboard/ActiveDevices";
+import { LinkedAccounts } from "@/components/dashboard/LinkedAccounts";
 import { useIDriveUpload } from "@/hooks/useIDriveUpload";
 
 export default function UserSettings() {
@@ -30,6 +32,7 @@ export default function UserSettings() {
     email: user?.email || "",
     profile_picture_url: "",
     cover_picture_url: "",
+    autoplay_next_episode: true,
   });
 
   useEffect(() => {
@@ -59,6 +62,7 @@ export default function UserSettings() {
           email: data.email || "",
           profile_picture_url: data.profile_picture_url || "",
           cover_picture_url: data.cover_picture_url || "",
+          autoplay_next_episode: data.autoplay_next_episode,
         });
       }
     } catch (error) {
@@ -152,6 +156,7 @@ export default function UserSettings() {
           website: formData.website,
           profile_picture_url: formData.profile_picture_url,
           cover_picture_url: formData.cover_picture_url,
+          autoplay_next_episode: formData.autoplay_next_episode,
         })
         .eq("id", user.id);
 
@@ -384,6 +389,32 @@ export default function UserSettings() {
             </CardContent>
           </Card>
 
+          {/* Playback */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Playback</CardTitle>
+              <CardDescription>Choose what happens when an episode finishes</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="flex items-center justify-between gap-4">
+                <div className="space-y-1">
+                  <Label htmlFor="autoplay_next_episode">Autoplay next episode</Label>
+                  <p className="text-sm text-muted-foreground">
+                    Start the next episode after a 10 second countdown when the credits roll
+                  </p>
+                </div>
+                <Switch
+                  id="autoplay_next_episode"
+                  checked={formData.autoplay_next_episode}
+                  onCheckedChange={(checked) => setFormData({ ...formData, autoplay_next_episode: checked })}
+                />
+              </div>
+            </CardContent>
+          </Card>
+
+          {/* Linked Accounts */}
+          <LinkedAccounts />
+
           {/* Active Devices */}
           <ActiveDevices />
 
@@ -15,6 +15,8 @@ import { useDeviceSession } from "@/hooks/useDeviceSession";
 import { DeviceLimitWarning } from "@/components/DeviceLimitWarning";
 import { useSwipeScroll } from "@/hooks/useSwipeScroll";
 import { useAuth } from "@/hooks/useAuth";
+import { useViewerProfiles } from "@/hooks/useViewerProfiles";
+import { canWatchRating } from "@/lib/viewerProfiles";
 import { useWallet } from "@/hooks/useWallet";
 import { useSubscription } from "@/hooks/useSubscription";
 import { CastSkeleton, EpisodesSkeleton, RecommendedSkeleton } from "@/components/watch/ContentSkeleton";
@@ -27,10 +29,12 @@ import { Badge } from "@/components/ui/badge";
 import { motion, AnimatePresence } from "framer-motion";
 import CastMemberDialog from "@/components/movie/CastMemberDialog";
 import { useProfileImage } from "@/hooks/useProfileImage";
+import { usePlaybackPreferences } from "@/hooks/usePlaybackPreferences";
+import { EpisodeMarkers, getNextEpisode } from "@/lib/episodeMarkers";
 
 type VideoSourceDB = Database['public']['Tables']['video_sources']['Row'];
 
-interface Episode {
+interface Episode extends EpisodeMarkers {
   id: string;
   episode_number: number;
   name: string;
@@ -50,6 +54,7 @@ interface Content {
   exclude_from_plan?: boolean;
   rental_price?: number;
   rental_period_days?: number;
+  maturity_rating?: string | null;
 }
 
 // Collapsible Tabs Section Component
@@ -398,6 +403,8 @@ const Watch = () => {
   const navigate = useNavigate();
   const { toast } = useToast();
   const { user } = useAuth();
+  const { activeProfile } = useViewerProfiles();
+  const activeProfileId = activeProfile?.id;
   const { balance, loading: walletLoading } = useWallet();
   const { hasActiveSubscription, remainingDays } = useSubscription();
   const isTablet = useIsTablet();
@@ -405,13 +412,9 @@ const Watch = () => {
   
   // Device session management for streaming limits
   const { 
-    sessions, 
+    streams, 
     currentDeviceId, 
-    canStream, 
-    maxDevices, 
-    loading: deviceSessionLoading,
-    signOutDevice,
-    signOutAllDevices 
+    kickDevice,
   } = useDeviceSession();
   const [content, setContent] = useState<Content | null>(null);
   const [episodes, setEpisodes] = useState<Episode[]>([]);
@@ -453,13 +456,6 @@ const Watch = () => {
     fetchProfile();
   }, [user?.id]);
 
-  // Show device limit warning when user can't stream
-  useEffect(() => {
-    if (!deviceSessionLoading && !canStream && sessions.length > 0) {
-      setShowDeviceLimitWarning(true);
-    }
-  }, [canStream, deviceSessionLoading, sessions]);
-
   useEffect(() => {
     if (id) {
       fetchContentAndEpisodes();
@@ -502,6 +498,7 @@ const Watch = () => {
             exclude_from_plan: movieData.exclude_from_plan || false,
             rental_price: movieData.rental_price || undefined,
             rental_period_days: movieData.rental_period_days || 7,
+            maturity_rating: movieData.maturity_rating,
           });
 
           console.log('Fetching video sources for movie:', movieData.id);
@@ -569,6 +566,7 @@ const Watch = () => {
             exclude_from_plan: seriesData.exclude_from_plan || false,
             rental_price: seriesData.rental_price || undefined,
             rental_period_days: seriesData.rental_period_days || 7,
+            maturity_rating: seriesData.maturity_rating,
           });
 
           console.log('Fetching seasons for series UUID:', seriesData.id);
@@ -690,13 +688,13 @@ const Watch = () => {
   // Fetch watch history for progress indicators
   useEffect(() => {
     const fetchWatchHistory = async () => {
-      if (!user || episodes.length === 0) return;
+      if (!user || !activeProfileId || episodes.length === 0) return;
 
       const episodeIds = episodes.map(ep => ep.id);
       const { data } = await supabase
         .from('watch_history')
         .select('episode_id, progress, duration')
-        .eq('user_id', user.id)
+        .eq('profile_id', activeProfileId)
         .in('episode_id', episodeIds);
 
       if (data) {
@@ -714,7 +712,26 @@ const Watch = () => {
     };
 
     fetchWatchHistory();
-  }, [user, episodes]);
+  }, [user, activeProfileId, episodes]);
+
+  const { autoplayNextEpisode } = usePlaybackPreferences();
+  const nextEpisode = getNextEpisode(episodes, seasons, currentEpisode?.id);
+  const nextEpisodeSeason = seasons.find(s => s.id === nextEpisode?.season_id);
+  const nextEpisodeInfo = nextEpisode ? {
+    id: nextEpisode.id,
+    title: nextEpisode.name,
+    label: nextEpisodeSeason
+      ? `Season ${nextEpisodeSeason.season_number} · Episode ${nextEpisode.episode_number}`
+      : `Episode ${nextEpisode.episode_number}`,
+    image: nextEpisode.still_path,
+  } : null;
+
+  // Crossing into the next season also switches the season picker so the episode list follows along
+  const playNextEpisode = () => {
+    if (!nextEpisode) return;
+    if (nextEpisode.season_id) setSelectedSeasonId(nextEpisode.season_id);
+    fetchVideoSource(nextEpisode.id);
+  };
 
   // Setup smooth scroll refs for horizontal sections
   const mobileCastScrollRef = useSwipeScroll({ enabled: true });
@@ -731,7 +748,7 @@ const Watch = () => {
 
   // Fetch personalized "For You" content
   const fetchForYouContent = async (contentType: string, currentId: string, currentGenre: string) => {
-    if (!user) {
+    if (!user || !activeProfile) {
       // If not logged in, show popular content from different genres
       const table = contentType === 'series' ? 'series' : 'movies';
       const { data } = await supabase
@@ -755,14 +772,14 @@ const Watch = () => {
     const { data: watchHistoryData } = await supabase
       .from('watch_history')
       .select('movie_id, episode_id')
-      .eq('user_id', user.id)
+      .eq('profile_id', activeProfile.id)
       .limit(50);
 
     // Get user's liked content
     const { data: likesData } = await supabase
       .from('user_likes')
       .select('media_id, media_type')
-      .eq('user_id', user.id)
+      .eq('profile_id', activeProfile.id)
       .eq('like_type', 'like')
       .limit(20);
 
@@ -789,7 +806,7 @@ const Watch = () => {
     const table = contentType === 'series' ? 'series' : 'movies';
     const { data: mixedContent } = await supabase
       .from(table)
-      .select('id, title, thumbnail, tmdb_id, genre, rating, views')
+      .select('id, title, thumbnail, tmdb_id, genre, rating, views, maturity_rating')
       .neq('id', currentId)
       .neq('genre', currentGenre)
       .gte('rating', 7)
@@ -798,7 +815,7 @@ const Watch = () => {
 
     const { data: popularContent } = await supabase
       .from(table)
-      .select('id, title, thumbnail, tmdb_id, genre, rating, views')
+      .select('id, title, thumbnail, tmdb_id, genre, rating, views, maturity_rating')
       .neq('id', currentId)
       .order('views', { ascending: false })
       .limit(8);
@@ -808,7 +825,9 @@ const Watch = () => {
     const unique = Array.from(new Map(combined.map(item => [item.id, item])).values());
     
     // Filter out watched content and shuffle
-    const filtered = unique.filter(item => !watchedIds.has(item.id));
+    const filtered = unique.filter(item =>
+      !watchedIds.has(item.id) && canWatchRating(activeProfile.maturity_rating, item.maturity_rating)
+    );
     const shuffled = filtered.sort(() => Math.random() - 0.5).slice(0, 12);
 
     setForYouContent(shuffled.map(item => ({
@@ -856,6 +875,28 @@ const Watch = () => {
     );
   }
 
+  if (!canWatchRating(activeProfile?.maturity_rating, content.maturity_rating)) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-background">
+        <div className="text-center space-y-4">
+          <h2 className="text-2xl font-bold">Not Available on This Profile</h2>
+          <p className="text-muted-foreground">
+            {content.title} is above the maturity rating set for {activeProfile?.name}.
+          </p>
+          <div className="flex gap-2 justify-center">
+            <Button onClick={() => navigate('/')}>
+              <Home className="mr-2 h-4 w-4" />
+              Go Home
+            </Button>
+            <Button variant="outline" onClick={() => navigate('/profiles')}>
+              Switch Profile
+            </Button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
   // Determine if this is a series or movie
   const isSeriesContent = type === 'series' || Boolean(season && episode);
 
@@ -886,6 +927,10 @@ const Watch = () => {
             mediaType={content?.type}
             title={content?.title}
             movieId={content?.type === 'movie' ? content?.id : undefined}
+            onManageDevices={() => setShowDeviceLimitWarning(true)}
+            nextEpisode={nextEpisodeInfo}
+            onNextEpisode={playNextEpisode}
+            autoplayNext={autoplayNextEpisode}
           />
         )}
 
@@ -1205,11 +1250,9 @@ const Watch = () => {
       <DeviceLimitWarning
         open={showDeviceLimitWarning}
         onOpenChange={setShowDeviceLimitWarning}
-        maxDevices={maxDevices}
-        activeSessions={sessions}
+        activeStreams={streams}
         currentDeviceId={currentDeviceId}
-        onSignOutDevice={signOutDevice}
-        onSignOutAllDevices={signOutAllDevices}
+        onStopStream={kickDevice}
       />
       </>
     );
@@ -1242,6 +1285,10 @@ const Watch = () => {
             mediaType={content?.type}
             title={content?.title}
             movieId={content?.type === 'movie' ? content?.id : undefined}
+            onManageDevices={() => setShowDeviceLimitWarning(true)}
+            nextEpisode={nextEpisodeInfo}
+            onNextEpisode={playNextEpisode}
+            autoplayNext={autoplayNextEpisode}
           />
         )}
 
@@ -1594,11 +1641,9 @@ const Watch = () => {
       <DeviceLimitWarning
         open={showDeviceLimitWarning}
         onOpenChange={setShowDeviceLimitWarning}
-        maxDevices={maxDevices}
-        activeSessions={sessions}
+        activeStreams={streams}
         currentDeviceId={currentDeviceId}
-        onSignOutDevice={signOutDevice}
-        onSignOutAllDevices={signOutAllDevices}
+        onStopStream={kickDevice}
       />
       </>
     );
@@ -1633,6 +1678,10 @@ const Watch = () => {
               mediaType={content?.type}
               title={content?.title}
               movieId={content?.type === 'movie' ? content?.id : undefined}
+              onManageDevices={() => setShowDeviceLimitWarning(true)}
+              nextEpisode={nextEpisodeInfo}
+              onNextEpisode={playNextEpisode}
+              autoplayNext={autoplayNextEpisode}
             />
           )}
             
@@ -1852,11 +1901,9 @@ const Watch = () => {
     <DeviceLimitWarning
       open={showDeviceLimitWarning}
       onOpenChange={setShowDeviceLimitWarning}
-      maxDevices={maxDevices}
-      activeSessions={sessions}
+      activeStreams={streams}
       currentDeviceId={currentDeviceId}
-      onSignOutDevice={signOutDevice}
-      onSignOutAllDevices={signOutAllDevices}
+      onStopStream={kickDevice}
     />
     </>
   );
@@ -2,6 +2,7 @@ import { useEffect, useState } from "react";
 import { useNavigate } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/hooks/useAuth";
+import { useViewerProfiles } from "@/hooks/useViewerProfiles";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { Trash2, Play } from "lucide-react";
@@ -26,6 +27,7 @@ interface WatchlistItem {
 
 const Watchlist = () => {
   const { user } = useAuth();
+  const { activeProfile } = useViewerProfiles();
   const navigate = useNavigate();
   const { toast } = useToast();
   const isMobile = useIsMobile();
@@ -38,17 +40,17 @@ const Watchlist = () => {
       return;
     }
     fetchWatchlist();
-  }, [user]);
+  }, [user, activeProfile?.id]);
 
   const fetchWatchlist = async () => {
-    if (!user) return;
+    if (!user || !activeProfile) return;
 
     setLoading(true);
     try {
       const { data: watchlistData, error } = await supabase
         .from('user_watchlist')
         .select('*')
-        .eq('user_id', user.id)
+        .eq('profile_id', activeProfile.id)
         .order('created_at', { ascending: false });
 
       if (error) throw error;
@@ -86,6 +88,8 @@ const Watchlist = () => {
         })).filter(item => item.media); // Filter out items without media data
 
         setWatchlist(enrichedWatchlist);
+      } else {
+        setWatchlist([]);
       }
     } catch (error) {
       console.error('Error fetching watchlist:', error);
@@ -146,6 +150,7 @@ const Watchlist = () => {
       <div className="container mx-auto px-4 py-8">
         <div className="mb-8">
           <h1 className="text-3xl font-bold mb-2">My Watchlist</h1>
+          {activeProfile && <p className="text-sm text-muted-foreground mb-1">{activeProfile.name}'s list</p>}
           <p className="text-muted-foreground">
             {watchlist.length} {watchlist.length === 1 ? 'item' : 'items'} saved
           </p>
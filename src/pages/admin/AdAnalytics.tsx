@@ -1,166 +1,260 @@
+import { useState } from "react";
+import { format, parseISO, subDays } from "date-fns";
 import { AdminLayout } from "@/components/admin/AdminLayout";
+import { DateRangePicker, DateRangeValue } from "@/components/admin/DateRangePicker";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { useQuery } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
-import { 
-  BarChart, 
-  Bar, 
-  LineChart, 
-  Line, 
-  PieChart, 
-  Pie, 
-  Cell,
-  XAxis, 
-  YAxis, 
-  CartesianGrid, 
-  Tooltip, 
-  Legend, 
-  ResponsiveContainer 
+import { downloadCsv } from "@/lib/csv";
+import {
+  BarChart,
+  Bar,
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
 } from "recharts";
-import { Eye, MousePointerClick, TrendingUp, DollarSign } from "lucide-react";
+import { Eye, MousePointerClick, TrendingUp, CheckCircle, DollarSign, Download } from "lucide-react";
+
+const PLACEMENT_LABELS: Record<string, string> = {
+  homepage: "Homepage",
+  sidebar: "Sidebar",
+  banner: "Banner",
+  video_player: "Video player",
+  overlay: "Player overlay",
+  preroll: "Pre-roll",
+  midroll: "Mid-roll",
+  postroll: "Post-roll",
+};
+
+const DEVICE_LABELS: Record<string, string> = {
+  desktop: "Desktop",
+  mobile: "Mobile",
+  tablet: "Tablet",
+  app: "App",
+};
+
+interface EventTotals {
+  impressions: number;
+  clicks: number;
+  skips: number;
+  completions: number;
+}
+
+const percent = (part: number, whole: number) => (whole > 0 ? (part / whole) * 100 : 0);
+
+// Sums breakdown rows per key, with CTR and completion rate as percentages
+const groupTotals = <T extends EventTotals>(rows: T[], keyOf: (row: T) => string) => {
+  const groups = new Map<string, EventTotals>();
+  for (const row of rows) {
+    const key = keyOf(row);
+    const group = groups.get(key) ?? { impressions: 0, clicks: 0, skips: 0, completions: 0 };
+    group.impressions += row.impressions;
+    group.clicks += row.clicks;
+    group.skips += row.skips;
+    group.completions += row.completions;
+    groups.set(key, group);
+  }
+  return [...groups].map(([key, totals]) => ({
+    key,
+    ...totals,
+    ctr: Number(percent(totals.clicks, totals.impressions).toFixed(2)),
+    completionRate: Number(percent(totals.completions, totals.impressions).toFixed(1)),
+  }));
+};
 
 export default function AdAnalytics() {
-  const { data: ads, isLoading } = useQuery({
-    queryKey: ["ads-analytics"],
+  const [range, setRange] = useState<DateRangeValue>(() => ({ from: subDays(new Date(), 29), to: new Date() }));
+  const params = {
+    _from: format(range.from, "yyyy-MM-dd"),
+    _to: format(range.to, "yyyy-MM-dd"),
+  };
+
+  const { data: daily = [], isLoading, error } = useQuery({
+    queryKey: ["ad-analytics-daily", params],
     queryFn: async () => {
-      const { data, error } = await supabase
+      const { data, error } = await supabase.rpc("ad_analytics_daily", params);
+      if (error) throw error;
+      return data ?? [];
+    },
+  });
+
+  const { data: breakdown = [] } = useQuery({
+    queryKey: ["ad-analytics-breakdown", params],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc("ad_analytics_breakdown", params);
+      if (error) throw error;
+      return data ?? [];
+    },
+  });
+
+  const { data: activeAds = 0 } = useQuery({
+    queryKey: ["ad-analytics-active-ads"],
+    queryFn: async () => {
+      const { count, error } = await supabase
         .from("ads")
-        .select("*")
-        .order("created_at", { ascending: false });
+        .select("id", { count: "exact", head: true })
+        .eq("is_active", true);
       if (error) throw error;
-      return data;
+      return count ?? 0;
     },
   });
 
-  if (isLoading) {
-    return (
-      <AdminLayout>
-        <div className="p-8">
-          <p className="text-muted-foreground">Loading analytics...</p>
-        </div>
-      </AdminLayout>
-    );
-  }
+  const totalImpressions = daily.reduce((sum, day) => sum + day.impressions, 0);
+  const totalClicks = daily.reduce((sum, day) => sum + day.clicks, 0);
+
+  // Only video ads can be completed, so their impressions are the denominator
+  const videoRows = breakdown.filter((row) => row.ad_type === "video");
+  const videoImpressions = videoRows.reduce((sum, row) => sum + row.impressions, 0);
+  const videoCompletions = videoRows.reduce((sum, row) => sum + row.completions, 0);
+
+  const byPlacement = groupTotals(breakdown, (row) => row.placement).map((row) => ({
+    ...row,
+    name: PLACEMENT_LABELS[row.key] ?? row.key,
+  }));
+  const byDevice = groupTotals(breakdown, (row) => row.device).map((row) => ({
+    ...row,
+    name: DEVICE_LABELS[row.key] ?? row.key,
+  }));
+  const titles = new Map(breakdown.map((row) => [row.ad_id, { title: row.title, adType: row.ad_type }]));
+  const byAd = groupTotals(breakdown, (row) => row.ad_id)
+    .map((row) => ({ ...row, ...titles.get(row.key)! }))
+    .sort((a, b) => b.impressions - a.impressions);
 
-  const totalImpressions = ads?.reduce((sum, ad) => sum + (ad.impressions || 0), 0) || 0;
-  const totalClicks = ads?.reduce((sum, ad) => sum + (ad.clicks || 0), 0) || 0;
-  const averageCTR = totalImpressions > 0 ? ((totalClicks / totalImpressions) * 100).toFixed(2) : "0.00";
+  const fileSuffix = `${params._from}_${params._to}`;
+  const exports = [
+    { label: "Daily events", run: () => downloadCsv(`ad-events-daily_${fileSuffix}`, daily) },
+    { label: "Placement and device breakdown", run: () => downloadCsv(`ad-events-breakdown_${fileSuffix}`, breakdown) },
+  ];
 
-  // Group by ad type
-  const adTypeData = [
+  const stats = [
+    {
+      title: "Impressions",
+      value: totalImpressions.toLocaleString(),
+      detail: "Counted once per viewing session",
+      icon: Eye,
+    },
+    {
+      title: "Clicks",
+      value: totalClicks.toLocaleString(),
+      detail: "Total engagements",
+      icon: MousePointerClick,
+    },
     {
-      name: "Manual",
-      impressions: ads?.filter(ad => ad.ad_type === "manual").reduce((sum, ad) => sum + (ad.impressions || 0), 0) || 0,
-      clicks: ads?.filter(ad => ad.ad_type === "manual").reduce((sum, ad) => sum + (ad.clicks || 0), 0) || 0,
+      title: "CTR",
+      value: `${percent(totalClicks, totalImpressions).toFixed(2)}%`,
+      detail: "Click-through rate",
+      icon: TrendingUp,
     },
     {
-      name: "AdSense",
-      impressions: ads?.filter(ad => ad.ad_type === "adsense").reduce((sum, ad) => sum + (ad.impressions || 0), 0) || 0,
-      clicks: ads?.filter(ad => ad.ad_type === "adsense").reduce((sum, ad) => sum + (ad.clicks || 0), 0) || 0,
+      title: "Completion Rate",
+      value: `${percent(videoCompletions, videoImpressions).toFixed(1)}%`,
+      detail: "Video ads watched to the end",
+      icon: CheckCircle,
     },
     {
-      name: "Video",
-      impressions: ads?.filter(ad => ad.ad_type === "video").reduce((sum, ad) => sum + (ad.impressions || 0), 0) || 0,
-      clicks: ads?.filter(ad => ad.ad_type === "video").reduce((sum, ad) => sum + (ad.clicks || 0), 0) || 0,
+      title: "Active Ads",
+      value: activeAds.toLocaleString(),
+      detail: "Currently running",
+      icon: DollarSign,
     },
   ];
 
-  // Calculate CTR by ad type
-  const ctrByType = adTypeData.map(type => ({
-    name: type.name,
-    ctr: type.impressions > 0 ? ((type.clicks / type.impressions) * 100).toFixed(2) : 0,
-  }));
-
-  // Top performing ads
-  const topAds = [...(ads || [])]
-    .sort((a, b) => {
-      const ctrA = a.impressions > 0 ? (a.clicks / a.impressions) * 100 : 0;
-      const ctrB = b.impressions > 0 ? (b.clicks / b.impressions) * 100 : 0;
-      return ctrB - ctrA;
-    })
-    .slice(0, 5)
-    .map(ad => ({
-      name: ad.title.substring(0, 20) + (ad.title.length > 20 ? "..." : ""),
-      impressions: ad.impressions || 0,
-      clicks: ad.clicks || 0,
-      ctr: ad.impressions > 0 ? ((ad.clicks / ad.impressions) * 100).toFixed(2) : 0,
-    }));
-
-  const COLORS = ["#8b5cf6", "#06b6d4", "#f59e0b", "#10b981", "#ef4444"];
-
   return (
     <AdminLayout>
       <div className="p-8 space-y-6">
-        <div>
-          <h1 className="text-3xl font-bold">Ad Analytics</h1>
-          <p className="text-muted-foreground">Track ad performance and insights</p>
+        <div className="flex flex-col gap-4 lg:flex-row lg:items-end lg:justify-between">
+          <div>
+            <h1 className="text-3xl font-bold">Ad Analytics</h1>
+            <p className="text-muted-foreground">Track ad performance and insights</p>
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <DateRangePicker value={range} onChange={setRange} />
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button size="sm">
+                  <Download className="mr-2 h-4 w-4" />
+                  Export CSV
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                {exports.map((item) => (
+                  <DropdownMenuItem key={item.label} onClick={item.run}>
+                    {item.label}
+                  </DropdownMenuItem>
+                ))}
+              </DropdownMenuContent>
+            </DropdownMenu>
+          </div>
         </div>
 
-        {/* Summary Cards */}
-        <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
+        {error && (
           <Card>
-            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-              <CardTitle className="text-sm font-medium">Total Impressions</CardTitle>
-              <Eye className="h-4 w-4 text-muted-foreground" />
-            </CardHeader>
-            <CardContent>
-              <div className="text-2xl font-bold">{totalImpressions.toLocaleString()}</div>
-              <p className="text-xs text-muted-foreground">All time views</p>
-            </CardContent>
-          </Card>
-
-          <Card>
-            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-              <CardTitle className="text-sm font-medium">Total Clicks</CardTitle>
-              <MousePointerClick className="h-4 w-4 text-muted-foreground" />
-            </CardHeader>
-            <CardContent>
-              <div className="text-2xl font-bold">{totalClicks.toLocaleString()}</div>
-              <p className="text-xs text-muted-foreground">Total engagements</p>
+            <CardContent className="py-6 text-destructive">
+              Failed to load ad analytics. Only admins can view this page.
             </CardContent>
           </Card>
+        )}
 
-          <Card>
-            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-              <CardTitle className="text-sm font-medium">Average CTR</CardTitle>
-              <TrendingUp className="h-4 w-4 text-muted-foreground" />
-            </CardHeader>
-            <CardContent>
-              <div className="text-2xl font-bold">{averageCTR}%</div>
-              <p className="text-xs text-muted-foreground">Click-through rate</p>
-            </CardContent>
-          </Card>
-
-          <Card>
-            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-              <CardTitle className="text-sm font-medium">Active Ads</CardTitle>
-              <DollarSign className="h-4 w-4 text-muted-foreground" />
-            </CardHeader>
-            <CardContent>
-              <div className="text-2xl font-bold">
-                {ads?.filter(ad => ad.is_active).length || 0}
-              </div>
-              <p className="text-xs text-muted-foreground">Currently running</p>
-            </CardContent>
-          </Card>
+        {/* Summary Cards */}
+        <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-5 gap-6">
+          {stats.map((stat) => (
+            <Card key={stat.title}>
+              <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                <CardTitle className="text-sm font-medium">{stat.title}</CardTitle>
+                <stat.icon className="h-4 w-4 text-muted-foreground" />
+              </CardHeader>
+              <CardContent>
+                <div className="text-2xl font-bold">{isLoading ? "..." : stat.value}</div>
+                <p className="text-xs text-muted-foreground">{stat.detail}</p>
+              </CardContent>
+            </Card>
+          ))}
         </div>
 
         {/* Charts */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Daily Events</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ResponsiveContainer width="100%" height={300}>
+              <LineChart data={daily}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="day" tickFormatter={(day) => format(parseISO(day), "MMM dd")} />
+                <YAxis allowDecimals={false} />
+                <Tooltip />
+                <Legend />
+                <Line type="monotone" dataKey="impressions" name="Impressions" stroke="#8b5cf6" strokeWidth={2} dot={false} />
+                <Line type="monotone" dataKey="clicks" name="Clicks" stroke="#06b6d4" strokeWidth={2} dot={false} />
+                <Line type="monotone" dataKey="completions" name="Completions" stroke="#10b981" strokeWidth={2} dot={false} />
+                <Line type="monotone" dataKey="skips" name="Skips" stroke="#f59e0b" strokeWidth={2} dot={false} />
+              </LineChart>
+            </ResponsiveContainer>
+          </CardContent>
+        </Card>
+
         <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
           <Card>
             <CardHeader>
-              <CardTitle>Performance by Ad Type</CardTitle>
+              <CardTitle>CTR by Placement</CardTitle>
             </CardHeader>
             <CardContent>
               <ResponsiveContainer width="100%" height={300}>
-                <BarChart data={adTypeData}>
+                <BarChart data={byPlacement}>
                   <CartesianGrid strokeDasharray="3 3" />
                   <XAxis dataKey="name" />
-                  <YAxis />
+                  <YAxis unit="%" />
                   <Tooltip />
                   <Legend />
-                  <Bar dataKey="impressions" fill="#8b5cf6" />
-                  <Bar dataKey="clicks" fill="#06b6d4" />
+                  <Bar dataKey="ctr" name="CTR (%)" fill="#8b5cf6" />
                 </BarChart>
               </ResponsiveContainer>
             </CardContent>
@@ -168,50 +262,64 @@ export default function AdAnalytics() {
 
           <Card>
             <CardHeader>
-              <CardTitle>CTR by Ad Type</CardTitle>
-            </CardHeader>
-            <CardContent>
-              <ResponsiveContainer width="100%" height={300}>
-                <PieChart>
-                  <Pie
-                    data={ctrByType}
-                    cx="50%"
-                    cy="50%"
-                    labelLine={false}
-                    label={({ name, ctr }) => `${name}: ${ctr}%`}
-                    outerRadius={80}
-                    fill="#8884d8"
-                    dataKey="ctr"
-                  >
-                    {ctrByType.map((entry, index) => (
-                      <Cell key={`cell-${index}`} fill={COLORS[index % COLORS.length]} />
-                    ))}
-                  </Pie>
-                  <Tooltip />
-                </PieChart>
-              </ResponsiveContainer>
-            </CardContent>
-          </Card>
-
-          <Card className="md:col-span-2">
-            <CardHeader>
-              <CardTitle>Top Performing Ads</CardTitle>
+              <CardTitle>CTR by Device</CardTitle>
             </CardHeader>
             <CardContent>
               <ResponsiveContainer width="100%" height={300}>
-                <LineChart data={topAds}>
+                <BarChart data={byDevice}>
                   <CartesianGrid strokeDasharray="3 3" />
                   <XAxis dataKey="name" />
-                  <YAxis />
+                  <YAxis unit="%" />
                   <Tooltip />
                   <Legend />
-                  <Line type="monotone" dataKey="impressions" stroke="#8b5cf6" strokeWidth={2} />
-                  <Line type="monotone" dataKey="clicks" stroke="#06b6d4" strokeWidth={2} />
-                </LineChart>
+                  <Bar dataKey="ctr" name="CTR (%)" fill="#06b6d4" />
+                </BarChart>
               </ResponsiveContainer>
             </CardContent>
           </Card>
         </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Performance by Ad</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Ad</TableHead>
+                  <TableHead className="text-right">Impressions</TableHead>
+                  <TableHead className="text-right">Clicks</TableHead>
+                  <TableHead className="text-right">CTR</TableHead>
+                  <TableHead className="text-right">Skips</TableHead>
+                  <TableHead className="text-right">Completion Rate</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {byAd.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={6} className="text-center text-muted-foreground">
+                      No ad events in this range
+                    </TableCell>
+                  </TableRow>
+                )}
+                {byAd.map((row) => (
+                  <TableRow key={row.key}>
+                    <TableCell>
+                      <p className="font-medium">{row.title}</p>
+                      <p className="text-xs text-muted-foreground capitalize">{row.adType}</p>
+                    </TableCell>
+                    <TableCell className="text-right">{row.impressions.toLocaleString()}</TableCell>
+                    <TableCell className="text-right">{row.clicks.toLocaleString()}</TableCell>
+                    <TableCell className="text-right">{row.ctr.toFixed(2)}%</TableCell>
+                    <TableCell className="text-right">{row.adType === "video" ? row.skips.toLocaleString() : "-"}</TableCell>
+                    <TableCell className="text-right">{row.adType === "video" ? `${row.completionRate.toFixed(1)}%` : "-"}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
       </div>
     </AdminLayout>
   );
@@ -36,6 +36,9 @@ export default function AdCreate() {
     ad_format: "",
     video_url: "",
     video_type: "",
+    vast_tag_url: "",
+    max_impressions_per_session: "",
+    max_impressions_per_day: "",
     skip_after_seconds: 5,
     midroll_time_seconds: 120,
     rotation_interval_seconds: 30,
@@ -49,6 +52,9 @@ export default function AdCreate() {
         ...data,
         start_date: data.start_date || undefined,
         end_date: data.end_date || null,
+        vast_tag_url: data.vast_tag_url || null,
+        max_impressions_per_session: parseInt(data.max_impressions_per_session) || null,
+        max_impressions_per_day: parseInt(data.max_impressions_per_day) || null,
       };
       
       const { error } = await supabase
@@ -215,22 +221,38 @@ export default function AdCreate() {
                         <SelectValue placeholder="Select video type" />
                       </SelectTrigger>
                       <SelectContent>
-                        <SelectItem value="video">Pre-roll Video Ad</SelectItem>
+                        <SelectItem value="video">Video Ad (ad breaks)</SelectItem>
+                        <SelectItem value="vast">VAST Tag (ad breaks)</SelectItem>
                         <SelectItem value="popup">Overlay/Popup Ad</SelectItem>
                         <SelectItem value="banner">Banner Ad (Player)</SelectItem>
                       </SelectContent>
                     </Select>
                   </div>
 
-                  <div>
-                    <Label htmlFor="video_url">Video URL</Label>
-                    <Input
-                      id="video_url"
-                      value={formData.video_url}
-                      onChange={(e) => setFormData({ ...formData, video_url: e.target.value })}
-                      placeholder="https://..."
-                    />
-                  </div>
+                  {formData.video_type === "vast" ? (
+                    <div>
+                      <Label htmlFor="vast_tag_url">VAST Tag URL</Label>
+                      <Input
+                        id="vast_tag_url"
+                        value={formData.vast_tag_url}
+                        onChange={(e) => setFormData({ ...formData, vast_tag_url: e.target.value })}
+                        placeholder="https://ads.example.com/vast?cb=[CACHEBUSTING]"
+                      />
+                      <p className="text-xs text-muted-foreground mt-1">
+                        VAST 3 or 4; wrappers are followed. Skip time and link come from the tag.
+                      </p>
+                    </div>
+                  ) : (
+                    <div>
+                      <Label htmlFor="video_url">Video URL</Label>
+                      <Input
+                        id="video_url"
+                        value={formData.video_url}
+                        onChange={(e) => setFormData({ ...formData, video_url: e.target.value })}
+                        placeholder="https://..."
+                      />
+                    </div>
+                  )}
 
                   <div>
                     <Label htmlFor="placement">Placement *</Label>
@@ -287,6 +309,33 @@ export default function AdCreate() {
                     />
                     <Label htmlFor="auto_play" className="cursor-pointer">Auto-play video ad</Label>
                   </div>
+
+                  {(formData.video_type === "video" || formData.video_type === "vast") && (
+                    <div className="grid grid-cols-2 gap-4">
+                      <div>
+                        <Label htmlFor="max_impressions_per_session">Max Views per Session</Label>
+                        <Input
+                          id="max_impressions_per_session"
+                          type="number"
+                          min="1"
+                          value={formData.max_impressions_per_session}
+                          onChange={(e) => setFormData({ ...formData, max_impressions_per_session: e.target.value })}
+                          placeholder="Unlimited"
+                        />
+                      </div>
+                      <div>
+                        <Label htmlFor="max_impressions_per_day">Max Views per Viewer per Day</Label>
+                        <Input
+                          id="max_impressions_per_day"
+                          type="number"
+                          min="1"
+                          value={formData.max_impressions_per_day}
+                          onChange={(e) => setFormData({ ...formData, max_impressions_per_day: e.target.value })}
+                          placeholder="Unlimited"
+                        />
+                      </div>
+                    </div>
+                  )}
                 </>
               )}
 
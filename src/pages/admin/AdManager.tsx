@@ -9,6 +9,8 @@ import { supabase } from "@/integrations/supabase/client";
 import { toast } from "sonner";
 import { Badge } from "@/components/ui/badge";
 import { AdPreviewToggle } from "@/components/admin/AdPreviewToggle";
+import { AdBreakManager } from "@/components/admin/AdBreakManager";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import {
   AlertDialog,
   AlertDialogAction,
@@ -228,6 +230,15 @@ export default function AdManager() {
               />
             </div>
             {renderAdTable()}
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Default Ad Breaks</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <AdBreakManager />
+              </CardContent>
+            </Card>
           </TabsContent>
         </Tabs>
 
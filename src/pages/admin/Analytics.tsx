@@ -1,25 +1,192 @@
+import { useState } from "react";
+import { format, parseISO, subDays } from "date-fns";
+import { useQuery } from "@tanstack/react-query";
 import { AdminLayout } from "@/components/admin/AdminLayout";
+import { DateRangePicker, DateRangeValue } from "@/components/admin/DateRangePicker";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { TrendingUp, Users, Eye, Film } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { supabase } from "@/integrations/supabase/client";
+import { downloadCsv } from "@/lib/csv";
+import {
+  BarChart,
+  Bar,
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+} from "recharts";
+import { Users, Eye, Clock, DollarSign, UserPlus, CreditCard, Download } from "lucide-react";
+
+const PRODUCT_LABELS: Record<string, string> = {
+  rental: "Rentals",
+  subscription: "Subscriptions",
+  topup: "Wallet Top-ups",
+};
+
+const formatMoney = (value: number) => `$${Number(value).toFixed(2)}`;
 
 const Analytics = () => {
-  // Mock data
+  const [range, setRange] = useState<DateRangeValue>(() => ({ from: subDays(new Date(), 29), to: new Date() }));
+  const params = {
+    _from: format(range.from, "yyyy-MM-dd"),
+    _to: format(range.to, "yyyy-MM-dd"),
+  };
+
+  const { data: overview, isLoading, error } = useQuery({
+    queryKey: ["analytics-overview", params],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc("analytics_overview", params);
+      if (error) throw error;
+      return data?.[0] ?? null;
+    },
+  });
+
+  const { data: daily = [] } = useQuery({
+    queryKey: ["analytics-daily", params],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc("analytics_daily", params);
+      if (error) throw error;
+      return data ?? [];
+    },
+  });
+
+  const { data: topTitles = [] } = useQuery({
+    queryKey: ["analytics-top-titles", params],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc("analytics_top_titles", { ...params, _limit: 10 });
+      if (error) throw error;
+      return data ?? [];
+    },
+  });
+
+  const { data: revenue = [] } = useQuery({
+    queryKey: ["analytics-revenue", params],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc("analytics_revenue_by_product", params);
+      if (error) throw error;
+      return data ?? [];
+    },
+  });
+
+  const { data: churn = [] } = useQuery({
+    queryKey: ["analytics-churn", params],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc("analytics_subscription_churn", params);
+      if (error) throw error;
+      return data ?? [];
+    },
+  });
+
+  const { data: funnel = [] } = useQuery({
+    queryKey: ["analytics-funnel", params],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc("analytics_conversion_funnel", params);
+      if (error) throw error;
+      return data ?? [];
+    },
+  });
+
+  const fileSuffix = `${params._from}_${params._to}`;
+  const exports = [
+    { label: "Daily activity", run: () => downloadCsv(`daily-activity_${fileSuffix}`, daily) },
+    { label: "Top titles", run: () => downloadCsv(`top-titles_${fileSuffix}`, topTitles) },
+    { label: "Revenue by product", run: () => downloadCsv(`revenue_${fileSuffix}`, revenue) },
+    { label: "Subscription churn", run: () => downloadCsv(`churn_${fileSuffix}`, churn) },
+    { label: "Conversion funnel", run: () => downloadCsv(`funnel_${fileSuffix}`, funnel) },
+  ];
+
   const stats = [
-    { title: "Total Views", value: "45.2K", change: "+12.5%", icon: Eye, color: "text-blue-500" },
-    { title: "Active Users", value: "12.8K", change: "+8.2%", icon: Users, color: "text-green-500" },
-    { title: "Total Content", value: "1,740", change: "+5.3%", icon: Film, color: "text-purple-500" },
-    { title: "Growth Rate", value: "+23.1%", change: "+4.2%", icon: TrendingUp, color: "text-yellow-500" },
+    {
+      title: "Daily Active Users",
+      value: overview ? Number(overview.avg_daily_active_users).toLocaleString() : "-",
+      detail: overview ? `${overview.monthly_active_users.toLocaleString()} monthly active` : "Average per day",
+      icon: Users,
+      color: "text-green-500",
+    },
+    {
+      title: "Watch Minutes",
+      value: overview ? Number(overview.watch_minutes).toLocaleString() : "-",
+      detail: overview ? `${overview.active_users.toLocaleString()} viewers in range` : "Total in range",
+      icon: Clock,
+      color: "text-blue-500",
+    },
+    {
+      title: "Completed Views",
+      value: overview ? overview.completed_views.toLocaleString() : "-",
+      detail: "Watched to the end",
+      icon: Eye,
+      color: "text-purple-500",
+    },
+    {
+      title: "Revenue",
+      value: overview ? formatMoney(overview.revenue) : "-",
+      detail: "Rentals and subscriptions",
+      icon: DollarSign,
+      color: "text-yellow-500",
+    },
+    {
+      title: "New Users",
+      value: overview ? overview.new_users.toLocaleString() : "-",
+      detail: "Sign-ups in range",
+      icon: UserPlus,
+      color: "text-cyan-500",
+    },
+    {
+      title: "Paying Users",
+      value: overview ? overview.paying_users.toLocaleString() : "-",
+      detail: "Completed a purchase",
+      icon: CreditCard,
+      color: "text-orange-500",
+    },
   ];
 
+  const funnelTop = funnel[0]?.users || 0;
+
   return (
     <AdminLayout>
       <div className="space-y-6">
-        <div>
-          <h1 className="text-3xl font-bold tracking-tight">Analytics</h1>
-          <p className="text-muted-foreground">Track platform performance and user engagement</p>
+        <div className="flex flex-col gap-4 lg:flex-row lg:items-end lg:justify-between">
+          <div>
+            <h1 className="text-3xl font-bold tracking-tight">Analytics</h1>
+            <p className="text-muted-foreground">Track platform performance and user engagement</p>
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <DateRangePicker value={range} onChange={setRange} />
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button size="sm">
+                  <Download className="mr-2 h-4 w-4" />
+                  Export CSV
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                {exports.map((item) => (
+                  <DropdownMenuItem key={item.label} onClick={item.run}>
+                    {item.label}
+                  </DropdownMenuItem>
+                ))}
+              </DropdownMenuContent>
+            </DropdownMenu>
+          </div>
         </div>
 
-        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+        {error && (
+          <Card>
+            <CardContent className="py-6 text-destructive">
+              Failed to load analytics. Only admins can view this page.
+            </CardContent>
+          </Card>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
           {stats.map((stat) => (
             <Card key={stat.title}>
               <CardHeader className="pb-3">
@@ -29,8 +196,8 @@ const Analytics = () => {
                 </CardTitle>
               </CardHeader>
               <CardContent>
-                <div className="text-2xl font-bold">{stat.value}</div>
-                <p className="text-xs text-green-500 mt-1">{stat.change} from last month</p>
+                <div className="text-2xl font-bold">{isLoading ? "..." : stat.value}</div>
+                <p className="text-xs text-muted-foreground mt-1">{stat.detail}</p>
               </CardContent>
             </Card>
           ))}
@@ -39,66 +206,174 @@ const Analytics = () => {
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
           <Card>
             <CardHeader>
-              <CardTitle>Most Viewed Content</CardTitle>
+              <CardTitle>Daily Active Users</CardTitle>
             </CardHeader>
             <CardContent>
-              <div className="space-y-4">
-                {[
-                  { title: "Inception", views: "12.5K", type: "Movie" },
-                  { title: "Breaking Bad", views: "10.8K", type: "Series" },
-                  { title: "The Matrix", views: "9.2K", type: "Movie" },
-                  { title: "Stranger Things", views: "8.5K", type: "Series" },
-                ].map((item, index) => (
-                  <div key={index} className="flex items-center justify-between py-2 border-b last:border-0">
-                    <div>
-                      <p className="font-medium">{item.title}</p>
-                      <p className="text-sm text-muted-foreground">{item.type}</p>
-                    </div>
-                    <div className="flex items-center gap-2">
-                      <Eye className="h-4 w-4 text-muted-foreground" />
-                      <span className="font-medium">{item.views}</span>
+              <ResponsiveContainer width="100%" height={300}>
+                <LineChart data={daily}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="day" tickFormatter={(day) => format(parseISO(day), "MMM dd")} />
+                  <YAxis allowDecimals={false} />
+                  <Tooltip />
+                  <Legend />
+                  <Line type="monotone" dataKey="active_users" name="Active users" stroke="#10b981" strokeWidth={2} dot={false} />
+                  <Line type="monotone" dataKey="new_users" name="New users" stroke="#06b6d4" strokeWidth={2} dot={false} />
+                </LineChart>
+              </ResponsiveContainer>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Watch Minutes & Revenue</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <ResponsiveContainer width="100%" height={300}>
+                <BarChart data={daily}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="day" tickFormatter={(day) => format(parseISO(day), "MMM dd")} />
+                  <YAxis yAxisId="minutes" />
+                  <YAxis yAxisId="revenue" orientation="right" />
+                  <Tooltip />
+                  <Legend />
+                  <Bar yAxisId="minutes" dataKey="watch_minutes" name="Watch minutes" fill="#8b5cf6" />
+                  <Bar yAxisId="revenue" dataKey="revenue" name="Revenue ($)" fill="#f59e0b" />
+                </BarChart>
+              </ResponsiveContainer>
+            </CardContent>
+          </Card>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <Card>
+            <CardHeader>
+              <CardTitle>Top Titles by Completed Views</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {topTitles.length === 0 ? (
+                <p className="py-8 text-center text-muted-foreground">No viewing activity in this range</p>
+              ) : (
+                <div className="space-y-4">
+                  {topTitles.map((item) => (
+                    <div key={`${item.media_type}-${item.media_id}`} className="flex items-center justify-between py-2 border-b last:border-0">
+                      <div>
+                        <p className="font-medium">{item.title || "Untitled"}</p>
+                        <p className="text-sm text-muted-foreground capitalize">
+                          {item.media_type} · {item.viewers.toLocaleString()} viewers · {Number(item.watch_minutes).toLocaleString()} min
+                        </p>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <Eye className="h-4 w-4 text-muted-foreground" />
+                        <span className="font-medium">{item.completed_views.toLocaleString()}</span>
+                      </div>
                     </div>
-                  </div>
-                ))}
-              </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Revenue by Product</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Product</TableHead>
+                    <TableHead className="text-right">Payments</TableHead>
+                    <TableHead className="text-right">Cash</TableHead>
+                    <TableHead className="text-right">Wallet</TableHead>
+                    <TableHead className="text-right">Total</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {revenue.length === 0 && (
+                    <TableRow>
+                      <TableCell colSpan={5} className="text-center text-muted-foreground">
+                        No completed payments in this range
+                      </TableCell>
+                    </TableRow>
+                  )}
+                  {revenue.map((row) => (
+                    <TableRow key={row.product_type}>
+                      <TableCell className="font-medium">{PRODUCT_LABELS[row.product_type] ?? row.product_type}</TableCell>
+                      <TableCell className="text-right">{row.transactions.toLocaleString()}</TableCell>
+                      <TableCell className="text-right">{formatMoney(row.cash_amount)}</TableCell>
+                      <TableCell className="text-right">{formatMoney(row.wallet_amount)}</TableCell>
+                      <TableCell className="text-right font-semibold">{formatMoney(row.amount)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+              <p className="mt-3 text-xs text-muted-foreground">
+                Wallet purchases are paid from earlier top-ups, so top-ups and wallet spending are not added together in the revenue total.
+              </p>
+            </CardContent>
+          </Card>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <Card>
+            <CardHeader>
+              <CardTitle>Subscription Churn</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Month</TableHead>
+                    <TableHead className="text-right">Active at Start</TableHead>
+                    <TableHead className="text-right">New</TableHead>
+                    <TableHead className="text-right">Churned</TableHead>
+                    <TableHead className="text-right">Churn Rate</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {churn.map((row) => (
+                    <TableRow key={row.month}>
+                      <TableCell className="font-medium">{format(parseISO(row.month), "MMM yyyy")}</TableCell>
+                      <TableCell className="text-right">{row.active_at_start.toLocaleString()}</TableCell>
+                      <TableCell className="text-right text-green-500">+{row.new_subscribers.toLocaleString()}</TableCell>
+                      <TableCell className="text-right text-destructive">-{row.churned.toLocaleString()}</TableCell>
+                      <TableCell className="text-right">
+                        <Badge variant={Number(row.churn_rate) > 10 ? "destructive" : "secondary"}>
+                          {Number(row.churn_rate).toFixed(1)}%
+                        </Badge>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
             </CardContent>
           </Card>
 
           <Card>
             <CardHeader>
-              <CardTitle>User Activity</CardTitle>
+              <CardTitle>Conversion Funnel</CardTitle>
+              <p className="text-sm text-muted-foreground">Users who signed up in this range</p>
             </CardHeader>
             <CardContent>
               <div className="space-y-4">
-                {[
-                  { label: "New Registrations", value: "245", period: "This week" },
-                  { label: "Active Sessions", value: "1,234", period: "Right now" },
-                  { label: "Comments Posted", value: "567", period: "This week" },
-                  { label: "Content Rated", value: "892", period: "This week" },
-                ].map((item, index) => (
-                  <div key={index} className="flex items-center justify-between py-2 border-b last:border-0">
-                    <div>
-                      <p className="font-medium">{item.label}</p>
-                      <p className="text-sm text-muted-foreground">{item.period}</p>
+                {funnel.map((step) => {
+                  const percent = funnelTop > 0 ? (step.users / funnelTop) * 100 : 0;
+                  return (
+                    <div key={step.step_order} className="space-y-1">
+                      <div className="flex items-center justify-between text-sm">
+                        <span className="font-medium">{step.step}</span>
+                        <span className="text-muted-foreground">
+                          {step.users.toLocaleString()} ({percent.toFixed(1)}%)
+                        </span>
+                      </div>
+                      <Progress value={percent} />
                     </div>
-                    <span className="text-2xl font-bold">{item.value}</span>
-                  </div>
-                ))}
+                  );
+                })}
               </div>
             </CardContent>
           </Card>
         </div>
-
-        <Card>
-          <CardHeader>
-            <CardTitle>Platform Overview</CardTitle>
-          </CardHeader>
-          <CardContent>
-            <div className="h-[300px] flex items-center justify-center text-muted-foreground">
-              Chart visualization will be implemented with real data
-            </div>
-          </CardContent>
-        </Card>
       </div>
     </AdminLayout>
   );
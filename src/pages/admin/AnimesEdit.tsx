@@ -19,6 +19,10 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@
 import { EpisodeEditDialog } from "@/components/admin/EpisodeEditDialog";
 import { ImportEpisodeSourcesDialog } from "@/components/admin/ImportEpisodeSourcesDialog";
 import { VideoSourcesImportDialog } from "@/components/admin/VideoSourcesImportDialog";
+import { AdBreakManager } from "@/components/admin/AdBreakManager";
+import { AuditHistory } from "@/components/admin/AuditHistory";
+import { useAuth } from "@/hooks/useAuth";
+import { MATURITY_RATINGS } from "@/lib/viewerProfiles";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import {
   AlertDialog,
@@ -33,6 +37,7 @@ import {
 
 export default function AnimesEdit() {
   const { id } = useParams();
+  const { isAdmin } = useAuth();
   const navigate = useNavigate();
   const queryClient = useQueryClient();
   const [loading, setLoading] = useState(true);
@@ -379,6 +384,7 @@ export default function AnimesEdit() {
           rental_period_days: anime.rental_period_days,
           rental_max_devices: anime.rental_max_devices,
           exclude_from_plan: anime.exclude_from_plan,
+          maturity_rating: anime.maturity_rating,
         })
         .eq("id", id);
 
@@ -461,6 +467,7 @@ export default function AnimesEdit() {
             <TabsTrigger value="characters">
               Characters ({characters.length})
             </TabsTrigger>
+            {isAdmin && <TabsTrigger value="history">History</TabsTrigger>}
           </TabsList>
 
           <TabsContent value="details" className="space-y-6">
@@ -740,6 +747,28 @@ export default function AnimesEdit() {
                       </Select>
                     </div>
 
+                    <div className="space-y-2">
+                      <Label htmlFor="maturity_rating">Maturity Rating</Label>
+                      <Select
+                        value={anime.maturity_rating ?? "unrated"}
+                        onValueChange={(value) =>
+                          setAnime({ ...anime, maturity_rating: value === "unrated" ? null : value })
+                        }
+                      >
+                        <SelectTrigger id="maturity_rating">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="unrated">Unrated (treated as Teens)</SelectItem>
+                          {MATURITY_RATINGS.map((rating) => (
+                            <SelectItem key={rating.value} value={rating.value}>
+                              {rating.label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+
                     {anime.version === "Rent" && (
                       <div className="grid gap-4 md:grid-cols-4 p-4 border rounded-lg bg-muted/50">
                         <div className="space-y-2">
@@ -803,6 +832,17 @@ export default function AnimesEdit() {
                     )}
                   </CardContent>
                 </Card>
+
+                {id && (
+                  <Card>
+                    <CardHeader>
+                      <CardTitle>Ad Breaks</CardTitle>
+                    </CardHeader>
+                    <CardContent>
+                      <AdBreakManager mediaId={id} mediaType="anime" />
+                    </CardContent>
+                  </Card>
+                )}
               </div>
             </div>
           </TabsContent>
@@ -1094,6 +1134,19 @@ export default function AnimesEdit() {
               </CardContent>
             </Card>
           </TabsContent>
+
+          {isAdmin && id && (
+            <TabsContent value="history">
+              <Card>
+                <CardHeader>
+                  <CardTitle>History</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <AuditHistory tableName="animes" recordId={id} />
+                </CardContent>
+              </Card>
+            </TabsContent>
+          )}
         </Tabs>
       </div>
 
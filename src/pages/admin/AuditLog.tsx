@@ -0,0 +1,193 @@
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import { format } from "date-fns";
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { AdminLayout } from "@/components/admin/AdminLayout";
+import { AuditActionBadge, AuditChanges } from "@/components/admin/AuditHistory";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { AUDIT_PAGE_SIZE, AUDIT_TABLE_LABELS, useAuditLog } from "@/hooks/useAuditLog";
+
+const ALL = "all";
+
+// Edit pages to jump to from an entry
+const EDIT_PATHS: Record<string, (id: string) => string> = {
+  movies: (id) => `/admin/movies/edit/${id}`,
+  series: (id) => `/admin/series/edit/${id}`,
+  animes: (id) => `/admin/animes/edit/${id}`,
+  upcoming_releases: (id) => `/admin/upcoming/edit/${id}`,
+};
+
+export default function AuditLog() {
+  const [actorId, setActorId] = useState(ALL);
+  const [tableName, setTableName] = useState(ALL);
+  const [recordId, setRecordId] = useState("");
+  const [page, setPage] = useState(0);
+
+  const { data, isLoading, error } = useAuditLog({
+    actorId: actorId === ALL ? undefined : actorId,
+    tableName: tableName === ALL ? undefined : tableName,
+    recordId: recordId.trim() || undefined,
+    page,
+  });
+  const entries = data?.entries ?? [];
+  const pageCount = Math.max(1, Math.ceil((data?.count ?? 0) / AUDIT_PAGE_SIZE));
+
+  const { data: actors = [] } = useQuery({
+    queryKey: ["audit-log-actors"],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc("audit_log_actors");
+      if (error) throw error;
+      return data ?? [];
+    },
+  });
+
+  // Any filter change starts again from the newest entries
+  const withFirstPage = <T,>(setter: (value: T) => void) => (value: T) => {
+    setter(value);
+    setPage(0);
+  };
+
+  return (
+    <AdminLayout>
+      <div className="p-8 space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold">Audit Log</h1>
+          <p className="text-muted-foreground">Who changed content, pricing, subscriptions, wallets and roles</p>
+        </div>
+
+        <Card>
+          <CardContent className="pt-6 grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label>Actor</Label>
+              <Select value={actorId} onValueChange={withFirstPage(setActorId)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All actors</SelectItem>
+                  {actors.map((actor) => (
+                    <SelectItem key={actor.actor_id} value={actor.actor_id}>
+                      {actor.email ?? actor.actor_id}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Table</Label>
+              <Select value={tableName} onValueChange={withFirstPage(setTableName)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All tables</SelectItem>
+                  {Object.entries(AUDIT_TABLE_LABELS).map(([table, label]) => (
+                    <SelectItem key={table} value={table}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="audit-record">Entity ID</Label>
+              <Input
+                id="audit-record"
+                value={recordId}
+                onChange={(e) => withFirstPage(setRecordId)(e.target.value)}
+                placeholder="Record ID"
+              />
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Changes</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {error && <p className="text-destructive mb-4">Failed to load the audit log. Only admins can view it.</p>}
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>When</TableHead>
+                  <TableHead>Actor</TableHead>
+                  <TableHead>Action</TableHead>
+                  <TableHead>Entity</TableHead>
+                  <TableHead className="w-1/2">Changes</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {isLoading && (
+                  <TableRow>
+                    <TableCell colSpan={5} className="text-center text-muted-foreground">
+                      Loading...
+                    </TableCell>
+                  </TableRow>
+                )}
+                {!isLoading && entries.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={5} className="text-center text-muted-foreground">
+                      No changes match these filters
+                    </TableCell>
+                  </TableRow>
+                )}
+                {entries.map((entry) => {
+                  const editPath = entry.action !== "delete" ? EDIT_PATHS[entry.table_name] : undefined;
+                  return (
+                    <TableRow key={entry.id} className="align-top">
+                      <TableCell className="whitespace-nowrap">
+                        {format(new Date(entry.created_at), "MMM dd, yyyy HH:mm")}
+                      </TableCell>
+                      <TableCell>{entry.actorEmail}</TableCell>
+                      <TableCell>
+                        <AuditActionBadge action={entry.action} />
+                      </TableCell>
+                      <TableCell>
+                        <p className="font-medium">{AUDIT_TABLE_LABELS[entry.table_name] ?? entry.table_name}</p>
+                        {editPath ? (
+                          <Link to={editPath(entry.record_id)} className="font-mono text-xs text-primary hover:underline">
+                            {entry.record_id}
+                          </Link>
+                        ) : (
+                          <button
+                            type="button"
+                            className="font-mono text-xs text-muted-foreground hover:underline text-left break-all"
+                            onClick={() => withFirstPage(setRecordId)(entry.record_id)}
+                          >
+                            {entry.record_id}
+                          </button>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <AuditChanges entry={entry} />
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+
+            <div className="flex items-center justify-end gap-2 pt-4">
+              <Button variant="outline" size="sm" disabled={page === 0} onClick={() => setPage(page - 1)}>
+                Newer
+              </Button>
+              <span className="text-sm text-muted-foreground">
+                Page {page + 1} of {pageCount}
+              </span>
+              <Button variant="outline" size="sm" disabled={page + 1 >= pageCount} onClick={() => setPage(page + 1)}>
+                Older
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    </AdminLayout>
+  );
+}
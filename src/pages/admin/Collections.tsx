@@ -2,11 +2,13 @@ import { useState } from "react";
 import { AdminLayout } from "@/components/admin/AdminLayout";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
-import { Plus, Search, Pencil, Trash2 } from "lucide-react";
+import { Plus, Search, Pencil, Trash2, ListOrdered, Home } from "lucide-react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
 import { toast } from "sonner";
 import { CollectionDialog } from "@/components/admin/CollectionDialog";
+import { CollectionItemsDialog } from "@/components/admin/CollectionItemsDialog";
+import type { Collection } from "@/hooks/useCollections";
 import {
   AlertDialog,
   AlertDialogAction,
@@ -32,6 +34,7 @@ export default function Collections() {
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [selectedCollection, setSelectedCollection] = useState<any>(null);
   const [deleteId, setDeleteId] = useState<string | null>(null);
+  const [itemsCollection, setItemsCollection] = useState<Collection | null>(null);
   const queryClient = useQueryClient();
 
   const { data: collections, isLoading } = useQuery({
@@ -53,6 +56,7 @@ export default function Collections() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["collections"] });
+      queryClient.invalidateQueries({ queryKey: ["public-collections"] });
       toast.success("Collection deleted successfully");
       setDeleteId(null);
     },
@@ -114,11 +118,24 @@ export default function Collections() {
                         className="w-12 h-16 object-cover rounded"
                       />
                     </TableCell>
-                    <TableCell className="font-medium">{collection.name}</TableCell>
+                    <TableCell className="font-medium">
+                      <div className="flex items-center gap-2">
+                        {collection.name}
+                        {collection.show_on_home && <Home className="w-3.5 h-3.5 text-muted-foreground" aria-label="Shown on home page" />}
+                      </div>
+                    </TableCell>
                     <TableCell className="max-w-md truncate">{collection.description || "—"}</TableCell>
                     <TableCell>{collection.collection_items?.[0]?.count || 0}</TableCell>
                     <TableCell>{collection.tmdb_id || "N/A"}</TableCell>
                     <TableCell className="text-right">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        title="Items"
+                        onClick={() => setItemsCollection(collection)}
+                      >
+                        <ListOrdered className="w-4 h-4" />
+                      </Button>
                       <Button
                         variant="ghost"
                         size="sm"
@@ -147,6 +164,12 @@ export default function Collections() {
           collection={selectedCollection}
         />
 
+        <CollectionItemsDialog
+          open={!!itemsCollection}
+          onOpenChange={(open) => !open && setItemsCollection(null)}
+          collection={itemsCollection}
+        />
+
         <AlertDialog open={!!deleteId} onOpenChange={() => setDeleteId(null)}>
           <AlertDialogContent>
             <AlertDialogHeader>
@@ -16,6 +16,7 @@ import { useState, useEffect } from "react";
 import { supabase } from "@/integrations/supabase/client";
 import { toast } from "sonner";
 import { format } from "date-fns";
+import { plainComment } from "@/lib/commentMarkup";
 
 interface Comment {
   id: string;
@@ -25,6 +26,7 @@ interface Comment {
   user_id: string;
   episode_id: string | null;
   movie_id: string | null;
+  anime_id: string | null;
   profiles: {
     email: string;
     display_name: string | null;
@@ -40,6 +42,9 @@ interface Comment {
   movies?: {
     title: string;
   } | null;
+  animes?: {
+    title: string;
+  } | null;
 }
 
 const Comments = () => {
@@ -60,7 +65,8 @@ const Comments = () => {
               series:media_id (title)
             )
           ),
-          movies:movie_id (title)
+          movies:movie_id (title),
+          animes:anime_id (title)
         `)
         .eq("is_deleted", false)
         .order("created_at", { ascending: false })
@@ -123,6 +129,7 @@ const Comments = () => {
 
   const getMediaTitle = (comment: Comment) => {
     if (comment.movies) return comment.movies.title;
+    if (comment.animes) return comment.animes.title;
     if (comment.episodes?.seasons?.series) {
       return `${comment.episodes.seasons.series.title} - ${comment.episodes.name}`;
     }
@@ -226,7 +233,7 @@ const Comments = () => {
                       <TableCell className="max-w-xs">
                         <div className="flex items-start gap-2">
                           <MessageSquare className="h-4 w-4 text-muted-foreground mt-0.5 flex-shrink-0" />
-                          <span className="line-clamp-2">{comment.content}</span>
+                          <span className="line-clamp-2">{plainComment(comment.content)}</span>
                         </div>
                       </TableCell>
                       <TableCell className="max-w-xs truncate">
@@ -1,15 +1,17 @@
 import { useState } from 'react';
+import { format } from 'date-fns';
 import { AdminLayout } from '@/components/admin/AdminLayout';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import {
   HardDrive,
   Search,
   Trash2,
-  Download,
   Upload,
   RefreshCw,
   Image as ImageIcon,
@@ -17,10 +19,25 @@ import {
   Copy,
   ExternalLink,
   FileText,
+  Folder,
+  Eye,
 } from 'lucide-react';
-import { useIDriveUpload } from '@/hooks/useIDriveUpload';
+import { useMultipartUpload, usePendingUploads } from '@/hooks/useMultipartUpload';
+import { useDebouncedValue } from '@/hooks/useCatalogSearch';
+import {
+  DEFAULT_MEDIA_CATEGORY,
+  MEDIA_PAGE_SIZE,
+  MediaFileRow,
+  STORAGE_ACCOUNTS,
+  useDeleteMediaFiles,
+  useMediaFiles,
+  useMediaLibraryStats,
+  useMediaPreviewUrl,
+  useOrphanedMediaFiles,
+} from '@/hooks/useMediaLibrary';
 import { Progress } from '@/components/ui/progress';
 import { toast } from 'sonner';
+import { cn } from '@/lib/utils';
 import {
   AlertDialog,
   AlertDialogAction,
@@ -32,106 +49,172 @@ import {
   AlertDialogTitle,
 } from '@/components/ui/alert-dialog';
 
-interface StorageStats {
-  name: string;
-  status: 'active' | 'inactive';
-  files: number;
-  size: string;
-}
+const CATEGORY_LABELS: Record<string, string> = {
+  general: 'General',
+  profile_picture: 'Profile pictures',
+  cover_picture: 'Cover pictures',
+  subtitle: 'Subtitles',
+  hls: 'HLS renditions',
+};
 
-interface UploadedFile {
-  url: string;
-  size: number;
-  contentType: string;
-  storageAccount: number;
-  uploadedAt: Date;
-  bucket: string;
-  path: string;
-}
+const formatFileSize = (bytes: number | null) => {
+  if (!bytes) return '0 Bytes';
+  const k = 1024;
+  const sizes = ['Bytes', 'KB', 'MB', 'GB', 'TB'];
+  const i = Math.min(Math.floor(Math.log(bytes) / Math.log(k)), sizes.length - 1);
+  return Math.round(bytes / Math.pow(k, i) * 100) / 100 + ' ' + sizes[i];
+};
+
+const getFileIcon = (contentType: string | null, className = 'h-4 w-4') => {
+  if (contentType?.startsWith('image/')) return <ImageIcon className={className} />;
+  if (contentType?.startsWith('video/')) return <Film className={className} />;
+  return <FileText className={className} />;
+};
+
+const fileName = (path: string) => path.split('/').pop() || path;
+
+// Signed URLs are fetched per tile, so only images get a thumbnail; video loads in the preview dialog
+const MediaThumbnail = ({ file }: { file: MediaFileRow }) => {
+  const isImage = !!file.content_type?.startsWith('image/');
+  const { data: url } = useMediaPreviewUrl(isImage ? file.file_path : null);
+
+  if (isImage && url) {
+    return <img src={url} alt={fileName(file.file_path)} loading="lazy" className="h-full w-full object-cover" />;
+  }
+  return (
+    <div className="flex h-full w-full items-center justify-center text-muted-foreground">
+      {getFileIcon(file.content_type, 'h-10 w-10')}
+    </div>
+  );
+};
+
+const MediaPreview = ({ file }: { file: MediaFileRow }) => {
+  const { data: url, isLoading, error } = useMediaPreviewUrl(file.file_path);
+
+  if (isLoading) return <p className="text-sm text-muted-foreground text-center py-12">Loading preview...</p>;
+  if (error || !url) return <p className="text-sm text-destructive text-center py-12">Preview unavailable</p>;
+
+  return (
+    <div className="space-y-4">
+      {file.content_type?.startsWith('image/') && (
+        <img src={url} alt={fileName(file.file_path)} className="max-h-[60vh] w-full object-contain rounded-md bg-muted" />
+      )}
+      {file.content_type?.startsWith('video/') && (
+        <video src={url} controls preload="metadata" className="max-h-[60vh] w-full rounded-md bg-black" />
+      )}
+      {!file.content_type?.startsWith('image/') && !file.content_type?.startsWith('video/') && (
+        <div className="flex flex-col items-center py-12 text-muted-foreground">
+          {getFileIcon(file.content_type, 'h-12 w-12')}
+          <p className="text-sm mt-2">No preview for {file.content_type || 'this file type'}</p>
+        </div>
+      )}
+      <Button variant="outline" size="sm" asChild>
+        <a href={url} target="_blank" rel="noopener noreferrer">
+          <ExternalLink className="h-4 w-4 mr-2" />
+          Open original
+        </a>
+      </Button>
+    </div>
+  );
+};
 
 export default function MediaManager() {
   const [searchQuery, setSearchQuery] = useState('');
+  const [category, setCategory] = useState<string | undefined>();
+  const [page, setPage] = useState(0);
+  const [tab, setTab] = useState('library');
   const [uploadDialogOpen, setUploadDialogOpen] = useState(false);
-  const [uploadedFiles, setUploadedFiles] = useState<UploadedFile[]>([]);
-  const [selectedBucket, setSelectedBucket] = useState('media-files');
-  const { uploadFile, uploadMultiple, uploading, progress, currentFile } = useIDriveUpload();
+  const [previewFile, setPreviewFile] = useState<MediaFileRow | null>(null);
+  const [fileToDelete, setFileToDelete] = useState<MediaFileRow | null>(null);
+  const [selectedOrphans, setSelectedOrphans] = useState<Set<string>>(new Set());
+  const [confirmCleanup, setConfirmCleanup] = useState(false);
 
-  // Mock storage stats - in production, you'd fetch this from an API
-  const storageStats: StorageStats[] = [
-    { name: 'Storage 1', status: 'active', files: 0, size: '0 GB' },
-    { name: 'Storage 2', status: 'active', files: 0, size: '0 GB' },
-    { name: 'Storage 3', status: 'active', files: 0, size: '0 GB' },
-  ];
+  const search = useDebouncedValue(searchQuery.trim());
+  const { uploadFile, uploadMultiple, abortUpload, uploading, progress, currentFile } = useMultipartUpload();
+  const { data: pendingUploads = [] } = usePendingUploads();
+  const { data: stats, refetch: refetchStats } = useMediaLibraryStats();
+  const { data: library, isLoading, isFetching, refetch: refetchFiles } = useMediaFiles({ category, search, page });
+  const {
+    data: orphans = [],
+    isFetching: scanningOrphans,
+    refetch: scanOrphans,
+  } = useOrphanedMediaFiles(tab === 'orphans');
+  const deleteFiles = useDeleteMediaFiles();
+
+  const files = library?.files ?? [];
+  const pageCount = Math.max(1, Math.ceil((library?.count ?? 0) / MEDIA_PAGE_SIZE));
+  const categories = [...(stats?.categories.entries() ?? [])].sort(([a], [b]) => a.localeCompare(b));
+  const totalFiles = categories.reduce((total, [, usage]) => total + usage.fileCount, 0);
+  const selectedOrphanFiles = orphans.filter((file) => selectedOrphans.has(file.file_path));
+  const selectedOrphanBytes = selectedOrphanFiles.reduce((total, file) => total + (file.file_size ?? 0), 0);
+
+  const chooseCategory = (value: string | undefined) => {
+    setCategory(value);
+    setPage(0);
+  };
 
   const handleFileUpload = async (files: FileList) => {
     const fileArray = Array.from(files);
-    
+    const options = { bucket: 'media-files', path: 'uploads', category: 'general' };
+
     if (fileArray.length === 1) {
-      const result = await uploadFile(fileArray[0], { 
-        bucket: selectedBucket, 
-        path: 'uploads',
-        category: 'general',
-      });
-      
-      if (result.success && result.path) {
-        setUploadedFiles(prev => [{
-          url: result.path!,
-          size: result.size || 0,
-          contentType: result.contentType || '',
-          storageAccount: result.storageAccount || 1,
-          uploadedAt: new Date(),
-          bucket: result.bucket || selectedBucket,
-          path: result.path || '',
-        }, ...prev]);
-      }
+      await uploadFile(fileArray[0], options);
     } else {
-      const results = await uploadMultiple(fileArray, { 
-        bucket: selectedBucket, 
-        path: 'uploads',
-        category: 'general',
-      });
-      
-      const newFiles = results
-        .filter(r => r.success && r.path)
-        .map(r => ({
-          url: r.path!,
-          size: r.size || 0,
-          contentType: r.contentType || '',
-          storageAccount: r.storageAccount || 1,
-          uploadedAt: new Date(),
-          bucket: r.bucket || selectedBucket,
-          path: r.path || '',
-        }));
-      
-      setUploadedFiles(prev => [...newFiles, ...prev]);
+      await uploadMultiple(fileArray, options);
     }
-    
+
     setUploadDialogOpen(false);
   };
 
-  const copyToClipboard = (text: string) => {
-    navigator.clipboard.writeText(text);
-    toast.success('URL copied to clipboard');
+  const handleDelete = async () => {
+    if (!fileToDelete) return;
+    try {
+      const result = await deleteFiles.mutateAsync({ filePaths: [fileToDelete.file_path] });
+      if (result.failed.length > 0) throw new Error(result.failed[0].error);
+      toast.success('File deleted successfully');
+    } catch (error) {
+      console.error('Error deleting file:', error);
+      toast.error('Failed to delete file');
+    } finally {
+      setFileToDelete(null);
+    }
   };
 
-  const formatFileSize = (bytes: number) => {
-    if (bytes === 0) return '0 Bytes';
-    const k = 1024;
-    const sizes = ['Bytes', 'KB', 'MB', 'GB'];
-    const i = Math.floor(Math.log(bytes) / Math.log(k));
-    return Math.round(bytes / Math.pow(k, i) * 100) / 100 + ' ' + sizes[i];
+  const handleCleanup = async () => {
+    try {
+      const result = await deleteFiles.mutateAsync({
+        filePaths: selectedOrphanFiles.map((file) => file.file_path),
+        orphansOnly: true,
+      });
+      toast.success(`Deleted ${result.deleted.length} orphaned file${result.deleted.length === 1 ? '' : 's'}`);
+      if (result.skipped.length > 0) {
+        toast.info(`${result.skipped.length} file(s) were kept because they are now in use`);
+      }
+      if (result.failed.length > 0) {
+        toast.error(`${result.failed.length} file(s) could not be deleted`);
+      }
+      setSelectedOrphans(new Set());
+    } catch (error) {
+      console.error('Error cleaning up orphaned files:', error);
+      toast.error('Failed to clean up orphaned files');
+    } finally {
+      setConfirmCleanup(false);
+    }
   };
 
-  const getFileIcon = (contentType: string) => {
-    if (contentType.startsWith('image/')) return <ImageIcon className="h-4 w-4" />;
-    if (contentType.startsWith('video/')) return <Film className="h-4 w-4" />;
-    return <FileText className="h-4 w-4" />;
+  const toggleOrphan = (path: string, checked: boolean) => {
+    setSelectedOrphans((prev) => {
+      const next = new Set(prev);
+      if (checked) next.add(path);
+      else next.delete(path);
+      return next;
+    });
   };
 
-  const filteredFiles = uploadedFiles.filter(file => 
-    file.path.toLowerCase().includes(searchQuery.toLowerCase()) ||
-    file.url.toLowerCase().includes(searchQuery.toLowerCase())
-  );
+  const copyToClipboard = (text: string) => {
+    navigator.clipboard.writeText(text);
+    toast.success('Path copied to clipboard');
+  };
 
   return (
     <AdminLayout>
@@ -152,25 +235,28 @@ export default function MediaManager() {
 
         {/* Storage Stats */}
         <div className="grid gap-4 md:grid-cols-3">
-          {storageStats.map((storage, index) => (
-            <Card key={index}>
-              <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-                <CardTitle className="text-sm font-medium">{storage.name}</CardTitle>
-                <HardDrive className="h-4 w-4 text-muted-foreground" />
-              </CardHeader>
-              <CardContent>
-                <div className="space-y-2">
-                  <div className="flex items-center justify-between">
-                    <span className="text-2xl font-bold">{storage.files}</span>
-                    <Badge variant={storage.status === 'active' ? 'default' : 'secondary'}>
-                      {storage.status}
-                    </Badge>
+          {STORAGE_ACCOUNTS.map((account) => {
+            const usage = stats?.accounts.get(account);
+            return (
+              <Card key={account}>
+                <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                  <CardTitle className="text-sm font-medium">Storage {account}</CardTitle>
+                  <HardDrive className="h-4 w-4 text-muted-foreground" />
+                </CardHeader>
+                <CardContent>
+                  <div className="space-y-2">
+                    <div className="flex items-center justify-between">
+                      <span className="text-2xl font-bold">{usage?.fileCount ?? 0}</span>
+                      <Badge variant={usage?.fileCount ? 'default' : 'secondary'}>
+                        {usage?.fileCount ? 'in use' : 'empty'}
+                      </Badge>
+                    </div>
+                    <p className="text-xs text-muted-foreground">{formatFileSize(usage?.totalBytes ?? 0)} used</p>
                   </div>
-                  <p className="text-xs text-muted-foreground">{storage.size} used</p>
-                </div>
-              </CardContent>
-            </Card>
-          ))}
+                </CardContent>
+              </Card>
+            );
+          })}
         </div>
 
         {/* Upload Progress */}
@@ -188,65 +274,322 @@ export default function MediaManager() {
           </Card>
         )}
 
-        {/* Search and Filters */}
-        <Card>
-          <CardHeader>
-            <CardTitle>Media Files</CardTitle>
-          </CardHeader>
-          <CardContent>
-            <div className="space-y-4">
-              <div className="flex gap-2">
-                <div className="relative flex-1">
-                  <Search className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
-                  <Input
-                    placeholder="Search media files..."
-                    value={searchQuery}
-                    onChange={(e) => setSearchQuery(e.target.value)}
-                    className="pl-9"
-                  />
+        {/* Interrupted uploads, resumed by selecting the same file again */}
+        {!uploading && pendingUploads.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Unfinished Uploads</CardTitle>
+              <CardDescription>
+                Select the same file again to continue where it stopped, or discard it.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {pendingUploads.map((pending) => (
+                <div key={pending.id} className="flex items-center justify-between gap-3 rounded-lg border p-3">
+                  <div className="flex items-center gap-3 min-w-0">
+                    {getFileIcon(pending.content_type)}
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium truncate">{pending.file_name}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {formatFileSize(pending.file_size)} · started {new Date(pending.created_at).toLocaleString()}
+                      </p>
+                    </div>
+                  </div>
+                  <div className="flex gap-2 shrink-0">
+                    <Button variant="outline" size="sm" onClick={() => setUploadDialogOpen(true)}>
+                      <Upload className="h-4 w-4 mr-2" />
+                      Resume
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={() => abortUpload(pending.id)}>
+                      <Trash2 className="h-4 w-4 text-destructive" />
+                    </Button>
+                  </div>
                 </div>
-                <Button variant="outline">
-                  <RefreshCw className="h-4 w-4 mr-2" />
-                  Refresh
-                </Button>
-              </div>
+              ))}
+            </CardContent>
+          </Card>
+        )}
 
-        {/* File List Placeholder */}
-              <div className="rounded-lg border border-dashed p-12 text-center">
-                <div className="mx-auto flex max-w-md flex-col items-center justify-center text-center">
-                  <ImageIcon className="h-12 w-12 text-muted-foreground mb-4" />
-                  <h3 className="text-lg font-semibold">No media files yet</h3>
-                  <p className="text-sm text-muted-foreground mt-2 mb-4">
-                    Upload your first media file to get started. All files are automatically
-                    distributed across the 3 storage accounts for redundancy.
-                  </p>
-                  <Button onClick={() => setUploadDialogOpen(true)}>
-                    <Upload className="h-4 w-4 mr-2" />
-                    Upload Media
+        <Tabs value={tab} onValueChange={setTab}>
+          <TabsList>
+            <TabsTrigger value="library">Library</TabsTrigger>
+            <TabsTrigger value="orphans">Orphaned Files</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="library">
+            <div className="grid gap-4 lg:grid-cols-[220px_1fr]">
+              {/* Folders */}
+              <Card className="h-fit">
+                <CardHeader className="pb-2">
+                  <CardTitle className="text-sm font-medium">Folders</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-1">
+                  <Button
+                    variant={category === undefined ? 'secondary' : 'ghost'}
+                    className="w-full justify-between"
+                    onClick={() => chooseCategory(undefined)}
+                  >
+                    <span className="flex items-center gap-2">
+                      <Folder className="h-4 w-4" />
+                      All files
+                    </span>
+                    <span className="text-xs text-muted-foreground">{totalFiles}</span>
                   </Button>
-                </div>
-              </div>
-            </div>
-          </CardContent>
-        </Card>
-
-        {/* Info Card */}
-        <Card className="border-blue-200 bg-blue-50 dark:border-blue-900 dark:bg-blue-950">
-          <CardContent className="pt-6">
-            <div className="flex gap-3">
-              <HardDrive className="h-5 w-5 text-blue-600 dark:text-blue-400 mt-0.5" />
-              <div className="space-y-1">
-                <p className="text-sm font-medium text-blue-900 dark:text-blue-100">
-                  Multi-Storage Distribution
-                </p>
-                <p className="text-sm text-blue-700 dark:text-blue-300">
-                  Each upload is automatically stored on one of three iDriveE2 storage accounts
-                  for load balancing and redundancy. This ensures high availability and performance.
-                </p>
-              </div>
+                  {categories.map(([name, usage]) => (
+                    <Button
+                      key={name}
+                      variant={category === name ? 'secondary' : 'ghost'}
+                      className="w-full justify-between"
+                      onClick={() => chooseCategory(name)}
+                    >
+                      <span className="flex items-center gap-2 truncate">
+                        <Folder className="h-4 w-4 shrink-0" />
+                        {CATEGORY_LABELS[name] ?? name}
+                      </span>
+                      <span className="text-xs text-muted-foreground">{usage.fileCount}</span>
+                    </Button>
+                  ))}
+                </CardContent>
+              </Card>
+
+              {/* Search and Files */}
+              <Card>
+                <CardHeader>
+                  <CardTitle>
+                    {category ? CATEGORY_LABELS[category] ?? category : 'Media Files'}
+                  </CardTitle>
+                  <CardDescription>
+                    {library?.count ?? 0} file{library?.count === 1 ? '' : 's'}
+                    {category && stats?.categories.get(category)
+                      ? ` · ${formatFileSize(stats.categories.get(category)!.totalBytes)}`
+                      : ''}
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <div className="space-y-4">
+                    <div className="flex gap-2">
+                      <div className="relative flex-1">
+                        <Search className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
+                        <Input
+                          placeholder="Search by file path..."
+                          value={searchQuery}
+                          onChange={(e) => {
+                            setSearchQuery(e.target.value);
+                            setPage(0);
+                          }}
+                          className="pl-9"
+                        />
+                      </div>
+                      <Button
+                        variant="outline"
+                        onClick={() => {
+                          refetchFiles();
+                          refetchStats();
+                        }}
+                      >
+                        <RefreshCw className={cn('h-4 w-4 mr-2', isFetching && 'animate-spin')} />
+                        Refresh
+                      </Button>
+                    </div>
+
+                    {isLoading && <p className="text-sm text-muted-foreground text-center py-12">Loading files...</p>}
+
+                    {!isLoading && files.length === 0 && (
+                      <div className="rounded-lg border border-dashed p-12 text-center">
+                        <div className="mx-auto flex max-w-md flex-col items-center justify-center text-center">
+                          <ImageIcon className="h-12 w-12 text-muted-foreground mb-4" />
+                          <h3 className="text-lg font-semibold">
+                            {search || category ? 'No files match' : 'No media files yet'}
+                          </h3>
+                          <p className="text-sm text-muted-foreground mt-2 mb-4">
+                            {search || category
+                              ? 'Try another folder or search term.'
+                              : 'Upload your first media file to get started.'}
+                          </p>
+                          <Button onClick={() => setUploadDialogOpen(true)}>
+                            <Upload className="h-4 w-4 mr-2" />
+                            Upload Media
+                          </Button>
+                        </div>
+                      </div>
+                    )}
+
+                    {files.length > 0 && (
+                      <div className="grid gap-4 sm:grid-cols-2 xl:grid-cols-3">
+                        {files.map((file) => (
+                          <div key={file.id} className="rounded-lg border overflow-hidden">
+                            <button
+                              type="button"
+                              className="block aspect-video w-full bg-muted"
+                              onClick={() => setPreviewFile(file)}
+                            >
+                              <MediaThumbnail file={file} />
+                            </button>
+                            <div className="p-3 space-y-2">
+                              <div className="flex items-center gap-2 min-w-0">
+                                {getFileIcon(file.content_type)}
+                                <p className="text-sm font-medium truncate" title={file.file_path}>
+                                  {fileName(file.file_path)}
+                                </p>
+                              </div>
+                              <div className="flex items-center justify-between text-xs text-muted-foreground">
+                                <span>{formatFileSize(file.file_size)}</span>
+                                <span>Storage {file.storage_account}</span>
+                              </div>
+                              {file.created_at && (
+                                <p className="text-xs text-muted-foreground">
+                                  {format(new Date(file.created_at), 'MMM dd, yyyy HH:mm')}
+                                </p>
+                              )}
+                              <div className="flex gap-1">
+                                <Button variant="ghost" size="sm" onClick={() => setPreviewFile(file)}>
+                                  <Eye className="h-4 w-4" />
+                                </Button>
+                                <Button variant="ghost" size="sm" onClick={() => copyToClipboard(file.file_path)}>
+                                  <Copy className="h-4 w-4" />
+                                </Button>
+                                <Button variant="ghost" size="sm" onClick={() => setFileToDelete(file)}>
+                                  <Trash2 className="h-4 w-4 text-destructive" />
+                                </Button>
+                              </div>
+                            </div>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+
+                    <div className="flex items-center justify-end gap-2">
+                      <Button variant="outline" size="sm" disabled={page === 0} onClick={() => setPage(page - 1)}>
+                        Previous
+                      </Button>
+                      <span className="text-sm text-muted-foreground">
+                        Page {page + 1} of {pageCount}
+                      </span>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        disabled={page + 1 >= pageCount}
+                        onClick={() => setPage(page + 1)}
+                      >
+                        Next
+                      </Button>
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
             </div>
-          </CardContent>
-        </Card>
+          </TabsContent>
+
+          <TabsContent value="orphans">
+            <Card>
+              <CardHeader>
+                <div className="flex items-start justify-between gap-4">
+                  <div>
+                    <CardTitle>Orphaned Files</CardTitle>
+                    <CardDescription>
+                      Files older than a day that no movie, series, episode, subtitle, profile or ad references.
+                    </CardDescription>
+                  </div>
+                  <div className="flex gap-2 shrink-0">
+                    <Button variant="outline" onClick={() => scanOrphans()} disabled={scanningOrphans}>
+                      <RefreshCw className={cn('h-4 w-4 mr-2', scanningOrphans && 'animate-spin')} />
+                      Rescan
+                    </Button>
+                    <Button
+                      variant="destructive"
+                      disabled={selectedOrphanFiles.length === 0 || deleteFiles.isPending}
+                      onClick={() => setConfirmCleanup(true)}
+                    >
+                      <Trash2 className="h-4 w-4 mr-2" />
+                      Delete {selectedOrphanFiles.length || ''} selected
+                    </Button>
+                  </div>
+                </div>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                {scanningOrphans && orphans.length === 0 && (
+                  <p className="text-sm text-muted-foreground text-center py-12">Scanning references...</p>
+                )}
+                {!scanningOrphans && orphans.length === 0 && (
+                  <p className="text-sm text-muted-foreground text-center py-12">No orphaned files found</p>
+                )}
+                {orphans.length > 0 && (
+                  <label className="flex items-center gap-3 px-3 py-2 text-sm text-muted-foreground">
+                    <Checkbox
+                      checked={selectedOrphanFiles.length === orphans.length}
+                      onCheckedChange={(checked) =>
+                        setSelectedOrphans(checked ? new Set(orphans.map((file) => file.file_path)) : new Set())
+                      }
+                    />
+                    Select all {orphans.length} ({formatFileSize(selectedOrphanBytes)} selected)
+                  </label>
+                )}
+                {orphans.map((file) => (
+                  <div key={file.id} className="flex items-center gap-3 rounded-lg border p-3">
+                    <Checkbox
+                      checked={selectedOrphans.has(file.file_path)}
+                      onCheckedChange={(checked) => toggleOrphan(file.file_path, checked === true)}
+                    />
+                    {getFileIcon(file.content_type)}
+                    <div className="min-w-0 flex-1">
+                      <p className="text-sm font-medium truncate" title={file.file_path}>{file.file_path}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {formatFileSize(file.file_size)} · {CATEGORY_LABELS[file.file_category ?? DEFAULT_MEDIA_CATEGORY] ?? file.file_category}
+                        {' · '}Storage {file.storage_account}
+                        {file.created_at && ` · ${format(new Date(file.created_at), 'MMM dd, yyyy')}`}
+                      </p>
+                    </div>
+                    <Button variant="ghost" size="sm" onClick={() => setPreviewFile(file)}>
+                      <Eye className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+          </TabsContent>
+        </Tabs>
+
+        {/* Preview Dialog */}
+        <Dialog open={!!previewFile} onOpenChange={(open) => !open && setPreviewFile(null)}>
+          <DialogContent className="max-w-3xl">
+            <DialogHeader>
+              <DialogTitle className="truncate">{previewFile && fileName(previewFile.file_path)}</DialogTitle>
+            </DialogHeader>
+            {previewFile && <MediaPreview file={previewFile} />}
+          </DialogContent>
+        </Dialog>
+
+        {/* Delete Confirmation */}
+        <AlertDialog open={!!fileToDelete} onOpenChange={(open) => !open && setFileToDelete(null)}>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Delete File</AlertDialogTitle>
+              <AlertDialogDescription>
+                Delete {fileToDelete?.file_path} from storage? Anything still using it will show a broken image or video.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Cancel</AlertDialogCancel>
+              <AlertDialogAction onClick={handleDelete}>Delete</AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+
+        <AlertDialog open={confirmCleanup} onOpenChange={setConfirmCleanup}>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Delete Orphaned Files</AlertDialogTitle>
+              <AlertDialogDescription>
+                Permanently delete {selectedOrphanFiles.length} file(s) ({formatFileSize(selectedOrphanBytes)})?
+                Each file is checked again first and kept if something started using it.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Cancel</AlertDialogCancel>
+              <AlertDialogAction onClick={handleCleanup}>Delete</AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
 
         {/* Upload Dialog */}
         <AlertDialog open={uploadDialogOpen} onOpenChange={setUploadDialogOpen}>
@@ -254,10 +597,10 @@ export default function MediaManager() {
             <AlertDialogHeader>
               <AlertDialogTitle>Upload Media Files</AlertDialogTitle>
               <AlertDialogDescription>
-                Select files to upload. They will be automatically distributed across the storage accounts.
+                Select images or videos to upload. Large files are sent in parts and can be resumed if interrupted.
               </AlertDialogDescription>
             </AlertDialogHeader>
-            
+
             <div className="space-y-4">
               <label className="flex flex-col items-center justify-center w-full h-32 border-2 border-dashed rounded-lg cursor-pointer hover:bg-accent/50 transition-colors">
                 <div className="flex flex-col items-center justify-center pt-5 pb-6">
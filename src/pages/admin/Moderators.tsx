@@ -1,7 +1,28 @@
+import { useState } from "react";
+import { format } from "date-fns";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
 import { AdminLayout } from "@/components/admin/AdminLayout";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import {
   Table,
   TableBody,
@@ -10,14 +31,140 @@ import {
   TableHeader,
   TableRow,
 } from "@/components/ui/table";
-import { UserPlus, Shield, Activity } from "lucide-react";
+import { toast } from "sonner";
+import { UserPlus, Shield, History, Trash2 } from "lucide-react";
+import {
+  AppRole,
+  Permission,
+  PERMISSIONS,
+  PERMISSION_LABELS,
+  ROLE_LABELS,
+  STAFF_ROLES,
+} from "@/lib/permissions";
+
+const GRANTABLE_ROLES: AppRole[] = ["admin", ...STAFF_ROLES];
+
+// Maps user ids to emails for the staff list and the audit trail
+const fetchEmails = async (ids: string[]) => {
+  if (ids.length === 0) return new Map<string, string>();
+  const { data, error } = await supabase.from("profiles").select("id, email").in("id", ids);
+  if (error) throw error;
+  return new Map(data.map((profile) => [profile.id, profile.email]));
+};
+
+const roleErrorMessage = (error: Error) => {
+  if (error.message.includes("LAST_ADMIN")) return "The last admin cannot be removed";
+  if (error.message.includes("duplicate key")) return "That user already has this role";
+  return error.message || "Failed to update role";
+};
 
 const Moderators = () => {
-  // Mock data
-  const moderators = [
-    { id: "1", name: "John Doe", email: "john@example.com", actionsToday: 12, status: "active" },
-    { id: "2", name: "Jane Smith", email: "jane@example.com", actionsToday: 8, status: "active" },
-  ];
+  const queryClient = useQueryClient();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [email, setEmail] = useState("");
+  const [role, setRole] = useState<AppRole>("moderator");
+
+  const { data: staff = [], isLoading } = useQuery({
+    queryKey: ["staff-roles"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("user_roles")
+        .select("user_id, role, created_at")
+        .neq("role", "user")
+        .order("created_at", { ascending: false });
+      if (error) throw error;
+
+      const emails = await fetchEmails([...new Set(data.map((row) => row.user_id))]);
+      return data.map((row) => ({ ...row, email: emails.get(row.user_id) ?? row.user_id }));
+    },
+  });
+
+  const { data: grants = [] } = useQuery({
+    queryKey: ["role-permissions"],
+    queryFn: async () => {
+      const { data, error } = await supabase.from("role_permissions").select("role, permission");
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const { data: audit = [] } = useQuery({
+    queryKey: ["user-role-audit"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("user_role_audit")
+        .select("*")
+        .order("created_at", { ascending: false })
+        .limit(50);
+      if (error) throw error;
+
+      const ids = data.flatMap((row) => (row.actor_id ? [row.user_id, row.actor_id] : [row.user_id]));
+      const emails = await fetchEmails([...new Set(ids)]);
+      return data.map((row) => ({
+        ...row,
+        email: emails.get(row.user_id) ?? "Deleted user",
+        actorEmail: row.actor_id ? emails.get(row.actor_id) ?? "Deleted user" : "System",
+      }));
+    },
+  });
+
+  const invalidateRoles = () => {
+    queryClient.invalidateQueries({ queryKey: ["staff-roles"] });
+    queryClient.invalidateQueries({ queryKey: ["user-role-audit"] });
+    queryClient.invalidateQueries({ queryKey: ["users"] });
+  };
+
+  const grantMutation = useMutation({
+    mutationFn: async () => {
+      const { data: profile, error: profileError } = await supabase
+        .from("profiles")
+        .select("id")
+        .eq("email", email.trim())
+        .maybeSingle();
+      if (profileError) throw profileError;
+      if (!profile) throw new Error("No user with that email");
+
+      const { error } = await supabase.from("user_roles").insert({ user_id: profile.id, role });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidateRoles();
+      toast.success(`${ROLE_LABELS[role]} role granted`);
+      setDialogOpen(false);
+      setEmail("");
+    },
+    onError: (error: Error) => toast.error(roleErrorMessage(error)),
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async ({ userId, role }: { userId: string; role: AppRole }) => {
+      const { error } = await supabase.from("user_roles").delete().eq("user_id", userId).eq("role", role);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidateRoles();
+      toast.success("Role revoked");
+    },
+    onError: (error: Error) => toast.error(roleErrorMessage(error)),
+  });
+
+  const permissionMutation = useMutation({
+    mutationFn: async ({ role, permission, enabled }: { role: AppRole; permission: Permission; enabled: boolean }) => {
+      const { error } = enabled
+        ? await supabase.from("role_permissions").insert({ role, permission })
+        : await supabase.from("role_permissions").delete().eq("role", role).eq("permission", permission);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["role-permissions"] });
+    },
+    onError: (error: Error) => toast.error(error.message || "Failed to update permissions"),
+  });
+
+  const isGranted = (role: AppRole, permission: Permission) =>
+    grants.some((grant) => grant.role === role && grant.permission === permission);
+
+  const countByRole = (role: AppRole) => staff.filter((row) => row.role === role).length;
 
   return (
     <AdminLayout>
@@ -25,82 +172,161 @@ const Moderators = () => {
         <div className="flex justify-between items-center">
           <div>
             <h1 className="text-3xl font-bold tracking-tight">Moderators</h1>
-            <p className="text-muted-foreground">Manage moderator team and permissions</p>
+            <p className="text-muted-foreground">Manage staff roles and what each role can do</p>
           </div>
-          <Button>
+          <Button onClick={() => setDialogOpen(true)}>
             <UserPlus className="h-4 w-4 mr-2" />
-            Add Moderator
+            Grant Role
           </Button>
         </div>
 
-        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-          <Card>
-            <CardHeader className="pb-3">
-              <CardTitle className="text-sm font-medium">Total Moderators</CardTitle>
-            </CardHeader>
-            <CardContent>
-              <div className="text-2xl font-bold">{moderators.length}</div>
-            </CardContent>
-          </Card>
-          <Card>
-            <CardHeader className="pb-3">
-              <CardTitle className="text-sm font-medium">Active Today</CardTitle>
-            </CardHeader>
-            <CardContent>
-              <div className="text-2xl font-bold">{moderators.length}</div>
-            </CardContent>
-          </Card>
-          <Card>
-            <CardHeader className="pb-3">
-              <CardTitle className="text-sm font-medium">Actions Today</CardTitle>
-            </CardHeader>
-            <CardContent>
-              <div className="text-2xl font-bold">
-                {moderators.reduce((sum, m) => sum + m.actionsToday, 0)}
-              </div>
-            </CardContent>
-          </Card>
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          {GRANTABLE_ROLES.map((grantable) => (
+            <Card key={grantable}>
+              <CardHeader className="pb-3">
+                <CardTitle className="text-sm font-medium">{ROLE_LABELS[grantable]}s</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="text-2xl font-bold">{isLoading ? "..." : countByRole(grantable)}</div>
+              </CardContent>
+            </Card>
+          ))}
         </div>
 
         <Card>
           <CardHeader>
-            <CardTitle>Moderator Team</CardTitle>
+            <CardTitle>Staff</CardTitle>
           </CardHeader>
           <CardContent>
             <Table>
               <TableHeader>
                 <TableRow>
-                  <TableHead>Name</TableHead>
                   <TableHead>Email</TableHead>
-                  <TableHead>Actions Today</TableHead>
-                  <TableHead>Status</TableHead>
+                  <TableHead>Role</TableHead>
+                  <TableHead>Granted</TableHead>
                   <TableHead className="text-right">Actions</TableHead>
                 </TableRow>
               </TableHeader>
               <TableBody>
-                {moderators.map((mod) => (
-                  <TableRow key={mod.id}>
+                {!isLoading && staff.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={4} className="text-center text-muted-foreground">
+                      No staff roles assigned
+                    </TableCell>
+                  </TableRow>
+                )}
+                {staff.map((row) => (
+                  <TableRow key={`${row.user_id}-${row.role}`}>
                     <TableCell className="font-medium">
                       <div className="flex items-center gap-2">
                         <Shield className="h-4 w-4 text-primary" />
-                        {mod.name}
+                        {row.email}
                       </div>
                     </TableCell>
-                    <TableCell>{mod.email}</TableCell>
                     <TableCell>
-                      <div className="flex items-center gap-2">
-                        <Activity className="h-4 w-4 text-muted-foreground" />
-                        {mod.actionsToday}
-                      </div>
+                      <Badge variant={row.role === "admin" ? "default" : "outline"}>{ROLE_LABELS[row.role]}</Badge>
+                    </TableCell>
+                    <TableCell>{format(new Date(row.created_at), "MMM d, yyyy")}</TableCell>
+                    <TableCell className="text-right">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        disabled={revokeMutation.isPending}
+                        onClick={() => {
+                          if (confirm(`Revoke ${ROLE_LABELS[row.role]} from ${row.email}?`)) {
+                            revokeMutation.mutate({ userId: row.user_id, role: row.role });
+                          }
+                        }}
+                      >
+                        <Trash2 className="h-4 w-4 mr-2" />
+                        Revoke
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Role Permissions</CardTitle>
+            <p className="text-sm text-muted-foreground">Admins always hold every permission</p>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Permission</TableHead>
+                  {STAFF_ROLES.map((staffRole) => (
+                    <TableHead key={staffRole} className="text-center">{ROLE_LABELS[staffRole]}</TableHead>
+                  ))}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {PERMISSIONS.map((permission) => (
+                  <TableRow key={permission}>
+                    <TableCell>
+                      <p className="font-medium">{PERMISSION_LABELS[permission]}</p>
+                      <p className="text-xs text-muted-foreground">{permission}</p>
+                    </TableCell>
+                    {STAFF_ROLES.map((staffRole) => (
+                      <TableCell key={staffRole} className="text-center">
+                        <Switch
+                          checked={isGranted(staffRole, permission)}
+                          disabled={permissionMutation.isPending}
+                          onCheckedChange={(enabled) =>
+                            permissionMutation.mutate({ role: staffRole, permission, enabled })
+                          }
+                        />
+                      </TableCell>
+                    ))}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <History className="h-5 w-5" />
+              Audit Trail
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>When</TableHead>
+                  <TableHead>User</TableHead>
+                  <TableHead>Change</TableHead>
+                  <TableHead>By</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {audit.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={4} className="text-center text-muted-foreground">
+                      No role changes recorded yet
                     </TableCell>
+                  </TableRow>
+                )}
+                {audit.map((entry) => (
+                  <TableRow key={entry.id}>
+                    <TableCell>{format(new Date(entry.created_at), "MMM d, yyyy HH:mm")}</TableCell>
+                    <TableCell>{entry.email}</TableCell>
                     <TableCell>
-                      <Badge variant="outline" className="bg-green-500/10 text-green-500">
-                        {mod.status}
+                      <Badge
+                        variant="outline"
+                        className={entry.action === "granted" ? "bg-green-500/10 text-green-500" : "bg-red-500/10 text-red-500"}
+                      >
+                        {entry.action === "granted" ? "Granted" : "Revoked"} {ROLE_LABELS[entry.role]}
                       </Badge>
                     </TableCell>
-                    <TableCell className="text-right">
-                      <Button variant="ghost" size="sm">View Details</Button>
-                    </TableCell>
+                    <TableCell>{entry.actorEmail}</TableCell>
                   </TableRow>
                 ))}
               </TableBody>
@@ -108,6 +334,45 @@ const Moderators = () => {
           </CardContent>
         </Card>
       </div>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Grant Role</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="staff-email">User email</Label>
+              <Input
+                id="staff-email"
+                type="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                placeholder="user@example.com"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Role</Label>
+              <Select value={role} onValueChange={(value) => setRole(value as AppRole)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {GRANTABLE_ROLES.map((grantable) => (
+                    <SelectItem key={grantable} value={grantable}>{ROLE_LABELS[grantable]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)}>Cancel</Button>
+            <Button onClick={() => grantMutation.mutate()} disabled={!email.trim() || grantMutation.isPending}>
+              {grantMutation.isPending ? "Granting..." : "Grant"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </AdminLayout>
   );
 };
@@ -13,7 +13,14 @@ import { Badge } from "@/components/ui/badge";
 import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { CastDialog } from "@/components/admin/CastDialog";
+import { SubtitleManager } from "@/components/admin/SubtitleManager";
+import { AdBreakManager } from "@/components/admin/AdBreakManager";
+import { AuditHistory } from "@/components/admin/AuditHistory";
+import { StartTranscodeDialog } from "@/components/admin/StartTranscodeDialog";
+import { TranscodeJobList } from "@/components/admin/TranscodeJobs";
 import { Avatar, AvatarImage, AvatarFallback } from "@/components/ui/avatar";
+import { useAuth } from "@/hooks/useAuth";
+import { MATURITY_RATINGS } from "@/lib/viewerProfiles";
 
 interface VideoSource {
   server: string;
@@ -33,6 +40,7 @@ interface VideoSource {
 
 const MoviesEdit = () => {
   const { id } = useParams();
+  const { isAdmin } = useAuth();
   const navigate = useNavigate();
   const queryClient = useQueryClient();
   const [isEditingInfo, setIsEditingInfo] = useState(false);
@@ -40,6 +48,7 @@ const MoviesEdit = () => {
   const [isEditingVideoSources, setIsEditingVideoSources] = useState(false);
   const [videoSources, setVideoSources] = useState<VideoSource[]>([]);
   const [castDialogOpen, setCastDialogOpen] = useState(false);
+  const [transcodeDialogOpen, setTranscodeDialogOpen] = useState(false);
   const [selectedCast, setSelectedCast] = useState<any>(null);
 
   const { data: movie, isLoading } = useQuery({
@@ -86,6 +95,7 @@ const MoviesEdit = () => {
         rental_period_days: movie.rental_period_days || 7,
         rental_max_devices: movie.rental_max_devices || 1,
         exclude_from_plan: movie.exclude_from_plan || false,
+        maturity_rating: movie.maturity_rating ?? null,
       });
     }
   }, [isEditingInfo, movie, editedMovie]);
@@ -406,6 +416,28 @@ const MoviesEdit = () => {
                         </SelectContent>
                       </Select>
                     </div>
+
+                    <div className="space-y-2">
+                      <Label htmlFor="maturity_rating">Maturity Rating</Label>
+                      <Select
+                        value={editedMovie.maturity_rating ?? "unrated"}
+                        onValueChange={(value) =>
+                          setEditedMovie({ ...editedMovie, maturity_rating: value === "unrated" ? null : value })
+                        }
+                      >
+                        <SelectTrigger id="maturity_rating">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="unrated">Unrated (treated as Teens)</SelectItem>
+                          {MATURITY_RATINGS.map((rating) => (
+                            <SelectItem key={rating.value} value={rating.value}>
+                              {rating.label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
                   </div>
 
                   {editedMovie.access === "rent" && (
@@ -870,6 +902,60 @@ const MoviesEdit = () => {
           </Card>
         )}
 
+        {!isLoading && movie && (
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0">
+              <CardTitle>HLS Transcoding</CardTitle>
+              <Button size="sm" onClick={() => setTranscodeDialogOpen(true)}>
+                <Plus className="h-4 w-4 mr-2" />
+                Transcode Master
+              </Button>
+            </CardHeader>
+            <CardContent>
+              <TranscodeJobList movieId={movie.id} />
+              <StartTranscodeDialog
+                open={transcodeDialogOpen}
+                onOpenChange={setTranscodeDialogOpen}
+                movieId={movie.id}
+                version={movie.access || "free"}
+              />
+            </CardContent>
+          </Card>
+        )}
+
+        {!isLoading && movie && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Subtitles</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <SubtitleManager movieId={movie.id} />
+            </CardContent>
+          </Card>
+        )}
+
+        {!isLoading && movie && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Ad Breaks</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <AdBreakManager mediaId={movie.id} mediaType="movie" />
+            </CardContent>
+          </Card>
+        )}
+
+        {!isLoading && movie && isAdmin && (
+          <Card>
+            <CardHeader>
+              <CardTitle>History</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <AuditHistory tableName="movies" recordId={movie.id} />
+            </CardContent>
+          </Card>
+        )}
+
         {/* Cast Management Section */}
         {!isLoading && movie && (
           <Card>
@@ -29,100 +29,132 @@ import {
   XCircle,
   Users,
   Eye,
+  Pencil,
   Trash2
 } from "lucide-react";
 import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
+import { toast } from "sonner";
 import { NotificationDialog } from "@/components/admin/NotificationDialog";
+import { TableSkeleton } from "@/components/admin/TableSkeleton";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
 import { format } from "date-fns";
 
 type NotificationType = "info" | "success" | "warning" | "error";
-type NotificationStatus = "sent" | "scheduled" | "draft";
+type NotificationStatus = "sent" | "scheduled" | "draft" | "failed";
+type Notification = Tables<"notifications"> & {
+  subscription_plans: { name: string } | null;
+};
+
+const AUDIENCE_LABELS: Record<string, string> = {
+  all: "All Users",
+  plan_subscribers: "Plan Subscribers",
+  title_renters: "Title Renters",
+  cast_followers: "Cast Followers",
+  release_reservers: "Release Reservations",
+  comment_mentions: "Comment Mentions",
+};
 
-interface Notification {
-  id: string;
-  title: string;
-  message: string;
-  type: NotificationType;
-  status: NotificationStatus;
-  recipient: string;
-  recipientCount: number;
-  sentAt: string;
-  scheduledFor?: string;
-  readCount: number;
-}
+const audienceDetail = (notification: Notification) => {
+  switch (notification.audience) {
+    case "plan_subscribers":
+      return notification.subscription_plans?.name ?? null;
+    case "title_renters":
+      return notification.audience_media_type ? `A ${notification.audience_media_type} rental` : null;
+    case "cast_followers":
+      return notification.audience_cast_name;
+    default:
+      return null;
+  }
+};
 
 const Notifications = () => {
   const [searchQuery, setSearchQuery] = useState("");
   const [statusFilter, setStatusFilter] = useState<string>("all");
   const [typeFilter, setTypeFilter] = useState<string>("all");
   const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [selectedNotification, setSelectedNotification] = useState<Notification | null>(null);
+  const [viewNotification, setViewNotification] = useState<Notification | null>(null);
+  const [deleteId, setDeleteId] = useState<string | null>(null);
+  const queryClient = useQueryClient();
 
-  // Mock data
-  const notifications: Notification[] = [
-    {
-      id: "1",
-      title: "New Season Release",
-      message: "Attack on Titan Final Season is now available!",
-      type: "success",
-      status: "sent",
-      recipient: "All Users",
-      recipientCount: 1250,
-      sentAt: "2024-01-15T10:30:00",
-      readCount: 892
+  const { data: notifications = [], isLoading } = useQuery({
+    queryKey: ["admin-notifications"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("notifications")
+        .select("*, subscription_plans(name)")
+        // Mention alerts are sent by comments themselves, one per comment; they are not broadcasts
+        .neq("audience", "comment_mentions")
+        .order("created_at", { ascending: false });
+      if (error) throw error;
+      return data as Notification[];
     },
-    {
-      id: "2",
-      title: "Maintenance Scheduled",
-      message: "Platform will be under maintenance on Jan 20th from 2AM-4AM EST",
-      type: "warning",
-      status: "scheduled",
-      recipient: "All Users",
-      recipientCount: 1250,
-      sentAt: "2024-01-18T14:20:00",
-      scheduledFor: "2024-01-19T20:00:00",
-      readCount: 0
+  });
+
+  const { data: readCounts } = useQuery({
+    queryKey: ["admin-notifications", "stats"],
+    queryFn: async () => {
+      const { data, error } = await supabase.from("notification_stats").select("notification_id, read_count");
+      if (error) throw error;
+      return new Map(data.map((row) => [row.notification_id, row.read_count ?? 0]));
     },
-    {
-      id: "3",
-      title: "Welcome Aboard!",
-      message: "Thanks for joining! Explore our vast library of anime content.",
-      type: "info",
-      status: "sent",
-      recipient: "New Users",
-      recipientCount: 48,
-      sentAt: "2024-01-16T08:15:00",
-      readCount: 35
+  });
+
+  const sendMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const { data, error } = await supabase.rpc("send_notification", { _notification_id: id });
+      if (error) throw error;
+      return data;
     },
-    {
-      id: "4",
-      title: "Subscription Expired",
-      message: "Your premium subscription has expired. Renew now to continue enjoying premium content.",
-      type: "error",
-      status: "sent",
-      recipient: "Premium Users",
-      recipientCount: 12,
-      sentAt: "2024-01-17T09:00:00",
-      readCount: 10
+    onSuccess: (recipients) => {
+      queryClient.invalidateQueries({ queryKey: ["admin-notifications"] });
+      toast.success(`Notification sent to ${recipients} ${recipients === 1 ? "user" : "users"}`);
     },
-    {
-      id: "5",
-      title: "New Features Available",
-      message: "Check out our new watchlist and recommendation features!",
-      type: "info",
-      status: "draft",
-      recipient: "All Users",
-      recipientCount: 1250,
-      sentAt: "2024-01-18T11:45:00",
-      readCount: 0
+    onError: (error: Error) => {
+      toast.error(error.message || "Failed to send notification");
     },
-  ];
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from("notifications").delete().eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["admin-notifications"] });
+      toast.success("Notification deleted successfully");
+      setDeleteId(null);
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || "Failed to delete notification");
+    },
+  });
 
   const stats = {
     total: notifications.length,
     sent: notifications.filter(n => n.status === "sent").length,
     scheduled: notifications.filter(n => n.status === "scheduled").length,
-    drafts: notifications.filter(n => n.status === "draft").length,
-    totalReach: notifications.reduce((sum, n) => sum + n.recipientCount, 0),
+    drafts: notifications.filter(n => n.status === "draft" || n.status === "failed").length,
+    totalReach: notifications.reduce((sum, n) => sum + n.recipient_count, 0),
   };
 
   const filteredNotifications = notifications.filter((notif) => {
@@ -134,6 +166,11 @@ const Notifications = () => {
     return matchesSearch && matchesStatus && matchesType;
   });
 
+  const openDialog = (notification: Notification | null) => {
+    setSelectedNotification(notification);
+    setIsDialogOpen(true);
+  };
+
   const getTypeIcon = (type: NotificationType) => {
     switch (type) {
       case "success":
@@ -166,6 +203,8 @@ const Notifications = () => {
         return "bg-green-500/10 text-green-500 border-green-500/20";
       case "scheduled":
         return "bg-blue-500/10 text-blue-500 border-blue-500/20";
+      case "failed":
+        return "bg-red-500/10 text-red-500 border-red-500/20";
       default:
         return "bg-muted text-muted-foreground border-border";
     }
@@ -181,7 +220,7 @@ const Notifications = () => {
               Send and manage user notifications across the platform
             </p>
           </div>
-          <Button onClick={() => setIsDialogOpen(true)}>
+          <Button onClick={() => openDialog(null)}>
             <Send className="h-4 w-4 mr-2" />
             Send Notification
           </Button>
@@ -192,7 +231,7 @@ const Notifications = () => {
             <CardHeader className="pb-3">
               <CardTitle className="text-sm font-medium flex items-center gap-2">
                 <Bell className="h-4 w-4 text-muted-foreground" />
-                Total Sent
+                Total
               </CardTitle>
             </CardHeader>
             <CardContent>
@@ -236,7 +275,7 @@ const Notifications = () => {
             </CardHeader>
             <CardContent>
               <div className="text-2xl font-bold">{stats.drafts}</div>
-              <p className="text-xs text-muted-foreground mt-1">Not sent</p>
+              <p className="text-xs text-muted-foreground mt-1">Not sent or failed</p>
             </CardContent>
           </Card>
 
@@ -277,6 +316,7 @@ const Notifications = () => {
                     <SelectItem value="sent">Sent</SelectItem>
                     <SelectItem value="scheduled">Scheduled</SelectItem>
                     <SelectItem value="draft">Draft</SelectItem>
+                    <SelectItem value="failed">Failed</SelectItem>
                   </SelectContent>
                 </Select>
 
@@ -297,118 +337,196 @@ const Notifications = () => {
             </div>
           </CardHeader>
           <CardContent>
-            <Table>
-              <TableHeader>
-                <TableRow>
-                  <TableHead>Title</TableHead>
-                  <TableHead>Type</TableHead>
-                  <TableHead>Recipient</TableHead>
-                  <TableHead>Status</TableHead>
-                  <TableHead>Sent/Scheduled</TableHead>
-                  <TableHead>Read Rate</TableHead>
-                  <TableHead className="text-right">Actions</TableHead>
-                </TableRow>
-              </TableHeader>
-              <TableBody>
-                {filteredNotifications.length === 0 ? (
+            {isLoading ? (
+              <TableSkeleton columns={7} showCheckbox={false} showImage={false} />
+            ) : (
+              <Table>
+                <TableHeader>
                   <TableRow>
-                    <TableCell colSpan={7} className="text-center py-8">
-                      <Bell className="h-12 w-12 text-muted-foreground mx-auto mb-2" />
-                      <p className="text-muted-foreground">No notifications found</p>
-                    </TableCell>
+                    <TableHead>Title</TableHead>
+                    <TableHead>Type</TableHead>
+                    <TableHead>Recipient</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Sent/Scheduled</TableHead>
+                    <TableHead>Read Rate</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
                   </TableRow>
-                ) : (
-                  filteredNotifications.map((notification) => (
-                    <TableRow key={notification.id}>
-                      <TableCell className="font-medium max-w-xs">
-                        <div className="space-y-1">
-                          <div className="font-semibold">{notification.title}</div>
-                          <div className="text-sm text-muted-foreground truncate">
-                            {notification.message}
-                          </div>
-                        </div>
+                </TableHeader>
+                <TableBody>
+                  {filteredNotifications.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={7} className="text-center py-8">
+                        <Bell className="h-12 w-12 text-muted-foreground mx-auto mb-2" />
+                        <p className="text-muted-foreground">No notifications found</p>
                       </TableCell>
-                      <TableCell>
-                        <Badge variant="outline" className={getTypeColor(notification.type)}>
-                          {getTypeIcon(notification.type)}
-                          <span className="ml-1 capitalize">{notification.type}</span>
-                        </Badge>
-                      </TableCell>
-                      <TableCell>
-                        <div className="space-y-1">
-                          <div className="font-medium">{notification.recipient}</div>
-                          <div className="text-xs text-muted-foreground">
-                            {notification.recipientCount} users
-                          </div>
-                        </div>
-                      </TableCell>
-                      <TableCell>
-                        <Badge variant="outline" className={getStatusColor(notification.status)}>
-                          {notification.status === "sent" && <CheckCircle className="h-3 w-3 mr-1" />}
-                          {notification.status === "scheduled" && <AlertCircle className="h-3 w-3 mr-1" />}
-                          <span className="capitalize">{notification.status}</span>
-                        </Badge>
-                      </TableCell>
-                      <TableCell>
-                        <div className="text-sm">
-                          {notification.status === "scheduled" && notification.scheduledFor ? (
-                            <div>
-                              <div className="font-medium">
-                                {format(new Date(notification.scheduledFor), "MMM dd, yyyy")}
+                    </TableRow>
+                  ) : (
+                    filteredNotifications.map((notification) => {
+                      const status = notification.status as NotificationStatus;
+                      const readCount = readCounts?.get(notification.id) ?? 0;
+                      const timestamp =
+                        status === "sent" ? notification.sent_at : notification.scheduled_for ?? notification.created_at;
+                      return (
+                        <TableRow key={notification.id}>
+                          <TableCell className="font-medium max-w-xs">
+                            <div className="space-y-1">
+                              <div className="font-semibold">{notification.title}</div>
+                              <div className="text-sm text-muted-foreground truncate">
+                                {notification.message}
                               </div>
+                            </div>
+                          </TableCell>
+                          <TableCell>
+                            <Badge variant="outline" className={getTypeColor(notification.type as NotificationType)}>
+                              {getTypeIcon(notification.type as NotificationType)}
+                              <span className="ml-1 capitalize">{notification.type}</span>
+                            </Badge>
+                          </TableCell>
+                          <TableCell>
+                            <div className="space-y-1">
+                              <div className="font-medium">{AUDIENCE_LABELS[notification.audience]}</div>
                               <div className="text-xs text-muted-foreground">
-                                {format(new Date(notification.scheduledFor), "hh:mm a")}
+                                {status === "sent"
+                                  ? `${notification.recipient_count} users`
+                                  : audienceDetail(notification) ?? "Resolved on send"}
                               </div>
                             </div>
-                          ) : (
-                            <div>
-                              <div className="font-medium">
-                                {format(new Date(notification.sentAt), "MMM dd, yyyy")}
+                          </TableCell>
+                          <TableCell>
+                            <Badge variant="outline" className={getStatusColor(status)}>
+                              {status === "sent" && <CheckCircle className="h-3 w-3 mr-1" />}
+                              {status === "scheduled" && <AlertCircle className="h-3 w-3 mr-1" />}
+                              {status === "failed" && <XCircle className="h-3 w-3 mr-1" />}
+                              <span className="capitalize">{status}</span>
+                            </Badge>
+                          </TableCell>
+                          <TableCell>
+                            {timestamp ? (
+                              <div className="text-sm">
+                                <div className="font-medium">
+                                  {format(new Date(timestamp), "MMM dd, yyyy")}
+                                </div>
+                                <div className="text-xs text-muted-foreground">
+                                  {format(new Date(timestamp), "hh:mm a")}
+                                </div>
                               </div>
-                              <div className="text-xs text-muted-foreground">
-                                {format(new Date(notification.sentAt), "hh:mm a")}
+                            ) : (
+                              <span className="text-muted-foreground text-sm">-</span>
+                            )}
+                          </TableCell>
+                          <TableCell>
+                            {status === "sent" && notification.recipient_count > 0 ? (
+                              <div className="space-y-1">
+                                <div className="font-medium">
+                                  {((readCount / notification.recipient_count) * 100).toFixed(1)}%
+                                </div>
+                                <div className="text-xs text-muted-foreground">
+                                  {readCount}/{notification.recipient_count}
+                                </div>
                               </div>
+                            ) : (
+                              <span className="text-muted-foreground text-sm">-</span>
+                            )}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            <div className="flex justify-end gap-2">
+                              <Button variant="ghost" size="sm" onClick={() => setViewNotification(notification)}>
+                                <Eye className="h-4 w-4" />
+                              </Button>
+                              {status !== "sent" && (
+                                <>
+                                  <Button variant="ghost" size="sm" onClick={() => openDialog(notification)}>
+                                    <Pencil className="h-4 w-4" />
+                                  </Button>
+                                  <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    title="Send now"
+                                    disabled={sendMutation.isPending}
+                                    onClick={() => sendMutation.mutate(notification.id)}
+                                  >
+                                    <Send className="h-4 w-4" />
+                                  </Button>
+                                </>
+                              )}
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                className="text-destructive hover:text-destructive"
+                                onClick={() => setDeleteId(notification.id)}
+                              >
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
                             </div>
-                          )}
-                        </div>
-                      </TableCell>
-                      <TableCell>
-                        {notification.status === "sent" && (
-                          <div className="space-y-1">
-                            <div className="font-medium">
-                              {((notification.readCount / notification.recipientCount) * 100).toFixed(1)}%
-                            </div>
-                            <div className="text-xs text-muted-foreground">
-                              {notification.readCount}/{notification.recipientCount}
-                            </div>
-                          </div>
-                        )}
-                        {notification.status !== "sent" && (
-                          <span className="text-muted-foreground text-sm">-</span>
-                        )}
-                      </TableCell>
-                      <TableCell className="text-right">
-                        <div className="flex justify-end gap-2">
-                          <Button variant="ghost" size="sm">
-                            <Eye className="h-4 w-4" />
-                          </Button>
-                          <Button variant="ghost" size="sm" className="text-destructive hover:text-destructive">
-                            <Trash2 className="h-4 w-4" />
-                          </Button>
-                        </div>
-                      </TableCell>
-                    </TableRow>
-                  ))
-                )}
-              </TableBody>
-            </Table>
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })
+                  )}
+                </TableBody>
+              </Table>
+            )}
           </CardContent>
         </Card>
 
         <NotificationDialog 
           open={isDialogOpen}
           onOpenChange={setIsDialogOpen}
+          notification={selectedNotification}
         />
+
+        <Dialog open={!!viewNotification} onOpenChange={() => setViewNotification(null)}>
+          <DialogContent className="max-w-lg">
+            <DialogHeader>
+              <DialogTitle>{viewNotification?.title}</DialogTitle>
+              <DialogDescription className="capitalize">
+                {viewNotification?.type} · {viewNotification?.status}
+              </DialogDescription>
+            </DialogHeader>
+            {viewNotification && (
+              <div className="space-y-4 text-sm">
+                <p className="whitespace-pre-wrap">{viewNotification.message}</p>
+                {viewNotification.link_url && (
+                  <div>
+                    <span className="text-muted-foreground">Link: </span>
+                    {viewNotification.link_url}
+                  </div>
+                )}
+                <div>
+                  <span className="text-muted-foreground">Audience: </span>
+                  {AUDIENCE_LABELS[viewNotification.audience]}
+                  {audienceDetail(viewNotification) && ` (${audienceDetail(viewNotification)})`}
+                </div>
+                {viewNotification.status === "sent" && (
+                  <div>
+                    <span className="text-muted-foreground">Read by: </span>
+                    {readCounts?.get(viewNotification.id) ?? 0} of {viewNotification.recipient_count} recipients
+                  </div>
+                )}
+                {viewNotification.error_message && (
+                  <p className="text-destructive">{viewNotification.error_message}</p>
+                )}
+              </div>
+            )}
+          </DialogContent>
+        </Dialog>
+
+        <AlertDialog open={!!deleteId} onOpenChange={() => setDeleteId(null)}>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Delete Notification</AlertDialogTitle>
+              <AlertDialogDescription>
+                Are you sure you want to delete this notification? It will also be removed from every recipient's inbox.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Cancel</AlertDialogCancel>
+              <AlertDialogAction onClick={() => deleteId && deleteMutation.mutate(deleteId)}>
+                Delete
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
       </div>
     </AdminLayout>
   );
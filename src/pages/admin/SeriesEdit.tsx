@@ -24,9 +24,14 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { EpisodeEditDialog } from "@/components/admin/EpisodeEditDialog";
 import { ImportEpisodeSourcesDialog } from "@/components/admin/ImportEpisodeSourcesDialog";
 import { VideoSourcesImportDialog } from "@/components/admin/VideoSourcesImportDialog";
+import { AdBreakManager } from "@/components/admin/AdBreakManager";
+import { AuditHistory } from "@/components/admin/AuditHistory";
+import { useAuth } from "@/hooks/useAuth";
+import { MATURITY_RATINGS } from "@/lib/viewerProfiles";
 
 const SeriesEdit = () => {
   const { id } = useParams();
+  const { isAdmin } = useAuth();
   const navigate = useNavigate();
   const queryClient = useQueryClient();
   const [expandedSeasons, setExpandedSeasons] = useState<Set<string>>(new Set());
@@ -102,6 +107,7 @@ const SeriesEdit = () => {
         rental_period_days: series.rental_period_days || 7,
         rental_max_devices: series.rental_max_devices || 1,
         exclude_from_plan: series.exclude_from_plan || false,
+        maturity_rating: series.maturity_rating ?? null,
       });
     }
   }, [isEditingInfo, series, editedSeries]);
@@ -424,6 +430,28 @@ const SeriesEdit = () => {
                         </SelectContent>
                       </Select>
                     </div>
+
+                    <div className="space-y-2">
+                      <Label htmlFor="maturity_rating">Maturity Rating</Label>
+                      <Select
+                        value={editedSeries.maturity_rating ?? "unrated"}
+                        onValueChange={(value) =>
+                          setEditedSeries({ ...editedSeries, maturity_rating: value === "unrated" ? null : value })
+                        }
+                      >
+                        <SelectTrigger id="maturity_rating">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="unrated">Unrated (treated as Teens)</SelectItem>
+                          {MATURITY_RATINGS.map((rating) => (
+                            <SelectItem key={rating.value} value={rating.value}>
+                              {rating.label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
                   </div>
 
                   {editedSeries.access === "rent" && (
@@ -640,6 +668,28 @@ const SeriesEdit = () => {
           </Card>
         )}
 
+        {id && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Ad Breaks</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <AdBreakManager mediaId={id} mediaType="series" />
+            </CardContent>
+          </Card>
+        )}
+
+        {id && isAdmin && (
+          <Card>
+            <CardHeader>
+              <CardTitle>History</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <AuditHistory tableName="series" recordId={id} />
+            </CardContent>
+          </Card>
+        )}
+
         <Card>
           <CardHeader>
             <CardTitle>Seasons & Episodes</CardTitle>
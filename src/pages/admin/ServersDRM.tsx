@@ -1,11 +1,515 @@
+import { useState } from "react";
+import { formatDistanceToNow } from "date-fns";
 import { AdminLayout } from "@/components/admin/AdminLayout";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Activity, KeyRound, Loader2, Pencil, Plus, Search, Server, ShieldCheck, Trash2 } from "lucide-react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
+import { toast } from "sonner";
+import { StreamingServerDialog } from "@/components/admin/StreamingServerDialog";
+import { DrmProfileDialog } from "@/components/admin/DrmProfileDialog";
+import { TableSkeleton } from "@/components/admin/TableSkeleton";
+import { getKeySystemLabel } from "@/lib/drm";
+import { useDebouncedValue } from "@/hooks/useCatalogSearch";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+
+type DrmProfile = Tables<"drm_profiles"> & { video_sources: { count: number }[] };
+
+const HEALTH_COLORS: Record<string, string> = {
+  healthy: "bg-green-500/10 text-green-500 border-green-500/20",
+  degraded: "bg-yellow-500/10 text-yellow-500 border-yellow-500/20",
+  down: "bg-red-500/10 text-red-500 border-red-500/20",
+  unknown: "bg-muted text-muted-foreground border-border",
+};
+
+const SOURCE_PAGE_SIZE = 100;
 
 export default function ServersDRM() {
+  const [serverDialogOpen, setServerDialogOpen] = useState(false);
+  const [selectedServer, setSelectedServer] = useState<Tables<"streaming_servers"> | null>(null);
+  const [drmDialogOpen, setDrmDialogOpen] = useState(false);
+  const [selectedProfile, setSelectedProfile] = useState<Tables<"drm_profiles"> | null>(null);
+  const [deleteTarget, setDeleteTarget] = useState<{ table: "streaming_servers" | "drm_profiles"; id: string } | null>(null);
+  const [sourceSearch, setSourceSearch] = useState("");
+  const [checkingId, setCheckingId] = useState<string | null>(null);
+  const queryClient = useQueryClient();
+  // Commas and parentheses would break the PostgREST or() filter
+  const sourceTerm = useDebouncedValue(sourceSearch.replace(/[,()%]/g, " ").trim(), 300);
+
+  const { data: servers, isLoading: serversLoading } = useQuery({
+    queryKey: ["streaming-servers"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("streaming_servers")
+        .select("*")
+        .order("priority")
+        .order("name");
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const { data: profiles, isLoading: profilesLoading } = useQuery({
+    queryKey: ["drm-profiles"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("drm_profiles")
+        .select("*, video_sources(count)")
+        .order("name");
+      if (error) throw error;
+      return data as DrmProfile[];
+    },
+  });
+
+  // DRM applies to segmented streams only; MP4 and embeds play outside Shaka's EME pipeline
+  const { data: streamSources, isLoading: sourcesLoading } = useQuery({
+    queryKey: ["drm-stream-sources", sourceTerm],
+    queryFn: async () => {
+      let query = supabase
+        .from("video_sources")
+        .select("id, server_name, source_type, url, media_id, episode_id, drm_profile_id")
+        .in("source_type", ["hls", "dash", "m3u8"])
+        .order("created_at", { ascending: false })
+        .limit(SOURCE_PAGE_SIZE);
+      if (sourceTerm) {
+        query = query.or(`server_name.ilike.%${sourceTerm}%,url.ilike.%${sourceTerm}%`);
+      }
+      const { data, error } = await query;
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const healthCheck = useMutation({
+    mutationFn: async (serverId?: string) => {
+      setCheckingId(serverId ?? "all");
+      const { data, error } = await supabase.functions.invoke("check-streaming-servers", {
+        body: serverId ? { serverId } : {},
+      });
+      if (error) throw error;
+      return data.results as { name: string; status: string }[];
+    },
+    onSuccess: (results) => {
+      queryClient.invalidateQueries({ queryKey: ["streaming-servers"] });
+      const down = results.filter((r) => r.status === "down").length;
+      if (down > 0) {
+        toast.error(`${down} of ${results.length} servers are down`);
+      } else {
+        toast.success(`Checked ${results.length} ${results.length === 1 ? "server" : "servers"}`);
+      }
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || "Health check failed");
+    },
+    onSettled: () => setCheckingId(null),
+  });
+
+  const assignProfile = useMutation({
+    mutationFn: async ({ sourceId, profileId }: { sourceId: string; profileId: string | null }) => {
+      const { error } = await supabase
+        .from("video_sources")
+        .update({ drm_profile_id: profileId })
+        .eq("id", sourceId);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["drm-stream-sources"] });
+      queryClient.invalidateQueries({ queryKey: ["drm-profiles"] });
+      toast.success("DRM profile updated for source");
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || "Failed to update source");
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async ({ table, id }: { table: "streaming_servers" | "drm_profiles"; id: string }) => {
+      const { error } = await supabase.from(table).delete().eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: (_, { table }) => {
+      queryClient.invalidateQueries({ queryKey: [table === "streaming_servers" ? "streaming-servers" : "drm-profiles"] });
+      queryClient.invalidateQueries({ queryKey: ["drm-stream-sources"] });
+      toast.success(table === "streaming_servers" ? "Server deleted" : "DRM profile deleted");
+      setDeleteTarget(null);
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || "Failed to delete");
+    },
+  });
+
+  const openServerDialog = (server: Tables<"streaming_servers"> | null) => {
+    setSelectedServer(server);
+    setServerDialogOpen(true);
+  };
+
+  const openDrmDialog = (profile: Tables<"drm_profiles"> | null) => {
+    setSelectedProfile(profile);
+    setDrmDialogOpen(true);
+  };
+
   return (
     <AdminLayout>
-      <div className="p-8">
-        <h1 className="text-3xl font-bold mb-6">Servers & DRM</h1>
-        <p className="text-muted-foreground">Manage streaming servers and DRM settings.</p>
+      <div className="p-8 space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold">Servers & DRM</h1>
+          <p className="text-muted-foreground">Manage streaming servers and DRM settings.</p>
+        </div>
+
+        <Tabs defaultValue="servers">
+          <TabsList>
+            <TabsTrigger value="servers">
+              <Server className="h-4 w-4 mr-2" />
+              Servers
+            </TabsTrigger>
+            <TabsTrigger value="drm">
+              <KeyRound className="h-4 w-4 mr-2" />
+              DRM Profiles
+            </TabsTrigger>
+            <TabsTrigger value="sources">
+              <ShieldCheck className="h-4 w-4 mr-2" />
+              Protected Sources
+            </TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="servers" className="space-y-4">
+            <div className="flex justify-between items-center">
+              <p className="text-sm text-muted-foreground">
+                Origins and CDNs in failover order. Lower priority numbers are tried first.
+              </p>
+              <div className="flex gap-2">
+                <Button
+                  variant="outline"
+                  onClick={() => healthCheck.mutate(undefined)}
+                  disabled={healthCheck.isPending || !servers?.length}
+                >
+                  {checkingId === "all" ? (
+                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  ) : (
+                    <Activity className="h-4 w-4 mr-2" />
+                  )}
+                  Check All
+                </Button>
+                <Button onClick={() => openServerDialog(null)}>
+                  <Plus className="h-4 w-4 mr-2" />
+                  Add Server
+                </Button>
+              </div>
+            </div>
+
+            {serversLoading ? (
+              <TableSkeleton columns={6} showCheckbox={false} showImage={false} />
+            ) : (
+              <div className="border rounded-lg">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Priority</TableHead>
+                      <TableHead>Server</TableHead>
+                      <TableHead>Type</TableHead>
+                      <TableHead>Health</TableHead>
+                      <TableHead>Last Checked</TableHead>
+                      <TableHead className="text-right">Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {servers?.length === 0 ? (
+                      <TableRow>
+                        <TableCell colSpan={6} className="text-center py-8 text-muted-foreground">
+                          No streaming servers registered
+                        </TableCell>
+                      </TableRow>
+                    ) : (
+                      servers?.map((server) => (
+                        <TableRow key={server.id} className={server.is_active ? "" : "opacity-60"}>
+                          <TableCell className="font-mono">{server.priority}</TableCell>
+                          <TableCell>
+                            <div className="font-medium">{server.name}</div>
+                            <div className="text-xs text-muted-foreground truncate max-w-xs">{server.base_url}</div>
+                          </TableCell>
+                          <TableCell>
+                            <Badge variant="outline" className="uppercase">{server.server_type}</Badge>
+                            {!server.is_active && <Badge variant="secondary" className="ml-2">Inactive</Badge>}
+                          </TableCell>
+                          <TableCell>
+                            <Badge variant="outline" className={`capitalize ${HEALTH_COLORS[server.health_status] ?? HEALTH_COLORS.unknown}`}>
+                              {server.health_status}
+                            </Badge>
+                            {server.last_latency_ms !== null && (
+                              <span className="ml-2 text-xs text-muted-foreground">{server.last_latency_ms} ms</span>
+                            )}
+                            {server.last_error && (
+                              <div className="text-xs text-destructive mt-1 truncate max-w-xs">{server.last_error}</div>
+                            )}
+                          </TableCell>
+                          <TableCell className="text-sm text-muted-foreground">
+                            {server.last_checked_at
+                              ? formatDistanceToNow(new Date(server.last_checked_at), { addSuffix: true })
+                              : "Never"}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            <div className="flex justify-end gap-2">
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                title="Run health check"
+                                disabled={healthCheck.isPending}
+                                onClick={() => healthCheck.mutate(server.id)}
+                              >
+                                {checkingId === server.id ? (
+                                  <Loader2 className="h-4 w-4 animate-spin" />
+                                ) : (
+                                  <Activity className="h-4 w-4" />
+                                )}
+                              </Button>
+                              <Button variant="ghost" size="sm" onClick={() => openServerDialog(server)}>
+                                <Pencil className="h-4 w-4" />
+                              </Button>
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                className="text-destructive hover:text-destructive"
+                                onClick={() => setDeleteTarget({ table: "streaming_servers", id: server.id })}
+                              >
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            </div>
+                          </TableCell>
+                        </TableRow>
+                      ))
+                    )}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </TabsContent>
+
+          <TabsContent value="drm" className="space-y-4">
+            <div className="flex justify-between items-center">
+              <p className="text-sm text-muted-foreground">
+                License configuration handed to the player for DASH/HLS sources attached to a profile.
+              </p>
+              <Button onClick={() => openDrmDialog(null)}>
+                <Plus className="h-4 w-4 mr-2" />
+                Add DRM Profile
+              </Button>
+            </div>
+
+            {profilesLoading ? (
+              <TableSkeleton columns={6} showCheckbox={false} showImage={false} />
+            ) : (
+              <div className="border rounded-lg">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Name</TableHead>
+                      <TableHead>Key System</TableHead>
+                      <TableHead>License</TableHead>
+                      <TableHead>Sources</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead className="text-right">Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {profiles?.length === 0 ? (
+                      <TableRow>
+                        <TableCell colSpan={6} className="text-center py-8 text-muted-foreground">
+                          No DRM profiles yet
+                        </TableCell>
+                      </TableRow>
+                    ) : (
+                      profiles?.map((profile) => {
+                        const keyCount = Array.isArray(profile.clearkey_keys) ? profile.clearkey_keys.length : 0;
+                        const headerCount = Object.keys((profile.license_headers ?? {}) as Record<string, string>).length;
+                        return (
+                          <TableRow key={profile.id}>
+                            <TableCell className="font-medium">{profile.name}</TableCell>
+                            <TableCell>
+                              <Badge variant="outline">{getKeySystemLabel(profile.key_system)}</Badge>
+                            </TableCell>
+                            <TableCell className="text-sm">
+                              {profile.license_server_url ? (
+                                <div className="truncate max-w-xs">{profile.license_server_url}</div>
+                              ) : (
+                                <span className="text-muted-foreground">Inline keys</span>
+                              )}
+                              <div className="text-xs text-muted-foreground">
+                                {keyCount > 0 && `${keyCount} ${keyCount === 1 ? "key" : "keys"}`}
+                                {keyCount > 0 && headerCount > 0 && " · "}
+                                {headerCount > 0 && `${headerCount} ${headerCount === 1 ? "header" : "headers"}`}
+                              </div>
+                            </TableCell>
+                            <TableCell>{profile.video_sources?.[0]?.count ?? 0}</TableCell>
+                            <TableCell>
+                              <Badge variant={profile.is_active ? "default" : "secondary"}>
+                                {profile.is_active ? "Active" : "Inactive"}
+                              </Badge>
+                            </TableCell>
+                            <TableCell className="text-right">
+                              <div className="flex justify-end gap-2">
+                                <Button variant="ghost" size="sm" onClick={() => openDrmDialog(profile)}>
+                                  <Pencil className="h-4 w-4" />
+                                </Button>
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  className="text-destructive hover:text-destructive"
+                                  onClick={() => setDeleteTarget({ table: "drm_profiles", id: profile.id })}
+                                >
+                                  <Trash2 className="h-4 w-4" />
+                                </Button>
+                              </div>
+                            </TableCell>
+                          </TableRow>
+                        );
+                      })
+                    )}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </TabsContent>
+
+          <TabsContent value="sources" className="space-y-4">
+            <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+              <p className="text-sm text-muted-foreground">
+                Attach DASH/HLS sources to a DRM profile. Protected sources require sign-in to play.
+              </p>
+              <div className="relative w-full sm:w-72">
+                <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                <Input
+                  placeholder="Search server or URL..."
+                  value={sourceSearch}
+                  onChange={(e) => setSourceSearch(e.target.value)}
+                  className="pl-10"
+                />
+              </div>
+            </div>
+
+            {sourcesLoading ? (
+              <TableSkeleton columns={4} showCheckbox={false} showImage={false} />
+            ) : (
+              <div className="border rounded-lg">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Server</TableHead>
+                      <TableHead>Type</TableHead>
+                      <TableHead>URL</TableHead>
+                      <TableHead className="w-[240px]">DRM Profile</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {streamSources?.length === 0 ? (
+                      <TableRow>
+                        <TableCell colSpan={4} className="text-center py-8 text-muted-foreground">
+                          No DASH or HLS sources found
+                        </TableCell>
+                      </TableRow>
+                    ) : (
+                      streamSources?.map((source) => (
+                        <TableRow key={source.id}>
+                          <TableCell>
+                            <div className="font-medium">{source.server_name}</div>
+                            <div className="text-xs text-muted-foreground">
+                              {source.episode_id ? "Episode source" : "Title source"}
+                            </div>
+                          </TableCell>
+                          <TableCell>
+                            <Badge variant="outline" className="uppercase">{source.source_type}</Badge>
+                          </TableCell>
+                          <TableCell className="text-xs text-muted-foreground">
+                            <div className="truncate max-w-md">{source.url || "-"}</div>
+                          </TableCell>
+                          <TableCell>
+                            <Select
+                              value={source.drm_profile_id ?? "none"}
+                              onValueChange={(value) =>
+                                assignProfile.mutate({ sourceId: source.id, profileId: value === "none" ? null : value })
+                              }
+                            >
+                              <SelectTrigger className="h-8">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value="none">No DRM</SelectItem>
+                                {profiles?.map((profile) => (
+                                  <SelectItem key={profile.id} value={profile.id}>
+                                    {profile.name} ({getKeySystemLabel(profile.key_system)})
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          </TableCell>
+                        </TableRow>
+                      ))
+                    )}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+            {streamSources?.length === SOURCE_PAGE_SIZE && (
+              <p className="text-xs text-muted-foreground">
+                Showing the {SOURCE_PAGE_SIZE} most recent sources. Search to narrow down.
+              </p>
+            )}
+          </TabsContent>
+        </Tabs>
+
+        <StreamingServerDialog
+          open={serverDialogOpen}
+          onOpenChange={setServerDialogOpen}
+          server={selectedServer}
+        />
+
+        <DrmProfileDialog
+          open={drmDialogOpen}
+          onOpenChange={setDrmDialogOpen}
+          profile={selectedProfile}
+        />
+
+        <AlertDialog open={!!deleteTarget} onOpenChange={() => setDeleteTarget(null)}>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>
+                {deleteTarget?.table === "drm_profiles" ? "Delete DRM Profile" : "Delete Server"}
+              </AlertDialogTitle>
+              <AlertDialogDescription>
+                {deleteTarget?.table === "drm_profiles"
+                  ? "Sources using this profile will be detached and play without DRM configuration."
+                  : "Are you sure you want to remove this server?"}
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Cancel</AlertDialogCancel>
+              <AlertDialogAction onClick={() => deleteTarget && deleteMutation.mutate(deleteTarget)}>
+                Delete
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
       </div>
     </AdminLayout>
   );
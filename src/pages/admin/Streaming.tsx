@@ -2,12 +2,15 @@ import { useState } from "react";
 import { AdminLayout } from "@/components/admin/AdminLayout";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
-import { Plus, Search, Pencil, Trash2 } from "lucide-react";
+import { Plus, Search, Pencil, Trash2, CalendarClock, Upload } from "lucide-react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
 import { toast } from "sonner";
 import { Badge } from "@/components/ui/badge";
 import { StreamingDialog } from "@/components/admin/StreamingDialog";
+import { EpgImportDialog } from "@/components/admin/EpgImportDialog";
+import { ChannelScheduleDialog } from "@/components/admin/ChannelScheduleDialog";
+import type { LiveChannel } from "@/hooks/useLiveChannels";
 import {
   AlertDialog,
   AlertDialogAction,
@@ -33,6 +36,8 @@ export default function Streaming() {
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [selectedChannel, setSelectedChannel] = useState<any>(null);
   const [deleteId, setDeleteId] = useState<string | null>(null);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [scheduleChannel, setScheduleChannel] = useState<LiveChannel | null>(null);
   const queryClient = useQueryClient();
 
   const { data: channels, isLoading } = useQuery({
@@ -72,12 +77,18 @@ export default function Streaming() {
         <div className="flex justify-between items-center">
           <div>
             <h1 className="text-3xl font-bold">Live Streaming</h1>
-            <p className="text-muted-foreground">Manage live streaming channels</p>
+            <p className="text-muted-foreground">Manage live streaming channels and their program guide</p>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => setIsImportOpen(true)}>
+              <Upload className="w-4 h-4 mr-2" />
+              Import EPG
+            </Button>
+            <Button onClick={() => { setSelectedChannel(null); setIsDialogOpen(true); }}>
+              <Plus className="w-4 h-4 mr-2" />
+              Add Channel
+            </Button>
           </div>
-          <Button onClick={() => { setSelectedChannel(null); setIsDialogOpen(true); }}>
-            <Plus className="w-4 h-4 mr-2" />
-            Add Channel
-          </Button>
         </div>
 
         <div className="relative">
@@ -124,6 +135,14 @@ export default function Streaming() {
                       </Badge>
                     </TableCell>
                     <TableCell className="text-right">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        title="Schedule"
+                        onClick={() => setScheduleChannel(channel)}
+                      >
+                        <CalendarClock className="w-4 h-4" />
+                      </Button>
                       <Button
                         variant="ghost"
                         size="sm"
@@ -152,6 +171,18 @@ export default function Streaming() {
           channel={selectedChannel}
         />
 
+        <EpgImportDialog
+          open={isImportOpen}
+          onOpenChange={setIsImportOpen}
+          channels={channels || []}
+        />
+
+        <ChannelScheduleDialog
+          open={!!scheduleChannel}
+          onOpenChange={(open) => !open && setScheduleChannel(null)}
+          channel={scheduleChannel}
+        />
+
         <AlertDialog open={!!deleteId} onOpenChange={() => setDeleteId(null)}>
           <AlertDialogContent>
             <AlertDialogHeader>
@@ -7,6 +7,7 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { SubscriptionPlansTable } from "@/components/admin/SubscriptionPlansTable";
 import { CouponsTable } from "@/components/admin/CouponsTable";
 import { UserSubscriptionsTable } from "@/components/admin/UserSubscriptionsTable";
+import { WalletReconciliationTable } from "@/components/admin/WalletReconciliationTable";
 import { SubscriptionPlanDialog } from "@/components/admin/SubscriptionPlanDialog";
 import { CouponDialog } from "@/components/admin/CouponDialog";
 
@@ -29,6 +30,7 @@ export default function Subscriptions() {
             <TabsTrigger value="plans">Subscription Plans</TabsTrigger>
             <TabsTrigger value="coupons">Coupons</TabsTrigger>
             <TabsTrigger value="subscriptions">User Subscriptions</TabsTrigger>
+            <TabsTrigger value="wallets">Wallet Reconciliation</TabsTrigger>
           </TabsList>
 
           <TabsContent value="plans" className="space-y-4">
@@ -78,6 +80,18 @@ export default function Subscriptions() {
               </CardContent>
             </Card>
           </TabsContent>
+
+          <TabsContent value="wallets">
+            <Card>
+              <CardHeader>
+                <CardTitle>Wallet Reconciliation</CardTitle>
+                <CardDescription>Wallets whose balance does not equal the sum of their ledger entries</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <WalletReconciliationTable />
+              </CardContent>
+            </Card>
+          </TabsContent>
         </Tabs>
 
         <SubscriptionPlanDialog
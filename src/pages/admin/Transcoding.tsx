@@ -0,0 +1,55 @@
+import { useState } from "react";
+import { AdminLayout } from "@/components/admin/AdminLayout";
+import { TranscodeJobList } from "@/components/admin/TranscodeJobs";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { TranscodeStatus } from "@/hooks/useTranscodeJobs";
+
+const ALL = "all";
+
+const STATUS_OPTIONS: { value: TranscodeStatus; label: string }[] = [
+  { value: "queued", label: "Queued" },
+  { value: "running", label: "Running" },
+  { value: "completed", label: "Completed" },
+  { value: "failed", label: "Failed" },
+  { value: "cancelled", label: "Cancelled" },
+];
+
+export default function Transcoding() {
+  const [status, setStatus] = useState<string>(ALL);
+
+  return (
+    <AdminLayout>
+      <div className="p-8 space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold">Transcoding</h1>
+          <p className="text-muted-foreground">
+            HLS jobs started from movie and episode editors, processed by <code>npm run transcode:worker</code>
+          </p>
+        </div>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0">
+            <CardTitle>Jobs</CardTitle>
+            <Select value={status} onValueChange={setStatus}>
+              <SelectTrigger className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All statuses</SelectItem>
+                {STATUS_OPTIONS.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </CardHeader>
+          <CardContent>
+            <TranscodeJobList status={status === ALL ? undefined : (status as TranscodeStatus)} />
+          </CardContent>
+        </Card>
+      </div>
+    </AdminLayout>
+  );
+}
@@ -31,8 +31,17 @@ interface UpcomingRelease {
   status: string;
   tmdb_id: string;
   imdb_id: string;
+  anilist_id: string;
+  linked_media_type: string | null;
+  linked_media_id: string | null;
 }
 
+const CONTENT_TABLES = {
+  movie: "movies",
+  series: "series",
+  anime: "animes",
+} as const;
+
 export default function UpcomingEdit() {
   const navigate = useNavigate();
   const { id } = useParams();
@@ -51,6 +60,9 @@ export default function UpcomingEdit() {
     status: "announced",
     tmdb_id: "",
     imdb_id: "",
+    anilist_id: "",
+    linked_media_type: null,
+    linked_media_id: null,
   });
 
   const [searchQuery, setSearchQuery] = useState("");
@@ -72,6 +84,18 @@ export default function UpcomingEdit() {
     enabled: !!id,
   });
 
+  // Titles the release can become; published ones flip it to Released straight away
+  const { data: linkableContent = [] } = useQuery({
+    queryKey: ["upcoming-linkable-content", formData.type],
+    enabled: formData.type in CONTENT_TABLES,
+    queryFn: async () => {
+      const table = CONTENT_TABLES[formData.type as keyof typeof CONTENT_TABLES];
+      const { data, error } = await supabase.from(table).select("id, title, status").order("title");
+      if (error) throw error;
+      return data;
+    },
+  });
+
   useEffect(() => {
     if (release) {
       setFormData({
@@ -147,9 +171,14 @@ export default function UpcomingEdit() {
 
   const saveMutation = useMutation({
     mutationFn: async () => {
+      // A link to another kind of title is dropped; the database then matches on the IDs again
+      const keepLink = formData.linked_media_type === formData.type;
       const dataToSave = {
         ...formData,
         release_date: formData.release_date?.toISOString().split('T')[0] || null,
+        anilist_id: formData.anilist_id || null,
+        linked_media_type: keepLink ? formData.linked_media_type : null,
+        linked_media_id: keepLink ? formData.linked_media_id : null,
       };
 
       const { error } = await supabase
@@ -161,6 +190,7 @@ export default function UpcomingEdit() {
     onSuccess: () => {
       toast.success("Release updated successfully!");
       queryClient.invalidateQueries({ queryKey: ["upcoming_releases"] });
+      queryClient.invalidateQueries({ queryKey: ["upcoming_release", id] });
       navigate("/admin/upcoming");
     },
     onError: (error: Error) => {
@@ -168,6 +198,8 @@ export default function UpcomingEdit() {
     },
   });
 
+  const linkedId = formData.linked_media_type === formData.type ? formData.linked_media_id : null;
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (!formData.title || !formData.type) {
@@ -397,6 +429,54 @@ export default function UpcomingEdit() {
                     placeholder="tt1234567"
                   />
                 </div>
+
+                {formData.type === "anime" && (
+                  <div className="space-y-2">
+                    <Label htmlFor="anilist_id">AniList ID</Label>
+                    <Input
+                      id="anilist_id"
+                      value={formData.anilist_id || ""}
+                      onChange={(e) => setFormData({ ...formData, anilist_id: e.target.value })}
+                      placeholder="154587"
+                    />
+                  </div>
+                )}
+              </div>
+
+              <div className="space-y-2">
+                <Label>Linked Content</Label>
+                <Select
+                  value={linkedId ?? "auto"}
+                  onValueChange={(value) =>
+                    setFormData({
+                      ...formData,
+                      linked_media_type: value === "auto" ? null : formData.type,
+                      linked_media_id: value === "auto" ? null : value,
+                    })
+                  }
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="auto">
+                      Match automatically by {formData.type === "anime" ? "TMDB or AniList ID" : "TMDB ID"}
+                    </SelectItem>
+                    {linkableContent.map((item) => (
+                      <SelectItem key={item.id} value={item.id}>
+                        {item.title}
+                        {item.status !== "published" && <span className="text-muted-foreground"> ({item.status})</span>}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground">
+                  {release?.linked_media_id && release.linked_media_type === formData.type
+                    ? release.status === "released"
+                      ? `Released${release.released_at ? ` on ${format(new Date(release.released_at), "PPP")}` : ""}; people who reserved it have been notified.`
+                      : "Linked. The release goes live and reservations are notified when this title is published."
+                    : "Once matched or picked, the release goes live and reservations are notified when the title is published."}
+                </p>
               </div>
 
               <div className="flex gap-3 justify-end pt-4">
@@ -12,9 +12,12 @@ import { useState, useEffect } from "react";
 import { format } from "date-fns";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
+import { AuditHistory } from "@/components/admin/AuditHistory";
+import { useAuth } from "@/hooks/useAuth";
 
 export default function UserEdit() {
   const { id } = useParams();
+  const { isAdmin } = useAuth();
   const navigate = useNavigate();
   const queryClient = useQueryClient();
 
@@ -33,13 +36,14 @@ export default function UserEdit() {
       
       if (profileError) throw profileError;
 
-      const { data: role, error: roleError } = await supabase
+      const { data: adminRole } = await supabase
         .from("user_roles")
         .select("role")
         .eq("user_id", id)
-        .single();
+        .eq("role", "admin")
+        .maybeSingle();
       
-      return { ...profile, role: role?.role || "user" };
+      return { ...profile, role: adminRole ? "admin" : "user" };
     },
   });
 
@@ -82,16 +86,16 @@ export default function UserEdit() {
 
   const updateRoleMutation = useMutation({
     mutationFn: async (newRole: string) => {
-      // Delete existing role
-      await supabase
-        .from("user_roles")
-        .delete()
-        .eq("user_id", id);
-
-      // Insert new role
-      const { error } = await supabase
-        .from("user_roles")
-        .insert([{ user_id: id, role: newRole as "admin" | "user" }]);
+      // Only the admin row changes, so any staff roles the user holds are kept
+      const { error } = newRole === "admin"
+        ? await supabase
+            .from("user_roles")
+            .upsert({ user_id: id, role: "admin" }, { onConflict: "user_id,role", ignoreDuplicates: true })
+        : await supabase
+            .from("user_roles")
+            .delete()
+            .eq("user_id", id)
+            .eq("role", "admin");
       
       if (error) throw error;
     },
@@ -100,7 +104,7 @@ export default function UserEdit() {
       toast.success("User role updated");
     },
     onError: (error: any) => {
-      toast.error(error.message || "Failed to update role");
+      toast.error(error.message?.includes("LAST_ADMIN") ? "The last admin cannot be removed" : error.message || "Failed to update role");
     },
   });
 
@@ -237,6 +241,18 @@ export default function UserEdit() {
               )}
             </CardContent>
           </Card>
+
+          {isAdmin && id && (
+            <Card className="lg:col-span-3">
+              <CardHeader>
+                <CardTitle>History</CardTitle>
+                <CardDescription>Changes to this user's roles, subscriptions, rentals and wallet</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <AuditHistory userId={id} />
+              </CardContent>
+            </Card>
+          )}
         </div>
       </div>
     </AdminLayout>
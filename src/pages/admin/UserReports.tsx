@@ -47,7 +47,7 @@ interface Report {
 }
 
 const UserReports = () => {
-  const { user } = useAuth();
+  const { user, hasPermission } = useAuth();
   const navigate = useNavigate();
   const { toast } = useToast();
   const [reports, setReports] = useState<Report[]>([]);
@@ -67,13 +67,7 @@ const UserReports = () => {
       return;
     }
 
-    const { data: roles } = await supabase
-      .from('user_roles')
-      .select('role')
-      .eq('user_id', user.id)
-      .single();
-
-    if (!roles || roles.role !== 'admin') {
+    if (!hasPermission('comments.moderate')) {
       navigate('/');
       return;
     }
@@ -0,0 +1,106 @@
+import { buildKhqr, KhqrMerchant } from './khqr.ts';
+import type { Charge, ChargeStatusResult, CreateChargeInput, PaymentProvider } from './types.ts';
+
+const DEFAULT_API_URL = 'https://api-bakong.nbc.gov.kh';
+
+// Bakong error codes returned by check_transaction_by_md5
+const ERROR_NOT_FOUND = 1;
+const ERROR_FAILED = 3;
+
+export const chargeTtlMinutes = () => parseInt(Deno.env.get('PAYMENT_QR_TTL_MINUTES') ?? '15', 10);
+
+export const merchantFromEnv = (): KhqrMerchant => ({
+  bakongAccountId: Deno.env.get('BAKONG_ACCOUNT_ID') ?? '',
+  merchantName: Deno.env.get('BAKONG_MERCHANT_NAME') ?? 'KHMERZOON',
+  merchantCity: Deno.env.get('BAKONG_MERCHANT_CITY') ?? 'Phnom Penh',
+  acquiringBank: Deno.env.get('BAKONG_ACQUIRING_BANK') ?? undefined,
+  mobileNumber: Deno.env.get('BAKONG_MOBILE_NUMBER') ?? undefined,
+  storeLabel: Deno.env.get('BAKONG_STORE_LABEL') ?? undefined,
+});
+
+export const createKhqrCharge = async (
+  provider: string,
+  merchant: KhqrMerchant,
+  input: CreateChargeInput
+): Promise<Charge> => {
+  const createdAt = new Date();
+  const expiresAt = new Date(createdAt.getTime() + chargeTtlMinutes() * 60 * 1000);
+
+  const { qrString, md5 } = await buildKhqr(merchant, {
+    amount: input.amount,
+    currency: input.currency,
+    // Bill number is limited to 25 characters by the spec
+    billNumber: input.transactionId.slice(0, 25),
+    createdAt,
+    expiresAt,
+  });
+
+  return {
+    provider,
+    qr_string: qrString,
+    md5,
+    amount: input.amount,
+    currency: input.currency,
+    merchant_name: merchant.merchantName,
+    created_at: createdAt.toISOString(),
+    expires_at: expiresAt.toISOString(),
+  };
+};
+
+export class BakongProvider implements PaymentProvider {
+  name = 'bakong';
+
+  private apiUrl = Deno.env.get('BAKONG_API_URL') ?? DEFAULT_API_URL;
+  private apiToken = Deno.env.get('BAKONG_API_TOKEN') ?? '';
+
+  async createCharge(input: CreateChargeInput): Promise<Charge> {
+    const merchant = merchantFromEnv();
+    if (!merchant.bakongAccountId) {
+      throw new Error('BAKONG_ACCOUNT_ID is not configured');
+    }
+    return createKhqrCharge(this.name, merchant, input);
+  }
+
+  async checkStatus(charge: Charge): Promise<ChargeStatusResult> {
+    const response = await fetch(`${this.apiUrl}/v1/check_transaction_by_md5`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${this.apiToken}`,
+      },
+      body: JSON.stringify({ md5: charge.md5 }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Bakong status check failed: ${response.status}`);
+    }
+
+    const result = await response.json();
+
+    if (result.responseCode === 0 && result.data) {
+      const paidAmount = Number(result.data.amount);
+      if (paidAmount < charge.amount || result.data.currency !== charge.currency) {
+        console.error('Bakong amount mismatch:', { expected: charge.amount, received: result.data });
+        return { status: 'failed', raw: result };
+      }
+      return {
+        status: 'completed',
+        externalRef: result.data.externalRef ?? result.data.hash,
+        paidAt: result.data.acknowledgedDateMs
+          ? new Date(result.data.acknowledgedDateMs).toISOString()
+          : new Date().toISOString(),
+        raw: result.data,
+      };
+    }
+
+    if (result.errorCode === ERROR_FAILED) {
+      return { status: 'failed', raw: result };
+    }
+
+    if (result.errorCode === ERROR_NOT_FOUND && new Date(charge.expires_at) < new Date()) {
+      return { status: 'expired', raw: result };
+    }
+
+    return { status: 'pending', raw: result };
+  }
+}
@@ -0,0 +1,131 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { chargeTtlMinutes } from './bakong.ts';
+
+export type CouponPurpose = 'subscription' | 'rental' | 'topup';
+
+export interface CouponQuote {
+  couponId: string;
+  code: string;
+  discountAmount: number;
+  finalAmount: number;
+}
+
+export interface CouponReservation extends CouponQuote {
+  redemptionId: string;
+}
+
+interface CouponCheck {
+  code: string;
+  userId: string;
+  purpose: CouponPurpose;
+  targetId?: string | null;
+  amount: number;
+}
+
+// validate_coupon / redeem_coupon raise these codes as the exception message
+const COUPON_ERROR_MESSAGES: Record<string, string> = {
+  COUPON_NOT_FOUND: 'This promo code is not valid',
+  COUPON_EXPIRED: 'This promo code has expired',
+  COUPON_NOT_APPLICABLE: 'This promo code cannot be used for this purchase',
+  COUPON_EXHAUSTED: 'This promo code has reached its usage limit',
+  COUPON_USER_LIMIT: 'You have already used this promo code',
+};
+
+export class CouponError extends Error {
+  code: string;
+
+  constructor(code: string) {
+    super(COUPON_ERROR_MESSAGES[code] ?? 'This promo code is not valid');
+    this.name = 'CouponError';
+    this.code = code;
+  }
+}
+
+const toCouponError = (error: { message?: string }) => {
+  const code = Object.keys(COUPON_ERROR_MESSAGES).find((key) => error.message?.includes(key));
+  return code ? new CouponError(code) : error;
+};
+
+// Preview only - nothing is reserved
+export const validateCoupon = async (admin: SupabaseClient, check: CouponCheck): Promise<CouponQuote> => {
+  const { data, error } = await admin.rpc('validate_coupon', {
+    _code: check.code,
+    _user_id: check.userId,
+    _purpose: check.purpose,
+    _target_id: check.targetId ?? null,
+    _amount: check.amount,
+  });
+
+  if (error) throw toCouponError(error);
+
+  const row = data[0];
+  return {
+    couponId: row.coupon_id,
+    code: row.code,
+    discountAmount: Number(row.discount_amount),
+    finalAmount: Number(row.final_amount),
+  };
+};
+
+// Reserve one use of the coupon until holdUntil. The reservation is turned into a redemption
+// when the payment settles, or released when it fails or expires.
+export const reserveCoupon = async (
+  admin: SupabaseClient,
+  check: CouponCheck & { holdUntil: string }
+): Promise<CouponReservation> => {
+  const { data, error } = await admin.rpc('redeem_coupon', {
+    _code: check.code,
+    _user_id: check.userId,
+    _purpose: check.purpose,
+    _target_id: check.targetId ?? null,
+    _amount: check.amount,
+    _hold_until: check.holdUntil,
+  });
+
+  if (error) throw toCouponError(error);
+
+  const row = data[0];
+  return {
+    redemptionId: row.redemption_id,
+    couponId: row.coupon_id,
+    code: row.code,
+    discountAmount: Number(row.discount_amount),
+    finalAmount: Number(row.final_amount),
+  };
+};
+
+export const attachReservation = async (
+  admin: SupabaseClient,
+  reservation: CouponReservation,
+  paymentTransactionId: string,
+  expiresAt: string
+) => {
+  const { error } = await admin
+    .from('coupon_redemptions')
+    .update({ payment_transaction_id: paymentTransactionId, expires_at: expiresAt })
+    .eq('id', reservation.redemptionId);
+
+  if (error) throw error;
+};
+
+// Reservations are held for as long as a QR code stays payable
+export const couponHoldUntil = () => new Date(Date.now() + chargeTtlMinutes() * 60_000).toISOString();
+
+// Give the use back when checkout fails before a payment transaction exists
+export const cancelReservation = async (admin: SupabaseClient, reservation: CouponReservation) => {
+  await admin
+    .from('coupon_redemptions')
+    .update({ status: 'released' })
+    .eq('id', reservation.redemptionId)
+    .eq('status', 'reserved');
+};
+
+export const couponMetadata = (reservation: CouponReservation | null, originalAmount: number) =>
+  reservation
+    ? {
+        coupon_code: reservation.code,
+        coupon_redemption_id: reservation.redemptionId,
+        original_amount: originalAmount,
+        discount_amount: reservation.discountAmount,
+      }
+    : {};
@@ -0,0 +1,20 @@
+import { BakongProvider } from './bakong.ts';
+import { MockProvider } from './mock.ts';
+import type { PaymentProvider } from './types.ts';
+
+export type { Charge, ChargeStatus, ChargeStatusResult, PaymentProvider } from './types.ts';
+
+// PAYMENT_PROVIDER=mock switches every payment function to the offline provider.
+// Always chosen from server config; transactions are only settled by the configured provider.
+export const getPaymentProvider = (): PaymentProvider => {
+  const selected = Deno.env.get('PAYMENT_PROVIDER') ?? 'bakong';
+
+  switch (selected) {
+    case 'mock':
+      return new MockProvider();
+    case 'bakong':
+      return new BakongProvider();
+    default:
+      throw new Error(`Unknown payment provider: ${selected}`);
+  }
+};
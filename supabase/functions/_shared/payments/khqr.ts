@@ -0,0 +1,101 @@
+import { crypto } from "https://deno.land/std@0.168.0/crypto/mod.ts";
+
+// EMVCo / KHQR payload builder.
+// Spec reference: Bakong KHQR Content Guideline (EMV QRCPS Merchant-Presented Mode).
+
+export type KhqrCurrency = 'USD' | 'KHR';
+
+export interface KhqrMerchant {
+  bakongAccountId: string; // e.g. merchant@bank
+  merchantName: string;
+  merchantCity: string;
+  acquiringBank?: string;
+  mobileNumber?: string;
+  storeLabel?: string;
+  terminalLabel?: string;
+}
+
+export interface KhqrPayload {
+  amount: number;
+  currency: KhqrCurrency;
+  billNumber: string;
+  createdAt: Date;
+  expiresAt: Date;
+}
+
+const CURRENCY_CODES: Record<KhqrCurrency, string> = {
+  USD: '840',
+  KHR: '116',
+};
+
+// Tag-length-value field; length is the number of characters, zero padded to 2 digits
+const tlv = (tag: string, value: string) => {
+  if (value.length > 99) {
+    throw new Error(`KHQR field ${tag} exceeds 99 characters`);
+  }
+  return `${tag}${value.length.toString().padStart(2, '0')}${value}`;
+};
+
+const optional = (tag: string, value?: string) => (value ? tlv(tag, value) : '');
+
+// CRC-16/CCITT-FALSE (poly 0x1021, init 0xFFFF) as required by EMVCo tag 63
+export const crc16 = (input: string): string => {
+  const bytes = new TextEncoder().encode(input);
+  let crc = 0xffff;
+  for (const byte of bytes) {
+    crc ^= byte << 8;
+    for (let i = 0; i < 8; i++) {
+      crc = crc & 0x8000 ? (crc << 1) ^ 0x1021 : crc << 1;
+      crc &= 0xffff;
+    }
+  }
+  return crc.toString(16).toUpperCase().padStart(4, '0');
+};
+
+export const md5 = async (input: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('MD5', new TextEncoder().encode(input));
+  return Array.from(new Uint8Array(digest))
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('');
+};
+
+const formatAmount = (amount: number, currency: KhqrCurrency) =>
+  currency === 'KHR' ? Math.round(amount).toString() : amount.toFixed(2);
+
+export const buildKhqrString = (merchant: KhqrMerchant, payload: KhqrPayload): string => {
+  const accountInfo =
+    tlv('00', merchant.bakongAccountId) +
+    optional('02', merchant.acquiringBank);
+
+  const additionalData =
+    optional('01', payload.billNumber) +
+    optional('02', merchant.mobileNumber) +
+    optional('03', merchant.storeLabel) +
+    optional('07', merchant.terminalLabel);
+
+  const timestamps =
+    tlv('00', payload.createdAt.getTime().toString()) +
+    tlv('01', payload.expiresAt.getTime().toString());
+
+  const body =
+    tlv('00', '01') + // payload format indicator
+    tlv('01', '12') + // dynamic QR - amount is fixed
+    tlv('29', accountInfo) + // individual Bakong account
+    tlv('52', '5999') + // merchant category code
+    tlv('53', CURRENCY_CODES[payload.currency]) +
+    tlv('54', formatAmount(payload.amount, payload.currency)) +
+    tlv('58', 'KH') +
+    tlv('59', merchant.merchantName.slice(0, 25)) +
+    tlv('60', merchant.merchantCity.slice(0, 15)) +
+    (additionalData ? tlv('62', additionalData) : '') +
+    tlv('99', timestamps);
+
+  // The CRC covers everything up to and including its own tag and length
+  const withCrcHeader = `${body}6304`;
+  return `${withCrcHeader}${crc16(withCrcHeader)}`;
+};
+
+export const buildKhqr = async (merchant: KhqrMerchant, payload: KhqrPayload) => {
+  const qrString = buildKhqrString(merchant, payload);
+  return { qrString, md5: await md5(qrString) };
+};
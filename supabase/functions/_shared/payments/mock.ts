@@ -0,0 +1,38 @@
+import { createKhqrCharge } from './bakong.ts';
+import type { Charge, ChargeStatusResult, CreateChargeInput, PaymentProvider } from './types.ts';
+
+// Offline provider for local development and tests.
+// Generates real KHQR strings against a test account and confirms payments after a delay,
+// or never when MOCK_PAYMENT_AUTO_CONFIRM_SECONDS is 0 (settle through the webhook instead).
+export class MockProvider implements PaymentProvider {
+  name = 'mock';
+
+  private confirmAfterSeconds = parseInt(Deno.env.get('MOCK_PAYMENT_AUTO_CONFIRM_SECONDS') ?? '5', 10);
+
+  async createCharge(input: CreateChargeInput): Promise<Charge> {
+    return createKhqrCharge(this.name, {
+      bakongAccountId: 'mock_merchant@devb',
+      merchantName: 'KHMERZOON TEST',
+      merchantCity: 'Phnom Penh',
+    }, input);
+  }
+
+  async checkStatus(charge: Charge): Promise<ChargeStatusResult> {
+    const now = Date.now();
+
+    if (new Date(charge.expires_at).getTime() < now) {
+      return { status: 'expired' };
+    }
+
+    const confirmAt = new Date(charge.created_at).getTime() + this.confirmAfterSeconds * 1000;
+    if (this.confirmAfterSeconds > 0 && now >= confirmAt) {
+      return {
+        status: 'completed',
+        externalRef: `MOCK-${charge.md5.slice(0, 12)}`,
+        paidAt: new Date(confirmAt).toISOString(),
+      };
+    }
+
+    return { status: 'pending' };
+  }
+}
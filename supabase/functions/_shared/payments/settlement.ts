@@ -0,0 +1,290 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { getPaymentProvider } from './index.ts';
+import { topupBonus } from './topup.ts';
+import type { Charge, ChargeStatus, ChargeStatusResult } from './types.ts';
+
+export interface PaymentTransaction {
+  id: string;
+  user_id: string;
+  transaction_type: 'rental' | 'subscription' | 'topup';
+  amount: number;
+  currency: string;
+  payment_status: string;
+  transaction_id: string;
+  khqr_data: Charge | null;
+  reference_id: string | null;
+  reference_type: string | null;
+  metadata: Record<string, unknown> | null;
+}
+
+// Settlement can also end in 'refunded', which no provider reports
+export type SettlementStatus = ChargeStatus | 'refunded';
+
+const TERMINAL_STATUSES = ['completed', 'failed', 'refunded'];
+
+const CLAIMABLE_STATUSES = ['pending', 'expired'];
+
+// Grant whatever the payment was for. Only ever called by the caller that claimed the transaction.
+const fulfil = async (admin: SupabaseClient, transaction: PaymentTransaction, paidAt: Date) => {
+  switch (transaction.transaction_type) {
+    case 'rental': {
+      const periodDays = Number(transaction.metadata?.rental_period_days ?? 7);
+      const endDate = new Date(paidAt);
+      endDate.setDate(endDate.getDate() + periodDays);
+
+      const { error } = await admin
+        .from('user_rentals')
+        .update({
+          payment_status: 'completed',
+          start_date: paidAt.toISOString(),
+          end_date: endDate.toISOString(),
+        })
+        .eq('transaction_id', transaction.transaction_id)
+        .eq('user_id', transaction.user_id);
+
+      if (error) throw error;
+      break;
+    }
+    case 'subscription': {
+      const { data: plan, error: planError } = await admin
+        .from('subscription_plans')
+        .select('duration_days')
+        .eq('id', transaction.reference_id)
+        .single();
+
+      if (planError || !plan) throw planError ?? new Error('Plan not found');
+
+      const endDate = new Date(paidAt);
+      endDate.setDate(endDate.getDate() + plan.duration_days);
+
+      const { error } = await admin
+        .from('user_subscriptions')
+        .insert({
+          user_id: transaction.user_id,
+          plan_id: transaction.reference_id,
+          start_date: paidAt.toISOString(),
+          end_date: endDate.toISOString(),
+          is_active: true,
+          payment_status: 'completed',
+        });
+
+      if (error) throw error;
+      break;
+    }
+    case 'topup': {
+      // Credit what was charged, from the column only the server writes, never from metadata
+      const creditAmount = Number(transaction.amount);
+
+      // Keyed by the payment so a retried settlement can never credit twice
+      const { error } = await admin.rpc('wallet_credit', {
+        _user_id: transaction.user_id,
+        _amount: creditAmount,
+        _idempotency_key: `topup:${transaction.id}`,
+        _description: 'Wallet top-up via KHQR',
+        _payment_transaction_id: transaction.id,
+      });
+
+      if (error) throw error;
+
+      // A redeemed promo code adds a bonus, recomputed from the redemption and capped again here
+      const { data: redemption, error: redemptionError } = await admin
+        .from('coupon_redemptions')
+        .select('discount_amount')
+        .eq('payment_transaction_id', transaction.id)
+        .eq('status', 'redeemed')
+        .maybeSingle();
+
+      if (redemptionError) throw redemptionError;
+
+      const bonus = redemption ? topupBonus(Number(redemption.discount_amount)) : 0;
+      if (bonus > 0) {
+        const { error: bonusError } = await admin.rpc('wallet_post_entry', {
+          _user_id: transaction.user_id,
+          _amount: bonus,
+          _type: 'adjustment',
+          _idempotency_key: `topup-bonus:${transaction.id}`,
+          _description: 'Promo code bonus on wallet top-up',
+          _reference_type: 'topup',
+          _payment_transaction_id: transaction.id,
+        });
+
+        if (bonusError) throw bonusError;
+      }
+      break;
+    }
+  }
+};
+
+// Apply a provider result to a transaction. Safe to call any number of times from polling
+// and the webhook concurrently: the pending -> completed flip is a conditional update,
+// so exactly one caller wins and fulfils the purchase.
+export const applyChargeResult = async (
+  admin: SupabaseClient,
+  transaction: PaymentTransaction,
+  result: ChargeStatusResult
+): Promise<SettlementStatus> => {
+  if (result.status === 'pending') {
+    return 'pending';
+  }
+
+  if (result.status === 'failed' || result.status === 'expired') {
+    const { data: closed, error: closeError } = await admin
+      .from('payment_transactions')
+      .update({ payment_status: result.status })
+      .eq('id', transaction.id)
+      .eq('payment_status', 'pending')
+      .select('id')
+      .maybeSingle();
+
+    if (closeError) throw closeError;
+
+    // Someone else settled the row first; its coupon belongs to that outcome
+    if (!closed) {
+      console.log('Transaction already settled:', transaction.transaction_id);
+      return result.status;
+    }
+
+    if (transaction.transaction_type === 'rental') {
+      await admin
+        .from('user_rentals')
+        .update({ payment_status: result.status })
+        .eq('transaction_id', transaction.transaction_id)
+        .eq('payment_status', 'pending');
+    }
+
+    if (transaction.metadata?.coupon_redemption_id) {
+      await admin.rpc('release_coupon_redemption', { _payment_transaction_id: transaction.id });
+    }
+    return result.status;
+  }
+
+  const paidAt = result.paidAt ? new Date(result.paidAt) : new Date();
+
+  // A late payment on an expired QR is still money received, so expired rows can be claimed too.
+  // Each status is claimed separately so a failed fulfilment can put back exactly what was there.
+  let claimed: PaymentTransaction | null = null;
+  let claimedFrom: string | null = null;
+  for (const status of CLAIMABLE_STATUSES) {
+    const { data, error: claimError } = await admin
+      .from('payment_transactions')
+      .update({
+        payment_status: 'completed',
+        paid_at: paidAt.toISOString(),
+        provider_reference: result.externalRef ?? null,
+      })
+      .eq('id', transaction.id)
+      .eq('payment_status', status)
+      .select()
+      .maybeSingle();
+
+    if (claimError) throw claimError;
+    if (data) {
+      claimed = data as PaymentTransaction;
+      claimedFrom = status;
+      break;
+    }
+  }
+
+  if (!claimed) {
+    console.log('Transaction already settled:', transaction.transaction_id);
+    return 'completed';
+  }
+
+  // Put the row back as it was so the next poll or webhook retry can settle it
+  const releaseClaim = () =>
+    admin
+      .from('payment_transactions')
+      .update({ payment_status: claimedFrom, paid_at: null, provider_reference: null })
+      .eq('id', transaction.id)
+      .eq('payment_status', 'completed');
+
+  // Take the coupon use before granting anything, so a payment the coupon can no longer cover is refused
+  if (claimed.metadata?.coupon_redemption_id) {
+    const { data: honoured, error: couponError } = await admin.rpc('finalize_coupon_redemption', {
+      _payment_transaction_id: transaction.id,
+    });
+
+    if (couponError) {
+      console.error('Failed to finalize coupon redemption, releasing claim:', couponError);
+      await releaseClaim();
+      throw couponError;
+    }
+
+    // A top-up is still credited what was paid, just without the bonus. Anything else was
+    // bought at the discounted price, so nothing is granted and the money goes back to the wallet.
+    if (!honoured && claimed.transaction_type !== 'topup') {
+      // Keyed by the payment so a retry never refunds twice
+      const { error: refundError } = await admin.rpc('wallet_post_entry', {
+        _user_id: transaction.user_id,
+        _amount: Number(claimed.amount),
+        _type: 'refund',
+        _idempotency_key: `coupon-refund:${transaction.id}`,
+        _description: 'Refund: promo code was no longer available when the payment arrived',
+        _reference_id: transaction.reference_id,
+        _reference_type: transaction.reference_type,
+        _payment_transaction_id: transaction.id,
+      });
+
+      if (refundError) {
+        console.error('Failed to refund payment the coupon no longer covers, releasing claim:', refundError);
+        await releaseClaim();
+        throw refundError;
+      }
+
+      await admin
+        .from('payment_transactions')
+        .update({ payment_status: 'refunded' })
+        .eq('id', transaction.id)
+        .eq('payment_status', 'completed');
+
+      if (transaction.transaction_type === 'rental') {
+        await admin
+          .from('user_rentals')
+          .update({ payment_status: 'failed' })
+          .eq('transaction_id', transaction.transaction_id)
+          .in('payment_status', ['pending', 'expired']);
+      }
+      return 'refunded';
+    }
+  }
+
+  try {
+    await fulfil(admin, claimed, paidAt);
+  } catch (error) {
+    // The coupon use stays taken; finalize is a no-op when the retry comes round
+    console.error('Fulfilment failed, releasing claim:', error);
+    await releaseClaim();
+    throw error;
+  }
+
+  return 'completed';
+};
+
+// Poll the provider for a transaction that is not yet settled
+export const syncTransaction = async (
+  admin: SupabaseClient,
+  transaction: PaymentTransaction
+): Promise<SettlementStatus> => {
+  if (TERMINAL_STATUSES.includes(transaction.payment_status)) {
+    return transaction.payment_status as SettlementStatus;
+  }
+
+  if (!transaction.khqr_data?.md5) {
+    throw new Error('Transaction has no KHQR charge');
+  }
+
+  // The provider comes from server config, never from the row: a row claiming the mock
+  // provider must not confirm itself on a production deployment
+  const provider = getPaymentProvider();
+  if (transaction.khqr_data.provider !== provider.name) {
+    throw new Error(`Transaction was charged through ${transaction.khqr_data.provider}, not ${provider.name}`);
+  }
+
+  // Check the paid amount against the transaction columns rather than the stored charge payload
+  const result = await provider.checkStatus({
+    ...transaction.khqr_data,
+    amount: Number(transaction.amount),
+    currency: transaction.currency as Charge['currency'],
+  });
+  return applyChargeResult(admin, transaction, result);
+};
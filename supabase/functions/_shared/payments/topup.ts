@@ -0,0 +1,11 @@
+// Wallet top-up limits, set per deployment
+
+// Largest amount a single top-up may charge, in USD
+export const maxTopupAmount = () => parseFloat(Deno.env.get('WALLET_TOPUP_MAX_AMOUNT') ?? '500');
+
+// A promo code on a top-up never lowers the price. Its discount is credited as a bonus on top of
+// what was paid, up to this many USD per top-up.
+export const maxTopupBonus = () => parseFloat(Deno.env.get('WALLET_TOPUP_MAX_BONUS') ?? '10');
+
+export const topupBonus = (discountAmount: number) =>
+  Math.max(0, Math.min(discountAmount, maxTopupBonus()));
@@ -0,0 +1,34 @@
+import type { KhqrCurrency } from './khqr.ts';
+
+export type ChargeStatus = 'pending' | 'completed' | 'failed' | 'expired';
+
+export interface CreateChargeInput {
+  transactionId: string;
+  amount: number;
+  currency: KhqrCurrency;
+}
+
+// Stored as payment_transactions.khqr_data
+export interface Charge {
+  provider: string;
+  qr_string: string;
+  md5: string;
+  amount: number;
+  currency: KhqrCurrency;
+  merchant_name: string;
+  created_at: string;
+  expires_at: string;
+}
+
+export interface ChargeStatusResult {
+  status: ChargeStatus;
+  externalRef?: string;
+  paidAt?: string;
+  raw?: unknown;
+}
+
+export interface PaymentProvider {
+  name: string;
+  createCharge(input: CreateChargeInput): Promise<Charge>;
+  checkStatus(charge: Charge): Promise<ChargeStatusResult>;
+}
@@ -0,0 +1,49 @@
+// HMAC-SHA256 signatures for the payment webhook.
+// Signed content is `${timestamp}.${rawBody}` so a captured request cannot be replayed later.
+
+const SIGNATURE_TOLERANCE_SECONDS = 300;
+
+const toHex = (buffer: ArrayBuffer) =>
+  Array.from(new Uint8Array(buffer))
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('');
+
+const importKey = (secret: string) =>
+  crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+
+export const signWebhookPayload = async (secret: string, timestamp: string, body: string) => {
+  const key = await importKey(secret);
+  const signature = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(`${timestamp}.${body}`));
+  return toHex(signature);
+};
+
+// Constant-time comparison so the signature cannot be guessed byte by byte
+const safeEqual = (a: string, b: string) => {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return diff === 0;
+};
+
+export const verifyWebhookSignature = async (
+  secret: string,
+  timestamp: string | null,
+  body: string,
+  signature: string | null
+) => {
+  if (!secret || !timestamp || !signature) return false;
+
+  const age = Math.abs(Date.now() / 1000 - parseInt(timestamp, 10));
+  if (!Number.isFinite(age) || age > SIGNATURE_TOLERANCE_SECONDS) return false;
+
+  const expected = await signWebhookPayload(secret, timestamp, body);
+  return safeEqual(expected, signature.replace(/^sha256=/, ''));
+};
@@ -0,0 +1,73 @@
+import { S3Client } from 'https://deno.land/x/s3_lite_client@0.7.0/mod.ts';
+
+// IDrive E2 accounts, numbered 1-3 to match media_files.storage_account
+const storageConfigs = [
+  {
+    accessKey: Deno.env.get('IDRIVEE2_ACCESS_KEY_1')!,
+    secretKey: Deno.env.get('IDRIVEE2_SECRET_KEY_1')!,
+  },
+  {
+    accessKey: Deno.env.get('IDRIVEE2_ACCESS_KEY_2')!,
+    secretKey: Deno.env.get('IDRIVEE2_SECRET_KEY_2')!,
+  },
+  {
+    accessKey: Deno.env.get('IDRIVEE2_ACCESS_KEY_3')!,
+    secretKey: Deno.env.get('IDRIVEE2_SECRET_KEY_3')!,
+  },
+];
+
+export const ENDPOINT = 's3.ap-southeast-1.idrivee2.com';
+export const REGION = 'ap-southeast-1';
+
+export interface BucketObject {
+  bucket: string;
+  key: string;
+}
+
+export const getS3Client = (storageAccount: number, bucket: string) => {
+  const storage = storageConfigs[storageAccount - 1];
+
+  if (!storage?.accessKey || !storage?.secretKey) {
+    throw new Error(`Storage account ${storageAccount} not configured`);
+  }
+
+  return new S3Client({
+    endPoint: ENDPOINT,
+    region: REGION,
+    accessKey: storage.accessKey,
+    secretKey: storage.secretKey,
+    useSSL: true,
+    pathStyle: false,
+    bucket,
+  });
+};
+
+export const presignGet = (storageAccount: number, object: BucketObject, expirySeconds: number) =>
+  getS3Client(storageAccount, object.bucket).getPresignedUrl('GET', object.key, { expirySeconds });
+
+// Split a bucket URL into bucket and key. Handles both virtual-hosted
+// (media-files.s3.<region>.idrivee2.com/key) and path-style (s3.<region>.idrivee2.com/media-files/key) URLs.
+// Anything hosted elsewhere returns null and is served as-is.
+export const parseBucketUrl = (value: string | null | undefined): BucketObject | null => {
+  if (!value) return null;
+
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    return null;
+  }
+
+  const path = decodeURIComponent(url.pathname.replace(/^\/+/, ''));
+
+  if (url.hostname === ENDPOINT) {
+    const [bucket, ...rest] = path.split('/');
+    return bucket && rest.length > 0 ? { bucket, key: rest.join('/') } : null;
+  }
+
+  if (url.hostname.endsWith(`.${ENDPOINT}`) && path) {
+    return { bucket: url.hostname.slice(0, -(ENDPOINT.length + 1)), key: path };
+  }
+
+  return null;
+};
@@ -0,0 +1,120 @@
+import { getS3Client } from './idrivee2.ts';
+
+// S3 multipart upload calls that s3_lite_client does not wrap. The browser PUTs the parts itself
+// through presigned URLs (so the bucket's CORS rules must allow PUT); part ETags are read back with
+// listParts rather than trusted from the client.
+
+export interface UploadedPart {
+  partNumber: number;
+  etag: string;
+  size: number;
+}
+
+export interface MultipartTarget {
+  storageAccount: number;
+  bucket: string;
+  key: string;
+}
+
+const MIB = 1024 * 1024;
+const MIN_PART_SIZE = 8 * MIB;
+// S3 allows 10,000 parts; stay under it so any supported file size fits
+const MAX_PARTS = 9000;
+
+export const partSizeFor = (fileSize: number) =>
+  Math.max(MIN_PART_SIZE, Math.ceil(fileSize / MAX_PARTS / MIB) * MIB);
+
+const xmlValues = (xml: string, tag: string) =>
+  [...xml.matchAll(new RegExp(`<${tag}>([\\s\\S]*?)</${tag}>`, 'g'))].map((match) => match[1]);
+
+const xmlEscape = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+export const createMultipartUpload = async ({ storageAccount, bucket, key }: MultipartTarget, contentType: string) => {
+  const response = await getS3Client(storageAccount, bucket).makeRequest({
+    method: 'POST',
+    objectName: key,
+    query: 'uploads',
+    headers: new Headers({ 'Content-Type': contentType }),
+    returnBody: true,
+  });
+  const [uploadId] = xmlValues(await response.text(), 'UploadId');
+  if (!uploadId) throw new Error('Storage did not return an upload id');
+  return uploadId;
+};
+
+export const presignPart = (
+  { storageAccount, bucket, key }: MultipartTarget,
+  uploadId: string,
+  partNumber: number,
+  expirySeconds: number
+) =>
+  getS3Client(storageAccount, bucket).getPresignedUrl('PUT', key, {
+    parameters: { partNumber: String(partNumber), uploadId },
+    expirySeconds,
+  });
+
+// Parts the store already holds, so an interrupted upload only sends what is missing
+export const listParts = async ({ storageAccount, bucket, key }: MultipartTarget, uploadId: string) => {
+  const client = getS3Client(storageAccount, bucket);
+  const parts: UploadedPart[] = [];
+  let marker = '0';
+
+  while (true) {
+    const response = await client.makeRequest({
+      method: 'GET',
+      objectName: key,
+      query: { uploadId, 'part-number-marker': marker, 'max-parts': '1000' },
+      returnBody: true,
+    });
+    const xml = await response.text();
+
+    for (const part of xmlValues(xml, 'Part')) {
+      parts.push({
+        partNumber: Number(xmlValues(part, 'PartNumber')[0]),
+        etag: xmlValues(part, 'ETag')[0].replace(/&quot;/g, '"'),
+        size: Number(xmlValues(part, 'Size')[0]),
+      });
+    }
+
+    if (xmlValues(xml, 'IsTruncated')[0] !== 'true') return parts;
+    marker = xmlValues(xml, 'NextPartNumberMarker')[0];
+  }
+};
+
+export const completeMultipartUpload = async (
+  { storageAccount, bucket, key }: MultipartTarget,
+  uploadId: string,
+  parts: Pick<UploadedPart, 'partNumber' | 'etag'>[]
+) => {
+  const body = [
+    '<CompleteMultipartUpload>',
+    ...[...parts]
+      .sort((a, b) => a.partNumber - b.partNumber)
+      .map((part) => `<Part><PartNumber>${part.partNumber}</PartNumber><ETag>${xmlEscape(part.etag)}</ETag></Part>`),
+    '</CompleteMultipartUpload>',
+  ].join('');
+
+  const response = await getS3Client(storageAccount, bucket).makeRequest({
+    method: 'POST',
+    objectName: key,
+    query: { uploadId },
+    payload: body,
+    returnBody: true,
+  });
+
+  // S3 can answer 200 with an error document when assembling the parts fails
+  const xml = await response.text();
+  if (xml.includes('<Error>')) {
+    throw new Error(xmlValues(xml, 'Message')[0] || 'Failed to complete upload');
+  }
+};
+
+export const abortMultipartUpload = async ({ storageAccount, bucket, key }: MultipartTarget, uploadId: string) => {
+  await getS3Client(storageAccount, bucket).makeRequest({
+    method: 'DELETE',
+    objectName: key,
+    query: { uploadId },
+    statusCode: 204,
+  });
+};
@@ -0,0 +1,188 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.81.1';
+import { BucketObject, parseBucketUrl, presignGet } from './idrivee2.ts';
+
+// Lifetime of the URLs handed to the player. The player re-requests them before this runs out.
+export const playbackUrlTtlSeconds = () => parseInt(Deno.env.get('PLAYBACK_URL_TTL_SECONDS') ?? '1800', 10);
+
+// Segment redirects are followed immediately, so the presigned target can be very short-lived
+export const SEGMENT_URL_TTL_SECONDS = 300;
+
+// Claims carried by a stream token. A manifest token covers every object under the manifest's directory,
+// so variant playlists and segments need no per-file signature in the URL. That directory must belong
+// to a single title (e.g. hls/<job-id>/), which is why shallow folders are refused below.
+// A progressive file's token covers that one object instead.
+export interface StreamToken {
+  bucket: string;
+  account: number;
+  prefix?: string;
+  key?: string;
+  // The playback lease the URLs were issued under; the token stops working once it ends
+  lease?: string;
+  exp: number;
+}
+
+const encoder = new TextEncoder();
+
+const toBase64Url = (bytes: Uint8Array) =>
+  btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+const fromBase64Url = (value: string) =>
+  Uint8Array.from(atob(value.replace(/-/g, '+').replace(/_/g, '/')), (c) => c.charCodeAt(0));
+
+// Manifest folders shallower than this (the bucket root, media/, uploads/) are shared between titles
+const MIN_PREFIX_DEPTH = 2;
+
+// Tokens are signed with a key used for nothing else, so leaking one never exposes another
+const playbackSecret = () => {
+  const secret = Deno.env.get('PLAYBACK_URL_SECRET');
+  if (!secret) throw new Error('PLAYBACK_URL_SECRET is not configured');
+  return secret;
+};
+
+const importKey = () =>
+  crypto.subtle.importKey(
+    'raw',
+    encoder.encode(playbackSecret()),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign', 'verify']
+  );
+
+// A source the player cannot be given, e.g. a manifest in a shared folder. A problem with the
+// source's configuration rather than the server, so callers answer with a 4xx.
+export class PlaybackSourceError extends Error {}
+
+const isScopedPrefix = (prefix: string) =>
+  prefix.endsWith('/') && prefix.split('/').filter(Boolean).length >= MIN_PREFIX_DEPTH;
+
+const hasValidScope = (claims: StreamToken) =>
+  typeof claims.key === 'string'
+    ? claims.key.length > 0
+    : typeof claims.prefix === 'string' && isScopedPrefix(claims.prefix);
+
+export const tokenCovers = (claims: StreamToken, key: string) =>
+  typeof claims.key === 'string' ? key === claims.key : key.startsWith(claims.prefix!);
+
+export const signStreamToken = async (claims: StreamToken) => {
+  if (!hasValidScope(claims)) {
+    throw new Error('HLS/DASH sources must sit in their own folder, e.g. hls/<job-id>/, to be streamed');
+  }
+  const payload = toBase64Url(encoder.encode(JSON.stringify(claims)));
+  const signature = await crypto.subtle.sign('HMAC', await importKey(), encoder.encode(payload));
+  return `${payload}.${toBase64Url(new Uint8Array(signature))}`;
+};
+
+// Returns the claims, or null when the token is forged, malformed or expired
+export const verifyStreamToken = async (token: string): Promise<StreamToken | null> => {
+  const [payload, signature] = token.split('.');
+  if (!payload || !signature) return null;
+
+  try {
+    const valid = await crypto.subtle.verify('HMAC', await importKey(), fromBase64Url(signature), encoder.encode(payload));
+    if (!valid) return null;
+
+    const claims = JSON.parse(new TextDecoder().decode(fromBase64Url(payload))) as StreamToken;
+    if (!hasValidScope(claims)) return null;
+    return claims.exp > Math.floor(Date.now() / 1000) ? claims : null;
+  } catch {
+    return null;
+  }
+};
+
+// Revoked (kicked, replaced, released) and lapsed leases no longer unlock anything
+export const isLeaseActive = async (admin: SupabaseClient, leaseId: string) => {
+  const { data } = await admin
+    .from('playback_leases')
+    .select('id')
+    .eq('id', leaseId)
+    .is('revoked_at', null)
+    .gt('expires_at', new Date().toISOString())
+    .maybeSingle();
+
+  return !!data;
+};
+
+export const isManifestKey = (key: string) => /\.(m3u8|mpd)$/i.test(key);
+
+// DASH templates ($Number$, $RepresentationID$) must survive encoding so the player can expand them
+const encodeKey = (key: string) =>
+  key.split('/').map((part) => encodeURIComponent(part).replace(/%24/g, '$')).join('/');
+
+export const streamUrl = (token: string, key: string) =>
+  `${Deno.env.get('SUPABASE_URL')}/functions/v1/stream-manifest/${token}/${encodeKey(key)}`;
+
+// media_files records which storage account holds an object. Untracked URLs are not ours to sign.
+const lookupStorageAccount = async (admin: SupabaseClient, object: BucketObject) => {
+  const { data } = await admin
+    .from('media_files')
+    .select('storage_account')
+    .eq('bucket_name', object.bucket)
+    .eq('file_path', object.key)
+    .limit(1)
+    .maybeSingle();
+
+  return data?.storage_account ?? null;
+};
+
+export interface SignedPlaybackUrls {
+  url: string | null;
+  qualityUrls: Record<string, string> | null;
+  // Null when nothing needed signing (externally hosted sources)
+  expiresAt: string | null;
+}
+
+// Swap bucket-hosted URLs for short-lived ones: HLS/DASH manifests go through stream-manifest so every
+// segment request is signed too. Progressive files get presigned GETs, or also go through stream-manifest
+// when a lease is given, because a presigned URL cannot be withdrawn when the lease ends.
+export const signSourceUrls = async (
+  admin: SupabaseClient,
+  source: { url: string | null; quality_urls: unknown },
+  leaseId: string | null = null
+): Promise<SignedPlaybackUrls> => {
+  const ttl = playbackUrlTtlSeconds();
+  const exp = Math.floor(Date.now() / 1000) + ttl;
+  let signedAny = false;
+
+  const sign = async (value: string) => {
+    const object = parseBucketUrl(value);
+    if (!object) return value;
+
+    const account = await lookupStorageAccount(admin, object);
+    if (account === null) return value;
+
+    signedAny = true;
+    const lease = leaseId ?? undefined;
+    if (isManifestKey(object.key)) {
+      const slash = object.key.lastIndexOf('/');
+      const prefix = slash === -1 ? '' : object.key.slice(0, slash + 1);
+      if (!isScopedPrefix(prefix)) {
+        throw new PlaybackSourceError(
+          `${object.key} cannot be streamed: HLS/DASH sources must sit in their own folder, e.g. hls/<job-id>/`
+        );
+      }
+      const token = await signStreamToken({ bucket: object.bucket, account, prefix, lease, exp });
+      return streamUrl(token, object.key);
+    }
+    if (lease) {
+      const token = await signStreamToken({ bucket: object.bucket, account, key: object.key, lease, exp });
+      return streamUrl(token, object.key);
+    }
+    return presignGet(account, object, ttl);
+  };
+
+  const url = source.url ? await sign(source.url) : null;
+
+  let qualityUrls: Record<string, string> | null = null;
+  if (source.quality_urls && typeof source.quality_urls === 'object') {
+    qualityUrls = {};
+    for (const [quality, value] of Object.entries(source.quality_urls as Record<string, string>)) {
+      qualityUrls[quality] = value ? await sign(value) : value;
+    }
+  }
+
+  return {
+    url,
+    qualityUrls,
+    expiresAt: signedAny ? new Date(exp * 1000).toISOString() : null,
+  };
+};
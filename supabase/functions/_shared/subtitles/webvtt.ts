@@ -0,0 +1,112 @@
+// Converts uploaded subtitle files to WebVTT, the only sidecar format every player path (Shaka, native
+// <track>) understands. SRT and ASS/SSA are translated; VTT is only normalised.
+
+export type SubtitleFormat = 'srt' | 'vtt' | 'ass';
+
+export const subtitleFormatFromName = (fileName: string): SubtitleFormat | null => {
+  const ext = fileName.split('.').pop()?.toLowerCase();
+  if (ext === 'srt') return 'srt';
+  if (ext === 'vtt') return 'vtt';
+  if (ext === 'ass' || ext === 'ssa') return 'ass';
+  return null;
+};
+
+const normalise = (text: string) => text.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n');
+
+const escapeCueText = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+
+const formatTimestamp = (seconds: number) => {
+  const ms = Math.round(seconds * 1000);
+  const h = Math.floor(ms / 3600000);
+  const m = Math.floor((ms % 3600000) / 60000);
+  const s = Math.floor((ms % 60000) / 1000);
+  return `${pad(h)}:${pad(m)}:${pad(s)}.${pad(ms % 1000, 3)}`;
+};
+
+const countCues = (vtt: string) => (vtt.match(/-->/g) ?? []).length;
+
+const srtToVtt = (text: string) => {
+  const blocks = normalise(text).trim().split(/\n{2,}/);
+  const cues = blocks.flatMap((block) => {
+    const lines = block.split('\n');
+    const timingIndex = lines.findIndex((line) => line.includes('-->'));
+    if (timingIndex === -1) return [];
+
+    const timing = lines[timingIndex].replace(/(\d+:\d{2}:\d{2}),(\d{3})/g, '$1.$2');
+    const body = lines
+      .slice(timingIndex + 1)
+      .join('\n')
+      // Position overrides ({\an8}) and <font> tags have no VTT equivalent
+      .replace(/\{\\[^}]*\}/g, '')
+      .replace(/<\/?font[^>]*>/gi, '');
+    return [`${timing}\n${body}`];
+  });
+  return `WEBVTT\n\n${cues.join('\n\n')}\n`;
+};
+
+// "0:01:02.50" - ASS uses centiseconds and a single-digit hour
+const parseAssTime = (value: string) => {
+  const match = value.trim().match(/^(\d+):(\d{2}):(\d{2})[.,](\d{1,3})$/);
+  if (!match) return null;
+  const [, h, m, s, fraction] = match;
+  return Number(h) * 3600 + Number(m) * 60 + Number(s) + Number(fraction.padEnd(3, '0')) / 1000;
+};
+
+const assToVtt = (text: string) => {
+  let inEvents = false;
+  let format: string[] = [];
+  const cues: { start: number; end: number; text: string }[] = [];
+
+  for (const line of normalise(text).split('\n')) {
+    const trimmed = line.trim();
+    if (trimmed.startsWith('[')) {
+      inEvents = trimmed.toLowerCase() === '[events]';
+      continue;
+    }
+    if (!inEvents) continue;
+
+    if (trimmed.toLowerCase().startsWith('format:')) {
+      format = trimmed.slice(7).split(',').map((field) => field.trim().toLowerCase());
+      continue;
+    }
+    if (!trimmed.toLowerCase().startsWith('dialogue:') || format.length === 0) continue;
+
+    // Text is the last field and may itself contain commas
+    const values = trimmed.slice(9).split(',');
+    const fields = [...values.slice(0, format.length - 1), values.slice(format.length - 1).join(',')];
+    const field = (name: string) => fields[format.indexOf(name)] ?? '';
+
+    const start = parseAssTime(field('start'));
+    const end = parseAssTime(field('end'));
+    const body = field('text')
+      .replace(/\{[^}]*\}/g, '')
+      .replace(/\\[Nn]/g, '\n')
+      .replace(/\\h/g, ' ')
+      .trim();
+    if (start === null || end === null || end <= start || !body) continue;
+
+    cues.push({ start, end, text: escapeCueText(body) });
+  }
+
+  cues.sort((a, b) => a.start - b.start);
+  const body = cues.map((cue) => `${formatTimestamp(cue.start)} --> ${formatTimestamp(cue.end)}\n${cue.text}`);
+  return `WEBVTT\n\n${body.join('\n\n')}\n`;
+};
+
+const normaliseVtt = (text: string) => {
+  const vtt = normalise(text);
+  if (!/^WEBVTT(\s|$)/.test(vtt)) {
+    throw new Error('Invalid WebVTT file: missing WEBVTT header');
+  }
+  return vtt.endsWith('\n') ? vtt : `${vtt}\n`;
+};
+
+export const toWebVtt = (text: string, format: SubtitleFormat) => {
+  const vtt = format === 'srt' ? srtToVtt(text) : format === 'ass' ? assToVtt(text) : normaliseVtt(text);
+  if (countCues(vtt) === 0) {
+    throw new Error('No subtitle cues found in file');
+  }
+  return vtt;
+};
@@ -0,0 +1,113 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const CHECK_TIMEOUT_MS = 8000;
+// Responses slower than this still count as up, but are flagged for failover review
+const DEGRADED_LATENCY_MS = 2000;
+
+interface ServerRow {
+  id: string;
+  name: string;
+  base_url: string;
+  health_check_url: string | null;
+}
+
+const checkServer = async (server: ServerRow) => {
+  const url = server.health_check_url || server.base_url;
+  const startedAt = performance.now();
+
+  try {
+    const response = await fetch(url, {
+      method: 'GET',
+      redirect: 'follow',
+      signal: AbortSignal.timeout(CHECK_TIMEOUT_MS),
+    });
+    await response.body?.cancel();
+
+    const latency = Math.round(performance.now() - startedAt);
+    if (!response.ok) {
+      return { status: 'down', latency, error: `HTTP ${response.status}` };
+    }
+    return { status: latency > DEGRADED_LATENCY_MS ? 'degraded' : 'healthy', latency, error: null };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return { status: 'down', latency: null, error: message };
+  }
+};
+
+// Admin-triggered health check for registered streaming servers and CDN origins
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      throw new Error('Unauthorized: Missing authorization header');
+    }
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      { global: { headers: { Authorization: authHeader } } }
+    );
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      throw new Error('Unauthorized: Invalid user');
+    }
+
+    const { data: canEdit } = await supabase.rpc('has_permission', { _user_id: user.id, _permission: 'content.edit' });
+    if (!canEdit) {
+      return new Response(JSON.stringify({ error: 'Forbidden' }), {
+        status: 403,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const { serverId } = await req.json().catch(() => ({}));
+
+    let query = supabase
+      .from('streaming_servers')
+      .select('id, name, base_url, health_check_url')
+      .order('priority');
+    query = serverId ? query.eq('id', serverId) : query.eq('is_active', true);
+
+    const { data: servers, error } = await query;
+    if (error) throw error;
+
+    const results = await Promise.all(
+      (servers ?? []).map(async (server: ServerRow) => {
+        const result = await checkServer(server);
+        await supabase
+          .from('streaming_servers')
+          .update({
+            health_status: result.status,
+            last_latency_ms: result.latency,
+            last_error: result.error,
+            last_checked_at: new Date().toISOString(),
+          })
+          .eq('id', server.id);
+
+        console.log(`Health check ${server.name}: ${result.status}`, result.latency ?? '', result.error ?? '');
+        return { id: server.id, name: server.name, ...result };
+      })
+    );
+
+    return new Response(JSON.stringify({ results }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Error checking streaming servers:', error);
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return new Response(JSON.stringify({ error: message }), {
+      status: message.startsWith('Unauthorized') ? 401 : 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
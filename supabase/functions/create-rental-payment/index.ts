@@ -1,4 +1,15 @@
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { getPaymentProvider } from '../_shared/payments/index.ts';
+import { applyChargeResult, PaymentTransaction } from '../_shared/payments/settlement.ts';
+import {
+  attachReservation,
+  cancelReservation,
+  CouponError,
+  couponHoldUntil,
+  couponMetadata,
+  CouponReservation,
+  reserveCoupon,
+} from '../_shared/payments/coupons.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -8,10 +19,11 @@ const corsHeaders = {
 interface RentalPaymentRequest {
   mediaId: string;
   mediaType: 'movie' | 'series' | 'anime';
-  rentalPrice: number;
-  rentalPeriodDays: number;
+  couponCode?: string;
 }
 
+const MEDIA_TABLES = { movie: 'movies', series: 'series', anime: 'animes' } as const;
+
 Deno.serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
@@ -36,34 +48,95 @@ Deno.serve(async (req) => {
       });
     }
 
-    const { mediaId, mediaType, rentalPrice, rentalPeriodDays }: RentalPaymentRequest = await req.json();
+    const { mediaId, mediaType, couponCode }: RentalPaymentRequest = await req.json();
+
+    const table = MEDIA_TABLES[mediaType];
+    if (!mediaId || !table) {
+      return new Response(JSON.stringify({ error: 'Invalid media' }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    // Price and period come from the content, never from the client
+    const { data: media } = await supabaseClient
+      .from(table)
+      .select('rental_price, rental_period_days')
+      .eq('id', mediaId)
+      .maybeSingle();
+
+    if (!media?.rental_price) {
+      return new Response(JSON.stringify({ error: 'This content is not available for rent' }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const rentalPrice = Number(media.rental_price);
+    const rentalPeriodDays = media.rental_period_days || 7;
 
     // Generate transaction ID
     const transactionId = `RENT-${Date.now()}-${user.id.substring(0, 8)}`;
 
+    const adminClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    let reservation: CouponReservation | null = null;
+    if (couponCode) {
+      try {
+        reservation = await reserveCoupon(adminClient, {
+          code: couponCode,
+          userId: user.id,
+          purpose: 'rental',
+          targetId: mediaId,
+          amount: rentalPrice,
+          holdUntil: couponHoldUntil(),
+        });
+      } catch (error) {
+        if (!(error instanceof CouponError)) throw error;
+        return new Response(JSON.stringify({ error: error.message, code: error.code }), {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+    }
+
+    const amountDue = reservation ? reservation.finalAmount : rentalPrice;
+
+    // A coupon can cover the whole price, in which case there is nothing to scan
+    const charge = amountDue > 0
+      ? await getPaymentProvider().createCharge({
+          transactionId,
+          amount: amountDue,
+          currency: 'USD',
+        })
+      : null;
+
     // Create payment transaction record
-    const { data: transaction, error: transactionError } = await supabaseClient
+    const { data: transaction, error: transactionError } = await adminClient
       .from('payment_transactions')
       .insert({
         user_id: user.id,
         transaction_type: 'rental',
-        amount: rentalPrice,
+        amount: amountDue,
         currency: 'USD',
-        payment_method: 'bakong_khqr',
+        payment_method: charge ? 'bakong_khqr' : 'coupon',
         payment_status: 'pending',
         transaction_id: transactionId,
         reference_id: mediaId,
         reference_type: mediaType,
-        khqr_data: {
-          qr_string: `KHQR:${transactionId}:${rentalPrice}`,
-          merchant_id: 'MERCHANT_ID',
-          amount: rentalPrice,
-        },
+        khqr_data: charge,
+        provider: charge?.provider ?? 'coupon',
+        expires_at: charge?.expires_at ?? null,
+        metadata: { rental_period_days: rentalPeriodDays, ...couponMetadata(reservation, rentalPrice) },
       })
       .select()
       .single();
 
     if (transactionError) {
+      if (reservation) await cancelReservation(adminClient, reservation);
       console.error('Transaction creation error:', transactionError);
       return new Response(JSON.stringify({ error: 'Failed to create transaction' }), {
         status: 500,
@@ -71,19 +144,23 @@ Deno.serve(async (req) => {
       });
     }
 
-    // Create rental record
+    if (reservation) {
+      await attachReservation(adminClient, reservation, transaction.id, charge?.expires_at ?? couponHoldUntil());
+    }
+
+    // Create rental record - dates are reset from the payment time once it settles
     const endDate = new Date();
     endDate.setDate(endDate.getDate() + rentalPeriodDays);
 
-    const { error: rentalError } = await supabaseClient
+    const { error: rentalError } = await adminClient
       .from('user_rentals')
       .insert({
         user_id: user.id,
         media_id: mediaId,
         media_type: mediaType,
-        rental_price: rentalPrice,
+        rental_price: amountDue,
         payment_status: 'pending',
-        payment_method: 'bakong_khqr',
+        payment_method: charge ? 'bakong_khqr' : 'coupon',
         transaction_id: transactionId,
         end_date: endDate.toISOString(),
       });
@@ -96,12 +173,19 @@ Deno.serve(async (req) => {
       });
     }
 
+    if (!charge) {
+      await applyChargeResult(adminClient, transaction as PaymentTransaction, { status: 'completed' });
+    }
+
     return new Response(
       JSON.stringify({
         success: true,
         transactionId,
+        completed: !charge,
         qrData: transaction.khqr_data,
-        expiresAt: endDate.toISOString(),
+        expiresAt: charge?.expires_at ?? null,
+        amount: amountDue,
+        discountAmount: reservation?.discountAmount ?? 0,
       }),
       {
         headers: { ...corsHeaders, 'Content-Type': 'application/json' },
@@ -1,4 +1,15 @@
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { getPaymentProvider } from '../_shared/payments/index.ts';
+import { applyChargeResult, PaymentTransaction } from '../_shared/payments/settlement.ts';
+import {
+  attachReservation,
+  cancelReservation,
+  CouponError,
+  couponHoldUntil,
+  couponMetadata,
+  CouponReservation,
+  reserveCoupon,
+} from '../_shared/payments/coupons.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -29,7 +40,7 @@ Deno.serve(async (req) => {
       });
     }
 
-    const { planId } = await req.json();
+    const { planId, couponCode } = await req.json();
 
     // Get plan details
     const { data: plan, error: planError } = await supabaseClient
@@ -47,29 +58,65 @@ Deno.serve(async (req) => {
 
     const transactionId = `SUB-${Date.now()}-${user.id.substring(0, 8)}`;
 
+    const adminClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    let reservation: CouponReservation | null = null;
+    if (couponCode) {
+      try {
+        reservation = await reserveCoupon(adminClient, {
+          code: couponCode,
+          userId: user.id,
+          purpose: 'subscription',
+          targetId: planId,
+          amount: Number(plan.price),
+          holdUntil: couponHoldUntil(),
+        });
+      } catch (error) {
+        if (!(error instanceof CouponError)) throw error;
+        return new Response(JSON.stringify({ error: error.message, code: error.code }), {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+    }
+
+    const amountDue = reservation ? reservation.finalAmount : Number(plan.price);
+
+    // A coupon can cover the whole price, in which case there is nothing to scan
+    const charge = amountDue > 0
+      ? await getPaymentProvider().createCharge({
+          transactionId,
+          amount: amountDue,
+          currency: 'USD',
+        })
+      : null;
+
     // Create payment transaction
-    const { data: transaction, error: transactionError } = await supabaseClient
+    const { data: transaction, error: transactionError } = await adminClient
       .from('payment_transactions')
       .insert({
         user_id: user.id,
         transaction_type: 'subscription',
-        amount: plan.price,
+        amount: amountDue,
         currency: 'USD',
-        payment_method: 'bakong_khqr',
+        payment_method: charge ? 'bakong_khqr' : 'coupon',
         payment_status: 'pending',
         transaction_id: transactionId,
         reference_id: planId,
         reference_type: 'subscription',
-        khqr_data: {
-          qr_string: `KHQR:${transactionId}:${plan.price}`,
-          merchant_id: 'MERCHANT_ID',
-          amount: plan.price,
-        },
+        khqr_data: charge,
+        provider: charge?.provider ?? 'coupon',
+        expires_at: charge?.expires_at ?? null,
+        metadata: couponMetadata(reservation, Number(plan.price)),
       })
       .select()
       .single();
 
     if (transactionError) {
+      if (reservation) await cancelReservation(adminClient, reservation);
       console.error('Transaction creation error:', transactionError);
       return new Response(JSON.stringify({ error: 'Failed to create transaction' }), {
         status: 500,
@@ -77,11 +124,23 @@ Deno.serve(async (req) => {
       });
     }
 
+    if (reservation) {
+      await attachReservation(adminClient, reservation, transaction.id, charge?.expires_at ?? couponHoldUntil());
+    }
+
+    if (!charge) {
+      await applyChargeResult(adminClient, transaction as PaymentTransaction, { status: 'completed' });
+    }
+
     return new Response(
       JSON.stringify({
         success: true,
         transactionId,
+        completed: !charge,
         qrData: transaction.khqr_data,
+        expiresAt: charge?.expires_at ?? null,
+        amount: amountDue,
+        discountAmount: reservation?.discountAmount ?? 0,
         planDetails: {
           name: plan.name,
           price: plan.price,
@@ -1,31 +1,14 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-import { S3Client } from "https://deno.land/x/s3_lite_client@0.7.0/mod.ts";
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.81.1';
+import { getS3Client } from '../_shared/storage/idrivee2.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
-// Storage configurations
-const storageConfigs = [
-  {
-    accessKey: Deno.env.get('IDRIVEE2_ACCESS_KEY_1')!,
-    secretKey: Deno.env.get('IDRIVEE2_SECRET_KEY_1')!,
-  },
-  {
-    accessKey: Deno.env.get('IDRIVEE2_ACCESS_KEY_2')!,
-    secretKey: Deno.env.get('IDRIVEE2_SECRET_KEY_2')!,
-  },
-  {
-    accessKey: Deno.env.get('IDRIVEE2_ACCESS_KEY_3')!,
-    secretKey: Deno.env.get('IDRIVEE2_SECRET_KEY_3')!,
-  },
-];
-
-const ENDPOINT = 's3.ap-southeast-1.idrivee2.com';
-const REGION = 'ap-southeast-1';
+const MAX_BATCH = 100;
 
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
@@ -51,63 +34,92 @@ serve(async (req) => {
       throw new Error('Unauthorized');
     }
 
-    const { filePath } = await req.json();
+    const { filePath, filePaths, orphansOnly = false } = await req.json();
+    const paths: string[] = Array.isArray(filePaths) ? filePaths : filePath ? [filePath] : [];
 
-    if (!filePath) {
+    if (paths.length === 0) {
       throw new Error('File path is required');
     }
 
-    console.log(`Deleting file: ${filePath}`);
+    // Content editors manage everyone's files; anyone else only their own, one at a time
+    const { data: canEdit } = await supabase.rpc('has_permission', { _user_id: user.id, _permission: 'content.edit' });
+    if ((paths.length > 1 || orphansOnly) && !canEdit) {
+      throw new Error('Unauthorized: only content editors can delete files in bulk');
+    }
+    if (paths.length > MAX_BATCH) {
+      throw new Error(`At most ${MAX_BATCH} files can be deleted at once`);
+    }
 
-    // Get file metadata from database
-    const { data: fileData, error: fileError } = await supabase
-      .from('media_files')
-      .select('*')
-      .eq('file_path', filePath)
-      .eq('user_id', user.id)
-      .single();
+    const deleteOne = async (path: string) => {
+      console.log(`Deleting file: ${path}`);
 
-    // Use default storage account if file not found in DB (for legacy files)
-    const storageAccount = fileData?.storage_account || 1;
-    const bucketName = fileData?.bucket_name || 'media-files';
-    const storage = storageConfigs[storageAccount - 1];
+      // Orphan cleanup re-checks right before deleting, in case the file was attached since it was listed
+      if (orphansOnly) {
+        const { data: referenced, error: refError } = await supabase.rpc('media_file_is_referenced', { _file_path: path });
+        if (refError) throw new Error(refError.message);
+        if (referenced) return 'skipped' as const;
+      }
 
-    if (!storage.accessKey || !storage.secretKey) {
-      throw new Error(`Storage account ${storageAccount} not configured`);
-    }
+      // Get file metadata from database
+      let fileQuery = supabase.from('media_files').select('*').eq('file_path', path);
+      if (!canEdit) fileQuery = fileQuery.eq('user_id', user.id);
+      const { data: fileData } = await fileQuery.maybeSingle();
 
-    // Create S3 client
-    const s3Client = new S3Client({
-      endPoint: ENDPOINT,
-      region: REGION,
-      accessKey: storage.accessKey,
-      secretKey: storage.secretKey,
-      useSSL: true,
-      pathStyle: false,
-      bucket: bucketName,
-    });
-
-    // Delete from S3
-    try {
-      await s3Client.deleteObject(filePath);
-      console.log(`✓ File deleted from storage`);
-    } catch (s3Error) {
-      console.warn('S3 delete failed (file may not exist):', s3Error);
-    }
+      // Use default storage account if file not found in DB (for legacy files)
+      const storageAccount = fileData?.storage_account || 1;
+      const bucketName = fileData?.bucket_name || 'media-files';
+
+      // Create S3 client
+      const s3Client = getS3Client(storageAccount, bucketName);
 
-    // Delete metadata from database
-    const { error: deleteError } = await supabase
-      .from('media_files')
-      .delete()
-      .eq('file_path', filePath)
-      .eq('user_id', user.id);
+      // Delete from S3
+      try {
+        await s3Client.deleteObject(path);
+        console.log(`✓ File deleted from storage`);
+      } catch (s3Error) {
+        console.warn('S3 delete failed (file may not exist):', s3Error);
+      }
 
-    if (deleteError) {
-      console.error('Failed to delete file metadata:', deleteError);
-      throw new Error('Failed to delete file metadata');
+      // Delete metadata from database
+      let deleteQuery = supabase.from('media_files').delete().eq('file_path', path);
+      if (!canEdit) deleteQuery = deleteQuery.eq('user_id', user.id);
+      const { error: deleteError } = await deleteQuery;
+
+      if (deleteError) {
+        console.error('Failed to delete file metadata:', deleteError);
+        throw new Error('Failed to delete file metadata');
+      }
+
+      console.log(`✓ File metadata deleted from database`);
+      return 'deleted' as const;
+    };
+
+    if (Array.isArray(filePaths)) {
+      const deleted: string[] = [];
+      const skipped: string[] = [];
+      const failed: { path: string; error: string }[] = [];
+
+      for (const path of paths) {
+        try {
+          const outcome = await deleteOne(path);
+          (outcome === 'deleted' ? deleted : skipped).push(path);
+        } catch (error) {
+          failed.push({ path, error: error instanceof Error ? error.message : 'Unknown error' });
+        }
+      }
+
+      return new Response(
+        JSON.stringify({ success: true, deleted, skipped, failed }),
+        {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          status: 200,
+        }
+      );
     }
 
-    console.log(`✓ File metadata deleted from database`);
+    if ((await deleteOne(paths[0])) === 'skipped') {
+      throw new Error('File is still in use');
+    }
 
     return new Response(
       JSON.stringify({
@@ -0,0 +1,51 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-cron-secret',
+};
+
+// Delivers scheduled notifications whose time has come. Meant to be called every minute by
+// pg_cron (or any scheduler) with the CRON_SECRET header, not by browsers.
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const cronSecret = Deno.env.get('CRON_SECRET');
+  if (!cronSecret || req.headers.get('x-cron-secret') !== cronSecret) {
+    return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+      status: 401,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+
+  try {
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    const { data: results, error } = await supabaseClient.rpc('deliver_due_notifications', { _limit: 20 });
+    if (error) throw error;
+
+    for (const result of results ?? []) {
+      if (result.error) {
+        console.error(`Notification ${result.notification_id} failed:`, result.error);
+      } else {
+        console.log(`Notification ${result.notification_id} delivered to ${result.recipients} users`);
+      }
+    }
+
+    return new Response(
+      JSON.stringify({ processed: results?.length ?? 0, results }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Error dispatching notifications:', error);
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : 'Unknown error' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
@@ -1,11 +1,209 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.81.1';
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.81.1';
+import { PlaybackSourceError, signSourceUrls } from '../_shared/storage/playback.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
+type MediaType = 'movie' | 'series' | 'anime';
+type AccessType = 'free' | 'rent' | 'vip';
+
+// Denial reasons the player maps to its rent / subscribe / top-up prompts
+type DenialReason =
+  | 'VIP_REQUIRED'
+  | 'RENTAL_REQUIRED'
+  | 'VIP_OR_RENTAL_REQUIRED'
+  | 'CONTENT_UNAVAILABLE'
+  | 'STREAM_LIMIT_REACHED';
+
+interface Entitlement {
+  mediaId: string;
+  mediaType: MediaType;
+  episodeId: string | null;
+  access: AccessType;
+  excludeFromPlan: boolean;
+  rentalPrice: number | null;
+  rentalPeriodDays: number;
+  rentalMaxDevices: number;
+}
+
+class AccessDeniedError extends Error {
+  reason: DenialReason;
+  details: Record<string, unknown>;
+
+  constructor(reason: DenialReason, message: string, details: Record<string, unknown> = {}) {
+    super(message);
+    this.reason = reason;
+    this.details = details;
+  }
+}
+
+interface PlaybackDrm {
+  keySystem: string;
+  licenseServerUrl: string | null;
+  headers: Record<string, string>;
+  clearKeys: Record<string, string>;
+}
+
+// License configuration for a source. A source pointing at a missing or disabled profile
+// cannot be decrypted, so it is refused instead of being served without keys.
+const loadDrm = async (admin: SupabaseClient, drmProfileId: string | null): Promise<PlaybackDrm | null> => {
+  if (!drmProfileId) return null;
+
+  const { data: profile } = await admin
+    .from('drm_profiles')
+    .select('key_system, license_server_url, license_headers, clearkey_keys, is_active')
+    .eq('id', drmProfileId)
+    .maybeSingle();
+
+  if (!profile || !profile.is_active) {
+    throw new AccessDeniedError('CONTENT_UNAVAILABLE', 'ACCESS_DENIED: DRM profile for this source is unavailable');
+  }
+
+  const clearKeys: Record<string, string> = {};
+  for (const pair of (profile.clearkey_keys ?? []) as { kid?: string; key?: string }[]) {
+    if (pair.kid && pair.key) {
+      clearKeys[pair.kid.replace(/-/g, '').toLowerCase()] = pair.key.replace(/-/g, '').toLowerCase();
+    }
+  }
+
+  return {
+    keySystem: profile.key_system,
+    licenseServerUrl: profile.license_server_url,
+    headers: (profile.license_headers ?? {}) as Record<string, string>,
+    clearKeys,
+  };
+};
+
+// Players heartbeat well inside the lease TTL (see playback_lease_ttl in the database)
+const LEASE_HEARTBEAT_SECONDS = 30;
+const DEFAULT_MAX_STREAMS = 2;
+
+interface LeaseRequest {
+  deviceId: string;
+  deviceName: string | null;
+  deviceType: string | null;
+  ipAddress: string | null;
+  userAgent: string | null;
+}
+
+// Reserves a concurrent-stream slot. The database counts live leases under a per-user lock,
+// so the limit holds no matter what the client stores locally.
+const acquireLease = async (
+  admin: SupabaseClient,
+  userId: string,
+  sourceId: string,
+  entitlement: Entitlement,
+  maxStreams: number,
+  request: LeaseRequest
+) => {
+  const { data, error } = await admin.rpc('acquire_playback_lease', {
+    _user_id: userId,
+    _device_id: request.deviceId,
+    _max_streams: maxStreams,
+    _device_name: request.deviceName,
+    _device_type: request.deviceType,
+    _source_id: sourceId,
+    _media_id: entitlement.mediaId,
+    _media_type: entitlement.mediaType,
+    _ip_address: request.ipAddress,
+    _user_agent: request.userAgent,
+  });
+
+  if (error) {
+    if (error.message?.includes('STREAM_LIMIT_REACHED')) {
+      throw new AccessDeniedError(
+        'STREAM_LIMIT_REACHED',
+        `ACCESS_DENIED: Your account is already streaming on ${maxStreams} device${maxStreams === 1 ? '' : 's'}`,
+        { maxStreams }
+      );
+    }
+    throw error;
+  }
+
+  const lease = Array.isArray(data) ? data[0] : data;
+  return {
+    id: lease.lease_id as string,
+    expiresAt: lease.expires_at as string,
+    heartbeatSeconds: LEASE_HEARTBEAT_SECONDS,
+    activeStreams: lease.active_streams as number,
+    maxStreams,
+  };
+};
+
+const normalizeAccess = (value: unknown): AccessType =>
+  value === 'rent' || value === 'vip' ? value : value === 'free' ? 'free' : 'vip';
+
+const ACCESS_RANK: Record<AccessType, number> = { free: 0, rent: 1, vip: 2 };
+
+// episodes.access defaults to 'free', so an episode can only tighten its parent's access, never loosen it
+const stricterAccess = (a: AccessType, b: AccessType) => (ACCESS_RANK[a] >= ACCESS_RANK[b] ? a : b);
+
+const PARENT_COLUMNS = 'id, access, exclude_from_plan, rental_price, rental_period_days, rental_max_devices';
+
+// Resolve the content a video source belongs to and read its access rules from the database.
+// Sources hang either off an episode (episode -> season -> series/anime) or directly off a movie/anime.
+const resolveEntitlement = async (
+  admin: SupabaseClient,
+  videoSource: { media_id: string | null; episode_id: string | null }
+): Promise<Entitlement | null> => {
+  let parentId = videoSource.media_id;
+  let episodeAccess: AccessType | null = null;
+
+  if (videoSource.episode_id) {
+    const { data: episode } = await admin
+      .from('episodes')
+      .select('id, season_id, access')
+      .eq('id', videoSource.episode_id)
+      .maybeSingle();
+
+    if (!episode) return null;
+    episodeAccess = episode.access ? normalizeAccess(episode.access) : null;
+
+    const { data: season } = await admin
+      .from('seasons')
+      .select('media_id')
+      .eq('id', episode.season_id)
+      .maybeSingle();
+
+    if (!season) return null;
+    parentId = season.media_id;
+  }
+
+  if (!parentId) return null;
+
+  const candidates: { table: string; mediaType: MediaType }[] = videoSource.episode_id
+    ? [{ table: 'series', mediaType: 'series' }, { table: 'animes', mediaType: 'anime' }]
+    : [{ table: 'movies', mediaType: 'movie' }, { table: 'animes', mediaType: 'anime' }];
+
+  for (const { table, mediaType } of candidates) {
+    const { data: parent } = await admin
+      .from(table)
+      .select(PARENT_COLUMNS)
+      .eq('id', parentId)
+      .maybeSingle();
+
+    if (parent) {
+      return {
+        mediaId: parent.id,
+        mediaType,
+        episodeId: videoSource.episode_id,
+        access: episodeAccess
+          ? stricterAccess(episodeAccess, normalizeAccess(parent.access))
+          : normalizeAccess(parent.access),
+        excludeFromPlan: !!parent.exclude_from_plan,
+        rentalPrice: parent.rental_price !== null ? Number(parent.rental_price) : null,
+        rentalPeriodDays: parent.rental_period_days || 7,
+        rentalMaxDevices: parent.rental_max_devices || 1,
+      };
+    }
+  }
+
+  return null;
+};
+
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
@@ -24,113 +222,182 @@ serve(async (req) => {
       { global: { headers: { Authorization: authHeader } } }
     );
 
-    // Get authenticated user
-    const { data: { user }, error: authError } = await supabase.auth.getUser();
-    if (authError || !user) {
-      throw new Error('Unauthorized: Invalid user');
-    }
+    // Service role client for reading content rules regardless of RLS
+    const admin = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    // Signed-out viewers may still stream free titles (bucket-hosted sources need signing either way)
+    const { data: { user } } = await supabase.auth.getUser();
 
-    const { 
-      sourceId, // video source id
-      episodeId, // for series/anime
-      movieId, // for movies
-      mediaId, // media id for rental check
-      mediaType, // 'movie' | 'series' | 'anime'
-      accessType, // 'free' | 'rent' | 'vip'
-      excludeFromPlan 
-    } = await req.json();
+    // Only the source id is trusted from the client - access rules come from the database.
+    // The device id just labels the lease; the stream limit is counted server-side.
+    const { sourceId, deviceId, deviceName, deviceType } = await req.json();
 
     if (!sourceId) {
       throw new Error('Source ID is required');
     }
 
-    console.log('Validating access for user:', user.id, 'source:', sourceId);
+    console.log('Validating access for user:', user?.id ?? 'anonymous', 'source:', sourceId);
 
-    // If content is free, allow access
-    if (accessType === 'free') {
+    const { data: videoSource, error: sourceError } = await admin
+      .from('video_sources')
+      .select('*')
+      .eq('id', sourceId)
+      .maybeSingle();
+
+    if (sourceError || !videoSource) {
+      throw new Error('Video source not found');
+    }
+
+    const entitlement = await resolveEntitlement(admin, videoSource);
+    if (!entitlement) {
+      throw new AccessDeniedError('CONTENT_UNAVAILABLE', 'ACCESS_DENIED: Content for this source was not found');
+    }
+
+    console.log('Resolved entitlement:', entitlement);
+
+    // Free content is not metered; paid content needs a stream slot
+    let maxStreams: number | null = null;
+
+    // Paid titles and DRM license configuration are only handed to signed-in viewers
+    if (!user && (entitlement.access !== 'free' || videoSource.drm_profile_id)) {
+      throw new Error('Unauthorized: Invalid user');
+    }
+
+    if (entitlement.access === 'free' || !user) {
       console.log('Free content - allowing access');
     } else {
+      const now = new Date().toISOString();
+
       // Check subscription status
-      let hasActiveSubscription = false;
-      const { data: subscription } = await supabase
+      const { data: subscription } = await admin
         .from('user_subscriptions')
-        .select('*')
+        .select('id, subscription_plans(max_devices)')
         .eq('user_id', user.id)
         .eq('is_active', true)
         .eq('payment_status', 'completed')
-        .gte('end_date', new Date().toISOString())
+        .gte('end_date', now)
+        .limit(1)
         .maybeSingle();
 
-      hasActiveSubscription = !!subscription;
+      const hasActiveSubscription = !!subscription;
       console.log('Has active subscription:', hasActiveSubscription);
 
-      // Check rental status
-      let hasActiveRental = false;
-      if (mediaId && mediaType) {
-        const { data: rental } = await supabase
-          .from('user_rentals')
-          .select('*')
-          .eq('user_id', user.id)
-          .eq('media_id', mediaId)
-          .eq('media_type', mediaType)
-          .eq('payment_status', 'completed')
-          .gte('end_date', new Date().toISOString())
-          .maybeSingle();
-
-        hasActiveRental = !!rental;
-        console.log('Has active rental:', hasActiveRental);
-      }
+      // Check rental status against the parent content
+      const { data: rental } = await admin
+        .from('user_rentals')
+        .select('id')
+        .eq('user_id', user.id)
+        .eq('media_id', entitlement.mediaId)
+        .eq('media_type', entitlement.mediaType)
+        .eq('payment_status', 'completed')
+        .gte('end_date', now)
+        .limit(1)
+        .maybeSingle();
+
+      const hasActiveRental = !!rental;
+      console.log('Has active rental:', hasActiveRental);
 
-      // Validate access based on access type
-      if (accessType === 'rent' && excludeFromPlan) {
+      // Wallet balance lets the player offer a top-up before renting
+      const { data: wallet } = await admin
+        .from('user_wallets')
+        .select('balance')
+        .eq('user_id', user.id)
+        .maybeSingle();
+
+      const walletBalance = Number(wallet?.balance ?? 0);
+      const denialDetails = {
+        mediaId: entitlement.mediaId,
+        mediaType: entitlement.mediaType,
+        access: entitlement.access,
+        excludeFromPlan: entitlement.excludeFromPlan,
+        rentalPrice: entitlement.rentalPrice,
+        rentalPeriodDays: entitlement.rentalPeriodDays,
+        walletBalance,
+        topupRequired: entitlement.rentalPrice !== null && walletBalance < entitlement.rentalPrice,
+      };
+
+      if (entitlement.access === 'rent' && entitlement.excludeFromPlan) {
         // Rent with exclude: everyone needs to pay (unless they have active rental)
         if (!hasActiveRental) {
-          throw new Error('ACCESS_DENIED: Rental required for this content');
+          throw new AccessDeniedError('RENTAL_REQUIRED', 'ACCESS_DENIED: Rental required for this content', denialDetails);
         }
-      } else if (accessType === 'rent' && !excludeFromPlan) {
+      } else if (entitlement.access === 'rent') {
         // Rent without exclude: VIP members or rental holders can access
         if (!hasActiveSubscription && !hasActiveRental) {
-          throw new Error('ACCESS_DENIED: Subscription or rental required');
+          throw new AccessDeniedError('VIP_OR_RENTAL_REQUIRED', 'ACCESS_DENIED: Subscription or rental required', denialDetails);
         }
-      } else if (accessType === 'vip') {
+      } else if (entitlement.access === 'vip') {
         // VIP content: only VIP members can watch
         if (!hasActiveSubscription) {
-          throw new Error('ACCESS_DENIED: VIP subscription required');
+          throw new AccessDeniedError('VIP_REQUIRED', 'ACCESS_DENIED: VIP subscription required', {
+            ...denialDetails,
+            topupRequired: false,
+          });
         }
       }
+
+      // Whichever entitlement the viewer holds sets the limit; holding both grants the larger one
+      const planMaxDevices = (subscription?.subscription_plans as { max_devices: number | null } | null)?.max_devices;
+      const limits = [
+        hasActiveSubscription ? planMaxDevices || DEFAULT_MAX_STREAMS : 0,
+        hasActiveRental ? entitlement.rentalMaxDevices : 0,
+      ];
+      maxStreams = Math.max(...limits) || DEFAULT_MAX_STREAMS;
     }
 
-    // User has access - get the video source
-    const { data: videoSource, error: sourceError } = await supabase
-      .from('video_sources')
-      .select('*')
-      .eq('id', sourceId)
-      .single();
+    const drm = await loadDrm(admin, videoSource.drm_profile_id);
 
-    if (sourceError || !videoSource) {
-      throw new Error('Video source not found');
+    const lease = !user || maxStreams === null
+      ? null
+      : await acquireLease(admin, user.id, videoSource.id, entitlement, maxStreams, {
+          deviceId: typeof deviceId === 'string' && deviceId ? deviceId.slice(0, 100) : crypto.randomUUID(),
+          deviceName: typeof deviceName === 'string' ? deviceName.slice(0, 100) : null,
+          deviceType: typeof deviceType === 'string' ? deviceType.slice(0, 20) : null,
+          ipAddress: req.headers.get('x-forwarded-for')?.split(',')[0].trim() ?? null,
+          userAgent: req.headers.get('user-agent'),
+        });
+
+    // Bucket-hosted files come back presigned; expiresAt tells the player when to ask again
+    let signed;
+    try {
+      signed = await signSourceUrls(admin, videoSource, lease?.id ?? null);
+    } catch (error) {
+      // Nothing will be played, so the stream slot is given back straight away
+      if (lease) {
+        await admin
+          .from('playback_leases')
+          .update({ revoked_at: new Date().toISOString(), revoked_reason: 'released' })
+          .eq('id', lease.id);
+      }
+      throw error;
     }
 
     console.log('Access granted - returning video source');
 
-    // Return the video source with a token that expires
-    const accessToken = crypto.randomUUID();
-    const expiresAt = new Date(Date.now() + 30 * 60 * 1000); // 30 minutes
-
     return new Response(
       JSON.stringify({
         success: true,
         source: {
           id: videoSource.id,
-          url: videoSource.url,
-          quality_urls: videoSource.quality_urls,
+          url: signed.url,
+          quality_urls: signed.qualityUrls,
           source_type: videoSource.source_type,
           server_name: videoSource.server_name,
           quality: videoSource.quality,
           is_default: videoSource.is_default,
+          drm,
+        },
+        entitlement: {
+          mediaId: entitlement.mediaId,
+          mediaType: entitlement.mediaType,
+          access: entitlement.access,
+          rentalMaxDevices: entitlement.rentalMaxDevices,
         },
-        accessToken,
-        expiresAt: expiresAt.toISOString(),
+        lease,
+        expiresAt: signed.expiresAt,
       }),
       {
         headers: { ...corsHeaders, 'Content-Type': 'application/json' },
@@ -139,18 +406,21 @@ serve(async (req) => {
     );
   } catch (error) {
     console.error('Error:', error);
-    
+
     const message = error instanceof Error ? error.message : 'Unknown error';
-    const isAccessDenied = message.startsWith('ACCESS_DENIED');
-    
+    const isAccessDenied = error instanceof AccessDeniedError;
+    const isBadSource = error instanceof PlaybackSourceError;
+
     return new Response(
       JSON.stringify({
         success: false,
         error: message,
-        code: isAccessDenied ? 'ACCESS_DENIED' : 'ERROR',
+        code: isAccessDenied ? 'ACCESS_DENIED' : isBadSource ? 'SOURCE_NOT_STREAMABLE' : 'ERROR',
+        reason: isAccessDenied ? error.reason : undefined,
+        details: isAccessDenied ? error.details : undefined,
       }),
       {
-        status: isAccessDenied ? 403 : 500,
+        status: isAccessDenied ? 403 : isBadSource ? 422 : 500,
         headers: { ...corsHeaders, 'Content-Type': 'application/json' },
       }
     );
@@ -20,6 +20,13 @@ interface TMDBMovie {
   backdrop_path: string | null;
   genres: { id: number; name: string }[];
   imdb_id?: string | null;
+  original_language?: string;
+  belongs_to_collection?: {
+    id: number;
+    name: string;
+    poster_path: string | null;
+    backdrop_path: string | null;
+  } | null;
 }
 
 interface TMDBCast {
@@ -37,6 +44,56 @@ interface TMDBVideo {
   official: boolean;
 }
 
+// Find or create the collection for a TMDB franchise and add the movie to it.
+// New collections take their overview from TMDB; existing ones keep whatever the admin set.
+async function linkCollection(
+  supabase: ReturnType<typeof createClient>,
+  movieId: string,
+  tmdbCollection: NonNullable<TMDBMovie['belongs_to_collection']>
+) {
+  let { data: collection } = await supabase
+    .from('collections')
+    .select('id')
+    .eq('tmdb_id', tmdbCollection.id)
+    .maybeSingle();
+
+  if (!collection) {
+    let overview: string | null = null;
+    try {
+      const response = await fetch(`${TMDB_BASE_URL}/collection/${tmdbCollection.id}?api_key=${TMDB_API_KEY}`);
+      if (response.ok) overview = (await response.json()).overview || null;
+    } catch (err) {
+      console.error(`Failed to fetch TMDB collection ${tmdbCollection.id}:`, err);
+    }
+
+    const { data: created, error } = await supabase
+      .from('collections')
+      .upsert({
+        tmdb_id: tmdbCollection.id,
+        name: tmdbCollection.name,
+        description: overview,
+        poster_url: tmdbCollection.poster_path ? `https://image.tmdb.org/t/p/w500${tmdbCollection.poster_path}` : null,
+        backdrop_url: tmdbCollection.backdrop_path ? `https://image.tmdb.org/t/p/original${tmdbCollection.backdrop_path}` : null,
+      }, { onConflict: 'tmdb_id' })
+      .select('id')
+      .single();
+
+    if (error) throw error;
+    collection = created;
+  }
+
+  const { error: itemError } = await supabase
+    .from('collection_items')
+    .upsert({
+      collection_id: collection.id,
+      media_id: movieId,
+      media_type: 'movie',
+    }, { onConflict: 'collection_id,media_id,media_type', ignoreDuplicates: true });
+
+  if (itemError) throw itemError;
+  return collection.id;
+}
+
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
@@ -168,6 +225,7 @@ serve(async (req) => {
           trailer_url: trailerUrl,
           description: movie.overview || 'No description available',
           imdb_id: movie.imdb_id ?? null,
+          original_language: movie.original_language || null,
           tmdb_id: tmdbId.toString(),
         };
 
@@ -208,6 +266,15 @@ serve(async (req) => {
           }
         }
 
+        if (movie.belongs_to_collection) {
+          try {
+            const collectionId = await linkCollection(supabase, inserted.id, movie.belongs_to_collection);
+            console.log(`Linked movie ${inserted.id} to collection ${collectionId}`);
+          } catch (err) {
+            console.error(`Failed to link collection for ${tmdbId}:`, err);
+          }
+        }
+
         results.success.push(tmdbId);
       } catch (err) {
         console.error(`Failed to import movie ${tmdbId}:`, err);
@@ -0,0 +1,258 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.81.1';
+import {
+  abortMultipartUpload,
+  completeMultipartUpload,
+  createMultipartUpload,
+  listParts,
+  MultipartTarget,
+  partSizeFor,
+  presignPart,
+} from '../_shared/storage/multipart.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const allowedBuckets = ['media-files'];
+const allowedTypePrefixes = ['video/', 'image/'];
+const MAX_FILE_SIZE = 50 * 1024 * 1024 * 1024; // 50GB
+const PART_URL_EXPIRY = 60 * 60;
+const MAX_SIGN_BATCH = 50;
+
+// Problems with the request itself; anything else thrown is reported as a 500
+class UploadRequestError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.status = status;
+  }
+}
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      throw new UploadRequestError('Missing authorization header', 401);
+    }
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      { global: { headers: { Authorization: authHeader } } }
+    );
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      throw new UploadRequestError('Unauthorized', 401);
+    }
+
+    const { data: canEdit } = await supabase.rpc('has_permission', { _user_id: user.id, _permission: 'content.edit' });
+    if (!canEdit) {
+      return json({ success: false, error: 'Unauthorized: only content editors can upload media' }, 403);
+    }
+
+    const body = await req.json();
+
+    // Every action after create works on one of the caller's own open uploads (RLS scopes the lookup)
+    const loadUpload = async () => {
+      if (!body.uploadId) throw new UploadRequestError('uploadId is required');
+      const { data, error } = await supabase
+        .from('media_uploads')
+        .select('*')
+        .eq('id', body.uploadId)
+        .eq('status', 'uploading')
+        .maybeSingle();
+      if (error) throw new Error(error.message);
+      if (!data) throw new UploadRequestError('Upload not found or already finished', 404);
+      const target: MultipartTarget = {
+        storageAccount: data.storage_account,
+        bucket: data.bucket_name,
+        key: data.file_path,
+      };
+      return { upload: data, target };
+    };
+
+    switch (body.action) {
+      case 'create': {
+        const { fileName, fileSize, contentType, fingerprint } = body;
+        const fileCategory = body.category || 'general';
+        const bucketName = allowedBuckets.includes(body.bucket) ? body.bucket : 'media-files';
+
+        if (!fileName || !fingerprint || typeof fileSize !== 'number' || fileSize <= 0) {
+          throw new UploadRequestError('fileName, fileSize and fingerprint are required');
+        }
+        if (!allowedTypePrefixes.some((prefix) => String(contentType).startsWith(prefix))) {
+          throw new UploadRequestError(`Invalid file type: ${contentType}. Only video and image files can be uploaded here.`);
+        }
+        if (fileSize > MAX_FILE_SIZE) {
+          throw new UploadRequestError(`File size ${(fileSize / 1024 / 1024 / 1024).toFixed(2)}GB exceeds maximum allowed size of 50GB.`);
+        }
+
+        // Same file picked again: resume it and report which parts the store already has
+        const { data: existing } = await supabase
+          .from('media_uploads')
+          .select('*')
+          .eq('user_id', user.id)
+          .eq('file_fingerprint', fingerprint)
+          .eq('status', 'uploading')
+          .maybeSingle();
+
+        if (existing) {
+          const target = { storageAccount: existing.storage_account, bucket: existing.bucket_name, key: existing.file_path };
+          try {
+            const parts = await listParts(target, existing.s3_upload_id);
+            console.log(`Resuming upload ${existing.id}: ${parts.length} parts already stored`);
+            return json({ success: true, uploadId: existing.id, path: existing.file_path, partSize: existing.part_size, parts });
+          } catch (listError) {
+            // The store expired or dropped the upload; retire the row and start over
+            console.warn(`Upload ${existing.id} can no longer be resumed:`, listError);
+            await supabase.from('media_uploads').update({ status: 'aborted' }).eq('id', existing.id);
+          }
+        }
+
+        const path = body.path || '';
+        const timestamp = Date.now();
+        const randomString = Math.random().toString(36).substring(2, 10);
+        const fileExt = String(fileName).split('.').pop();
+        const storedName = `${timestamp}_${randomString}.${fileExt}`;
+        const fullPath = path ? `${path}/${storedName}` : storedName;
+        const target: MultipartTarget = { storageAccount: 1, bucket: bucketName, key: fullPath };
+
+        const s3UploadId = await createMultipartUpload(target, contentType);
+        const partSize = partSizeFor(fileSize);
+
+        const { data: upload, error: insertError } = await supabase
+          .from('media_uploads')
+          .insert({
+            user_id: user.id,
+            file_fingerprint: fingerprint,
+            file_name: fileName,
+            file_size: fileSize,
+            content_type: contentType,
+            file_category: fileCategory,
+            bucket_name: bucketName,
+            storage_account: 1,
+            file_path: fullPath,
+            s3_upload_id: s3UploadId,
+            part_size: partSize,
+          })
+          .select('id')
+          .single();
+
+        if (insertError) {
+          await abortMultipartUpload(target, s3UploadId).catch(() => undefined);
+          throw new Error('Failed to record upload: ' + insertError.message);
+        }
+
+        console.log(`Started multipart upload ${upload.id} for ${fullPath} (${fileSize} bytes, ${partSize} byte parts)`);
+        return json({ success: true, uploadId: upload.id, path: fullPath, partSize, parts: [] });
+      }
+
+      case 'sign': {
+        const { upload, target } = await loadUpload();
+        const partCount = Math.ceil(upload.file_size / upload.part_size);
+        const partNumbers: number[] = Array.isArray(body.partNumbers) ? body.partNumbers : [];
+
+        if (partNumbers.length === 0 || partNumbers.length > MAX_SIGN_BATCH) {
+          throw new UploadRequestError(`Between 1 and ${MAX_SIGN_BATCH} part numbers can be signed at once`);
+        }
+        if (partNumbers.some((n) => !Number.isInteger(n) || n < 1 || n > partCount)) {
+          throw new UploadRequestError(`Part numbers must be between 1 and ${partCount}`);
+        }
+
+        const urls = await Promise.all(
+          partNumbers.map(async (partNumber) => ({
+            partNumber,
+            url: await presignPart(target, upload.s3_upload_id, partNumber, PART_URL_EXPIRY),
+          }))
+        );
+        return json({ success: true, urls });
+      }
+
+      case 'complete': {
+        const { upload, target } = await loadUpload();
+
+        // Trust the store over the client for which parts arrived
+        const parts = await listParts(target, upload.s3_upload_id);
+        const partCount = Math.ceil(upload.file_size / upload.part_size);
+        if (parts.length !== partCount) {
+          throw new UploadRequestError(`Upload incomplete: ${parts.length} of ${partCount} parts received`, 409);
+        }
+
+        // The size was checked at create time; the stored parts must add up to exactly that
+        const size = parts.reduce((total, part) => total + part.size, 0);
+        if (size !== Number(upload.file_size)) {
+          throw new UploadRequestError(`Uploaded parts total ${size} bytes, expected ${upload.file_size}`, 409);
+        }
+
+        await completeMultipartUpload(target, upload.s3_upload_id, parts);
+
+        const { data: mediaFile, error: dbError } = await supabase
+          .from('media_files')
+          .insert({
+            user_id: user.id,
+            file_path: upload.file_path,
+            bucket_name: upload.bucket_name,
+            storage_account: upload.storage_account,
+            file_size: size,
+            content_type: upload.content_type,
+            file_category: upload.file_category,
+          })
+          .select('id')
+          .single();
+
+        if (dbError) {
+          console.error('Failed to save file metadata:', dbError);
+          throw new Error('Failed to save file metadata: ' + dbError.message);
+        }
+
+        await supabase
+          .from('media_uploads')
+          .update({ status: 'completed', media_file_id: mediaFile.id, completed_at: new Date().toISOString() })
+          .eq('id', upload.id);
+
+        console.log(`✓ Multipart upload ${upload.id} completed: ${upload.file_path}`);
+        return json({
+          success: true,
+          path: upload.file_path,
+          bucket: upload.bucket_name,
+          size,
+          contentType: upload.content_type,
+          storageAccount: upload.storage_account,
+          isPrivate: true,
+        });
+      }
+
+      case 'abort': {
+        const { upload, target } = await loadUpload();
+        try {
+          await abortMultipartUpload(target, upload.s3_upload_id);
+        } catch (s3Error) {
+          console.warn('S3 abort failed (upload may already be gone):', s3Error);
+        }
+        await supabase.from('media_uploads').update({ status: 'aborted' }).eq('id', upload.id);
+        return json({ success: true });
+      }
+
+      default:
+        throw new UploadRequestError(`Unknown action: ${body.action}`);
+    }
+  } catch (error) {
+    const msg = error instanceof Error ? error.message : 'Unknown error';
+    console.error('Multipart upload error:', msg);
+    return json({ success: false, error: msg }, error instanceof UploadRequestError ? error.status : 500);
+  }
+});
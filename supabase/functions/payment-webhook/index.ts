@@ -0,0 +1,125 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { applyChargeResult, PaymentTransaction } from '../_shared/payments/settlement.ts';
+import { verifyWebhookSignature } from '../_shared/payments/webhook.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-webhook-signature, x-webhook-timestamp',
+};
+
+interface WebhookEvent {
+  event_id: string;
+  md5: string;
+  status: 'completed' | 'failed';
+  amount: number;
+  currency: string;
+  external_ref?: string;
+  paid_at?: string;
+}
+
+// Payment notifications from the gateway (or the mock provider in local development).
+// Requests are authenticated by an HMAC signature, not a user JWT.
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const rawBody = await req.text();
+
+    const signatureValid = await verifyWebhookSignature(
+      Deno.env.get('PAYMENT_WEBHOOK_SECRET') ?? '',
+      req.headers.get('x-webhook-timestamp'),
+      rawBody,
+      req.headers.get('x-webhook-signature')
+    );
+
+    if (!signatureValid) {
+      console.warn('Rejected webhook with invalid signature');
+      return new Response(JSON.stringify({ error: 'Invalid signature' }), {
+        status: 401,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const event: WebhookEvent = JSON.parse(rawBody);
+    if (!event.event_id || !event.md5 || !event.status) {
+      return new Response(JSON.stringify({ error: 'Malformed event' }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    // Record the event first - a redelivered event hits the unique key and is acknowledged
+    // untouched, unless the earlier delivery failed before it was processed
+    const { error: eventError } = await supabaseClient
+      .from('payment_webhook_events')
+      .insert({
+        event_id: event.event_id,
+        md5: event.md5,
+        status: event.status,
+        payload: event,
+      });
+
+    if (eventError) {
+      if (eventError.code !== '23505') throw eventError;
+
+      const { data: existing } = await supabaseClient
+        .from('payment_webhook_events')
+        .select('processed_at')
+        .eq('event_id', event.event_id)
+        .single();
+
+      if (existing?.processed_at) {
+        console.log('Duplicate webhook event:', event.event_id);
+        return new Response(JSON.stringify({ received: true, duplicate: true }), {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+    }
+
+    const { data: transaction } = await supabaseClient
+      .from('payment_transactions')
+      .select('*')
+      .eq('khqr_data->>md5', event.md5)
+      .maybeSingle();
+
+    if (!transaction) {
+      console.warn('Webhook for unknown charge:', event.md5);
+      return new Response(JSON.stringify({ error: 'Transaction not found' }), {
+        status: 404,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const amountMatches =
+      Number(event.amount) >= Number(transaction.amount) && event.currency === transaction.currency;
+
+    const status = await applyChargeResult(supabaseClient, transaction as PaymentTransaction, {
+      status: event.status === 'completed' && amountMatches ? 'completed' : 'failed',
+      externalRef: event.external_ref,
+      paidAt: event.paid_at,
+      raw: event,
+    });
+
+    await supabaseClient
+      .from('payment_webhook_events')
+      .update({ processed_at: new Date().toISOString(), transaction_id: transaction.id })
+      .eq('event_id', event.event_id);
+
+    return new Response(JSON.stringify({ received: true, status }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Error:', error);
+    return new Response(JSON.stringify({ error: String(error) }), {
+      status: 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
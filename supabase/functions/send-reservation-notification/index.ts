@@ -7,135 +7,130 @@ const resend = new Resend(Deno.env.get("RESEND_API_KEY"));
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
   "Access-Control-Allow-Headers":
-    "authorization, x-client-info, apikey, content-type",
+    "authorization, x-client-info, apikey, content-type, x-cron-secret",
 };
 
-interface ReservationNotificationRequest {
-  releaseId: string;
-  releaseTitle: string;
-  releaseType: string;
+const SITE_URL = Deno.env.get("SITE_URL") ||
+  Deno.env.get("SUPABASE_URL")?.replace(".supabase.co", ".lovable.app") ||
+  "https://khmerzoon.lovable.app";
+
+interface ReservationEmail {
+  reservation_id: string;
+  email: string | null;
+  release_title: string;
+  release_type: string;
+  watch_path: string | null;
 }
 
+// Titles are editor-entered text, so everything interpolated into the email is escaped
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+
+const renderEmail = (reservation: ReservationEmail) => `
+  <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+    <h1 style="color: #333; border-bottom: 2px solid #007bff; padding-bottom: 10px;">
+      Great News! 🎉
+    </h1>
+    <p style="font-size: 16px; line-height: 1.6; color: #555;">
+      The ${escapeHtml(reservation.release_type)} you reserved, <strong>${escapeHtml(reservation.release_title)}</strong>, is now available to watch!
+    </p>
+    <div style="margin: 30px 0;">
+      <a href="${escapeHtml(SITE_URL + (reservation.watch_path || "/coming-soon"))}"
+         style="background-color: #007bff; color: white; padding: 12px 30px; text-decoration: none; border-radius: 5px; display: inline-block;">
+        Watch Now
+      </a>
+    </div>
+    <p style="font-size: 14px; color: #888; margin-top: 30px;">
+      Thank you for using KHMERZOON!<br>
+      <em>Your entertainment destination</em>
+    </p>
+  </div>
+`;
+
+// Emails reservation holders whose release has gone out. The in-app notifications are sent by the
+// database when the release flips to 'released'; this drains the email queue it leaves behind.
+// Meant to be called every few minutes by pg_cron (or any scheduler) with the CRON_SECRET header.
 const handler = async (req: Request): Promise<Response> => {
   // Handle CORS preflight requests
   if (req.method === "OPTIONS") {
     return new Response(null, { headers: corsHeaders });
   }
 
+  const cronSecret = Deno.env.get("CRON_SECRET");
+  if (!cronSecret || req.headers.get("x-cron-secret") !== cronSecret) {
+    return new Response(JSON.stringify({ error: "Unauthorized" }), {
+      status: 401,
+      headers: { "Content-Type": "application/json", ...corsHeaders },
+    });
+  }
+
   try {
     const supabaseClient = createClient(
       Deno.env.get("SUPABASE_URL") ?? "",
       Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? ""
     );
 
-    const { releaseId, releaseTitle, releaseType }: ReservationNotificationRequest = await req.json();
+    const { data: queued, error: claimError } = await supabaseClient.rpc("claim_reservation_emails", { _limit: 50 });
+    if (claimError) throw claimError;
 
-    console.log("Sending notification for release:", { releaseId, releaseTitle, releaseType });
+    const reservations = (queued ?? []) as ReservationEmail[];
+    console.log(`Claimed ${reservations.length} reservation emails`);
 
-    // Get all users who reserved this release
-    const { data: reservations, error: reservationsError } = await supabaseClient
-      .from("reservations")
-      .select(`
-        user_id,
-        profiles:user_id (email)
-      `)
-      .eq("release_id", releaseId)
-      .eq("notified", false);
+    let successful = 0;
+    for (const reservation of reservations) {
+      let failure: string | null = null;
 
-    if (reservationsError) {
-      console.error("Error fetching reservations:", reservationsError);
-      throw reservationsError;
-    }
-
-    if (!reservations || reservations.length === 0) {
-      console.log("No reservations found for this release");
-      return new Response(
-        JSON.stringify({ message: "No reservations to notify" }),
-        {
-          status: 200,
-          headers: { "Content-Type": "application/json", ...corsHeaders },
+      if (!reservation.email) {
+        failure = "No email address on the profile";
+      } else {
+        try {
+          const { error } = await resend.emails.send({
+            from: "KHMERZOON <onboarding@resend.dev>",
+            to: [reservation.email],
+            subject: `${reservation.release_title} is Now Available!`,
+            html: renderEmail(reservation),
+          });
+          if (error) failure = error.message;
+        } catch (emailError) {
+          failure = emailError instanceof Error ? emailError.message : "Failed to send email";
         }
-      );
-    }
-
-    console.log(`Found ${reservations.length} reservations to notify`);
-
-    // Send emails to all reserved users
-    const emailPromises = reservations.map(async (reservation: any) => {
-      const userEmail = reservation.profiles?.email;
-      
-      if (!userEmail) {
-        console.warn(`No email found for user ${reservation.user_id}`);
-        return null;
       }
 
-      try {
-        const emailResponse = await resend.emails.send({
-          from: "KHMERZOON <onboarding@resend.dev>",
-          to: [userEmail],
-          subject: `${releaseTitle} is Now Available!`,
-          html: `
-            <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
-              <h1 style="color: #333; border-bottom: 2px solid #007bff; padding-bottom: 10px;">
-                Great News! 🎉
-              </h1>
-              <p style="font-size: 16px; line-height: 1.6; color: #555;">
-                The ${releaseType} you reserved, <strong>${releaseTitle}</strong>, is now available to watch!
-              </p>
-              <div style="margin: 30px 0;">
-                <a href="${Deno.env.get("SUPABASE_URL")?.replace('.supabase.co', '.lovable.app') || 'https://khmerzoon.lovable.app'}/coming-soon" 
-                   style="background-color: #007bff; color: white; padding: 12px 30px; text-decoration: none; border-radius: 5px; display: inline-block;">
-                  Watch Now
-                </a>
-              </div>
-              <p style="font-size: 14px; color: #888; margin-top: 30px;">
-                Thank you for using KHMERZOON!<br>
-                <em>Your entertainment destination</em>
-              </p>
-            </div>
-          `,
-        });
-
-        console.log(`Email sent successfully to ${userEmail}:`, emailResponse);
-        return { userId: reservation.user_id, success: true };
-      } catch (emailError) {
-        console.error(`Error sending email to ${userEmail}:`, emailError);
-        return { userId: reservation.user_id, success: false, error: emailError };
+      if (failure) {
+        console.error(`Reservation ${reservation.reservation_id} email failed:`, failure);
+      } else {
+        successful++;
       }
-    });
 
-    const results = await Promise.all(emailPromises);
-    const successfulEmails = results.filter(r => r?.success);
-
-    // Mark all reservations as notified
-    if (successfulEmails.length > 0) {
-      const { error: updateError } = await supabaseClient
-        .from("reservations")
-        .update({ notified: true })
-        .eq("release_id", releaseId);
-
-      if (updateError) {
-        console.error("Error updating notification status:", updateError);
-      } else {
-        console.log(`Marked ${successfulEmails.length} reservations as notified`);
+      const { error: completeError } = await supabaseClient.rpc("complete_reservation_email", {
+        _reservation_id: reservation.reservation_id,
+        _error: failure,
+      });
+      if (completeError) {
+        console.error(`Failed to record email result for ${reservation.reservation_id}:`, completeError);
       }
     }
 
     return new Response(
       JSON.stringify({
-        message: "Notifications sent",
+        message: "Reservation emails processed",
         total: reservations.length,
-        successful: successfulEmails.length,
+        successful,
       }),
       {
         status: 200,
         headers: { "Content-Type": "application/json", ...corsHeaders },
       }
     );
-  } catch (error: any) {
+  } catch (error) {
     console.error("Error in send-reservation-notification function:", error);
     return new Response(
-      JSON.stringify({ error: error.message }),
+      JSON.stringify({ error: error instanceof Error ? error.message : "Unknown error" }),
       {
         status: 500,
         headers: { "Content-Type": "application/json", ...corsHeaders },
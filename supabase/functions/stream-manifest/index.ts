@@ -0,0 +1,143 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.81.1';
+import { getS3Client, parseBucketUrl, presignGet } from '../_shared/storage/idrivee2.ts';
+import {
+  isLeaseActive,
+  isManifestKey,
+  SEGMENT_URL_TTL_SECONDS,
+  streamUrl,
+  StreamToken,
+  tokenCovers,
+  verifyStreamToken,
+} from '../_shared/storage/playback.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, range',
+};
+
+const jsonError = (error: string, status: number) =>
+  new Response(JSON.stringify({ error }), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+// Resolve a manifest reference to a bucket key. Relative URIs resolve against the manifest's own key;
+// absolute ones only count when they point back into the same bucket.
+const resolveKey = (manifestKey: string, uri: string, claims: StreamToken): string | null => {
+  let key: string | null;
+
+  if (/^[a-z][a-z0-9+.-]*:/i.test(uri)) {
+    const object = parseBucketUrl(uri);
+    key = object && object.bucket === claims.bucket ? object.key : null;
+  } else {
+    const resolved = new URL(uri, `https://bucket.invalid/${manifestKey}`);
+    key = decodeURIComponent(resolved.pathname.slice(1));
+  }
+
+  return key !== null && tokenCovers(claims, key) ? key : null;
+};
+
+// Every playlist and segment URI in an HLS manifest, including URI="..." attributes on
+// EXT-X-KEY / EXT-X-MAP / EXT-X-MEDIA, is pointed back at this function under the same token.
+const rewriteHls = (body: string, manifestKey: string, token: string, claims: StreamToken) => {
+  const rewrite = (uri: string) => {
+    const key = resolveKey(manifestKey, uri, claims);
+    return key !== null ? streamUrl(token, key) : uri;
+  };
+
+  return body
+    .split('\n')
+    .map((line) => {
+      const trimmed = line.trim();
+      if (!trimmed) return line;
+      if (trimmed.startsWith('#')) {
+        return line.replace(/URI="([^"]+)"/g, (_, uri: string) => `URI="${rewrite(uri)}"`);
+      }
+      return rewrite(trimmed);
+    })
+    .join('\n');
+};
+
+// Relative DASH references already resolve against this function's URL (BaseURL nesting included),
+// so only absolute links into the bucket need rewriting.
+const rewriteDash = (body: string, manifestKey: string, token: string, claims: StreamToken) => {
+  const rewrite = (uri: string) => {
+    if (!/^https?:/i.test(uri)) return uri;
+    const key = resolveKey(manifestKey, uri, claims);
+    return key !== null ? streamUrl(token, key) : uri;
+  };
+
+  return body
+    .replace(/<BaseURL>([^<]+)<\/BaseURL>/g, (_, uri: string) => `<BaseURL>${rewrite(uri.trim())}</BaseURL>`)
+    .replace(/\b(media|initialization|sourceURL)="([^"]+)"/g, (_, attr: string, uri: string) => `${attr}="${rewrite(uri)}"`);
+};
+
+// Serves signed HLS/DASH playback: GET /stream-manifest/<token>/<key>.
+// Manifests are fetched from the bucket and rewritten; any other object is a 302 to a presigned URL.
+// Called by the video element and Shaka without an auth header - the token is the credential.
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const { pathname } = new URL(req.url);
+  const marker = 'stream-manifest/';
+  const rest = pathname.slice(pathname.indexOf(marker) + marker.length);
+  const slash = rest.indexOf('/');
+
+  if (pathname.indexOf(marker) === -1 || slash === -1) {
+    return jsonError('Not found', 404);
+  }
+
+  const token = rest.slice(0, slash);
+  const key = rest.slice(slash + 1).split('/').map(decodeURIComponent).join('/');
+
+  const claims = await verifyStreamToken(token);
+  if (!claims) {
+    return jsonError('URL_EXPIRED', 403);
+  }
+
+  if (!tokenCovers(claims, key) || key.split('/').includes('..')) {
+    return jsonError('Forbidden', 403);
+  }
+
+  try {
+    // Checked on every request, so playback stops within one segment of the lease ending
+    if (claims.lease) {
+      const admin = createClient(
+        Deno.env.get('SUPABASE_URL') ?? '',
+        Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+      );
+      if (!(await isLeaseActive(admin, claims.lease))) {
+        return jsonError('LEASE_ENDED', 403);
+      }
+    }
+
+    if (!isManifestKey(key)) {
+      const signedUrl = await presignGet(claims.account, { bucket: claims.bucket, key }, SEGMENT_URL_TTL_SECONDS);
+      return new Response(null, {
+        status: 302,
+        headers: { ...corsHeaders, Location: signedUrl, 'Cache-Control': 'private, no-store' },
+      });
+    }
+
+    const object = await getS3Client(claims.account, claims.bucket).getObject(key);
+    const body = await object.text();
+    const isHls = /\.m3u8$/i.test(key);
+
+    return new Response(
+      isHls ? rewriteHls(body, key, token, claims) : rewriteDash(body, key, token, claims),
+      {
+        status: 200,
+        headers: {
+          ...corsHeaders,
+          'Content-Type': isHls ? 'application/vnd.apple.mpegurl' : 'application/dash+xml',
+          'Cache-Control': 'private, no-store',
+        },
+      }
+    );
+  } catch (error) {
+    console.error('Stream manifest error:', error);
+    return jsonError(error instanceof Error ? error.message : 'Unknown error', 502);
+  }
+});
@@ -0,0 +1,62 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.81.1';
+import { getS3Client } from '../_shared/storage/idrivee2.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const jsonError = (error: string, status: number) =>
+  new Response(JSON.stringify({ error }), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+// Serves a sidecar subtitle: GET /subtitle-file?id=<subtitles.id>.
+// Subtitle rows are public, so the files are too; they are proxied rather than redirected so the
+// player's fetch never depends on the bucket's CORS rules.
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const id = new URL(req.url).searchParams.get('id');
+  if (!id) {
+    return jsonError('Missing subtitle id', 400);
+  }
+
+  const supabase = createClient(
+    Deno.env.get('SUPABASE_URL') ?? '',
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+  );
+
+  const { data: subtitle, error } = await supabase
+    .from('subtitles')
+    .select('file_path, bucket_name, storage_account, updated_at')
+    .eq('id', id)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Subtitle lookup failed:', error);
+    return jsonError(error.message, 500);
+  }
+  if (!subtitle) {
+    return jsonError('Not found', 404);
+  }
+
+  try {
+    const object = await getS3Client(subtitle.storage_account, subtitle.bucket_name).getObject(subtitle.file_path);
+    return new Response(await object.text(), {
+      status: 200,
+      headers: {
+        ...corsHeaders,
+        'Content-Type': 'text/vtt; charset=utf-8',
+        'Cache-Control': 'public, max-age=3600',
+        'Last-Modified': new Date(subtitle.updated_at).toUTCString(),
+      },
+    });
+  } catch (error) {
+    console.error('Subtitle fetch error:', error);
+    return jsonError(error instanceof Error ? error.message : 'Unknown error', 502);
+  }
+});
@@ -0,0 +1,173 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.81.1';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Widget payloads older than this are rejected so a captured one cannot be replayed later
+const MAX_AUTH_AGE_SECONDS = 24 * 60 * 60;
+// Accounts created from a Telegram login get an address nobody can receive mail at
+const PLACEHOLDER_DOMAIN = 'telegram.invalid';
+
+interface TelegramAuthData {
+  id: number;
+  first_name?: string;
+  last_name?: string;
+  username?: string;
+  photo_url?: string;
+  auth_date: number;
+  hash: string;
+}
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+const fromHex = (hex: string) => Uint8Array.from(hex.match(/../g)!, (byte) => parseInt(byte, 16));
+
+// https://core.telegram.org/widgets/login#checking-authorization
+const verifyTelegramData = async (data: TelegramAuthData, botToken: string) => {
+  if (!data?.id || !data.auth_date || !/^[0-9a-f]{64}$/i.test(String(data.hash))) return false;
+  if (Date.now() / 1000 - Number(data.auth_date) > MAX_AUTH_AGE_SECONDS) return false;
+
+  const checkString = Object.entries(data)
+    .filter(([key, value]) => key !== 'hash' && value !== undefined && value !== null)
+    .map(([key, value]) => `${key}=${value}`)
+    .sort()
+    .join('\n');
+
+  const encoder = new TextEncoder();
+  const secret = await crypto.subtle.digest('SHA-256', encoder.encode(botToken));
+  const key = await crypto.subtle.importKey('raw', secret, { name: 'HMAC', hash: 'SHA-256' }, false, ['verify']);
+  // verify compares in constant time, so the response time reveals nothing about the expected hash
+  return crypto.subtle.verify('HMAC', key, fromHex(data.hash), encoder.encode(checkString));
+};
+
+const identityFields = (data: TelegramAuthData) => ({
+  telegram_id: data.id,
+  username: data.username ?? null,
+  first_name: data.first_name ?? null,
+  last_name: data.last_name ?? null,
+  photo_url: data.photo_url ?? null,
+  last_login_at: new Date().toISOString(),
+});
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const botToken = Deno.env.get('TELEGRAM_BOT_TOKEN');
+    if (!botToken) {
+      throw new Error('Telegram login is not configured');
+    }
+
+    const admin = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    const { action, telegram } = await req.json();
+
+    // link/unlink act on the signed-in caller; login may create a new account
+    const requireUser = async () => {
+      const authHeader = req.headers.get('Authorization');
+      if (!authHeader) throw new Error('Missing authorization header');
+      const { data: { user }, error } = await admin.auth.getUser(authHeader.replace('Bearer ', ''));
+      if (error || !user) throw new Error('Unauthorized');
+      return user;
+    };
+
+    if (action !== 'unlink' && !(await verifyTelegramData(telegram, botToken))) {
+      return json({ error: 'Telegram login could not be verified' }, 401);
+    }
+
+    const { data: existing, error: lookupError } = telegram?.id
+      ? await admin.from('telegram_identities').select('user_id').eq('telegram_id', telegram.id).maybeSingle()
+      : { data: null, error: null };
+    if (lookupError) throw lookupError;
+
+    switch (action) {
+      case 'login': {
+        let userId = existing?.user_id;
+
+        if (!userId) {
+          const fullName = [telegram.first_name, telegram.last_name].filter(Boolean).join(' ');
+          const { data: created, error } = await admin.auth.admin.createUser({
+            email: `tg-${telegram.id}@${PLACEHOLDER_DOMAIN}`,
+            email_confirm: true,
+            user_metadata: {
+              full_name: fullName || telegram.username,
+              avatar_url: telegram.photo_url,
+              telegram_id: telegram.id,
+            },
+          });
+          if (error) throw error;
+          userId = created.user.id;
+          console.log(`Created account ${userId} for Telegram user ${telegram.id}`);
+        }
+
+        const { error: upsertError } = await admin
+          .from('telegram_identities')
+          .upsert({ user_id: userId, ...identityFields(telegram) }, { onConflict: 'telegram_id' });
+        if (upsertError) throw upsertError;
+
+        // A one-time token the browser exchanges for a normal session with verifyOtp
+        const { data: { user }, error: userError } = await admin.auth.admin.getUserById(userId);
+        if (userError || !user?.email) throw userError ?? new Error('Account has no email to sign in with');
+        const { data: link, error: linkError } = await admin.auth.admin.generateLink({
+          type: 'magiclink',
+          email: user.email,
+        });
+        if (linkError) throw linkError;
+
+        return json({ tokenHash: link.properties.hashed_token, isNewUser: !existing });
+      }
+
+      case 'link': {
+        const user = await requireUser();
+        if (existing && existing.user_id !== user.id) {
+          // Never move an identity between accounts: both may hold rentals, wallets and history
+          return json({ error: 'This Telegram account is already linked to another account' }, 409);
+        }
+
+        const { data: current } = await admin
+          .from('telegram_identities')
+          .select('telegram_id')
+          .eq('user_id', user.id)
+          .maybeSingle();
+        if (current && current.telegram_id !== telegram.id) {
+          return json({ error: 'Unlink your current Telegram account first' }, 409);
+        }
+
+        const { error } = await admin
+          .from('telegram_identities')
+          .upsert({ user_id: user.id, ...identityFields(telegram) }, { onConflict: 'user_id' });
+        if (error) throw error;
+        return json({ success: true });
+      }
+
+      case 'unlink': {
+        const user = await requireUser();
+        if (user.email?.endsWith(`@${PLACEHOLDER_DOMAIN}`)) {
+          return json({ error: 'Add an email address before removing your only way to sign in' }, 400);
+        }
+
+        const { error } = await admin.from('telegram_identities').delete().eq('user_id', user.id);
+        if (error) throw error;
+        return json({ success: true });
+      }
+
+      default:
+        throw new Error(`Unknown action: ${action}`);
+    }
+  } catch (error) {
+    console.error('Telegram auth error:', error);
+    return json({ error: error instanceof Error ? error.message : 'Unknown error' }, 500);
+  }
+});
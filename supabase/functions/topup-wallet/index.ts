@@ -1,4 +1,15 @@
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { getPaymentProvider } from '../_shared/payments/index.ts';
+import {
+  attachReservation,
+  cancelReservation,
+  CouponError,
+  couponHoldUntil,
+  couponMetadata,
+  CouponReservation,
+  reserveCoupon,
+} from '../_shared/payments/coupons.ts';
+import { maxTopupAmount, topupBonus } from '../_shared/payments/topup.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -29,10 +40,11 @@ Deno.serve(async (req) => {
       });
     }
 
-    const { amount } = await req.json();
+    const { amount, couponCode } = await req.json();
 
-    if (!amount || amount <= 0) {
-      return new Response(JSON.stringify({ error: 'Invalid amount' }), {
+    const amountDue = Math.round(Number(amount) * 100) / 100;
+    if (!Number.isFinite(amountDue) || amountDue <= 0 || amountDue > maxTopupAmount()) {
+      return new Response(JSON.stringify({ error: `Top-ups must be between $0.01 and $${maxTopupAmount()}` }), {
         status: 400,
         headers: { ...corsHeaders, 'Content-Type': 'application/json' },
       });
@@ -40,28 +52,62 @@ Deno.serve(async (req) => {
 
     const transactionId = `TOPUP-${Date.now()}-${user.id.substring(0, 8)}`;
 
+    const adminClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    let reservation: CouponReservation | null = null;
+    if (couponCode) {
+      try {
+        reservation = await reserveCoupon(adminClient, {
+          code: couponCode,
+          userId: user.id,
+          purpose: 'topup',
+          targetId: null,
+          amount: amountDue,
+          holdUntil: couponHoldUntil(),
+        });
+      } catch (error) {
+        if (!(error instanceof CouponError)) throw error;
+        return new Response(JSON.stringify({ error: error.message, code: error.code }), {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+    }
+
+    // The full amount is always charged; the coupon's value is credited as a capped bonus at settlement
+    const bonusAmount = reservation ? topupBonus(reservation.discountAmount) : 0;
+
+    const charge = await getPaymentProvider().createCharge({
+      transactionId,
+      amount: amountDue,
+      currency: 'USD',
+    });
+
     // Create payment transaction
-    const { data: transaction, error: transactionError } = await supabaseClient
+    const { data: transaction, error: transactionError } = await adminClient
       .from('payment_transactions')
       .insert({
         user_id: user.id,
         transaction_type: 'topup',
-        amount: amount,
+        amount: amountDue,
         currency: 'USD',
         payment_method: 'bakong_khqr',
         payment_status: 'pending',
         transaction_id: transactionId,
         reference_type: 'wallet_topup',
-        khqr_data: {
-          qr_string: `KHQR:${transactionId}:${amount}`,
-          merchant_id: 'MERCHANT_ID',
-          amount: amount,
-        },
+        khqr_data: charge,
+        provider: charge.provider,
+        expires_at: charge.expires_at,
+        metadata: couponMetadata(reservation, amountDue),
       })
       .select()
       .single();
 
     if (transactionError) {
+      if (reservation) await cancelReservation(adminClient, reservation);
       console.error('Transaction creation error:', transactionError);
       return new Response(JSON.stringify({ error: 'Failed to create transaction' }), {
         status: 500,
@@ -69,12 +115,19 @@ Deno.serve(async (req) => {
       });
     }
 
+    if (reservation) {
+      await attachReservation(adminClient, reservation, transaction.id, charge.expires_at);
+    }
+
     return new Response(
       JSON.stringify({
         success: true,
         transactionId,
         qrData: transaction.khqr_data,
-        amount: amount,
+        expiresAt: charge.expires_at,
+        amount: amountDue,
+        creditAmount: amountDue + bonusAmount,
+        bonusAmount,
       }),
       { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
     );
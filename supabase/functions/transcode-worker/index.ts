@@ -0,0 +1,177 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.81.1';
+import { ENDPOINT, getS3Client, presignGet } from '../_shared/storage/idrivee2.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-worker-secret',
+};
+
+// The worker streams the master with ffmpeg for as long as the transcode takes
+const SOURCE_URL_TTL_SECONDS = 24 * 60 * 60;
+const OUTPUT_URL_TTL_SECONDS = 60 * 60;
+const MAX_SIGN_BATCH = 200;
+
+interface OutputFile {
+  quality?: string;
+  path: string;
+  bytes: number;
+}
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+// Output names come from the worker; keep them inside the job's own prefix
+const outputKey = (prefix: string, name: string) => {
+  if (!name || name.startsWith('/') || name.split('/').some((part) => part === '..' || part === '')) {
+    throw new Error(`Invalid output name: ${name}`);
+  }
+  return `${prefix}/${name}`;
+};
+
+// Backend for scripts/transcode-worker.mjs. The worker holds no storage or database credentials:
+// it authenticates with TRANSCODE_WORKER_SECRET and gets presigned URLs for the master and its outputs.
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const workerSecret = Deno.env.get('TRANSCODE_WORKER_SECRET');
+  if (!workerSecret || req.headers.get('x-worker-secret') !== workerSecret) {
+    return json({ error: 'Unauthorized' }, 401);
+  }
+
+  try {
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    const body = await req.json();
+    const { action, jobId, workerId } = body;
+    if (!workerId) {
+      throw new Error('workerId is required');
+    }
+
+    const loadRunningJob = async () => {
+      const { data, error } = await supabase
+        .from('transcode_jobs')
+        .select('*')
+        .eq('id', jobId)
+        .eq('worker_id', workerId)
+        .eq('status', 'running')
+        .maybeSingle();
+      if (error) throw error;
+      if (!data) throw new Error('Job is not running on this worker');
+      return data;
+    };
+
+    switch (action) {
+      case 'claim': {
+        const { data, error } = await supabase.rpc('claim_transcode_job', { _worker_id: workerId });
+        if (error) throw error;
+        const job = data?.[0];
+        if (!job) return json({ job: null });
+
+        const sourceUrl = await presignGet(
+          job.source_storage_account,
+          { bucket: job.source_bucket, key: job.source_path },
+          SOURCE_URL_TTL_SECONDS
+        );
+        console.log(`Job ${job.id} claimed by ${workerId} (attempt ${job.attempts})`);
+        return json({
+          job: {
+            id: job.id,
+            attempt: job.attempts,
+            sourceUrl,
+            renditions: job.renditions,
+          },
+        });
+      }
+
+      case 'progress': {
+        const { data: status, error } = await supabase.rpc('report_transcode_progress', {
+          _job_id: jobId,
+          _worker_id: workerId,
+          _progress: Number(body.progress) || 0,
+        });
+        if (error) throw error;
+        return json({ status });
+      }
+
+      case 'log': {
+        const level = ['info', 'warn', 'error'].includes(body.level) ? body.level : 'info';
+        const { error } = await supabase.rpc('log_transcode_job', {
+          _job_id: jobId,
+          _level: level,
+          _message: String(body.message ?? ''),
+        });
+        if (error) throw error;
+        return json({ success: true });
+      }
+
+      case 'sign': {
+        const job = await loadRunningJob();
+        const names: string[] = Array.isArray(body.names) ? body.names : [];
+        if (names.length === 0 || names.length > MAX_SIGN_BATCH) {
+          throw new Error(`Between 1 and ${MAX_SIGN_BATCH} outputs can be signed at once`);
+        }
+
+        const client = getS3Client(job.source_storage_account, job.source_bucket);
+        const urls = await Promise.all(
+          names.map(async (name) => ({
+            name,
+            url: await client.getPresignedUrl('PUT', outputKey(job.output_prefix!, name), {
+              expirySeconds: OUTPUT_URL_TTL_SECONDS,
+            }),
+          }))
+        );
+        return json({ urls });
+      }
+
+      case 'complete': {
+        const job = await loadRunningJob();
+        const bucketUrl = (key: string) => `https://${job.source_bucket}.${ENDPOINT}/${key}`;
+        const toOutput = (file: OutputFile) => {
+          const path = outputKey(job.output_prefix!, file.path);
+          return { quality: file.quality, path, url: bucketUrl(path), bytes: Number(file.bytes) || 0 };
+        };
+
+        const renditions: OutputFile[] = Array.isArray(body.renditions) ? body.renditions : [];
+        if (!body.master?.path || renditions.length === 0 || renditions.some((r) => !r.quality)) {
+          throw new Error('A master playlist and at least one rendition are required');
+        }
+
+        const { data: videoSourceId, error } = await supabase.rpc('complete_transcode_job', {
+          _job_id: jobId,
+          _worker_id: workerId,
+          _master: toOutput(body.master),
+          _renditions: renditions.map(toOutput),
+        });
+        if (error) throw error;
+
+        console.log(`✓ Job ${jobId} completed, video source ${videoSourceId}`);
+        return json({ success: true, videoSourceId });
+      }
+
+      case 'fail': {
+        const { data: status, error } = await supabase.rpc('fail_transcode_job', {
+          _job_id: jobId,
+          _worker_id: workerId,
+          _error: String(body.error ?? 'Unknown error'),
+        });
+        if (error) throw error;
+        console.warn(`Job ${jobId} failed on ${workerId}: ${body.error} (now ${status ?? 'not running'})`);
+        return json({ status });
+      }
+
+      default:
+        throw new Error(`Unknown action: ${action}`);
+    }
+  } catch (error) {
+    console.error('Transcode worker error:', error);
+    return json({ error: error instanceof Error ? error.message : 'Unknown error' }, 500);
+  }
+});
@@ -2,6 +2,7 @@ import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { S3Client } from "https://deno.land/x/s3_lite_client@0.7.0/mod.ts";
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.81.1';
+import { subtitleFormatFromName, toWebVtt } from '../_shared/subtitles/webvtt.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -61,16 +62,31 @@ serve(async (req) => {
       throw new Error('No file provided');
     }
 
-    // Security: validate file type
-    const allowedMimeTypes = ['image/jpeg', 'image/png', 'image/webp'];
-    if (!allowedMimeTypes.includes(file.type)) {
-      throw new Error(`Invalid file type: ${file.type}. Only JPEG, PNG, and WEBP images are allowed.`);
+    // Subtitles are admin-only and stored as WebVTT whatever was uploaded (browsers report
+    // .srt/.ass with inconsistent MIME types, so the extension decides)
+    const isSubtitle = fileCategory === 'subtitle';
+    const subtitleFormat = isSubtitle ? subtitleFormatFromName(file.name) : null;
+
+    if (isSubtitle) {
+      const { data: canEdit } = await supabase.rpc('has_permission', { _user_id: user.id, _permission: 'content.edit' });
+      if (!canEdit) {
+        throw new Error('Unauthorized: only content editors can upload subtitles');
+      }
+      if (!subtitleFormat) {
+        throw new Error(`Invalid subtitle file: ${file.name}. Only SRT, VTT and ASS/SSA files are allowed.`);
+      }
+    } else {
+      // Security: validate file type
+      const allowedMimeTypes = ['image/jpeg', 'image/png', 'image/webp'];
+      if (!allowedMimeTypes.includes(file.type)) {
+        throw new Error(`Invalid file type: ${file.type}. Only JPEG, PNG, and WEBP images are allowed.`);
+      }
     }
 
-    // Security: validate file size (10MB max)
-    const maxSizeBytes = 10 * 1024 * 1024;
-    if (file.size > maxSizeBytes) {
-      throw new Error(`File size ${(file.size / 1024 / 1024).toFixed(2)}MB exceeds maximum allowed size of 10MB.`);
+    // Security: validate file size (10MB max, 2MB for subtitles)
+    const maxSizeMb = isSubtitle ? 2 : 10;
+    if (file.size > maxSizeMb * 1024 * 1024) {
+      throw new Error(`File size ${(file.size / 1024 / 1024).toFixed(2)}MB exceeds maximum allowed size of ${maxSizeMb}MB.`);
     }
 
     console.log(`File details:`, {
@@ -99,7 +115,7 @@ serve(async (req) => {
     // Generate unique filename
     const timestamp = Date.now();
     const randomString = Math.random().toString(36).substring(2, 10);
-    const fileExt = file.name.split('.').pop();
+    const fileExt = isSubtitle ? 'vtt' : file.name.split('.').pop();
     const fileName = `${timestamp}_${randomString}.${fileExt}`;
     const fullPath = path ? `${path}/${fileName}` : fileName;
 
@@ -107,7 +123,10 @@ serve(async (req) => {
 
     // Convert file to buffer
     const arrayBuffer = await file.arrayBuffer();
-    const buffer = new Uint8Array(arrayBuffer);
+    const buffer = subtitleFormat
+      ? new TextEncoder().encode(toWebVtt(new TextDecoder().decode(arrayBuffer), subtitleFormat))
+      : new Uint8Array(arrayBuffer);
+    const contentType = isSubtitle ? 'text/vtt' : file.type;
     console.log(`File converted to buffer, size: ${buffer.length} bytes`);
 
     // Upload to iDriveE2
@@ -115,7 +134,7 @@ serve(async (req) => {
     
     await s3Client.putObject(fullPath, buffer, {
       metadata: {
-        'content-type': file.type,
+        'content-type': contentType,
       },
     });
     
@@ -129,8 +148,8 @@ serve(async (req) => {
         file_path: fullPath,
         bucket_name: bucketName,
         storage_account: 1,
-        file_size: file.size,
-        content_type: file.type,
+        file_size: buffer.length,
+        content_type: contentType,
         file_category: fileCategory,
       });
 
@@ -149,9 +168,10 @@ serve(async (req) => {
         success: true,
         path: fullPath,
         bucket: bucketName,
-        size: file.size,
-        contentType: file.type,
+        size: buffer.length,
+        contentType,
         storageAccount: 1,
+        ...(subtitleFormat && { sourceFormat: subtitleFormat }),
         isPrivate: true,
       }),
       {
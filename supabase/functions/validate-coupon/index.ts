@@ -0,0 +1,133 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { CouponError, CouponPurpose, validateCoupon } from '../_shared/payments/coupons.ts';
+import { maxTopupAmount, topupBonus } from '../_shared/payments/topup.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+interface ValidateCouponRequest {
+  code: string;
+  purpose: CouponPurpose;
+  // Plan id for subscriptions, media id for rentals
+  targetId?: string;
+  mediaType?: 'movie' | 'series' | 'anime';
+  // Only used for top-ups; other prices are looked up here
+  amount?: number;
+}
+
+const MEDIA_TABLES = { movie: 'movies', series: 'series', anime: 'animes' } as const;
+
+// Preview a promo code at checkout. The code is only reserved when the payment is created.
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      {
+        global: {
+          headers: { Authorization: req.headers.get('Authorization')! },
+        },
+      }
+    );
+
+    const { data: { user }, error: authError } = await supabaseClient.auth.getUser();
+    if (authError || !user) {
+      return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+        status: 401,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const { code, purpose, targetId, mediaType, amount }: ValidateCouponRequest = await req.json();
+
+    if (!code?.trim()) {
+      return new Response(JSON.stringify({ valid: false, error: 'Enter a promo code' }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    let price: number | null = null;
+    if (purpose === 'subscription') {
+      const { data: plan } = await supabaseClient
+        .from('subscription_plans')
+        .select('price')
+        .eq('id', targetId)
+        .maybeSingle();
+      price = plan ? Number(plan.price) : null;
+    } else if (purpose === 'rental' && mediaType && MEDIA_TABLES[mediaType]) {
+      const { data: media } = await supabaseClient
+        .from(MEDIA_TABLES[mediaType])
+        .select('rental_price')
+        .eq('id', targetId)
+        .maybeSingle();
+      price = media?.rental_price ? Number(media.rental_price) : null;
+    } else if (purpose === 'topup') {
+      price = Number(amount) > 0 && Number(amount) <= maxTopupAmount() ? Number(amount) : null;
+    }
+
+    if (price === null) {
+      return new Response(JSON.stringify({ error: 'Invalid purchase' }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const adminClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    try {
+      const quote = await validateCoupon(adminClient, {
+        code,
+        userId: user.id,
+        purpose,
+        targetId: purpose === 'topup' ? null : targetId,
+        amount: price,
+      });
+
+      // Top-ups are charged in full; the code's value is credited on top as a capped bonus
+      if (purpose === 'topup') {
+        return new Response(
+          JSON.stringify({
+            valid: true,
+            code: quote.code,
+            originalAmount: price,
+            discountAmount: 0,
+            finalAmount: price,
+            bonusAmount: topupBonus(quote.discountAmount),
+          }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      return new Response(
+        JSON.stringify({
+          valid: true,
+          code: quote.code,
+          originalAmount: price,
+          discountAmount: quote.discountAmount,
+          finalAmount: quote.finalAmount,
+        }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    } catch (error) {
+      if (!(error instanceof CouponError)) throw error;
+      return new Response(JSON.stringify({ valid: false, error: error.message, code: error.code }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+  } catch (error) {
+    console.error('Error:', error);
+    return new Response(JSON.stringify({ error: String(error) }), {
+      status: 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
@@ -1,4 +1,5 @@
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { syncTransaction, PaymentTransaction } from '../_shared/payments/settlement.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -31,48 +32,37 @@ Deno.serve(async (req) => {
 
     const { transactionId } = await req.json();
 
-    // In production, verify with Bakong API
-    // For now, simulate successful payment
-    const paymentVerified = true;
+    // Get transaction details
+    const { data: transaction, error: txError } = await supabaseClient
+      .from('payment_transactions')
+      .select('*')
+      .eq('transaction_id', transactionId)
+      .eq('user_id', user.id)
+      .eq('transaction_type', 'rental')
+      .single();
 
-    if (paymentVerified) {
-      // Update transaction status
-      const { error: txError } = await supabaseClient
-        .from('payment_transactions')
-        .update({ payment_status: 'completed' })
-        .eq('transaction_id', transactionId)
-        .eq('user_id', user.id);
-
-      if (txError) {
-        console.error('Transaction update error:', txError);
-      }
-
-      // Update rental status and set start date
-      const { error: rentalError } = await supabaseClient
-        .from('user_rentals')
-        .update({
-          payment_status: 'completed',
-          start_date: new Date().toISOString(),
-        })
-        .eq('transaction_id', transactionId)
-        .eq('user_id', user.id);
+    if (txError || !transaction) {
+      return new Response(JSON.stringify({ error: 'Transaction not found' }), {
+        status: 404,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
 
-      if (rentalError) {
-        console.error('Rental update error:', rentalError);
-        return new Response(JSON.stringify({ error: 'Failed to update rental' }), {
-          status: 500,
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-        });
-      }
+    // Settlement writes rentals, subscriptions and wallets, which users cannot update themselves
+    const adminClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
 
-      return new Response(
-        JSON.stringify({ success: true, status: 'completed' }),
-        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
-    }
+    // Ask the payment provider; settles the transaction if it has been paid
+    const status = await syncTransaction(adminClient, transaction as PaymentTransaction);
 
     return new Response(
-      JSON.stringify({ success: false, status: 'pending' }),
+      JSON.stringify({
+        success: status === 'completed',
+        status,
+        expiresAt: transaction.expires_at,
+      }),
       { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
     );
   } catch (error) {
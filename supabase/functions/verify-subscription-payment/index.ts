@@ -1,4 +1,5 @@
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { syncTransaction, PaymentTransaction } from '../_shared/payments/settlement.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -37,6 +38,7 @@ Deno.serve(async (req) => {
       .select('*')
       .eq('transaction_id', transactionId)
       .eq('user_id', user.id)
+      .eq('transaction_type', 'subscription')
       .single();
 
     if (txError || !transaction) {
@@ -46,53 +48,21 @@ Deno.serve(async (req) => {
       });
     }
 
-    // In production, verify with Bakong API
-    const paymentVerified = true;
-
-    if (paymentVerified) {
-      // Update transaction
-      await supabaseClient
-        .from('payment_transactions')
-        .update({ payment_status: 'completed' })
-        .eq('transaction_id', transactionId);
-
-      // Get plan details
-      const { data: plan } = await supabaseClient
-        .from('subscription_plans')
-        .select('duration_days')
-        .eq('id', transaction.reference_id)
-        .single();
-
-      if (plan) {
-        const startDate = new Date();
-        const endDate = new Date();
-        endDate.setDate(endDate.getDate() + plan.duration_days);
-
-        // Create or update subscription
-        const { error: subError } = await supabaseClient
-          .from('user_subscriptions')
-          .insert({
-            user_id: user.id,
-            plan_id: transaction.reference_id,
-            start_date: startDate.toISOString(),
-            end_date: endDate.toISOString(),
-            is_active: true,
-            payment_status: 'completed',
-          });
-
-        if (subError) {
-          console.error('Subscription creation error:', subError);
-        }
-      }
+    // Settlement writes rentals, subscriptions and wallets, which users cannot update themselves
+    const adminClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
 
-      return new Response(
-        JSON.stringify({ success: true, status: 'completed' }),
-        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
-    }
+    // Ask the payment provider; settles the transaction if it has been paid
+    const status = await syncTransaction(adminClient, transaction as PaymentTransaction);
 
     return new Response(
-      JSON.stringify({ success: false, status: 'pending' }),
+      JSON.stringify({
+        success: status === 'completed',
+        status,
+        expiresAt: transaction.expires_at,
+      }),
       { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
     );
   } catch (error) {
@@ -1,4 +1,5 @@
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { syncTransaction, PaymentTransaction } from '../_shared/payments/settlement.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -37,6 +38,7 @@ Deno.serve(async (req) => {
       .select('*')
       .eq('transaction_id', transactionId)
       .eq('user_id', user.id)
+      .eq('transaction_type', 'topup')
       .single();
 
     if (txError || !transaction) {
@@ -46,75 +48,32 @@ Deno.serve(async (req) => {
       });
     }
 
-    // In production, verify with Bakong API
-    const paymentVerified = true;
+    // Settlement writes rentals, subscriptions and wallets, which users cannot update themselves
+    const adminClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
 
-    if (paymentVerified) {
-      // Update transaction status
-      await supabaseClient
-        .from('payment_transactions')
-        .update({ payment_status: 'completed' })
-        .eq('transaction_id', transactionId);
+    // Ask the payment provider; settles the transaction if it has been paid
+    const status = await syncTransaction(adminClient, transaction as PaymentTransaction);
 
-      // Get or create wallet
-      const { data: wallet, error: walletError } = await supabaseClient
+    let newBalance: number | undefined;
+    if (status === 'completed') {
+      const { data: wallet } = await adminClient
         .from('user_wallets')
-        .select('*')
+        .select('balance')
         .eq('user_id', user.id)
         .single();
-
-      if (walletError) {
-        console.error('Wallet fetch error:', walletError);
-        return new Response(JSON.stringify({ error: 'Wallet not found' }), {
-          status: 404,
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-        });
-      }
-
-      const balanceBefore = wallet.balance;
-      const balanceAfter = parseFloat(balanceBefore) + parseFloat(transaction.amount);
-
-      // Update wallet balance
-      const { error: updateError } = await supabaseClient
-        .from('user_wallets')
-        .update({ balance: balanceAfter })
-        .eq('user_id', user.id);
-
-      if (updateError) {
-        console.error('Wallet update error:', updateError);
-        return new Response(JSON.stringify({ error: 'Failed to update wallet' }), {
-          status: 500,
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-        });
-      }
-
-      // Record transaction
-      await supabaseClient
-        .from('wallet_transactions')
-        .insert({
-          user_id: user.id,
-          wallet_id: wallet.id,
-          transaction_type: 'topup',
-          amount: transaction.amount,
-          balance_before: balanceBefore,
-          balance_after: balanceAfter,
-          description: `Wallet top-up via KHQR`,
-          payment_transaction_id: transaction.id,
-          reference_type: 'topup',
-        });
-
-      return new Response(
-        JSON.stringify({ 
-          success: true, 
-          status: 'completed',
-          newBalance: balanceAfter 
-        }),
-        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
+      newBalance = wallet ? Number(wallet.balance) : undefined;
     }
 
     return new Response(
-      JSON.stringify({ success: false, status: 'pending' }),
+      JSON.stringify({
+        success: status === 'completed',
+        status,
+        expiresAt: transaction.expires_at,
+        newBalance,
+      }),
       { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
     );
   } catch (error) {
@@ -124,4 +83,4 @@ Deno.serve(async (req) => {
       headers: { ...corsHeaders, 'Content-Type': 'application/json' },
     });
   }
-});
\ No newline at end of file
+});
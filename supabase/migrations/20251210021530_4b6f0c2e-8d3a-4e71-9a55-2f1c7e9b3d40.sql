@@ -0,0 +1,45 @@
+-- Payment provider integration: real KHQR charges, settlement state and webhook events
+
+-- Top-ups were already written as 'topup' but the original check only allowed rentals and subscriptions
+ALTER TABLE public.payment_transactions DROP CONSTRAINT IF EXISTS payment_transactions_transaction_type_check;
+ALTER TABLE public.payment_transactions
+  ADD CONSTRAINT payment_transactions_transaction_type_check
+  CHECK (transaction_type IN ('rental', 'subscription', 'topup'));
+
+-- Unpaid QR codes now expire
+ALTER TABLE public.payment_transactions DROP CONSTRAINT IF EXISTS payment_transactions_payment_status_check;
+ALTER TABLE public.payment_transactions
+  ADD CONSTRAINT payment_transactions_payment_status_check
+  CHECK (payment_status IN ('pending', 'completed', 'failed', 'expired', 'refunded'));
+
+ALTER TABLE public.payment_transactions ADD COLUMN IF NOT EXISTS provider TEXT;
+ALTER TABLE public.payment_transactions ADD COLUMN IF NOT EXISTS provider_reference TEXT;
+ALTER TABLE public.payment_transactions ADD COLUMN IF NOT EXISTS expires_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE public.payment_transactions ADD COLUMN IF NOT EXISTS paid_at TIMESTAMP WITH TIME ZONE;
+
+-- The KHQR md5 is how both polling and the webhook find a charge
+CREATE UNIQUE INDEX IF NOT EXISTS idx_payment_transactions_khqr_md5
+  ON public.payment_transactions ((khqr_data->>'md5'));
+CREATE INDEX IF NOT EXISTS idx_payment_transactions_status ON public.payment_transactions(payment_status);
+
+-- Create payment_webhook_events table; event_id is unique so redelivered events are ignored
+CREATE TABLE IF NOT EXISTS public.payment_webhook_events (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  event_id TEXT NOT NULL UNIQUE,
+  md5 TEXT NOT NULL,
+  status TEXT NOT NULL,
+  payload JSONB NOT NULL,
+  transaction_id UUID REFERENCES public.payment_transactions(id) ON DELETE SET NULL,
+  processed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable RLS; only the service role writes events
+ALTER TABLE public.payment_webhook_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view webhook events"
+  ON public.payment_webhook_events
+  FOR SELECT
+  USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE INDEX idx_payment_webhook_events_md5 ON public.payment_webhook_events(md5);
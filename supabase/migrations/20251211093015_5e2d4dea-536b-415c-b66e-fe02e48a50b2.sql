@@ -0,0 +1,220 @@
+-- Coupon redemption at checkout
+
+-- Scoping and per-user limits for coupons
+ALTER TABLE public.coupons
+  ADD COLUMN IF NOT EXISTS applies_to TEXT NOT NULL DEFAULT 'all'
+    CHECK (applies_to IN ('all', 'subscription', 'rental', 'topup'));
+ALTER TABLE public.coupons ADD COLUMN IF NOT EXISTS max_uses_per_user INTEGER;
+-- When set, the coupon only applies to these subscription plans / rentable titles
+ALTER TABLE public.coupons ADD COLUMN IF NOT EXISTS plan_ids UUID[];
+ALTER TABLE public.coupons ADD COLUMN IF NOT EXISTS media_ids UUID[];
+
+-- Create coupon_redemptions table
+-- A redemption is 'reserved' while its payment is pending, 'redeemed' once paid,
+-- and 'released' when the payment fails or expires.
+CREATE TABLE IF NOT EXISTS public.coupon_redemptions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  coupon_id UUID NOT NULL REFERENCES public.coupons(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL,
+  payment_transaction_id UUID UNIQUE REFERENCES public.payment_transactions(id) ON DELETE SET NULL,
+  purpose TEXT NOT NULL CHECK (purpose IN ('subscription', 'rental', 'topup')),
+  target_id UUID,
+  original_amount NUMERIC(10,2) NOT NULL,
+  discount_amount NUMERIC(10,2) NOT NULL,
+  final_amount NUMERIC(10,2) NOT NULL,
+  status TEXT NOT NULL DEFAULT 'reserved' CHECK (status IN ('reserved', 'redeemed', 'released')),
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  redeemed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE public.coupon_redemptions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own coupon redemptions"
+  ON public.coupon_redemptions
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view all coupon redemptions"
+  ON public.coupon_redemptions
+  FOR SELECT
+  USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE INDEX idx_coupon_redemptions_coupon ON public.coupon_redemptions(coupon_id, status);
+CREATE INDEX idx_coupon_redemptions_user ON public.coupon_redemptions(user_id, coupon_id);
+
+CREATE TRIGGER update_coupon_redemptions_updated_at
+  BEFORE UPDATE ON public.coupon_redemptions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Check a code for a purchase and work out the discount. Raises COUPON_* errors.
+-- Unexpired reservations count towards max_uses so two checkouts cannot both take the last use.
+CREATE OR REPLACE FUNCTION public.validate_coupon(
+  _code TEXT,
+  _user_id UUID,
+  _purpose TEXT,
+  _target_id UUID,
+  _amount NUMERIC
+)
+RETURNS TABLE (coupon_id UUID, code TEXT, discount_amount NUMERIC, final_amount NUMERIC)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _coupon public.coupons%ROWTYPE;
+  _in_use INTEGER;
+  _user_uses INTEGER;
+  _discount NUMERIC;
+BEGIN
+  SELECT * INTO _coupon FROM public.coupons c WHERE c.code = upper(trim(_code));
+
+  IF NOT FOUND OR NOT COALESCE(_coupon.is_active, false) THEN
+    RAISE EXCEPTION 'COUPON_NOT_FOUND';
+  END IF;
+
+  IF _coupon.valid_from > now() OR (_coupon.valid_until IS NOT NULL AND _coupon.valid_until < now()) THEN
+    RAISE EXCEPTION 'COUPON_EXPIRED';
+  END IF;
+
+  IF _coupon.applies_to <> 'all' AND _coupon.applies_to <> _purpose THEN
+    RAISE EXCEPTION 'COUPON_NOT_APPLICABLE';
+  END IF;
+
+  IF _purpose = 'subscription' AND COALESCE(cardinality(_coupon.plan_ids), 0) > 0
+     AND (_target_id IS NULL OR NOT _target_id = ANY(_coupon.plan_ids)) THEN
+    RAISE EXCEPTION 'COUPON_NOT_APPLICABLE';
+  END IF;
+
+  IF _purpose = 'rental' AND COALESCE(cardinality(_coupon.media_ids), 0) > 0
+     AND (_target_id IS NULL OR NOT _target_id = ANY(_coupon.media_ids)) THEN
+    RAISE EXCEPTION 'COUPON_NOT_APPLICABLE';
+  END IF;
+
+  IF _coupon.max_uses IS NOT NULL THEN
+    SELECT count(*) INTO _in_use
+    FROM public.coupon_redemptions r
+    WHERE r.coupon_id = _coupon.id
+      AND r.status = 'reserved'
+      AND r.expires_at > now();
+
+    IF COALESCE(_coupon.used_count, 0) + _in_use >= _coupon.max_uses THEN
+      RAISE EXCEPTION 'COUPON_EXHAUSTED';
+    END IF;
+  END IF;
+
+  IF _coupon.max_uses_per_user IS NOT NULL THEN
+    SELECT count(*) INTO _user_uses
+    FROM public.coupon_redemptions r
+    WHERE r.coupon_id = _coupon.id
+      AND r.user_id = _user_id
+      AND (r.status = 'redeemed' OR (r.status = 'reserved' AND r.expires_at > now()));
+
+    IF _user_uses >= _coupon.max_uses_per_user THEN
+      RAISE EXCEPTION 'COUPON_USER_LIMIT';
+    END IF;
+  END IF;
+
+  IF _coupon.discount_type = 'percentage' THEN
+    _discount := round(_amount * LEAST(_coupon.discount_value, 100) / 100, 2);
+  ELSE
+    _discount := LEAST(_coupon.discount_value, _amount);
+  END IF;
+
+  RETURN QUERY SELECT _coupon.id, _coupon.code, _discount, _amount - _discount;
+END;
+$$;
+
+-- Validate and reserve a use in one transaction. The coupon row lock serialises
+-- concurrent redemptions of the same code.
+CREATE OR REPLACE FUNCTION public.redeem_coupon(
+  _code TEXT,
+  _user_id UUID,
+  _purpose TEXT,
+  _target_id UUID,
+  _amount NUMERIC,
+  _hold_until TIMESTAMP WITH TIME ZONE
+)
+RETURNS TABLE (redemption_id UUID, coupon_id UUID, code TEXT, discount_amount NUMERIC, final_amount NUMERIC)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _coupon_id UUID;
+  _result RECORD;
+  _redemption_id UUID;
+BEGIN
+  SELECT c.id INTO _coupon_id FROM public.coupons c WHERE c.code = upper(trim(_code)) FOR UPDATE;
+
+  -- Starting a new checkout abandons this user's earlier unpaid reservation of the same code
+  IF _coupon_id IS NOT NULL THEN
+    UPDATE public.coupon_redemptions r
+    SET status = 'released'
+    WHERE r.coupon_id = _coupon_id
+      AND r.user_id = _user_id
+      AND r.status = 'reserved';
+  END IF;
+
+  SELECT * INTO _result FROM public.validate_coupon(_code, _user_id, _purpose, _target_id, _amount);
+
+  INSERT INTO public.coupon_redemptions (
+    coupon_id, user_id, purpose, target_id,
+    original_amount, discount_amount, final_amount, expires_at
+  )
+  VALUES (
+    _result.coupon_id, _user_id, _purpose, _target_id,
+    _amount, _result.discount_amount, _result.final_amount, _hold_until
+  )
+  RETURNING id INTO _redemption_id;
+
+  RETURN QUERY SELECT _redemption_id, _result.coupon_id, _result.code, _result.discount_amount, _result.final_amount;
+END;
+$$;
+
+-- Called when the payment settles. A released reservation is still honoured:
+-- the customer paid the discounted amount.
+CREATE OR REPLACE FUNCTION public.finalize_coupon_redemption(_payment_transaction_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _coupon_id UUID;
+BEGIN
+  UPDATE public.coupon_redemptions
+  SET status = 'redeemed', redeemed_at = now()
+  WHERE payment_transaction_id = _payment_transaction_id
+    AND status IN ('reserved', 'released')
+  RETURNING coupon_id INTO _coupon_id;
+
+  IF _coupon_id IS NOT NULL THEN
+    UPDATE public.coupons
+    SET used_count = COALESCE(used_count, 0) + 1
+    WHERE id = _coupon_id;
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.release_coupon_redemption(_payment_transaction_id UUID)
+RETURNS VOID
+LANGUAGE SQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE public.coupon_redemptions
+  SET status = 'released'
+  WHERE payment_transaction_id = _payment_transaction_id
+    AND status = 'reserved'
+$$;
+
+-- These take a user id from the caller, so only edge functions (service role) may call them
+REVOKE EXECUTE ON FUNCTION public.validate_coupon(TEXT, UUID, TEXT, UUID, NUMERIC) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.redeem_coupon(TEXT, UUID, TEXT, UUID, NUMERIC, TIMESTAMP WITH TIME ZONE) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.finalize_coupon_redemption(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.release_coupon_redemption(UUID) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,361 @@
+-- Wallet ledger
+-- Every balance change is a wallet_transactions entry written by wallet_post_entry, which locks
+-- the wallet row, so user_wallets.balance always equals the sum of the wallet's entries.
+-- Entry amounts are signed: credits are positive, debits negative.
+
+ALTER TABLE public.wallet_transactions ADD COLUMN IF NOT EXISTS idempotency_key TEXT;
+ALTER TABLE public.wallet_transactions
+  ADD COLUMN IF NOT EXISTS reversed_transaction_id UUID REFERENCES public.wallet_transactions(id);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_wallet_transactions_idempotency_key
+  ON public.wallet_transactions(idempotency_key);
+-- An entry can be reversed at most once
+CREATE UNIQUE INDEX IF NOT EXISTS idx_wallet_transactions_single_reversal
+  ON public.wallet_transactions(reversed_transaction_id)
+  WHERE transaction_type = 'reversal';
+CREATE INDEX IF NOT EXISTS idx_wallet_transactions_wallet
+  ON public.wallet_transactions(wallet_id, created_at);
+
+-- NOT VALID: enforced for new entries without rejecting history written before the ledger existed
+ALTER TABLE public.wallet_transactions
+  ADD CONSTRAINT wallet_transactions_type_check
+  CHECK (transaction_type IN ('topup', 'purchase', 'refund', 'reversal', 'adjustment')) NOT VALID;
+ALTER TABLE public.wallet_transactions
+  ADD CONSTRAINT wallet_transactions_balance_chain_check
+  CHECK (balance_after = balance_before + amount AND balance_after >= 0) NOT VALID;
+
+-- Post a single signed entry. Replaying an idempotency key returns the original entry.
+CREATE OR REPLACE FUNCTION public.wallet_post_entry(
+  _user_id UUID,
+  _amount NUMERIC,
+  _type TEXT,
+  _idempotency_key TEXT,
+  _description TEXT DEFAULT NULL,
+  _reference_id UUID DEFAULT NULL,
+  _reference_type TEXT DEFAULT NULL,
+  _payment_transaction_id UUID DEFAULT NULL,
+  _reversed_transaction_id UUID DEFAULT NULL
+)
+RETURNS public.wallet_transactions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _wallet public.user_wallets%ROWTYPE;
+  _entry public.wallet_transactions%ROWTYPE;
+BEGIN
+  IF _amount IS NULL OR _amount = 0 THEN
+    RAISE EXCEPTION 'INVALID_AMOUNT';
+  END IF;
+
+  -- Wallets are created with the profile, but never fail a credit because one is missing
+  INSERT INTO public.user_wallets (user_id, balance)
+  VALUES (_user_id, 0.00)
+  ON CONFLICT (user_id) DO NOTHING;
+
+  SELECT * INTO _wallet FROM public.user_wallets WHERE user_id = _user_id FOR UPDATE;
+
+  -- Checked under the wallet lock so concurrent replays of one key serialise here
+  IF _idempotency_key IS NOT NULL THEN
+    SELECT * INTO _entry FROM public.wallet_transactions WHERE idempotency_key = _idempotency_key;
+    IF FOUND THEN
+      IF _entry.user_id <> _user_id THEN
+        RAISE EXCEPTION 'IDEMPOTENCY_KEY_CONFLICT';
+      END IF;
+      RETURN _entry;
+    END IF;
+  END IF;
+
+  IF _wallet.balance + _amount < 0 THEN
+    RAISE EXCEPTION 'INSUFFICIENT_FUNDS';
+  END IF;
+
+  UPDATE public.user_wallets
+  SET balance = _wallet.balance + _amount
+  WHERE id = _wallet.id;
+
+  INSERT INTO public.wallet_transactions (
+    user_id, wallet_id, transaction_type, amount, balance_before, balance_after,
+    description, payment_transaction_id, reference_id, reference_type,
+    idempotency_key, reversed_transaction_id
+  )
+  VALUES (
+    _user_id, _wallet.id, _type, _amount, _wallet.balance, _wallet.balance + _amount,
+    _description, _payment_transaction_id, _reference_id, _reference_type,
+    _idempotency_key, _reversed_transaction_id
+  )
+  RETURNING * INTO _entry;
+
+  RETURN _entry;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.wallet_credit(
+  _user_id UUID,
+  _amount NUMERIC,
+  _idempotency_key TEXT,
+  _description TEXT DEFAULT NULL,
+  _payment_transaction_id UUID DEFAULT NULL
+)
+RETURNS public.wallet_transactions
+LANGUAGE SQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.wallet_post_entry(
+    _user_id, abs(_amount), 'topup', _idempotency_key, _description,
+    NULL, 'topup', _payment_transaction_id, NULL
+  )
+$$;
+
+CREATE OR REPLACE FUNCTION public.wallet_debit(
+  _user_id UUID,
+  _amount NUMERIC,
+  _idempotency_key TEXT,
+  _description TEXT DEFAULT NULL,
+  _reference_id UUID DEFAULT NULL,
+  _reference_type TEXT DEFAULT NULL,
+  _payment_transaction_id UUID DEFAULT NULL
+)
+RETURNS public.wallet_transactions
+LANGUAGE SQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.wallet_post_entry(
+    _user_id, -abs(_amount), 'purchase', _idempotency_key, _description,
+    _reference_id, _reference_type, _payment_transaction_id, NULL
+  )
+$$;
+
+-- Return money for a purchase, in full or in part. Refunds never exceed what was paid.
+CREATE OR REPLACE FUNCTION public.wallet_refund(
+  _transaction_id UUID,
+  _amount NUMERIC,
+  _idempotency_key TEXT,
+  _description TEXT DEFAULT NULL
+)
+RETURNS public.wallet_transactions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _purchase public.wallet_transactions%ROWTYPE;
+  _refunded NUMERIC;
+BEGIN
+  SELECT * INTO _purchase FROM public.wallet_transactions WHERE id = _transaction_id;
+
+  IF NOT FOUND OR _purchase.transaction_type <> 'purchase' THEN
+    RAISE EXCEPTION 'NOT_A_PURCHASE';
+  END IF;
+
+  -- Lock the wallet before summing earlier refunds
+  PERFORM 1 FROM public.user_wallets WHERE id = _purchase.wallet_id FOR UPDATE;
+
+  SELECT COALESCE(sum(amount), 0) INTO _refunded
+  FROM public.wallet_transactions
+  WHERE reversed_transaction_id = _purchase.id
+    AND transaction_type = 'refund'
+    AND idempotency_key IS DISTINCT FROM _idempotency_key;
+
+  IF _refunded + abs(_amount) > abs(_purchase.amount) THEN
+    RAISE EXCEPTION 'REFUND_EXCEEDS_PURCHASE';
+  END IF;
+
+  RETURN public.wallet_post_entry(
+    _purchase.user_id, abs(_amount), 'refund', _idempotency_key,
+    COALESCE(_description, 'Refund: ' || COALESCE(_purchase.description, 'purchase')),
+    _purchase.reference_id, _purchase.reference_type, _purchase.payment_transaction_id, _purchase.id
+  );
+END;
+$$;
+
+-- Undo an entry completely, e.g. a top-up that was charged back
+CREATE OR REPLACE FUNCTION public.wallet_reverse(
+  _transaction_id UUID,
+  _idempotency_key TEXT,
+  _description TEXT DEFAULT NULL
+)
+RETURNS public.wallet_transactions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _original public.wallet_transactions%ROWTYPE;
+BEGIN
+  SELECT * INTO _original FROM public.wallet_transactions WHERE id = _transaction_id;
+
+  IF NOT FOUND OR _original.transaction_type = 'reversal' THEN
+    RAISE EXCEPTION 'NOT_REVERSIBLE';
+  END IF;
+
+  RETURN public.wallet_post_entry(
+    _original.user_id, -_original.amount, 'reversal', _idempotency_key,
+    COALESCE(_description, 'Reversal: ' || COALESCE(_original.description, _original.transaction_type)),
+    _original.reference_id, _original.reference_type, _original.payment_transaction_id, _original.id
+  );
+END;
+$$;
+
+-- "Pay with wallet" for rentals and subscriptions. Price lookup, debit and the grant
+-- happen in one transaction, so a failure anywhere leaves the balance untouched.
+CREATE OR REPLACE FUNCTION public.purchase_with_wallet(
+  _purpose TEXT,
+  _target_id UUID,
+  _idempotency_key TEXT,
+  _media_type TEXT DEFAULT NULL
+)
+RETURNS TABLE (wallet_transaction_id UUID, payment_transaction_id UUID, balance_after NUMERIC)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+  _user_id UUID := auth.uid();
+  _key TEXT;
+  _price NUMERIC;
+  _period INTEGER;
+  _duration INTEGER;
+  _reference TEXT;
+  _payment_id UUID;
+  _entry public.wallet_transactions%ROWTYPE;
+BEGIN
+  IF _user_id IS NULL THEN
+    RAISE EXCEPTION 'NOT_AUTHENTICATED';
+  END IF;
+
+  IF _idempotency_key IS NULL OR length(_idempotency_key) < 8 THEN
+    RAISE EXCEPTION 'INVALID_IDEMPOTENCY_KEY';
+  END IF;
+
+  -- Namespaced so one user's key can never collide with another's
+  _key := 'purchase:' || _user_id || ':' || _idempotency_key;
+
+  -- Hold the wallet for the whole purchase so a double-submitted key waits here
+  -- and then finds the first attempt's entry
+  INSERT INTO public.user_wallets (user_id, balance)
+  VALUES (_user_id, 0.00)
+  ON CONFLICT (user_id) DO NOTHING;
+  PERFORM 1 FROM public.user_wallets WHERE user_id = _user_id FOR UPDATE;
+
+  SELECT * INTO _entry FROM public.wallet_transactions WHERE idempotency_key = _key;
+  IF FOUND THEN
+    RETURN QUERY SELECT _entry.id, _entry.payment_transaction_id, _entry.balance_after;
+    RETURN;
+  END IF;
+
+  IF _purpose = 'rental' THEN
+    IF _media_type = 'movie' THEN
+      SELECT rental_price, rental_period_days INTO _price, _period FROM public.movies WHERE id = _target_id;
+    ELSIF _media_type = 'series' THEN
+      SELECT rental_price, rental_period_days INTO _price, _period FROM public.series WHERE id = _target_id;
+    ELSIF _media_type = 'anime' THEN
+      SELECT rental_price, rental_period_days INTO _price, _period FROM public.animes WHERE id = _target_id;
+    ELSE
+      RAISE EXCEPTION 'INVALID_PURCHASE';
+    END IF;
+
+    IF _price IS NULL OR _price <= 0 THEN
+      RAISE EXCEPTION 'NOT_FOR_RENT';
+    END IF;
+    _period := COALESCE(_period, 7);
+    _reference := 'RENT-WALLET-';
+  ELSIF _purpose = 'subscription' THEN
+    SELECT price, duration_days INTO _price, _duration
+    FROM public.subscription_plans
+    WHERE id = _target_id AND is_active = true;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'PLAN_NOT_FOUND';
+    END IF;
+    _reference := 'SUB-WALLET-';
+  ELSE
+    RAISE EXCEPTION 'INVALID_PURCHASE';
+  END IF;
+
+  _reference := _reference || floor(extract(epoch FROM now()) * 1000)::BIGINT || '-' || left(_user_id::TEXT, 8);
+
+  INSERT INTO public.payment_transactions (
+    user_id, transaction_type, amount, currency, payment_method, payment_status,
+    transaction_id, reference_id, reference_type, provider, paid_at, metadata
+  )
+  VALUES (
+    _user_id, _purpose, _price, 'USD', 'wallet', 'completed',
+    _reference, _target_id, CASE WHEN _purpose = 'rental' THEN _media_type ELSE 'subscription' END,
+    'wallet', now(), jsonb_build_object('rental_period_days', _period)
+  )
+  RETURNING id INTO _payment_id;
+
+  _entry := public.wallet_post_entry(
+    _user_id, -_price, 'purchase', _key,
+    CASE WHEN _purpose = 'rental' THEN 'Rental purchase' ELSE 'Subscription purchase' END,
+    _target_id, _purpose, _payment_id, NULL
+  );
+
+  IF _purpose = 'rental' THEN
+    INSERT INTO public.user_rentals (
+      user_id, media_id, media_type, rental_price, payment_status,
+      payment_method, transaction_id, start_date, end_date
+    )
+    VALUES (
+      _user_id, _target_id, _media_type, _price, 'completed',
+      'wallet', _reference, now(), now() + make_interval(days => _period)
+    );
+  ELSE
+    INSERT INTO public.user_subscriptions (user_id, plan_id, start_date, end_date, is_active, payment_status)
+    VALUES (_user_id, _target_id, now(), now() + make_interval(days => _duration), true, 'completed');
+  END IF;
+
+  RETURN QUERY SELECT _entry.id, _entry.payment_transaction_id, _entry.balance_after;
+END;
+$$;
+
+-- Ledger functions take arbitrary user ids and are for the service role only.
+-- purchase_with_wallet acts on auth.uid() and is callable by signed-in users.
+REVOKE EXECUTE ON FUNCTION public.wallet_post_entry(UUID, NUMERIC, TEXT, TEXT, TEXT, UUID, TEXT, UUID, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.wallet_credit(UUID, NUMERIC, TEXT, TEXT, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.wallet_debit(UUID, NUMERIC, TEXT, TEXT, UUID, TEXT, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.wallet_refund(UUID, NUMERIC, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.wallet_reverse(UUID, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.purchase_with_wallet(TEXT, UUID, TEXT, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.purchase_with_wallet(TEXT, UUID, TEXT, TEXT) TO authenticated;
+
+-- Balances no longer change outside the ledger
+DROP POLICY IF EXISTS "Admins can manage wallets" ON public.user_wallets;
+
+-- Reconciliation: wallets whose balance disagrees with their ledger.
+-- security_invoker applies the caller's RLS, so only admins see every wallet.
+CREATE OR REPLACE VIEW public.wallet_reconciliation
+WITH (security_invoker = true)
+AS
+SELECT
+  w.id AS wallet_id,
+  w.user_id,
+  p.email,
+  w.balance,
+  COALESCE(l.ledger_balance, 0) AS ledger_balance,
+  w.balance - COALESCE(l.ledger_balance, 0) AS difference,
+  l.last_balance_after,
+  COALESCE(l.entry_count, 0) AS entry_count,
+  l.last_entry_at,
+  (w.balance = COALESCE(l.ledger_balance, 0)
+    AND (l.last_balance_after IS NULL OR l.last_balance_after = w.balance)) AS is_consistent
+FROM public.user_wallets w
+LEFT JOIN public.profiles p ON p.id = w.user_id
+LEFT JOIN LATERAL (
+  SELECT
+    sum(t.amount) AS ledger_balance,
+    count(*) AS entry_count,
+    max(t.created_at) AS last_entry_at,
+    (SELECT t2.balance_after
+     FROM public.wallet_transactions t2
+     WHERE t2.wallet_id = w.id
+     ORDER BY t2.created_at DESC
+     LIMIT 1) AS last_balance_after
+  FROM public.wallet_transactions t
+  WHERE t.wallet_id = w.id
+) l ON true;
@@ -0,0 +1,261 @@
+-- Global catalog search across movies, series, animes, cast, voice actors and collections
+CREATE EXTENSION IF NOT EXISTS pg_trgm WITH SCHEMA extensions;
+
+-- Movies and animes get the same language column series already has, so search can facet on it
+ALTER TABLE public.movies ADD COLUMN IF NOT EXISTS original_language text;
+ALTER TABLE public.animes ADD COLUMN IF NOT EXISTS original_language text;
+
+-- Trigram indexes for fuzzy and partial-word matching
+CREATE INDEX IF NOT EXISTS idx_movies_title_trgm ON public.movies USING gin (title extensions.gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_series_title_trgm ON public.series USING gin (title extensions.gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_animes_title_trgm ON public.animes USING gin (title extensions.gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_movie_cast_actor_name_trgm ON public.movie_cast USING gin (actor_name extensions.gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_series_cast_actor_name_trgm ON public.series_cast USING gin (actor_name extensions.gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_voice_actors_name_trgm ON public.voice_actors USING gin (name extensions.gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_voice_actors_name_native_trgm ON public.voice_actors USING gin (name_native extensions.gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_collections_name_trgm ON public.collections USING gin (name extensions.gin_trgm_ops);
+
+-- Full-text indexes over title + description (the expressions must match search_catalog_matches)
+CREATE INDEX IF NOT EXISTS idx_movies_search_fts ON public.movies
+  USING gin (to_tsvector('simple', coalesce(title, '') || ' ' || coalesce(description, '')));
+CREATE INDEX IF NOT EXISTS idx_series_search_fts ON public.series
+  USING gin (to_tsvector('simple', coalesce(title, '') || ' ' || coalesce(description, '')));
+CREATE INDEX IF NOT EXISTS idx_animes_search_fts ON public.animes
+  USING gin (to_tsvector('simple', coalesce(title, '') || ' ' || coalesce(description, '')));
+CREATE INDEX IF NOT EXISTS idx_collections_search_fts ON public.collections
+  USING gin (to_tsvector('simple', coalesce(name, '') || ' ' || coalesce(description, '')));
+
+-- Relevance of a name against the search term: trigram similarity, boosted for exact and prefix matches
+CREATE OR REPLACE FUNCTION public.search_text_score(_text text, _term text)
+RETURNS real
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public, extensions
+AS $$
+  SELECT (
+    greatest(similarity(_text, _term), word_similarity(_term, _text))
+    + CASE
+        WHEN lower(_text) = lower(_term) THEN 1
+        WHEN left(lower(_text), length(_term)) = lower(_term) THEN 0.5
+        ELSE 0
+      END
+  )::real
+$$;
+
+-- Every published hit for a query, with the attributes used for facets. People and collections
+-- carry the genre/year/access/language of the title they link to.
+CREATE OR REPLACE FUNCTION public.search_catalog_matches(_query text)
+RETURNS TABLE (
+  kind text,
+  id uuid,
+  title text,
+  subtitle text,
+  image_url text,
+  release_year integer,
+  genre text,
+  access text,
+  language text,
+  rating numeric,
+  views bigint,
+  tmdb_id text,
+  link_kind text,
+  link_id uuid,
+  link_tmdb_id text,
+  score real
+)
+LANGUAGE sql
+STABLE
+SET search_path = public, extensions
+AS $$
+  WITH q AS (
+    SELECT
+      btrim(_query) AS term,
+      '%' || replace(replace(replace(btrim(_query), '\', '\\'), '%', '\%'), '_', '\_') || '%' AS pattern,
+      websearch_to_tsquery('simple', btrim(_query)) AS tsq
+    WHERE length(btrim(coalesce(_query, ''))) >= 2
+  ),
+  works AS NOT MATERIALIZED (
+    SELECT 'movie'::text AS kind, m.id, m.title, m.thumbnail AS image_url, m.release_year, m.genre,
+      m.access::text AS access, m.original_language AS language_code, m.rating::numeric AS rating,
+      m.views::bigint AS views, m.tmdb_id,
+      to_tsvector('simple', coalesce(m.title, '') || ' ' || coalesce(m.description, '')) AS document
+    FROM movies m
+    WHERE m.status = 'published'
+    UNION ALL
+    SELECT 'series', s.id, s.title, s.thumbnail, s.release_year, s.genre,
+      s.access::text, s.original_language, s.rating::numeric, s.views::bigint, s.tmdb_id,
+      to_tsvector('simple', coalesce(s.title, '') || ' ' || coalesce(s.description, ''))
+    FROM series s
+    WHERE s.status = 'published'
+    UNION ALL
+    -- AniList titles are Japanese unless an import says otherwise
+    SELECT 'anime', a.id, a.title, a.thumbnail, a.release_year, a.genre,
+      a.access, coalesce(a.original_language, 'ja'), a.rating::numeric, a.views::bigint, a.tmdb_id,
+      to_tsvector('simple', coalesce(a.title, '') || ' ' || coalesce(a.description, ''))
+    FROM animes a
+    WHERE a.status = 'published'
+  ),
+  title_hits AS (
+    SELECT w.kind, w.id, w.title, NULL::text AS subtitle, w.image_url, w.release_year, w.genre, w.access,
+      w.language_code, w.rating, w.views, w.tmdb_id, w.kind AS link_kind, w.id AS link_id, w.tmdb_id AS link_tmdb_id,
+      (search_text_score(w.title, q.term) + ts_rank(w.document, q.tsq) * 0.2)::real AS score
+    FROM works w, q
+    WHERE w.title ILIKE q.pattern OR q.term <% w.title OR w.document @@ q.tsq
+  ),
+  cast_rows AS (
+    SELECT c.id, c.actor_name, c.character_name, c.profile_url, 'movie'::text AS work_kind, c.movie_id AS work_id
+    FROM movie_cast c, q
+    WHERE c.actor_name ILIKE q.pattern OR q.term <% c.actor_name
+    UNION ALL
+    SELECT c.id, c.actor_name, c.character_name, c.profile_url, 'series', c.series_id
+    FROM series_cast c, q
+    WHERE c.actor_name ILIKE q.pattern OR q.term <% c.actor_name
+  ),
+  -- One hit per person, linked to their most watched title
+  person_hits AS (
+    SELECT DISTINCT ON (lower(c.actor_name))
+      'person'::text AS kind, c.id, c.actor_name::text AS title,
+      coalesce(c.character_name || ' in ', 'Cast of ') || w.title AS subtitle,
+      c.profile_url::text AS image_url, w.release_year, w.genre, w.access, w.language_code, w.rating, w.views,
+      NULL::text AS tmdb_id, w.kind AS link_kind, w.id AS link_id, w.tmdb_id AS link_tmdb_id,
+      search_text_score(c.actor_name, q.term) AS score
+    FROM cast_rows c
+    JOIN works w ON w.kind = c.work_kind AND w.id = c.work_id
+    CROSS JOIN q
+    ORDER BY lower(c.actor_name), w.views DESC
+  ),
+  voice_hits AS (
+    SELECT DISTINCT ON (va.id)
+      'voice_actor'::text AS kind, va.id, va.name AS title,
+      'Voice of ' || ac.name || ' in ' || w.title AS subtitle,
+      va.image_url, w.release_year, w.genre, w.access, NULL::text AS language_code, va.language AS language_name,
+      w.rating, w.views, NULL::text AS tmdb_id, w.kind AS link_kind, w.id AS link_id, w.tmdb_id AS link_tmdb_id,
+      greatest(search_text_score(va.name, q.term), search_text_score(coalesce(va.name_native, ''), q.term)) AS score
+    FROM voice_actors va
+    CROSS JOIN q
+    JOIN character_voice_actors cva ON cva.voice_actor_id = va.id
+    JOIN anime_characters ac ON ac.id = cva.character_id
+    JOIN works w ON w.kind = 'anime' AND w.id = ac.anime_id
+    WHERE va.name ILIKE q.pattern OR q.term <% va.name
+      OR va.name_native ILIKE q.pattern OR q.term <% va.name_native
+    ORDER BY va.id, w.views DESC
+  ),
+  -- Collections link to their first title until they have a page of their own
+  collection_hits AS (
+    SELECT 'collection'::text AS kind, c.id, c.name AS title,
+      coalesce(c.description, 'Collection') AS subtitle, c.poster_url AS image_url,
+      w.release_year, w.genre, w.access, w.language_code, w.rating, w.views,
+      c.tmdb_id::text AS tmdb_id, w.kind AS link_kind, w.id AS link_id, w.tmdb_id AS link_tmdb_id,
+      (search_text_score(c.name, q.term)
+        + ts_rank(to_tsvector('simple', coalesce(c.name, '') || ' ' || coalesce(c.description, '')), q.tsq) * 0.2)::real AS score
+    FROM collections c
+    CROSS JOIN q
+    LEFT JOIN LATERAL (
+      SELECT w.*
+      FROM collection_items ci
+      JOIN works w ON w.kind = ci.media_type AND w.id = ci.media_id
+      WHERE ci.collection_id = c.id
+      ORDER BY ci.order_index NULLS LAST, ci.created_at
+      LIMIT 1
+    ) w ON true
+    WHERE c.name ILIKE q.pattern OR q.term <% c.name
+      OR to_tsvector('simple', coalesce(c.name, '') || ' ' || coalesce(c.description, '')) @@ q.tsq
+  ),
+  hits AS (
+    SELECT h.kind, h.id, h.title, h.subtitle, h.image_url, h.release_year, h.genre, h.access, h.language_code,
+      NULL::text AS language_name, h.rating, h.views, h.tmdb_id, h.link_kind, h.link_id, h.link_tmdb_id, h.score
+    FROM title_hits h
+    UNION ALL
+    SELECT h.kind, h.id, h.title, h.subtitle, h.image_url, h.release_year, h.genre, h.access, h.language_code,
+      NULL, h.rating, h.views, h.tmdb_id, h.link_kind, h.link_id, h.link_tmdb_id, h.score
+    FROM person_hits h
+    UNION ALL
+    SELECT h.kind, h.id, h.title, h.subtitle, h.image_url, h.release_year, h.genre, h.access, h.language_code,
+      h.language_name, h.rating, h.views, h.tmdb_id, h.link_kind, h.link_id, h.link_tmdb_id, h.score
+    FROM voice_hits h
+    UNION ALL
+    SELECT h.kind, h.id, h.title, h.subtitle, h.image_url, h.release_year, h.genre, h.access, h.language_code,
+      NULL, h.rating, h.views, h.tmdb_id, h.link_kind, h.link_id, h.link_tmdb_id, h.score
+    FROM collection_hits h
+  )
+  SELECT h.kind, h.id, h.title, h.subtitle, h.image_url, h.release_year, h.genre, h.access,
+    coalesce(h.language_name, l.english_name, h.language_code) AS language,
+    h.rating, coalesce(h.views, 0), h.tmdb_id, h.link_kind, h.link_id, h.link_tmdb_id, h.score
+  FROM hits h
+  LEFT JOIN languages l ON l.iso_639_1 = h.language_code
+$$;
+
+-- Ranked, filtered and paginated search. Ties on relevance go to the most viewed title.
+CREATE OR REPLACE FUNCTION public.search_catalog(
+  _query text,
+  _kinds text[] DEFAULT NULL,
+  _genre text DEFAULT NULL,
+  _year integer DEFAULT NULL,
+  _access text DEFAULT NULL,
+  _language text DEFAULT NULL,
+  _limit integer DEFAULT 24,
+  _offset integer DEFAULT 0
+)
+RETURNS TABLE (
+  kind text,
+  id uuid,
+  title text,
+  subtitle text,
+  image_url text,
+  release_year integer,
+  genre text,
+  access text,
+  language text,
+  rating numeric,
+  views bigint,
+  tmdb_id text,
+  link_kind text,
+  link_id uuid,
+  link_tmdb_id text,
+  score real,
+  total_count bigint
+)
+LANGUAGE sql
+STABLE
+SET search_path = public, extensions
+AS $$
+  SELECT m.*, count(*) OVER () AS total_count
+  FROM search_catalog_matches(_query) m
+  WHERE (_kinds IS NULL OR m.kind = ANY (_kinds))
+    AND (_genre IS NULL OR EXISTS (
+      SELECT 1 FROM unnest(string_to_array(m.genre, ',')) g WHERE lower(btrim(g)) = lower(_genre)
+    ))
+    AND (_year IS NULL OR m.release_year = _year)
+    AND (_access IS NULL OR m.access = _access)
+    AND (_language IS NULL OR m.language = _language)
+  ORDER BY m.score DESC, m.views DESC, m.title
+  LIMIT least(greatest(coalesce(_limit, 24), 1), 100)
+  OFFSET greatest(coalesce(_offset, 0), 0)
+$$;
+
+-- Facet values and hit counts for a query, before any filter is applied
+CREATE OR REPLACE FUNCTION public.search_catalog_facets(_query text)
+RETURNS TABLE (facet text, value text, hits bigint)
+LANGUAGE sql
+STABLE
+SET search_path = public, extensions
+AS $$
+  WITH m AS (
+    SELECT * FROM search_catalog_matches(_query)
+  )
+  SELECT 'kind', m.kind, count(*) FROM m GROUP BY m.kind
+  UNION ALL
+  SELECT 'genre', btrim(g), count(*)
+  FROM m, unnest(string_to_array(m.genre, ',')) g
+  WHERE btrim(g) <> ''
+  GROUP BY btrim(g)
+  UNION ALL
+  SELECT 'year', m.release_year::text, count(*) FROM m WHERE m.release_year IS NOT NULL GROUP BY m.release_year
+  UNION ALL
+  SELECT 'access', m.access, count(*) FROM m WHERE m.access IS NOT NULL GROUP BY m.access
+  UNION ALL
+  SELECT 'language', m.language, count(*) FROM m WHERE m.language IS NOT NULL GROUP BY m.language
+$$;
+
+GRANT EXECUTE ON FUNCTION public.search_catalog(text, text[], text, integer, text, text, integer, integer) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.search_catalog_facets(text) TO anon, authenticated;
@@ -0,0 +1,400 @@
+-- Admin analytics: daily watch activity plus aggregate RPCs for the Analytics dashboard
+
+-- watch_history keeps one row per user and title, so it cannot answer "who watched on a given day".
+-- A trigger rolls every progress save up into per-day rows instead.
+CREATE TABLE IF NOT EXISTS public.watch_activity_daily (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  activity_date DATE NOT NULL,
+  movie_id UUID,
+  episode_id UUID,
+  watch_seconds NUMERIC NOT NULL DEFAULT 0,
+  completed BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT watch_activity_daily_unique UNIQUE NULLS NOT DISTINCT (user_id, activity_date, movie_id, episode_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_watch_activity_daily_date ON public.watch_activity_daily(activity_date);
+CREATE INDEX IF NOT EXISTS idx_watch_activity_daily_user ON public.watch_activity_daily(user_id, activity_date);
+
+ALTER TABLE public.watch_activity_daily ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view watch activity"
+ON public.watch_activity_daily
+FOR SELECT
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE TRIGGER update_watch_activity_daily_updated_at
+BEFORE UPDATE ON public.watch_activity_daily
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- The player saves progress every 10 seconds; anything bigger than a minute is a seek, not watching
+CREATE OR REPLACE FUNCTION public.record_watch_activity()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _seconds NUMERIC;
+  _completed BOOLEAN;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    _seconds := least(greatest(NEW.progress, 0), 60);
+    _completed := NEW.completed;
+  ELSE
+    _seconds := least(greatest(NEW.progress - OLD.progress, 0), 60);
+    _completed := NEW.completed AND NOT OLD.completed;
+  END IF;
+
+  IF _seconds = 0 AND NOT _completed THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.watch_activity_daily (user_id, activity_date, movie_id, episode_id, watch_seconds, completed)
+  VALUES (NEW.user_id, (NEW.last_watched_at AT TIME ZONE 'UTC')::DATE, NEW.movie_id, NEW.episode_id, _seconds, _completed)
+  ON CONFLICT ON CONSTRAINT watch_activity_daily_unique
+  DO UPDATE SET
+    watch_seconds = watch_activity_daily.watch_seconds + EXCLUDED.watch_seconds,
+    completed = watch_activity_daily.completed OR EXCLUDED.completed;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER record_watch_history_activity
+AFTER INSERT OR UPDATE OF progress, completed ON public.watch_history
+FOR EACH ROW
+EXECUTE FUNCTION public.record_watch_activity();
+
+-- Seed with what watch_history still remembers: the last day each title was watched
+INSERT INTO public.watch_activity_daily (user_id, activity_date, movie_id, episode_id, watch_seconds, completed)
+SELECT user_id, (last_watched_at AT TIME ZONE 'UTC')::DATE, movie_id, episode_id, greatest(progress, 0), completed
+FROM public.watch_history
+ON CONFLICT ON CONSTRAINT watch_activity_daily_unique DO NOTHING;
+
+CREATE INDEX IF NOT EXISTS idx_payment_transactions_status_created ON public.payment_transactions(payment_status, created_at);
+CREATE INDEX IF NOT EXISTS idx_profiles_created_at ON public.profiles(created_at);
+
+CREATE OR REPLACE FUNCTION public.analytics_require_admin()
+RETURNS void
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT has_role(auth.uid(), 'admin'::app_role) THEN
+    RAISE EXCEPTION 'FORBIDDEN';
+  END IF;
+END;
+$$;
+
+-- Headline numbers for [_from, _to]. MAU is the 30 days ending on _to.
+CREATE OR REPLACE FUNCTION public.analytics_overview(_from DATE, _to DATE)
+RETURNS TABLE (
+  active_users BIGINT,
+  avg_daily_active_users NUMERIC,
+  monthly_active_users BIGINT,
+  watch_minutes NUMERIC,
+  completed_views BIGINT,
+  new_users BIGINT,
+  revenue NUMERIC,
+  paying_users BIGINT
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.analytics_require_admin();
+
+  RETURN QUERY
+  SELECT
+    (SELECT count(DISTINCT a.user_id) FROM watch_activity_daily a
+     WHERE a.activity_date BETWEEN _from AND _to),
+    (SELECT round(coalesce(avg(d.users), 0), 1) FROM (
+       SELECT count(DISTINCT a.user_id) AS users
+       FROM generate_series(_from, _to, INTERVAL '1 day') AS day
+       LEFT JOIN watch_activity_daily a ON a.activity_date = day::DATE
+       GROUP BY day
+     ) d),
+    (SELECT count(DISTINCT a.user_id) FROM watch_activity_daily a
+     WHERE a.activity_date BETWEEN _to - 29 AND _to),
+    (SELECT round(coalesce(sum(a.watch_seconds), 0) / 60, 0) FROM watch_activity_daily a
+     WHERE a.activity_date BETWEEN _from AND _to),
+    (SELECT count(*) FROM watch_activity_daily a
+     WHERE a.activity_date BETWEEN _from AND _to AND a.completed),
+    (SELECT count(*) FROM profiles p
+     WHERE (p.created_at AT TIME ZONE 'UTC')::DATE BETWEEN _from AND _to),
+    (SELECT coalesce(sum(t.amount), 0) FROM payment_transactions t
+     WHERE t.payment_status = 'completed'
+       AND t.transaction_type IN ('rental', 'subscription')
+       AND (coalesce(t.paid_at, t.created_at) AT TIME ZONE 'UTC')::DATE BETWEEN _from AND _to),
+    (SELECT count(DISTINCT t.user_id) FROM payment_transactions t
+     WHERE t.payment_status = 'completed'
+       AND t.transaction_type IN ('rental', 'subscription')
+       AND (coalesce(t.paid_at, t.created_at) AT TIME ZONE 'UTC')::DATE BETWEEN _from AND _to);
+END;
+$$;
+
+-- One row per day, for charts and CSV export
+CREATE OR REPLACE FUNCTION public.analytics_daily(_from DATE, _to DATE)
+RETURNS TABLE (
+  day DATE,
+  active_users BIGINT,
+  watch_minutes NUMERIC,
+  completed_views BIGINT,
+  new_users BIGINT,
+  revenue NUMERIC
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.analytics_require_admin();
+
+  RETURN QUERY
+  WITH days AS (
+    SELECT d::DATE AS day FROM generate_series(_from, _to, INTERVAL '1 day') AS d
+  ),
+  activity AS (
+    SELECT a.activity_date, count(DISTINCT a.user_id) AS users,
+      sum(a.watch_seconds) AS seconds, count(*) FILTER (WHERE a.completed) AS completions
+    FROM watch_activity_daily a
+    WHERE a.activity_date BETWEEN _from AND _to
+    GROUP BY a.activity_date
+  ),
+  signups AS (
+    SELECT (p.created_at AT TIME ZONE 'UTC')::DATE AS signup_date, count(*) AS users
+    FROM profiles p
+    WHERE (p.created_at AT TIME ZONE 'UTC')::DATE BETWEEN _from AND _to
+    GROUP BY 1
+  ),
+  sales AS (
+    SELECT (coalesce(t.paid_at, t.created_at) AT TIME ZONE 'UTC')::DATE AS sale_date, sum(t.amount) AS amount
+    FROM payment_transactions t
+    WHERE t.payment_status = 'completed'
+      AND t.transaction_type IN ('rental', 'subscription')
+      AND (coalesce(t.paid_at, t.created_at) AT TIME ZONE 'UTC')::DATE BETWEEN _from AND _to
+    GROUP BY 1
+  )
+  SELECT
+    days.day,
+    coalesce(activity.users, 0),
+    round(coalesce(activity.seconds, 0) / 60, 0),
+    coalesce(activity.completions, 0),
+    coalesce(signups.users, 0),
+    coalesce(sales.amount, 0)
+  FROM days
+  LEFT JOIN activity ON activity.activity_date = days.day
+  LEFT JOIN signups ON signups.signup_date = days.day
+  LEFT JOIN sales ON sales.sale_date = days.day
+  ORDER BY days.day;
+END;
+$$;
+
+-- Titles ranked by completed views; episodes count towards their series or anime
+CREATE OR REPLACE FUNCTION public.analytics_top_titles(_from DATE, _to DATE, _limit INTEGER DEFAULT 10)
+RETURNS TABLE (
+  media_type TEXT,
+  media_id UUID,
+  title TEXT,
+  completed_views BIGINT,
+  viewers BIGINT,
+  watch_minutes NUMERIC
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.analytics_require_admin();
+
+  RETURN QUERY
+  WITH activity AS (
+    SELECT
+      CASE
+        WHEN a.movie_id IS NOT NULL THEN 'movie'
+        WHEN sr.id IS NOT NULL THEN 'series'
+        ELSE 'anime'
+      END AS kind,
+      coalesce(a.movie_id, s.media_id) AS title_id,
+      coalesce(m.title, sr.title, an.title) AS title_name,
+      a.user_id,
+      a.watch_seconds,
+      a.completed
+    FROM watch_activity_daily a
+    LEFT JOIN movies m ON m.id = a.movie_id
+    LEFT JOIN episodes e ON e.id = a.episode_id
+    LEFT JOIN seasons s ON s.id = e.season_id
+    LEFT JOIN series sr ON sr.id = s.media_id
+    LEFT JOIN animes an ON an.id = s.media_id
+    WHERE a.activity_date BETWEEN _from AND _to
+  )
+  SELECT
+    activity.kind,
+    activity.title_id,
+    activity.title_name,
+    count(*) FILTER (WHERE activity.completed),
+    count(DISTINCT activity.user_id),
+    round(sum(activity.watch_seconds) / 60, 0)
+  FROM activity
+  WHERE activity.title_id IS NOT NULL
+  GROUP BY activity.kind, activity.title_id, activity.title_name
+  ORDER BY 4 DESC, 6 DESC
+  LIMIT least(greatest(coalesce(_limit, 10), 1), 100);
+END;
+$$;
+
+-- Completed payments per product. Wallet-paid purchases are spending of earlier top-ups,
+-- so cash_amount excludes them to avoid counting the same money twice.
+CREATE OR REPLACE FUNCTION public.analytics_revenue_by_product(_from DATE, _to DATE)
+RETURNS TABLE (
+  product_type TEXT,
+  transactions BIGINT,
+  amount NUMERIC,
+  cash_amount NUMERIC,
+  wallet_amount NUMERIC
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.analytics_require_admin();
+
+  RETURN QUERY
+  SELECT
+    t.transaction_type,
+    count(*),
+    coalesce(sum(t.amount), 0),
+    coalesce(sum(t.amount) FILTER (WHERE t.payment_method <> 'wallet'), 0),
+    coalesce(sum(t.amount) FILTER (WHERE t.payment_method = 'wallet'), 0)
+  FROM payment_transactions t
+  WHERE t.payment_status = 'completed'
+    AND (coalesce(t.paid_at, t.created_at) AT TIME ZONE 'UTC')::DATE BETWEEN _from AND _to
+  GROUP BY t.transaction_type
+  ORDER BY 3 DESC;
+END;
+$$;
+
+-- Monthly subscription churn. A subscriber churns when a subscription ends and nothing
+-- renews it within a 7 day grace period.
+CREATE OR REPLACE FUNCTION public.analytics_subscription_churn(_from DATE, _to DATE)
+RETURNS TABLE (
+  month DATE,
+  active_at_start BIGINT,
+  new_subscribers BIGINT,
+  churned BIGINT,
+  churn_rate NUMERIC
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.analytics_require_admin();
+
+  RETURN QUERY
+  WITH months AS (
+    SELECT m::DATE AS month_start, (m + INTERVAL '1 month')::DATE AS month_end
+    FROM generate_series(date_trunc('month', _from), date_trunc('month', _to), INTERVAL '1 month') AS m
+  ),
+  subs AS (
+    SELECT us.user_id, us.start_date, us.end_date
+    FROM user_subscriptions us
+    WHERE us.payment_status = 'completed'
+  ),
+  stats AS (
+    SELECT
+      months.month_start,
+      (SELECT count(DISTINCT s.user_id) FROM subs s
+       WHERE s.start_date < months.month_start AND s.end_date >= months.month_start) AS active_at_start,
+      (SELECT count(DISTINCT s.user_id) FROM subs s
+       WHERE s.start_date >= months.month_start AND s.start_date < months.month_end
+         AND NOT EXISTS (
+           SELECT 1 FROM subs prev
+           WHERE prev.user_id = s.user_id
+             AND prev.start_date < s.start_date
+             AND prev.end_date >= s.start_date - INTERVAL '7 days'
+         )) AS new_subscribers,
+      (SELECT count(DISTINCT s.user_id) FROM subs s
+       WHERE s.end_date >= months.month_start AND s.end_date < months.month_end
+         AND s.end_date <= now()
+         AND NOT EXISTS (
+           SELECT 1 FROM subs renewal
+           WHERE renewal.user_id = s.user_id
+             AND renewal.end_date > s.end_date
+             AND renewal.start_date <= s.end_date + INTERVAL '7 days'
+         )) AS churned
+    FROM months
+  )
+  SELECT
+    stats.month_start,
+    stats.active_at_start,
+    stats.new_subscribers,
+    stats.churned,
+    CASE WHEN stats.active_at_start > 0
+      THEN round(stats.churned::NUMERIC / stats.active_at_start * 100, 1)
+      ELSE 0
+    END
+  FROM stats
+  ORDER BY stats.month_start;
+END;
+$$;
+
+-- Sign-up cohort for [_from, _to] and how far each user got towards paying
+CREATE OR REPLACE FUNCTION public.analytics_conversion_funnel(_from DATE, _to DATE)
+RETURNS TABLE (
+  step_order INTEGER,
+  step TEXT,
+  users BIGINT
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.analytics_require_admin();
+
+  RETURN QUERY
+  WITH cohort AS (
+    SELECT p.id AS user_id
+    FROM profiles p
+    WHERE (p.created_at AT TIME ZONE 'UTC')::DATE BETWEEN _from AND _to
+  )
+  SELECT 1, 'Signed up', count(*) FROM cohort
+  UNION ALL
+  SELECT 2, 'Watched something', count(*) FROM cohort c
+  WHERE EXISTS (SELECT 1 FROM watch_history w WHERE w.user_id = c.user_id)
+  UNION ALL
+  SELECT 3, 'Started checkout', count(*) FROM cohort c
+  WHERE EXISTS (
+    SELECT 1 FROM payment_transactions t
+    WHERE t.user_id = c.user_id AND t.transaction_type IN ('rental', 'subscription', 'topup')
+  )
+  UNION ALL
+  SELECT 4, 'Made a purchase', count(*) FROM cohort c
+  WHERE EXISTS (
+    SELECT 1 FROM payment_transactions t
+    WHERE t.user_id = c.user_id AND t.transaction_type IN ('rental', 'subscription') AND t.payment_status = 'completed'
+  )
+  UNION ALL
+  SELECT 5, 'Subscribed', count(*) FROM cohort c
+  WHERE EXISTS (
+    SELECT 1 FROM payment_transactions t
+    WHERE t.user_id = c.user_id AND t.transaction_type = 'subscription' AND t.payment_status = 'completed'
+  )
+  ORDER BY 1;
+END;
+$$;
@@ -0,0 +1,295 @@
+-- Persistent notifications: admin-authored messages, per-user delivery rows and read receipts
+CREATE TABLE IF NOT EXISTS public.notifications (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  title TEXT NOT NULL,
+  message TEXT NOT NULL CHECK (char_length(message) <= 500),
+  type TEXT NOT NULL DEFAULT 'info' CHECK (type IN ('info', 'success', 'warning', 'error')),
+  link_url TEXT,
+  status TEXT NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'scheduled', 'sent', 'failed')),
+  audience TEXT NOT NULL DEFAULT 'all' CHECK (audience IN ('all', 'plan_subscribers', 'title_renters', 'cast_followers')),
+  audience_plan_id UUID REFERENCES public.subscription_plans(id) ON DELETE SET NULL,
+  audience_media_id UUID,
+  audience_media_type TEXT CHECK (audience_media_type IN ('movie', 'series', 'anime')),
+  audience_cast_name TEXT,
+  audience_cast_tmdb_id INTEGER,
+  scheduled_for TIMESTAMP WITH TIME ZONE,
+  sent_at TIMESTAMP WITH TIME ZONE,
+  recipient_count INTEGER NOT NULL DEFAULT 0,
+  error_message TEXT,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT notifications_schedule_check CHECK (status <> 'scheduled' OR scheduled_for IS NOT NULL),
+  CONSTRAINT notifications_audience_check CHECK (
+    (audience <> 'plan_subscribers' OR audience_plan_id IS NOT NULL)
+    AND (audience <> 'title_renters' OR audience_media_id IS NOT NULL)
+    AND (audience <> 'cast_followers' OR audience_cast_name IS NOT NULL)
+  )
+);
+
+CREATE TABLE IF NOT EXISTS public.user_notifications (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  notification_id UUID NOT NULL REFERENCES public.notifications(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  delivered_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  read_at TIMESTAMP WITH TIME ZONE,
+  UNIQUE (notification_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_notifications_due ON public.notifications(scheduled_for) WHERE status = 'scheduled';
+CREATE INDEX IF NOT EXISTS idx_user_notifications_user ON public.user_notifications(user_id, delivered_at DESC);
+CREATE INDEX IF NOT EXISTS idx_user_notifications_unread ON public.user_notifications(user_id) WHERE read_at IS NULL;
+
+ALTER TABLE public.notifications ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.user_notifications ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage notifications"
+ON public.notifications
+FOR ALL
+USING (has_role(auth.uid(), 'admin'::app_role))
+WITH CHECK (has_role(auth.uid(), 'admin'::app_role));
+
+-- Recipients can read the notifications delivered to them
+CREATE POLICY "Users can view delivered notifications"
+ON public.notifications
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.user_notifications un
+    WHERE un.notification_id = notifications.id AND un.user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Users can view own notification deliveries"
+ON public.user_notifications
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own notification deliveries"
+ON public.user_notifications
+FOR DELETE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view notification deliveries"
+ON public.user_notifications
+FOR SELECT
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE TRIGGER update_notifications_updated_at
+BEFORE UPDATE ON public.notifications
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- The header bell listens for new deliveries
+ALTER PUBLICATION supabase_realtime ADD TABLE public.user_notifications;
+
+-- Users a notification would reach right now
+CREATE OR REPLACE FUNCTION public.notification_audience(
+  _audience TEXT,
+  _plan_id UUID DEFAULT NULL,
+  _media_id UUID DEFAULT NULL,
+  _cast_name TEXT DEFAULT NULL,
+  _cast_tmdb_id INTEGER DEFAULT NULL
+)
+RETURNS TABLE (user_id UUID)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT p.id FROM profiles p
+  WHERE _audience = 'all'
+  UNION
+  SELECT us.user_id FROM user_subscriptions us
+  WHERE _audience = 'plan_subscribers'
+    AND us.plan_id = _plan_id
+    AND us.payment_status = 'completed'
+    AND us.end_date > now()
+  UNION
+  SELECT ur.user_id FROM user_rentals ur
+  WHERE _audience = 'title_renters'
+    AND ur.media_id = _media_id
+    AND ur.payment_status = 'completed'
+  UNION
+  -- Follows are stored per cast row, so match the person rather than the row
+  SELECT fc.user_id FROM user_followed_cast fc
+  WHERE _audience = 'cast_followers'
+    AND (
+      (_cast_tmdb_id IS NOT NULL AND fc.tmdb_person_id = _cast_tmdb_id)
+      OR lower(fc.actor_name) = lower(_cast_name)
+    )
+$$;
+
+CREATE OR REPLACE FUNCTION public.notification_audience_size(
+  _audience TEXT,
+  _plan_id UUID DEFAULT NULL,
+  _media_id UUID DEFAULT NULL,
+  _cast_name TEXT DEFAULT NULL,
+  _cast_tmdb_id INTEGER DEFAULT NULL
+)
+RETURNS BIGINT
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT has_role(auth.uid(), 'admin'::app_role) THEN
+    RAISE EXCEPTION 'FORBIDDEN';
+  END IF;
+
+  RETURN (SELECT count(*) FROM notification_audience(_audience, _plan_id, _media_id, _cast_name, _cast_tmdb_id));
+END;
+$$;
+
+-- Cast members someone follows, grouped by person, for the targeting picker
+CREATE OR REPLACE FUNCTION public.followed_cast_targets()
+RETURNS TABLE (actor_name TEXT, tmdb_person_id INTEGER, profile_url TEXT, followers BIGINT)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT has_role(auth.uid(), 'admin'::app_role) THEN
+    RAISE EXCEPTION 'FORBIDDEN';
+  END IF;
+
+  RETURN QUERY
+  SELECT min(fc.actor_name), fc.tmdb_person_id, min(fc.profile_url), count(DISTINCT fc.user_id)
+  FROM user_followed_cast fc
+  GROUP BY fc.tmdb_person_id, CASE WHEN fc.tmdb_person_id IS NULL THEN lower(fc.actor_name) END
+  ORDER BY 4 DESC, 1;
+END;
+$$;
+
+-- Fan a notification out to its audience. Safe to call twice: the row lock and the
+-- unique (notification_id, user_id) pair keep every user to a single delivery.
+CREATE OR REPLACE FUNCTION public.deliver_notification(_notification_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _notification public.notifications%ROWTYPE;
+  _delivered INTEGER;
+BEGIN
+  SELECT * INTO _notification
+  FROM public.notifications
+  WHERE id = _notification_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'NOTIFICATION_NOT_FOUND';
+  END IF;
+
+  IF _notification.status = 'sent' THEN
+    RETURN _notification.recipient_count;
+  END IF;
+
+  INSERT INTO public.user_notifications (notification_id, user_id)
+  SELECT _notification.id, a.user_id
+  FROM public.notification_audience(
+    _notification.audience,
+    _notification.audience_plan_id,
+    _notification.audience_media_id,
+    _notification.audience_cast_name,
+    _notification.audience_cast_tmdb_id
+  ) a
+  ON CONFLICT (notification_id, user_id) DO NOTHING;
+
+  SELECT count(*) INTO _delivered FROM public.user_notifications WHERE notification_id = _notification.id;
+
+  UPDATE public.notifications
+  SET status = 'sent', sent_at = now(), recipient_count = _delivered, error_message = NULL
+  WHERE id = _notification.id;
+
+  RETURN _delivered;
+END;
+$$;
+
+-- Admins send drafts immediately through this wrapper
+CREATE OR REPLACE FUNCTION public.send_notification(_notification_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT has_role(auth.uid(), 'admin'::app_role) THEN
+    RAISE EXCEPTION 'FORBIDDEN';
+  END IF;
+
+  RETURN public.deliver_notification(_notification_id);
+END;
+$$;
+
+-- Called by the dispatch-notifications cron function
+CREATE OR REPLACE FUNCTION public.deliver_due_notifications(_limit INTEGER DEFAULT 20)
+RETURNS TABLE (notification_id UUID, recipients INTEGER, error TEXT)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _id UUID;
+BEGIN
+  FOR _id IN
+    SELECT n.id FROM public.notifications n
+    WHERE n.status = 'scheduled' AND n.scheduled_for <= now()
+    ORDER BY n.scheduled_for
+    LIMIT _limit
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    BEGIN
+      notification_id := _id;
+      recipients := public.deliver_notification(_id);
+      error := NULL;
+    EXCEPTION WHEN OTHERS THEN
+      UPDATE public.notifications SET status = 'failed', error_message = SQLERRM WHERE id = _id;
+      recipients := 0;
+      error := SQLERRM;
+    END;
+    RETURN NEXT;
+  END LOOP;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.mark_notifications_read(_ids UUID[] DEFAULT NULL)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _updated INTEGER;
+BEGIN
+  UPDATE public.user_notifications
+  SET read_at = now()
+  WHERE user_id = auth.uid()
+    AND read_at IS NULL
+    AND (_ids IS NULL OR id = ANY (_ids));
+
+  GET DIAGNOSTICS _updated = ROW_COUNT;
+  RETURN _updated;
+END;
+$$;
+
+-- Read receipts per notification for the admin list
+CREATE OR REPLACE VIEW public.notification_stats
+WITH (security_invoker = true)
+AS
+SELECT
+  n.id AS notification_id,
+  count(un.id) AS delivered_count,
+  count(un.read_at) AS read_count
+FROM public.notifications n
+LEFT JOIN public.user_notifications un ON un.notification_id = n.id
+GROUP BY n.id;
+
+REVOKE EXECUTE ON FUNCTION public.notification_audience(TEXT, UUID, UUID, TEXT, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.deliver_notification(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.deliver_due_notifications(INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.mark_notifications_read(UUID[]) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.mark_notifications_read(UUID[]) TO authenticated;
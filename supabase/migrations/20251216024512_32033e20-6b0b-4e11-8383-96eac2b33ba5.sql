@@ -0,0 +1,72 @@
+-- Servers & DRM: streaming origins with health checks, and DRM license profiles for DASH/HLS sources
+
+CREATE TABLE IF NOT EXISTS public.streaming_servers (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  server_type TEXT NOT NULL DEFAULT 'origin' CHECK (server_type IN ('origin', 'cdn')),
+  base_url TEXT NOT NULL,
+  health_check_url TEXT,
+  -- Lower numbers are tried first; equal priorities share load
+  priority INTEGER NOT NULL DEFAULT 100,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  health_status TEXT NOT NULL DEFAULT 'unknown' CHECK (health_status IN ('unknown', 'healthy', 'degraded', 'down')),
+  last_checked_at TIMESTAMP WITH TIME ZONE,
+  last_latency_ms INTEGER,
+  last_error TEXT,
+  notes TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_streaming_servers_priority ON public.streaming_servers(priority) WHERE is_active;
+
+ALTER TABLE public.streaming_servers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage streaming servers"
+ON public.streaming_servers
+FOR ALL
+USING (has_role(auth.uid(), 'admin'::app_role))
+WITH CHECK (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE TRIGGER update_streaming_servers_updated_at
+BEFORE UPDATE ON public.streaming_servers
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- License configuration is only handed to players by get-protected-video-url, never read directly
+CREATE TABLE IF NOT EXISTS public.drm_profiles (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  key_system TEXT NOT NULL CHECK (key_system IN ('com.widevine.alpha', 'com.microsoft.playready', 'org.w3.clearkey')),
+  license_server_url TEXT,
+  -- Extra headers sent with every license request, e.g. {"x-dt-custom-data": "..."}
+  license_headers JSONB NOT NULL DEFAULT '{}'::jsonb,
+  -- ClearKey only: [{"kid": "<32 hex>", "key": "<32 hex>"}]
+  clearkey_keys JSONB NOT NULL DEFAULT '[]'::jsonb,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  notes TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT drm_profiles_license_check CHECK (
+    license_server_url IS NOT NULL
+    OR (key_system = 'org.w3.clearkey' AND jsonb_array_length(clearkey_keys) > 0)
+  )
+);
+
+ALTER TABLE public.drm_profiles ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage DRM profiles"
+ON public.drm_profiles
+FOR ALL
+USING (has_role(auth.uid(), 'admin'::app_role))
+WITH CHECK (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE TRIGGER update_drm_profiles_updated_at
+BEFORE UPDATE ON public.drm_profiles
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.video_sources
+  ADD COLUMN IF NOT EXISTS drm_profile_id UUID REFERENCES public.drm_profiles(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_video_sources_drm_profile ON public.video_sources(drm_profile_id) WHERE drm_profile_id IS NOT NULL;
@@ -0,0 +1,182 @@
+-- Server-issued playback leases: concurrent-stream limits enforced by the database, not the browser
+
+CREATE TABLE IF NOT EXISTS public.playback_leases (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  device_id TEXT NOT NULL,
+  device_name TEXT,
+  device_type TEXT,
+  source_id UUID REFERENCES public.video_sources(id) ON DELETE SET NULL,
+  media_id UUID,
+  media_type TEXT,
+  max_streams INTEGER NOT NULL,
+  ip_address TEXT,
+  user_agent TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  last_heartbeat_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  revoked_at TIMESTAMP WITH TIME ZONE,
+  revoked_reason TEXT CHECK (revoked_reason IN ('replaced', 'released', 'kicked'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_playback_leases_active ON public.playback_leases(user_id, expires_at) WHERE revoked_at IS NULL;
+
+ALTER TABLE public.playback_leases ENABLE ROW LEVEL SECURITY;
+
+-- Leases are only written through the functions below
+CREATE POLICY "Users can view own playback leases"
+ON public.playback_leases
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view playback leases"
+ON public.playback_leases
+FOR SELECT
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+-- Players listen for their lease being revoked so a kick stops playback right away
+ALTER PUBLICATION supabase_realtime ADD TABLE public.playback_leases;
+
+-- Heartbeats arrive every 30 seconds; three missed beats free the slot
+CREATE OR REPLACE FUNCTION public.playback_lease_ttl()
+RETURNS INTERVAL
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT interval '90 seconds'
+$$;
+
+-- Called by get-protected-video-url once access is granted. The per-user advisory lock makes the
+-- count-then-insert atomic, so two devices starting at once cannot both squeeze past the limit.
+CREATE OR REPLACE FUNCTION public.acquire_playback_lease(
+  _user_id UUID,
+  _device_id TEXT,
+  _max_streams INTEGER,
+  _device_name TEXT DEFAULT NULL,
+  _device_type TEXT DEFAULT NULL,
+  _source_id UUID DEFAULT NULL,
+  _media_id UUID DEFAULT NULL,
+  _media_type TEXT DEFAULT NULL,
+  _ip_address TEXT DEFAULT NULL,
+  _user_agent TEXT DEFAULT NULL
+)
+RETURNS TABLE (lease_id UUID, expires_at TIMESTAMP WITH TIME ZONE, active_streams INTEGER)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _active INTEGER;
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext('playback_lease:' || _user_id::text));
+
+  -- A device holds one stream at a time; starting again replaces its previous lease.
+  -- Claiming another device's id therefore kicks that device instead of sharing its slot.
+  UPDATE public.playback_leases pl
+  SET revoked_at = now(), revoked_reason = 'replaced'
+  WHERE pl.user_id = _user_id
+    AND pl.device_id = _device_id
+    AND pl.revoked_at IS NULL
+    AND pl.expires_at > now();
+
+  SELECT count(*) INTO _active
+  FROM public.playback_leases pl
+  WHERE pl.user_id = _user_id
+    AND pl.revoked_at IS NULL
+    AND pl.expires_at > now();
+
+  IF _active >= GREATEST(_max_streams, 1) THEN
+    RAISE EXCEPTION 'STREAM_LIMIT_REACHED';
+  END IF;
+
+  RETURN QUERY
+  INSERT INTO public.playback_leases (
+    user_id, device_id, device_name, device_type, source_id, media_id, media_type,
+    max_streams, ip_address, user_agent, expires_at
+  )
+  VALUES (
+    _user_id, _device_id, _device_name, _device_type, _source_id, _media_id, _media_type,
+    GREATEST(_max_streams, 1), _ip_address, _user_agent, now() + public.playback_lease_ttl()
+  )
+  RETURNING id, playback_leases.expires_at, _active + 1;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.heartbeat_playback_lease(_lease_id UUID)
+RETURNS TIMESTAMP WITH TIME ZONE
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _expires_at TIMESTAMP WITH TIME ZONE;
+  _revoked_at TIMESTAMP WITH TIME ZONE;
+BEGIN
+  UPDATE public.playback_leases
+  SET last_heartbeat_at = now(), expires_at = now() + public.playback_lease_ttl()
+  WHERE id = _lease_id
+    AND user_id = auth.uid()
+    AND revoked_at IS NULL
+    AND expires_at > now()
+  RETURNING expires_at INTO _expires_at;
+
+  IF _expires_at IS NULL THEN
+    SELECT revoked_at INTO _revoked_at
+    FROM public.playback_leases
+    WHERE id = _lease_id AND user_id = auth.uid();
+
+    IF _revoked_at IS NOT NULL THEN
+      RAISE EXCEPTION 'LEASE_REVOKED';
+    END IF;
+    RAISE EXCEPTION 'LEASE_EXPIRED';
+  END IF;
+
+  RETURN _expires_at;
+END;
+$$;
+
+-- Frees the slot as soon as the player closes instead of waiting for the TTL
+CREATE OR REPLACE FUNCTION public.release_playback_lease(_lease_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.playback_leases
+  SET revoked_at = now(), revoked_reason = 'released'
+  WHERE id = _lease_id
+    AND user_id = auth.uid()
+    AND revoked_at IS NULL;
+END;
+$$;
+
+-- "Kick device" from account settings
+CREATE OR REPLACE FUNCTION public.revoke_device_leases(_device_id TEXT)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _revoked INTEGER;
+BEGIN
+  UPDATE public.playback_leases
+  SET revoked_at = now(), revoked_reason = 'kicked'
+  WHERE user_id = auth.uid()
+    AND device_id = _device_id
+    AND revoked_at IS NULL
+    AND expires_at > now();
+
+  GET DIAGNOSTICS _revoked = ROW_COUNT;
+  RETURN _revoked;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.acquire_playback_lease(UUID, TEXT, INTEGER, TEXT, TEXT, UUID, UUID, TEXT, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.heartbeat_playback_lease(UUID) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.release_playback_lease(UUID) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.revoke_device_leases(TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.heartbeat_playback_lease(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.release_playback_lease(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.revoke_device_leases(TEXT) TO authenticated;
@@ -0,0 +1,213 @@
+-- Live TV: electronic program guide per channel and viewer counts driven by player heartbeats
+
+-- XMLTV files identify channels by their own ids (e.g. "bbcone.uk"); this maps them to our channels
+ALTER TABLE public.streaming_channels ADD COLUMN IF NOT EXISTS epg_channel_id TEXT;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_streaming_channels_epg_channel_id
+ON public.streaming_channels(epg_channel_id)
+WHERE epg_channel_id IS NOT NULL;
+
+CREATE TABLE IF NOT EXISTS public.channel_programs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  channel_id UUID NOT NULL REFERENCES public.streaming_channels(id) ON DELETE CASCADE,
+  title TEXT NOT NULL,
+  subtitle TEXT,
+  description TEXT,
+  category TEXT,
+  image_url TEXT,
+  starts_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  ends_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT channel_programs_time_check CHECK (ends_at > starts_at),
+  CONSTRAINT channel_programs_channel_start_key UNIQUE (channel_id, starts_at)
+);
+
+CREATE INDEX IF NOT EXISTS idx_channel_programs_schedule ON public.channel_programs(channel_id, ends_at);
+
+ALTER TABLE public.channel_programs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view programs of active channels"
+ON public.channel_programs
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.streaming_channels c
+    WHERE c.id = channel_programs.channel_id AND c.is_active = true
+  )
+);
+
+CREATE POLICY "Admins can manage channel programs"
+ON public.channel_programs
+FOR ALL
+USING (has_role(auth.uid(), 'admin'::app_role))
+WITH CHECK (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE TRIGGER update_channel_programs_updated_at
+BEFORE UPDATE ON public.channel_programs
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Replace a channel's schedule for the window covered by an XMLTV import. Anything overlapping the
+-- imported range is dropped first so re-importing a corrected guide never leaves stale entries behind.
+CREATE OR REPLACE FUNCTION public.import_channel_programs(_channel_id UUID, _programs JSONB)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _from TIMESTAMP WITH TIME ZONE;
+  _to TIMESTAMP WITH TIME ZONE;
+  _count INTEGER;
+BEGIN
+  IF NOT has_role(auth.uid(), 'admin'::app_role) THEN
+    RAISE EXCEPTION 'FORBIDDEN';
+  END IF;
+
+  IF jsonb_typeof(_programs) <> 'array' OR jsonb_array_length(_programs) = 0 THEN
+    RETURN 0;
+  END IF;
+
+  SELECT min((p->>'starts_at')::timestamptz), max((p->>'ends_at')::timestamptz)
+  INTO _from, _to
+  FROM jsonb_array_elements(_programs) p;
+
+  DELETE FROM public.channel_programs
+  WHERE channel_id = _channel_id
+    AND starts_at < _to
+    AND ends_at > _from;
+
+  INSERT INTO public.channel_programs (channel_id, title, subtitle, description, category, image_url, starts_at, ends_at)
+  SELECT
+    _channel_id,
+    p->>'title',
+    NULLIF(p->>'subtitle', ''),
+    NULLIF(p->>'description', ''),
+    NULLIF(p->>'category', ''),
+    NULLIF(p->>'image_url', ''),
+    (p->>'starts_at')::timestamptz,
+    (p->>'ends_at')::timestamptz
+  FROM jsonb_array_elements(_programs) p
+  WHERE COALESCE(p->>'title', '') <> ''
+    AND (p->>'ends_at')::timestamptz > (p->>'starts_at')::timestamptz
+  ON CONFLICT (channel_id, starts_at) DO UPDATE SET
+    title = EXCLUDED.title,
+    subtitle = EXCLUDED.subtitle,
+    description = EXCLUDED.description,
+    category = EXCLUDED.category,
+    image_url = EXCLUDED.image_url,
+    ends_at = EXCLUDED.ends_at;
+
+  GET DIAGNOSTICS _count = ROW_COUNT;
+  RETURN _count;
+END;
+$$;
+
+-- One row per watching browser. Rows are only written through channel_heartbeat / leave_channel.
+CREATE TABLE IF NOT EXISTS public.channel_viewers (
+  channel_id UUID NOT NULL REFERENCES public.streaming_channels(id) ON DELETE CASCADE,
+  viewer_key TEXT NOT NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  started_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  last_seen_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (channel_id, viewer_key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_channel_viewers_last_seen ON public.channel_viewers(last_seen_at);
+
+ALTER TABLE public.channel_viewers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view channel viewers"
+ON public.channel_viewers
+FOR SELECT
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+-- Players beat every 30 seconds; a viewer missing two beats no longer counts
+CREATE OR REPLACE FUNCTION public.channel_viewer_ttl()
+RETURNS INTERVAL
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT interval '75 seconds'
+$$;
+
+-- Drop viewers that stopped beating and bring viewer_count in line for every channel that changed.
+-- Also called from the public /live page so counts decay even when nobody is watching.
+CREATE OR REPLACE FUNCTION public.refresh_channel_viewer_counts()
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  DELETE FROM public.channel_viewers
+  WHERE last_seen_at < now() - public.channel_viewer_ttl();
+
+  WITH counts AS (
+    SELECT c.id, count(v.viewer_key)::INTEGER AS viewers
+    FROM public.streaming_channels c
+    LEFT JOIN public.channel_viewers v ON v.channel_id = c.id
+    GROUP BY c.id
+  )
+  UPDATE public.streaming_channels c
+  SET viewer_count = counts.viewers
+  FROM counts
+  WHERE c.id = counts.id
+    AND c.viewer_count IS DISTINCT FROM counts.viewers;
+END;
+$$;
+
+-- Returns the channel's current concurrent viewers, including the caller
+CREATE OR REPLACE FUNCTION public.channel_heartbeat(_channel_id UUID, _viewer_key TEXT)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _viewers INTEGER;
+BEGIN
+  IF COALESCE(length(_viewer_key), 0) NOT BETWEEN 8 AND 128 THEN
+    RAISE EXCEPTION 'INVALID_VIEWER';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.streaming_channels WHERE id = _channel_id AND is_active = true) THEN
+    RAISE EXCEPTION 'CHANNEL_NOT_FOUND';
+  END IF;
+
+  INSERT INTO public.channel_viewers (channel_id, viewer_key, user_id)
+  VALUES (_channel_id, _viewer_key, auth.uid())
+  ON CONFLICT (channel_id, viewer_key) DO UPDATE SET
+    last_seen_at = now(),
+    user_id = COALESCE(EXCLUDED.user_id, public.channel_viewers.user_id);
+
+  PERFORM public.refresh_channel_viewer_counts();
+
+  SELECT viewer_count INTO _viewers FROM public.streaming_channels WHERE id = _channel_id;
+  RETURN COALESCE(_viewers, 0);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.leave_channel(_channel_id UUID, _viewer_key TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  DELETE FROM public.channel_viewers
+  WHERE channel_id = _channel_id AND viewer_key = _viewer_key;
+
+  PERFORM public.refresh_channel_viewer_counts();
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.import_channel_programs(UUID, JSONB) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.import_channel_programs(UUID, JSONB) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.refresh_channel_viewer_counts() TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.channel_heartbeat(UUID, TEXT) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.leave_channel(UUID, TEXT) TO anon, authenticated;
+
+-- The channel page shows the live count without polling
+ALTER PUBLICATION supabase_realtime ADD TABLE public.streaming_channels;
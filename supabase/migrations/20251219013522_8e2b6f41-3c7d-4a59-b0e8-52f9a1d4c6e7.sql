@@ -0,0 +1,67 @@
+-- Public collection pages: display order, home-page rows, TMDB linking and per-user progress
+
+ALTER TABLE public.collections
+  ADD COLUMN IF NOT EXISTS sort_mode TEXT NOT NULL DEFAULT 'release' CHECK (sort_mode IN ('release', 'custom')),
+  ADD COLUMN IF NOT EXISTS show_on_home BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS home_order INTEGER NOT NULL DEFAULT 0;
+
+-- import-tmdb-movies upserts on the TMDB collection id; NULLs stay unrestricted
+CREATE UNIQUE INDEX IF NOT EXISTS idx_collections_tmdb_id ON public.collections(tmdb_id);
+
+CREATE INDEX IF NOT EXISTS idx_collections_home ON public.collections(home_order) WHERE show_on_home = true;
+
+-- Collection items joined to their published title. Unpublished titles drop out of the public pages.
+CREATE OR REPLACE VIEW public.collection_entries
+WITH (security_invoker = true) AS
+SELECT ci.id, ci.collection_id, ci.media_id, ci.media_type, ci.order_index, ci.created_at,
+  w.title, w.thumbnail, w.backdrop_url, w.release_year, w.rating, w.access, w.tmdb_id
+FROM public.collection_items ci
+JOIN LATERAL (
+  SELECT m.title, m.thumbnail, m.backdrop_url, m.release_year, m.rating::numeric AS rating, m.access::text AS access, m.tmdb_id
+  FROM public.movies m
+  WHERE ci.media_type = 'movie' AND m.id = ci.media_id AND m.status = 'published'
+  UNION ALL
+  SELECT s.title, s.thumbnail, s.backdrop_url, s.release_year, s.rating::numeric, s.access::text, s.tmdb_id
+  FROM public.series s
+  WHERE ci.media_type = 'series' AND s.id = ci.media_id AND s.status = 'published'
+  UNION ALL
+  SELECT a.title, a.thumbnail, a.backdrop_url, a.release_year, a.rating::numeric, a.access, a.tmdb_id
+  FROM public.animes a
+  WHERE ci.media_type = 'anime' AND a.id = ci.media_id AND a.status = 'published'
+) w ON true;
+
+-- Which items of the given collections the caller has finished. A movie counts once it is completed;
+-- a series or anime once every episode it has is completed. Started-but-unfinished items are flagged too.
+CREATE OR REPLACE FUNCTION public.collection_progress(_collection_ids UUID[])
+RETURNS TABLE (collection_id UUID, media_id UUID, media_type TEXT, watched BOOLEAN, started BOOLEAN)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT ci.collection_id, ci.media_id, ci.media_type,
+    CASE
+      WHEN ci.media_type = 'movie' THEN coalesce(mw.completed, false)
+      ELSE coalesce(ep.total > 0 AND ep.completed >= ep.total, false)
+    END AS watched,
+    CASE
+      WHEN ci.media_type = 'movie' THEN mw.completed IS NOT NULL
+      ELSE coalesce(ep.started > 0, false)
+    END AS started
+  FROM collection_items ci
+  LEFT JOIN LATERAL (
+    SELECT bool_or(wh.completed) AS completed
+    FROM watch_history wh
+    WHERE ci.media_type = 'movie' AND wh.user_id = auth.uid() AND wh.movie_id = ci.media_id
+  ) mw ON true
+  LEFT JOIN LATERAL (
+    SELECT count(DISTINCT e.id) AS total,
+      count(DISTINCT wh.episode_id) FILTER (WHERE wh.completed) AS completed,
+      count(DISTINCT wh.episode_id) AS started
+    FROM seasons s
+    JOIN episodes e ON e.season_id = s.id
+    LEFT JOIN watch_history wh ON wh.episode_id = e.id AND wh.user_id = auth.uid()
+    WHERE ci.media_type <> 'movie' AND s.media_id = ci.media_id
+  ) ep ON true
+  WHERE ci.collection_id = ANY(_collection_ids)
+    AND auth.uid() IS NOT NULL
+$$;
@@ -0,0 +1,24 @@
+-- Episode timing markers for skip buttons and the next-episode countdown, plus the viewer's autoplay preference
+
+-- Offsets in seconds from the start of the episode; NULL means the segment isn't marked
+ALTER TABLE public.episodes
+  ADD COLUMN IF NOT EXISTS intro_start NUMERIC,
+  ADD COLUMN IF NOT EXISTS intro_end NUMERIC,
+  ADD COLUMN IF NOT EXISTS recap_start NUMERIC,
+  ADD COLUMN IF NOT EXISTS recap_end NUMERIC,
+  ADD COLUMN IF NOT EXISTS credits_start NUMERIC;
+
+ALTER TABLE public.episodes
+  DROP CONSTRAINT IF EXISTS episodes_intro_range_check,
+  ADD CONSTRAINT episodes_intro_range_check CHECK (intro_end IS NULL OR intro_start IS NULL OR intro_end > intro_start),
+  DROP CONSTRAINT IF EXISTS episodes_recap_range_check,
+  ADD CONSTRAINT episodes_recap_range_check CHECK (recap_end IS NULL OR recap_start IS NULL OR recap_end > recap_start),
+  DROP CONSTRAINT IF EXISTS episodes_markers_positive_check,
+  ADD CONSTRAINT episodes_markers_positive_check CHECK (
+    COALESCE(intro_start, 0) >= 0 AND COALESCE(intro_end, 0) >= 0
+    AND COALESCE(recap_start, 0) >= 0 AND COALESCE(recap_end, 0) >= 0
+    AND COALESCE(credits_start, 0) >= 0
+  );
+
+ALTER TABLE public.profiles
+  ADD COLUMN IF NOT EXISTS autoplay_next_episode BOOLEAN NOT NULL DEFAULT true;
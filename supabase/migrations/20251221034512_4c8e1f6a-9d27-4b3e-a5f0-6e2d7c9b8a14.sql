@@ -0,0 +1,45 @@
+-- Sidecar subtitles: WebVTT files in the media bucket, one per language and label for a movie or episode.
+-- Anime episodes live in public.episodes too, so episode_id covers them.
+
+CREATE TABLE IF NOT EXISTS public.subtitles (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  movie_id UUID REFERENCES public.movies(id) ON DELETE CASCADE,
+  episode_id UUID REFERENCES public.episodes(id) ON DELETE CASCADE,
+  language_id UUID NOT NULL REFERENCES public.languages(id) ON DELETE RESTRICT,
+  -- Shown in the player menu, e.g. "English" or "English (SDH)"
+  label TEXT NOT NULL,
+  -- Always a converted .vtt file; source_format records what the admin uploaded
+  file_path TEXT NOT NULL,
+  bucket_name TEXT NOT NULL DEFAULT 'media-files',
+  storage_account INTEGER NOT NULL DEFAULT 1,
+  source_format TEXT NOT NULL CHECK (source_format IN ('srt', 'vtt', 'ass')),
+  is_default BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT subtitles_target_check CHECK ((movie_id IS NULL) <> (episode_id IS NULL))
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_subtitles_movie_label ON public.subtitles(movie_id, language_id, label) WHERE movie_id IS NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_subtitles_episode_label ON public.subtitles(episode_id, language_id, label) WHERE episode_id IS NOT NULL;
+
+ALTER TABLE public.subtitles ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view subtitles"
+ON public.subtitles
+FOR SELECT
+USING (true);
+
+CREATE POLICY "Admins can manage subtitles"
+ON public.subtitles
+FOR ALL
+USING (has_role(auth.uid(), 'admin'::app_role))
+WITH CHECK (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE TRIGGER update_subtitles_updated_at
+BEFORE UPDATE ON public.subtitles
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Caption appearance chosen in the player: { size, color, background }. NULL means the defaults.
+ALTER TABLE public.profiles
+  ADD COLUMN IF NOT EXISTS subtitle_style JSONB;
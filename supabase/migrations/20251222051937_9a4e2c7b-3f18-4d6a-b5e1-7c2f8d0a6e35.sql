@@ -0,0 +1,63 @@
+-- Ad breaks: where in a title the player stops for ads and how many it plays per stop (an ad pod).
+-- Rows with no media are the site-wide default schedule, used for titles without breaks of their own.
+-- A break is filled from the ads inventory, from a VAST tag, or - for source 'vmap' - the VMAP document
+-- supplies the whole schedule and position/offset_seconds are ignored.
+
+CREATE TABLE IF NOT EXISTS public.ad_breaks (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  media_id UUID,
+  media_type TEXT CHECK (media_type IN ('movie', 'series', 'anime')),
+  position TEXT CHECK (position IN ('preroll', 'midroll', 'postroll')),
+  -- Mid-rolls only: seconds from the start of the video
+  offset_seconds INTEGER CHECK (offset_seconds > 0),
+  pod_size INTEGER NOT NULL DEFAULT 1 CHECK (pod_size BETWEEN 1 AND 5),
+  source TEXT NOT NULL DEFAULT 'inventory' CHECK (source IN ('inventory', 'vast', 'vmap')),
+  tag_url TEXT,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT ad_breaks_media_check CHECK ((media_id IS NULL) = (media_type IS NULL)),
+  CONSTRAINT ad_breaks_position_check CHECK (source = 'vmap' OR position IS NOT NULL),
+  CONSTRAINT ad_breaks_offset_check CHECK (source = 'vmap' OR (position = 'midroll') = (offset_seconds IS NOT NULL)),
+  CONSTRAINT ad_breaks_tag_check CHECK (source = 'inventory' OR tag_url IS NOT NULL)
+);
+
+CREATE INDEX IF NOT EXISTS idx_ad_breaks_media ON public.ad_breaks(media_type, media_id);
+
+ALTER TABLE public.ad_breaks ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view active ad breaks"
+ON public.ad_breaks
+FOR SELECT
+USING (is_active = true);
+
+CREATE POLICY "Admins can manage ad breaks"
+ON public.ad_breaks
+FOR ALL
+USING (has_role(auth.uid(), 'admin'::app_role))
+WITH CHECK (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE TRIGGER update_ad_breaks_updated_at
+BEFORE UPDATE ON public.ad_breaks
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Keep today's behaviour (one pre-roll from the inventory) as the default schedule
+INSERT INTO public.ad_breaks (position, pod_size, source)
+SELECT 'preroll', 1, 'inventory'
+WHERE NOT EXISTS (SELECT 1 FROM public.ad_breaks);
+
+-- Inventory ads can be a VAST tag instead of a hosted video, and can be capped per viewer.
+-- Caps count impressions per browser session and per viewer per day; NULL means uncapped.
+ALTER TABLE public.ads
+  ADD COLUMN IF NOT EXISTS vast_tag_url TEXT,
+  ADD COLUMN IF NOT EXISTS max_impressions_per_session INTEGER CHECK (max_impressions_per_session > 0),
+  ADD COLUMN IF NOT EXISTS max_impressions_per_day INTEGER CHECK (max_impressions_per_day > 0);
+
+ALTER TABLE public.ads DROP CONSTRAINT IF EXISTS ads_video_type_check;
+ALTER TABLE public.ads ADD CONSTRAINT ads_video_type_check
+  CHECK (video_type IS NULL OR video_type IN ('video', 'vast', 'popup', 'banner'));
+
+-- Subscribers on an ad-free plan skip every ad break
+ALTER TABLE public.subscription_plans
+  ADD COLUMN IF NOT EXISTS ad_free BOOLEAN NOT NULL DEFAULT true;
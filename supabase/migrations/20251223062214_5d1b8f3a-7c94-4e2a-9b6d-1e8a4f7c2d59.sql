@@ -0,0 +1,163 @@
+-- Ad event log. ads.impressions/clicks were bumped with a read-then-write from the browser, which loses
+-- counts under concurrency and keeps no history. Events now go through record_ad_event, which drops
+-- repeats within a viewing session and keeps the lifetime counters on ads in step atomically.
+--
+-- placement is where the ad was shown: a display slot (homepage, sidebar, banner, video_player),
+-- the in-player overlay (overlay), or an ad break (preroll, midroll, postroll).
+
+CREATE TABLE IF NOT EXISTS public.ad_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  ad_id UUID NOT NULL REFERENCES public.ads(id) ON DELETE CASCADE,
+  event_type TEXT NOT NULL CHECK (event_type IN ('impression', 'click', 'skip', 'complete')),
+  user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  session_id TEXT NOT NULL,
+  device TEXT NOT NULL CHECK (device IN ('desktop', 'mobile', 'tablet', 'app')),
+  placement TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT ad_events_session_unique UNIQUE (ad_id, session_id, event_type)
+);
+
+CREATE INDEX IF NOT EXISTS idx_ad_events_created_at ON public.ad_events(created_at);
+CREATE INDEX IF NOT EXISTS idx_ad_events_ad ON public.ad_events(ad_id, created_at);
+
+ALTER TABLE public.ad_events ENABLE ROW LEVEL SECURITY;
+
+-- No insert policy: viewers write through record_ad_event only
+CREATE POLICY "Admins can view ad events"
+ON public.ad_events
+FOR SELECT
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+-- Returns false when the event was a repeat for this session or the ad is not running
+CREATE OR REPLACE FUNCTION public.record_ad_event(
+  _ad_id UUID,
+  _event_type TEXT,
+  _session_id TEXT,
+  _device TEXT,
+  _placement TEXT
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _inserted INTEGER;
+BEGIN
+  IF _event_type NOT IN ('impression', 'click', 'skip', 'complete') THEN
+    RAISE EXCEPTION 'INVALID_EVENT_TYPE';
+  END IF;
+  IF _device NOT IN ('desktop', 'mobile', 'tablet', 'app') THEN
+    RAISE EXCEPTION 'INVALID_DEVICE';
+  END IF;
+  IF _session_id IS NULL OR length(_session_id) NOT BETWEEN 8 AND 64
+     OR _placement IS NULL OR length(_placement) NOT BETWEEN 1 AND 32 THEN
+    RAISE EXCEPTION 'INVALID_EVENT';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM ads WHERE id = _ad_id AND is_active) THEN
+    RETURN false;
+  END IF;
+
+  INSERT INTO ad_events (ad_id, event_type, user_id, session_id, device, placement)
+  VALUES (_ad_id, _event_type, auth.uid(), _session_id, _device, _placement)
+  ON CONFLICT ON CONSTRAINT ad_events_session_unique DO NOTHING;
+
+  GET DIAGNOSTICS _inserted = ROW_COUNT;
+  IF _inserted = 0 THEN
+    RETURN false;
+  END IF;
+
+  IF _event_type = 'impression' THEN
+    UPDATE ads SET impressions = coalesce(impressions, 0) + 1 WHERE id = _ad_id;
+  ELSIF _event_type = 'click' THEN
+    UPDATE ads SET clicks = coalesce(clicks, 0) + 1 WHERE id = _ad_id;
+  END IF;
+
+  RETURN true;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.record_ad_event(UUID, TEXT, TEXT, TEXT, TEXT) TO anon, authenticated;
+
+-- One row per day in [_from, _to], for the time series
+CREATE OR REPLACE FUNCTION public.ad_analytics_daily(_from DATE, _to DATE)
+RETURNS TABLE (
+  day DATE,
+  impressions BIGINT,
+  clicks BIGINT,
+  skips BIGINT,
+  completions BIGINT
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.analytics_require_admin();
+
+  RETURN QUERY
+  WITH days AS (
+    SELECT d::DATE AS day FROM generate_series(_from, _to, INTERVAL '1 day') AS d
+  ),
+  events AS (
+    SELECT (e.created_at AT TIME ZONE 'UTC')::DATE AS event_date,
+      count(*) FILTER (WHERE e.event_type = 'impression') AS impressions,
+      count(*) FILTER (WHERE e.event_type = 'click') AS clicks,
+      count(*) FILTER (WHERE e.event_type = 'skip') AS skips,
+      count(*) FILTER (WHERE e.event_type = 'complete') AS completions
+    FROM ad_events e
+    WHERE (e.created_at AT TIME ZONE 'UTC')::DATE BETWEEN _from AND _to
+    GROUP BY 1
+  )
+  SELECT
+    days.day,
+    coalesce(events.impressions, 0),
+    coalesce(events.clicks, 0),
+    coalesce(events.skips, 0),
+    coalesce(events.completions, 0)
+  FROM days
+  LEFT JOIN events ON events.event_date = days.day
+  ORDER BY days.day;
+END;
+$$;
+
+-- Totals per ad, placement and device; the dashboard groups them whichever way a chart needs
+CREATE OR REPLACE FUNCTION public.ad_analytics_breakdown(_from DATE, _to DATE)
+RETURNS TABLE (
+  ad_id UUID,
+  title TEXT,
+  ad_type TEXT,
+  placement TEXT,
+  device TEXT,
+  impressions BIGINT,
+  clicks BIGINT,
+  skips BIGINT,
+  completions BIGINT
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.analytics_require_admin();
+
+  RETURN QUERY
+  SELECT
+    a.id,
+    a.title,
+    a.ad_type,
+    e.placement,
+    e.device,
+    count(*) FILTER (WHERE e.event_type = 'impression'),
+    count(*) FILTER (WHERE e.event_type = 'click'),
+    count(*) FILTER (WHERE e.event_type = 'skip'),
+    count(*) FILTER (WHERE e.event_type = 'complete')
+  FROM ad_events e
+  JOIN ads a ON a.id = e.ad_id
+  WHERE (e.created_at AT TIME ZONE 'UTC')::DATE BETWEEN _from AND _to
+  GROUP BY a.id, a.title, a.ad_type, e.placement, e.device;
+END;
+$$;
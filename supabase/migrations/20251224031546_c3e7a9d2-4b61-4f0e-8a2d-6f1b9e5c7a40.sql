@@ -0,0 +1,322 @@
+-- Reservation fulfilment. An upcoming release is linked to the movie, series or anime it becomes,
+-- either matched on tmdb_id/anilist_id or picked by an admin, and flips to 'released' as soon as
+-- that title is published. Going to 'released' notifies every reservation in the app within the
+-- same transaction; the emails are queued on the reservation rows and sent by the
+-- send-reservation-notification function.
+
+ALTER TABLE public.upcoming_releases
+  ADD COLUMN IF NOT EXISTS anilist_id TEXT,
+  ADD COLUMN IF NOT EXISTS linked_media_type TEXT CHECK (linked_media_type IN ('movie', 'series', 'anime')),
+  ADD COLUMN IF NOT EXISTS linked_media_id UUID,
+  ADD COLUMN IF NOT EXISTS watch_path TEXT,
+  ADD COLUMN IF NOT EXISTS released_at TIMESTAMP WITH TIME ZONE;
+
+ALTER TABLE public.upcoming_releases DROP CONSTRAINT IF EXISTS upcoming_releases_link_check;
+ALTER TABLE public.upcoming_releases ADD CONSTRAINT upcoming_releases_link_check
+  CHECK ((linked_media_id IS NULL) = (linked_media_type IS NULL));
+
+CREATE INDEX IF NOT EXISTS idx_upcoming_releases_linked ON public.upcoming_releases(linked_media_type, linked_media_id);
+
+-- notified already existed; it is now only ever set by notify_release_reservations
+ALTER TABLE public.reservations
+  ADD COLUMN IF NOT EXISTS notified_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS email_claimed_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS emailed_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS email_attempts INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS email_error TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_reservations_email_queue ON public.reservations(notified_at)
+  WHERE notified AND emailed_at IS NULL;
+
+-- Release notifications are addressed to a release's reservations rather than a resolvable audience
+ALTER TABLE public.notifications
+  ADD COLUMN IF NOT EXISTS audience_release_id UUID REFERENCES public.upcoming_releases(id) ON DELETE SET NULL;
+
+DO $$
+DECLARE
+  _constraint TEXT;
+BEGIN
+  -- The original inline audience check was auto-named; find it by its value list
+  FOR _constraint IN
+    SELECT conname FROM pg_constraint
+    WHERE conrelid = 'public.notifications'::regclass
+      AND contype = 'c'
+      AND pg_get_constraintdef(oid) LIKE '%''cast_followers''::text])%'
+  LOOP
+    EXECUTE format('ALTER TABLE public.notifications DROP CONSTRAINT %I', _constraint);
+  END LOOP;
+END;
+$$;
+
+ALTER TABLE public.notifications ADD CONSTRAINT notifications_audience_values_check
+  CHECK (audience IN ('all', 'plan_subscribers', 'title_renters', 'cast_followers', 'release_reservers'));
+
+-- Where the public site plays a title; mirrors the links MediaCard builds
+CREATE OR REPLACE FUNCTION public.content_watch_path(_media_type TEXT, _media_id UUID)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE _media_type
+    WHEN 'movie' THEN (SELECT '/watch/movie/' || coalesce(m.tmdb_id, m.id::TEXT) FROM movies m WHERE m.id = _media_id)
+    WHEN 'series' THEN (SELECT '/watch/series/' || coalesce(s.tmdb_id, s.id::TEXT) || '/1/1' FROM series s WHERE s.id = _media_id)
+    WHEN 'anime' THEN (SELECT '/anime/' || coalesce(a.tmdb_id, a.id::TEXT) FROM animes a WHERE a.id = _media_id)
+  END
+$$;
+
+CREATE OR REPLACE FUNCTION public.content_is_published(_media_type TEXT, _media_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE _media_type
+    WHEN 'movie' THEN EXISTS (SELECT 1 FROM movies WHERE id = _media_id AND status = 'published')
+    WHEN 'series' THEN EXISTS (SELECT 1 FROM series WHERE id = _media_id AND status = 'published')
+    WHEN 'anime' THEN EXISTS (SELECT 1 FROM animes WHERE id = _media_id AND status = 'published')
+    ELSE false
+  END
+$$;
+
+-- Sends the in-app notification to every reservation not yet notified and marks them, all in one
+-- transaction. The release row lock serialises concurrent calls, so each reservation is notified once.
+CREATE OR REPLACE FUNCTION public.notify_release_reservations(_release_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _release public.upcoming_releases%ROWTYPE;
+  _notification_id UUID;
+  _notified INTEGER;
+BEGIN
+  SELECT * INTO _release FROM upcoming_releases WHERE id = _release_id FOR UPDATE;
+  IF NOT FOUND OR _release.status <> 'released' THEN
+    RETURN 0;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM reservations WHERE release_id = _release_id AND NOT notified) THEN
+    RETURN 0;
+  END IF;
+
+  INSERT INTO notifications (title, message, type, link_url, status, audience, audience_release_id, sent_at)
+  VALUES (
+    left(_release.title || ' is now available', 200),
+    left('The ' || _release.type || ' you reserved, ' || _release.title || ', is out now. Start watching!', 500),
+    'success',
+    coalesce(_release.watch_path, '/coming-soon'),
+    'sent',
+    'release_reservers',
+    _release_id,
+    now()
+  )
+  RETURNING id INTO _notification_id;
+
+  WITH pending AS (
+    UPDATE reservations
+    SET notified = true, notified_at = now()
+    WHERE release_id = _release_id AND NOT notified
+    RETURNING user_id
+  )
+  INSERT INTO user_notifications (notification_id, user_id)
+  SELECT _notification_id, pending.user_id FROM pending
+  ON CONFLICT (notification_id, user_id) DO NOTHING;
+
+  GET DIAGNOSTICS _notified = ROW_COUNT;
+  UPDATE notifications SET recipient_count = _notified WHERE id = _notification_id;
+
+  RETURN _notified;
+END;
+$$;
+
+-- Keeps the link, the watch path and the released state of an upcoming release consistent
+CREATE OR REPLACE FUNCTION public.sync_upcoming_release()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.linked_media_id IS NULL THEN
+    IF NEW.type = 'movie' AND NEW.tmdb_id IS NOT NULL THEN
+      SELECT 'movie', m.id INTO NEW.linked_media_type, NEW.linked_media_id
+      FROM movies m WHERE m.tmdb_id = NEW.tmdb_id ORDER BY m.created_at LIMIT 1;
+    ELSIF NEW.type = 'series' AND NEW.tmdb_id IS NOT NULL THEN
+      SELECT 'series', s.id INTO NEW.linked_media_type, NEW.linked_media_id
+      FROM series s WHERE s.tmdb_id = NEW.tmdb_id ORDER BY s.created_at LIMIT 1;
+    ELSIF NEW.type = 'anime' AND (NEW.anilist_id IS NOT NULL OR NEW.tmdb_id IS NOT NULL) THEN
+      SELECT 'anime', a.id INTO NEW.linked_media_type, NEW.linked_media_id
+      FROM animes a
+      WHERE a.anilist_id = NEW.anilist_id OR a.tmdb_id = NEW.tmdb_id
+      ORDER BY (a.anilist_id = NEW.anilist_id) DESC NULLS LAST, a.created_at
+      LIMIT 1;
+    END IF;
+  END IF;
+
+  NEW.watch_path := CASE
+    WHEN NEW.linked_media_id IS NULL THEN NULL
+    ELSE content_watch_path(NEW.linked_media_type, NEW.linked_media_id)
+  END;
+
+  IF NEW.status <> 'released' AND NEW.linked_media_id IS NOT NULL
+     AND content_is_published(NEW.linked_media_type, NEW.linked_media_id) THEN
+    NEW.status := 'released';
+  END IF;
+
+  IF NEW.status = 'released' THEN
+    NEW.released_at := coalesce(NEW.released_at, now());
+  ELSE
+    NEW.released_at := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS sync_upcoming_release ON public.upcoming_releases;
+CREATE TRIGGER sync_upcoming_release
+BEFORE INSERT OR UPDATE ON public.upcoming_releases
+FOR EACH ROW
+EXECUTE FUNCTION public.sync_upcoming_release();
+
+CREATE OR REPLACE FUNCTION public.notify_upcoming_release()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = 'released' AND (TG_OP = 'INSERT' OR OLD.status <> 'released') THEN
+    PERFORM notify_release_reservations(NEW.id);
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS notify_upcoming_release ON public.upcoming_releases;
+-- Not UPDATE OF status: sync_upcoming_release can set the status on updates that never mention it
+CREATE TRIGGER notify_upcoming_release
+AFTER INSERT OR UPDATE ON public.upcoming_releases
+FOR EACH ROW
+EXECUTE FUNCTION public.notify_upcoming_release();
+
+-- On movies, series and animes (TG_ARGV[0] is the media type): claims matching unlinked upcoming
+-- releases, and releases the linked ones once the title is published
+CREATE OR REPLACE FUNCTION public.fulfil_upcoming_releases()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _media_type TEXT := TG_ARGV[0];
+  _anilist_id TEXT;
+BEGIN
+  IF _media_type = 'anime' THEN
+    _anilist_id := to_jsonb(NEW) ->> 'anilist_id';
+  END IF;
+
+  UPDATE upcoming_releases u
+  SET linked_media_type = _media_type, linked_media_id = NEW.id
+  WHERE u.linked_media_id IS NULL
+    AND u.type = _media_type
+    AND (
+      (NEW.tmdb_id IS NOT NULL AND u.tmdb_id = NEW.tmdb_id)
+      OR (_anilist_id IS NOT NULL AND u.anilist_id = _anilist_id)
+    );
+
+  -- Touching the row re-runs sync_upcoming_release, which refreshes watch_path and the status
+  IF TG_OP = 'UPDATE' THEN
+    UPDATE upcoming_releases u
+    SET updated_at = now()
+    WHERE u.linked_media_type = _media_type
+      AND u.linked_media_id = NEW.id
+      AND (u.status <> 'released' OR u.watch_path IS DISTINCT FROM content_watch_path(_media_type, NEW.id));
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS fulfil_upcoming_releases ON public.movies;
+CREATE TRIGGER fulfil_upcoming_releases
+AFTER INSERT OR UPDATE OF status, tmdb_id ON public.movies
+FOR EACH ROW
+EXECUTE FUNCTION public.fulfil_upcoming_releases('movie');
+
+DROP TRIGGER IF EXISTS fulfil_upcoming_releases ON public.series;
+CREATE TRIGGER fulfil_upcoming_releases
+AFTER INSERT OR UPDATE OF status, tmdb_id ON public.series
+FOR EACH ROW
+EXECUTE FUNCTION public.fulfil_upcoming_releases('series');
+
+DROP TRIGGER IF EXISTS fulfil_upcoming_releases ON public.animes;
+CREATE TRIGGER fulfil_upcoming_releases
+AFTER INSERT OR UPDATE OF status, tmdb_id, anilist_id ON public.animes
+FOR EACH ROW
+EXECUTE FUNCTION public.fulfil_upcoming_releases('anime');
+
+-- Email queue, drained by send-reservation-notification. A claim is held for 15 minutes so two
+-- runs never mail the same reservation; a reservation is given up on after 5 failed attempts.
+CREATE OR REPLACE FUNCTION public.claim_reservation_emails(_limit INTEGER DEFAULT 50)
+RETURNS TABLE (
+  reservation_id UUID,
+  email TEXT,
+  release_title TEXT,
+  release_type TEXT,
+  watch_path TEXT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  WITH claimed AS (
+    UPDATE reservations r
+    SET email_claimed_at = now(), email_attempts = r.email_attempts + 1
+    WHERE r.id IN (
+      SELECT q.id FROM reservations q
+      WHERE q.notified
+        AND q.emailed_at IS NULL
+        AND q.email_attempts < 5
+        AND (q.email_claimed_at IS NULL OR q.email_claimed_at < now() - INTERVAL '15 minutes')
+      ORDER BY q.notified_at
+      LIMIT _limit
+      FOR UPDATE SKIP LOCKED
+    )
+    RETURNING r.id, r.user_id, r.release_id
+  )
+  SELECT claimed.id, p.email, u.title, u.type, u.watch_path
+  FROM claimed
+  JOIN upcoming_releases u ON u.id = claimed.release_id
+  LEFT JOIN profiles p ON p.id = claimed.user_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.complete_reservation_email(_reservation_id UUID, _error TEXT DEFAULT NULL)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE reservations
+  SET emailed_at = CASE WHEN _error IS NULL THEN now() END,
+      email_claimed_at = NULL,
+      email_error = _error
+  WHERE id = _reservation_id AND emailed_at IS NULL;
+END;
+$$;
+
+-- Only the service role drains the queue
+REVOKE EXECUTE ON FUNCTION public.claim_reservation_emails(INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.complete_reservation_email(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.notify_release_reservations(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Link what already exists; releases whose title is already published go out on this run
+UPDATE public.upcoming_releases SET updated_at = now() WHERE linked_media_id IS NULL AND status <> 'released';
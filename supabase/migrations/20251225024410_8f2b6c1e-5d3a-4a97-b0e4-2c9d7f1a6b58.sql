@@ -0,0 +1,5 @@
+-- Staff roles below admin. Added on their own because a new enum value cannot be used in the
+-- transaction that adds it; the permissions that go with them follow in the next migration.
+ALTER TYPE public.app_role ADD VALUE IF NOT EXISTS 'moderator';
+ALTER TYPE public.app_role ADD VALUE IF NOT EXISTS 'content_editor';
+ALTER TYPE public.app_role ADD VALUE IF NOT EXISTS 'finance';
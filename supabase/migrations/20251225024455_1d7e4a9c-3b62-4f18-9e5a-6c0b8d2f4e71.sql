@@ -0,0 +1,190 @@
+-- Scoped staff permissions. Each non-admin role grants a set of capabilities; admins implicitly
+-- hold every capability. RLS on the affected tables checks has_permission instead of the admin role,
+-- and every staff role granted or revoked is written to user_role_audit.
+
+CREATE TABLE IF NOT EXISTS public.role_permissions (
+  role app_role NOT NULL,
+  permission TEXT NOT NULL CHECK (permission IN ('comments.moderate', 'content.edit', 'payments.view', 'users.manage')),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (role, permission),
+  CONSTRAINT role_permissions_staff_check CHECK (role NOT IN ('admin', 'user'))
+);
+
+ALTER TABLE public.role_permissions ENABLE ROW LEVEL SECURITY;
+
+-- Signed-in users read the matrix to work out what their own roles allow
+CREATE POLICY "Authenticated users can view role permissions"
+ON public.role_permissions
+FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Admins can manage role permissions"
+ON public.role_permissions
+FOR ALL
+USING (has_role(auth.uid(), 'admin'::app_role))
+WITH CHECK (has_role(auth.uid(), 'admin'::app_role));
+
+INSERT INTO public.role_permissions (role, permission) VALUES
+  ('moderator', 'comments.moderate'),
+  ('moderator', 'users.manage'),
+  ('content_editor', 'content.edit'),
+  ('finance', 'payments.view')
+ON CONFLICT DO NOTHING;
+
+CREATE OR REPLACE FUNCTION public.has_permission(_user_id UUID, _permission TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM user_roles ur
+    LEFT JOIN role_permissions rp ON rp.role = ur.role AND rp.permission = _permission
+    WHERE ur.user_id = _user_id
+      AND (ur.role = 'admin' OR rp.permission IS NOT NULL)
+  )
+$$;
+
+-- Who granted or revoked which staff role. Kept after the user is deleted.
+CREATE TABLE IF NOT EXISTS public.user_role_audit (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL,
+  role app_role NOT NULL,
+  action TEXT NOT NULL CHECK (action IN ('granted', 'revoked')),
+  actor_id UUID,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_role_audit_created_at ON public.user_role_audit(created_at DESC);
+
+ALTER TABLE public.user_role_audit ENABLE ROW LEVEL SECURITY;
+
+-- Written only by the trigger below
+CREATE POLICY "Admins can view role audit"
+ON public.user_role_audit
+FOR SELECT
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE OR REPLACE FUNCTION public.audit_user_role_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _row public.user_roles%ROWTYPE;
+BEGIN
+  _row := CASE WHEN TG_OP = 'DELETE' THEN OLD ELSE NEW END;
+
+  -- Every account gets the plain user role at sign-up; only staff roles are worth a trail
+  IF _row.role = 'user' THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO user_role_audit (user_id, role, action, actor_id)
+  VALUES (_row.user_id, _row.role, CASE WHEN TG_OP = 'DELETE' THEN 'revoked' ELSE 'granted' END, auth.uid());
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS audit_user_role_change ON public.user_roles;
+CREATE TRIGGER audit_user_role_change
+AFTER INSERT OR DELETE ON public.user_roles
+FOR EACH ROW
+EXECUTE FUNCTION public.audit_user_role_change();
+
+-- Nobody can lock the site out of its admin pages
+CREATE OR REPLACE FUNCTION public.protect_last_admin()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.role = 'admin' AND NOT EXISTS (
+    SELECT 1 FROM user_roles WHERE role = 'admin' AND user_id <> OLD.user_id
+  ) THEN
+    RAISE EXCEPTION 'LAST_ADMIN';
+  END IF;
+  RETURN OLD;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS protect_last_admin ON public.user_roles;
+CREATE TRIGGER protect_last_admin
+BEFORE DELETE ON public.user_roles
+FOR EACH ROW
+EXECUTE FUNCTION public.protect_last_admin();
+
+-- Hand the admin checks of each area's policies to its permission. has_permission is true for
+-- admins, so what admins can do is unchanged.
+DO $$
+DECLARE
+  _scope RECORD;
+  _policy RECORD;
+  _admin_check CONSTANT TEXT := 'has_role(auth.uid(), ''admin''::app_role)';
+  _permission_check TEXT;
+BEGIN
+  FOR _scope IN
+    SELECT * FROM (VALUES
+      ('content.edit', ARRAY[
+        'movies', 'series', 'animes', 'seasons', 'episodes', 'video_sources', 'media', 'media_files',
+        'subtitles', 'movie_cast', 'series_cast', 'series_genres', 'series_producers', 'anime_characters',
+        'character_voice_actors', 'voice_actors', 'featured_content', 'collections', 'collection_items',
+        'genres', 'languages', 'networks', 'upcoming_releases', 'streaming_channels', 'channel_programs',
+        'streaming_servers', 'drm_profiles'
+      ]),
+      ('comments.moderate', ARRAY['comments', 'user_reports', 'suggestions']),
+      ('users.manage', ARRAY['profiles', 'user_sessions'])
+    ) AS scopes(permission, tables)
+  LOOP
+    _permission_check := format('has_permission(auth.uid(), %L)', _scope.permission);
+
+    FOR _policy IN
+      SELECT * FROM pg_policies
+      WHERE schemaname = 'public'
+        AND tablename = ANY(_scope.tables)
+        AND (position(_admin_check IN coalesce(qual, '')) > 0 OR position(_admin_check IN coalesce(with_check, '')) > 0)
+    LOOP
+      IF _policy.qual IS NOT NULL THEN
+        EXECUTE format('ALTER POLICY %I ON public.%I USING (%s)',
+          _policy.policyname, _policy.tablename, replace(_policy.qual, _admin_check, _permission_check));
+      END IF;
+      IF _policy.with_check IS NOT NULL THEN
+        EXECUTE format('ALTER POLICY %I ON public.%I WITH CHECK (%s)',
+          _policy.policyname, _policy.tablename, replace(_policy.with_check, _admin_check, _permission_check));
+      END IF;
+    END LOOP;
+  END LOOP;
+END;
+$$;
+
+-- Payments stay writable by admins only; finance gets a read-only view alongside
+DO $$
+DECLARE
+  _table TEXT;
+BEGIN
+  FOREACH _table IN ARRAY ARRAY[
+    'payment_transactions', 'payment_webhook_events', 'coupons', 'coupon_redemptions',
+    'user_subscriptions', 'user_rentals', 'user_wallets', 'wallet_transactions'
+  ]
+  LOOP
+    EXECUTE format('DROP POLICY IF EXISTS %I ON public.%I', 'Payment viewers can view ' || _table, _table);
+    EXECUTE format(
+      'CREATE POLICY %I ON public.%I FOR SELECT USING (has_permission(auth.uid(), %L))',
+      'Payment viewers can view ' || _table, _table, 'payments.view'
+    );
+  END LOOP;
+END;
+$$;
+
+-- Staff need everyone's roles to render the users and comments pages
+CREATE POLICY "Staff can view roles"
+ON public.user_roles
+FOR SELECT
+TO authenticated
+USING (has_permission(auth.uid(), 'users.manage') OR has_permission(auth.uid(), 'comments.moderate'));
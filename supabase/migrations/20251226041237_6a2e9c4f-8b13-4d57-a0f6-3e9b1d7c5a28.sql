@@ -0,0 +1,141 @@
+-- Audit log of admin-facing mutations. Triggers on the content, pricing, subscription, wallet and
+-- role tables record who changed which row: the full row on insert/delete, and only the changed
+-- columns (before and after) on update.
+
+CREATE TABLE IF NOT EXISTS public.audit_log (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  actor_id UUID,
+  table_name TEXT NOT NULL,
+  record_id TEXT NOT NULL,
+  action TEXT NOT NULL CHECK (action IN ('insert', 'update', 'delete')),
+  -- The account the row belongs to, for per-user history of subscriptions, wallets and roles
+  user_id UUID,
+  old_data JSONB,
+  new_data JSONB,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_audit_log_created_at ON public.audit_log(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_log_record ON public.audit_log(table_name, record_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_log_actor ON public.audit_log(actor_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_log_user ON public.audit_log(user_id, created_at DESC);
+
+ALTER TABLE public.audit_log ENABLE ROW LEVEL SECURITY;
+
+-- Written only by log_audit_event; nobody can edit the trail
+CREATE POLICY "Admins can view audit log"
+ON public.audit_log
+FOR SELECT
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+-- Trigger arguments name the key columns (default 'id'); composite keys are joined with ':'
+CREATE OR REPLACE FUNCTION public.log_audit_event()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _old JSONB := CASE WHEN TG_OP IN ('UPDATE', 'DELETE') THEN to_jsonb(OLD) END;
+  _new JSONB := CASE WHEN TG_OP IN ('INSERT', 'UPDATE') THEN to_jsonb(NEW) END;
+  _row JSONB := coalesce(_new, _old);
+  _record_id TEXT;
+  _key TEXT;
+BEGIN
+  IF TG_NARGS = 0 THEN
+    _record_id := _row->>'id';
+  ELSE
+    FOREACH _key IN ARRAY TG_ARGV LOOP
+      _record_id := concat_ws(':', _record_id, _row->>_key);
+    END LOOP;
+  END IF;
+
+  IF TG_OP = 'UPDATE' THEN
+    -- Keep only the columns that changed; bookkeeping timestamps alone are not worth a row
+    SELECT
+      jsonb_object_agg(o.key, o.value),
+      jsonb_object_agg(o.key, _new->o.key)
+    INTO _old, _new
+    FROM jsonb_each(_old) o
+    WHERE o.key <> 'updated_at'
+      AND o.value IS DISTINCT FROM _new->o.key;
+
+    IF _old IS NULL THEN
+      RETURN NULL;
+    END IF;
+  END IF;
+
+  INSERT INTO audit_log (actor_id, table_name, record_id, action, user_id, old_data, new_data)
+  VALUES (
+    auth.uid(),
+    TG_TABLE_NAME,
+    _record_id,
+    lower(TG_OP),
+    CASE WHEN _row ? 'user_id' THEN (_row->>'user_id')::uuid END,
+    _old,
+    _new
+  );
+
+  RETURN NULL;
+END;
+$$;
+
+DO $$
+DECLARE
+  _table TEXT;
+BEGIN
+  FOREACH _table IN ARRAY ARRAY[
+    -- Content
+    'movies', 'series', 'animes', 'seasons', 'episodes', 'video_sources', 'collections',
+    'collection_items', 'featured_content', 'upcoming_releases',
+    -- Pricing
+    'subscription_plans', 'coupons',
+    -- Subscriptions and wallets
+    'user_subscriptions', 'user_rentals', 'user_wallets', 'wallet_transactions',
+    -- Roles
+    'user_roles'
+  ]
+  LOOP
+    IF to_regclass('public.' || _table) IS NOT NULL THEN
+      EXECUTE format('DROP TRIGGER IF EXISTS audit_%1$s ON public.%1$I', _table);
+      EXECUTE format(
+        'CREATE TRIGGER audit_%1$s AFTER INSERT OR UPDATE OR DELETE ON public.%1$I
+         FOR EACH ROW EXECUTE FUNCTION public.log_audit_event()',
+        _table
+      );
+    END IF;
+  END LOOP;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS audit_role_permissions ON public.role_permissions;
+CREATE TRIGGER audit_role_permissions
+AFTER INSERT OR DELETE ON public.role_permissions
+FOR EACH ROW
+EXECUTE FUNCTION public.log_audit_event('role', 'permission');
+
+-- Members write their own comments; only edits and removals are moderation worth tracing
+DROP TRIGGER IF EXISTS audit_comments ON public.comments;
+CREATE TRIGGER audit_comments
+AFTER UPDATE OR DELETE ON public.comments
+FOR EACH ROW
+EXECUTE FUNCTION public.log_audit_event();
+
+-- Everyone who appears as an actor, for the viewer's filter
+CREATE OR REPLACE FUNCTION public.audit_log_actors()
+RETURNS TABLE (actor_id UUID, email TEXT)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.analytics_require_admin();
+
+  RETURN QUERY
+  SELECT a.actor_id, p.email
+  FROM (SELECT DISTINCT al.actor_id FROM audit_log al WHERE al.actor_id IS NOT NULL) a
+  LEFT JOIN profiles p ON p.id = a.actor_id
+  ORDER BY p.email;
+END;
+$$;
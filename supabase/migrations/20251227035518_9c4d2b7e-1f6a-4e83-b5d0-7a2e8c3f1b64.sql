@@ -0,0 +1,291 @@
+-- Threaded comments: replies nest to any depth under a root comment, anime titles can be discussed,
+-- members react to comments and @mentions notify the mentioned member. Threads are read through
+-- get_comment_threads, one cursor page of roots with all their replies in a single call.
+
+ALTER TABLE public.comments
+  ADD COLUMN IF NOT EXISTS anime_id UUID REFERENCES public.animes(id) ON DELETE CASCADE,
+  ADD COLUMN IF NOT EXISTS root_id UUID REFERENCES public.comments(id) ON DELETE CASCADE;
+
+ALTER TABLE public.comments DROP CONSTRAINT IF EXISTS check_media_reference;
+ALTER TABLE public.comments ADD CONSTRAINT check_media_reference CHECK (
+  num_nonnulls(episode_id, movie_id, anime_id) = 1
+);
+
+-- Existing replies were one level deep, so their parent is their root
+UPDATE public.comments SET root_id = parent_id WHERE parent_id IS NOT NULL AND root_id IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_comments_anime_id ON public.comments(anime_id) WHERE is_deleted = false;
+CREATE INDEX IF NOT EXISTS idx_comments_root_id ON public.comments(root_id);
+
+-- Replies inherit their thread and title from the parent, whatever the client sent
+CREATE OR REPLACE FUNCTION public.set_comment_thread()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _parent public.comments%ROWTYPE;
+BEGIN
+  IF NEW.parent_id IS NULL THEN
+    NEW.root_id := NULL;
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO _parent FROM comments WHERE id = NEW.parent_id;
+  IF NOT FOUND OR _parent.is_deleted THEN
+    RAISE EXCEPTION 'PARENT_NOT_FOUND';
+  END IF;
+
+  NEW.root_id := coalesce(_parent.root_id, _parent.id);
+  NEW.movie_id := _parent.movie_id;
+  NEW.episode_id := _parent.episode_id;
+  NEW.anime_id := _parent.anime_id;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS set_comment_thread ON public.comments;
+CREATE TRIGGER set_comment_thread
+BEFORE INSERT ON public.comments
+FOR EACH ROW
+EXECUTE FUNCTION public.set_comment_thread();
+
+CREATE TABLE IF NOT EXISTS public.comment_reactions (
+  comment_id UUID NOT NULL REFERENCES public.comments(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  reaction TEXT NOT NULL CHECK (reaction IN ('like', 'love', 'laugh', 'wow', 'sad')),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  -- One reaction per member per comment; reacting again replaces it
+  PRIMARY KEY (comment_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_comment_reactions_user ON public.comment_reactions(user_id);
+
+ALTER TABLE public.comment_reactions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view comment reactions"
+ON public.comment_reactions
+FOR SELECT
+USING (true);
+
+CREATE POLICY "Users can manage own comment reactions"
+ON public.comment_reactions
+FOR ALL
+TO authenticated
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
+
+-- Where a comment's title is watched, for links from mention notifications
+CREATE OR REPLACE FUNCTION public.comment_watch_path(_comment_id UUID)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN c.movie_id IS NOT NULL THEN content_watch_path('movie', c.movie_id)
+    WHEN c.anime_id IS NOT NULL THEN content_watch_path('anime', c.anime_id)
+    ELSE (
+      SELECT coalesce(
+        '/watch/series/' || coalesce(s.tmdb_id, s.id::TEXT) || '/' || se.season_number || '/' || e.episode_number,
+        content_watch_path('anime', se.media_id)
+      )
+      FROM episodes e
+      JOIN seasons se ON se.id = e.season_id
+      LEFT JOIN series s ON s.id = se.media_id
+      WHERE e.id = c.episode_id
+    )
+  END
+  FROM comments c
+  WHERE c.id = _comment_id
+$$;
+
+-- Personal notifications addressed to the members mentioned in a comment
+ALTER TABLE public.notifications DROP CONSTRAINT IF EXISTS notifications_audience_values_check;
+ALTER TABLE public.notifications ADD CONSTRAINT notifications_audience_values_check
+  CHECK (audience IN ('all', 'plan_subscribers', 'title_renters', 'cast_followers', 'release_reservers', 'comment_mentions'));
+
+-- Mentions are stored as @[Display name](user id), the markup the comment composer inserts
+CREATE OR REPLACE FUNCTION public.notify_comment_mentions()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _author TEXT;
+  _notification_id UUID;
+  _notified INTEGER;
+BEGIN
+  IF NEW.content !~ '@\[[^\]]+\]\([0-9a-f-]{36}\)' THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT coalesce(display_name, split_part(email, '@', 1)) INTO _author FROM profiles WHERE id = NEW.user_id;
+
+  INSERT INTO notifications (title, message, type, link_url, status, audience, created_by, sent_at)
+  VALUES (
+    left(coalesce(_author, 'Someone') || ' mentioned you', 200),
+    left(regexp_replace(NEW.content, '@\[([^\]]+)\]\([0-9a-f-]{36}\)', '@\1', 'g'), 500),
+    'info',
+    comment_watch_path(NEW.id),
+    'sent',
+    'comment_mentions',
+    NEW.user_id,
+    now()
+  )
+  RETURNING id INTO _notification_id;
+
+  -- At most ten members per comment, never the author, only real accounts
+  INSERT INTO user_notifications (notification_id, user_id)
+  SELECT _notification_id, p.id
+  FROM (
+    SELECT DISTINCT m[1]::UUID AS user_id
+    FROM regexp_matches(NEW.content, '@\[[^\]]+\]\(([0-9a-f-]{36})\)', 'g') AS m
+    LIMIT 10
+  ) mentioned
+  JOIN profiles p ON p.id = mentioned.user_id
+  WHERE p.id <> NEW.user_id
+  ON CONFLICT (notification_id, user_id) DO NOTHING;
+
+  GET DIAGNOSTICS _notified = ROW_COUNT;
+  IF _notified = 0 THEN
+    DELETE FROM notifications WHERE id = _notification_id;
+  ELSE
+    UPDATE notifications SET recipient_count = _notified WHERE id = _notification_id;
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS notify_comment_mentions ON public.comments;
+CREATE TRIGGER notify_comment_mentions
+AFTER INSERT ON public.comments
+FOR EACH ROW
+EXECUTE FUNCTION public.notify_comment_mentions();
+
+-- Members the composer can suggest after '@'
+CREATE OR REPLACE FUNCTION public.search_mentionable_users(_query TEXT, _limit INTEGER DEFAULT 8)
+RETURNS TABLE (id UUID, display_name TEXT, profile_picture_url TEXT)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT p.id, coalesce(p.display_name, split_part(p.email, '@', 1)), p.profile_picture_url
+  FROM profiles p
+  WHERE auth.uid() IS NOT NULL
+    AND length(trim(_query)) > 0
+    AND (p.display_name ILIKE trim(_query) || '%' OR split_part(p.email, '@', 1) ILIKE trim(_query) || '%')
+  ORDER BY p.display_name NULLS LAST
+  LIMIT least(_limit, 20)
+$$;
+
+-- One page of threads for a title. Roots are ordered newest first, or by reaction count for 'top';
+-- pass the last root's score, created_at and id as the cursor for the next page. Every reply of the
+-- page's roots comes back too. Removed comments are kept as blank placeholders while they still
+-- have live replies, so threads do not break apart.
+CREATE OR REPLACE FUNCTION public.get_comment_threads(
+  _movie_id UUID DEFAULT NULL,
+  _episode_id UUID DEFAULT NULL,
+  _anime_id UUID DEFAULT NULL,
+  _sort TEXT DEFAULT 'newest',
+  _limit INTEGER DEFAULT 20,
+  _cursor_score INTEGER DEFAULT NULL,
+  _cursor_created_at TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  _cursor_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  parent_id UUID,
+  root_id UUID,
+  user_id UUID,
+  content TEXT,
+  is_deleted BOOLEAN,
+  is_edited BOOLEAN,
+  created_at TIMESTAMP WITH TIME ZONE,
+  author_name TEXT,
+  author_avatar TEXT,
+  score INTEGER,
+  reactions JSONB,
+  my_reaction TEXT,
+  reply_count INTEGER
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH titled AS (
+    SELECT c.*
+    FROM comments c
+    WHERE (_movie_id IS NOT NULL AND c.movie_id = _movie_id)
+       OR (_episode_id IS NOT NULL AND c.episode_id = _episode_id)
+       OR (_anime_id IS NOT NULL AND c.anime_id = _anime_id)
+  ),
+  live AS (
+    SELECT d.root_id, count(*)::INTEGER AS replies
+    FROM titled d
+    WHERE d.root_id IS NOT NULL AND NOT d.is_deleted
+    GROUP BY d.root_id
+  ),
+  reacted AS (
+    SELECT r.comment_id, count(*)::INTEGER AS total
+    FROM comment_reactions r
+    JOIN titled t ON t.id = r.comment_id
+    GROUP BY r.comment_id
+  ),
+  scored AS (
+    SELECT t.*,
+      coalesce(reacted.total, 0) AS score,
+      coalesce(live.replies, 0) AS live_replies
+    FROM titled t
+    LEFT JOIN reacted ON reacted.comment_id = t.id
+    LEFT JOIN live ON live.root_id = t.id
+  ),
+  page AS (
+    SELECT s.id
+    FROM scored s
+    WHERE s.parent_id IS NULL
+      AND (NOT s.is_deleted OR s.live_replies > 0)
+      AND (
+        _cursor_id IS NULL
+        OR (_sort = 'top' AND (s.score, s.created_at, s.id) < (_cursor_score, _cursor_created_at, _cursor_id))
+        OR (_sort <> 'top' AND (s.created_at, s.id) < (_cursor_created_at, _cursor_id))
+      )
+    ORDER BY CASE WHEN _sort = 'top' THEN s.score END DESC NULLS LAST, s.created_at DESC, s.id DESC
+    LIMIT least(_limit, 50)
+  )
+  SELECT
+    s.id,
+    s.parent_id,
+    s.root_id,
+    s.user_id,
+    CASE WHEN s.is_deleted THEN '' ELSE s.content END,
+    s.is_deleted,
+    s.is_edited,
+    s.created_at,
+    CASE WHEN s.is_deleted THEN NULL ELSE coalesce(p.display_name, split_part(p.email, '@', 1)) END,
+    CASE WHEN s.is_deleted THEN NULL ELSE p.profile_picture_url END,
+    s.score,
+    coalesce(
+      (SELECT jsonb_object_agg(r.reaction, r.total)
+       FROM (SELECT reaction, count(*) AS total FROM comment_reactions WHERE comment_id = s.id GROUP BY reaction) r),
+      '{}'::JSONB
+    ),
+    (SELECT reaction FROM comment_reactions WHERE comment_id = s.id AND comment_reactions.user_id = auth.uid()),
+    CASE WHEN s.parent_id IS NULL THEN s.live_replies ELSE 0 END
+  FROM scored s
+  JOIN page ON page.id = coalesce(s.root_id, s.id)
+  LEFT JOIN profiles p ON p.id = s.user_id
+  WHERE s.parent_id IS NULL
+     OR NOT s.is_deleted
+     OR EXISTS (SELECT 1 FROM scored d WHERE d.parent_id = s.id AND NOT d.is_deleted)
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_comment_threads(UUID, UUID, UUID, TEXT, INTEGER, INTEGER, TIMESTAMP WITH TIME ZONE, UUID) TO anon, authenticated;
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.comments;
@@ -0,0 +1,52 @@
+-- Multipart uploads in progress. The browser sends parts straight to IDrive E2 through presigned URLs;
+-- this row lets the same file pick up where it left off after a reload, and becomes a media_files row
+-- once every part is in.
+
+CREATE TABLE IF NOT EXISTS public.media_uploads (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  -- name:size:lastModified of the local file, how a re-selected file is matched to its upload
+  file_fingerprint TEXT NOT NULL,
+  file_name TEXT NOT NULL,
+  file_size BIGINT NOT NULL CHECK (file_size > 0),
+  content_type TEXT NOT NULL,
+  file_category TEXT NOT NULL DEFAULT 'general',
+  bucket_name TEXT NOT NULL DEFAULT 'media-files',
+  storage_account INTEGER NOT NULL DEFAULT 1,
+  file_path TEXT NOT NULL,
+  s3_upload_id TEXT NOT NULL,
+  part_size INTEGER NOT NULL CHECK (part_size > 0),
+  status TEXT NOT NULL DEFAULT 'uploading' CHECK (status IN ('uploading', 'completed', 'aborted')),
+  media_file_id UUID REFERENCES public.media_files(id) ON DELETE SET NULL,
+  completed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- One open upload per local file and user
+CREATE UNIQUE INDEX IF NOT EXISTS idx_media_uploads_open
+  ON public.media_uploads(user_id, file_fingerprint)
+  WHERE status = 'uploading';
+
+ALTER TABLE public.media_uploads ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Content editors can view own uploads"
+ON public.media_uploads
+FOR SELECT
+USING (auth.uid() = user_id AND has_permission(auth.uid(), 'content.edit'));
+
+CREATE POLICY "Content editors can create own uploads"
+ON public.media_uploads
+FOR INSERT
+WITH CHECK (auth.uid() = user_id AND has_permission(auth.uid(), 'content.edit'));
+
+CREATE POLICY "Content editors can update own uploads"
+ON public.media_uploads
+FOR UPDATE
+USING (auth.uid() = user_id AND has_permission(auth.uid(), 'content.edit'))
+WITH CHECK (auth.uid() = user_id AND has_permission(auth.uid(), 'content.edit'));
+
+CREATE TRIGGER update_media_uploads_updated_at
+BEFORE UPDATE ON public.media_uploads
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,106 @@
+-- Media library support: per storage account / category usage, and orphan detection. A file is in use
+-- when any content, profile or ad column holds its path, either bare or inside an IDrive E2 URL.
+
+CREATE INDEX IF NOT EXISTS idx_media_files_created_at ON public.media_files(created_at DESC);
+
+-- Every stored media reference. Internal to the functions below; it would otherwise expose every profile's images.
+CREATE OR REPLACE FUNCTION public.media_references()
+RETURNS TABLE (ref TEXT)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT r.ref FROM (
+    SELECT unnest(ARRAY[thumbnail, backdrop_url, video_url, trailer_url]) AS ref FROM movies
+    UNION ALL SELECT unnest(ARRAY[poster_url, backdrop_url, thumbnail, trailer_url]) FROM series
+    UNION ALL SELECT unnest(ARRAY[thumbnail, backdrop_url, trailer_url]) FROM animes
+    UNION ALL SELECT poster_path FROM seasons
+    UNION ALL SELECT unnest(ARRAY[still_path, video_url, trailer_url]) FROM episodes
+    UNION ALL SELECT url FROM video_sources
+    UNION ALL SELECT q.value FROM video_sources vs, jsonb_each_text(coalesce(vs.quality_urls, '{}'::jsonb)) q
+    UNION ALL SELECT file_path FROM subtitles
+    UNION ALL SELECT unnest(ARRAY[poster_url, backdrop_url]) FROM collections
+    UNION ALL SELECT unnest(ARRAY[thumbnail, backdrop_url, trailer_url]) FROM upcoming_releases
+    UNION ALL SELECT unnest(ARRAY[profile_picture_url, cover_picture_url]) FROM profiles
+    UNION ALL SELECT unnest(ARRAY[image_url, video_url]) FROM ads
+  ) r
+  WHERE r.ref IS NOT NULL AND r.ref <> '';
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.media_references() FROM PUBLIC, anon, authenticated;
+
+-- A reference matches a file when it is the path itself or a URL (query string ignored) ending in /path
+CREATE OR REPLACE FUNCTION public.media_ref_matches(_ref TEXT, _file_path TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT _ref = _file_path
+    OR right(split_part(_ref, '?', 1), length(_file_path) + 1) = '/' || _file_path;
+$$;
+
+-- File count and bytes for each storage account and category; the page sums these for its account
+-- cards and folder list
+CREATE OR REPLACE FUNCTION public.media_library_stats()
+RETURNS TABLE (storage_account INTEGER, file_category TEXT, file_count BIGINT, total_bytes BIGINT)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_permission(auth.uid(), 'content.edit') THEN
+    RAISE EXCEPTION 'FORBIDDEN';
+  END IF;
+
+  RETURN QUERY
+  SELECT mf.storage_account, coalesce(mf.file_category, 'general'), count(*), coalesce(sum(mf.file_size), 0)::BIGINT
+  FROM media_files mf
+  GROUP BY 1, 2
+  ORDER BY 1, 2;
+END;
+$$;
+
+-- Files nothing points at. Recent uploads are left out: an image picked in an edit form is only
+-- referenced once the form is saved.
+CREATE OR REPLACE FUNCTION public.find_orphaned_media_files(_min_age INTERVAL DEFAULT INTERVAL '1 day')
+RETURNS SETOF public.media_files
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_permission(auth.uid(), 'content.edit') THEN
+    RAISE EXCEPTION 'FORBIDDEN';
+  END IF;
+
+  RETURN QUERY
+  WITH refs AS MATERIALIZED (SELECT DISTINCT r.ref FROM public.media_references() r)
+  SELECT mf.*
+  FROM media_files mf
+  WHERE mf.created_at < now() - _min_age
+    AND NOT EXISTS (SELECT 1 FROM refs WHERE public.media_ref_matches(refs.ref, mf.file_path))
+  ORDER BY mf.created_at;
+END;
+$$;
+
+-- Re-checked by delete-media-file right before an orphan cleanup removes a file
+CREATE OR REPLACE FUNCTION public.media_file_is_referenced(_file_path TEXT)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_permission(auth.uid(), 'content.edit') THEN
+    RAISE EXCEPTION 'FORBIDDEN';
+  END IF;
+
+  RETURN EXISTS (
+    SELECT 1 FROM public.media_references() r WHERE public.media_ref_matches(r.ref, _file_path)
+  );
+END;
+$$;
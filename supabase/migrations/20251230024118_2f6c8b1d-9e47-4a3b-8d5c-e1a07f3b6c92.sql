@@ -0,0 +1,354 @@
+-- HLS transcoding queue. An editor points a job at an uploaded master file; a worker running ffmpeg
+-- (scripts/transcode-worker.mjs, through the transcode-worker edge function) claims it, writes the
+-- rendition ladder and master playlist back to the bucket, and completing the job adds the
+-- video_sources row.
+
+CREATE TABLE IF NOT EXISTS public.transcode_jobs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  movie_id UUID REFERENCES public.movies(id) ON DELETE CASCADE,
+  episode_id UUID REFERENCES public.episodes(id) ON DELETE CASCADE,
+  media_file_id UUID REFERENCES public.media_files(id) ON DELETE SET NULL,
+  source_path TEXT NOT NULL,
+  source_bucket TEXT NOT NULL DEFAULT 'media-files',
+  source_storage_account INTEGER NOT NULL DEFAULT 1,
+  renditions TEXT[] NOT NULL DEFAULT ARRAY['1080p', '720p', '480p', '360p'],
+  -- Copied onto the video_sources row the job creates
+  server_name TEXT NOT NULL DEFAULT 'HLS',
+  version TEXT NOT NULL DEFAULT 'free',
+  permission TEXT NOT NULL DEFAULT 'Web & Mobile',
+  make_default BOOLEAN NOT NULL DEFAULT false,
+  status TEXT NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'running', 'completed', 'failed', 'cancelled')),
+  progress NUMERIC(5, 2) NOT NULL DEFAULT 0,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 3,
+  worker_id TEXT,
+  heartbeat_at TIMESTAMP WITH TIME ZONE,
+  started_at TIMESTAMP WITH TIME ZONE,
+  finished_at TIMESTAMP WITH TIME ZONE,
+  error TEXT,
+  output_prefix TEXT,
+  video_source_id UUID REFERENCES public.video_sources(id) ON DELETE SET NULL,
+  requested_by UUID NOT NULL DEFAULT auth.uid(),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT transcode_jobs_target CHECK (num_nonnulls(movie_id, episode_id) = 1),
+  CONSTRAINT transcode_jobs_renditions CHECK (
+    cardinality(renditions) > 0 AND renditions <@ ARRAY['1080p', '720p', '480p', '360p']
+  )
+);
+
+CREATE INDEX IF NOT EXISTS idx_transcode_jobs_queue ON public.transcode_jobs(status, created_at);
+CREATE INDEX IF NOT EXISTS idx_transcode_jobs_movie ON public.transcode_jobs(movie_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_transcode_jobs_episode ON public.transcode_jobs(episode_id, created_at DESC);
+
+CREATE TABLE IF NOT EXISTS public.transcode_job_logs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  job_id UUID NOT NULL REFERENCES public.transcode_jobs(id) ON DELETE CASCADE,
+  attempt INTEGER NOT NULL DEFAULT 0,
+  level TEXT NOT NULL DEFAULT 'info' CHECK (level IN ('info', 'warn', 'error')),
+  message TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_transcode_job_logs_job ON public.transcode_job_logs(job_id, created_at);
+
+ALTER TABLE public.transcode_jobs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.transcode_job_logs ENABLE ROW LEVEL SECURITY;
+
+-- Editors queue jobs and read them; state changes go through the functions below
+CREATE POLICY "Content editors can view transcode jobs"
+ON public.transcode_jobs
+FOR SELECT
+USING (has_permission(auth.uid(), 'content.edit'));
+
+CREATE POLICY "Content editors can queue transcode jobs"
+ON public.transcode_jobs
+FOR INSERT
+WITH CHECK (
+  has_permission(auth.uid(), 'content.edit')
+  AND requested_by = auth.uid()
+  AND status = 'queued'
+  AND attempts = 0
+);
+
+CREATE POLICY "Content editors can delete finished transcode jobs"
+ON public.transcode_jobs
+FOR DELETE
+USING (has_permission(auth.uid(), 'content.edit') AND status IN ('completed', 'failed', 'cancelled'));
+
+CREATE POLICY "Content editors can view transcode logs"
+ON public.transcode_job_logs
+FOR SELECT
+USING (has_permission(auth.uid(), 'content.edit'));
+
+CREATE TRIGGER update_transcode_jobs_updated_at
+BEFORE UPDATE ON public.transcode_jobs
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Job lists refresh live in the admin UI
+ALTER PUBLICATION supabase_realtime ADD TABLE public.transcode_jobs;
+
+-- Editor actions
+
+CREATE OR REPLACE FUNCTION public.retry_transcode_job(_job_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_permission(auth.uid(), 'content.edit') THEN
+    RAISE EXCEPTION 'FORBIDDEN';
+  END IF;
+
+  UPDATE transcode_jobs
+  SET status = 'queued', attempts = 0, progress = 0, error = NULL, worker_id = NULL,
+      heartbeat_at = NULL, finished_at = NULL
+  WHERE id = _job_id AND status IN ('failed', 'cancelled');
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'JOB_NOT_RETRYABLE';
+  END IF;
+
+  INSERT INTO transcode_job_logs (job_id, message)
+  VALUES (_job_id, 'Queued again by ' || coalesce((SELECT email FROM profiles WHERE id = auth.uid()), 'an editor'));
+END;
+$$;
+
+-- A running job stops at the worker's next progress report
+CREATE OR REPLACE FUNCTION public.cancel_transcode_job(_job_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_permission(auth.uid(), 'content.edit') THEN
+    RAISE EXCEPTION 'FORBIDDEN';
+  END IF;
+
+  UPDATE transcode_jobs
+  SET status = 'cancelled', finished_at = now()
+  WHERE id = _job_id AND status IN ('queued', 'running');
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'JOB_NOT_CANCELLABLE';
+  END IF;
+
+  INSERT INTO transcode_job_logs (job_id, level, message)
+  VALUES (_job_id, 'warn', 'Cancelled by ' || coalesce((SELECT email FROM profiles WHERE id = auth.uid()), 'an editor'));
+END;
+$$;
+
+-- Worker side, called by the transcode-worker edge function with the service role
+
+CREATE OR REPLACE FUNCTION public.log_transcode_job(_job_id UUID, _level TEXT, _message TEXT)
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  INSERT INTO transcode_job_logs (job_id, attempt, level, message)
+  SELECT j.id, j.attempts, _level, left(_message, 4000) FROM transcode_jobs j WHERE j.id = _job_id;
+$$;
+
+-- Oldest queued job for this worker. A running job whose worker stopped reporting for 10 minutes
+-- is requeued first, or failed once it has used up its attempts.
+CREATE OR REPLACE FUNCTION public.claim_transcode_job(_worker_id TEXT)
+RETURNS SETOF public.transcode_jobs
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _stale RECORD;
+  _job transcode_jobs;
+BEGIN
+  FOR _stale IN
+    UPDATE transcode_jobs
+    SET status = CASE WHEN attempts >= max_attempts THEN 'failed' ELSE 'queued' END,
+        error = 'Worker ' || coalesce(worker_id, '?') || ' stopped responding',
+        worker_id = NULL,
+        finished_at = CASE WHEN attempts >= max_attempts THEN now() END
+    WHERE status = 'running' AND heartbeat_at < now() - INTERVAL '10 minutes'
+    RETURNING id, error
+  LOOP
+    PERFORM public.log_transcode_job(_stale.id, 'error', _stale.error);
+  END LOOP;
+
+  UPDATE transcode_jobs j
+  SET status = 'running',
+      worker_id = _worker_id,
+      attempts = j.attempts + 1,
+      progress = 0,
+      error = NULL,
+      heartbeat_at = now(),
+      started_at = coalesce(j.started_at, now()),
+      output_prefix = 'hls/' || j.id
+  WHERE j.id = (
+    SELECT q.id FROM transcode_jobs q
+    WHERE q.status = 'queued'
+    ORDER BY q.created_at
+    LIMIT 1
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING j.* INTO _job;
+
+  IF _job.id IS NOT NULL THEN
+    PERFORM public.log_transcode_job(
+      _job.id, 'info', format('Claimed by %s (attempt %s of %s)', _worker_id, _job.attempts, _job.max_attempts)
+    );
+    RETURN NEXT _job;
+  END IF;
+END;
+$$;
+
+-- Heartbeat and progress; returns the job's status so the worker stops when it is no longer running
+CREATE OR REPLACE FUNCTION public.report_transcode_progress(_job_id UUID, _worker_id TEXT, _progress NUMERIC)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _status TEXT;
+BEGIN
+  UPDATE transcode_jobs
+  SET progress = greatest(0, least(_progress, 100)), heartbeat_at = now()
+  WHERE id = _job_id AND worker_id = _worker_id AND status = 'running';
+
+  SELECT CASE WHEN worker_id = _worker_id THEN status ELSE 'cancelled' END INTO _status
+  FROM transcode_jobs WHERE id = _job_id;
+
+  RETURN coalesce(_status, 'cancelled');
+END;
+$$;
+
+-- Failed attempts go back in the queue until max_attempts is reached
+CREATE OR REPLACE FUNCTION public.fail_transcode_job(_job_id UUID, _worker_id TEXT, _error TEXT)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _status TEXT;
+BEGIN
+  UPDATE transcode_jobs
+  SET status = CASE WHEN attempts >= max_attempts THEN 'failed' ELSE 'queued' END,
+      error = left(_error, 4000),
+      worker_id = NULL,
+      finished_at = CASE WHEN attempts >= max_attempts THEN now() END
+  WHERE id = _job_id AND worker_id = _worker_id AND status = 'running'
+  RETURNING status INTO _status;
+
+  IF _status IS NOT NULL THEN
+    PERFORM public.log_transcode_job(
+      _job_id, 'error', _error || CASE WHEN _status = 'queued' THEN ' (will retry)' ELSE '' END
+    );
+  END IF;
+
+  RETURN _status;
+END;
+$$;
+
+-- _master: {path, url, bytes}; _renditions: [{quality, path, url, bytes}], highest quality first.
+-- The playlists are recorded in media_files, which is what lets playback sign them.
+CREATE OR REPLACE FUNCTION public.complete_transcode_job(
+  _job_id UUID,
+  _worker_id TEXT,
+  _master JSONB,
+  _renditions JSONB
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _job transcode_jobs;
+  _source_id UUID;
+BEGIN
+  SELECT * INTO _job FROM transcode_jobs
+  WHERE id = _job_id AND worker_id = _worker_id AND status = 'running'
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'JOB_NOT_RUNNING';
+  END IF;
+
+  IF _job.make_default THEN
+    UPDATE video_sources SET is_default = false
+    WHERE (_job.movie_id IS NOT NULL AND media_id = _job.movie_id)
+       OR (_job.episode_id IS NOT NULL AND episode_id = _job.episode_id);
+  END IF;
+
+  INSERT INTO video_sources (
+    media_id, episode_id, source_type, url, quality, quality_urls, is_default, version, permission, server_name
+  )
+  VALUES (
+    _job.movie_id,
+    _job.episode_id,
+    'hls',
+    _master->>'url',
+    _renditions->0->>'quality',
+    (SELECT coalesce(jsonb_object_agg(r->>'quality', r->>'url'), '{}'::jsonb) FROM jsonb_array_elements(_renditions) r),
+    _job.make_default OR NOT EXISTS (
+      SELECT 1 FROM video_sources
+      WHERE (_job.movie_id IS NOT NULL AND media_id = _job.movie_id)
+         OR (_job.episode_id IS NOT NULL AND episode_id = _job.episode_id)
+    ),
+    _job.version,
+    _job.permission,
+    _job.server_name
+  )
+  RETURNING id INTO _source_id;
+
+  INSERT INTO media_files (user_id, file_path, bucket_name, storage_account, file_size, content_type, file_category)
+  SELECT _job.requested_by, o->>'path', _job.source_bucket, _job.source_storage_account,
+         (o->>'bytes')::BIGINT, 'application/vnd.apple.mpegurl', 'hls'
+  FROM (SELECT _master AS o UNION ALL SELECT r FROM jsonb_array_elements(_renditions) r) outputs;
+
+  UPDATE transcode_jobs
+  SET status = 'completed', progress = 100, finished_at = now(), heartbeat_at = now(), video_source_id = _source_id
+  WHERE id = _job_id;
+
+  PERFORM public.log_transcode_job(_job_id, 'info', format('Completed: %s renditions', jsonb_array_length(_renditions)));
+  RETURN _source_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.log_transcode_job(UUID, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.claim_transcode_job(TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.report_transcode_progress(UUID, TEXT, NUMERIC) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.fail_transcode_job(UUID, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.complete_transcode_job(UUID, TEXT, JSONB, JSONB) FROM PUBLIC, anon, authenticated;
+
+-- Masters of queued or running jobs are in use, so orphan cleanup leaves them alone
+CREATE OR REPLACE FUNCTION public.media_references()
+RETURNS TABLE (ref TEXT)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT r.ref FROM (
+    SELECT unnest(ARRAY[thumbnail, backdrop_url, video_url, trailer_url]) AS ref FROM movies
+    UNION ALL SELECT unnest(ARRAY[poster_url, backdrop_url, thumbnail, trailer_url]) FROM series
+    UNION ALL SELECT unnest(ARRAY[thumbnail, backdrop_url, trailer_url]) FROM animes
+    UNION ALL SELECT poster_path FROM seasons
+    UNION ALL SELECT unnest(ARRAY[still_path, video_url, trailer_url]) FROM episodes
+    UNION ALL SELECT url FROM video_sources
+    UNION ALL SELECT q.value FROM video_sources vs, jsonb_each_text(coalesce(vs.quality_urls, '{}'::jsonb)) q
+    UNION ALL SELECT file_path FROM subtitles
+    UNION ALL SELECT unnest(ARRAY[poster_url, backdrop_url]) FROM collections
+    UNION ALL SELECT unnest(ARRAY[thumbnail, backdrop_url, trailer_url]) FROM upcoming_releases
+    UNION ALL SELECT unnest(ARRAY[profile_picture_url, cover_picture_url]) FROM profiles
+    UNION ALL SELECT unnest(ARRAY[image_url, video_url]) FROM ads
+    UNION ALL SELECT source_path FROM transcode_jobs WHERE status IN ('queued', 'running')
+  ) r
+  WHERE r.ref IS NOT NULL AND r.ref <> '';
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.media_references() FROM PUBLIC, anon, authenticated;
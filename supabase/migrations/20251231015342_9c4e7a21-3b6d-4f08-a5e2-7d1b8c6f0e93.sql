@@ -0,0 +1,70 @@
+-- Social, magic link and Telegram sign-in.
+-- Google/Facebook/email identities live in auth.identities and always belong to one auth user (and so one
+-- profiles row). Telegram is not a Supabase Auth provider: the telegram-auth function verifies the login
+-- widget and keeps the mapping here.
+
+CREATE TABLE public.telegram_identities (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL UNIQUE REFERENCES auth.users(id) ON DELETE CASCADE,
+  telegram_id bigint NOT NULL UNIQUE,
+  username text,
+  first_name text,
+  last_name text,
+  photo_url text,
+  last_login_at timestamptz NOT NULL DEFAULT now(),
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.telegram_identities ENABLE ROW LEVEL SECURITY;
+
+-- Linking and unlinking go through telegram-auth (service role) after the widget hash is checked
+CREATE POLICY "Users can view own telegram identity"
+ON public.telegram_identities
+FOR SELECT
+USING (auth.uid() = user_id);
+
+-- New users start with a profile built from whatever the provider shares.
+-- Accounts created for Telegram logins carry a placeholder address under telegram.invalid.
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  _meta jsonb := coalesce(new.raw_user_meta_data, '{}'::jsonb);
+BEGIN
+  INSERT INTO public.profiles (id, email, display_name, profile_picture_url)
+  VALUES (
+    new.id,
+    new.email,
+    coalesce(
+      nullif(_meta->>'full_name', ''),
+      nullif(_meta->>'name', ''),
+      nullif(_meta->>'user_name', ''),
+      split_part(new.email, '@', 1)
+    ),
+    coalesce(nullif(_meta->>'avatar_url', ''), nullif(_meta->>'picture', ''))
+  )
+  ON CONFLICT (id) DO NOTHING;
+  RETURN new;
+END;
+$$;
+
+-- Keep profiles.email in step with a confirmed email change (e.g. a Telegram account adding a real address)
+CREATE OR REPLACE FUNCTION public.handle_user_email_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  IF new.email IS NOT NULL AND new.email IS DISTINCT FROM old.email THEN
+    UPDATE public.profiles SET email = new.email WHERE id = new.id;
+  END IF;
+  RETURN new;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_auth_user_email_changed ON auth.users;
+CREATE TRIGGER on_auth_user_email_changed
+  AFTER UPDATE OF email ON auth.users
+  FOR EACH ROW EXECUTE FUNCTION public.handle_user_email_change();
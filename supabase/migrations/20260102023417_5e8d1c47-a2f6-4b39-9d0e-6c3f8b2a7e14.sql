@@ -0,0 +1,300 @@
+-- Household profiles: one account (and one subscription) can hold up to 5 viewer profiles, each with
+-- its own avatar, maturity rating, language, watch history, watchlist and likes. public.profiles stays
+-- the account-level record; viewer_profiles are the people watching on it.
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+
+CREATE TABLE public.viewer_profiles (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  account_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name text NOT NULL CHECK (char_length(btrim(name)) BETWEEN 1 AND 30),
+  avatar_url text,
+  -- kids: only titles rated kids; teen: kids and teen; adult: everything
+  maturity_rating text NOT NULL DEFAULT 'adult' CHECK (maturity_rating IN ('kids', 'teen', 'adult')),
+  -- ISO 639-1 code; picks the default subtitle track
+  language text,
+  has_pin boolean NOT NULL DEFAULT false,
+  is_primary boolean NOT NULL DEFAULT false,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_viewer_profiles_account ON public.viewer_profiles(account_id, created_at);
+CREATE UNIQUE INDEX idx_viewer_profiles_primary ON public.viewer_profiles(account_id) WHERE is_primary;
+
+-- PIN hashes are never readable by clients; viewer_profiles.has_pin mirrors whether one exists
+CREATE TABLE public.viewer_profile_pins (
+  profile_id uuid PRIMARY KEY REFERENCES public.viewer_profiles(id) ON DELETE CASCADE,
+  pin_hash text NOT NULL,
+  failed_attempts integer NOT NULL DEFAULT 0,
+  locked_until timestamptz,
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.viewer_profiles ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.viewer_profile_pins ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own viewer profiles"
+ON public.viewer_profiles
+FOR SELECT
+USING (auth.uid() = account_id);
+
+-- The primary profile is created with the account; extra ones are added here
+CREATE POLICY "Users can add viewer profiles"
+ON public.viewer_profiles
+FOR INSERT
+WITH CHECK (auth.uid() = account_id AND NOT is_primary);
+
+CREATE POLICY "Users can update own viewer profiles"
+ON public.viewer_profiles
+FOR UPDATE
+USING (auth.uid() = account_id);
+
+CREATE POLICY "Users can delete secondary viewer profiles"
+ON public.viewer_profiles
+FOR DELETE
+USING (auth.uid() = account_id AND NOT is_primary);
+
+-- Caps profiles per account and keeps ownership, primary flag and has_pin out of clients' hands
+CREATE OR REPLACE FUNCTION public.guard_viewer_profile()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    IF (SELECT count(*) FROM viewer_profiles WHERE account_id = NEW.account_id) >= 5 THEN
+      RAISE EXCEPTION 'PROFILE_LIMIT_REACHED';
+    END IF;
+    NEW.has_pin := false;
+  ELSE
+    NEW.account_id := OLD.account_id;
+    NEW.is_primary := OLD.is_primary;
+    NEW.has_pin := EXISTS (SELECT 1 FROM viewer_profile_pins WHERE profile_id = NEW.id);
+  END IF;
+  NEW.name := btrim(NEW.name);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER guard_viewer_profile
+BEFORE INSERT OR UPDATE ON public.viewer_profiles
+FOR EACH ROW
+EXECUTE FUNCTION public.guard_viewer_profile();
+
+CREATE TRIGGER update_viewer_profiles_updated_at
+BEFORE UPDATE ON public.viewer_profiles
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Every existing account gets a primary profile named after its display name
+INSERT INTO public.viewer_profiles (account_id, name, avatar_url, is_primary)
+SELECT
+  u.id,
+  left(coalesce(nullif(btrim(p.display_name), ''), nullif(split_part(u.email, '@', 1), ''), 'Me'), 30),
+  p.profile_picture_url,
+  true
+FROM auth.users u
+LEFT JOIN public.profiles p ON p.id = u.id
+ON CONFLICT (account_id) WHERE is_primary DO NOTHING;
+
+-- New accounts start with their primary profile as well
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  _meta jsonb := coalesce(new.raw_user_meta_data, '{}'::jsonb);
+  _name text := coalesce(
+    nullif(_meta->>'full_name', ''),
+    nullif(_meta->>'name', ''),
+    nullif(_meta->>'user_name', ''),
+    split_part(new.email, '@', 1)
+  );
+  _avatar text := coalesce(nullif(_meta->>'avatar_url', ''), nullif(_meta->>'picture', ''));
+BEGIN
+  INSERT INTO public.profiles (id, email, display_name, profile_picture_url)
+  VALUES (new.id, new.email, _name, _avatar)
+  ON CONFLICT (id) DO NOTHING;
+
+  INSERT INTO public.viewer_profiles (account_id, name, avatar_url, is_primary)
+  VALUES (new.id, left(coalesce(nullif(btrim(_name), ''), 'Me'), 30), _avatar, true)
+  ON CONFLICT (account_id) WHERE is_primary DO NOTHING;
+  RETURN new;
+END;
+$$;
+
+-- Per-profile viewing data. Writers that do not pass a profile land on the account's primary profile.
+ALTER TABLE public.watch_history ADD COLUMN profile_id uuid REFERENCES public.viewer_profiles(id) ON DELETE CASCADE;
+ALTER TABLE public.user_watchlist ADD COLUMN profile_id uuid REFERENCES public.viewer_profiles(id) ON DELETE CASCADE;
+ALTER TABLE public.user_likes ADD COLUMN profile_id uuid REFERENCES public.viewer_profiles(id) ON DELETE CASCADE;
+
+UPDATE public.watch_history t SET profile_id = vp.id
+FROM public.viewer_profiles vp WHERE vp.account_id = t.user_id AND vp.is_primary;
+UPDATE public.user_watchlist t SET profile_id = vp.id
+FROM public.viewer_profiles vp WHERE vp.account_id = t.user_id AND vp.is_primary;
+UPDATE public.user_likes t SET profile_id = vp.id
+FROM public.viewer_profiles vp WHERE vp.account_id = t.user_id AND vp.is_primary;
+
+-- Watchlist and like rows had no user foreign key, so rows of deleted accounts have no profile to move to
+DELETE FROM public.user_watchlist WHERE profile_id IS NULL;
+DELETE FROM public.user_likes WHERE profile_id IS NULL;
+
+CREATE OR REPLACE FUNCTION public.assign_viewer_profile()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  IF NEW.profile_id IS NULL THEN
+    SELECT id INTO NEW.profile_id FROM viewer_profiles WHERE account_id = NEW.user_id AND is_primary;
+  ELSIF NOT EXISTS (SELECT 1 FROM viewer_profiles WHERE id = NEW.profile_id AND account_id = NEW.user_id) THEN
+    RAISE EXCEPTION 'PROFILE_NOT_FOUND';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER assign_watch_history_profile
+BEFORE INSERT OR UPDATE OF profile_id, user_id ON public.watch_history
+FOR EACH ROW EXECUTE FUNCTION public.assign_viewer_profile();
+
+CREATE TRIGGER assign_user_watchlist_profile
+BEFORE INSERT OR UPDATE OF profile_id, user_id ON public.user_watchlist
+FOR EACH ROW EXECUTE FUNCTION public.assign_viewer_profile();
+
+CREATE TRIGGER assign_user_likes_profile
+BEFORE INSERT OR UPDATE OF profile_id, user_id ON public.user_likes
+FOR EACH ROW EXECUTE FUNCTION public.assign_viewer_profile();
+
+ALTER TABLE public.watch_history ALTER COLUMN profile_id SET NOT NULL;
+ALTER TABLE public.user_watchlist ALTER COLUMN profile_id SET NOT NULL;
+ALTER TABLE public.user_likes ALTER COLUMN profile_id SET NOT NULL;
+
+-- Each profile keeps its own list and its own like
+ALTER TABLE public.user_watchlist DROP CONSTRAINT IF EXISTS user_watchlist_user_id_media_id_media_type_key;
+ALTER TABLE public.user_watchlist ADD CONSTRAINT user_watchlist_profile_media_key UNIQUE (profile_id, media_id, media_type);
+ALTER TABLE public.user_likes DROP CONSTRAINT IF EXISTS user_likes_user_id_media_id_media_type_key;
+ALTER TABLE public.user_likes ADD CONSTRAINT user_likes_profile_media_key UNIQUE (profile_id, media_id, media_type);
+
+CREATE INDEX idx_watch_history_profile_last_watched ON public.watch_history(profile_id, last_watched_at DESC);
+CREATE INDEX idx_watch_history_profile_movie ON public.watch_history(profile_id, movie_id);
+CREATE INDEX idx_watch_history_profile_episode ON public.watch_history(profile_id, episode_id);
+
+-- Title ratings the profile maturity is checked against; unrated titles are hidden from kids profiles only
+ALTER TABLE public.movies ADD COLUMN maturity_rating text CHECK (maturity_rating IN ('kids', 'teen', 'adult'));
+ALTER TABLE public.series ADD COLUMN maturity_rating text CHECK (maturity_rating IN ('kids', 'teen', 'adult'));
+ALTER TABLE public.animes ADD COLUMN maturity_rating text CHECK (maturity_rating IN ('kids', 'teen', 'adult'));
+
+-- True when the caller signed in (with any method) within the last 10 minutes
+CREATE OR REPLACE FUNCTION public.signed_in_recently()
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT coalesce(max((entry->>'timestamp')::bigint), 0) > extract(epoch FROM now()) - 600
+  FROM jsonb_array_elements(coalesce(auth.jwt()->'amr', '[]'::jsonb)) AS entry
+$$;
+
+-- Sets, changes or clears (_pin NULL) a profile PIN. Replacing an existing PIN needs that PIN,
+-- or a fresh sign-in for the account holder who forgot it.
+CREATE OR REPLACE FUNCTION public.set_viewer_profile_pin(_profile_id uuid, _pin text DEFAULT NULL, _current_pin text DEFAULT NULL)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  _existing viewer_profile_pins%ROWTYPE;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM viewer_profiles WHERE id = _profile_id AND account_id = auth.uid()) THEN
+    RAISE EXCEPTION 'PROFILE_NOT_FOUND';
+  END IF;
+  IF _pin IS NOT NULL AND _pin !~ '^[0-9]{4}$' THEN
+    RAISE EXCEPTION 'INVALID_PIN';
+  END IF;
+
+  SELECT * INTO _existing FROM viewer_profile_pins WHERE profile_id = _profile_id FOR UPDATE;
+  IF FOUND AND NOT public.signed_in_recently() THEN
+    IF _current_pin IS NULL OR extensions.crypt(_current_pin, _existing.pin_hash) <> _existing.pin_hash THEN
+      RAISE EXCEPTION 'WRONG_PIN';
+    END IF;
+  END IF;
+
+  IF _pin IS NULL THEN
+    DELETE FROM viewer_profile_pins WHERE profile_id = _profile_id;
+  ELSE
+    INSERT INTO viewer_profile_pins (profile_id, pin_hash)
+    VALUES (_profile_id, extensions.crypt(_pin, extensions.gen_salt('bf')))
+    ON CONFLICT (profile_id) DO UPDATE
+      SET pin_hash = EXCLUDED.pin_hash, failed_attempts = 0, locked_until = NULL, updated_at = now();
+  END IF;
+
+  -- guard_viewer_profile recomputes has_pin
+  UPDATE viewer_profiles SET updated_at = now() WHERE id = _profile_id;
+END;
+$$;
+
+-- Checks a PIN before switching to a locked profile. Five wrong tries lock it for 5 minutes.
+CREATE OR REPLACE FUNCTION public.verify_viewer_profile_pin(_profile_id uuid, _pin text)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  _existing viewer_profile_pins%ROWTYPE;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM viewer_profiles WHERE id = _profile_id AND account_id = auth.uid()) THEN
+    RAISE EXCEPTION 'PROFILE_NOT_FOUND';
+  END IF;
+
+  SELECT * INTO _existing FROM viewer_profile_pins WHERE profile_id = _profile_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN true;
+  END IF;
+  IF _existing.locked_until > now() THEN
+    RAISE EXCEPTION 'PIN_LOCKED';
+  END IF;
+
+  IF extensions.crypt(coalesce(_pin, ''), _existing.pin_hash) = _existing.pin_hash THEN
+    UPDATE viewer_profile_pins SET failed_attempts = 0, locked_until = NULL WHERE profile_id = _profile_id;
+    RETURN true;
+  END IF;
+
+  UPDATE viewer_profile_pins
+  SET failed_attempts = CASE WHEN failed_attempts + 1 >= 5 THEN 0 ELSE failed_attempts + 1 END,
+      locked_until = CASE WHEN failed_attempts + 1 >= 5 THEN now() + interval '5 minutes' ELSE NULL END
+  WHERE profile_id = _profile_id;
+  RETURN false;
+END;
+$$;
+
+-- Viewer avatars are uploaded to the media library too, so orphan cleanup must leave them alone
+CREATE OR REPLACE FUNCTION public.media_references()
+RETURNS TABLE (ref TEXT)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT r.ref FROM (
+    SELECT unnest(ARRAY[thumbnail, backdrop_url, video_url, trailer_url]) AS ref FROM movies
+    UNION ALL SELECT unnest(ARRAY[poster_url, backdrop_url, thumbnail, trailer_url]) FROM series
+    UNION ALL SELECT unnest(ARRAY[thumbnail, backdrop_url, trailer_url]) FROM animes
+    UNION ALL SELECT poster_path FROM seasons
+    UNION ALL SELECT unnest(ARRAY[still_path, video_url, trailer_url]) FROM episodes
+    UNION ALL SELECT url FROM video_sources
+    UNION ALL SELECT q.value FROM video_sources vs, jsonb_each_text(coalesce(vs.quality_urls, '{}'::jsonb)) q
+    UNION ALL SELECT file_path FROM subtitles
+    UNION ALL SELECT unnest(ARRAY[poster_url, backdrop_url]) FROM collections
+    UNION ALL SELECT unnest(ARRAY[thumbnail, backdrop_url, trailer_url]) FROM upcoming_releases
+    UNION ALL SELECT unnest(ARRAY[profile_picture_url, cover_picture_url]) FROM profiles
+    UNION ALL SELECT avatar_url FROM viewer_profiles
+    UNION ALL SELECT unnest(ARRAY[image_url, video_url]) FROM ads
+    UNION ALL SELECT source_path FROM transcode_jobs WHERE status IN ('queued', 'running')
+  ) r
+  WHERE r.ref IS NOT NULL AND r.ref <> '';
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.media_references() FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,3 @@
+-- Rentals are entitlements: only edge functions (service role) may create them.
+-- A user-inserted 'completed' row would otherwise unlock paid content for free.
+DROP POLICY IF EXISTS "Users can create own rentals" ON public.user_rentals;
@@ -0,0 +1,3 @@
+-- Settlement trusts payment_transactions rows (amount, provider, metadata), so only edge
+-- functions (service role) may create them. Users keep read access to their own rows.
+DROP POLICY IF EXISTS "Users can create own transactions" ON public.payment_transactions;
@@ -0,0 +1,144 @@
+-- Coupon limits: a released reservation no longer grants a free use
+
+-- Starting a new checkout abandons this user's earlier unpaid reservation of the same code.
+-- Its QR is failed as well, so paying the superseded code cannot settle at the discounted price.
+CREATE OR REPLACE FUNCTION public.redeem_coupon(
+  _code TEXT,
+  _user_id UUID,
+  _purpose TEXT,
+  _target_id UUID,
+  _amount NUMERIC,
+  _hold_until TIMESTAMP WITH TIME ZONE
+)
+RETURNS TABLE (redemption_id UUID, coupon_id UUID, code TEXT, discount_amount NUMERIC, final_amount NUMERIC)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _coupon_id UUID;
+  _result RECORD;
+  _redemption_id UUID;
+  _superseded UUID[];
+BEGIN
+  SELECT c.id INTO _coupon_id FROM public.coupons c WHERE c.code = upper(trim(_code)) FOR UPDATE;
+
+  IF _coupon_id IS NOT NULL THEN
+    WITH released AS (
+      UPDATE public.coupon_redemptions r
+      SET status = 'released'
+      WHERE r.coupon_id = _coupon_id
+        AND r.user_id = _user_id
+        AND r.status = 'reserved'
+      RETURNING r.payment_transaction_id
+    )
+    SELECT array_agg(payment_transaction_id) INTO _superseded
+    FROM released
+    WHERE payment_transaction_id IS NOT NULL;
+
+    IF _superseded IS NOT NULL THEN
+      UPDATE public.user_rentals ur
+      SET payment_status = 'failed'
+      FROM public.payment_transactions pt
+      WHERE pt.id = ANY(_superseded)
+        AND pt.payment_status IN ('pending', 'expired')
+        AND ur.transaction_id = pt.transaction_id
+        AND ur.payment_status IN ('pending', 'expired');
+
+      UPDATE public.payment_transactions pt
+      SET payment_status = 'failed'
+      WHERE pt.id = ANY(_superseded)
+        AND pt.payment_status IN ('pending', 'expired');
+    END IF;
+  END IF;
+
+  SELECT * INTO _result FROM public.validate_coupon(_code, _user_id, _purpose, _target_id, _amount);
+
+  INSERT INTO public.coupon_redemptions (
+    coupon_id, user_id, purpose, target_id,
+    original_amount, discount_amount, final_amount, expires_at
+  )
+  VALUES (
+    _result.coupon_id, _user_id, _purpose, _target_id,
+    _amount, _result.discount_amount, _result.final_amount, _hold_until
+  )
+  RETURNING id INTO _redemption_id;
+
+  RETURN QUERY SELECT _redemption_id, _result.coupon_id, _result.code, _result.discount_amount, _result.final_amount;
+END;
+$$;
+
+-- Called when the payment settles, before anything is granted. Returns false when the payment
+-- cannot be honoured at the discounted price: its reservation was released (the QR was paid after
+-- it expired) and taking the use now would exceed max_uses or max_uses_per_user.
+-- The coupon row lock serialises this with redeem_coupon, so limits are checked atomically.
+DROP FUNCTION IF EXISTS public.finalize_coupon_redemption(UUID);
+
+CREATE FUNCTION public.finalize_coupon_redemption(_payment_transaction_id UUID)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _redemption public.coupon_redemptions%ROWTYPE;
+  _coupon public.coupons%ROWTYPE;
+  _in_use INTEGER;
+  _user_uses INTEGER;
+BEGIN
+  SELECT * INTO _redemption
+  FROM public.coupon_redemptions
+  WHERE payment_transaction_id = _payment_transaction_id;
+
+  IF NOT FOUND OR _redemption.status = 'redeemed' THEN
+    RETURN true;
+  END IF;
+
+  SELECT * INTO _coupon FROM public.coupons WHERE id = _redemption.coupon_id FOR UPDATE;
+
+  -- Re-read under the lock: a concurrent redeem_coupon may have released it meanwhile
+  SELECT * INTO _redemption FROM public.coupon_redemptions WHERE id = _redemption.id;
+
+  IF _redemption.status = 'redeemed' THEN
+    RETURN true;
+  END IF;
+
+  IF _redemption.status = 'released' THEN
+    IF _coupon.max_uses IS NOT NULL THEN
+      SELECT count(*) INTO _in_use
+      FROM public.coupon_redemptions r
+      WHERE r.coupon_id = _coupon.id
+        AND r.status = 'reserved'
+        AND r.expires_at > now();
+
+      IF COALESCE(_coupon.used_count, 0) + _in_use >= _coupon.max_uses THEN
+        RETURN false;
+      END IF;
+    END IF;
+
+    IF _coupon.max_uses_per_user IS NOT NULL THEN
+      SELECT count(*) INTO _user_uses
+      FROM public.coupon_redemptions r
+      WHERE r.coupon_id = _coupon.id
+        AND r.user_id = _redemption.user_id
+        AND (r.status = 'redeemed' OR (r.status = 'reserved' AND r.expires_at > now()));
+
+      IF _user_uses >= _coupon.max_uses_per_user THEN
+        RETURN false;
+      END IF;
+    END IF;
+  END IF;
+
+  UPDATE public.coupon_redemptions
+  SET status = 'redeemed', redeemed_at = now()
+  WHERE id = _redemption.id;
+
+  UPDATE public.coupons
+  SET used_count = COALESCE(used_count, 0) + 1
+  WHERE id = _coupon.id;
+
+  RETURN true;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.finalize_coupon_redemption(UUID) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,92 @@
+-- Wallet ledger: a purchase is either refunded or reversed, never both
+-- Both functions lock the original entry first, so a refund and a reversal of the same
+-- purchase serialise and the second one sees the first.
+
+CREATE OR REPLACE FUNCTION public.wallet_refund(
+  _transaction_id UUID,
+  _amount NUMERIC,
+  _idempotency_key TEXT,
+  _description TEXT DEFAULT NULL
+)
+RETURNS public.wallet_transactions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _purchase public.wallet_transactions%ROWTYPE;
+  _refunded NUMERIC;
+BEGIN
+  SELECT * INTO _purchase FROM public.wallet_transactions WHERE id = _transaction_id FOR UPDATE;
+
+  IF NOT FOUND OR _purchase.transaction_type <> 'purchase' THEN
+    RAISE EXCEPTION 'NOT_A_PURCHASE';
+  END IF;
+
+  -- A replayed key returns the original refund even if the purchase was reversed since
+  IF NOT EXISTS (SELECT 1 FROM public.wallet_transactions WHERE idempotency_key = _idempotency_key) THEN
+    IF EXISTS (
+      SELECT 1 FROM public.wallet_transactions
+      WHERE reversed_transaction_id = _purchase.id AND transaction_type = 'reversal'
+    ) THEN
+      RAISE EXCEPTION 'ALREADY_REVERSED';
+    END IF;
+
+    SELECT COALESCE(sum(amount), 0) INTO _refunded
+    FROM public.wallet_transactions
+    WHERE reversed_transaction_id = _purchase.id
+      AND transaction_type = 'refund';
+
+    IF _refunded + abs(_amount) > abs(_purchase.amount) THEN
+      RAISE EXCEPTION 'REFUND_EXCEEDS_PURCHASE';
+    END IF;
+  END IF;
+
+  RETURN public.wallet_post_entry(
+    _purchase.user_id, abs(_amount), 'refund', _idempotency_key,
+    COALESCE(_description, 'Refund: ' || COALESCE(_purchase.description, 'purchase')),
+    _purchase.reference_id, _purchase.reference_type, _purchase.payment_transaction_id, _purchase.id
+  );
+END;
+$$;
+
+-- Undo an entry completely, e.g. a top-up that was charged back. A purchase that has
+-- already been partly or fully refunded can only be refunded further.
+CREATE OR REPLACE FUNCTION public.wallet_reverse(
+  _transaction_id UUID,
+  _idempotency_key TEXT,
+  _description TEXT DEFAULT NULL
+)
+RETURNS public.wallet_transactions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _original public.wallet_transactions%ROWTYPE;
+BEGIN
+  SELECT * INTO _original FROM public.wallet_transactions WHERE id = _transaction_id FOR UPDATE;
+
+  IF NOT FOUND OR _original.transaction_type = 'reversal' THEN
+    RAISE EXCEPTION 'NOT_REVERSIBLE';
+  END IF;
+
+  IF _original.transaction_type = 'purchase'
+    AND NOT EXISTS (SELECT 1 FROM public.wallet_transactions WHERE idempotency_key = _idempotency_key)
+    AND EXISTS (
+      SELECT 1 FROM public.wallet_transactions
+      WHERE reversed_transaction_id = _original.id AND transaction_type = 'refund'
+    ) THEN
+    RAISE EXCEPTION 'ALREADY_REFUNDED';
+  END IF;
+
+  RETURN public.wallet_post_entry(
+    _original.user_id, -_original.amount, 'reversal', _idempotency_key,
+    COALESCE(_description, 'Reversal: ' || COALESCE(_original.description, _original.transaction_type)),
+    _original.reference_id, _original.reference_type, _original.payment_transaction_id, _original.id
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.wallet_refund(UUID, NUMERIC, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.wallet_reverse(UUID, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,117 @@
+-- Mentions only ever show a member's public display name, never part of their email address
+
+-- Members without a display name cannot be found or mentioned
+CREATE OR REPLACE FUNCTION public.search_mentionable_users(_query TEXT, _limit INTEGER DEFAULT 8)
+RETURNS TABLE (id UUID, display_name TEXT, profile_picture_url TEXT)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT p.id, p.display_name, p.profile_picture_url
+  FROM profiles p
+  WHERE auth.uid() IS NOT NULL
+    AND length(trim(_query)) > 0
+    AND p.display_name ILIKE trim(_query) || '%'
+  ORDER BY p.display_name
+  LIMIT least(_limit, 20)
+$$;
+
+-- The name inside @[name](user id) comes from the client, so it is replaced with the member's
+-- current display name. Mentions of unknown or unnamed accounts are left as plain @name text.
+CREATE OR REPLACE FUNCTION public.resolve_comment_mentions()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _mentioned TEXT;
+  _name TEXT;
+  _pattern TEXT;
+BEGIN
+  FOR _mentioned IN
+    SELECT DISTINCT m[1] FROM regexp_matches(NEW.content, '@\[[^\]]+\]\(([0-9a-f-]{36})\)', 'g') AS m
+  LOOP
+    _pattern := '@\[([^\]]+)\]\(' || _mentioned || '\)';
+    _name := NULL;
+
+    IF _mentioned ~ '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$' THEN
+      SELECT nullif(trim(translate(display_name, '[]', '')), '') INTO _name
+      FROM profiles
+      WHERE id = _mentioned::UUID;
+    END IF;
+
+    IF _name IS NULL THEN
+      NEW.content := regexp_replace(NEW.content, _pattern, '@\1', 'g');
+    ELSE
+      -- Backslashes are escaped so the name is inserted literally
+      NEW.content := regexp_replace(
+        NEW.content, _pattern, '@[' || replace(_name, '\', '\\') || '](' || _mentioned || ')', 'g'
+      );
+    END IF;
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS resolve_comment_mentions ON public.comments;
+CREATE TRIGGER resolve_comment_mentions
+BEFORE INSERT OR UPDATE OF content ON public.comments
+FOR EACH ROW
+EXECUTE FUNCTION public.resolve_comment_mentions();
+
+-- Same as before, except the author is named by display name only
+CREATE OR REPLACE FUNCTION public.notify_comment_mentions()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _author TEXT;
+  _notification_id UUID;
+  _notified INTEGER;
+BEGIN
+  IF NEW.content !~ '@\[[^\]]+\]\([0-9a-f-]{36}\)' THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT display_name INTO _author FROM profiles WHERE id = NEW.user_id;
+
+  INSERT INTO notifications (title, message, type, link_url, status, audience, created_by, sent_at)
+  VALUES (
+    left(coalesce(_author, 'Someone') || ' mentioned you', 200),
+    left(regexp_replace(NEW.content, '@\[([^\]]+)\]\([0-9a-f-]{36}\)', '@\1', 'g'), 500),
+    'info',
+    comment_watch_path(NEW.id),
+    'sent',
+    'comment_mentions',
+    NEW.user_id,
+    now()
+  )
+  RETURNING id INTO _notification_id;
+
+  -- At most ten members per comment, never the author, only real accounts
+  INSERT INTO user_notifications (notification_id, user_id)
+  SELECT _notification_id, p.id
+  FROM (
+    SELECT DISTINCT m[1]::UUID AS user_id
+    FROM regexp_matches(NEW.content, '@\[[^\]]+\]\(([0-9a-f-]{36})\)', 'g') AS m
+    LIMIT 10
+  ) mentioned
+  JOIN profiles p ON p.id = mentioned.user_id
+  WHERE p.id <> NEW.user_id
+  ON CONFLICT (notification_id, user_id) DO NOTHING;
+
+  GET DIAGNOSTICS _notified = ROW_COUNT;
+  IF _notified = 0 THEN
+    DELETE FROM notifications WHERE id = _notification_id;
+  ELSE
+    UPDATE notifications SET recipient_count = _notified WHERE id = _notification_id;
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
@@ -0,0 +1,49 @@
+-- A superseded checkout keeps its QR payable. Only its coupon reservation is released: if the old QR
+-- is paid anyway, finalize_coupon_redemption re-checks the coupon's limits, and a payment the coupon
+-- can no longer cover is refunded to the wallet by settlement instead of being lost.
+CREATE OR REPLACE FUNCTION public.redeem_coupon(
+  _code TEXT,
+  _user_id UUID,
+  _purpose TEXT,
+  _target_id UUID,
+  _amount NUMERIC,
+  _hold_until TIMESTAMP WITH TIME ZONE
+)
+RETURNS TABLE (redemption_id UUID, coupon_id UUID, code TEXT, discount_amount NUMERIC, final_amount NUMERIC)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _coupon_id UUID;
+  _result RECORD;
+  _redemption_id UUID;
+BEGIN
+  SELECT c.id INTO _coupon_id FROM public.coupons c WHERE c.code = upper(trim(_code)) FOR UPDATE;
+
+  -- Starting a new checkout abandons this user's earlier unpaid reservation of the same code
+  IF _coupon_id IS NOT NULL THEN
+    UPDATE public.coupon_redemptions r
+    SET status = 'released'
+    WHERE r.coupon_id = _coupon_id
+      AND r.user_id = _user_id
+      AND r.status = 'reserved';
+  END IF;
+
+  SELECT * INTO _result FROM public.validate_coupon(_code, _user_id, _purpose, _target_id, _amount);
+
+  INSERT INTO public.coupon_redemptions (
+    coupon_id, user_id, purpose, target_id,
+    original_amount, discount_amount, final_amount, expires_at
+  )
+  VALUES (
+    _result.coupon_id, _user_id, _purpose, _target_id,
+    _amount, _result.discount_amount, _result.final_amount, _hold_until
+  )
+  RETURNING id INTO _redemption_id;
+
+  RETURN QUERY SELECT _redemption_id, _result.coupon_id, _result.code, _result.discount_amount, _result.final_amount;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.redeem_coupon(TEXT, UUID, TEXT, UUID, NUMERIC, TIMESTAMP WITH TIME ZONE) FROM PUBLIC, anon, authenticated;
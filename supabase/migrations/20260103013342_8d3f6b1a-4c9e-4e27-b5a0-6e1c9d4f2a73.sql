@@ -0,0 +1,45 @@
+-- A comment stays where it was posted: updates cannot move it to another thread or title.
+-- Only inserts derive the thread from the parent; updates that touch the placement are rejected.
+CREATE OR REPLACE FUNCTION public.set_comment_thread()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _parent public.comments%ROWTYPE;
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    IF NEW.parent_id IS DISTINCT FROM OLD.parent_id
+      OR NEW.root_id IS DISTINCT FROM OLD.root_id
+      OR NEW.movie_id IS DISTINCT FROM OLD.movie_id
+      OR NEW.episode_id IS DISTINCT FROM OLD.episode_id
+      OR NEW.anime_id IS DISTINCT FROM OLD.anime_id THEN
+      RAISE EXCEPTION 'THREAD_IMMUTABLE';
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.parent_id IS NULL THEN
+    NEW.root_id := NULL;
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO _parent FROM comments WHERE id = NEW.parent_id;
+  IF NOT FOUND OR _parent.is_deleted THEN
+    RAISE EXCEPTION 'PARENT_NOT_FOUND';
+  END IF;
+
+  NEW.root_id := coalesce(_parent.root_id, _parent.id);
+  NEW.movie_id := _parent.movie_id;
+  NEW.episode_id := _parent.episode_id;
+  NEW.anime_id := _parent.anime_id;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS set_comment_thread ON public.comments;
+CREATE TRIGGER set_comment_thread
+BEFORE INSERT OR UPDATE ON public.comments
+FOR EACH ROW
+EXECUTE FUNCTION public.set_comment_thread();